@@ -10,10 +10,14 @@ import ProjectDetailDashboard from "./pages/ProjectDetailDashboard";
 import DocumentUpload from "./pages/DocumentUpload";
 import FactVerification from "./pages/FactVerification";
 import OllamaConfig from "./pages/OllamaConfig";
+import DocumentTaxonomy from "./pages/DocumentTaxonomy";
+import FactKeyOntology from "./pages/FactKeyOntology";
 import ProcessingStatus from "./pages/ProcessingStatus";
 import { Documents } from "./pages/Documents";
 import RedFlags from "./pages/RedFlags";
 import Conflicts from "./pages/Conflicts";
+import Entities from "./pages/Entities";
+import ContractObligations from "./pages/ContractObligations";
 import PerformanceValidation from "./pages/PerformanceValidation";
 import { PerformanceParameters } from "./pages/PerformanceParameters";
 import { FinancialData } from "./pages/FinancialData";
@@ -30,10 +34,14 @@ function Router() {
       <Route path="/insights" component={FactVerification} />
       <Route path="/red-flags" component={RedFlags} />
       <Route path="/conflicts" component={Conflicts} />
+      <Route path="/entities" component={Entities} />
+      <Route path="/obligations" component={ContractObligations} />
       <Route path="/project/:projectId/performance" component={PerformanceValidation} />
       <Route path="/project/:projectId/performance-params" component={PerformanceParameters} />
       <Route path="/project/:projectId/financial" component={FinancialData} />
       <Route path="/ollama-config" component={OllamaConfig} />
+      <Route path="/document-taxonomy" component={DocumentTaxonomy} />
+      <Route path="/fact-keys" component={FactKeyOntology} />
       <Route path="/processing-status" component={ProcessingStatus} />
       <Route path="/404" component={NotFound} />
       {/* Final fallback route */}
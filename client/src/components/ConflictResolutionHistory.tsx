@@ -0,0 +1,112 @@
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { FileText, History, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  accept_a: "Accepted A",
+  accept_b: "Accepted B",
+  merge: "Merged",
+  ignore: "Ignored",
+};
+
+function FactLine({ label, value, sources, className }: { label: string; value: string; sources: string[]; className: string }) {
+  return (
+    <div className="flex items-start gap-3">
+      <Badge variant="outline" className={`shrink-0 ${className}`}>{label}</Badge>
+      <div className="min-w-0">
+        <p className="text-sm text-slate-200">{value}</p>
+        {sources.length > 0 && (
+          <p className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+            <FileText className="h-3 w-3" />
+            {sources.length} source document(s)
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Past conflict resolutions with the kept, superseded and merged values.
+ * Reverting restores the superseded facts and makes the conflict pending again.
+ */
+export function ConflictResolutionHistory({ projectId, onReverted }: { projectId: number; onReverted?: () => void }) {
+  const utils = trpc.useUtils();
+  const { data: resolutions } = trpc.conflicts.history.useQuery({ projectId: String(projectId) });
+
+  const revertMutation = trpc.conflicts.revert.useMutation({
+    onSuccess: () => {
+      toast.success("Resolution reverted - the conflict is pending again");
+      utils.conflicts.history.invalidate();
+      onReverted?.();
+    },
+    onError: (error) => toast.error(`Failed to revert resolution: ${error.message}`),
+  });
+
+  if (!resolutions || resolutions.length === 0) return null;
+
+  return (
+    <Card className="p-6 bg-slate-900/50 border-slate-800">
+      <div className="flex items-center gap-3 mb-4">
+        <History className="h-6 w-6 text-slate-400" />
+        <h2 className="text-xl font-bold text-white">Resolution History</h2>
+      </div>
+
+      <div className="divide-y divide-slate-800">
+        {resolutions.map((resolution) => (
+          <div key={resolution.id} className={`py-4 flex items-start gap-4 ${resolution.revertedAt ? "opacity-60" : ""}`}>
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge className="bg-slate-800 text-slate-200 border-slate-700">
+                  {RESOLUTION_LABELS[resolution.resolution] || resolution.resolution}
+                </Badge>
+                {resolution.factKey && (
+                  <span className="text-slate-400">{resolution.factKey.replace(/_/g, " ")}</span>
+                )}
+                <span className="text-slate-500">
+                  {resolution.resolvedBy || "Unknown"} · {new Date(resolution.resolvedAt).toLocaleString()}
+                </span>
+                {resolution.revertedAt && (
+                  <Badge variant="outline" className="border-amber-500/30 text-amber-400">
+                    Reverted by {resolution.revertedBy || "Unknown"} · {new Date(resolution.revertedAt).toLocaleString()}
+                  </Badge>
+                )}
+              </div>
+              {resolution.rationale && <p className="text-sm text-slate-300 italic">"{resolution.rationale}"</p>}
+
+              {resolution.merged && (
+                <FactLine label="Merged" value={resolution.merged.value} sources={resolution.merged.sourceDocuments} className="border-green-500/30 text-green-400" />
+              )}
+              {resolution.resolution !== "ignore" && resolution.kept.map((fact) => (
+                <FactLine key={fact.id} label="Kept" value={fact.value} sources={fact.sourceDocuments} className="border-blue-500/30 text-blue-400" />
+              ))}
+              {resolution.superseded.map((fact) => (
+                <FactLine key={fact.id} label="Superseded" value={fact.value} sources={fact.sourceDocuments} className="border-slate-600 text-slate-400" />
+              ))}
+            </div>
+
+            {!resolution.revertedAt && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-slate-700 hover:bg-slate-800"
+                disabled={revertMutation.isPending}
+                onClick={() => {
+                  if (confirm("Revert this resolution? Superseded insights are restored and the conflict becomes pending again.")) {
+                    revertMutation.mutate({ projectId: String(projectId), resolutionId: resolution.id });
+                  }
+                }}
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Revert
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
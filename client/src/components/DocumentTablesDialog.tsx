@@ -0,0 +1,81 @@
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface DocumentTablesDialogProps {
+  projectId: string;
+  documentId: string | null;
+  onClose: () => void;
+}
+
+const TYPE_STYLES: Record<string, string> = {
+  financial: "bg-green-500/20 text-green-400 border-green-500/30",
+  performance: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  other: "bg-slate-500/20 text-slate-400 border-slate-500/30",
+};
+
+/**
+ * Tables detected in a PDF document, as reconstructed for extraction
+ */
+export function DocumentTablesDialog({ projectId, documentId, onClose }: DocumentTablesDialogProps) {
+  const { data: tables, isLoading } = trpc.documents.listTables.useQuery(
+    { projectId, documentId: documentId || "" },
+    { enabled: !!documentId }
+  );
+
+  return (
+    <Dialog open={!!documentId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Extracted Tables</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Tables detected in this document. Financial and performance tables are passed to the extractors as structured rows.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-slate-400">Loading tables...</p>}
+        {tables && tables.length === 0 && (
+          <p className="text-sm text-slate-400">No tables were detected in this document.</p>
+        )}
+
+        <div className="space-y-6">
+          {tables?.map((table) => (
+            <div key={`${table.pageNumber}-${table.tableIndex}`}>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="text-sm font-semibold text-white">Page {table.pageNumber}</span>
+                {table.caption && <span className="text-sm text-slate-400">{table.caption}</span>}
+                <Badge className={TYPE_STYLES[table.tableType] || TYPE_STYLES.other}>{table.tableType}</Badge>
+                <Badge variant="outline" className="border-slate-600 text-slate-500">
+                  {table.detection === "ruled" ? "Ruled" : "Layout"}
+                </Badge>
+              </div>
+              <div className="rounded border border-slate-700">
+                <Table>
+                  {table.headers.length > 0 && (
+                    <TableHeader>
+                      <TableRow className="border-slate-700">
+                        {table.headers.map((header, i) => (
+                          <TableHead key={i} className="text-slate-300">{header}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                  )}
+                  <TableBody>
+                    {table.rows.map((row, r) => (
+                      <TableRow key={r} className="border-slate-800">
+                        {row.map((cell, c) => (
+                          <TableCell key={c} className="text-slate-300 text-xs">{cell}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
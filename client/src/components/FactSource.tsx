@@ -0,0 +1,36 @@
+import { FileText, Quote } from 'lucide-react';
+
+interface FactSourceProps {
+  documentName?: string | null;
+  sourcePage?: number | null;
+  sourceLocation?: string | null;
+  snippet?: string | null;
+  compact?: boolean;
+}
+
+/**
+ * Shows where a fact came from: document, page and the verbatim supporting text
+ */
+export function FactSource({ documentName, sourcePage, sourceLocation, snippet, compact }: FactSourceProps) {
+  if (!snippet && !sourceLocation && !documentName) return null;
+
+  const location = sourcePage ? `Page ${sourcePage}` : sourceLocation;
+
+  return (
+    <div className={compact ? 'mt-2' : 'mt-3'}>
+      <div className="flex items-center gap-2 text-xs text-slate-400">
+        <FileText className="h-3 w-3" />
+        <span>
+          {documentName || 'Unknown document'}
+          {location && <span className="text-slate-500"> · {location}</span>}
+        </span>
+      </div>
+      {snippet && (
+        <blockquote className="mt-1 flex gap-2 border-l-2 border-slate-700 pl-3 text-xs italic text-slate-400">
+          <Quote className="h-3 w-3 flex-shrink-0 mt-0.5 text-slate-600" />
+          <span className={compact ? 'line-clamp-2' : ''}>{snippet}</span>
+        </blockquote>
+      )}
+    </div>
+  );
+}
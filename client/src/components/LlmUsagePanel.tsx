@@ -0,0 +1,120 @@
+import { trpc } from "@/lib/trpc";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Cpu } from "lucide-react";
+
+const STAGE_LABELS: Record<string, string> = {
+  classification: "Classification",
+  extraction: "Extraction",
+  similarity: "Similarity & merge",
+  narrative: "Narratives",
+};
+
+interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  totalTokens: number;
+  latencyMs: number;
+}
+
+function formatLatency(ms: number) {
+  return ms >= 60000 ? `${(ms / 60000).toFixed(1)} min` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function UsageCells({ usage }: { usage: UsageTotals }) {
+  return (
+    <>
+      <TableCell className="text-slate-300 text-right">{usage.calls}</TableCell>
+      <TableCell className="text-slate-300 text-right">{usage.cachedCalls}</TableCell>
+      <TableCell className="text-white text-right font-medium">{usage.totalTokens.toLocaleString()}</TableCell>
+      <TableCell className="text-slate-300 text-right">{formatLatency(usage.latencyMs)}</TableCell>
+    </>
+  );
+}
+
+function UsageHeader({ label }: { label: string }) {
+  return (
+    <TableHeader>
+      <TableRow className="border-slate-800 hover:bg-slate-800/50">
+        <TableHead className="text-slate-300">{label}</TableHead>
+        <TableHead className="text-slate-300 text-right">Calls</TableHead>
+        <TableHead className="text-slate-300 text-right">Cached</TableHead>
+        <TableHead className="text-slate-300 text-right">Tokens</TableHead>
+        <TableHead className="text-slate-300 text-right">LLM time</TableHead>
+      </TableRow>
+    </TableHeader>
+  );
+}
+
+/**
+ * LLM tokens, latency and cache hits for a project, per stage and per document
+ */
+export function LlmUsagePanel({ projectId }: { projectId: number }) {
+  const { data: usage } = trpc.processing.llmUsage.useQuery(
+    { projectId: String(projectId) },
+    { refetchInterval: 10000 }
+  );
+
+  if (!usage || usage.totals.calls === 0) return null;
+
+  return (
+    <Card className="p-6 bg-slate-900/50 border-slate-800 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Cpu className="h-6 w-6 text-orange-400" />
+          <h2 className="text-xl font-bold text-white">LLM Usage</h2>
+        </div>
+        <p className="text-sm text-slate-400">
+          {usage.totals.totalTokens.toLocaleString()} tokens ({usage.totals.promptTokens.toLocaleString()} prompt,{" "}
+          {usage.totals.completionTokens.toLocaleString()} completion) · {usage.totals.calls} calls ·{" "}
+          {usage.totals.cachedCalls} cached
+          {usage.totals.failedCalls > 0 ? ` · ${usage.totals.failedCalls} failed` : ""}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Table>
+          <UsageHeader label="Stage" />
+          <TableBody>
+            {usage.byStage.map((row) => (
+              <TableRow key={row.stage} className="border-slate-800 hover:bg-slate-800/30">
+                <TableCell className="text-white">{STAGE_LABELS[row.stage] || row.stage}</TableCell>
+                <UsageCells usage={row} />
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <UsageHeader label="Document" />
+          <TableBody>
+            {usage.byDocument.length > 0 ? (
+              usage.byDocument.map((row) => (
+                <TableRow key={row.documentId} className="border-slate-800 hover:bg-slate-800/30">
+                  <TableCell className="text-white max-w-[200px] truncate" title={row.documentName || row.documentId}>
+                    {row.documentName || "Removed document"}
+                  </TableCell>
+                  <UsageCells usage={row} />
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-slate-400">
+                  No document-level usage yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { trpc } from "@/lib/trpc";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CalendarClock } from "lucide-react";
+import { formatTypedValue, periodEnd, type DateValue } from "../../../shared/units";
+
+const DAY_MS = 86400000;
+
+const STATUS_STYLES: Record<string, string> = {
+  achieved: "bg-green-500/20 text-green-300 border-green-500/30",
+  planned: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  overdue: "bg-red-500/20 text-red-300 border-red-500/30",
+};
+
+const ISSUE_LABELS: Record<string, string> = {
+  slipped: "Slipped",
+  contradictory: "Contradictory",
+  dependency: "Dependency",
+};
+
+function toTime(isoDate: string) {
+  return Date.parse(`${isoDate}T00:00:00Z`);
+}
+
+/**
+ * Gantt-style project schedule: milestones from all documents, with the
+ * planned period, the actual date, slips since the first document and
+ * contradictory dates flagged
+ */
+export function MilestoneTimeline({ projectId }: { projectId: number }) {
+  const { data: schedule } = trpc.milestones.schedule.useQuery({ projectId: String(projectId) });
+
+  if (!schedule || schedule.length === 0) return null;
+
+  // Time axis covering every date shown, and today
+  const today = new Date().toISOString().substring(0, 10);
+  const dates = schedule.flatMap((m) => [m.plannedDate, m.actualDate, m.baselineDate].filter((d): d is DateValue => !!d));
+  const start = Math.min(toTime(today), ...dates.map((d) => toTime(d.value))) - 30 * DAY_MS;
+  const end = Math.max(toTime(today), ...dates.map((d) => toTime(periodEnd(d)))) + 30 * DAY_MS;
+  const position = (time: number) => ((time - start) / (end - start)) * 100;
+
+  const firstYear = new Date(start).getUTCFullYear() + 1;
+  const lastYear = new Date(end).getUTCFullYear();
+  const years = Array.from({ length: Math.max(lastYear - firstYear + 1, 0) }, (_, i) => firstYear + i);
+
+  const issueCount = schedule.reduce((sum, m) => sum + m.issues.length, 0);
+
+  // Bar over the period of a date ("Q3 2027" spans the quarter); single days get a minimum width
+  const bar = (date: DateValue, className: string, title: string) => {
+    const left = position(toTime(date.value));
+    const width = Math.max(position(toTime(periodEnd(date)) + DAY_MS) - left, 0.8);
+    return (
+      <div
+        className={`absolute top-1 bottom-1 rounded-sm ${className}`}
+        style={{ left: `${left}%`, width: `${width}%` }}
+        title={title}
+      />
+    );
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-700">
+      <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-teal-400" />
+          Project Schedule
+        </h2>
+        <p className="text-sm text-slate-400">
+          {schedule.length} milestones
+          {issueCount > 0 ? ` · ${issueCount} ${issueCount === 1 ? "issue" : "issues"}` : ""}
+        </p>
+      </div>
+
+      <div className="p-4 space-y-1">
+        {/* Year axis */}
+        <div className="grid grid-cols-[12rem_1fr] gap-3">
+          <div />
+          <div className="relative h-5 text-xs text-slate-500">
+            {years.map((year) => (
+              <span
+                key={year}
+                className="absolute -translate-x-1/2"
+                style={{ left: `${position(toTime(`${year}-01-01`))}%` }}
+              >
+                {year}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {schedule.map((milestone) => (
+          <div key={milestone.key} className="grid grid-cols-[12rem_1fr] gap-3 items-center">
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="text-sm text-slate-200 truncate" title={milestone.name}>
+                {milestone.name}
+              </span>
+              <Badge variant="outline" className={`text-[10px] px-1.5 py-0 ${STATUS_STYLES[milestone.status]}`}>
+                {milestone.status}
+              </Badge>
+              {milestone.issues.length > 0 && (
+                <span title={milestone.issues.map((i) => i.message).join("\n")}>
+                  <AlertTriangle className="h-3.5 w-3.5 text-amber-400 shrink-0" />
+                </span>
+              )}
+            </div>
+            <div className="relative h-7 rounded bg-slate-800/60">
+              {years.map((year) => (
+                <div
+                  key={year}
+                  className="absolute top-0 bottom-0 border-l border-slate-700/60"
+                  style={{ left: `${position(toTime(`${year}-01-01`))}%` }}
+                />
+              ))}
+              {/* Slip since the first document that dated the milestone */}
+              {milestone.baselineDate && milestone.plannedDate && milestone.slipDays > 0 && (
+                <div
+                  className="absolute top-3 h-1 bg-amber-500/60"
+                  style={{
+                    left: `${position(toTime(milestone.baselineDate.value))}%`,
+                    width: `${position(toTime(milestone.plannedDate.value)) - position(toTime(milestone.baselineDate.value))}%`,
+                  }}
+                  title={`Slipped ${milestone.slipDays} days from ${formatTypedValue(milestone.baselineDate)}`}
+                />
+              )}
+              {milestone.plannedDate &&
+                bar(
+                  milestone.plannedDate,
+                  milestone.status === "overdue" ? "bg-red-500/70" : "bg-blue-500/70",
+                  `Planned: ${formatTypedValue(milestone.plannedDate)}`
+                )}
+              {milestone.actualDate &&
+                bar(milestone.actualDate, "bg-green-500/80", `Achieved: ${formatTypedValue(milestone.actualDate)}`)}
+              <div
+                className="absolute top-0 bottom-0 border-l-2 border-dashed border-teal-400/70"
+                style={{ left: `${position(toTime(today))}%` }}
+                title="Today"
+              />
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-4 pt-2 text-xs text-slate-400">
+          <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-blue-500/70" /> Planned</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-green-500/80" /> Achieved</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-red-500/70" /> Overdue</span>
+          <span className="flex items-center gap-1"><span className="h-1 w-3 bg-amber-500/60" /> Slip</span>
+          <span className="flex items-center gap-1"><span className="h-3 border-l-2 border-dashed border-teal-400/70" /> Today</span>
+        </div>
+      </div>
+
+      {issueCount > 0 && (
+        <div className="p-4 border-t border-slate-700 space-y-2">
+          {schedule.flatMap((milestone) =>
+            milestone.issues.map((issue, index) => (
+              <div key={`${milestone.key}-${index}`} className="flex items-start gap-2 text-sm">
+                <AlertTriangle className="h-4 w-4 text-amber-400 mt-0.5 shrink-0" />
+                <span className="text-slate-200 font-medium">{milestone.name}</span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-amber-500/30 text-amber-300">
+                  {ISSUE_LABELS[issue.type]}
+                </Badge>
+                <span className="text-slate-400">{issue.message}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+
+interface OutputFailuresDialogProps {
+  projectId: string;
+  jobId: number | null;
+  onClose: () => void;
+}
+
+/**
+ * LLM outputs that failed schema validation for a processing job, with the raw output
+ */
+export function OutputFailuresDialog({ projectId, jobId, onClose }: OutputFailuresDialogProps) {
+  const { data: failures, isLoading } = trpc.processing.listOutputFailures.useQuery(
+    { projectId, jobId: jobId || 0 },
+    { enabled: !!jobId }
+  );
+
+  return (
+    <Dialog open={!!jobId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Invalid LLM Outputs</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Responses that still failed validation after the repair attempts. The data they should have produced is missing from this job.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-slate-400">Loading...</p>}
+        {failures && failures.length === 0 && (
+          <p className="text-sm text-slate-400">No invalid outputs were recorded for this job.</p>
+        )}
+
+        <div className="space-y-6">
+          {failures?.map((failure) => (
+            <div key={failure.id}>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="text-sm font-semibold text-white">{failure.label}</span>
+                <Badge variant="outline" className="border-slate-600 text-slate-400">{failure.stage}</Badge>
+                <span className="text-xs text-slate-500">
+                  {failure.attempts} attempt{failure.attempts === 1 ? "" : "s"}
+                </span>
+              </div>
+              <p className="text-xs text-red-400 mb-2">{failure.error}</p>
+              {failure.rawOutput ? (
+                <pre className="text-xs text-slate-300 bg-slate-950 border border-slate-800 rounded p-3 max-h-64 overflow-auto whitespace-pre-wrap break-words">
+                  {failure.rawOutput}
+                </pre>
+              ) : (
+                <p className="text-xs text-slate-500">No output was returned.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
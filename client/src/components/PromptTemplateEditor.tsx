@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileCode, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+type TemplateKey = "fact_structured" | "fact_relationships" | "fact_risks" | "fact_assumptions"
+  | "performance_parameters" | "financial_data" | "weather_references" | "section_narrative" | "entities" | "milestones"
+  | "contract_obligations" | "fact_key_mapping";
+
+/**
+ * Edit the LLM prompt templates. Saving creates a new version; older versions
+ * (and the built-in version 0) can be re-activated.
+ */
+export function PromptTemplateEditor() {
+  const [templateKey, setTemplateKey] = useState<TemplateKey>("fact_structured");
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [body, setBody] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: templates } = trpc.prompts.list.useQuery();
+  const { data: versions, isLoading } = trpc.prompts.versions.useQuery({ key: templateKey });
+
+  const template = templates?.find((t) => t.key === templateKey);
+  const shown = versions?.find((v) => v.version === selectedVersion) ?? versions?.find((v) => v.isActive);
+
+  // Load the active version whenever the template changes
+  useEffect(() => {
+    setSelectedVersion(null);
+  }, [templateKey]);
+
+  useEffect(() => {
+    if (!shown) return;
+    setSystemPrompt(shown.systemPrompt);
+    setBody(shown.body);
+    setNotes("");
+  }, [shown?.key, shown?.version]);
+
+  const refresh = () => {
+    utils.prompts.list.invalidate();
+    utils.prompts.versions.invalidate({ key: templateKey });
+  };
+
+  const saveMutation = trpc.prompts.save.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Saved and activated version ${data.version}`);
+      setSelectedVersion(data.version);
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to save template: ${error.message}`),
+  });
+
+  const activateMutation = trpc.prompts.activate.useMutation({
+    onSuccess: () => {
+      toast.success("Template version activated");
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to activate version: ${error.message}`),
+  });
+
+  const isDirty = !!shown && (systemPrompt !== shown.systemPrompt || body !== shown.body);
+
+  return (
+    <Card className="p-6 bg-slate-900/50 border-slate-800">
+      <div className="flex items-center gap-3 mb-6">
+        <FileCode className="h-6 w-6 text-orange-400" />
+        <h2 className="text-xl font-bold text-white">Prompt Templates</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-slate-300">Template</Label>
+            <Select value={templateKey} onValueChange={(value) => setTemplateKey(value as TemplateKey)}>
+              <SelectTrigger className="mt-2 bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates?.map((t) => (
+                  <SelectItem key={t.key} value={t.key}>
+                    {t.key} (v{t.activeVersion})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300">Version</Label>
+            <Select
+              value={shown ? String(shown.version) : ""}
+              onValueChange={(value) => setSelectedVersion(parseInt(value))}
+            >
+              <SelectTrigger className="mt-2 bg-slate-800 border-slate-700">
+                <SelectValue placeholder="Loading..." />
+              </SelectTrigger>
+              <SelectContent>
+                {versions?.map((v) => (
+                  <SelectItem key={v.version} value={String(v.version)}>
+                    v{v.version}{v.isActive ? " (active)" : ""}{v.notes ? ` · ${v.notes}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {template && (
+          <div>
+            <p className="text-sm text-slate-400">{template.description}</p>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {template.variables.map((variable) => (
+                <Badge key={variable} variant="outline" className="border-slate-600 text-slate-400 font-mono">
+                  {`{{${variable}}}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-orange-400" />
+          </div>
+        ) : (
+          <>
+            <div>
+              <Label className="text-slate-300">System prompt</Label>
+              <Textarea
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                rows={3}
+                className="mt-2 bg-slate-800 border-slate-700 text-white font-mono text-xs"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Prompt</Label>
+              <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={16}
+                className="mt-2 bg-slate-800 border-slate-700 text-white font-mono text-xs"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Change notes</Label>
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed in this version"
+                className="mt-2 bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {shown && !shown.isActive && (
+            <Button
+              variant="outline"
+              className="border-slate-700 hover:bg-slate-800"
+              disabled={activateMutation.isPending}
+              onClick={() => activateMutation.mutate({ key: templateKey, version: shown.version })}
+            >
+              Activate v{shown.version}
+            </Button>
+          )}
+          <Button
+            className="bg-orange-500 hover:bg-orange-600"
+            disabled={!isDirty || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ key: templateKey, systemPrompt, body, notes: notes || null })}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
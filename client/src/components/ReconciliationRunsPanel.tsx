@@ -0,0 +1,84 @@
+import { trpc } from "@/lib/trpc";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GitCompare } from "lucide-react";
+
+function formatDuration(ms: number) {
+  if (ms >= 60000) return `${(ms / 60000).toFixed(1)} min`;
+  if (ms >= 1000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${ms} ms`;
+}
+
+/**
+ * Counts and timings of the latest reconciliation runs: facts are compared by
+ * local embeddings, so LLM calls are only spent on merging near-duplicates
+ */
+export function ReconciliationRunsPanel({ projectId }: { projectId: number }) {
+  const { data: runs } = trpc.processing.reconciliationRuns.useQuery(
+    { projectId: String(projectId) },
+    { refetchInterval: 10000 }
+  );
+
+  if (!runs || runs.length === 0) return null;
+
+  const latest = runs[0];
+
+  return (
+    <Card className="p-6 bg-slate-900/50 border-slate-800 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <GitCompare className="h-6 w-6 text-cyan-400" />
+          <h2 className="text-xl font-bold text-white">Reconciliation</h2>
+        </div>
+        <p className="text-sm text-slate-400">
+          Last run: {latest.pairsCompared.toLocaleString()} fact pairs compared locally in {formatDuration(latest.clusteringMs)} ·{" "}
+          {latest.llmCalls} LLM merge calls · {formatDuration(latest.totalMs)} total
+        </p>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-slate-800 hover:bg-slate-800/50">
+            <TableHead className="text-slate-300">Run</TableHead>
+            <TableHead className="text-slate-300 text-right">Facts</TableHead>
+            <TableHead className="text-slate-300 text-right">Embeddings (new / reused)</TableHead>
+            <TableHead className="text-slate-300 text-right">Pairs compared</TableHead>
+            <TableHead className="text-slate-300 text-right">Merges</TableHead>
+            <TableHead className="text-slate-300 text-right">Conflicts</TableHead>
+            <TableHead className="text-slate-300 text-right">LLM calls</TableHead>
+            <TableHead className="text-slate-300 text-right">Embedding</TableHead>
+            <TableHead className="text-slate-300 text-right">Clustering</TableHead>
+            <TableHead className="text-slate-300 text-right">LLM</TableHead>
+            <TableHead className="text-slate-300 text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.map((run) => (
+            <TableRow key={run.id} className="border-slate-800 hover:bg-slate-800/30">
+              <TableCell className="text-white">{new Date(run.createdAt).toLocaleString()}</TableCell>
+              <TableCell className="text-slate-300 text-right">{run.facts}</TableCell>
+              <TableCell className="text-slate-300 text-right">
+                {run.embeddingsComputed} / {run.embeddingsReused}
+              </TableCell>
+              <TableCell className="text-slate-300 text-right">{run.pairsCompared.toLocaleString()}</TableCell>
+              <TableCell className="text-slate-300 text-right">{run.merges}</TableCell>
+              <TableCell className="text-slate-300 text-right">{run.conflicts}</TableCell>
+              <TableCell className="text-white text-right font-medium">{run.llmCalls}</TableCell>
+              <TableCell className="text-slate-300 text-right">{formatDuration(run.embeddingMs)}</TableCell>
+              <TableCell className="text-slate-300 text-right">{formatDuration(run.clusteringMs)}</TableCell>
+              <TableCell className="text-slate-300 text-right">{formatDuration(run.llmMs)}</TableCell>
+              <TableCell className="text-white text-right font-medium">{formatDuration(run.totalMs)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
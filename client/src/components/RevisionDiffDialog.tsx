@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight } from "lucide-react";
+
+interface RevisionDiffDialogProps {
+  projectId: string;
+  documentId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Facts added, removed and changed between two revisions of the same document
+ */
+export function RevisionDiffDialog({ projectId, documentId, onClose }: RevisionDiffDialogProps) {
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  const { data: revisions } = trpc.documents.listRevisions.useQuery(
+    { projectId, documentId: documentId || "" },
+    { enabled: !!documentId }
+  );
+
+  // Default to the selected document against the revision before it
+  useEffect(() => {
+    if (!revisions || revisions.length < 2 || !documentId) return;
+    const index = Math.max(1, revisions.findIndex((r: any) => r.id === documentId));
+    setFromId(revisions[index - 1].id);
+    setToId(revisions[index].id);
+  }, [revisions, documentId]);
+
+  const { data: diff, isLoading } = trpc.documents.diffRevisions.useQuery(
+    { projectId, fromDocumentId: fromId, toDocumentId: toId },
+    { enabled: !!fromId && !!toId && fromId !== toId }
+  );
+
+  const revisionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-900 border-slate-700">
+        {revisions?.map((r: any) => (
+          <SelectItem key={r.id} value={r.id} className="text-white focus:bg-slate-800">
+            Rev {r.revisionNumber} · {r.fileName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={!!documentId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-slate-900 border-slate-700 max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white">Compare Revisions</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Facts added, removed and changed between two revisions of the same document.
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisions && revisions.length < 2 ? (
+          <p className="text-sm text-slate-400">This document has no other revisions.</p>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="flex-1">{revisionSelect(fromId, setFromId)}</div>
+            <ArrowRight className="h-4 w-4 text-slate-500 flex-shrink-0" />
+            <div className="flex-1">{revisionSelect(toId, setToId)}</div>
+          </div>
+        )}
+
+        {isLoading && <p className="text-sm text-slate-400">Comparing facts...</p>}
+
+        {diff && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge className="bg-green-500/20 text-green-400 border-green-500/30">{diff.added.length} added</Badge>
+              <Badge className="bg-red-500/20 text-red-400 border-red-500/30">{diff.removed.length} removed</Badge>
+              <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">{diff.changed.length} changed</Badge>
+              <Badge variant="outline" className="border-slate-600 text-slate-400">{diff.unchangedCount} unchanged</Badge>
+            </div>
+
+            {diff.changed.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-yellow-400 mb-2">Changed</h4>
+                <div className="space-y-2">
+                  {diff.changed.map((c) => (
+                    <div key={`${c.before.id}-${c.after.id}`} className="rounded border border-slate-700 p-3 text-sm">
+                      <p className="text-xs text-slate-500 mb-1">{c.key.replace(/_/g, " ")}</p>
+                      <p className="text-red-300 line-through decoration-red-500/50">{c.before.value}</p>
+                      <p className="text-green-300 mt-1">{c.after.value}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {diff.added.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-green-400 mb-2">Added</h4>
+                <div className="space-y-2">
+                  {diff.added.map((f) => (
+                    <div key={f.id} className="rounded border border-green-500/20 p-3 text-sm text-slate-300">
+                      <p className="text-xs text-slate-500 mb-1">{f.key.replace(/_/g, " ")}</p>
+                      {f.value}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-red-400 mb-2">Removed</h4>
+                <div className="space-y-2">
+                  {diff.removed.map((f) => (
+                    <div key={f.id} className="rounded border border-red-500/20 p-3 text-sm text-slate-400">
+                      <p className="text-xs text-slate-500 mb-1">{f.key.replace(/_/g, " ")}</p>
+                      {f.value}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Scale } from "lucide-react";
+import { toast } from "sonner";
+
+interface AuthorityModel {
+  executedPoints: number;
+  draftPoints: number;
+  pointsPerYear: number;
+  maxRecencyPoints: number;
+  revisionPoints: number;
+  minMargin: number;
+}
+
+const FIELDS: Array<{ key: keyof AuthorityModel; label: string; hint: string }> = [
+  { key: "executedPoints", label: "Executed", hint: "Signed or executed documents" },
+  { key: "draftPoints", label: "Draft", hint: "Drafts and documents subject to contract (negative)" },
+  { key: "pointsPerYear", label: "Per year newer", hint: "For the more recent document date" },
+  { key: "maxRecencyPoints", label: "Recency cap", hint: "Most points a newer date can add" },
+  { key: "revisionPoints", label: "Per revision", hint: "For each revision after the first" },
+  { key: "minMargin", label: "Minimum margin", hint: "Smaller score gaps give no suggestion" },
+];
+
+/**
+ * Weights of the source authority model used to suggest conflict resolutions.
+ * They add to the authority rank of each document type, which is edited with
+ * the document taxonomy.
+ */
+export function SourceAuthorityDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [form, setForm] = useState<AuthorityModel | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data } = trpc.conflicts.authorityModel.useQuery(undefined, { enabled: open });
+
+  useEffect(() => {
+    if (open && data) setForm(data.model);
+  }, [open, data]);
+
+  const saveMutation = trpc.conflicts.saveAuthorityModel.useMutation({
+    onSuccess: () => {
+      toast.success("Source authority saved");
+      utils.conflicts.authorityModel.invalidate();
+      utils.conflicts.list.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(`Failed to save source authority: ${error.message}`),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-800 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Scale className="h-5 w-5 text-amber-400" />
+            Source Authority
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Each side of a conflict scores the rank of its document type plus these points. The higher score is
+            suggested when it wins by at least the minimum margin. Changes apply to all projects.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form && (
+          <div className="grid grid-cols-3 gap-4">
+            {FIELDS.map((field) => (
+              <div key={field.key}>
+                <Label className="text-slate-300">{field.label}</Label>
+                <Input
+                  type="number"
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: parseInt(e.target.value) || 0 })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+                <p className="text-xs text-slate-500 mt-1">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <Label className="text-slate-300">Document type ranks</Label>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {data?.typeRanks.map((type) => (
+              <Badge key={type.code} variant="outline" className="border-slate-700 text-slate-300">
+                {type.label} <span className="ml-1 font-mono text-amber-400">{type.authorityRank}</span>
+              </Badge>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">Type ranks are edited under Document Taxonomy.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="border-slate-700" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => form && saveMutation.mutate(form)}
+            disabled={!form || saveMutation.isPending}
+            className="bg-amber-500 hover:bg-amber-600 text-white"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
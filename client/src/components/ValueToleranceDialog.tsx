@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SlidersHorizontal, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+type ValueKind = "power" | "energy" | "voltage" | "currency" | "percentage" | "number" | "date";
+
+// Unit of the absolute tolerance per kind of value
+const KIND_UNITS: Record<ValueKind, string> = {
+  power: "MW",
+  energy: "MWh",
+  voltage: "kV",
+  currency: "amount",
+  percentage: "pp",
+  number: "",
+  date: "",
+};
+
+const EMPTY_FORM = { factKey: "*", valueKind: "power" as ValueKind, relativePercent: "", absolute: "", days: "", notes: "" };
+
+function toNumber(text: string): number | null {
+  return text.trim() === "" ? null : Number(text);
+}
+
+/**
+ * Tolerances within which fact values from different documents count as the
+ * same during reconciliation. They apply to all projects from the next run.
+ */
+export function ValueToleranceDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const utils = trpc.useUtils();
+  const { data: rules } = trpc.conflicts.tolerances.useQuery(undefined, { enabled: open });
+
+  const saveMutation = trpc.conflicts.saveTolerance.useMutation({
+    onSuccess: () => {
+      toast.success("Tolerance saved");
+      utils.conflicts.tolerances.invalidate();
+      setForm(EMPTY_FORM);
+    },
+    onError: (error) => toast.error(`Failed to save tolerance: ${error.message}`),
+  });
+
+  const deleteMutation = trpc.conflicts.deleteTolerance.useMutation({
+    onSuccess: () => utils.conflicts.tolerances.invalidate(),
+    onError: (error) => toast.error(`Failed to delete tolerance: ${error.message}`),
+  });
+
+  const isDate = form.valueKind === "date";
+
+  const submit = () => {
+    saveMutation.mutate({
+      factKey: form.factKey,
+      valueKind: form.valueKind,
+      relativePercent: isDate ? null : toNumber(form.relativePercent),
+      absolute: isDate ? null : toNumber(form.absolute),
+      days: isDate ? toNumber(form.days) : null,
+      notes: form.notes || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-800 max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-cyan-400" />
+            Comparison Tolerances
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Values within the tolerance count as the same. A rule for a fact key overrides the * rule of its kind.
+            Changes apply to all projects from the next reconciliation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="border-slate-800 hover:bg-slate-800/50">
+              <TableHead className="text-slate-300">Fact key</TableHead>
+              <TableHead className="text-slate-300">Kind</TableHead>
+              <TableHead className="text-slate-300 text-right">Relative</TableHead>
+              <TableHead className="text-slate-300 text-right">Absolute</TableHead>
+              <TableHead className="text-slate-300 text-right">Days</TableHead>
+              <TableHead className="text-slate-300">Notes</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules?.map((rule) => (
+              <TableRow
+                key={`${rule.factKey}:${rule.valueKind}`}
+                className="border-slate-800 hover:bg-slate-800/30 cursor-pointer"
+                onClick={() => setForm({
+                  factKey: rule.factKey,
+                  valueKind: rule.valueKind as ValueKind,
+                  relativePercent: rule.relativePercent?.toString() ?? "",
+                  absolute: rule.absolute?.toString() ?? "",
+                  days: rule.days?.toString() ?? "",
+                  notes: rule.notes ?? "",
+                })}
+              >
+                <TableCell className="text-white font-mono">{rule.factKey}</TableCell>
+                <TableCell className="text-slate-300">{rule.valueKind}</TableCell>
+                <TableCell className="text-slate-300 text-right">{rule.relativePercent !== null ? `${rule.relativePercent} %` : "—"}</TableCell>
+                <TableCell className="text-slate-300 text-right">
+                  {rule.absolute !== null ? `${rule.absolute} ${KIND_UNITS[rule.valueKind as ValueKind] ?? ""}` : "—"}
+                </TableCell>
+                <TableCell className="text-slate-300 text-right">{rule.days ?? "—"}</TableCell>
+                <TableCell className="text-slate-400 text-sm">{rule.notes}</TableCell>
+                <TableCell className="text-right">
+                  {rule.id !== null && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-slate-500 hover:text-red-400"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteMutation.mutate({ id: rule.id! });
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {/* Add or update a rule (matched by fact key and kind) */}
+        <div className="grid grid-cols-6 gap-3 items-end pt-2">
+          <div>
+            <Label className="text-slate-300">Fact key</Label>
+            <Input
+              value={form.factKey}
+              onChange={(e) => setForm({ ...form, factKey: e.target.value })}
+              className="mt-2 bg-slate-800 border-slate-700 text-white font-mono"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Kind</Label>
+            <Select value={form.valueKind} onValueChange={(value) => setForm({ ...form, valueKind: value as ValueKind })}>
+              <SelectTrigger className="mt-2 bg-slate-800 border-slate-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(KIND_UNITS) as ValueKind[]).map((kind) => (
+                  <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isDate ? (
+            <div className="col-span-2">
+              <Label className="text-slate-300">Days between periods</Label>
+              <Input
+                type="number"
+                min={0}
+                value={form.days}
+                onChange={(e) => setForm({ ...form, days: e.target.value })}
+                className="mt-2 bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label className="text-slate-300">Relative %</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={form.relativePercent}
+                  onChange={(e) => setForm({ ...form, relativePercent: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Absolute {KIND_UNITS[form.valueKind]}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.absolute}
+                  onChange={(e) => setForm({ ...form, absolute: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </>
+          )}
+          <div>
+            <Label className="text-slate-300">Notes</Label>
+            <Input
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="mt-2 bg-slate-800 border-slate-700 text-white"
+            />
+          </div>
+          <Button
+            onClick={submit}
+            disabled={saveMutation.isPending}
+            className="bg-cyan-500 hover:bg-cyan-600 text-white"
+          >
+            Save Rule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
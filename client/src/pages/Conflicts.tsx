@@ -4,6 +4,7 @@ import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
@@ -13,8 +14,27 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { AlertTriangle, ArrowLeft, CheckCircle, XCircle, GitMerge, EyeOff, FileText } from "lucide-react";
+import { ValueToleranceDialog } from "@/components/ValueToleranceDialog";
+import { ConflictResolutionHistory } from "@/components/ConflictResolutionHistory";
+import { SourceAuthorityDialog } from "@/components/SourceAuthorityDialog";
+import { AlertTriangle, ArrowLeft, CheckCircle, XCircle, GitMerge, EyeOff, FileText, Scale, SlidersHorizontal, Sparkles } from "lucide-react";
 import { toast } from "sonner";
+import { formatTypedValue, type TypedValue } from "../../../shared/units";
+
+interface AuthorityScore {
+  documentId: string | null;
+  fileName: string | null;
+  score: number;
+  factors: Array<{ factor: string; points: number; text: string }>;
+}
+
+interface ResolutionSuggestion {
+  resolution: "accept_a" | "accept_b" | null;
+  margin: number;
+  sideA: AuthorityScore;
+  sideB: AuthorityScore;
+  explanation: string;
+}
 
 interface Conflict {
   id: string;
@@ -22,12 +42,58 @@ interface Conflict {
   insight_b_id: string;
   insight_a_value: string;
   insight_a_confidence: string;
-  insight_a_sources: string | null;
+  insight_a_sources: string | string[] | null;
   insight_b_value: string;
   insight_b_confidence: string;
-  insight_b_sources: string | null;
+  insight_b_sources: string | string[] | null;
+  fact_key: string;
+  conflict_type: "value_mismatch" | "date_mismatch" | "numerical_mismatch";
+  typed_value_a: TypedValue | string | null;
+  typed_value_b: TypedValue | string | null;
+  magnitude: string | null;
   resolution_status: string;
   created_at: string;
+  suggestion: ResolutionSuggestion | null;
+}
+
+type Resolution = "accept_a" | "accept_b" | "merge" | "ignore";
+
+const RESOLUTION_TEXT: Record<Resolution, { title: string; description: string }> = {
+  accept_a: { title: "Accept Insight A", description: "Insight B is kept as superseded evidence and can be restored by reverting." },
+  accept_b: { title: "Accept Insight B", description: "Insight A is kept as superseded evidence and can be restored by reverting." },
+  merge: { title: "Merge Conflicting Insights", description: "Both insights are replaced by the merged statement, which keeps the sources of both." },
+  ignore: { title: "Ignore Conflict", description: "Both insights remain as they are." },
+};
+
+const CONFLICT_TYPE_LABELS: Record<Conflict["conflict_type"], string> = {
+  value_mismatch: "Value mismatch",
+  date_mismatch: "Date mismatch",
+  numerical_mismatch: "Numerical mismatch",
+};
+
+// Highlight of the suggested resolution button
+const SUGGESTED_RING = "ring-2 ring-amber-400/70 ring-offset-2 ring-offset-slate-900";
+
+// JSON columns arrive parsed or as text depending on the driver
+function readTypedValue(value: TypedValue | string | null): TypedValue | null {
+  if (!value) return null;
+  return typeof value === "string" ? JSON.parse(value) : value;
+}
+
+// Strongest source document of one side and how its authority score adds up
+function AuthorityLine({ score }: { score: AuthorityScore }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 mt-2">
+      <Scale className="h-3 w-3" />
+      <span className="text-slate-400">{score.fileName}</span>
+      {score.factors.map((factor) => (
+        <span key={factor.factor}>
+          {factor.text} {factor.points >= 0 ? "+" : ""}{factor.points}
+        </span>
+      ))}
+      <Badge variant="outline" className="border-slate-700 text-slate-300 font-mono">{score.score}</Badge>
+    </div>
+  );
 }
 
 export default function Conflicts() {
@@ -36,10 +102,14 @@ export default function Conflicts() {
   const projectIdParam = params.get("projectId");
   const projectId = projectIdParam ? parseInt(projectIdParam) : undefined;
 
-  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
-  const [selectedConflict, setSelectedConflict] = useState<Conflict | null>(null);
+  const [pending, setPending] = useState<{ conflict: Conflict; resolution: Resolution } | null>(null);
   const [mergedValue, setMergedValue] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [tolerancesOpen, setTolerancesOpen] = useState(false);
+  const [authorityOpen, setAuthorityOpen] = useState(false);
+  const [minMargin, setMinMargin] = useState(40);
 
+  const utils = trpc.useUtils();
   const { data: conflicts, isLoading, refetch } = trpc.conflicts.list.useQuery(
     { projectId: String(projectId || 0) },
     { enabled: !!projectId }
@@ -47,70 +117,61 @@ export default function Conflicts() {
 
   const resolveMutation = trpc.conflicts.resolve.useMutation({
     onSuccess: () => {
-      toast.success("Conflict resolved successfully");
+      toast.success("Conflict resolved - it can be reverted from the resolution history");
       refetch();
-      setMergeDialogOpen(false);
+      utils.conflicts.history.invalidate();
+      setPending(null);
     },
     onError: (error) => {
       toast.error(`Failed to resolve conflict: ${error.message}`);
     },
   });
 
-  const handleAcceptA = (conflict: Conflict) => {
-    if (!projectId) return;
-    
-    if (confirm("Keep Insight A and delete Insight B?")) {
-      resolveMutation.mutate({
-        projectId: String(projectId),
-        conflictId: conflict.id,
-        resolution: "accept_a",
-      });
-    }
-  };
+  const acceptSuggestionsMutation = trpc.conflicts.acceptSuggestions.useMutation({
+    onSuccess: ({ accepted, skipped }) => {
+      // Skipped: both facts were already superseded by stronger values of the same key
+      toast.success(`Accepted ${accepted} suggested resolution(s)${skipped > 0 ? `, skipped ${skipped} on values already superseded` : ''}`);
+      refetch();
+      utils.conflicts.history.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to accept suggestions: ${error.message}`);
+    },
+  });
+
+  const confidentSuggestions = (conflicts as Conflict[] | undefined)?.filter(
+    (c) => c.suggestion?.resolution && c.suggestion.margin >= minMargin
+  ).length ?? 0;
 
-  const handleAcceptB = (conflict: Conflict) => {
-    if (!projectId) return;
-    
-    if (confirm("Keep Insight B and delete Insight A?")) {
-      resolveMutation.mutate({
-        projectId: String(projectId),
-        conflictId: conflict.id,
-        resolution: "accept_b",
-      });
+  const acceptSuggestions = () => {
+    if (!projectId || confidentSuggestions === 0) return;
+    if (confirm(`Accept ${confidentSuggestions} suggested resolution(s) with a margin of at least ${minMargin} points? Each one can be reverted from the resolution history.`)) {
+      acceptSuggestionsMutation.mutate({ projectId: String(projectId), minMargin });
     }
   };
 
-  const handleMerge = (conflict: Conflict) => {
-    setSelectedConflict(conflict);
-    setMergedValue(`${conflict.insight_a_value}\n\n${conflict.insight_b_value}`);
-    setMergeDialogOpen(true);
+  const openResolution = (conflict: Conflict, resolution: Resolution) => {
+    setPending({ conflict, resolution });
+    // Following the suggestion: its explanation is the rationale unless edited
+    setRationale(conflict.suggestion?.resolution === resolution ? conflict.suggestion.explanation : "");
+    setMergedValue(resolution === "merge" ? `${conflict.insight_a_value}\n\n${conflict.insight_b_value}` : "");
   };
 
-  const handleIgnore = (conflict: Conflict) => {
-    if (!projectId) return;
-    
-    if (confirm("Mark this conflict as ignored? Both insights will remain.")) {
-      resolveMutation.mutate({
-        projectId: String(projectId),
-        conflictId: conflict.id,
-        resolution: "ignore",
-      });
-    }
-  };
+  const submitResolution = () => {
+    if (!pending || !projectId) return;
 
-  const submitMerge = () => {
-    if (!selectedConflict || !projectId) return;
-    
     resolveMutation.mutate({
       projectId: String(projectId),
-      conflictId: selectedConflict.id,
-      resolution: "merge",
-      mergedValue,
+      conflictId: pending.conflict.id,
+      resolution: pending.resolution,
+      mergedValue: pending.resolution === "merge" ? mergedValue : undefined,
+      rationale: rationale.trim() || undefined,
     });
   };
 
-  const parseSourceDocs = (sources: string | null): string[] => {
+  const parseSourceDocs = (sources: string | string[] | null): string[] => {
     if (!sources) return [];
+    if (Array.isArray(sources)) return sources;
     try {
       return JSON.parse(sources);
     } catch {
@@ -141,9 +202,46 @@ export default function Conflicts() {
               Resolve conflicting information from multiple documents
             </p>
           </div>
-          <Badge className="bg-red-500/20 text-red-400 border-red-500/30 text-lg px-4 py-2">
-            {conflicts?.length || 0} pending
-          </Badge>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={minMargin}
+                onChange={(e) => setMinMargin(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 bg-slate-800 border-slate-700 text-white"
+                title="Minimum score margin"
+              />
+              <Button
+                onClick={acceptSuggestions}
+                className="bg-amber-500/20 hover:bg-amber-500/30 text-amber-400 border border-amber-500/30"
+                disabled={confidentSuggestions === 0 || acceptSuggestionsMutation.isPending}
+                title="Accept every suggestion that wins by at least this many points"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                Accept {confidentSuggestions} suggestion(s)
+              </Button>
+            </div>
+            <Button
+              onClick={() => setAuthorityOpen(true)}
+              variant="outline"
+              className="border-slate-700 hover:bg-slate-800"
+            >
+              <Scale className="h-4 w-4 mr-2" />
+              Authority
+            </Button>
+            <Button
+              onClick={() => setTolerancesOpen(true)}
+              variant="outline"
+              className="border-slate-700 hover:bg-slate-800"
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Tolerances
+            </Button>
+            <Badge className="bg-red-500/20 text-red-400 border-red-500/30 text-lg px-4 py-2">
+              {conflicts?.length || 0} pending
+            </Badge>
+          </div>
         </div>
       </div>
 
@@ -160,136 +258,199 @@ export default function Conflicts() {
             <p className="text-slate-400">All insights are consistent across documents</p>
           </Card>
         ) : (
-          conflicts.map((conflict: Conflict) => (
-            <Card key={conflict.id} className="bg-slate-900/50 border-slate-800 overflow-hidden">
-              {/* Conflict Header */}
-              <div className="p-4 bg-red-500/10 border-b border-slate-800 flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <AlertTriangle className="h-5 w-5 text-red-400" />
-                  <span className="text-red-400 font-medium">Conflicting Information Detected</span>
+          conflicts.map((conflict: Conflict) => {
+            const valueA = readTypedValue(conflict.typed_value_a);
+            const valueB = readTypedValue(conflict.typed_value_b);
+            const suggested = conflict.suggestion?.resolution ?? null;
+            return (
+              <Card key={conflict.id} className="bg-slate-900/50 border-slate-800 overflow-hidden">
+                {/* Conflict Header */}
+                <div className="p-4 bg-red-500/10 border-b border-slate-800 flex items-center justify-between">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <AlertTriangle className="h-5 w-5 text-red-400" />
+                    <span className="text-red-400 font-medium">
+                      {CONFLICT_TYPE_LABELS[conflict.conflict_type] || "Conflicting Information Detected"}
+                    </span>
+                    {conflict.fact_key && (
+                      <Badge variant="outline" className="border-slate-700 text-slate-400">
+                        {conflict.fact_key.replace(/_/g, " ")}
+                      </Badge>
+                    )}
+                    {valueA && valueB && (
+                      <span className="text-sm text-slate-300">
+                        {formatTypedValue(valueA)} → {formatTypedValue(valueB)}
+                      </span>
+                    )}
+                    {conflict.magnitude && (
+                      <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30 font-mono">
+                        {conflict.magnitude}
+                      </Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-slate-500">
+                    {new Date(conflict.created_at).toLocaleDateString()}
+                  </span>
                 </div>
-                <span className="text-xs text-slate-500">
-                  {new Date(conflict.created_at).toLocaleDateString()}
-                </span>
-              </div>
 
-              {/* Side-by-Side Comparison */}
-              <div className="grid grid-cols-2 divide-x divide-slate-800">
-                {/* Insight A */}
-                <div className="p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-white">Insight A</h3>
-                    <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">
-                      {(parseFloat(conflict.insight_a_confidence) * 100).toFixed(0)}% confidence
-                    </Badge>
+                {/* Side-by-Side Comparison */}
+                <div className="grid grid-cols-2 divide-x divide-slate-800">
+                  {/* Insight A */}
+                  <div className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-white">Insight A</h3>
+                      <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">
+                        {(parseFloat(conflict.insight_a_confidence) * 100).toFixed(0)}% confidence
+                      </Badge>
+                    </div>
+                    <p className="text-slate-200 leading-relaxed mb-4">{conflict.insight_a_value}</p>
+                    {parseSourceDocs(conflict.insight_a_sources).length > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-slate-400">
+                        <FileText className="h-4 w-4" />
+                        {parseSourceDocs(conflict.insight_a_sources).length} source document(s)
+                      </div>
+                    )}
+                    {conflict.suggestion?.sideA.fileName && (
+                      <AuthorityLine score={conflict.suggestion.sideA} />
+                    )}
                   </div>
-                  <p className="text-slate-200 leading-relaxed mb-4">{conflict.insight_a_value}</p>
-                  {parseSourceDocs(conflict.insight_a_sources).length > 0 && (
-                    <div className="flex items-center gap-2 text-sm text-slate-400">
-                      <FileText className="h-4 w-4" />
-                      {parseSourceDocs(conflict.insight_a_sources).length} source document(s)
+
+                  {/* Insight B */}
+                  <div className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-white">Insight B</h3>
+                      <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
+                        {(parseFloat(conflict.insight_b_confidence) * 100).toFixed(0)}% confidence
+                      </Badge>
                     </div>
-                  )}
+                    <p className="text-slate-200 leading-relaxed mb-4">{conflict.insight_b_value}</p>
+                    {parseSourceDocs(conflict.insight_b_sources).length > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-slate-400">
+                        <FileText className="h-4 w-4" />
+                        {parseSourceDocs(conflict.insight_b_sources).length} source document(s)
+                      </div>
+                    )}
+                    {conflict.suggestion?.sideB.fileName && (
+                      <AuthorityLine score={conflict.suggestion.sideB} />
+                    )}
+                  </div>
                 </div>
 
-                {/* Insight B */}
-                <div className="p-6">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-white">Insight B</h3>
-                    <Badge className="bg-purple-500/20 text-purple-400 border-purple-500/30">
-                      {(parseFloat(conflict.insight_b_confidence) * 100).toFixed(0)}% confidence
-                    </Badge>
+                {/* Suggested Resolution */}
+                {conflict.suggestion && (
+                  <div className="px-6 py-3 border-t border-slate-800 flex items-start gap-3 text-sm">
+                    <Scale className={`h-4 w-4 mt-0.5 shrink-0 ${suggested ? "text-amber-400" : "text-slate-500"}`} />
+                    <p className={suggested ? "text-amber-200" : "text-slate-400"}>
+                      {conflict.suggestion.explanation}
+                    </p>
                   </div>
-                  <p className="text-slate-200 leading-relaxed mb-4">{conflict.insight_b_value}</p>
-                  {parseSourceDocs(conflict.insight_b_sources).length > 0 && (
-                    <div className="flex items-center gap-2 text-sm text-slate-400">
-                      <FileText className="h-4 w-4" />
-                      {parseSourceDocs(conflict.insight_b_sources).length} source document(s)
-                    </div>
-                  )}
-                </div>
-              </div>
+                )}
 
-              {/* Resolution Actions */}
-              <div className="p-4 bg-slate-800/50 border-t border-slate-800 flex items-center justify-center gap-3">
-                <Button
-                  onClick={() => handleAcceptA(conflict)}
-                  className="bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 border border-blue-500/30"
-                  disabled={resolveMutation.isPending}
-                >
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Accept A
-                </Button>
-                <Button
-                  onClick={() => handleAcceptB(conflict)}
-                  className="bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 border border-purple-500/30"
-                  disabled={resolveMutation.isPending}
-                >
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Accept B
-                </Button>
-                <Button
-                  onClick={() => handleMerge(conflict)}
-                  className="bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
-                  disabled={resolveMutation.isPending}
-                >
-                  <GitMerge className="h-4 w-4 mr-2" />
-                  Merge Both
-                </Button>
-                <Button
-                  onClick={() => handleIgnore(conflict)}
-                  variant="outline"
-                  className="border-slate-700 hover:bg-slate-800"
-                  disabled={resolveMutation.isPending}
-                >
-                  <EyeOff className="h-4 w-4 mr-2" />
-                  Ignore
-                </Button>
-              </div>
-            </Card>
-          ))
+                {/* Resolution Actions */}
+                <div className="p-4 bg-slate-800/50 border-t border-slate-800 flex items-center justify-center gap-3">
+                  <Button
+                    onClick={() => openResolution(conflict, "accept_a")}
+                    className={`bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 border border-blue-500/30 ${suggested === "accept_a" ? SUGGESTED_RING : ""}`}
+                    disabled={resolveMutation.isPending}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept A{suggested === "accept_a" && " (suggested)"}
+                  </Button>
+                  <Button
+                    onClick={() => openResolution(conflict, "accept_b")}
+                    className={`bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 border border-purple-500/30 ${suggested === "accept_b" ? SUGGESTED_RING : ""}`}
+                    disabled={resolveMutation.isPending}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Accept B{suggested === "accept_b" && " (suggested)"}
+                  </Button>
+                  <Button
+                    onClick={() => openResolution(conflict, "merge")}
+                    className="bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/30"
+                    disabled={resolveMutation.isPending}
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge Both
+                  </Button>
+                  <Button
+                    onClick={() => openResolution(conflict, "ignore")}
+                    variant="outline"
+                    className="border-slate-700 hover:bg-slate-800"
+                    disabled={resolveMutation.isPending}
+                  >
+                    <EyeOff className="h-4 w-4 mr-2" />
+                    Ignore
+                  </Button>
+                </div>
+              </Card>
+            );
+          })
         )}
       </div>
 
-      {/* Merge Dialog */}
-      <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
+      {/* Resolution History */}
+      {projectId && (
+        <div className="max-w-7xl mx-auto mt-10">
+          <ConflictResolutionHistory projectId={projectId} onReverted={() => refetch()} />
+        </div>
+      )}
+
+      <ValueToleranceDialog open={tolerancesOpen} onOpenChange={setTolerancesOpen} />
+      <SourceAuthorityDialog open={authorityOpen} onOpenChange={setAuthorityOpen} />
+
+      {/* Resolution Dialog */}
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
         <DialogContent className="bg-slate-900 border-slate-800 max-w-3xl">
           <DialogHeader>
             <DialogTitle className="text-white flex items-center gap-2">
-              <GitMerge className="h-5 w-5 text-green-400" />
-              Merge Conflicting Insights
+              {pending?.resolution === "merge" ? (
+                <GitMerge className="h-5 w-5 text-green-400" />
+              ) : (
+                <CheckCircle className="h-5 w-5 text-blue-400" />
+              )}
+              {pending && RESOLUTION_TEXT[pending.resolution].title}
             </DialogTitle>
             <DialogDescription className="text-slate-400">
-              Combine both insights into a single statement that captures all relevant information
+              {pending && RESOLUTION_TEXT[pending.resolution].description}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
+            {pending?.resolution === "merge" && (
+              <div>
+                <label className="text-sm text-slate-400 mb-2 block">Merged Value</label>
+                <Textarea
+                  value={mergedValue}
+                  onChange={(e) => setMergedValue(e.target.value)}
+                  className="bg-slate-800 border-slate-700 text-white min-h-[200px] resize-y"
+                  placeholder="Enter the merged insight statement..."
+                />
+                <p className="text-xs text-slate-500 mt-1">{mergedValue.length} characters</p>
+              </div>
+            )}
             <div>
-              <label className="text-sm text-slate-400 mb-2 block">Merged Value</label>
+              <label className="text-sm text-slate-400 mb-2 block">Rationale</label>
               <Textarea
-                value={mergedValue}
-                onChange={(e) => setMergedValue(e.target.value)}
-                className="bg-slate-800 border-slate-700 text-white min-h-[200px] resize-y"
-                placeholder="Enter the merged insight statement..."
+                value={rationale}
+                onChange={(e) => setRationale(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white min-h-[80px] resize-y"
+                placeholder="Why this resolution, e.g. the grid study supersedes the IM figure..."
               />
-              <p className="text-xs text-slate-500 mt-1">{mergedValue.length} characters</p>
             </div>
           </div>
           <DialogFooter>
             <Button
-              onClick={() => setMergeDialogOpen(false)}
+              onClick={() => setPending(null)}
               variant="outline"
               className="border-slate-700"
             >
               Cancel
             </Button>
             <Button
-              onClick={submitMerge}
+              onClick={submitResolution}
               className="bg-green-500 hover:bg-green-600 text-white"
-              disabled={!mergedValue.trim() || resolveMutation.isPending}
+              disabled={(pending?.resolution === "merge" && !mergedValue.trim()) || resolveMutation.isPending}
             >
-              <GitMerge className="h-4 w-4 mr-2" />
-              Create Merged Insight
+              {pending?.resolution === "merge" ? <GitMerge className="h-4 w-4 mr-2" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+              {pending?.resolution === "merge" ? "Create Merged Insight" : "Confirm"}
             </Button>
           </DialogFooter>
         </DialogContent>
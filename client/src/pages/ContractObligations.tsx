@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FactSource } from "@/components/FactSource";
+import { ArrowLeft, FileSignature, FileText, Search } from "lucide-react";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  term: "Term",
+  tariff: "Tariff",
+  indexation: "Indexation",
+  liquidated_damages: "Liquidated damages",
+  liability_cap: "Liability cap",
+  performance_guarantee: "Performance guarantee",
+  termination: "Termination",
+  condition_precedent: "Condition precedent",
+  obligation: "Obligation",
+};
+
+const CATEGORY_STYLES: Record<string, string> = {
+  term: "border-sky-500/30 text-sky-400",
+  tariff: "border-green-500/30 text-green-400",
+  indexation: "border-emerald-500/30 text-emerald-400",
+  liquidated_damages: "border-red-500/30 text-red-400",
+  liability_cap: "border-orange-500/30 text-orange-400",
+  performance_guarantee: "border-purple-500/30 text-purple-400",
+  termination: "border-rose-500/30 text-rose-400",
+  condition_precedent: "border-amber-500/30 text-amber-400",
+  obligation: "border-slate-500/30 text-slate-300",
+};
+
+export default function ContractObligations() {
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(window.location.search);
+  const projectIdParam = params.get("projectId");
+  const projectId = projectIdParam ? parseInt(projectIdParam) : undefined;
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [documentFilter, setDocumentFilter] = useState("all");
+
+  const { data: clauses, isLoading } = trpc.contracts.obligations.useQuery(
+    { projectId: String(projectId || 0) },
+    { enabled: !!projectId }
+  );
+
+  const documents = Array.from(
+    new Map((clauses || []).map((clause) => [clause.documentId, clause.fileName || clause.documentId])).entries()
+  );
+
+  const categoryCounts = (clauses || []).reduce<Record<string, number>>((counts, clause) => {
+    counts[clause.category] = (counts[clause.category] || 0) + 1;
+    return counts;
+  }, {});
+
+  const filteredClauses = (clauses || []).filter((clause) => {
+    if (categoryFilter !== "all" && clause.category !== categoryFilter) return false;
+    if (documentFilter !== "all" && clause.documentId !== documentFilter) return false;
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return [clause.title, clause.summary, clause.party, clause.value, clause.sourceText]
+      .some((text) => text?.toLowerCase().includes(query));
+  });
+
+  // Clauses grouped by contract, in clause order
+  const byDocument = filteredClauses.reduce<Map<string, typeof filteredClauses>>((groups, clause) => {
+    groups.set(clause.documentId, [...(groups.get(clause.documentId) || []), clause]);
+    return groups;
+  }, new Map());
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-white p-8">
+      {/* Header */}
+      <div className="max-w-7xl mx-auto mb-8">
+        <Button
+          onClick={() => navigate(`/project-dashboard?projectId=${projectId}`)}
+          variant="ghost"
+          className="mb-4 text-slate-400 hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Project
+        </Button>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <FileSignature className="h-8 w-8 text-rose-400" />
+              Contract Obligations
+            </h1>
+            <p className="text-slate-400">
+              Term, pricing, damages, guarantees, termination rights, conditions precedent and obligations of the project contracts
+            </p>
+          </div>
+          <Badge className="bg-rose-500/20 text-rose-400 border-rose-500/30 text-lg px-4 py-2">
+            {clauses?.length || 0} clauses
+          </Badge>
+        </div>
+
+        {Object.keys(categoryCounts).length > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+            {Object.entries(CATEGORY_LABELS)
+              .filter(([category]) => categoryCounts[category])
+              .map(([category, label]) => (
+                <Badge
+                  key={category}
+                  variant="outline"
+                  className={`cursor-pointer ${CATEGORY_STYLES[category]} ${categoryFilter === category ? "bg-slate-800" : ""}`}
+                  onClick={() => setCategoryFilter(categoryFilter === category ? "all" : category)}
+                >
+                  {label} {categoryCounts[category]}
+                </Badge>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="max-w-7xl mx-auto mb-6 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[240px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search clauses, parties and amounts..."
+            className="pl-9 bg-slate-900 border-slate-700 text-white"
+          />
+        </div>
+        <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+          <SelectTrigger className="w-56 bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All clause types</SelectItem>
+            {Object.entries(CATEGORY_LABELS).map(([category, label]) => (
+              <SelectItem key={category} value={category}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={documentFilter} onValueChange={setDocumentFilter}>
+          <SelectTrigger className="w-64 bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All contracts</SelectItem>
+            {documents.map(([documentId, fileName]) => (
+              <SelectItem key={documentId} value={documentId}>{fileName}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Clauses by contract */}
+      <div className="max-w-7xl mx-auto space-y-6">
+        {isLoading ? (
+          <Card className="p-8 bg-slate-900/50 border-slate-800 text-center">
+            <p className="text-slate-400">Loading clauses...</p>
+          </Card>
+        ) : byDocument.size === 0 ? (
+          <Card className="p-8 bg-slate-900/50 border-slate-800 text-center">
+            <FileSignature className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-300 text-lg font-medium mb-2">No contract clauses found</p>
+            <p className="text-slate-400">
+              Clauses are extracted from documents whose extraction profile includes contract obligations
+            </p>
+          </Card>
+        ) : (
+          Array.from(byDocument.entries()).map(([documentId, documentClauses]) => (
+            <Card key={documentId} className="bg-slate-900/50 border-slate-800 overflow-hidden">
+              <div className="p-4 border-b border-slate-800 flex items-center gap-2">
+                <FileText className="h-4 w-4 text-slate-400" />
+                <span className="font-semibold text-white">{documentClauses[0].fileName || documentId}</span>
+                {documentClauses[0].documentType && (
+                  <Badge variant="outline" className="border-slate-700 text-slate-400">
+                    {documentClauses[0].documentType}
+                  </Badge>
+                )}
+              </div>
+              <div className="divide-y divide-slate-800">
+                {documentClauses.map((clause) => (
+                  <div key={clause.id} className="p-4 flex items-start gap-4">
+                    <span className="w-14 shrink-0 text-sm font-mono text-slate-500">
+                      {clause.clauseReference ? `§${clause.clauseReference}` : "—"}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline" className={CATEGORY_STYLES[clause.category]}>
+                          {CATEGORY_LABELS[clause.category] || clause.category}
+                        </Badge>
+                        <span className="font-medium text-white">{clause.title}</span>
+                        {clause.party && (
+                          <Badge variant="outline" className="border-indigo-500/30 text-indigo-400">
+                            {clause.party}
+                          </Badge>
+                        )}
+                        {clause.value && (
+                          <Badge variant="outline" className="border-cyan-500/30 text-cyan-400">
+                            {clause.value}
+                          </Badge>
+                        )}
+                      </div>
+                      {clause.summary && <p className="text-sm text-slate-300 mt-1">{clause.summary}</p>}
+                      <FactSource
+                        documentName={clause.fileName}
+                        sourcePage={clause.pageNumber}
+                        sourceLocation={clause.clauseReference ? `Clause ${clause.clauseReference}` : null}
+                        snippet={clause.sourceText !== clause.summary ? clause.sourceText : null}
+                        compact
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ))
+        )}
+      </div>
+    </main>
+  );
+}
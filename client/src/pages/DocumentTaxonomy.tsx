@@ -0,0 +1,490 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Edit, Layers, Loader2, Plus, Tags, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const PASSES = [
+  { value: "structured", label: "Structured data" },
+  { value: "relationships", label: "Relationships" },
+  { value: "risks", label: "Risks" },
+  { value: "assumptions", label: "Assumptions" },
+] as const;
+
+const EXTRACTORS = [
+  { value: "deterministic", label: "Pattern matching" },
+  { value: "spreadsheet", label: "Spreadsheet cells" },
+  { value: "pdf_tables", label: "PDF tables" },
+  { value: "location", label: "Site location" },
+  { value: "entities", label: "Entity register" },
+  { value: "milestones", label: "Milestone schedule" },
+  { value: "contract_obligations", label: "Contract obligations" },
+] as const;
+
+type PassName = (typeof PASSES)[number]["value"];
+type ExtractorName = (typeof EXTRACTORS)[number]["value"];
+
+interface TypeForm {
+  code: string;
+  label: string;
+  description: string;
+  classificationHints: string;
+  extractionProfileId: number | null;
+  isActive: boolean;
+  sortOrder: number;
+  authorityRank: number;
+  isNew: boolean;
+}
+
+interface ProfileForm {
+  id: number | null;
+  name: string;
+  description: string;
+  passes: PassName[];
+  extractors: ExtractorName[];
+  promptInstructions: string;
+}
+
+const NO_PROFILE = "none";
+
+function toggle<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list, value] : list.filter((v) => v !== value);
+}
+
+export default function DocumentTaxonomy() {
+  const [, navigate] = useLocation();
+  const [typeForm, setTypeForm] = useState<TypeForm | null>(null);
+  const [profileForm, setProfileForm] = useState<ProfileForm | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: types, isLoading: typesLoading } = trpc.taxonomy.listTypes.useQuery({ includeInactive: true });
+  const { data: profiles, isLoading: profilesLoading } = trpc.taxonomy.listProfiles.useQuery();
+
+  const refresh = () => {
+    utils.taxonomy.listTypes.invalidate();
+    utils.taxonomy.listProfiles.invalidate();
+  };
+
+  const saveTypeMutation = trpc.taxonomy.saveType.useMutation({
+    onSuccess: () => {
+      toast.success("Document type saved");
+      setTypeForm(null);
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to save document type: ${error.message}`),
+  });
+
+  const saveProfileMutation = trpc.taxonomy.saveProfile.useMutation({
+    onSuccess: () => {
+      toast.success("Extraction profile saved");
+      setProfileForm(null);
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to save profile: ${error.message}`),
+  });
+
+  const deleteProfileMutation = trpc.taxonomy.deleteProfile.useMutation({
+    onSuccess: () => {
+      toast.success("Extraction profile deleted");
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to delete profile: ${error.message}`),
+  });
+
+  const handleSaveType = () => {
+    if (!typeForm) return;
+    const { isNew, ...values } = typeForm;
+    saveTypeMutation.mutate(values);
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileForm) return;
+    saveProfileMutation.mutate(profileForm);
+  };
+
+  const isLoading = typesLoading || profilesLoading;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={() => navigate("/projects")}
+              variant="ghost"
+              size="sm"
+              className="text-slate-400 hover:text-white"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Document Taxonomy</h1>
+              <p className="text-sm text-slate-400 mt-1">Document types used for classification and the extraction profile each one runs</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-5xl">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-orange-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Document Types */}
+            <Card className="p-6 bg-slate-900/50 border-slate-800">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <Tags className="h-6 w-6 text-orange-400" />
+                  <h2 className="text-xl font-bold text-white">Document Types</h2>
+                </div>
+                <Button
+                  size="sm"
+                  className="bg-orange-500 hover:bg-orange-600"
+                  onClick={() => setTypeForm({
+                    code: "",
+                    label: "",
+                    description: "",
+                    classificationHints: "",
+                    extractionProfileId: null,
+                    isActive: true,
+                    sortOrder: 500,
+                    authorityRank: 50,
+                    isNew: true,
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Type
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {types?.map((type) => (
+                  <div key={type.code} className="flex items-start justify-between gap-4 rounded border border-slate-800 p-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-white">{type.label}</span>
+                        <Badge variant="outline" className="border-slate-600 text-slate-400">{type.code}</Badge>
+                        {type.profileName && (
+                          <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">{type.profileName}</Badge>
+                        )}
+                        <Badge variant="outline" className="border-amber-500/30 text-amber-400" title="Authority rank when sources disagree">
+                          Authority {type.authorityRank}
+                        </Badge>
+                        {!type.isActive && (
+                          <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30">Inactive</Badge>
+                        )}
+                      </div>
+                      {type.description && <p className="text-sm text-slate-400 mt-1">{type.description}</p>}
+                      {type.classificationHints && (
+                        <p className="text-xs text-slate-500 mt-1">Indicators: {type.classificationHints}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={type.id === null}
+                      onClick={() => setTypeForm({
+                        code: type.code,
+                        label: type.label,
+                        description: type.description || "",
+                        classificationHints: type.classificationHints || "",
+                        extractionProfileId: type.extractionProfileId,
+                        isActive: type.isActive,
+                        sortOrder: type.sortOrder,
+                        authorityRank: type.authorityRank,
+                        isNew: false,
+                      })}
+                      title="Edit document type"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {/* Extraction Profiles */}
+            <Card className="p-6 bg-slate-900/50 border-slate-800">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <Layers className="h-6 w-6 text-orange-400" />
+                  <h2 className="text-xl font-bold text-white">Extraction Profiles</h2>
+                </div>
+                <Button
+                  size="sm"
+                  className="bg-orange-500 hover:bg-orange-600"
+                  onClick={() => setProfileForm({
+                    id: null,
+                    name: "",
+                    description: "",
+                    passes: PASSES.map((p) => p.value),
+                    extractors: EXTRACTORS.map((e) => e.value),
+                    promptInstructions: "",
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Profile
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {profiles?.map((profile) => (
+                  <div key={profile.id} className="flex items-start justify-between gap-4 rounded border border-slate-800 p-3">
+                    <div className="min-w-0">
+                      <span className="font-medium text-white">{profile.name}</span>
+                      {profile.description && <p className="text-sm text-slate-400 mt-1">{profile.description}</p>}
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {profile.passes.length === 0 && (
+                          <Badge variant="outline" className="border-slate-700 text-slate-500">No LLM passes</Badge>
+                        )}
+                        {profile.passes.map((pass) => (
+                          <Badge key={pass} className="bg-orange-500/20 text-orange-400 border-orange-500/30">
+                            {PASSES.find((p) => p.value === pass)?.label || pass}
+                          </Badge>
+                        ))}
+                        {profile.extractors.map((extractor) => (
+                          <Badge key={extractor} variant="outline" className="border-slate-600 text-slate-400">
+                            {EXTRACTORS.find((e) => e.value === extractor)?.label || extractor}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setProfileForm({
+                          id: profile.id,
+                          name: profile.name,
+                          description: profile.description || "",
+                          passes: profile.passes,
+                          extractors: profile.extractors,
+                          promptInstructions: profile.promptInstructions || "",
+                        })}
+                        title="Edit profile"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={deleteProfileMutation.isPending}
+                        onClick={() => profile.id !== null && deleteProfileMutation.mutate({ id: profile.id })}
+                        title="Delete profile"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-400" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Document Type Dialog */}
+      <Dialog open={!!typeForm} onOpenChange={(open) => !open && setTypeForm(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white">{typeForm?.isNew ? "Add Document Type" : "Edit Document Type"}</DialogTitle>
+          </DialogHeader>
+          {typeForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-slate-300">Code</Label>
+                  <Input
+                    value={typeForm.code}
+                    disabled={!typeForm.isNew}
+                    onChange={(e) => setTypeForm({ ...typeForm, code: e.target.value })}
+                    placeholder="ESIA"
+                    className="mt-2 bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">Label</Label>
+                  <Input
+                    value={typeForm.label}
+                    onChange={(e) => setTypeForm({ ...typeForm, label: e.target.value })}
+                    placeholder="Environmental Impact Assessment"
+                    className="mt-2 bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-slate-300">Description</Label>
+                <Input
+                  value={typeForm.description}
+                  onChange={(e) => setTypeForm({ ...typeForm, description: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Classification hints</Label>
+                <Textarea
+                  value={typeForm.classificationHints}
+                  onChange={(e) => setTypeForm({ ...typeForm, classificationHints: e.target.value })}
+                  placeholder="Titles, headings or terms that identify this type"
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-slate-300">Extraction profile</Label>
+                  <Select
+                    value={typeForm.extractionProfileId !== null ? String(typeForm.extractionProfileId) : NO_PROFILE}
+                    onValueChange={(value) => setTypeForm({ ...typeForm, extractionProfileId: value === NO_PROFILE ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger className="mt-2 bg-slate-800 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      <SelectItem value={NO_PROFILE} className="text-white focus:bg-slate-800">Full extraction (default)</SelectItem>
+                      {profiles?.map((profile) => (
+                        <SelectItem key={profile.id} value={String(profile.id)} className="text-white focus:bg-slate-800">
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-slate-300">Sort order</Label>
+                  <Input
+                    type="number"
+                    value={typeForm.sortOrder}
+                    onChange={(e) => setTypeForm({ ...typeForm, sortOrder: parseInt(e.target.value) || 0 })}
+                    className="mt-2 bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-slate-300">Authority rank (0-100)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={typeForm.authorityRank}
+                  onChange={(e) => setTypeForm({ ...typeForm, authorityRank: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+                <p className="text-xs text-slate-500 mt-1">Higher ranks win when documents of different types disagree on a fact</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={typeForm.isActive}
+                  onCheckedChange={(checked) => setTypeForm({ ...typeForm, isActive: checked })}
+                />
+                <Label className="text-slate-300">Active (offered on upload and to the classifier)</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTypeForm(null)}>Cancel</Button>
+            <Button
+              onClick={handleSaveType}
+              disabled={!typeForm?.code || !typeForm?.label || saveTypeMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {saveTypeMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Extraction Profile Dialog */}
+      <Dialog open={!!profileForm} onOpenChange={(open) => !open && setProfileForm(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white">{profileForm?.id ? "Edit Extraction Profile" : "Add Extraction Profile"}</DialogTitle>
+          </DialogHeader>
+          {profileForm && (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-slate-300">Name</Label>
+                <Input
+                  value={profileForm.name}
+                  onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300">Description</Label>
+                <Input
+                  value={profileForm.description}
+                  onChange={(e) => setProfileForm({ ...profileForm, description: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-slate-300">LLM passes</Label>
+                  <div className="space-y-2 mt-2">
+                    {PASSES.map((pass) => (
+                      <label key={pass.value} className="flex items-center gap-2 text-sm text-slate-300">
+                        <Checkbox
+                          checked={profileForm.passes.includes(pass.value)}
+                          onCheckedChange={(checked) => setProfileForm({ ...profileForm, passes: toggle(profileForm.passes, pass.value, checked === true) })}
+                        />
+                        {pass.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-slate-300">Specialised extractors</Label>
+                  <div className="space-y-2 mt-2">
+                    {EXTRACTORS.map((extractor) => (
+                      <label key={extractor.value} className="flex items-center gap-2 text-sm text-slate-300">
+                        <Checkbox
+                          checked={profileForm.extractors.includes(extractor.value)}
+                          onCheckedChange={(checked) => setProfileForm({ ...profileForm, extractors: toggle(profileForm.extractors, extractor.value, checked === true) })}
+                        />
+                        {extractor.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div>
+                <Label className="text-slate-300">Prompt instructions</Label>
+                <Textarea
+                  value={profileForm.promptInstructions}
+                  onChange={(e) => setProfileForm({ ...profileForm, promptInstructions: e.target.value })}
+                  placeholder="Added to every LLM pass for documents of this type"
+                  rows={4}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setProfileForm(null)}>Cancel</Button>
+            <Button
+              onClick={handleSaveProfile}
+              disabled={!profileForm?.name || saveProfileMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {saveProfileMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -16,22 +16,25 @@ interface UploadedFile {
   size: number;
   type: string;
   progress: number;
-  status: "pending" | "uploading" | "completed" | "error" | "extracting";
+  status: "pending" | "uploading" | "completed" | "error" | "extracting" | "duplicate";
   error?: string;
   documentId?: string;
+  uploadId?: string; // chunked uploads can be finalized again once a duplicate decision is made
+  duplicateOf?: { fileName: string };
+  note?: string;
 }
 
-const DOCUMENT_TYPES = [
-  { value: "AUTO", label: "🤖 Auto-detect (AI)" },
-  { value: "IM", label: "Investment Memorandum" },
-  { value: "DD_PACK", label: "Due Diligence Pack" },
-  { value: "CONTRACT", label: "Contract" },
-  { value: "GRID_STUDY", label: "Grid Study" },
-  { value: "CONCEPT_DESIGN", label: "Concept Design" },
-  { value: "OTHER", label: "Other" },
+type DuplicateAction = "skip" | "replace" | "revision";
+
+const DUPLICATE_ACTIONS: { value: DuplicateAction; label: string }[] = [
+  { value: "skip", label: "Skip" },
+  { value: "replace", label: "Replace" },
+  { value: "revision", label: "Keep as new revision" },
 ];
 
-const ALLOWED_EXTENSIONS = [".pdf", ".docx", ".xlsx", ".doc", ".xls", ".txt", ".pptx", ".csv"];
+const AUTO_DETECT_TYPE = { value: "AUTO", label: "🤖 Auto-detect (AI)" };
+
+const ALLOWED_EXTENSIONS = [".pdf", ".docx", ".xlsx", ".doc", ".xls", ".txt", ".pptx", ".csv", ".zip"];
 
 export default function DocumentUpload() {
   const { user, isAuthenticated } = useAuth();
@@ -44,13 +47,21 @@ export default function DocumentUpload() {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isDragActive, setIsDragActive] = useState(false);
   const fileObjectsRef = useRef<Map<string, File>>(new Map());
+
+  // Document types come from the admin-managed taxonomy
+  const { data: documentTypes } = trpc.taxonomy.listTypes.useQuery();
+  const DOCUMENT_TYPES = [
+    AUTO_DETECT_TYPE,
+    ...(documentTypes || []).map((type) => ({ value: type.code, label: type.label })),
+  ];
   
   // Upload mutation
   const uploadMutation = trpc.documents.upload.useMutation({
     onSuccess: (data, variables) => {
-      // Mark file as extracting and store document ID
+      // Mark file as extracting and store document ID (duplicates are handled by the caller)
+      if (!data.documentId) return;
       setUploadedFiles(prev => prev.map(f => 
-        f.name === variables.fileName ? { ...f, status: 'extracting', progress: 100, documentId: data.documentId } : f
+        f.name === variables.fileName ? { ...f, status: 'extracting', progress: 100, documentId: data.documentId ?? undefined } : f
       ));
     },
     onError: (error, variables) => {
@@ -166,7 +177,14 @@ export default function DocumentUpload() {
   const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB chunks (compressed to ~1-3MB)
   const LARGE_FILE_THRESHOLD = 50 * 1024 * 1024; // 50MB threshold for chunked upload
 
-  const uploadFileChunked = async (fileInfo: UploadedFile, fileObj: File) => {
+  // An exact duplicate was found - wait for the user's decision
+  const markDuplicate = (fileId: string, duplicate: { fileName: string }, uploadId?: string) => {
+    setUploadedFiles(prev => prev.map(f =>
+      f.id === fileId ? { ...f, status: 'duplicate', progress: 100, duplicateOf: duplicate, uploadId } : f
+    ));
+  };
+
+  const uploadFileChunked = async (fileInfo: UploadedFile, fileObj: File): Promise<boolean> => {
     const totalChunks = Math.ceil(fileObj.size / CHUNK_SIZE);
     
     try {
@@ -176,7 +194,7 @@ export default function DocumentUpload() {
         fileName: fileObj.name,
         fileType: fileObj.type,
         fileSize: fileObj.size,
-        documentType: fileInfo.type as any,
+        documentType: fileInfo.type,
         totalChunks,
       });
       
@@ -239,20 +257,27 @@ export default function DocumentUpload() {
       ));
       
       const result = await finalizeChunkedUploadMutation.mutateAsync({ uploadId });
+      if (result.duplicate) {
+        markDuplicate(fileInfo.id, result.duplicate, uploadId);
+        return false;
+      }
       
-      // Mark as completed
+      // Mark as completed (data room ZIPs are unpacked in the background - see the Documents page)
       setUploadedFiles(prev => prev.map(f => 
-        f.id === fileInfo.id ? { ...f, status: 'extracting', progress: 100, documentId: result.documentId } : f
+        f.id === fileInfo.id
+          ? { ...f, status: result.importId ? 'completed' : 'extracting', progress: 100, documentId: result.documentId ?? undefined }
+          : f
       ));
       
       console.log('Chunked upload completed:', fileObj.name);
+      return true;
     } catch (error: any) {
       console.error('Chunked upload failed:', error);
       throw error;
     }
   };
 
-  const uploadFileNormal = async (fileInfo: UploadedFile, fileObj: File) => {
+  const uploadFileNormal = async (fileInfo: UploadedFile, fileObj: File, duplicateAction?: DuplicateAction) => {
     // Read file as base64
     const fileData = await new Promise<string>((resolve, reject) => {
       const reader = new FileReader();
@@ -265,18 +290,56 @@ export default function DocumentUpload() {
     });
     
     // Upload via tRPC with base64 data
-    await uploadMutation.mutateAsync({
+    return await uploadMutation.mutateAsync({
       projectId: String(projectId),
       fileName: fileObj.name,
       fileType: fileObj.type,
       fileSize: fileObj.size,
-      documentType: fileInfo.type as any,
+      documentType: fileInfo.type,
       fileData,
+      duplicateAction,
     });
   };
 
+  // Re-submit a duplicate upload with the user's decision
+  const resolveUploadDuplicate = async (fileInfo: UploadedFile, action: DuplicateAction) => {
+    setUploadedFiles(prev => prev.map(f => 
+      f.id === fileInfo.id ? { ...f, status: 'uploading', progress: 95 } : f
+    ));
+    
+    try {
+      let documentId: string | null = null;
+      if (fileInfo.uploadId) {
+        const result = await finalizeChunkedUploadMutation.mutateAsync({ uploadId: fileInfo.uploadId, duplicateAction: action });
+        documentId = result.documentId;
+      } else {
+        const fileObj = fileObjectsRef.current.get(fileInfo.id);
+        if (!fileObj) throw new Error('File is no longer available, please select it again');
+        const result = await uploadFileNormal(fileInfo, fileObj, action);
+        documentId = result.documentId;
+      }
+      
+      setUploadedFiles(prev => prev.map(f => 
+        f.id === fileInfo.id
+          ? {
+              ...f,
+              status: documentId ? 'extracting' : 'completed',
+              progress: 100,
+              documentId: documentId ?? undefined,
+              note: action === 'skip' ? `Skipped - identical to ${fileInfo.duplicateOf?.fileName}` : undefined,
+            }
+          : f
+      ));
+    } catch (error: any) {
+      setUploadedFiles(prev => prev.map(f => 
+        f.id === fileInfo.id ? { ...f, status: 'error', error: error.message || 'Upload failed' } : f
+      ));
+    }
+  };
+
   const handleUploadAll = async () => {
     const filesToUpload = uploadedFiles.filter(f => f.status === 'pending');
+    let awaitingDecision = false;
     
     for (const fileInfo of filesToUpload) {
       const fileObj = fileObjectsRef.current.get(fileInfo.id);
@@ -288,18 +351,23 @@ export default function DocumentUpload() {
       ));
       
       try {
-        // Use chunked upload for large files (>50MB)
-        if (fileObj.size > LARGE_FILE_THRESHOLD) {
+        // Use chunked upload for large files (>50MB) and data room ZIPs
+        if (fileObj.size > LARGE_FILE_THRESHOLD || fileObj.name.toLowerCase().endsWith(".zip")) {
           console.log(`Using chunked upload for large file: ${fileObj.name} (${fileObj.size} bytes)`);
-          await uploadFileChunked(fileInfo, fileObj);
+          if (!(await uploadFileChunked(fileInfo, fileObj))) awaitingDecision = true;
         } else {
           console.log(`Using normal upload for file: ${fileObj.name} (${fileObj.size} bytes)`);
-          await uploadFileNormal(fileInfo, fileObj);
+          const result = await uploadFileNormal(fileInfo, fileObj);
           
-          // Mark as completed
-          setUploadedFiles(prev => prev.map(f => 
-            f.id === fileInfo.id ? { ...f, status: 'completed', progress: 100 } : f
-          ));
+          if (result.duplicate) {
+            markDuplicate(fileInfo.id, result.duplicate);
+            awaitingDecision = true;
+          } else {
+            // Mark as completed
+            setUploadedFiles(prev => prev.map(f => 
+              f.id === fileInfo.id ? { ...f, status: 'completed', progress: 100 } : f
+            ));
+          }
         }
         
         console.log('Upload completed:', fileObj.name);
@@ -311,6 +379,9 @@ export default function DocumentUpload() {
       }
     }
     
+    // Stay on the page while duplicates need a decision
+    if (awaitingDecision) return;
+    
     // Redirect to documents page after all uploads complete
     setTimeout(() => {
       setLocation(`/project/${projectId}/documents?projectId=${projectId}`);
@@ -466,6 +537,9 @@ export default function DocumentUpload() {
                   <p className="text-xs text-slate-500 mt-4">
                     Supported: {ALLOWED_EXTENSIONS.join(", ")}
                   </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    ZIP data rooms are unpacked automatically; folder paths are kept and each file is classified.
+                  </p>
                 </div>
 
                 {/* Document Type Selector */}
@@ -558,11 +632,39 @@ export default function DocumentUpload() {
                           {file.status === "error" && (
                             <AlertCircle className="h-4 w-4 text-red-400 flex-shrink-0" />
                           )}
+                          {file.status === "duplicate" && (
+                            <AlertCircle className="h-4 w-4 text-yellow-400 flex-shrink-0" />
+                          )}
                         </div>
 
                         {file.error && (
                           <p className="text-xs text-red-400 mt-2">{file.error}</p>
                         )}
+                        {file.note && (
+                          <p className="text-xs text-slate-400 mt-2">{file.note}</p>
+                        )}
+                        
+                        {/* Exact duplicate - ask what to do */}
+                        {file.status === "duplicate" && (
+                          <div className="mt-2">
+                            <p className="text-xs text-yellow-400 mb-2">
+                              Identical to existing document "{file.duplicateOf?.fileName}"
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                              {DUPLICATE_ACTIONS.map((action) => (
+                                <Button
+                                  key={action.value}
+                                  size="sm"
+                                  variant="outline"
+                                  className="h-7 text-xs border-slate-600 text-slate-200"
+                                  onClick={() => resolveUploadDuplicate(file, action.value)}
+                                >
+                                  {action.label}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                         
                         {/* Extraction progress */}
                         {file.status === "extracting" && file.documentId && project?.id && (
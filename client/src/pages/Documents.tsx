@@ -3,11 +3,14 @@ import { trpc } from "../lib/trpc";
 import { useAuth } from "../_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { FileText, Download, Trash2, AlertCircle, CheckCircle, Clock, Edit } from "lucide-react";
+import { FileText, Download, Trash2, AlertCircle, CheckCircle, Clock, Edit, Folder, Archive, Copy, GitBranch, GitCompare, Table2, FileSignature } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { useState } from "react";
+import { RevisionDiffDialog } from "@/components/RevisionDiffDialog";
+import { DocumentTablesDialog } from "@/components/DocumentTablesDialog";
 
 export function Documents() {
   const [, setLocation] = useLocation();
@@ -18,6 +21,13 @@ export function Documents() {
   const [newDocType, setNewDocType] = useState<string>("");
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [docToDelete, setDocToDelete] = useState<any>(null);
+  const [revisionDoc, setRevisionDoc] = useState<any>(null);
+  const [previousRevisionId, setPreviousRevisionId] = useState<string>("");
+  const [diffDocumentId, setDiffDocumentId] = useState<string | null>(null);
+  const [tablesDocumentId, setTablesDocumentId] = useState<string | null>(null);
+  const [authorityDoc, setAuthorityDoc] = useState<any>(null);
+  const [executionStatus, setExecutionStatus] = useState<string>("detect");
+  const [documentDate, setDocumentDate] = useState<string>("");
   
   // Get projectId from URL path params
   const projectId = params.id as string;
@@ -34,6 +44,45 @@ export function Documents() {
     { enabled: !!projectId && isAuthenticated }
   );
 
+  // Fetch data room imports (ZIP uploads)
+  const { data: imports } = trpc.documents.listImports.useQuery(
+    { projectId: projectId || "0" },
+    {
+      enabled: !!projectId && isAuthenticated,
+      refetchInterval: (query) =>
+        query.state.data?.some((i: any) => i.status === "queued" || i.status === "processing") ? 3000 : false,
+    }
+  );
+
+  // Uploads that look like (near-)duplicates of an existing document
+  const { data: duplicates, refetch: refetchDuplicates } = trpc.documents.listDuplicates.useQuery(
+    { projectId: projectId || "0" },
+    { enabled: !!projectId && isAuthenticated, refetchInterval: 10000 }
+  );
+
+  const resolveDuplicateMutation = trpc.documents.resolveDuplicate.useMutation({
+    onSuccess: () => {
+      refetchDuplicates();
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message || "Failed to resolve duplicate"}`);
+    },
+  });
+
+  // Mark a document as the new revision of an older one
+  const supersedeMutation = trpc.documents.supersede.useMutation({
+    onSuccess: (result) => {
+      alert(`Saved as revision ${result.revisionNumber}. ${result.staleFacts} fact(s) from the older revision marked stale.`);
+      setRevisionDoc(null);
+      setPreviousRevisionId("");
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message || "Failed to save revision"}`);
+    },
+  });
+
   // Update document type mutation
   const updateDocTypeMutation = trpc.documents.updateDocumentType.useMutation({
     onSuccess: () => {
@@ -46,6 +95,17 @@ export function Documents() {
     },
   });
 
+  // Signing status and date override for source authority
+  const updateAuthorityMutation = trpc.documents.updateAuthority.useMutation({
+    onSuccess: () => {
+      setAuthorityDoc(null);
+      refetch();
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message || "Failed to update signing status"}`);
+    },
+  });
+
   // Delete document mutation
   const deleteMutation = trpc.documents.delete.useMutation({
     onSuccess: () => {
@@ -69,19 +129,30 @@ export function Documents() {
     await updateDocTypeMutation.mutateAsync({
       projectId: projectId || "0",
       documentId: editingDoc.id,
-      documentType: newDocType as any,
+      documentType: newDocType,
     });
   };
 
-  const DOCUMENT_TYPES = [
-    { value: "IM", label: "Information Memorandum" },
-    { value: "DD_PACK", label: "Due Diligence Pack" },
-    { value: "CONTRACT", label: "Contract" },
-    { value: "GRID_STUDY", label: "Grid Study" },
-    { value: "PLANNING", label: "Planning Document" },
-    { value: "CONCEPT_DESIGN", label: "Concept Design" },
-    { value: "OTHER", label: "Other" },
-  ];
+  const handleEditAuthority = (doc: any) => {
+    setAuthorityDoc(doc);
+    setExecutionStatus(doc.executionStatus || "detect");
+    setDocumentDate(doc.documentDate || "");
+  };
+
+  const handleSaveAuthority = async () => {
+    if (!authorityDoc) return;
+    const detect = executionStatus === "detect";
+    await updateAuthorityMutation.mutateAsync({
+      projectId: projectId || "0",
+      documentId: authorityDoc.id,
+      executionStatus: detect ? null : (executionStatus as "executed" | "draft" | "unknown"),
+      documentDate: detect || !documentDate ? null : documentDate,
+    });
+  };
+
+  // Document types come from the admin-managed taxonomy
+  const { data: documentTypes } = trpc.taxonomy.listTypes.useQuery();
+  const DOCUMENT_TYPES = (documentTypes || []).map((type) => ({ value: type.code, label: type.label }));
 
   if (!isAuthenticated) {
     return (
@@ -172,6 +243,95 @@ export function Documents() {
 
       {/* Content */}
       <div className="container mx-auto py-8">
+        {duplicates && duplicates.length > 0 && (
+          <div className="space-y-3 mb-8">
+            <h2 className="text-xl font-semibold text-white">Possible Duplicates</h2>
+            <p className="text-sm text-muted-foreground">
+              Facts from these uploads are held back until you decide how to handle them.
+            </p>
+            {duplicates.map((dup: any) => (
+              <Card key={dup.id} className="p-4 border-yellow-500/30">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <Copy className="h-5 w-5 text-yellow-400" />
+                    <div>
+                      <p className="font-medium text-white">{dup.document_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {dup.match_type === "exact"
+                          ? `Identical to ${dup.duplicate_of_name}`
+                          : `${Math.round(Number(dup.similarity) * 100)}% similar to ${dup.duplicate_of_name}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={resolveDuplicateMutation.isPending}
+                      onClick={() => resolveDuplicateMutation.mutate({ projectId, duplicateId: dup.id, action: "skip" })}
+                    >
+                      Skip
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={resolveDuplicateMutation.isPending}
+                      onClick={() => resolveDuplicateMutation.mutate({ projectId, duplicateId: dup.id, action: "replace" })}
+                    >
+                      Replace
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={resolveDuplicateMutation.isPending}
+                      onClick={() => resolveDuplicateMutation.mutate({ projectId, duplicateId: dup.id, action: "revision" })}
+                    >
+                      Keep as new revision
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {imports && imports.length > 0 && (
+          <div className="space-y-3 mb-8">
+            <h2 className="text-xl font-semibold text-white">Data Room Imports</h2>
+            {imports.map((imp: any) => (
+              <Card key={imp.id} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Archive className="h-5 w-5 text-orange-500" />
+                    <div>
+                      <p className="font-medium text-white">{imp.file_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {imp.status === "completed"
+                          ? `${imp.imported_count} imported, ${imp.skipped_count} skipped of ${imp.total_files} files`
+                          : imp.status === "failed"
+                            ? `Import failed: ${imp.error_message}`
+                            : "Unpacking archive..."}
+                      </p>
+                    </div>
+                  </div>
+                  <Badge variant={imp.status === "failed" ? "destructive" : "outline"}>{imp.status}</Badge>
+                </div>
+                {imp.report?.skipped?.length > 0 && (
+                  <details className="mt-3 text-sm">
+                    <summary className="cursor-pointer text-slate-400">Skipped files ({imp.report.skipped.length})</summary>
+                    <ul className="mt-2 space-y-1">
+                      {imp.report.skipped.map((s: any) => (
+                        <li key={s.path} className="text-slate-400">
+                          <span className="text-slate-300">{s.path}</span> — {s.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+
         {projectLoading || docsLoading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto"></div>
@@ -207,14 +367,43 @@ export function Documents() {
                       <h3 className="text-lg font-semibold text-white mb-1">
                         {doc.fileName}
                       </h3>
+                      {doc.folderPath && (
+                        <p className="text-xs text-muted-foreground mb-2 flex items-center gap-1">
+                          <Folder className="h-3 w-3" />
+                          {doc.folderPath}
+                        </p>
+                      )}
                       <div className="flex flex-wrap gap-2 mb-2">
                         <Badge variant="outline">{doc.documentType}</Badge>
                         {getStatusBadge(doc.status)}
+                        {doc.revisionGroupId && (
+                          <Badge variant="outline" className="border-blue-500/30 text-blue-400">
+                            Rev {doc.revisionNumber}
+                          </Badge>
+                        )}
+                        {doc.supersededBy && (
+                          <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30">
+                            Superseded
+                          </Badge>
+                        )}
+                        {doc.executionStatus === "executed" && (
+                          <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Executed</Badge>
+                        )}
+                        {doc.executionStatus === "draft" && (
+                          <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Draft</Badge>
+                        )}
                       </div>
                       <div className="text-sm text-muted-foreground space-y-1">
                         <p>Size: {formatFileSize(doc.fileSizeBytes)}</p>
                         <p>Uploaded: {formatDate(doc.uploadDate)}</p>
                         {doc.pageCount && <p>Pages: {doc.pageCount}</p>}
+                        {doc.documentDate && <p>Dated: {doc.documentDate}</p>}
+                        {doc.supersededBy && (
+                          <p>
+                            Superseded by {documents.find((d: any) => d.id === doc.supersededBy)?.fileName || "a newer revision"}
+                            {doc.supersededAt && ` on ${formatDate(doc.supersededAt)}`} - its facts are marked stale
+                          </p>
+                        )}
                         {doc.processingError && (
                           <p className="text-red-500">Error: {doc.processingError}</p>
                         )}
@@ -230,6 +419,44 @@ export function Documents() {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEditAuthority(doc)}
+                      title="Edit signing status and document date"
+                    >
+                      <FileSignature className="h-4 w-4" />
+                    </Button>
+                    {doc.revisionGroupId ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDiffDocumentId(doc.id)}
+                        title="Compare revisions"
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                    ) : null}
+                    {doc.fileName.toLowerCase().endsWith(".pdf") && doc.status === "completed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setTablesDocumentId(doc.id)}
+                        title="View extracted tables"
+                      >
+                        <Table2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!doc.supersededBy && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRevisionDoc(doc)}
+                        title="Mark as new revision of another document"
+                      >
+                        <GitBranch className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -299,6 +526,123 @@ export function Documents() {
         </DialogContent>
       </Dialog>
 
+      {/* Signing Status Dialog */}
+      <Dialog open={!!authorityDoc} onOpenChange={(open) => !open && setAuthorityDoc(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Signing Status and Date</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Used to rank {authorityDoc?.fileName} when its facts conflict with other documents.
+              Both are detected from the file name and text unless set here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Status
+              </label>
+              <Select value={executionStatus} onValueChange={setExecutionStatus}>
+                <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700">
+                  <SelectItem value="detect" className="text-white focus:bg-slate-800">Detect automatically</SelectItem>
+                  <SelectItem value="executed" className="text-white focus:bg-slate-800">Executed</SelectItem>
+                  <SelectItem value="draft" className="text-white focus:bg-slate-800">Draft</SelectItem>
+                  <SelectItem value="unknown" className="text-white focus:bg-slate-800">Unknown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Document Date
+              </label>
+              <Input
+                type="date"
+                value={documentDate}
+                onChange={(e) => setDocumentDate(e.target.value)}
+                disabled={executionStatus === "detect"}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAuthorityDoc(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveAuthority}
+              disabled={updateAuthorityMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {updateAuthorityMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Mark as Revision Dialog */}
+      <Dialog open={!!revisionDoc} onOpenChange={(open) => !open && setRevisionDoc(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700">
+          <DialogHeader>
+            <DialogTitle className="text-white">Mark as New Revision</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              "{revisionDoc?.fileName}" supersedes the document selected below. Facts found only in the older revision are marked stale.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Previous revision
+            </label>
+            <Select value={previousRevisionId} onValueChange={setPreviousRevisionId}>
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                <SelectValue placeholder="Select document" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700">
+                {documents
+                  ?.filter((d: any) => d.id !== revisionDoc?.id && !d.supersededBy)
+                  .map((d: any) => (
+                    <SelectItem key={d.id} value={d.id} className="text-white focus:bg-slate-800">
+                      {d.fileName}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevisionDoc(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                if (!revisionDoc || !previousRevisionId) return;
+                supersedeMutation.mutate({
+                  projectId: projectId || "0",
+                  previousDocumentId: previousRevisionId,
+                  newDocumentId: revisionDoc.id,
+                });
+              }}
+              disabled={!previousRevisionId || supersedeMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {supersedeMutation.isPending ? "Saving..." : "Save Revision"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RevisionDiffDialog
+        projectId={projectId || "0"}
+        documentId={diffDocumentId}
+        onClose={() => setDiffDocumentId(null)}
+      />
+
+      <DocumentTablesDialog
+        projectId={projectId || "0"}
+        documentId={tablesDocumentId}
+        onClose={() => setTablesDocumentId(null)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <DialogContent className="bg-slate-900 border-slate-700">
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Building2, ChevronDown, ChevronRight, FileText, GitMerge, Mail, Phone, Search, User, Users } from "lucide-react";
+import { toast } from "sonner";
+
+const ROLE_LABELS: Record<string, string> = {
+  developer: "Developer",
+  epc: "EPC",
+  offtaker: "Offtaker",
+  om: "O&M",
+  lender: "Lender",
+  grid_operator: "Grid operator",
+  other: "Other",
+};
+
+export default function Entities() {
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(window.location.search);
+  const projectIdParam = params.get("projectId");
+  const projectId = projectIdParam ? parseInt(projectIdParam) : undefined;
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [mergeName, setMergeName] = useState("");
+
+  const { data: entities, isLoading, refetch } = trpc.entities.list.useQuery(
+    { projectId: String(projectId || 0) },
+    { enabled: !!projectId }
+  );
+
+  const { data: mentions, isLoading: mentionsLoading } = trpc.entities.mentions.useQuery(
+    { projectId: String(projectId || 0), entityId: expandedId || "" },
+    { enabled: !!projectId && !!expandedId }
+  );
+
+  const mergeMutation = trpc.entities.merge.useMutation({
+    onSuccess: () => {
+      toast.success("Entities merged");
+      setMergeDialogOpen(false);
+      setSelectedIds([]);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to merge entities: ${error.message}`);
+    },
+  });
+
+  const filteredEntities = (entities || []).filter((entity) => {
+    if (roleFilter !== "all" && !entity.roles.includes(roleFilter as any)) return false;
+    if (!searchQuery) return true;
+    const query = searchQuery.toLowerCase();
+    return [entity.name, ...entity.aliases, ...entity.emails].some((text) => text.toLowerCase().includes(query));
+  });
+
+  const selectedEntities = (entities || []).filter((entity) => selectedIds.includes(entity.id));
+  const owners = (entities || []).filter((entity) => entity.ownershipPercent !== null);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  };
+
+  const openMergeDialog = () => {
+    // Default to the entity with the most evidence
+    const target = [...selectedEntities].sort((a, b) => b.documentCount + b.factCount - (a.documentCount + a.factCount))[0];
+    setMergeTargetId(target.id);
+    setMergeName(target.name);
+    setMergeDialogOpen(true);
+  };
+
+  const submitMerge = () => {
+    if (!projectId || !mergeTargetId) return;
+    mergeMutation.mutate({
+      projectId: String(projectId),
+      targetId: mergeTargetId,
+      sourceIds: selectedIds.filter((id) => id !== mergeTargetId),
+      name: mergeName,
+    });
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-white p-8">
+      {/* Header */}
+      <div className="max-w-7xl mx-auto mb-8">
+        <Button
+          onClick={() => navigate(`/project-dashboard?projectId=${projectId}`)}
+          variant="ghost"
+          className="mb-4 text-slate-400 hover:text-white"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Project
+        </Button>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-3">
+              <Users className="h-8 w-8 text-indigo-400" />
+              Entity Register
+            </h1>
+            <p className="text-slate-400">
+              Organisations and people named in the project documents, with their roles, ownership and contacts
+            </p>
+          </div>
+          <Badge className="bg-indigo-500/20 text-indigo-400 border-indigo-500/30 text-lg px-4 py-2">
+            {entities?.length || 0} entities
+          </Badge>
+        </div>
+
+        {owners.length > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-400">Ownership:</span>
+            {owners.map((owner) => (
+              <Badge key={owner.id} variant="outline" className="border-green-500/30 text-green-400">
+                {owner.name} {owner.ownershipPercent}%
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Filters and merge */}
+      <div className="max-w-7xl mx-auto mb-6 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[240px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search names, aliases and emails..."
+            className="pl-9 bg-slate-900 border-slate-700 text-white"
+          />
+        </div>
+        <Select value={roleFilter} onValueChange={setRoleFilter}>
+          <SelectTrigger className="w-48 bg-slate-900 border-slate-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All roles</SelectItem>
+            {Object.entries(ROLE_LABELS).map(([role, label]) => (
+              <SelectItem key={role} value={role}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={openMergeDialog}
+          disabled={selectedIds.length < 2}
+          className="bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-400 border border-indigo-500/30"
+        >
+          <GitMerge className="h-4 w-4 mr-2" />
+          Merge selected ({selectedIds.length})
+        </Button>
+      </div>
+
+      {/* Entity list */}
+      <div className="max-w-7xl mx-auto space-y-3">
+        {isLoading ? (
+          <Card className="p-8 bg-slate-900/50 border-slate-800 text-center">
+            <p className="text-slate-400">Loading entities...</p>
+          </Card>
+        ) : filteredEntities.length === 0 ? (
+          <Card className="p-8 bg-slate-900/50 border-slate-800 text-center">
+            <Users className="h-12 w-12 text-slate-600 mx-auto mb-4" />
+            <p className="text-slate-300 text-lg font-medium mb-2">No entities found</p>
+            <p className="text-slate-400">
+              Entities are extracted from documents whose extraction profile includes the entity register
+            </p>
+          </Card>
+        ) : (
+          filteredEntities.map((entity) => (
+            <Card key={entity.id} className="bg-slate-900/50 border-slate-800 overflow-hidden">
+              <div className="p-4 flex items-start gap-4">
+                <Checkbox
+                  className="mt-1"
+                  checked={selectedIds.includes(entity.id)}
+                  onCheckedChange={(checked) => toggleSelected(entity.id, checked === true)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {entity.type === "person" ? (
+                      <User className="h-4 w-4 text-slate-400" />
+                    ) : (
+                      <Building2 className="h-4 w-4 text-slate-400" />
+                    )}
+                    <span className="font-semibold text-white">{entity.name}</span>
+                    {entity.roles.map((role) => (
+                      <Badge key={role} variant="outline" className="border-indigo-500/30 text-indigo-400">
+                        {ROLE_LABELS[role] || role}
+                      </Badge>
+                    ))}
+                    {entity.ownershipPercent !== null && (
+                      <Badge variant="outline" className="border-green-500/30 text-green-400">
+                        {entity.ownershipPercent}% owner
+                      </Badge>
+                    )}
+                  </div>
+                  {entity.affiliation && <p className="text-sm text-slate-400 mt-1">{entity.affiliation}</p>}
+                  {entity.aliases.length > 0 && (
+                    <p className="text-xs text-slate-500 mt-1">Also known as: {entity.aliases.join(", ")}</p>
+                  )}
+                  {(entity.emails.length > 0 || entity.phones.length > 0) && (
+                    <div className="flex flex-wrap gap-4 mt-2 text-sm text-slate-300">
+                      {entity.emails.map((email) => (
+                        <span key={email} className="flex items-center gap-1">
+                          <Mail className="h-3 w-3 text-slate-500" />
+                          {email}
+                        </span>
+                      ))}
+                      {entity.phones.map((phone) => (
+                        <span key={phone} className="flex items-center gap-1">
+                          <Phone className="h-3 w-3 text-slate-500" />
+                          {phone}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-slate-400 hover:text-white"
+                  onClick={() => setExpandedId(expandedId === entity.id ? null : entity.id)}
+                >
+                  {expandedId === entity.id ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                  {entity.documentCount} document{entity.documentCount === 1 ? "" : "s"} · {entity.factCount} fact{entity.factCount === 1 ? "" : "s"}
+                </Button>
+              </div>
+
+              {expandedId === entity.id && (
+                <div className="border-t border-slate-800 bg-slate-950/50 p-4 space-y-2">
+                  {mentionsLoading && <p className="text-sm text-slate-400">Loading mentions...</p>}
+                  {mentions?.map((mention) => (
+                    <div key={mention.id} className="flex items-start gap-2 text-sm">
+                      <FileText className="h-4 w-4 text-slate-500 mt-0.5 shrink-0" />
+                      <div>
+                        <span className="text-slate-400">{mention.fileName || mention.documentId}</span>
+                        {mention.factValue ? (
+                          <p className="text-slate-200">{mention.factValue}</p>
+                        ) : (
+                          mention.mentionText && <p className="text-slate-300 italic">"{mention.mentionText}"</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Merge Dialog */}
+      <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
+        <DialogContent className="bg-slate-900 border-slate-800 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white flex items-center gap-2">
+              <GitMerge className="h-5 w-5 text-indigo-400" />
+              Merge Duplicate Entities
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Mentions, roles and contacts are combined into the entity you keep. The other names stay as aliases, so later documents that use them are matched to it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label className="text-slate-300 mb-2 block">Keep</Label>
+              <RadioGroup
+                value={mergeTargetId}
+                onValueChange={(id) => {
+                  setMergeTargetId(id);
+                  setMergeName(selectedEntities.find((entity) => entity.id === id)?.name || "");
+                }}
+              >
+                {selectedEntities.map((entity) => (
+                  <label key={entity.id} className="flex items-center gap-2 text-sm text-slate-200">
+                    <RadioGroupItem value={entity.id} />
+                    {entity.name}
+                    <span className="text-xs text-slate-500">
+                      ({entity.documentCount} documents, {entity.factCount} facts)
+                    </span>
+                  </label>
+                ))}
+              </RadioGroup>
+            </div>
+            <div>
+              <Label className="text-slate-300 mb-2 block">Name</Label>
+              <Input
+                value={mergeName}
+                onChange={(e) => setMergeName(e.target.value)}
+                className="bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setMergeDialogOpen(false)} variant="outline" className="border-slate-700">
+              Cancel
+            </Button>
+            <Button
+              onClick={submitMerge}
+              className="bg-indigo-500 hover:bg-indigo-600 text-white"
+              disabled={!mergeName.trim() || mergeMutation.isPending}
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge {selectedEntities.length} entities
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
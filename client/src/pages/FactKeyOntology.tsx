@@ -0,0 +1,402 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Ban, Edit, KeyRound, Loader2, Plus, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+import { getCanonicalSections, getSectionDisplayName } from "../../../shared/section-normalizer";
+
+const VALUE_KINDS = [
+  { value: "power", label: "Power" },
+  { value: "energy", label: "Energy" },
+  { value: "voltage", label: "Voltage" },
+  { value: "currency", label: "Currency" },
+  { value: "percentage", label: "Percentage" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "enum", label: "Category" },
+] as const;
+
+type ValueKindName = (typeof VALUE_KINDS)[number]["value"];
+
+interface KeyForm {
+  key: string;
+  label: string;
+  section: string;
+  valueKind: ValueKindName | null;
+  unit: string;
+  synonyms: string;
+  description: string;
+  isActive: boolean;
+  isNew: boolean;
+}
+
+const TEXT_KIND = "text";
+
+const METHOD_LABELS: Record<string, string> = {
+  exact: "Exact",
+  fuzzy: "Fuzzy",
+  llm: "LLM",
+  manual: "Admin",
+  none: "No match",
+};
+
+const EMPTY_FORM: KeyForm = {
+  key: "",
+  label: "",
+  section: "Technical_Design",
+  valueKind: null,
+  unit: "",
+  synonyms: "",
+  description: "",
+  isActive: true,
+  isNew: true,
+};
+
+export default function FactKeyOntology() {
+  const [, navigate] = useLocation();
+  const [keyForm, setKeyForm] = useState<KeyForm | null>(null);
+  const [showMapped, setShowMapped] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: keys, isLoading: keysLoading } = trpc.factKeys.list.useQuery({ includeInactive: true });
+  const { data: mappings, isLoading: mappingsLoading } = trpc.factKeys.mappings.useQuery();
+
+  const refresh = () => {
+    utils.factKeys.list.invalidate();
+    utils.factKeys.mappings.invalidate();
+  };
+
+  const saveKeyMutation = trpc.factKeys.save.useMutation({
+    onSuccess: () => {
+      toast.success("Fact key saved");
+      setKeyForm(null);
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to save fact key: ${error.message}`),
+  });
+
+  const saveMappingMutation = trpc.factKeys.saveMapping.useMutation({
+    onSuccess: () => {
+      toast.success("Key mapping saved - applies from the next consolidation");
+      refresh();
+    },
+    onError: (error) => toast.error(`Failed to save key mapping: ${error.message}`),
+  });
+
+  const handleSaveKey = () => {
+    if (!keyForm) return;
+    const { isNew, synonyms, ...values } = keyForm;
+    saveKeyMutation.mutate({
+      ...values,
+      synonyms: synonyms.split(",").map((s) => s.trim()).filter(Boolean),
+    });
+  };
+
+  const activeKeys = keys?.filter((key) => key.isActive) ?? [];
+  const keyLabel = (key: string | null) => keys?.find((k) => k.key === key)?.label ?? key;
+  const visibleMappings = mappings?.filter((mapping) => showMapped || mapping.status === "unmapped") ?? [];
+  const unmappedCount = mappings?.filter((mapping) => mapping.status === "unmapped").length ?? 0;
+  const isLoading = keysLoading || mappingsLoading;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      {/* Header */}
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-slate-950/80 border-b border-slate-800/50">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={() => navigate("/projects")}
+              variant="ghost"
+              size="sm"
+              className="text-slate-400 hover:text-white"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-white">Fact Key Ontology</h1>
+              <p className="text-sm text-slate-400 mt-1">Canonical fact keys that extracted facts are compared by, and the key names mapped onto them</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 max-w-5xl">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-orange-400" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Key Names */}
+            <Card className="p-6 bg-slate-900/50 border-slate-800">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <Shuffle className="h-6 w-6 text-orange-400" />
+                  <h2 className="text-xl font-bold text-white">Key Names</h2>
+                  <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">{unmappedCount} unmapped</Badge>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch checked={showMapped} onCheckedChange={setShowMapped} />
+                  <Label className="text-slate-300">Show mapped and ignored</Label>
+                </div>
+              </div>
+
+              {visibleMappings.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  {showMapped ? "No key names recorded yet" : "Every recorded key name is mapped or ignored"}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {visibleMappings.map((mapping) => (
+                    <div key={mapping.id} className="flex items-start justify-between gap-4 rounded border border-slate-800 p-3">
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-mono text-sm text-white">{mapping.rawKey}</span>
+                          {mapping.status === "mapped" && (
+                            <span className="text-sm text-slate-400">→ {keyLabel(mapping.canonicalKey)}</span>
+                          )}
+                          {mapping.status === "ignored" && (
+                            <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30">Ignored</Badge>
+                          )}
+                          <Badge variant="outline" className="border-slate-600 text-slate-400">
+                            {METHOD_LABELS[mapping.method] || mapping.method}
+                            {mapping.score !== null && mapping.method !== "manual" && ` ${Math.round(mapping.score * 100)}%`}
+                          </Badge>
+                          <span className="text-xs text-slate-500">seen {mapping.occurrences}×</span>
+                        </div>
+                        {mapping.exampleValue && (
+                          <p className="text-xs text-slate-500 mt-1 truncate">e.g. {mapping.exampleValue}</p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-2">
+                        <Select
+                          value={mapping.status === "mapped" && mapping.canonicalKey ? mapping.canonicalKey : undefined}
+                          onValueChange={(canonicalKey) => saveMappingMutation.mutate({ rawKey: mapping.rawKey, canonicalKey })}
+                        >
+                          <SelectTrigger className="w-48 bg-slate-800 border-slate-700 text-white">
+                            <SelectValue placeholder="Map to..." />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-900 border-slate-700">
+                            {activeKeys.map((key) => (
+                              <SelectItem key={key.key} value={key.key} className="text-white focus:bg-slate-800">
+                                {key.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setKeyForm({ ...EMPTY_FORM, key: mapping.rawKey, label: mapping.rawKey.replace(/_/g, " ") })}
+                          title="Add as a new canonical key"
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={mapping.status === "ignored" || saveMappingMutation.isPending}
+                          onClick={() => saveMappingMutation.mutate({ rawKey: mapping.rawKey, canonicalKey: null })}
+                          title="Ignore this key name"
+                        >
+                          <Ban className="h-4 w-4 text-slate-400" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {/* Canonical Keys */}
+            <Card className="p-6 bg-slate-900/50 border-slate-800">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                  <KeyRound className="h-6 w-6 text-orange-400" />
+                  <h2 className="text-xl font-bold text-white">Canonical Keys</h2>
+                </div>
+                <Button
+                  size="sm"
+                  className="bg-orange-500 hover:bg-orange-600"
+                  onClick={() => setKeyForm(EMPTY_FORM)}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Key
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {keys?.map((key) => (
+                  <div key={key.key} className="flex items-start justify-between gap-4 rounded border border-slate-800 p-3">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-white">{key.label}</span>
+                        <Badge variant="outline" className="border-slate-600 text-slate-400 font-mono">{key.key}</Badge>
+                        <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">{getSectionDisplayName(key.section)}</Badge>
+                        {key.valueKind && (
+                          <Badge variant="outline" className="border-amber-500/30 text-amber-400">
+                            {VALUE_KINDS.find((k) => k.value === key.valueKind)?.label || key.valueKind}
+                            {key.unit && ` (${key.unit})`}
+                          </Badge>
+                        )}
+                        {!key.isActive && (
+                          <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30">Inactive</Badge>
+                        )}
+                      </div>
+                      {key.synonyms.length > 0 && (
+                        <p className="text-xs text-slate-500 mt-1">Synonyms: {key.synonyms.join(", ")}</p>
+                      )}
+                      {key.description && <p className="text-sm text-slate-400 mt-1">{key.description}</p>}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={key.id === null}
+                      onClick={() => setKeyForm({
+                        key: key.key,
+                        label: key.label,
+                        section: key.section,
+                        valueKind: key.valueKind as ValueKindName | null,
+                        unit: key.unit || "",
+                        synonyms: key.synonyms.join(", "),
+                        description: key.description || "",
+                        isActive: key.isActive,
+                        isNew: false,
+                      })}
+                      title="Edit fact key"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Fact Key Dialog */}
+      <Dialog open={!!keyForm} onOpenChange={(open) => !open && setKeyForm(null)}>
+        <DialogContent className="bg-slate-900 border-slate-700 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white">{keyForm?.isNew ? "Add Fact Key" : "Edit Fact Key"}</DialogTitle>
+          </DialogHeader>
+          {keyForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-slate-300">Key</Label>
+                  <Input
+                    value={keyForm.key}
+                    disabled={!keyForm.isNew}
+                    onChange={(e) => setKeyForm({ ...keyForm, key: e.target.value })}
+                    placeholder="bess_duration"
+                    className="mt-2 bg-slate-800 border-slate-700 text-white font-mono"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-300">Label</Label>
+                  <Input
+                    value={keyForm.label}
+                    onChange={(e) => setKeyForm({ ...keyForm, label: e.target.value })}
+                    placeholder="Battery duration"
+                    className="mt-2 bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label className="text-slate-300">Section</Label>
+                  <Select value={keyForm.section} onValueChange={(section) => setKeyForm({ ...keyForm, section })}>
+                    <SelectTrigger className="mt-2 bg-slate-800 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      {getCanonicalSections().map((section) => (
+                        <SelectItem key={section} value={section} className="text-white focus:bg-slate-800">
+                          {getSectionDisplayName(section)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-slate-300">Value</Label>
+                  <Select
+                    value={keyForm.valueKind ?? TEXT_KIND}
+                    onValueChange={(value) => setKeyForm({ ...keyForm, valueKind: value === TEXT_KIND ? null : value as ValueKindName })}
+                  >
+                    <SelectTrigger className="mt-2 bg-slate-800 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-900 border-slate-700">
+                      <SelectItem value={TEXT_KIND} className="text-white focus:bg-slate-800">Free text</SelectItem>
+                      {VALUE_KINDS.map((kind) => (
+                        <SelectItem key={kind.value} value={kind.value} className="text-white focus:bg-slate-800">
+                          {kind.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-slate-300">Unit</Label>
+                  <Input
+                    value={keyForm.unit}
+                    onChange={(e) => setKeyForm({ ...keyForm, unit: e.target.value })}
+                    placeholder="hours"
+                    className="mt-2 bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-slate-300">Synonyms</Label>
+                <Input
+                  value={keyForm.synonyms}
+                  onChange={(e) => setKeyForm({ ...keyForm, synonyms: e.target.value })}
+                  placeholder="storage_duration, battery_duration_hours"
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+                <p className="text-xs text-slate-500 mt-1">Comma-separated key names that mean the same; similar names are matched too</p>
+              </div>
+              <div>
+                <Label className="text-slate-300">Description</Label>
+                <Input
+                  value={keyForm.description}
+                  onChange={(e) => setKeyForm({ ...keyForm, description: e.target.value })}
+                  className="mt-2 bg-slate-800 border-slate-700 text-white"
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={keyForm.isActive}
+                  onCheckedChange={(checked) => setKeyForm({ ...keyForm, isActive: checked })}
+                />
+                <Label className="text-slate-300">Active (facts are mapped onto this key)</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setKeyForm(null)}>Cancel</Button>
+            <Button
+              onClick={handleSaveKey}
+              disabled={!keyForm?.key || !keyForm?.label || saveKeyMutation.isPending}
+              className="bg-orange-500 hover:bg-orange-600"
+            >
+              {saveKeyMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -23,7 +23,9 @@ import {
 } from "@/components/ui/dialog";
 import { CheckCircle2, XCircle, Edit, FileText, TrendingUp, AlertTriangle, ChevronDown, ChevronRight, Search, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { FactSource } from "@/components/FactSource";
 import { normalizeSection, getSectionDisplayName, getSectionDescription, getCanonicalSections, getSectionPresentationMode } from "../../../shared/section-normalizer";
+import { formatTypedValue, matchesValueFilter, parseTypedValue, parseValueFilter, type TypedValue } from "../../../shared/units";
 
 interface Fact {
   id: number;
@@ -34,14 +36,31 @@ interface Fact {
   source_document_id: string;
   source_documents?: string[];  // Array of document IDs
   source_location: string | null;
+  source_page?: number | null;
+  source_text_snippet?: string | null;
   extraction_method: string;
+  prompt_version?: string | null;  // prompt template version, e.g. "fact_risks@v2"
   verification_status: string;
   enrichment_count?: number;
   conflict_with?: string | null;
+  is_stale?: number;
   last_enriched_at?: string | null;
+  data_type?: string | null;  // quantity | percentage | currency | date | enum | number | text
+  typed_value?: TypedValue | string | null;
   created_at: string;
 }
 
+/**
+ * Typed value of a fact. Facts extracted before typed values existed are parsed from their text.
+ */
+function getTypedValue(fact: Fact): TypedValue | null {
+  if (fact.typed_value) {
+    return typeof fact.typed_value === "string" ? JSON.parse(fact.typed_value) : fact.typed_value;
+  }
+  if (fact.data_type) return null;
+  return parseTypedValue(fact.value);
+}
+
 interface FactSection {
   name: string;
   displayName: string;
@@ -55,6 +74,18 @@ interface FactSection {
   avgConfidence: number;
 }
 
+const CONSOLIDATION_STAGE_MESSAGES: Record<string, string> = {
+  starting: 'Initializing consolidation...',
+  reconciling: 'Reconciling insights from multiple documents...',
+  narratives: 'Generating section narratives...',
+  performance: 'Extracting performance parameters...',
+  financial: 'Extracting financial data...',
+  weather: 'Processing weather files...',
+  location: 'Consolidating project location...',
+  validation: 'Checking validation readiness...',
+  retry_scheduled: 'Consolidation failed, retry scheduled...',
+};
+
 export default function FactVerification() {
   const [, navigate] = useLocation();
   const searchParams = new URLSearchParams(window.location.search);
@@ -88,6 +119,16 @@ export default function FactVerification() {
     { enabled: !!projectId }
   );
 
+  // Fetch documents to show source file names next to each fact
+  const { data: documents } = trpc.documents.list.useQuery(
+    { projectId: String(projectId) },
+    { enabled: !!projectId }
+  );
+  const documentNames: Record<string, string> = {};
+  for (const doc of (documents || []) as any[]) {
+    documentNames[doc.id] = doc.fileName;
+  }
+
   // Fetch pre-generated narratives
   const { data: preGeneratedNarratives } = trpc.facts.getNarratives.useQuery(
     { projectId: String(projectId) },
@@ -103,42 +144,20 @@ export default function FactVerification() {
 
   const isLoading = isLoadingProject || isLoadingFacts;
 
-  const consolidateMutation = trpc.projects.consolidate.useMutation({
-    onMutate: () => {
-      // Open progress modal when consolidation starts
-      setConsolidationProgress({
-        isOpen: true,
-        stage: 'starting',
-        message: 'Initializing consolidation...',
-        progress: 0
-      });
-      
-      // Simulate progress updates (since we can't stream from tRPC mutation)
-      const stages = [
-        { stage: 'reconciling', message: 'Reconciling insights from multiple documents...', progress: 15 },
-        { stage: 'narratives', message: 'Generating section narratives...', progress: 40 },
-        { stage: 'performance', message: 'Extracting performance parameters...', progress: 60 },
-        { stage: 'financial', message: 'Extracting financial data...', progress: 75 },
-        { stage: 'weather', message: 'Processing weather files...', progress: 90 },
-      ];
-      
-      let i = 0;
-      const interval = setInterval(() => {
-        if (i < stages.length) {
-          setConsolidationProgress(prev => ({
-            ...prev,
-            ...stages[i]
-          }));
-          i++;
-        } else {
-          clearInterval(interval);
-        }
-      }, 3000);
-      
-      return { interval };
-    },
-    onSuccess: (_, __, context) => {
-      if (context?.interval) clearInterval(context.interval);
+  // Consolidation runs as a background job - poll its processing_jobs row for progress
+  const [consolidationJobId, setConsolidationJobId] = useState<number | null>(null);
+  const { data: consolidationJobs } = trpc.processing.listJobs.useQuery(
+    { projectId: String(projectId) },
+    { enabled: !!projectId && consolidationJobId !== null, refetchInterval: 2000 }
+  );
+
+  useEffect(() => {
+    if (consolidationJobId === null || !consolidationJobs) return;
+    const job = (consolidationJobs as any[]).find(j => j.id === consolidationJobId);
+    if (!job) return;
+
+    if (job.status === 'completed') {
+      setConsolidationJobId(null);
       setConsolidationProgress({
         isOpen: true,
         stage: 'complete',
@@ -150,9 +169,34 @@ export default function FactVerification() {
         toast.success("Consolidation complete! Narratives and analysis updated.");
         refetch();
       }, 1500);
+    } else if (job.status === 'failed') {
+      setConsolidationJobId(null);
+      setConsolidationProgress(prev => ({ ...prev, isOpen: false }));
+      toast.error(`Consolidation failed: ${job.error_message || 'Unknown error'}`);
+    } else {
+      setConsolidationProgress({
+        isOpen: true,
+        stage: job.stage,
+        message: CONSOLIDATION_STAGE_MESSAGES[job.stage] || 'Waiting for a worker...',
+        progress: job.progress_percent || 0
+      });
+    }
+  }, [consolidationJobs, consolidationJobId]);
+
+  const consolidateMutation = trpc.projects.consolidate.useMutation({
+    onMutate: () => {
+      // Open progress modal when consolidation is queued
+      setConsolidationProgress({
+        isOpen: true,
+        stage: 'starting',
+        message: 'Initializing consolidation...',
+        progress: 0
+      });
+    },
+    onSuccess: (data) => {
+      setConsolidationJobId(data.jobId);
     },
-    onError: (error, _, context) => {
-      if (context?.interval) clearInterval(context.interval);
+    onError: (error) => {
       setConsolidationProgress(prev => ({
         ...prev,
         isOpen: false
@@ -278,12 +322,23 @@ export default function FactVerification() {
     return order.indexOf(a.name) - order.indexOf(b.name);
   }) : [];
 
+  // Comparison searches (">= 100 MW", "< 2028") filter on typed values instead of text
+  const valueFilter = parseValueFilter(searchQuery);
+
   // Filter sections based on search and status
   const filteredSections = sections.map(section => ({
     ...section,
     facts: section.facts.filter(fact => {
-      if (filterStatus !== "all" && fact.verification_status !== filterStatus) return false;
-      if (searchQuery && !fact.value.toLowerCase().includes(searchQuery.toLowerCase()) && 
+      // Stale facts (all sources superseded by newer revisions) are only shown on request
+      if (filterStatus === "stale") {
+        if (!fact.is_stale) return false;
+      } else {
+        if (fact.is_stale) return false;
+        if (filterStatus !== "all" && fact.verification_status !== filterStatus) return false;
+      }
+      if (valueFilter) {
+        if (!matchesValueFilter(getTypedValue(fact), valueFilter)) return false;
+      } else if (searchQuery && !fact.value.toLowerCase().includes(searchQuery.toLowerCase()) && 
           !fact.key.toLowerCase().includes(searchQuery.toLowerCase())) return false;
       return true;
     }),
@@ -316,10 +371,22 @@ export default function FactVerification() {
     return <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30">Pending</Badge>;
   };
 
-  const getMethodBadge = (method: string) => {
+  const getStaleBadge = (fact: Fact) => {
+    if (!fact.is_stale) return null;
+    return <Badge className="bg-slate-500/20 text-slate-400 border-slate-500/30" title="All source documents have been superseded by newer revisions">Stale</Badge>;
+  };
+
+  const getValueBadge = (fact: Fact) => {
+    const typed = getTypedValue(fact);
+    if (!typed) return null;
+    return <Badge variant="outline" className="border-cyan-500/30 text-cyan-400" title={`Parsed ${typed.type} value`}>{formatTypedValue(typed)}</Badge>;
+  };
+
+  const getMethodBadge = (method: string, promptVersion?: string | null) => {
+    const title = promptVersion ? `Prompt ${promptVersion}` : undefined;
     if (method === "deterministic") return <Badge variant="outline" className="border-blue-500/30 text-blue-400">Deterministic</Badge>;
-    if (method === "llm") return <Badge variant="outline" className="border-purple-500/30 text-purple-400">LLM</Badge>;
-    return <Badge variant="outline" className="border-slate-500/30 text-slate-400">{method}</Badge>;
+    if (method === "llm") return <Badge variant="outline" title={title} className="border-purple-500/30 text-purple-400">LLM</Badge>;
+    return <Badge variant="outline" title={title} className="border-slate-500/30 text-slate-400">{method}</Badge>;
   };
 
   return (
@@ -398,10 +465,10 @@ export default function FactVerification() {
                   toast.info("Starting consolidation...");
                   consolidateMutation.mutate({ projectId: String(projectId) });
                 }}
-                disabled={consolidateMutation.isPending}
+                disabled={consolidateMutation.isPending || consolidationJobId !== null}
                 className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white disabled:opacity-50"
               >
-                {consolidateMutation.isPending ? (
+                {consolidateMutation.isPending || consolidationJobId !== null ? (
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 ) : (
                   <Loader2 className="h-4 w-4 mr-2" />
@@ -477,7 +544,7 @@ export default function FactVerification() {
                 <Input
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search in fact statements..."
+                  placeholder='Search in fact statements, or filter values: ">= 100 MW", "< 2028"'
                   className="pl-10 bg-slate-800 border-slate-700 text-white"
                 />
               </div>
@@ -494,6 +561,7 @@ export default function FactVerification() {
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="approved">Approved</SelectItem>
                   <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="stale">Stale (superseded)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -616,8 +684,17 @@ export default function FactVerification() {
                                       <div className="flex gap-2 flex-wrap">
                                         {getConfidenceBadge(parseFloat(fact.confidence))}
                                         {getStatusBadge(fact.verification_status)}
-                                        {getMethodBadge(fact.extraction_method)}
+                                        {getMethodBadge(fact.extraction_method, fact.prompt_version)}
+                                        {getStaleBadge(fact)}
+                                        {getValueBadge(fact)}
                                       </div>
+                                      <FactSource
+                                        compact
+                                        documentName={documentNames[fact.source_document_id]}
+                                        sourcePage={fact.source_page}
+                                        sourceLocation={fact.source_location}
+                                        snippet={fact.source_text_snippet}
+                                      />
                                     </div>
                                     <Button
                                       onClick={() => handleEdit(fact)}
@@ -653,8 +730,17 @@ export default function FactVerification() {
                                     <div className="flex gap-2 flex-wrap">
                                       {getConfidenceBadge(parseFloat(fact.confidence))}
                                       {getStatusBadge(fact.verification_status)}
-                                      {getMethodBadge(fact.extraction_method)}
+                                      {getMethodBadge(fact.extraction_method, fact.prompt_version)}
+                                      {getStaleBadge(fact)}
+                                      {getValueBadge(fact)}
                                     </div>
+                                    <FactSource
+                                      compact
+                                      documentName={documentNames[fact.source_document_id]}
+                                      sourcePage={fact.source_page}
+                                      sourceLocation={fact.source_location}
+                                      snippet={fact.source_text_snippet}
+                                    />
                                   </div>
                                   <Button
                                     onClick={() => handleEdit(fact)}
@@ -683,8 +769,10 @@ export default function FactVerification() {
                             <p className="text-white text-base leading-relaxed mb-3">{fact.value}</p>
                             <div className="flex items-center gap-3 flex-wrap">
                               {getConfidenceBadge(parseFloat(fact.confidence || "0"))}
-                              {getMethodBadge(fact.extraction_method)}
+                              {getMethodBadge(fact.extraction_method, fact.prompt_version)}
                               {getStatusBadge(fact.verification_status)}
+                              {getStaleBadge(fact)}
+                              {getValueBadge(fact)}
                               
                               {/* Enrichment indicator */}
                               {fact.enrichment_count && fact.enrichment_count > 1 && (
@@ -714,6 +802,12 @@ export default function FactVerification() {
                                 <span className="text-xs text-slate-500">Key: {fact.key}</span>
                               )}
                             </div>
+                            <FactSource
+                              documentName={documentNames[fact.source_document_id]}
+                              sourcePage={fact.source_page}
+                              sourceLocation={fact.source_location}
+                              snippet={fact.source_text_snippet}
+                            />
                           </div>
                           <div className="flex gap-2 flex-shrink-0">
                             {fact.verification_status === "pending" && (
@@ -774,6 +868,17 @@ export default function FactVerification() {
               <label className="text-sm text-slate-400 mb-2 block">Key</label>
               <p className="text-white">{selectedFact?.key}</p>
             </div>
+            {selectedFact && (selectedFact.source_text_snippet || selectedFact.source_location) && (
+              <div>
+                <label className="text-sm text-slate-400 mb-2 block">Source</label>
+                <FactSource
+                  documentName={documentNames[selectedFact.source_document_id]}
+                  sourcePage={selectedFact.source_page}
+                  sourceLocation={selectedFact.source_location}
+                  snippet={selectedFact.source_text_snippet}
+                />
+              </div>
+            )}
             <div>
               <label className="text-sm text-slate-400 mb-2 block">Value</label>
               <Textarea
@@ -104,6 +104,11 @@ export function FinancialData() {
     );
   }
 
+  // Fields read directly from spreadsheet cells: field -> 'Sheet'!A1
+  const sourceCells: Record<string, string> = typeof latestData.source_cells === 'string'
+    ? JSON.parse(latestData.source_cells)
+    : latestData.source_cells || {};
+
   const confidencePercent = (parseFloat(latestData.confidence || '0') * 100).toFixed(1);
   const confidenceLevel = parseFloat(confidencePercent) >= 70 ? 'HIGH' : parseFloat(confidencePercent) >= 40 ? 'MEDIUM' : 'LOW';
   const confidenceColor = confidenceLevel === 'HIGH' ? 'bg-green-500' : confidenceLevel === 'MEDIUM' ? 'bg-yellow-500' : 'bg-red-500';
@@ -240,13 +245,13 @@ export function FinancialData() {
               </ResponsiveContainer>
             </div>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
-              <DataField label="Modules" value={latestData.modules_usd} format="currency" />
-              <DataField label="Inverters" value={latestData.inverters_usd} format="currency" />
-              <DataField label="Trackers" value={latestData.trackers_usd} format="currency" />
-              <DataField label="Civil Works" value={latestData.civil_works_usd} format="currency" />
-              <DataField label="Grid Connection" value={latestData.grid_connection_usd} format="currency" />
-              <DataField label="Development" value={latestData.development_costs_usd} format="currency" />
-              <DataField label="Other CapEx" value={latestData.other_capex_usd} format="currency" />
+              <DataField label="Modules" value={latestData.modules_usd} source={sourceCells.modules_usd} format="currency" />
+              <DataField label="Inverters" value={latestData.inverters_usd} source={sourceCells.inverters_usd} format="currency" />
+              <DataField label="Trackers" value={latestData.trackers_usd} source={sourceCells.trackers_usd} format="currency" />
+              <DataField label="Civil Works" value={latestData.civil_works_usd} source={sourceCells.civil_works_usd} format="currency" />
+              <DataField label="Grid Connection" value={latestData.grid_connection_usd} source={sourceCells.grid_connection_usd} format="currency" />
+              <DataField label="Development" value={latestData.development_costs_usd} source={sourceCells.development_costs_usd} format="currency" />
+              <DataField label="Other CapEx" value={latestData.other_capex_usd} source={sourceCells.other_capex_usd} format="currency" />
             </div>
           </CardContent>
         </Card>
@@ -278,11 +283,11 @@ export function FinancialData() {
               </ResponsiveContainer>
             </div>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
-              <DataField label="O&M" value={latestData.om_usd} format="currency" />
-              <DataField label="Insurance" value={latestData.insurance_usd} format="currency" />
-              <DataField label="Land Lease" value={latestData.land_lease_usd} format="currency" />
-              <DataField label="Asset Management" value={latestData.asset_management_usd} format="currency" />
-              <DataField label="Other OpEx" value={latestData.other_opex_usd} format="currency" />
+              <DataField label="O&M" value={latestData.om_usd} source={sourceCells.om_usd} format="currency" />
+              <DataField label="Insurance" value={latestData.insurance_usd} source={sourceCells.insurance_usd} format="currency" />
+              <DataField label="Land Lease" value={latestData.land_lease_usd} source={sourceCells.land_lease_usd} format="currency" />
+              <DataField label="Asset Management" value={latestData.asset_management_usd} source={sourceCells.asset_management_usd} format="currency" />
+              <DataField label="Other OpEx" value={latestData.other_opex_usd} source={sourceCells.other_opex_usd} format="currency" />
             </div>
           </CardContent>
         </Card>
@@ -298,10 +303,10 @@ export function FinancialData() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <DataField label="Cost Year" value={latestData.cost_year} />
-            <DataField label="Original Currency" value={latestData.original_currency} />
-            <DataField label="Exchange Rate to USD" value={latestData.exchange_rate_to_usd} />
-            <DataField label="Escalation Rate" value={latestData.escalation_rate_percent} unit="%/year" />
+            <DataField label="Cost Year" value={latestData.cost_year} source={sourceCells.cost_year} />
+            <DataField label="Original Currency" value={latestData.original_currency} source={sourceCells.original_currency} />
+            <DataField label="Exchange Rate to USD" value={latestData.exchange_rate_to_usd} source={sourceCells.exchange_rate_to_usd} />
+            <DataField label="Escalation Rate" value={latestData.escalation_rate_percent} source={sourceCells.escalation_rate_percent} unit="%/year" />
             <DataField label="Source Document" value={latestData.source_document_id} />
             <DataField label="Extraction Method" value={latestData.extraction_method} />
             <DataField label="Extracted At" value={new Date(latestData.created_at).toLocaleString()} />
@@ -313,7 +318,7 @@ export function FinancialData() {
   );
 }
 
-function DataField({ label, value, unit, format, className }: { label: string; value: any; unit?: string; format?: 'currency'; className?: string }) {
+function DataField({ label, value, unit, format, source, className }: { label: string; value: any; unit?: string; format?: 'currency'; source?: string; className?: string }) {
   const hasValue = value !== null && value !== undefined && value !== '';
   
   let displayValue = value;
@@ -337,6 +342,7 @@ function DataField({ label, value, unit, format, className }: { label: string; v
           <span className="font-medium">
             {displayValue}{unit && ` ${unit}`}
           </span>
+          {source && <span className="text-xs text-muted-foreground font-mono ml-1" title="Spreadsheet cell">{source}</span>}
         </div>
       ) : (
         <div className="flex items-center gap-1">
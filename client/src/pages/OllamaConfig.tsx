@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
@@ -13,8 +13,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Settings, CheckCircle2, XCircle, Loader2, ArrowLeft } from "lucide-react";
+import { Settings, CheckCircle2, XCircle, Loader2, ArrowLeft, Route } from "lucide-react";
 import { toast } from "sonner";
+import { PromptTemplateEditor } from "@/components/PromptTemplateEditor";
 
 export default function OllamaConfig() {
   const [, navigate] = useLocation();
@@ -24,13 +25,37 @@ export default function OllamaConfig() {
   const { data: config, isLoading } = trpc.ollama.getConfig.useQuery();
   
   const [formData, setFormData] = useState({
-    baseUrl: config?.baseUrl || "http://localhost:11434",
-    model: config?.model || "llama2",
-    temperature: config?.temperature || "0.3",
-    topP: config?.topP || "0.9",
-    timeoutSeconds: config?.timeoutSeconds || 60,
+    baseUrl: "http://localhost:11434",
+    model: "llama2",
+    temperature: "0.3",
+    topP: "0.9",
+    timeoutSeconds: 60,
+    provider: "ollama" as "ollama" | "forge",
+    fallbackProvider: "forge" as "ollama" | "forge" | "none",
+    classificationModel: "",
+    extractionModel: "",
+    similarityModel: "",
+    narrativeModel: "",
   });
 
+  // Show the saved configuration once it has loaded
+  useEffect(() => {
+    if (!config) return;
+    setFormData({
+      baseUrl: config.baseUrl || "http://localhost:11434",
+      model: config.model || "llama2",
+      temperature: config.temperature || "0.3",
+      topP: config.topP || "0.9",
+      timeoutSeconds: config.timeoutSeconds || 60,
+      provider: config.provider === "forge" ? "forge" : "ollama",
+      fallbackProvider: config.fallbackProvider === "ollama" || config.fallbackProvider === "none" ? config.fallbackProvider : "forge",
+      classificationModel: config.classificationModel || "",
+      extractionModel: config.extractionModel || "",
+      similarityModel: config.similarityModel || "",
+      narrativeModel: config.narrativeModel || "",
+    });
+  }, [config]);
+
   const updateConfigMutation = trpc.ollama.updateConfig.useMutation({
     onSuccess: () => {
       toast.success("Configuration saved successfully");
@@ -220,6 +245,79 @@ export default function OllamaConfig() {
 
 
 
+            {/* Provider Routing */}
+            <Card className="p-6 bg-slate-900/50 border-slate-800">
+              <div className="flex items-center gap-3 mb-6">
+                <Route className="h-6 w-6 text-orange-400" />
+                <h2 className="text-xl font-bold text-white">Provider Routing</h2>
+              </div>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="text-slate-300">Primary provider</Label>
+                    <Select
+                      value={formData.provider}
+                      onValueChange={(value) => setFormData({ ...formData, provider: value as "ollama" | "forge" })}
+                    >
+                      <SelectTrigger className="mt-2 bg-slate-800 border-slate-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ollama">Ollama</SelectItem>
+                        <SelectItem value="forge">Hosted API</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-slate-300">Fallback provider</Label>
+                    <Select
+                      value={formData.fallbackProvider}
+                      onValueChange={(value) => setFormData({ ...formData, fallbackProvider: value as "ollama" | "forge" | "none" })}
+                    >
+                      <SelectTrigger className="mt-2 bg-slate-800 border-slate-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="forge">Hosted API</SelectItem>
+                        <SelectItem value="ollama">Ollama</SelectItem>
+                        <SelectItem value="none">None</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-sm text-slate-400">
+                  Calls that fail on the primary provider (server down, timeout, unsupported content) are retried on the fallback
+                </p>
+
+                <div>
+                  <Label className="text-slate-300">Ollama model per stage</Label>
+                  <div className="grid grid-cols-2 gap-3 mt-2">
+                    {([
+                      ["classificationModel", "Classification"],
+                      ["extractionModel", "Extraction"],
+                      ["similarityModel", "Similarity"],
+                      ["narrativeModel", "Narratives"],
+                    ] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <Label htmlFor={field} className="text-xs text-slate-400">{label}</Label>
+                        <Input
+                          id={field}
+                          value={formData[field]}
+                          onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                          placeholder={formData.model}
+                          className="mt-1 bg-slate-800 border-slate-700 text-white"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-slate-400 mt-2">
+                    Leave empty to use the model selected above
+                  </p>
+                </div>
+              </div>
+            </Card>
+
             {/* Save Button */}
             <div className="flex justify-end gap-3">
               <Button
@@ -244,6 +342,9 @@ export default function OllamaConfig() {
                 )}
               </Button>
             </div>
+
+            {/* Prompt Templates (versioned and saved separately from the configuration) */}
+            <PromptTemplateEditor />
           </div>
         )}
       </main>
@@ -103,6 +103,11 @@ export function PerformanceParameters() {
     );
   }
 
+  // Fields read directly from spreadsheet cells: field -> 'Sheet'!A1
+  const sourceCells: Record<string, string> = typeof latestParams.source_cells === 'string'
+    ? JSON.parse(latestParams.source_cells)
+    : latestParams.source_cells || {};
+
   const confidencePercent = (parseFloat(latestParams.confidence || '0') * 100).toFixed(1);
   const confidenceLevel = parseFloat(confidencePercent) >= 70 ? 'HIGH' : parseFloat(confidencePercent) >= 40 ? 'MEDIUM' : 'LOW';
   const confidenceColor = confidenceLevel === 'HIGH' ? 'bg-green-500' : confidenceLevel === 'MEDIUM' ? 'bg-yellow-500' : 'bg-red-500';
@@ -140,18 +145,18 @@ export function PerformanceParameters() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <DataField label="DC Capacity" value={latestParams.dc_capacity_mw} unit="MW" />
-            <DataField label="AC Capacity" value={latestParams.ac_capacity_mw} unit="MW" />
+            <DataField label="DC Capacity" value={latestParams.dc_capacity_mw} source={sourceCells.dc_capacity_mw} unit="MW" />
+            <DataField label="AC Capacity" value={latestParams.ac_capacity_mw} source={sourceCells.ac_capacity_mw} unit="MW" />
             <DataField label="DC/AC Ratio" value={latestParams.dc_capacity_mw && latestParams.ac_capacity_mw ? (parseFloat(latestParams.dc_capacity_mw) / parseFloat(latestParams.ac_capacity_mw)).toFixed(2) : null} />
-            <DataField label="Module Model" value={latestParams.module_model} />
-            <DataField label="Module Power" value={latestParams.module_power_watts} unit="W" />
-            <DataField label="Module Count" value={latestParams.module_count} />
-            <DataField label="Inverter Model" value={latestParams.inverter_model} />
-            <DataField label="Inverter Power" value={latestParams.inverter_power_kw} unit="kW" />
-            <DataField label="Inverter Count" value={latestParams.inverter_count} />
-            <DataField label="Tracking Type" value={latestParams.tracking_type} />
-            <DataField label="Tilt Angle" value={latestParams.tilt_angle_degrees} unit="°" />
-            <DataField label="Azimuth" value={latestParams.azimuth_degrees} unit="°" />
+            <DataField label="Module Model" value={latestParams.module_model} source={sourceCells.module_model} />
+            <DataField label="Module Power" value={latestParams.module_power_watts} source={sourceCells.module_power_watts} unit="W" />
+            <DataField label="Module Count" value={latestParams.module_count} source={sourceCells.module_count} />
+            <DataField label="Inverter Model" value={latestParams.inverter_model} source={sourceCells.inverter_model} />
+            <DataField label="Inverter Power" value={latestParams.inverter_power_kw} source={sourceCells.inverter_power_kw} unit="kW" />
+            <DataField label="Inverter Count" value={latestParams.inverter_count} source={sourceCells.inverter_count} />
+            <DataField label="Tracking Type" value={latestParams.tracking_type} source={sourceCells.tracking_type} />
+            <DataField label="Tilt Angle" value={latestParams.tilt_angle_degrees} source={sourceCells.tilt_angle_degrees} unit="°" />
+            <DataField label="Azimuth" value={latestParams.azimuth_degrees} source={sourceCells.azimuth_degrees} unit="°" />
           </div>
         </CardContent>
       </Card>
@@ -166,11 +171,11 @@ export function PerformanceParameters() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <DataField label="Site Name" value={latestParams.site_name} />
-            <DataField label="Latitude" value={latestParams.latitude} />
-            <DataField label="Longitude" value={latestParams.longitude} />
-            <DataField label="Elevation" value={latestParams.elevation_m} unit="m" />
-            <DataField label="Timezone" value={latestParams.timezone} />
+            <DataField label="Site Name" value={latestParams.site_name} source={sourceCells.site_name} />
+            <DataField label="Latitude" value={latestParams.latitude} source={sourceCells.latitude} />
+            <DataField label="Longitude" value={latestParams.longitude} source={sourceCells.longitude} />
+            <DataField label="Elevation" value={latestParams.elevation_m} source={sourceCells.elevation_m} unit="m" />
+            <DataField label="Timezone" value={latestParams.timezone} source={sourceCells.timezone} />
           </div>
         </CardContent>
       </Card>
@@ -185,10 +190,10 @@ export function PerformanceParameters() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <DataField label="System Losses" value={latestParams.system_losses_percent} unit="%" />
-            <DataField label="Degradation Rate" value={latestParams.degradation_rate_percent} unit="%/year" />
-            <DataField label="Availability" value={latestParams.availability_percent} unit="%" />
-            <DataField label="Soiling Loss" value={latestParams.soiling_loss_percent} unit="%" />
+            <DataField label="System Losses" value={latestParams.system_losses_percent} source={sourceCells.system_losses_percent} unit="%" />
+            <DataField label="Degradation Rate" value={latestParams.degradation_rate_percent} source={sourceCells.degradation_rate_percent} unit="%/year" />
+            <DataField label="Availability" value={latestParams.availability_percent} source={sourceCells.availability_percent} unit="%" />
+            <DataField label="Soiling Loss" value={latestParams.soiling_loss_percent} source={sourceCells.soiling_loss_percent} unit="%" />
           </div>
         </CardContent>
       </Card>
@@ -200,10 +205,10 @@ export function PerformanceParameters() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <DataField label="GHI Annual" value={latestParams.ghi_annual_kwh_m2} unit="kWh/m²" />
-            <DataField label="DNI Annual" value={latestParams.dni_annual_kwh_m2} unit="kWh/m²" />
-            <DataField label="Ambient Temp" value={latestParams.temperature_ambient_c} unit="°C" />
-            <DataField label="Weather File" value={latestParams.weather_file_url} />
+            <DataField label="GHI Annual" value={latestParams.ghi_annual_kwh_m2} source={sourceCells.ghi_annual_kwh_m2} unit="kWh/m²" />
+            <DataField label="DNI Annual" value={latestParams.dni_annual_kwh_m2} source={sourceCells.dni_annual_kwh_m2} unit="kWh/m²" />
+            <DataField label="Ambient Temp" value={latestParams.temperature_ambient_c} source={sourceCells.temperature_ambient_c} unit="°C" />
+            <DataField label="Weather File" value={latestParams.weather_file_url} source={sourceCells.weather_file_url} />
           </div>
         </CardContent>
       </Card>
@@ -215,10 +220,10 @@ export function PerformanceParameters() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <DataField label="P50 Generation" value={latestParams.p50_generation_gwh} unit="GWh/year" />
-            <DataField label="P90 Generation" value={latestParams.p90_generation_gwh} unit="GWh/year" />
-            <DataField label="Capacity Factor" value={latestParams.capacity_factor_percent} unit="%" />
-            <DataField label="Specific Yield" value={latestParams.specific_yield_kwh_kwp} unit="kWh/kWp" />
+            <DataField label="P50 Generation" value={latestParams.p50_generation_gwh} source={sourceCells.p50_generation_gwh} unit="GWh/year" />
+            <DataField label="P90 Generation" value={latestParams.p90_generation_gwh} source={sourceCells.p90_generation_gwh} unit="GWh/year" />
+            <DataField label="Capacity Factor" value={latestParams.capacity_factor_percent} source={sourceCells.capacity_factor_percent} unit="%" />
+            <DataField label="Specific Yield" value={latestParams.specific_yield_kwh_kwp} source={sourceCells.specific_yield_kwh_kwp} unit="kWh/kWp" />
           </div>
         </CardContent>
       </Card>
@@ -244,7 +249,7 @@ export function PerformanceParameters() {
   );
 }
 
-function DataField({ label, value, unit, className }: { label: string; value: any; unit?: string; className?: string }) {
+function DataField({ label, value, unit, source, className }: { label: string; value: any; unit?: string; source?: string; className?: string }) {
   const hasValue = value !== null && value !== undefined && value !== '';
   
   return (
@@ -256,6 +261,7 @@ function DataField({ label, value, unit, className }: { label: string; value: an
           <span className="font-medium">
             {value}{unit && ` ${unit}`}
           </span>
+          {source && <span className="text-xs text-muted-foreground font-mono ml-1" title="Spreadsheet cell">{source}</span>}
         </div>
       ) : (
         <div className="flex items-center gap-1">
@@ -24,20 +24,36 @@ import {
   ArrowLeft 
 } from "lucide-react";
 import { toast } from "sonner";
+import { LlmUsagePanel } from "@/components/LlmUsagePanel";
+import { ReconciliationRunsPanel } from "@/components/ReconciliationRunsPanel";
+import { OutputFailuresDialog } from "@/components/OutputFailuresDialog";
 
 interface ProcessingJob {
   id: number;
-  document_id: number;
-  document_name: string;
+  document_id: string | null;
+  document_name: string | null;
+  job_type: string | null;
   status: string;
   stage: string;
   progress_percent: number;
+  attempts: number | null;
+  coverage_percent: string | number | null;
+  chunks_total: number | null;
+  chunks_processed: number | null;
   error_message: string | null;
+  output_failures: number | null;
   started_at: string;
   completed_at: string | null;
   estimated_completion: string | null;
 }
 
+const JOB_TYPE_LABELS: Record<string, string> = {
+  document_processing: "Document extraction",
+  consolidation: "Project consolidation",
+  weather_parsing: "Weather file parsing",
+  data_room_import: "Data room import",
+};
+
 export default function ProcessingStatus() {
   const [, navigate] = useLocation();
   const searchParams = new URLSearchParams(window.location.search);
@@ -60,6 +76,7 @@ export default function ProcessingStatus() {
   );
 
   const isLoading = isLoadingProject || isLoadingJobs;
+  const [failuresJobId, setFailuresJobId] = useState<number | null>(null);
 
   const retryJobMutation = trpc.processing.retryJob.useMutation({
     onSuccess: () => {
@@ -143,7 +160,7 @@ export default function ProcessingStatus() {
               </Button>
               <div>
                 <h1 className="text-2xl font-bold text-white">Processing Status</h1>
-                <p className="text-sm text-slate-400 mt-1">Monitor document processing jobs</p>
+                <p className="text-sm text-slate-400 mt-1">Monitor document processing and consolidation jobs</p>
               </div>
             </div>
             <Button
@@ -213,6 +230,10 @@ export default function ProcessingStatus() {
           </Card>
         </div>
 
+        <LlmUsagePanel projectId={projectId} />
+
+        <ReconciliationRunsPanel projectId={projectId} />
+
         {/* Jobs Table */}
         <Card className="bg-slate-900/50 border-slate-800">
           <div className="overflow-x-auto">
@@ -245,7 +266,15 @@ export default function ProcessingStatus() {
                           {getStatusBadge(job.status)}
                         </div>
                       </TableCell>
-                      <TableCell className="font-medium text-white">{job.document_name}</TableCell>
+                      <TableCell>
+                        <p className="font-medium text-white">
+                          {job.document_name || JOB_TYPE_LABELS[job.job_type || ""] || "Background job"}
+                        </p>
+                        <p className="text-xs text-slate-400">
+                          {JOB_TYPE_LABELS[job.job_type || ""] || job.job_type}
+                          {job.attempts && job.attempts > 1 ? ` · attempt ${job.attempts}` : ""}
+                        </p>
+                      </TableCell>
                       <TableCell>
                         <Badge variant="outline" className="border-slate-700 text-slate-300">
                           {job.stage}
@@ -255,6 +284,14 @@ export default function ProcessingStatus() {
                         <div className="space-y-1 min-w-[120px]">
                           <Progress value={job.progress_percent} className="h-2" />
                           <p className="text-xs text-slate-400">{job.progress_percent}%</p>
+                          {job.coverage_percent !== null && (
+                            <p
+                              className={`text-xs ${Number(job.coverage_percent) < 100 ? "text-yellow-400" : "text-slate-500"}`}
+                              title={`${job.chunks_processed ?? 0}/${job.chunks_total ?? 0} text chunks read`}
+                            >
+                              {Number(job.coverage_percent).toFixed(0)}% of document read
+                            </p>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-slate-300 text-sm">
@@ -282,6 +319,15 @@ export default function ProcessingStatus() {
                         {job.error_message && (
                           <p className="text-xs text-red-400 mt-1">{job.error_message}</p>
                         )}
+                        {Number(job.output_failures) > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => setFailuresJobId(job.id)}
+                            className="text-xs text-yellow-400 hover:underline mt-1 block"
+                          >
+                            {job.output_failures} invalid LLM output{Number(job.output_failures) === 1 ? "" : "s"}
+                          </button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -297,6 +343,12 @@ export default function ProcessingStatus() {
           </div>
         </Card>
       </main>
+
+      <OutputFailuresDialog
+        projectId={String(projectId)}
+        jobId={failuresJobId}
+        onClose={() => setFailuresJobId(null)}
+      />
     </div>
   );
 }
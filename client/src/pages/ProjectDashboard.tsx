@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
-import { Plus, Loader2, AlertCircle, FolderOpen, Upload, ArrowLeft, Linkedin, Menu, FileText, Settings, AlertTriangle, Trash2, Zap, DollarSign } from "lucide-react";
+import { Plus, Loader2, AlertCircle, FolderOpen, Upload, ArrowLeft, Linkedin, Menu, FileText, Settings, AlertTriangle, Trash2, Zap, DollarSign, Tags, KeyRound } from "lucide-react";
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -129,6 +129,20 @@ export default function ProjectDashboard() {
               <Settings className="h-4 w-4" />
               Ollama Settings
             </button>
+            <button
+              onClick={() => setLocation("/document-taxonomy")}
+              className="text-slate-300 hover:text-orange-400 transition-colors font-medium flex items-center gap-2"
+            >
+              <Tags className="h-4 w-4" />
+              Document Types
+            </button>
+            <button
+              onClick={() => setLocation("/fact-keys")}
+              className="text-slate-300 hover:text-orange-400 transition-colors font-medium flex items-center gap-2"
+            >
+              <KeyRound className="h-4 w-4" />
+              Fact Keys
+            </button>
             <a 
               href="https://www.linkedin.com/company/main-character-energy-consulting/"
               target="_blank"
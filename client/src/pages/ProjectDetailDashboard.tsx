@@ -6,6 +6,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { MapView } from "@/components/Map";
+import { MilestoneTimeline } from "@/components/MilestoneTimeline";
 import {
   FileText,
   TrendingUp,
@@ -18,6 +19,9 @@ import {
   Lightbulb,
   ArrowLeft,
   MapPin,
+  Cpu,
+  Users,
+  FileSignature,
 } from "lucide-react";
 
 export default function ProjectDetailDashboard() {
@@ -66,6 +70,12 @@ export default function ProjectDetailDashboard() {
     { enabled: !!projectId }
   );
 
+  // LLM tokens and cache hits for the project
+  const { data: llmUsage } = trpc.processing.llmUsage.useQuery(
+    { projectId: String(projectId) },
+    { enabled: !!projectId }
+  );
+
   // Calculate metrics
   const insightsCount = facts?.length || 0;
   const avgConfidence = facts?.length
@@ -244,6 +254,9 @@ export default function ProjectDetailDashboard() {
                 </div>
               </Card>
             )}
+
+            {/* Milestone schedule */}
+            {projectId && <MilestoneTimeline projectId={projectId} />}
           </div>
 
           {/* Right Column - Metrics & Quick Actions */}
@@ -328,6 +341,29 @@ export default function ProjectDetailDashboard() {
                 </div>
               </Card>
 
+              {/* LLM Usage */}
+              {llmUsage && llmUsage.totals.calls > 0 && (
+                <Card className="bg-slate-900 border-slate-700 p-4 hover:border-orange-500/50 transition-colors cursor-pointer"
+                      onClick={() => navigate(`/processing-status?projectId=${projectId}`)}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="p-2 bg-orange-500/20 rounded-lg">
+                        <Cpu className="h-5 w-5 text-orange-400" />
+                      </div>
+                      <div>
+                        <p className="text-2xl font-bold text-white">{llmUsage.totals.totalTokens.toLocaleString()}</p>
+                        <p className="text-sm text-slate-400">LLM Tokens</p>
+                      </div>
+                    </div>
+                    <div className="text-right text-xs">
+                      <div className="text-slate-300">{llmUsage.totals.calls} calls</div>
+                      <div className="text-green-400">{llmUsage.totals.cachedCalls} cached</div>
+                      <div className="text-slate-400">{(llmUsage.totals.latencyMs / 1000).toFixed(0)}s LLM time</div>
+                    </div>
+                  </div>
+                </Card>
+              )}
+
               {/* Data Completeness */}
               <Card className="bg-slate-900 border-slate-700 p-4">
                 <div className="flex items-center gap-3 mb-3">
@@ -432,6 +468,24 @@ export default function ProjectDetailDashboard() {
                   Financial Data
                 </Button>
                 
+                <Button
+                  onClick={() => navigate(`/entities?projectId=${projectId}`)}
+                  variant="outline"
+                  className="justify-start border-slate-700 hover:bg-slate-800 hover:border-indigo-500/50"
+                >
+                  <Users className="h-4 w-4 mr-2 text-indigo-400" />
+                  Entity Register
+                </Button>
+
+                <Button
+                  onClick={() => navigate(`/obligations?projectId=${projectId}`)}
+                  variant="outline"
+                  className="justify-start border-slate-700 hover:bg-slate-800 hover:border-rose-500/50"
+                >
+                  <FileSignature className="h-4 w-4 mr-2 text-rose-400" />
+                  Contract Obligations
+                </Button>
+                
                 <Button
                   onClick={() => navigate(`/project/${projectId}/documents`)}
                   variant="outline"
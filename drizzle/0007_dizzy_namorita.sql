@@ -0,0 +1,20 @@
+CREATE TABLE `job_queue` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`project_id` int NOT NULL,
+	`job_type` varchar(50) NOT NULL,
+	`document_id` varchar(36),
+	`processing_job_id` int,
+	`payload` json,
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`max_attempts` int NOT NULL DEFAULT 3,
+	`run_after` timestamp NOT NULL DEFAULT (now()),
+	`locked_by` varchar(100),
+	`locked_at` timestamp,
+	`heartbeat_at` timestamp,
+	`last_error` text,
+	`completed_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_queue_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,27 @@
+CREATE TABLE `document_types` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`code` varchar(50) NOT NULL,
+	`label` varchar(255) NOT NULL,
+	`description` text,
+	`classification_hints` text,
+	`extraction_profile_id` int,
+	`is_active` int NOT NULL DEFAULT 1,
+	`sort_order` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `document_types_id` PRIMARY KEY(`id`),
+	CONSTRAINT `document_types_code_unique` UNIQUE(`code`)
+);
+--> statement-breakpoint
+CREATE TABLE `extraction_profiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`passes` json NOT NULL,
+	`extractors` json NOT NULL,
+	`prompt_instructions` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `extraction_profiles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `extraction_profiles_name_unique` UNIQUE(`name`)
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `prompt_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`template_key` varchar(100) NOT NULL,
+	`version` int NOT NULL,
+	`system_prompt` text NOT NULL,
+	`body` text NOT NULL,
+	`notes` varchar(500),
+	`is_active` int NOT NULL DEFAULT 0,
+	`created_by_user_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `prompt_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `prompt_templates_key_version_unique` UNIQUE(`template_key`,`version`)
+);
@@ -0,0 +1,6 @@
+ALTER TABLE `ollamaConfig` ADD `provider` varchar(20) DEFAULT 'ollama';--> statement-breakpoint
+ALTER TABLE `ollamaConfig` ADD `fallbackProvider` varchar(20) DEFAULT 'forge';--> statement-breakpoint
+ALTER TABLE `ollamaConfig` ADD `classificationModel` varchar(255);--> statement-breakpoint
+ALTER TABLE `ollamaConfig` ADD `extractionModel` varchar(255);--> statement-breakpoint
+ALTER TABLE `ollamaConfig` ADD `similarityModel` varchar(255);--> statement-breakpoint
+ALTER TABLE `ollamaConfig` ADD `narrativeModel` varchar(255);
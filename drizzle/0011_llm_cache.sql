@@ -0,0 +1,13 @@
+CREATE TABLE `llm_cache` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cache_key` varchar(64) NOT NULL,
+	`provider` varchar(20) NOT NULL,
+	`model` varchar(255) NOT NULL,
+	`stage` varchar(30) NOT NULL,
+	`response` json NOT NULL,
+	`hit_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`last_hit_at` timestamp,
+	CONSTRAINT `llm_cache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `llm_cache_cache_key_unique` UNIQUE(`cache_key`)
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `extraction_eval_runs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`dataset` varchar(255) NOT NULL,
+	`label` varchar(255),
+	`provider` varchar(20) NOT NULL,
+	`model` varchar(255) NOT NULL,
+	`prompt_versions` json NOT NULL,
+	`document_count` int NOT NULL,
+	`summary` json NOT NULL,
+	`report` json NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `extraction_eval_runs_id` PRIMARY KEY(`id`)
+);
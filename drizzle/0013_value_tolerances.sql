@@ -0,0 +1,13 @@
+CREATE TABLE `value_tolerances` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`fact_key` varchar(100) NOT NULL,
+	`value_kind` varchar(20) NOT NULL,
+	`relative_percent` double,
+	`absolute` double,
+	`days` int,
+	`notes` varchar(255),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `value_tolerances_id` PRIMARY KEY(`id`),
+	CONSTRAINT `value_tolerances_key_kind_unique` UNIQUE(`fact_key`,`value_kind`)
+);
@@ -0,0 +1,17 @@
+ALTER TABLE `document_types` ADD `authority_rank` int DEFAULT 50 NOT NULL;--> statement-breakpoint
+UPDATE `document_types` SET `authority_rank` = 90 WHERE `code` = 'CONTRACT';--> statement-breakpoint
+UPDATE `document_types` SET `authority_rank` = 80 WHERE `code` IN ('GRID_STUDY', 'PLANNING');--> statement-breakpoint
+UPDATE `document_types` SET `authority_rank` = 60 WHERE `code` = 'DD_PACK';--> statement-breakpoint
+UPDATE `document_types` SET `authority_rank` = 30 WHERE `code` = 'IM';--> statement-breakpoint
+UPDATE `document_types` SET `authority_rank` = 20 WHERE `code` = 'OTHER';--> statement-breakpoint
+CREATE TABLE `authority_settings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`executed_points` int NOT NULL,
+	`draft_points` int NOT NULL,
+	`points_per_year` int NOT NULL,
+	`max_recency_points` int NOT NULL,
+	`revision_points` int NOT NULL,
+	`min_margin` int NOT NULL,
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `authority_settings_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,31 @@
+CREATE TABLE `fact_keys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`key` varchar(100) NOT NULL,
+	`label` varchar(255) NOT NULL,
+	`section` varchar(50) NOT NULL,
+	`value_kind` varchar(20),
+	`unit` varchar(20),
+	`synonyms` json NOT NULL,
+	`description` text,
+	`is_active` int NOT NULL DEFAULT 1,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `fact_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `fact_keys_key_unique` UNIQUE(`key`)
+);
+--> statement-breakpoint
+CREATE TABLE `fact_key_mappings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`raw_key` varchar(150) NOT NULL,
+	`canonical_key` varchar(100),
+	`method` varchar(10) NOT NULL,
+	`status` varchar(10) NOT NULL,
+	`score` double,
+	`occurrences` int NOT NULL DEFAULT 0,
+	`example_value` varchar(500),
+	`last_seen_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `fact_key_mappings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `fact_key_mappings_raw_key_unique` UNIQUE(`raw_key`)
+);
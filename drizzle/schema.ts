@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, unique, double } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -355,6 +355,13 @@ export const ollamaConfig = mysqlTable("ollamaConfig", {
   topP: varchar("topP", { length: 10 }).default("0.9"),
   timeoutSeconds: int("timeoutSeconds").default(60),
   enabled: int("enabled").default(1), // 1 = true, 0 = false
+  provider: varchar("provider", { length: 20 }).default("ollama"), // ollama | forge
+  fallbackProvider: varchar("fallbackProvider", { length: 20 }).default("forge"), // ollama | forge | none
+  // Per-stage Ollama models (null = use `model`)
+  classificationModel: varchar("classificationModel", { length: 255 }),
+  extractionModel: varchar("extractionModel", { length: 255 }),
+  similarityModel: varchar("similarityModel", { length: 255 }),
+  narrativeModel: varchar("narrativeModel", { length: 255 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -376,4 +383,219 @@ export const sectionNarratives = mysqlTable("section_narratives", {
 });
 
 export type SectionNarrative = typeof sectionNarratives.$inferSelect;
-export type InsertSectionNarrative = typeof sectionNarratives.$inferInsert;
\ No newline at end of file
+export type InsertSectionNarrative = typeof sectionNarratives.$inferInsert;
+
+/**
+ * Durable background job queue - stores document processing, consolidation and
+ * weather parsing work so it survives server restarts.
+ * Workers claim jobs with a lease that is kept alive by heartbeats; jobs whose
+ * lease expires are re-queued, failed jobs are retried with exponential backoff.
+ */
+export const jobQueue = mysqlTable("job_queue", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("project_id").notNull(),
+  jobType: varchar("job_type", { length: 50 }).notNull(), // document_processing, consolidation, weather_parsing, data_room_import
+  documentId: varchar("document_id", { length: 36 }),
+  processingJobId: int("processing_job_id"), // proj_{id}_processing_jobs row mirrored for the UI
+  payload: json("payload"),
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed"]).default("queued").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("max_attempts").default(3).notNull(),
+  runAfter: timestamp("run_after").defaultNow().notNull(),
+  lockedBy: varchar("locked_by", { length: 100 }),
+  lockedAt: timestamp("locked_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type JobQueueEntry = typeof jobQueue.$inferSelect;
+export type InsertJobQueueEntry = typeof jobQueue.$inferInsert;
+
+/**
+ * Extraction profiles - which LLM passes, extra prompt instructions and
+ * specialised extractors run for the document types bound to them
+ */
+export const extractionProfiles = mysqlTable("extraction_profiles", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  passes: json("passes").notNull(), // JSON array: structured, relationships, risks, assumptions
+  extractors: json("extractors").notNull(), // JSON array: deterministic, spreadsheet, pdf_tables, location, entities
+  promptInstructions: text("prompt_instructions"), // appended to every pass prompt
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ExtractionProfileRow = typeof extractionProfiles.$inferSelect;
+export type InsertExtractionProfileRow = typeof extractionProfiles.$inferInsert;
+
+/**
+ * Document taxonomy - admin-managed document types used for classification,
+ * each bound to an extraction profile
+ */
+export const documentTypes = mysqlTable("document_types", {
+  id: int("id").autoincrement().primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // stored on proj_{id}_documents.documentType
+  label: varchar("label", { length: 255 }).notNull(),
+  description: text("description"),
+  classificationHints: text("classification_hints"), // indicators given to the classifier
+  extractionProfileId: int("extraction_profile_id"),
+  isActive: int("is_active").default(1).notNull(),
+  sortOrder: int("sort_order").default(0).notNull(),
+  authorityRank: int("authority_rank").default(50).notNull(), // precedence of the type when sources disagree (0-100)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type DocumentTypeRow = typeof documentTypes.$inferSelect;
+export type InsertDocumentTypeRow = typeof documentTypes.$inferInsert;
+
+/**
+ * Prompt templates - edited versions of the built-in LLM prompts
+ * (prompt-template-defaults.ts). At most one version per template is active;
+ * with none active the built-in version 0 is used.
+ */
+export const promptTemplates = mysqlTable("prompt_templates", {
+  id: int("id").autoincrement().primaryKey(),
+  templateKey: varchar("template_key", { length: 100 }).notNull(),
+  version: int("version").notNull(),
+  systemPrompt: text("system_prompt").notNull(),
+  body: text("body").notNull(),
+  notes: varchar("notes", { length: 500 }), // what changed in this version
+  isActive: int("is_active").default(0).notNull(),
+  createdByUserId: int("created_by_user_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  keyVersionUnique: unique("prompt_templates_key_version_unique").on(table.templateKey, table.version),
+}));
+
+export type PromptTemplateRow = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplateRow = typeof promptTemplates.$inferInsert;
+
+/**
+ * Cached responses of deterministic LLM calls (temperature 0), keyed by a hash
+ * of the normalised prompt, provider and model (llm-cache.ts)
+ */
+export const llmCache = mysqlTable("llm_cache", {
+  id: int("id").autoincrement().primaryKey(),
+  cacheKey: varchar("cache_key", { length: 64 }).notNull().unique(),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 255 }).notNull(),
+  stage: varchar("stage", { length: 30 }).notNull(),
+  response: json("response").notNull(), // InvokeResult as returned by the provider
+  hitCount: int("hit_count").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastHitAt: timestamp("last_hit_at"),
+});
+
+export type LlmCacheRow = typeof llmCache.$inferSelect;
+export type InsertLlmCacheRow = typeof llmCache.$inferInsert;
+
+/**
+ * Extraction evaluation runs against a golden dataset (extraction-evaluation.ts),
+ * kept to compare prompt and model changes over time
+ */
+export const extractionEvalRuns = mysqlTable("extraction_eval_runs", {
+  id: int("id").autoincrement().primaryKey(),
+  dataset: varchar("dataset", { length: 255 }).notNull(),
+  label: varchar("label", { length: 255 }),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 255 }).notNull(),
+  promptVersions: json("prompt_versions").notNull(), // prompt template versions used, e.g. ["fact_structured@v3"]
+  documentCount: int("document_count").notNull(),
+  summary: json("summary").notNull(), // overall precision / recall / numeric error
+  report: json("report").notNull(),   // EvaluationReport with per-field, per-type and per-document scores
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type ExtractionEvalRun = typeof extractionEvalRuns.$inferSelect;
+export type InsertExtractionEvalRun = typeof extractionEvalRuns.$inferInsert;
+
+/**
+ * Tolerances within which fact values from different documents count as the
+ * same during reconciliation (value-tolerances.ts). A rule applies to one kind
+ * of value (power, energy, currency, date...) of one fact key, or of every key
+ * with fact_key '*'.
+ */
+export const valueTolerances = mysqlTable("value_tolerances", {
+  id: int("id").autoincrement().primaryKey(),
+  factKey: varchar("fact_key", { length: 100 }).notNull(),
+  valueKind: varchar("value_kind", { length: 20 }).notNull(),
+  relativePercent: double("relative_percent"), // % of the larger value
+  absolute: double("absolute"), // in the canonical unit (MW, MWh, kV, percentage points, currency)
+  days: int("days"), // dates: gap between the two periods
+  notes: varchar("notes", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  keyKindUnique: unique("value_tolerances_key_kind_unique").on(table.factKey, table.valueKind),
+}));
+
+export type ValueToleranceRow = typeof valueTolerances.$inferSelect;
+export type InsertValueToleranceRow = typeof valueTolerances.$inferInsert;
+
+/**
+ * Source authority weights - how execution status, document date and revision
+ * add to the document type rank when scoring the two sides of a conflict
+ * (source-authority.ts). A single row; the built-in weights apply without one.
+ */
+export const authoritySettings = mysqlTable("authority_settings", {
+  id: int("id").autoincrement().primaryKey(),
+  executedPoints: int("executed_points").notNull(),
+  draftPoints: int("draft_points").notNull(), // usually negative
+  pointsPerYear: int("points_per_year").notNull(), // newer document date
+  maxRecencyPoints: int("max_recency_points").notNull(),
+  revisionPoints: int("revision_points").notNull(), // per revision after the first
+  minMargin: int("min_margin").notNull(), // smaller score gaps give no suggestion
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AuthoritySettingsRow = typeof authoritySettings.$inferSelect;
+export type InsertAuthoritySettingsRow = typeof authoritySettings.$inferInsert;
+
+/**
+ * Fact key ontology - canonical keys that extracted fact keys are mapped onto
+ * (fact-key-ontology.ts), with their synonyms, expected kind of value, unit
+ * and report section. Seeded with the built-in ontology on first use.
+ */
+export const factKeys = mysqlTable("fact_keys", {
+  id: int("id").autoincrement().primaryKey(),
+  key: varchar("key", { length: 100 }).notNull().unique(), // stored on proj_{id}_extracted_facts.canonical_key
+  label: varchar("label", { length: 255 }).notNull(),
+  section: varchar("section", { length: 50 }).notNull(), // canonical section (shared/section-normalizer.ts)
+  valueKind: varchar("value_kind", { length: 20 }), // power, energy, date...; null for free text
+  unit: varchar("unit", { length: 20 }), // expected unit as reported, e.g. MWp
+  synonyms: json("synonyms").notNull(), // JSON array of alternative key names
+  description: text("description"),
+  isActive: int("is_active").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type FactKeyRow = typeof factKeys.$inferSelect;
+export type InsertFactKeyRow = typeof factKeys.$inferInsert;
+
+/**
+ * Extracted key names seen during extraction that are not an exact canonical
+ * key or synonym: fuzzy and LLM matches, admin decisions, and keys still
+ * waiting for review
+ */
+export const factKeyMappings = mysqlTable("fact_key_mappings", {
+  id: int("id").autoincrement().primaryKey(),
+  rawKey: varchar("raw_key", { length: 150 }).notNull().unique(), // normalised extracted key name
+  canonicalKey: varchar("canonical_key", { length: 100 }), // null while unmapped or when ignored
+  method: varchar("method", { length: 10 }).notNull(), // fuzzy, llm, manual, none
+  status: varchar("status", { length: 10 }).notNull(), // mapped, unmapped, ignored
+  score: double("score"), // fuzzy similarity or LLM confidence
+  occurrences: int("occurrences").default(0).notNull(),
+  exampleValue: varchar("example_value", { length: 500 }),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type FactKeyMappingRow = typeof factKeyMappings.$inferSelect;
+export type InsertFactKeyMappingRow = typeof factKeyMappings.$inferInsert;
@@ -55,8 +55,16 @@ export type ToolChoice =
   | ToolChoiceByName
   | ToolChoiceExplicit;
 
+/**
+ * Pipeline stage of a call; each stage can use its own Ollama model
+ */
+export type LlmStage = "classification" | "extraction" | "similarity" | "narrative";
+
 export type InvokeParams = {
   messages: Message[];
+  stage?: LlmStage; // defaults to "extraction"
+  model?: string; // Ollama model override for this call
+  temperature?: number; // 0 makes the call deterministic, and its response cacheable
   tools?: Tool[];
   toolChoice?: ToolChoice;
   tool_choice?: ToolChoice;
@@ -271,7 +279,35 @@ const normalizeResponseFormat = ({
   };
 };
 
+/**
+ * Call the configured provider for the stage, falling back to the next provider
+ * in the saved configuration when it fails (see llm-providers.ts).
+ * Responses are recorded or replayed when LLM_RECORD_MODE is set (see llm-recorder.ts).
+ */
 export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  const { withRecording } = await import("../llm-recorder");
+  const { routeLLM } = await import("../llm-providers");
+  return withRecording(params, routeLLM);
+}
+
+/**
+ * The hosted provider is OpenAI when a custom key is set
+ */
+function usesOpenAI(): boolean {
+  return !!process.env.OPENAI_API_KEY?.startsWith('sk-');
+}
+
+/**
+ * Model used by the hosted provider
+ */
+export function resolveForgeModel(): string {
+  return usesOpenAI() ? "gpt-4o-mini" : "gemini-2.5-flash";
+}
+
+/**
+ * Hosted provider: OpenAI when a custom key is set, the Forge API otherwise
+ */
+export async function invokeForge(params: InvokeParams): Promise<InvokeResult> {
   assertApiKey();
 
   const {
@@ -283,17 +319,22 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
+    temperature,
   } = params;
 
   // Choose model based on provider
-  const useOpenAI = process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.startsWith('sk-');
-  const model = useOpenAI ? "gpt-4o-mini" : "gemini-2.5-flash";
+  const useOpenAI = usesOpenAI();
+  const model = resolveForgeModel();
   
   const payload: Record<string, unknown> = {
     model,
     messages: messages.map(normalizeMessage),
   };
 
+  if (temperature !== undefined) {
+    payload.temperature = temperature;
+  }
+
   if (tools && tools.length > 0) {
     payload.tools = tools;
   }
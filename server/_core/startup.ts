@@ -15,6 +15,16 @@ export async function runStartupTasks() {
     if (!dbInitialized) {
       console.warn("[Startup] Database initialization failed - some features may not work");
     }
+
+    // Bring existing project tables up to date with db-project-schema.sql
+    const { upgradeAllProjectTables } = await import("../project-table-provisioner");
+    await upgradeAllProjectTables();
+
+    // Start background job workers (picks up jobs left over from before a restart)
+    const { registerDefaultJobHandlers } = await import("../job-handlers");
+    const { startJobWorkers } = await import("../job-queue");
+    registerDefaultJobHandlers();
+    startJobWorkers();
     
     console.log("[Startup] ✓ Initialization complete");
   } catch (error) {
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { dependsOn, planResolution, resolveConflict, revertResolution, type ProjectConnection } from './conflict-resolution';
+import { factSourceDocuments } from './document-revisions';
+
+const conflict = { insight_a_id: 'fact-a', insight_b_id: 'fact-b' };
+
+describe('Conflict Resolution', () => {
+  it('should supersede the losing fact instead of deleting it', () => {
+    expect(planResolution(conflict, 'accept_a')).toEqual({ status: 'resolved', keptFactIds: ['fact-a'], supersededFactIds: ['fact-b'] });
+    expect(planResolution(conflict, 'accept_b')).toEqual({ status: 'resolved', keptFactIds: ['fact-b'], supersededFactIds: ['fact-a'] });
+    expect(planResolution(conflict, 'merge')).toEqual({ status: 'resolved', keptFactIds: [], supersededFactIds: ['fact-a', 'fact-b'] });
+    expect(planResolution(conflict, 'ignore')).toEqual({ status: 'ignored', keptFactIds: ['fact-a', 'fact-b'], supersededFactIds: [] });
+  });
+
+  it('should keep every source document whether the column arrives as text or parsed', () => {
+    expect(factSourceDocuments({ source_document_id: 'im', source_documents: '["im","grid-study"]' })).toEqual(['im', 'grid-study']);
+    expect(factSourceDocuments({ source_document_id: 'im', source_documents: ['grid-study', 'epc'] })).toEqual(['im', 'grid-study', 'epc']);
+    expect(factSourceDocuments({ source_document_id: null, source_documents: 'not json' })).toEqual([]);
+  });
+
+  it('should only revert a resolution once nothing later builds on it', () => {
+    const merge = { keptFactIds: [], supersededFactIds: ['a', 'b'], mergedFactId: 'm' };
+    const acceptA = { keptFactIds: ['a'], supersededFactIds: ['b'], mergedFactId: null };
+
+    // A later resolution kept or superseded the merged fact, or superseded the kept fact
+    expect(dependsOn({ keptFactIds: ['m'], supersededFactIds: ['c'], mergedFactId: null }, merge)).toBe(true);
+    expect(dependsOn({ keptFactIds: ['c'], supersededFactIds: ['m'], mergedFactId: null }, merge)).toBe(true);
+    expect(dependsOn({ keptFactIds: ['c'], supersededFactIds: ['a'], mergedFactId: null }, acceptA)).toBe(true);
+    // Keeping the same fact again changes nothing the earlier resolution restores
+    expect(dependsOn({ keptFactIds: ['a'], supersededFactIds: ['c'], mergedFactId: null }, acceptA)).toBe(false);
+  });
+
+  it('should roll back a refused revert', async () => {
+    const statements: string[] = [];
+    const connection: ProjectConnection = {
+      query: async (sql: string) => { statements.push(sql); return [[]]; },
+      execute: async (sql: string) => {
+        statements.push(sql.split(/\s+/).slice(0, 2).join(' '));
+        if (sql.includes('WHERE r.id = ?')) {
+          return [[{ id: 'r1', conflict_id: 'c1', kept_fact_ids: '["a"]', superseded_fact_ids: '["b"]', merged_fact_id: null, reverted_at: null }]];
+        }
+        return [[{ id: 'r2', kept_fact_ids: '["c"]', superseded_fact_ids: '["a"]', merged_fact_id: null }]];
+      },
+    };
+
+    await expect(revertResolution(connection, 'r1', { id: 1 })).rejects.toThrow('1 later resolution(s) build on these facts; revert them first');
+    expect(statements).toEqual(['START TRANSACTION', 'SELECT r.*,', 'SELECT id,', 'ROLLBACK']);
+  });
+
+  it('should keep the canonical key on a merged fact', async () => {
+    const fact = (id: string, value: string) => ({
+      id, project_id: 1, category: 'Technical_Design', key: 'Technical_Design', value, confidence: '0.80',
+      source_document_id: `doc-${id}`, source_documents: null, raw_key: 'capacity_dc_mwp', canonical_key: 'dc_capacity', raw_section: 'Technical_Design',
+    });
+    let merged: Record<string, any> = {};
+    const connection: ProjectConnection = {
+      query: async () => [[]],
+      execute: async (sql: string, values: any[] = []) => {
+        if (sql.includes('FROM insight_conflicts')) return [[{ id: 'c1', insight_a_id: 'a', insight_b_id: 'b', resolution_status: 'pending' }]];
+        if (sql.includes('SELECT * FROM extracted_facts')) return [[fact('a', '62.5 MWp'), fact('b', '62.5 MW DC')]];
+        if (sql.startsWith('INSERT INTO extracted_facts')) {
+          const columns = sql.slice(sql.indexOf('(') + 1, sql.indexOf(')')).split(',').map(column => column.trim().replace(/`/g, ''));
+          const placeholders = columns.filter(column => !['extraction_method', 'verification_status'].includes(column));
+          merged = Object.fromEntries(placeholders.map((column, i) => [column, values[i]]));
+        }
+        return [[]];
+      },
+    };
+
+    await resolveConflict(connection, { conflictId: 'c1', resolution: 'merge', mergedValue: '62.5 MWp DC', user: { id: 1 } });
+
+    expect(merged).toMatchObject({ key: 'Technical_Design', raw_key: 'capacity_dc_mwp', canonical_key: 'dc_capacity', raw_section: 'Technical_Design' });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Conflict Resolution
+ *
+ * Resolving a conflict never deletes a fact:
+ * - The losing fact (both facts for a merge) is soft-deleted with
+ *   superseded_by pointing at the fact that replaced it, so its value and
+ *   source link stay available as superseded evidence
+ * - A merged fact keeps every source document of both facts
+ * - Each resolution is recorded in conflict_resolutions with the resolver,
+ *   time and rationale, and can be reverted: the superseded facts come back,
+ *   a merged fact is withdrawn and the conflict is pending again. A resolution
+ *   that later resolutions built on (its merged fact, or a fact it kept and a
+ *   later one superseded) is reverted only after them.
+ * - Each resolve and revert runs in one transaction on the given connection
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { parseTypedValue } from '../shared/units';
+import type { Queryable } from './document-dedup';
+import { factSourceDocuments } from './document-revisions';
+import { typedValueColumns } from './fact-values';
+
+export type ConflictResolutionChoice = 'accept_a' | 'accept_b' | 'merge' | 'ignore';
+
+export interface ResolutionPlan {
+  status: 'resolved' | 'ignored';
+  keptFactIds: string[];
+  supersededFactIds: string[];
+}
+
+export interface ConflictResolutionRecord {
+  id: string;
+  conflictId: string;
+  resolution: ConflictResolutionChoice;
+  rationale: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string;
+  revertedBy: string | null;
+  revertedAt: string | null;
+  factKey: string | null;
+  kept: ResolutionFact[];
+  superseded: ResolutionFact[];
+  merged: ResolutionFact | null;
+}
+
+export interface ResolutionFact {
+  id: string;
+  value: string;
+  sourceDocuments: string[];
+}
+
+// One connection: resolve and revert run their statements in a transaction on it
+export interface ProjectConnection extends Queryable {
+  query(sql: string, values?: any[]): Promise<any>;
+}
+
+export interface ResolutionFacts {
+  keptFactIds: string[];
+  supersededFactIds: string[];
+  mergedFactId: string | null;
+}
+
+/**
+ * Which facts a resolution keeps and which it supersedes (a merge supersedes
+ * both with the merged fact)
+ */
+export function planResolution(
+  conflict: { insight_a_id: string; insight_b_id: string },
+  resolution: ConflictResolutionChoice
+): ResolutionPlan {
+  const a = conflict.insight_a_id;
+  const b = conflict.insight_b_id;
+  switch (resolution) {
+    case 'accept_a': return { status: 'resolved', keptFactIds: [a], supersededFactIds: [b] };
+    case 'accept_b': return { status: 'resolved', keptFactIds: [b], supersededFactIds: [a] };
+    case 'merge': return { status: 'resolved', keptFactIds: [], supersededFactIds: [a, b] };
+    case 'ignore': return { status: 'ignored', keptFactIds: [a, b], supersededFactIds: [] };
+  }
+}
+
+/**
+ * Whether a later resolution built on an earlier one: it resolved a conflict
+ * on the earlier one's merged fact, or superseded a fact the earlier one kept
+ */
+export function dependsOn(later: ResolutionFacts, earlier: ResolutionFacts): boolean {
+  const touched = [...later.keptFactIds, ...later.supersededFactIds];
+  return (earlier.mergedFactId !== null && touched.includes(earlier.mergedFactId))
+    || later.supersededFactIds.some(id => earlier.keptFactIds.includes(id));
+}
+
+/**
+ * Resolve a pending conflict and record the resolution
+ */
+export async function resolveConflict(
+  projectDb: ProjectConnection,
+  input: {
+    conflictId: string;
+    resolution: ConflictResolutionChoice;
+    mergedValue?: string;
+    rationale?: string | null;
+    user: { id: number; name?: string | null };
+  }
+): Promise<string> {
+  const resolutionId = await inTransaction(projectDb, async () => {
+    const [conflicts]: any = await projectDb.execute(`SELECT * FROM insight_conflicts WHERE id = ? FOR UPDATE`, [input.conflictId]);
+    if (conflicts.length === 0) throw new Error('Conflict not found');
+    const conflict = conflicts[0];
+    if (conflict.resolution_status !== 'pending') throw new Error('Conflict is already resolved');
+
+    const plan = planResolution(conflict, input.resolution);
+    if (plan.supersededFactIds.length > 0) {
+      // A fact superseded since (by another resolution or a merge) can't be resolved again
+      const [superseded]: any = await projectDb.execute(
+        `SELECT id FROM extracted_facts WHERE id IN (?, ?) AND deleted_at IS NOT NULL`,
+        [conflict.insight_a_id, conflict.insight_b_id]
+      );
+      if (superseded.length > 0) throw new Error('A fact of this conflict has been superseded since; revert that change first');
+    }
+
+    let mergedFactId: string | null = null;
+
+    if (input.resolution === 'merge') {
+      if (!input.mergedValue?.trim()) throw new Error('A merged value is required');
+      mergedFactId = await insertMergedFact(projectDb, conflict.insight_a_id, conflict.insight_b_id, input.mergedValue.trim());
+    }
+
+    // The winner (or the merged fact) replaces the superseded facts
+    const replacement = mergedFactId ?? plan.keptFactIds[0] ?? null;
+    for (const factId of plan.supersededFactIds) {
+      await projectDb.execute(
+        `UPDATE extracted_facts SET deleted_at = NOW(), superseded_by = ?, conflict_with = NULL WHERE id = ?`,
+        [replacement, factId]
+      );
+    }
+    for (const factId of plan.keptFactIds) {
+      await projectDb.execute(`UPDATE extracted_facts SET conflict_with = NULL WHERE id = ?`, [factId]);
+    }
+
+    const rationale = input.rationale?.trim() || null;
+    await projectDb.execute(
+      `UPDATE insight_conflicts
+       SET resolution_status = ?, resolution = ?, resolution_rationale = ?, resolved_by = ?, resolved_at = NOW()
+       WHERE id = ?`,
+      [plan.status, input.resolution, rationale, input.user.id, input.conflictId]
+    );
+
+    const resolutionId = uuidv4();
+    await projectDb.execute(
+      `INSERT INTO conflict_resolutions
+         (id, conflict_id, resolution, kept_fact_ids, superseded_fact_ids, merged_fact_id, rationale, resolved_by, resolved_by_name)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        resolutionId,
+        input.conflictId,
+        input.resolution,
+        JSON.stringify(plan.keptFactIds),
+        JSON.stringify(plan.supersededFactIds),
+        mergedFactId,
+        rationale,
+        input.user.id,
+        input.user.name || null,
+      ]
+    );
+    return resolutionId;
+  });
+
+  console.log(`[Conflict Resolution] ${input.resolution} on conflict ${input.conflictId} by user ${input.user.id}`);
+  return resolutionId;
+}
+
+/**
+ * Undo a resolution: restore the superseded facts, withdraw a merged fact and
+ * make the conflict pending again. Refused while a later resolution that built
+ * on this one is in place.
+ */
+export async function revertResolution(
+  projectDb: ProjectConnection,
+  resolutionId: string,
+  user: { id: number; name?: string | null }
+): Promise<void> {
+  const resolution = await inTransaction(projectDb, async () => {
+    const [rows]: any = await projectDb.execute(
+      `SELECT r.*, c.insight_a_id, c.insight_b_id
+       FROM conflict_resolutions r JOIN insight_conflicts c ON r.conflict_id = c.id
+       WHERE r.id = ? FOR UPDATE`,
+      [resolutionId]
+    );
+    if (rows.length === 0) throw new Error('Resolution not found');
+    const resolution = rows[0];
+    if (resolution.reverted_at) throw new Error('Resolution has already been reverted');
+
+    const [others]: any = await projectDb.execute(
+      `SELECT id, kept_fact_ids, superseded_fact_ids, merged_fact_id FROM conflict_resolutions WHERE reverted_at IS NULL AND id <> ?`,
+      [resolutionId]
+    );
+    const dependents = others.filter((other: any) => dependsOn(resolutionFacts(other), resolutionFacts(resolution)));
+    if (dependents.length > 0) {
+      throw new Error(`${dependents.length} later resolution(s) build on these facts; revert them first`);
+    }
+
+    for (const factId of readIds(resolution.superseded_fact_ids)) {
+      await projectDb.execute(`UPDATE extracted_facts SET deleted_at = NULL, superseded_by = NULL WHERE id = ?`, [factId]);
+    }
+    if (resolution.merged_fact_id) {
+      await projectDb.execute(`UPDATE extracted_facts SET deleted_at = NOW() WHERE id = ?`, [resolution.merged_fact_id]);
+    }
+
+    // Both facts point at each other again, as when the conflict was detected
+    await projectDb.execute(`UPDATE extracted_facts SET conflict_with = ? WHERE id = ?`, [resolution.insight_b_id, resolution.insight_a_id]);
+    await projectDb.execute(`UPDATE extracted_facts SET conflict_with = ? WHERE id = ?`, [resolution.insight_a_id, resolution.insight_b_id]);
+    await projectDb.execute(
+      `UPDATE insight_conflicts
+       SET resolution_status = 'pending', resolution = NULL, resolution_rationale = NULL, resolved_by = NULL, resolved_at = NULL
+       WHERE id = ?`,
+      [resolution.conflict_id]
+    );
+    await projectDb.execute(
+      `UPDATE conflict_resolutions SET reverted_at = NOW(), reverted_by = ?, reverted_by_name = ? WHERE id = ?`,
+      [user.id, user.name || null, resolutionId]
+    );
+    return resolution;
+  });
+
+  console.log(`[Conflict Resolution] Reverted ${resolution.resolution} on conflict ${resolution.conflict_id} by user ${user.id}`);
+}
+
+/**
+ * Resolution history, newest first, with the kept, superseded and merged facts
+ */
+export async function listResolutions(projectDb: Queryable, limit = 100): Promise<ConflictResolutionRecord[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT * FROM conflict_resolutions ORDER BY resolved_at DESC, id LIMIT ${Math.max(1, Math.floor(limit))}`
+  );
+  if (rows.length === 0) return [];
+
+  const factIds = new Set<string>();
+  for (const row of rows) {
+    [...readIds(row.kept_fact_ids), ...readIds(row.superseded_fact_ids)].forEach(id => factIds.add(id));
+    if (row.merged_fact_id) factIds.add(row.merged_fact_id);
+  }
+  // Soft-deleted facts included: superseded values are the evidence shown in the history
+  const ids = Array.from(factIds);
+  const [facts]: any = ids.length > 0
+    ? await projectDb.execute(
+        `SELECT id, \`key\`, value, source_document_id, source_documents FROM extracted_facts WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        ids
+      )
+    : [[]];
+  const factsById = new Map<string, any>(facts.map((fact: any) => [fact.id, fact]));
+
+  const toFact = (id: string): ResolutionFact | null => {
+    const fact = factsById.get(id);
+    return fact ? { id, value: fact.value, sourceDocuments: factSourceDocuments(fact) } : null;
+  };
+  const present = (fact: ResolutionFact | null): fact is ResolutionFact => fact !== null;
+
+  return rows.map((row: any) => {
+    const kept = readIds(row.kept_fact_ids).map(toFact).filter(present);
+    const superseded = readIds(row.superseded_fact_ids).map(toFact).filter(present);
+    const anyFactId = [...readIds(row.superseded_fact_ids), ...readIds(row.kept_fact_ids)][0];
+    return {
+      id: row.id,
+      conflictId: row.conflict_id,
+      resolution: row.resolution,
+      rationale: row.rationale,
+      resolvedBy: row.resolved_by_name || (row.resolved_by ? `User ${row.resolved_by}` : null),
+      resolvedAt: new Date(row.resolved_at).toISOString(),
+      revertedBy: row.reverted_by_name || (row.reverted_by ? `User ${row.reverted_by}` : null),
+      revertedAt: row.reverted_at ? new Date(row.reverted_at).toISOString() : null,
+      factKey: factsById.get(anyFactId)?.key ?? null,
+      kept,
+      superseded,
+      merged: row.merged_fact_id ? toFact(row.merged_fact_id) : null,
+    };
+  });
+}
+
+/**
+ * New fact with the merged value, the key (raw, canonical and section) and
+ * provenance of fact A and the sources of both facts
+ */
+async function insertMergedFact(projectDb: Queryable, factAId: string, factBId: string, mergedValue: string): Promise<string> {
+  const [facts]: any = await projectDb.execute(`SELECT * FROM extracted_facts WHERE id IN (?, ?)`, [factAId, factBId]);
+  const factA = facts.find((f: any) => f.id === factAId);
+  const factB = facts.find((f: any) => f.id === factBId);
+  if (!factA || !factB) throw new Error('Conflicting facts not found');
+
+  const mergedId = uuidv4();
+  const sources = Array.from(new Set([...factSourceDocuments(factA), ...factSourceDocuments(factB)]));
+  const confidence = ((parseFloat(factA.confidence) + parseFloat(factB.confidence)) / 2).toFixed(2);
+  const typed = typedValueColumns(parseTypedValue(mergedValue));
+
+  await projectDb.execute(
+    `INSERT INTO extracted_facts (
+       id, project_id, category, \`key\`, value, confidence,
+       source_document_id, source_documents, source_location, source_page, source_text_snippet,
+       extraction_method, verification_status, enrichment_count, merged_from,
+       data_type, value_numeric, value_unit, value_date, typed_value, raw_key, canonical_key, raw_section
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'merged', 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      mergedId, factA.project_id, factA.category, factA.key, mergedValue, confidence,
+      factA.source_document_id, JSON.stringify(sources), factA.source_location ?? null, factA.source_page ?? null, factA.source_text_snippet ?? null,
+      (factA.enrichment_count || 1) + (factB.enrichment_count || 1), JSON.stringify([factAId, factBId]),
+      typed.data_type, typed.value_numeric, typed.value_unit, typed.value_date, typed.typed_value,
+      factA.raw_key ?? null, factA.canonical_key ?? null, factA.raw_section ?? null,
+    ]
+  );
+  return mergedId;
+}
+
+/**
+ * Run statements in one transaction; rolled back when any of them fails
+ */
+async function inTransaction<T>(projectDb: ProjectConnection, work: () => Promise<T>): Promise<T> {
+  await projectDb.query('START TRANSACTION');
+  try {
+    const result = await work();
+    await projectDb.query('COMMIT');
+    return result;
+  } catch (error) {
+    await projectDb.query('ROLLBACK');
+    throw error;
+  }
+}
+
+function resolutionFacts(row: any): ResolutionFacts {
+  return {
+    keptFactIds: readIds(row.kept_fact_ids),
+    supersededFactIds: readIds(row.superseded_fact_ids),
+    mergedFactId: row.merged_fact_id ?? null,
+  };
+}
+
+// JSON id lists arrive parsed or as text depending on the driver
+function readIds(value: string | string[] | null): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : JSON.parse(value);
+}
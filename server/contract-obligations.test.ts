@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyClause,
+  combineClauses,
+  compareClauseReferences,
+  extractDeterministicClauses,
+  normalizeCategory,
+  type ContractClause,
+} from './contract-obligations';
+
+const PPA = `POWER PURCHASE AGREEMENT
+
+3. Term
+This Agreement shall remain in force for a term of 25 years from the Commercial Operation Date.
+
+5.1 Contract Price
+The Buyer shall pay the Seller USD 45.50 per MWh for all Net Electrical Output delivered.
+
+5.2 Indexation
+The Contract Price shall be escalated annually at 2.5% per annum.
+
+8 Seller Obligations
+The Seller shall operate the Facility in accordance with Prudent Utility Practice. The Seller shall maintain insurance. Notices are given in writing.
+
+14.2 Liquidated Damages
+If COD is delayed, the Seller shall pay delay liquidated damages of USD 10,000 per day, capped at 10% of the Security.
+
+Clause 16 - Termination
+Either party may terminate this Agreement upon an Event of Default that is not remedied within 60 days.`;
+
+function clause(overrides: Partial<ContractClause>): ContractClause {
+  return {
+    category: 'tariff',
+    title: 'Contract Price',
+    summary: null,
+    party: null,
+    value: null,
+    clauseReference: '5.1',
+    pageNumber: null,
+    sourceText: null,
+    extractionMethod: 'deterministic',
+    ...overrides,
+  };
+}
+
+describe('Contract Obligations', () => {
+  it('should extract clauses under numbered headings with values, parties and pages', () => {
+    const clauses = extractDeterministicClauses(PPA, [{ pageNumber: 4, text: PPA, wordCount: 120 }]);
+
+    expect(clauses.map(c => [c.clauseReference, c.category])).toEqual([
+      ['3', 'term'],
+      ['5.1', 'tariff'],
+      ['5.2', 'indexation'],
+      ['8', 'obligation'],
+      ['8', 'obligation'],
+      ['14.2', 'liquidated_damages'],
+      ['16', 'termination'],
+    ]);
+    expect(clauses[0].value).toBe('25 years');
+    expect(clauses[1]).toMatchObject({ party: 'Buyer', value: 'USD 45.50 per MWh', pageNumber: 4 });
+    expect(clauses[4]).toMatchObject({ party: 'Seller', summary: 'The Seller shall maintain insurance.' });
+    expect(clauses[5].value).toBe('USD 10,000 per day');
+  });
+
+  it('should classify clauses by heading, then by text', () => {
+    expect(classifyClause('Limitation of Liability', '')).toBe('liability_cap');
+    expect(classifyClause('Availability Guarantee', '')).toBe('performance_guarantee');
+    expect(classifyClause('Payment', 'Charges are indexed to CPI each year.')).toBe('indexation');
+    expect(classifyClause('Definitions', 'In this Agreement the following terms apply.')).toBeNull();
+    expect(normalizeCategory('Liquidated Damages')).toBe('liquidated_damages');
+    expect(normalizeCategory('Conditions Precedent to COD')).toBe('condition_precedent');
+    expect(normalizeCategory('Insurance')).toBe('obligation');
+  });
+
+  it('should combine the same clause from both passes and order clause references', () => {
+    const combined = combineClauses([
+      clause({ summary: 'USD 45.50/MWh flat for the term', extractionMethod: 'llm' }),
+      clause({ value: 'USD 45.50 per MWh', pageNumber: 4, party: 'Buyer' }),
+      clause({ category: 'indexation', clauseReference: '5.2' }),
+    ]);
+
+    expect(combined).toHaveLength(2);
+    expect(combined[0]).toMatchObject({ summary: 'USD 45.50/MWh flat for the term', value: 'USD 45.50 per MWh', pageNumber: 4, extractionMethod: 'llm' });
+    expect(['2.10', null, '2.9', '10'].sort(compareClauseReferences)).toEqual(['2.9', '2.10', '10', null]);
+  });
+});
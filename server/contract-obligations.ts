@@ -0,0 +1,312 @@
+/**
+ * Contract Obligations Register
+ *
+ * Key clauses of contracts (PPAs, EPC and O&M contracts, land leases) per
+ * project, stored in the `contract_obligations` table with their clause
+ * reference and page:
+ * - term, tariff and indexation
+ * - liquidated damages and liability caps
+ * - performance guarantees
+ * - termination triggers and conditions precedent
+ * - obligations of each party ("The Seller shall ...")
+ *
+ * Pattern matching reads numbered clause headings ("14.2 Liquidated Damages");
+ * an LLM pass (prompt template `contract_obligations`) adds clauses without
+ * headings and summarises them.
+ */
+
+import { invokeStructured } from './llm-structured';
+import { contractObligationSchema } from './llm-output-schemas';
+import { chunkDocument, mapWithConcurrency } from './document-chunker';
+import { formatVersionTag, getActiveTemplate, renderTemplate, type PromptTemplateVersion } from './prompt-templates';
+import { locateFactSource } from './fact-provenance';
+import type { PdfPage } from './pdf-extractor';
+import type { Queryable } from './document-dedup';
+
+export const CLAUSE_CATEGORIES = [
+  'term',
+  'tariff',
+  'indexation',
+  'liquidated_damages',
+  'liability_cap',
+  'performance_guarantee',
+  'termination',
+  'condition_precedent',
+  'obligation',
+] as const;
+
+export type ClauseCategory = (typeof CLAUSE_CATEGORIES)[number];
+
+export interface ContractClause {
+  category: ClauseCategory;
+  title: string;
+  summary: string | null;
+  party: string | null;            // party the clause binds ("Seller", "Contractor")
+  value: string | null;            // key figure as written ("USD 45.50/MWh", "25 years", "10%")
+  clauseReference: string | null;  // "14.2"
+  pageNumber: number | null;
+  sourceText: string | null;
+  extractionMethod: 'deterministic' | 'llm';
+}
+
+export interface RegisteredClause extends Omit<ContractClause, 'extractionMethod'> {
+  id: number;
+  documentId: string;
+  fileName: string | null;
+  documentType: string | null;
+  extractionMethod: string | null;
+}
+
+// Characters of input per LLM call; longer documents are chunked
+const CHUNK_MAX_CHARS = 15000;
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '2');
+
+// Words that signal a category, checked against the clause heading first and then its text
+const CATEGORY_PATTERNS: Array<[ClauseCategory, RegExp]> = [
+  ['liquidated_damages', /liquidated damages|delay damages|\bLDs?\b/i],
+  ['liability_cap', /limitation of liability|liability cap|aggregate liability|cap on liability|limit of liability/i],
+  ['performance_guarantee', /performance guarantee|guaranteed (?:availability|performance|output|energy|capacity)|availability guarantee|performance ratio guarantee/i],
+  ['indexation', /indexation|escalation|\bCPI\b|consumer price index/i],
+  ['tariff', /tariff|contract price|energy (?:price|charge)|capacity (?:price|charge)|purchase price|\brent\b|per MWh|\/MWh/i],
+  ['condition_precedent', /conditions? precedent/i],
+  ['termination', /terminat|events? of default/i],
+  ['term', /\bterm\b|duration|expiry date|(?:\d+|[a-z]+)[- ]years? (?:term|period)/i],
+  ['obligation', /obligations?|covenants?|responsibilities|undertakings|duties/i],
+];
+
+const PATTERNS = {
+  // "14.2 Liquidated Damages", "Clause 5 - Term", "Article 12: Termination" on a line of their own
+  heading: /^[ \t]*(?:(?:Clause|Article|Section)[ \t]+)?(\d{1,2}(?:\.\d{1,2}){0,3})\.?[ \t]*[-:–]?[ \t]+([A-Z][^\n]{2,80}?)[ \t]*$/gm,
+  // Amounts with an optional unit ("USD 45.50 per MWh"), percentages and durations
+  value: /(?:USD|EUR|GBP|AUD|OMR|US\$|\$|€|£)[ \t]?\d[\d,]*(?:\.\d+)?(?:[ \t]?(?:million|m|k))?(?:[ \t]*(?:per|\/)[ \t]*(?:MWh|kWh|MW|kW|day|week|month|year|annum|hectare|ha))?|\d+(?:\.\d+)?[ \t]?%|\d+(?:\.\d+)?[ \t]?(?:years?|months?|days?)\b/i,
+  // "The Seller shall", "the EPC Contractor must"
+  party: /\b(?:the[ \t]+)?((?:EPC[ \t]+)?(?:Seller|Buyer|Purchaser|Offtaker|Contractor|Employer|Owner|Operator|Lessor|Lessee|Landowner|Landlord|Tenant|Company|Developer|Generator|Producer|Project Company))[ \t]+(?:shall|must|will|undertakes|is responsible)\b/,
+  obligation: /\b(?:shall|must|undertakes to|is responsible for)\b/,
+};
+
+/**
+ * Category of a clause from its heading, or from its text when the heading says nothing
+ */
+export function classifyClause(heading: string, text: string): ClauseCategory | null {
+  const byHeading = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(heading));
+  if (byHeading) return byHeading[0];
+  const byText = CATEGORY_PATTERNS.find(([category, pattern]) => category !== 'term' && category !== 'obligation' && pattern.test(text));
+  return byText ? byText[0] : null;
+}
+
+/**
+ * Map a category as written by the LLM onto a register category
+ */
+export function normalizeCategory(category: string): ClauseCategory {
+  const value = category.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((CLAUSE_CATEGORIES as readonly string[]).includes(value)) return value as ClauseCategory;
+  return classifyClause(category, '') ?? 'obligation';
+}
+
+/**
+ * Clauses under numbered headings. Clauses headed as obligations give one
+ * entry per "shall" sentence, with the party it binds.
+ */
+export function extractDeterministicClauses(text: string, pages: PdfPage[] = []): ContractClause[] {
+  const headings = Array.from(text.matchAll(PATTERNS.heading));
+  const clauses: ContractClause[] = [];
+
+  headings.forEach((heading, i) => {
+    const bodyStart = heading.index! + heading[0].length;
+    const body = text.substring(bodyStart, headings[i + 1]?.index ?? text.length).trim();
+    const title = heading[2].trim().replace(/[.:]$/, '');
+    const category = classifyClause(title, body);
+    if (!category || !body) return;
+
+    const sentences = body.split(/(?<=[.;])\s+/).map(s => s.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const clause = (sentence: string, clauseCategory: ClauseCategory): ContractClause => ({
+      category: clauseCategory,
+      title,
+      summary: sentence.substring(0, 500),
+      party: sentence.match(PATTERNS.party)?.[1] ?? null,
+      value: sentence.match(PATTERNS.value)?.[0].trim() ?? null,
+      clauseReference: heading[1],
+      pageNumber: locateFactSource([sentence.substring(0, 200)], pages)?.pageNumber || null,
+      sourceText: sentence.substring(0, 1000),
+      extractionMethod: 'deterministic',
+    });
+
+    if (category === 'obligation') {
+      for (const sentence of sentences.filter(s => PATTERNS.obligation.test(s))) {
+        clauses.push(clause(sentence, 'obligation'));
+      }
+      return;
+    }
+    // The sentence with the key figure, or the first sentence
+    const main = sentences.find(s => PATTERNS.value.test(s)) ?? sentences[0];
+    clauses.push(clause(main, category));
+  });
+
+  return clauses;
+}
+
+/**
+ * Clauses of a contract: pattern matching, plus the LLM pass unless disabled
+ */
+export async function extractContractClauses(
+  text: string,
+  pages: PdfPage[],
+  documentType: string,
+  options: { useLlm?: boolean; model?: string } = {}
+): Promise<ContractClause[]> {
+  const deterministic = extractDeterministicClauses(text, pages);
+  if (options.useLlm === false) return deterministic;
+
+  const template = await getActiveTemplate('contract_obligations');
+  const chunks = chunkDocument(text, { maxChars: CHUNK_MAX_CHARS });
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) =>
+    extractClauseChunk(chunk.text, pages, documentType, template, options.model, `${index + 1}/${chunks.length}`)
+  );
+  const llmClauses = results.flat();
+  console.log(`[Contract Obligations] Found ${deterministic.length} clauses by pattern matching, ${llmClauses.length} by the LLM`);
+
+  // LLM clauses first: their summaries read better than the clause's first sentence
+  return combineClauses([...llmClauses, ...deterministic]);
+}
+
+async function extractClauseChunk(
+  text: string,
+  pages: PdfPage[],
+  documentType: string,
+  template: PromptTemplateVersion,
+  model: string | undefined,
+  chunkLabel: string
+): Promise<ContractClause[]> {
+  const variables = { document_type: documentType, text };
+  try {
+    const result = await invokeStructured({
+      stage: 'extraction',
+      model,
+      messages: [
+        { role: 'system', content: renderTemplate(template.systemPrompt, variables) },
+        { role: 'user', content: renderTemplate(template.body, variables) },
+      ],
+      response_format: { type: 'json_object' },
+    }, contractObligationSchema, { label: `${formatVersionTag('contract_obligations', template.version)} chunk ${chunkLabel}` });
+
+    return result.clauses.map(clause => ({
+      category: normalizeCategory(clause.category),
+      title: clause.title,
+      summary: clause.summary || null,
+      party: clause.party || null,
+      value: clause.value || null,
+      clauseReference: clause.clause_reference?.replace(/^(?:clause|article|section)\s+/i, '').trim() || null,
+      pageNumber: locateFactSource([clause.source_quote, clause.value], pages)?.pageNumber || null,
+      sourceText: clause.source_quote || null,
+      extractionMethod: 'llm' as const,
+    }));
+  } catch (error) {
+    console.error(`[Contract Obligations] LLM extraction failed for chunk ${chunkLabel}:`, error);
+    return [];
+  }
+}
+
+/**
+ * One entry per category and clause reference (obligations: per party and
+ * wording). The first entry wins; later ones fill in what it lacks.
+ */
+export function combineClauses(clauses: ContractClause[]): ContractClause[] {
+  const combined = new Map<string, ContractClause>();
+  for (const clause of clauses) {
+    const reference = clause.clauseReference ?? clause.title.toLowerCase();
+    const key = clause.category === 'obligation'
+      ? `${clause.category}|${reference}|${(clause.party ?? '').toLowerCase()}|${clause.summary}`
+      : `${clause.category}|${reference}`;
+    const existing = combined.get(key);
+    if (!existing) {
+      combined.set(key, { ...clause });
+      continue;
+    }
+    existing.summary ??= clause.summary;
+    existing.party ??= clause.party;
+    existing.value ??= clause.value;
+    existing.pageNumber ??= clause.pageNumber;
+    existing.sourceText ??= clause.sourceText;
+  }
+  return Array.from(combined.values());
+}
+
+/**
+ * Store the clauses of a contract. Safe to re-run: the document's previous
+ * clauses are replaced.
+ */
+export async function saveDocumentClauses(
+  projectDb: Queryable,
+  documentId: string,
+  clauses: ContractClause[]
+): Promise<number> {
+  await projectDb.execute(`DELETE FROM contract_obligations WHERE document_id = ?`, [documentId]);
+
+  for (const clause of clauses) {
+    await projectDb.execute(
+      `INSERT INTO contract_obligations (document_id, category, title, summary, party, value, clause_reference, page_number, source_text, extraction_method)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        documentId,
+        clause.category,
+        clause.title.substring(0, 255),
+        clause.summary,
+        clause.party?.substring(0, 100) ?? null,
+        clause.value?.substring(0, 255) ?? null,
+        clause.clauseReference?.substring(0, 50) ?? null,
+        clause.pageNumber,
+        clause.sourceText,
+        clause.extractionMethod,
+      ]
+    );
+  }
+
+  console.log(`[Contract Obligations] Document ${documentId}: ${clauses.length} clauses`);
+  return clauses.length;
+}
+
+/**
+ * Clauses of all contracts in the project, by document and clause order
+ */
+export async function listClauses(projectDb: Queryable): Promise<RegisteredClause[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT c.*, d.fileName, d.documentType
+     FROM contract_obligations c
+     JOIN documents d ON d.id = c.document_id
+     WHERE d.supersededBy IS NULL
+     ORDER BY d.fileName, c.id`
+  );
+  return rows
+    .map((row: any): RegisteredClause => ({
+      id: row.id,
+      documentId: row.document_id,
+      fileName: row.fileName ?? null,
+      documentType: row.documentType ?? null,
+      category: row.category,
+      title: row.title,
+      summary: row.summary ?? null,
+      party: row.party ?? null,
+      value: row.value ?? null,
+      clauseReference: row.clause_reference ?? null,
+      pageNumber: row.page_number ?? null,
+      sourceText: row.source_text ?? null,
+      extractionMethod: row.extraction_method ?? null,
+    }))
+    .sort((a: RegisteredClause, b: RegisteredClause) =>
+      (a.fileName ?? '').localeCompare(b.fileName ?? '') || compareClauseReferences(a.clauseReference, b.clauseReference)
+    );
+}
+
+/**
+ * Order clause references numerically ("2.10" after "2.9"); clauses without one come last
+ */
+export function compareClauseReferences(a: string | null, b: string | null): number {
+  if (!a || !b) return Number(!a) - Number(!b);
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? -1) - (partsB[i] ?? -1);
+    if (diff) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { extractEntry, planDataRoomImport } from './data-room-import';
+
+const file = (path: string, size = 1024) => ({ path, size, isDirectory: false });
+
+describe('Data Room Import', () => {
+  it('should keep folder paths for supported files', () => {
+    const { files, skipped } = planDataRoomImport([
+      { path: '03 Technical/', size: 0, isDirectory: true },
+      file('03 Technical/Grid/Connection Offer.pdf'),
+      file('IM.docx'),
+    ]);
+
+    expect(skipped).toEqual([]);
+    expect(files).toEqual([
+      { path: '03 Technical/Grid/Connection Offer.pdf', entryName: '03 Technical/Grid/Connection Offer.pdf', fileName: 'Connection Offer.pdf', folderPath: '03 Technical/Grid', extension: '.pdf' },
+      { path: 'IM.docx', entryName: 'IM.docx', fileName: 'IM.docx', folderPath: '', extension: '.docx' },
+    ]);
+  });
+
+  it('should report unsupported, empty and nested archive files', () => {
+    const { files, skipped } = planDataRoomImport([
+      file('Drawings/layout.dwg'),
+      file('Finance/model.xlsx', 0),
+      file('Archive/old.zip'),
+      file('Weather/tmy.epw'),
+    ]);
+
+    expect(files.map(f => f.path)).toEqual(['Weather/tmy.epw']);
+    expect(skipped).toEqual([
+      { path: 'Drawings/layout.dwg', reason: 'Unsupported file type (.dwg)' },
+      { path: 'Finance/model.xlsx', reason: 'Empty file' },
+      { path: 'Archive/old.zip', reason: 'Nested archives are not supported' },
+    ]);
+  });
+
+  it('should ignore OS metadata and reject unsafe paths', () => {
+    const { files, skipped } = planDataRoomImport([
+      file('__MACOSX/IM.pdf'),
+      file('Legal/.DS_Store'),
+      file('Legal/~$PPA.docx'),
+      file('../escape.pdf'),
+    ]);
+
+    expect(files).toEqual([]);
+    expect(skipped).toEqual([{ path: '../escape.pdf', reason: 'Unsafe path' }]);
+  });
+
+  it('should stream entries to disk and stop an entry over the size limit', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-room-'));
+    try {
+      const zip = await JSZip.loadAsync(
+        await new JSZip().file('IM.txt', 'Capacity: 50 MWp').file('Model.txt', 'x'.repeat(4096)).generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+      );
+
+      expect(await extractEntry(zip.file('IM.txt')!, path.join(dir, 'im.txt'), 1024)).toBe(16);
+      expect(await fs.readFile(path.join(dir, 'im.txt'), 'utf8')).toBe('Capacity: 50 MWp');
+      await expect(extractEntry(zip.file('Model.txt')!, path.join(dir, 'model.txt'), 1024)).rejects.toThrow(/^File larger than/);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should extract entries whose names were normalised from the archive entry', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-room-'));
+    try {
+      const zip = await JSZip.loadAsync(
+        await new JSZip().file('Technical\\Grid//Study.txt', 'Export limit: 45 MW').generateAsync({ type: 'nodebuffer' })
+      );
+      const [entry] = Object.values(zip.files).filter(file => !file.dir);
+      const { files } = planDataRoomImport([{ path: entry.name, size: null, isDirectory: false }]);
+
+      expect(files[0]).toMatchObject({ path: 'Technical/Grid/Study.txt', entryName: entry.name });
+      expect(await extractEntry(entry, path.join(dir, 'study.txt'), 1024)).toBe(19);
+      expect(await fs.readFile(path.join(dir, 'study.txt'), 'utf8')).toBe('Export limit: 45 MW');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Data Room Import
+ *
+ * Bulk import of a zipped data room (uploaded through the chunked upload path).
+ * Runs as a 'data_room_import' background job:
+ * - Reads the ZIP (at most DATA_ROOM_MAX_ARCHIVE_MB) and streams one entry at a
+ *   time to disk, counting its bytes so an oversized entry is cut off while it
+ *   is decompressed (the archive is never fully extracted)
+ * - Keeps each file's folder path as document metadata (documents.folderPath)
+ * - Auto-classifies each file with detectDocumentType
+ * - Skips unsupported files and exact duplicates, and records why in the import report
+ * - Enqueues document processing (or weather parsing) for every imported file
+ *
+ * Re-running an import (job retry) skips files already imported for the same importId.
+ */
+
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import JSZip from 'jszip';
+import { createProjectDbPool } from './db-connection';
+import { findExactDuplicate, hashFile } from './document-dedup';
+import type { DocumentType } from './document-type-detector';
+
+export interface DataRoomEntry {
+  path: string;       // path inside the archive, e.g. "03 Technical/Grid/Connection Offer.pdf"
+  size: number | null; // null when only known once decompressed
+  isDirectory: boolean;
+}
+
+export interface PlannedImportFile {
+  path: string;
+  entryName: string;  // name of the entry as stored in the archive, before normalising
+  fileName: string;
+  folderPath: string; // "" for files at the archive root
+  extension: string;
+}
+
+export interface SkippedImportFile {
+  path: string;
+  reason: string;
+}
+
+export interface DataRoomImportReport {
+  totalFiles: number;
+  imported: Array<{ path: string; documentId: string; documentType: DocumentType }>;
+  skipped: SkippedImportFile[];
+}
+
+// Extensions handled by document-extractor.ts
+const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.doc', '.xlsx', '.xls', '.txt'];
+// Weather files go straight to the weather parser
+const WEATHER_EXTENSIONS = ['.csv', '.epw', '.tm2', '.tm3'];
+
+const MAX_ENTRY_BYTES = parseInt(process.env.DATA_ROOM_MAX_FILE_MB || '500') * 1024 * 1024;
+// The compressed archive is held in memory while its entries are extracted
+const MAX_ARCHIVE_BYTES = parseInt(process.env.DATA_ROOM_MAX_ARCHIVE_MB || '1024') * 1024 * 1024;
+
+class EntryTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`File larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+  }
+}
+
+/**
+ * Decide which archive entries to import. Pure function so the skip rules are testable.
+ */
+export function planDataRoomImport(entries: DataRoomEntry[]): { files: PlannedImportFile[]; skipped: SkippedImportFile[] } {
+  const files: PlannedImportFile[] = [];
+  const skipped: SkippedImportFile[] = [];
+
+  for (const entry of entries) {
+    if (entry.isDirectory) continue;
+
+    const normalizedPath = entry.path.replace(/\\/g, '/');
+    const segments = normalizedPath.split('/').filter(Boolean);
+    const fileName = segments[segments.length - 1] || '';
+
+    // OS metadata is silently ignored rather than reported
+    if (segments[0] === '__MACOSX' || fileName === '.DS_Store' || fileName === 'Thumbs.db' || fileName.startsWith('~$')) {
+      continue;
+    }
+
+    if (segments.includes('..') || normalizedPath.startsWith('/')) {
+      skipped.push({ path: entry.path, reason: 'Unsafe path' });
+      continue;
+    }
+
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === '.zip') {
+      skipped.push({ path: entry.path, reason: 'Nested archives are not supported' });
+    } else if (!DOCUMENT_EXTENSIONS.includes(extension) && !WEATHER_EXTENSIONS.includes(extension)) {
+      skipped.push({ path: entry.path, reason: `Unsupported file type${extension ? ` (${extension})` : ''}` });
+    } else if (entry.size === 0) {
+      skipped.push({ path: entry.path, reason: 'Empty file' });
+    } else if (entry.size !== null && entry.size > MAX_ENTRY_BYTES) {
+      skipped.push({ path: entry.path, reason: new EntryTooLargeError(MAX_ENTRY_BYTES).message });
+    } else {
+      files.push({
+        path: segments.join('/'),
+        entryName: entry.path,
+        fileName,
+        folderPath: segments.slice(0, -1).join('/'),
+        extension,
+      });
+    }
+  }
+
+  return { files, skipped };
+}
+
+/**
+ * Import every supported file in a data room ZIP into the project
+ */
+export async function importDataRoom(
+  projectId: number,
+  importId: string,
+  zipPath: string,
+  onProgress?: (stage: string, progress: number) => Promise<void>
+): Promise<DataRoomImportReport> {
+  const { detectDocumentType } = await import('./document-type-detector');
+  const { enqueueProcessingJob } = await import('./job-queue');
+  const { v4: uuidv4 } = await import('uuid');
+
+  const { size: archiveSize } = await fs.stat(zipPath);
+  if (archiveSize > MAX_ARCHIVE_BYTES) {
+    throw new Error(`Data room archive larger than ${Math.round(MAX_ARCHIVE_BYTES / 1024 / 1024)} MB`);
+  }
+  const zip = await JSZip.loadAsync(await fs.readFile(zipPath));
+  // Entry sizes are checked while each entry is extracted
+  const zipObjects = new Map(Object.values(zip.files).map(file => [file.name, file]));
+  const entries: DataRoomEntry[] = Array.from(zipObjects.values()).map(file => ({
+    path: file.name,
+    size: null,
+    isDirectory: file.dir,
+  }));
+  const { files, skipped } = planDataRoomImport(entries);
+  const report: DataRoomImportReport = { totalFiles: files.length + skipped.length, imported: [], skipped };
+
+  console.log(`[Data Room Import] ${importId}: ${files.length} files to import, ${skipped.length} skipped`);
+
+  const documentsDir = path.join(process.cwd(), 'data', 'projects', `proj_${projectId}`, 'documents');
+  await fs.mkdir(documentsDir, { recursive: true });
+
+  const projectDb = createProjectDbPool(projectId);
+  try {
+    await projectDb.execute(
+      `UPDATE data_room_imports SET status = 'processing', total_files = ?, updated_at = NOW() WHERE id = ?`,
+      [report.totalFiles, importId]
+    );
+
+    // Files imported by a previous attempt of this job
+    const [existingRows]: any = await projectDb.execute(
+      `SELECT id, fileName, folderPath, documentType FROM documents WHERE importId = ?`,
+      [importId]
+    );
+    const existing = new Map<string, any>(
+      existingRows.map((row: any) => [[row.folderPath, row.fileName].filter(Boolean).join('/'), row])
+    );
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      if (onProgress) await onProgress('importing_files', Math.round(5 + (i / files.length) * 90));
+
+      const previous = existing.get(file.path);
+      if (previous) {
+        report.imported.push({ path: file.path, documentId: previous.id, documentType: previous.documentType });
+        continue;
+      }
+
+      const documentId = uuidv4();
+      const finalPath = path.join(documentsDir, `${documentId}${file.extension}`);
+      try {
+        const size = await extractEntry(zipObjects.get(file.entryName)!, finalPath, MAX_ENTRY_BYTES);
+        if (size === 0) {
+          await fs.rm(finalPath, { force: true });
+          report.skipped.push({ path: file.path, reason: 'Empty file' });
+          continue;
+        }
+        const stats = await fs.stat(finalPath);
+        const fileHash = await hashFile(finalPath);
+
+        // Identical file already in the project (possibly from this same archive)
+        const duplicate = await findExactDuplicate(projectDb, fileHash);
+        if (duplicate) {
+          await fs.rm(finalPath, { force: true });
+          report.skipped.push({ path: file.path, reason: `Duplicate of ${duplicate.fileName}` });
+          continue;
+        }
+
+        const documentType: DocumentType = WEATHER_EXTENSIONS.includes(file.extension)
+          ? 'WEATHER_FILE'
+          : await detectDocumentType(finalPath, file.fileName);
+
+        await projectDb.execute(
+          `INSERT INTO documents (id, fileName, filePath, fileSizeBytes, fileHash, documentType, folderPath, importId, uploadDate, status)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW(), 'Uploaded')`,
+          [documentId, file.fileName, finalPath, stats.size, fileHash, documentType, file.folderPath || null, importId]
+        );
+
+        if (documentType === 'WEATHER_FILE') {
+          await enqueueProcessingJob({
+            projectId,
+            jobType: 'weather_parsing',
+            documentId,
+            payload: { fileName: file.fileName, filePath: finalPath, fileSize: stats.size },
+          });
+        } else {
+          await enqueueProcessingJob({
+            projectId,
+            jobType: 'document_processing',
+            documentId,
+            payload: { filePath: finalPath, documentType },
+          });
+        }
+
+        report.imported.push({ path: file.path, documentId, documentType });
+        console.log(`[Data Room Import] ✓ ${file.path} → ${documentType}`);
+      } catch (error: any) {
+        console.error(`[Data Room Import] Failed to import ${file.path}:`, error);
+        await fs.rm(finalPath, { force: true }).catch(() => {});
+        report.skipped.push({
+          path: file.path,
+          reason: error instanceof EntryTooLargeError ? error.message : `Import failed: ${error?.message || String(error)}`,
+        });
+      }
+    }
+
+    await projectDb.execute(
+      `UPDATE data_room_imports
+       SET status = 'completed', imported_count = ?, skipped_count = ?, report = ?, completed_at = NOW(), updated_at = NOW()
+       WHERE id = ?`,
+      [report.imported.length, report.skipped.length, JSON.stringify(report), importId]
+    );
+  } catch (error: any) {
+    await projectDb.execute(
+      `UPDATE data_room_imports SET status = 'failed', error_message = ?, report = ?, updated_at = NOW() WHERE id = ?`,
+      [error?.message || String(error), JSON.stringify(report), importId]
+    ).catch(() => {});
+    throw error;
+  } finally {
+    await projectDb.end();
+  }
+
+  console.log(`[Data Room Import] ${importId} complete: ${report.imported.length} imported, ${report.skipped.length} skipped`);
+  return report;
+}
+
+/**
+ * Stream one archive entry to a file, failing once it exceeds maxBytes.
+ * Returns the number of bytes written.
+ */
+export async function extractEntry(entry: JSZip.JSZipObject, destination: string, maxBytes: number): Promise<number> {
+  let bytes = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      callback(bytes > maxBytes ? new EntryTooLargeError(maxBytes) : null, chunk);
+    },
+  });
+  await pipeline(entry.nodeStream('nodebuffer'), limit, createWriteStream(destination));
+  return bytes;
+}
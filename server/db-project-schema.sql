@@ -4,10 +4,16 @@
 -- Processing jobs table: tracks document processing status
 CREATE TABLE processing_jobs (
   id INT AUTO_INCREMENT PRIMARY KEY,
-  document_id CHAR(36) NOT NULL,
+  document_id CHAR(36) NULL,
+  job_type VARCHAR(50) DEFAULT 'document_processing',
+  queue_job_id INT NULL,
   status ENUM('queued', 'processing', 'completed', 'failed') DEFAULT 'queued',
   stage VARCHAR(100) NOT NULL,
   progress_percent INT DEFAULT 0,
+  attempts INT DEFAULT 0,
+  coverage_percent DECIMAL(5,2) NULL,
+  chunks_total INT NULL,
+  chunks_processed INT NULL,
   error_message TEXT,
   started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   completed_at TIMESTAMP NULL,
@@ -25,17 +31,93 @@ CREATE TABLE documents (
   filePath VARCHAR(512) NOT NULL,
   fileSizeBytes INT,
   fileHash VARCHAR(255),
-  documentType ENUM('IM', 'DD_PACK', 'CONTRACT', 'GRID_STUDY', 'CONCEPT_DESIGN', 'WEATHER_FILE', 'OTHER') NOT NULL,
+  documentType VARCHAR(50) NOT NULL,
   uploadDate TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   status ENUM('Uploaded', 'Processing', 'Processed', 'Error') DEFAULT 'Uploaded',
   processingError TEXT,
   extractedText LONGTEXT,
   pageCount INT,
+  folderPath VARCHAR(1024) NULL,
+  importId CHAR(36) NULL,
+  textSignature TEXT NULL,
+  revisionGroupId CHAR(36) NULL COMMENT 'Shared by all revisions of the same document (id of the first revision)',
+  revisionNumber INT DEFAULT 1,
+  supersededBy CHAR(36) NULL COMMENT 'Newer revision that replaces this document',
+  supersededAt TIMESTAMP NULL,
+  executionStatus VARCHAR(10) NULL COMMENT 'executed, draft or unknown - detected from the name and text, NULL until scored',
+  documentDate DATE NULL COMMENT 'Date the document is dated, when stated',
   createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   INDEX idx_status (status),
   INDEX idx_documentType (documentType),
-  INDEX idx_uploadDate (uploadDate)
+  INDEX idx_uploadDate (uploadDate),
+  INDEX idx_importId (importId),
+  INDEX idx_fileHash (fileHash),
+  INDEX idx_revisionGroupId (revisionGroupId)
+);
+
+-- Duplicate / near-duplicate uploads and the user's decision
+CREATE TABLE document_duplicates (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NOT NULL COMMENT 'The newer upload',
+  duplicate_of_id CHAR(36) NOT NULL COMMENT 'Existing document it matches',
+  match_type ENUM('exact', 'near') NOT NULL,
+  similarity DECIMAL(5,4) NULL,
+  resolution ENUM('pending', 'skip', 'replace', 'revision') DEFAULT 'pending',
+  resolved_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_document_id (document_id),
+  INDEX idx_resolution (resolution)
+);
+
+-- Data room imports: one row per uploaded ZIP, with the per-file import/skip report
+CREATE TABLE data_room_imports (
+  id CHAR(36) PRIMARY KEY,
+  file_name VARCHAR(255) NOT NULL,
+  file_path VARCHAR(512) NOT NULL,
+  status ENUM('queued', 'processing', 'completed', 'failed') DEFAULT 'queued',
+  total_files INT DEFAULT 0,
+  imported_count INT DEFAULT 0,
+  skipped_count INT DEFAULT 0,
+  report JSON NULL,
+  error_message TEXT,
+  created_by INT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP NULL,
+  INDEX idx_status (status)
+);
+
+-- Document pages table: per-page extraction results (text layer or OCR)
+CREATE TABLE document_pages (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NOT NULL,
+  page_number INT NOT NULL,
+  extraction_method VARCHAR(20) NOT NULL DEFAULT 'direct',
+  word_count INT DEFAULT 0,
+  ocr_confidence DECIMAL(4, 3) NULL,
+  text MEDIUMTEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_document_page (document_id, page_number),
+  INDEX idx_document_id (document_id)
+);
+
+-- Tables detected in PDF pages (ruled or reconstructed from the text layout)
+CREATE TABLE document_tables (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NOT NULL,
+  page_number INT NOT NULL,
+  table_index INT NOT NULL DEFAULT 0 COMMENT 'Position of the table on its page',
+  caption VARCHAR(255) NULL,
+  detection_method ENUM('ruled', 'layout') NOT NULL,
+  table_type ENUM('financial', 'performance', 'other') DEFAULT 'other',
+  headers JSON NULL,
+  table_rows JSON NOT NULL,
+  row_count INT DEFAULT 0,
+  column_count INT DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_document_page (document_id, page_number),
+  INDEX idx_table_type (table_type)
 );
 
 -- Extracted facts table: extracted structured and unstructured facts from documents
@@ -44,12 +126,23 @@ CREATE TABLE extracted_facts (
   project_id INT NOT NULL,
   category VARCHAR(100) NOT NULL,
   `key` VARCHAR(255) NOT NULL,
+  raw_key VARCHAR(150) NULL COMMENT 'Key name reported by the extractor, e.g. capacity_dc_mwp',
+  canonical_key VARCHAR(100) NULL COMMENT 'Canonical fact key the raw key maps onto (main-DB fact_keys)',
+  raw_section VARCHAR(50) NULL COMMENT 'Section from the extractor, restored when the raw key is unmapped again',
   value TEXT NOT NULL,
-  data_type VARCHAR(50),
+  data_type VARCHAR(50) COMMENT 'Typed value kind: quantity, percentage, currency, date, enum, number or text',
+  value_numeric DOUBLE NULL COMMENT 'Value in the canonical unit (MW, MWh, kV, %, currency amount)',
+  value_unit VARCHAR(20) NULL COMMENT 'Canonical unit, ISO currency code or enum vocabulary',
+  value_date DATE NULL COMMENT 'First day of the date value period',
+  typed_value JSON NULL COMMENT 'Typed value parsed from the extracted value (shared/units.ts)',
   confidence VARCHAR(10),
   source_document_id VARCHAR(36),
   source_documents JSON COMMENT 'Array of document IDs that contributed to this insight',
   source_location TEXT,
+  source_page INT NULL COMMENT 'Page the supporting text was found on',
+  source_text_snippet TEXT NULL COMMENT 'Verbatim supporting text from the source page',
+  source_char_start INT NULL COMMENT 'Snippet start offset within the page text',
+  source_char_end INT NULL COMMENT 'Snippet end offset within the page text',
   extraction_method VARCHAR(50),
   extraction_model VARCHAR(100),
   verified INT DEFAULT 0,
@@ -57,14 +150,20 @@ CREATE TABLE extracted_facts (
   enrichment_count INT DEFAULT 1 COMMENT 'Number of documents that enriched this insight',
   conflict_with VARCHAR(36) NULL COMMENT 'ID of conflicting insight if any',
   merged_from JSON COMMENT 'Array of insight IDs that were merged into this one',
+  superseded_by VARCHAR(36) NULL COMMENT 'Fact that replaced this one in a merge or conflict resolution; kept soft-deleted as evidence',
   last_enriched_at TIMESTAMP NULL COMMENT 'Last time this insight was enriched',
+  is_stale TINYINT(1) DEFAULT 0 COMMENT 'All source documents have been superseded by newer revisions',
+  stale_since TIMESTAMP NULL,
+  prompt_version VARCHAR(150) NULL COMMENT 'Prompt template version the fact was extracted with, e.g. fact_risks@v2',
   deleted_at TIMESTAMP NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   INDEX idx_category (category),
   INDEX idx_key (`key`),
   INDEX idx_verified (verified),
   INDEX idx_confidence (confidence),
-  INDEX idx_conflict_with (conflict_with)
+  INDEX idx_conflict_with (conflict_with),
+  INDEX idx_value_numeric (value_unit, value_numeric),
+  INDEX idx_canonical_key (canonical_key)
 );
 
 -- Insight conflicts table: tracks conflicting insights from different documents
@@ -74,7 +173,14 @@ CREATE TABLE insight_conflicts (
   insight_a_id VARCHAR(36) NOT NULL,
   insight_b_id VARCHAR(36) NOT NULL,
   conflict_type ENUM('value_mismatch', 'date_mismatch', 'numerical_mismatch') NOT NULL,
+  typed_value_a JSON NULL COMMENT 'Value of insight A the conflict was detected on (shared/units.ts)',
+  typed_value_b JSON NULL COMMENT 'Value of insight B the conflict was detected on',
+  difference_value DOUBLE NULL COMMENT 'Signed difference of B from A in difference_unit',
+  difference_unit VARCHAR(10) NULL COMMENT '%, pp (percentage points), days or months',
+  magnitude VARCHAR(50) NULL COMMENT 'Difference for display, e.g. +12.5 %',
   resolution_status ENUM('pending', 'resolved', 'ignored') DEFAULT 'pending',
+  resolution VARCHAR(20) NULL COMMENT 'accept_a, accept_b, merge or ignore',
+  resolution_rationale TEXT NULL,
   resolved_by INT NULL,
   resolved_at TIMESTAMP NULL,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -178,6 +284,8 @@ CREATE TABLE performance_parameters (
   source_document_id VARCHAR(36),
   confidence VARCHAR(20),
   extraction_method VARCHAR(50),
+  source_cells JSON NULL COMMENT 'Field -> spreadsheet cell (Sheet!A1) the value was read from',
+  prompt_version VARCHAR(150) NULL COMMENT 'Prompt template version of the LLM-extracted values',
   notes TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -212,6 +320,8 @@ CREATE TABLE financial_data (
   source_document_id VARCHAR(36),
   confidence VARCHAR(20),
   extraction_method VARCHAR(50),
+  source_cells JSON NULL COMMENT 'Field -> spreadsheet cell (Sheet!A1) the value was read from',
+  prompt_version VARCHAR(150) NULL COMMENT 'Prompt template version of the LLM-extracted values',
   notes TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -302,3 +412,236 @@ CREATE TABLE IF NOT EXISTS section_narratives (
   INDEX idx_project_id (project_id),
   INDEX idx_section_key (section_key)
 );
+
+-- LLM calls made while processing the project (token and latency accounting)
+CREATE TABLE llm_usage (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NULL COMMENT 'NULL for project-level work such as consolidation',
+  stage VARCHAR(30) NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  prompt_tokens INT DEFAULT 0,
+  completion_tokens INT DEFAULT 0,
+  latency_ms INT DEFAULT 0,
+  cached TINYINT(1) DEFAULT 0 COMMENT 'Answered from the LLM response cache',
+  succeeded TINYINT(1) DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_document_id (document_id),
+  INDEX idx_stage (stage)
+);
+
+-- LLM outputs that failed schema validation after the repair attempts
+CREATE TABLE llm_output_failures (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  processing_job_id INT NULL,
+  document_id CHAR(36) NULL,
+  stage VARCHAR(30) NOT NULL,
+  label VARCHAR(150) NOT NULL COMMENT 'What the call produces, e.g. fact_risks chunk 2/5',
+  error_message TEXT NOT NULL,
+  raw_output MEDIUMTEXT NULL,
+  attempts INT DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_processing_job_id (processing_job_id),
+  INDEX idx_document_id (document_id)
+);
+
+-- Entity register: organisations and people involved in the project
+CREATE TABLE entities (
+  id VARCHAR(36) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  normalized_name VARCHAR(255) NOT NULL COMMENT 'Name without punctuation and legal suffixes, used to match mentions',
+  entity_type ENUM('organisation', 'person') NOT NULL DEFAULT 'organisation',
+  roles JSON NULL COMMENT 'developer, epc, offtaker, om, lender, grid_operator, other',
+  ownership_percent DECIMAL(6, 3) NULL COMMENT 'Share of the project held by the entity',
+  affiliation VARCHAR(255) NULL COMMENT 'Organisation a person works for',
+  emails JSON NULL,
+  phones JSON NULL,
+  merged_into VARCHAR(36) NULL COMMENT 'Entity this duplicate was merged into; its name still matches new mentions',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_normalized_name (normalized_name),
+  INDEX idx_merged_into (merged_into)
+);
+
+-- Documents and facts that mention an entity (fact_id NULL for the document-level mention)
+CREATE TABLE entity_mentions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  entity_id VARCHAR(36) NOT NULL,
+  document_id CHAR(36) NOT NULL,
+  fact_id VARCHAR(36) NULL,
+  role VARCHAR(30) NULL,
+  ownership_percent DECIMAL(6, 3) NULL,
+  mention_text TEXT NULL COMMENT 'Text the entity was found in',
+  extraction_method VARCHAR(20) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_entity_id (entity_id),
+  INDEX idx_document_id (document_id),
+  INDEX idx_fact_id (fact_id)
+);
+
+-- Project milestones with planned and actual dates, per document (milestone schedule)
+CREATE TABLE milestones (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NOT NULL,
+  milestone_key VARCHAR(100) NOT NULL COMMENT 'cod, financial_close, ntp, construction_start, ... or a slug of the name',
+  name VARCHAR(255) NOT NULL,
+  planned_date DATE NULL COMMENT 'First day of the planned period',
+  planned_precision VARCHAR(10) NULL COMMENT 'day, month, quarter or year',
+  actual_date DATE NULL COMMENT 'First day of the period the milestone was achieved in',
+  actual_precision VARCHAR(10) NULL,
+  depends_on VARCHAR(100) NULL COMMENT 'Key of the milestone that must happen first',
+  source_text TEXT NULL,
+  extraction_method VARCHAR(20) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_document_id (document_id),
+  INDEX idx_milestone_key (milestone_key)
+);
+
+-- Key clauses of contracts per document (obligations register)
+CREATE TABLE contract_obligations (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  document_id CHAR(36) NOT NULL,
+  category VARCHAR(40) NOT NULL COMMENT 'term, tariff, indexation, liquidated_damages, liability_cap, performance_guarantee, termination, condition_precedent, obligation',
+  title VARCHAR(255) NOT NULL,
+  summary TEXT NULL,
+  party VARCHAR(100) NULL COMMENT 'Party the clause binds, as defined in the contract',
+  value VARCHAR(255) NULL COMMENT 'Key figure as written, e.g. USD 45.50/MWh',
+  clause_reference VARCHAR(50) NULL COMMENT 'Clause number, e.g. 14.2',
+  page_number INT NULL,
+  source_text TEXT NULL,
+  extraction_method VARCHAR(20) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_document_id (document_id),
+  INDEX idx_category (category)
+);
+
+-- Vector index of fact texts for reconciliation (fact-vector-index.ts)
+CREATE TABLE fact_embeddings (
+  fact_id VARCHAR(36) PRIMARY KEY,
+  model VARCHAR(50) NOT NULL COMMENT 'Embedding model; vectors of an older model are recomputed',
+  dimensions INT NOT NULL,
+  text_hash CHAR(64) NOT NULL COMMENT 'SHA-256 of the fact text the vector was computed from',
+  vector BLOB NOT NULL COMMENT 'Float32 values, little-endian',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Counts and timings of each reconciliation run
+CREATE TABLE reconciliation_runs (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  facts INT DEFAULT 0,
+  fact_keys INT DEFAULT 0 COMMENT 'Keys with facts from more than one document',
+  embeddings_computed INT DEFAULT 0,
+  embeddings_reused INT DEFAULT 0,
+  pairs_compared INT DEFAULT 0,
+  clusters INT DEFAULT 0,
+  merges INT DEFAULT 0,
+  conflicts INT DEFAULT 0,
+  llm_calls INT DEFAULT 0,
+  embedding_ms INT DEFAULT 0,
+  clustering_ms INT DEFAULT 0,
+  llm_ms INT DEFAULT 0,
+  total_ms INT DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Conflict resolutions, kept so any resolution can be reverted
+CREATE TABLE conflict_resolutions (
+  id VARCHAR(36) PRIMARY KEY,
+  conflict_id VARCHAR(36) NOT NULL,
+  resolution VARCHAR(20) NOT NULL COMMENT 'accept_a, accept_b, merge or ignore',
+  kept_fact_ids JSON NOT NULL COMMENT 'Facts left in place',
+  superseded_fact_ids JSON NOT NULL COMMENT 'Facts soft-deleted by the resolution',
+  merged_fact_id VARCHAR(36) NULL COMMENT 'Fact created by a merge',
+  rationale TEXT NULL,
+  resolved_by INT NULL,
+  resolved_by_name VARCHAR(255) NULL,
+  resolved_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  reverted_by INT NULL,
+  reverted_by_name VARCHAR(255) NULL,
+  reverted_at TIMESTAMP NULL,
+  FOREIGN KEY (conflict_id) REFERENCES insight_conflicts(id) ON DELETE CASCADE,
+  INDEX idx_conflict_id (conflict_id),
+  INDEX idx_resolved_at (resolved_at)
+);
+
+-- ============================================================================
+-- Schema upgrades for projects provisioned before a column existed.
+-- Applied on every provisioning run; duplicate column/index errors are ignored.
+-- ============================================================================
+
+-- Durable job queue (processing_jobs mirrors main-DB job_queue rows)
+ALTER TABLE processing_jobs MODIFY COLUMN document_id CHAR(36) NULL;
+ALTER TABLE processing_jobs ADD COLUMN job_type VARCHAR(50) DEFAULT 'document_processing';
+ALTER TABLE processing_jobs ADD COLUMN queue_job_id INT NULL;
+ALTER TABLE processing_jobs ADD COLUMN attempts INT DEFAULT 0;
+
+-- Page-level provenance for extracted facts
+ALTER TABLE extracted_facts ADD COLUMN source_page INT NULL;
+ALTER TABLE extracted_facts ADD COLUMN source_text_snippet TEXT NULL;
+ALTER TABLE extracted_facts ADD COLUMN source_char_start INT NULL;
+ALTER TABLE extracted_facts ADD COLUMN source_char_end INT NULL;
+
+-- Extraction coverage for chunked LLM extraction
+ALTER TABLE processing_jobs ADD COLUMN coverage_percent DECIMAL(5,2) NULL;
+ALTER TABLE processing_jobs ADD COLUMN chunks_total INT NULL;
+ALTER TABLE processing_jobs ADD COLUMN chunks_processed INT NULL;
+
+-- Data room ZIP import
+ALTER TABLE documents ADD COLUMN folderPath VARCHAR(1024) NULL;
+ALTER TABLE documents ADD COLUMN importId CHAR(36) NULL;
+ALTER TABLE documents ADD INDEX idx_importId (importId);
+
+-- Duplicate detection
+ALTER TABLE documents ADD COLUMN textSignature TEXT NULL;
+ALTER TABLE documents ADD INDEX idx_fileHash (fileHash);
+
+-- Document revisions
+ALTER TABLE documents ADD COLUMN revisionGroupId CHAR(36) NULL;
+ALTER TABLE documents ADD COLUMN revisionNumber INT DEFAULT 1;
+ALTER TABLE documents ADD COLUMN supersededBy CHAR(36) NULL;
+ALTER TABLE documents ADD COLUMN supersededAt TIMESTAMP NULL;
+ALTER TABLE documents ADD INDEX idx_revisionGroupId (revisionGroupId);
+ALTER TABLE extracted_facts ADD COLUMN is_stale TINYINT(1) DEFAULT 0;
+ALTER TABLE extracted_facts ADD COLUMN stale_since TIMESTAMP NULL;
+
+-- Spreadsheet cell provenance
+ALTER TABLE performance_parameters ADD COLUMN source_cells JSON NULL;
+ALTER TABLE financial_data ADD COLUMN source_cells JSON NULL;
+
+-- Admin-managed document taxonomy (codes live in the main-DB document_types table)
+ALTER TABLE documents MODIFY COLUMN documentType VARCHAR(50) NOT NULL;
+
+-- Prompt template versions
+ALTER TABLE extracted_facts ADD COLUMN prompt_version VARCHAR(150) NULL;
+ALTER TABLE performance_parameters ADD COLUMN prompt_version VARCHAR(150) NULL;
+ALTER TABLE financial_data ADD COLUMN prompt_version VARCHAR(150) NULL;
+
+-- Typed fact values with canonical units
+ALTER TABLE extracted_facts ADD COLUMN value_numeric DOUBLE NULL;
+ALTER TABLE extracted_facts ADD COLUMN value_unit VARCHAR(20) NULL;
+ALTER TABLE extracted_facts ADD COLUMN value_date DATE NULL;
+ALTER TABLE extracted_facts ADD COLUMN typed_value JSON NULL;
+ALTER TABLE extracted_facts ADD INDEX idx_value_numeric (value_unit, value_numeric);
+
+-- Typed conflict classification with magnitude
+ALTER TABLE insight_conflicts ADD COLUMN typed_value_a JSON NULL;
+ALTER TABLE insight_conflicts ADD COLUMN typed_value_b JSON NULL;
+ALTER TABLE insight_conflicts ADD COLUMN difference_value DOUBLE NULL;
+ALTER TABLE insight_conflicts ADD COLUMN difference_unit VARCHAR(10) NULL;
+ALTER TABLE insight_conflicts ADD COLUMN magnitude VARCHAR(50) NULL;
+
+-- Non-destructive conflict resolution
+ALTER TABLE extracted_facts ADD COLUMN superseded_by VARCHAR(36) NULL;
+ALTER TABLE insight_conflicts ADD COLUMN resolution VARCHAR(20) NULL;
+ALTER TABLE insight_conflicts ADD COLUMN resolution_rationale TEXT NULL;
+
+-- Source authority of conflicting facts
+ALTER TABLE documents ADD COLUMN executionStatus VARCHAR(10) NULL;
+ALTER TABLE documents ADD COLUMN documentDate DATE NULL;
+
+-- Canonical fact key ontology
+ALTER TABLE extracted_facts ADD COLUMN raw_key VARCHAR(150) NULL;
+ALTER TABLE extracted_facts ADD COLUMN canonical_key VARCHAR(100) NULL;
+ALTER TABLE extracted_facts ADD COLUMN raw_section VARCHAR(50) NULL;
+ALTER TABLE extracted_facts ADD INDEX idx_canonical_key (canonical_key);
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { chunkDocument, computeCoverage, mapWithConcurrency } from './document-chunker';
+
+const paragraph = (n: number) => `Paragraph ${n} describes the grid connection and site layout in some detail.`;
+
+describe('Document Chunker', () => {
+  it('should keep short documents in a single chunk', () => {
+    const chunks = chunkDocument('1. Introduction\nThe project is a 100 MW solar farm.');
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].heading).toBe('1. Introduction');
+    expect(chunks[0].startPage).toBeNull();
+  });
+
+  it('should split long documents along page boundaries and read all text', () => {
+    const pages = Array.from({ length: 6 }, (_, i) => ({
+      pageNumber: i + 1,
+      text: Array.from({ length: 5 }, (_, j) => paragraph(i * 5 + j)).join('\n'),
+      wordCount: 60,
+    }));
+    const chunks = chunkDocument(pages, { maxChars: 900 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.text.length <= 900)).toBe(true);
+    expect(chunks[0].startPage).toBe(1);
+    expect(chunks[chunks.length - 1].endPage).toBe(6);
+    const allText = chunks.map(c => c.text).join('\n');
+    expect(allText).toContain(paragraph(0));
+    expect(allText).toContain(paragraph(29));
+  });
+
+  it('should split oversized sections at paragraph boundaries', () => {
+    const text = Array.from({ length: 20 }, (_, i) => paragraph(i)).join('\n\n');
+    const chunks = chunkDocument(text, { maxChars: 500 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.text.length <= 500)).toBe(true);
+    expect(chunks[1].text.startsWith('Paragraph')).toBe(true);
+  });
+
+  it('should report coverage from the chunks that were read', () => {
+    const chunks = chunkDocument(Array.from({ length: 4 }, (_, i) => paragraph(i)).join('\n\n'), { maxChars: 100 });
+    const coverage = computeCoverage(chunks, new Set([0, 1]));
+    expect(coverage.chunksTotal).toBe(4);
+    expect(coverage.chunksProcessed).toBe(2);
+    expect(coverage.percent).toBe(50);
+  });
+
+  it('should limit concurrency and keep result order', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return n * 10;
+    });
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxActive).toBe(2);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Document Chunker
+ *
+ * Splits long documents into LLM-sized chunks along section headings and
+ * page boundaries so extraction passes can read the whole document instead
+ * of only the first N characters.
+ *
+ * - Pages are split into blocks at heading lines ("3.2 Grid Connection", "EXECUTIVE SUMMARY")
+ * - Blocks are packed into chunks up to maxChars, breaking at headings where possible
+ * - Oversized blocks are split at paragraph, then sentence boundaries
+ */
+
+import type { PdfPage } from './pdf-extractor';
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  startPage: number | null;
+  endPage: number | null;
+  heading: string | null; // first heading in the chunk, if any
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+}
+
+export interface ExtractionCoverage {
+  totalChars: number;
+  charsRead: number;
+  percent: number;
+  chunksTotal: number;
+  chunksProcessed: number;
+}
+
+interface Block {
+  text: string;
+  pageNumber: number | null;
+  heading: string | null;
+}
+
+const DEFAULT_MAX_CHARS = 50000;
+
+// Numbered headings ("1.", "2.3 Title", "Section 4") or short all-caps lines
+const HEADING_PATTERN = /^\s*(?:(?:section|chapter|appendix|annex)\s+[\dA-Z]+|\d+(?:\.\d+)*\.?\s+[A-Z][^\n]{2,80}|[A-Z][A-Z0-9 &,\-\/()]{3,80})\s*$/i;
+
+/**
+ * Split page texts (or a single text when there are no pages) into chunks
+ */
+export function chunkDocument(input: PdfPage[] | string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const pages: Array<{ pageNumber: number | null; text: string }> = typeof input === 'string'
+    ? [{ pageNumber: null, text: input }]
+    : input.map(page => ({ pageNumber: page.pageNumber, text: page.text }));
+
+  const blocks = pages.flatMap(page => splitIntoBlocks(page.text, page.pageNumber))
+    .flatMap(block => splitOversizedBlock(block, maxChars));
+
+  const chunks: DocumentChunk[] = [];
+  let current: Block[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const pageNumbers = current.map(b => b.pageNumber).filter((n): n is number => n !== null);
+    chunks.push({
+      index: chunks.length,
+      text: current.map(b => b.text).join('\n\n'),
+      startPage: pageNumbers.length > 0 ? Math.min(...pageNumbers) : null,
+      endPage: pageNumbers.length > 0 ? Math.max(...pageNumbers) : null,
+      heading: current.find(b => b.heading)?.heading ?? null,
+    });
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const block of blocks) {
+    const wouldOverflow = currentLength + block.text.length + 2 > maxChars;
+    // Start a new chunk at a heading once the current one is reasonably full
+    const atSectionBreak = block.heading !== null && currentLength > maxChars * 0.6;
+    if (wouldOverflow || atSectionBreak) flush();
+
+    current.push(block);
+    currentLength += block.text.length + 2;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Coverage summary for a set of chunks and the indexes that were read successfully
+ */
+export function computeCoverage(chunks: DocumentChunk[], processed: Set<number>): ExtractionCoverage {
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  const charsRead = chunks
+    .filter(chunk => processed.has(chunk.index))
+    .reduce((sum, chunk) => sum + chunk.text.length, 0);
+
+  return {
+    totalChars,
+    charsRead,
+    percent: totalChars > 0 ? Math.round((charsRead / totalChars) * 10000) / 100 : 100,
+    chunksTotal: chunks.length,
+    chunksProcessed: processed.size,
+  };
+}
+
+function splitIntoBlocks(text: string, pageNumber: number | null): Block[] {
+  const blocks: Block[] = [];
+  let lines: string[] = [];
+  let heading: string | null = null;
+
+  const flush = () => {
+    const blockText = lines.join('\n').trim();
+    if (blockText.length > 0) {
+      blocks.push({ text: blockText, pageNumber, heading });
+    }
+    lines = [];
+    heading = null;
+  };
+
+  for (const line of text.split('\n')) {
+    if (isHeading(line)) {
+      flush();
+      heading = line.trim();
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.length < 4 || trimmed.length > 90) return false;
+  // Sentences ending in a full stop are body text, not headings
+  if (/[.;:,]$/.test(trimmed)) return false;
+  return HEADING_PATTERN.test(trimmed);
+}
+
+function splitOversizedBlock(block: Block, maxChars: number): Block[] {
+  if (block.text.length <= maxChars) return [block];
+
+  const pieces: Block[] = [];
+  // Prefer paragraph breaks, then sentence ends, then a hard cut
+  const units = block.text.split(/\n\s*\n/).flatMap(paragraph =>
+    paragraph.length <= maxChars ? [paragraph] : paragraph.split(/(?<=[.!?])\s+/)
+  );
+
+  let buffer = '';
+  for (const unit of units) {
+    if (unit.length > maxChars) {
+      if (buffer) {
+        pieces.push({ ...block, text: buffer, heading: pieces.length === 0 ? block.heading : null });
+        buffer = '';
+      }
+      for (let i = 0; i < unit.length; i += maxChars) {
+        pieces.push({ ...block, text: unit.slice(i, i + maxChars), heading: pieces.length === 0 ? block.heading : null });
+      }
+      continue;
+    }
+    if (buffer.length + unit.length + 2 > maxChars) {
+      pieces.push({ ...block, text: buffer, heading: pieces.length === 0 ? block.heading : null });
+      buffer = '';
+    }
+    buffer = buffer ? `${buffer}\n\n${unit}` : unit;
+  }
+  if (buffer) {
+    pieces.push({ ...block, text: buffer, heading: pieces.length === 0 ? block.heading : null });
+  }
+
+  return pieces;
+}
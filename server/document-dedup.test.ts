@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { computeMinHashSignature, estimateSimilarity } from './document-dedup';
+
+const report = Array.from({ length: 200 }, (_, i) =>
+  `Section ${i}: the solar plant capacity is ${100 + i} MW with grid connection at 132 kV near the substation.`
+).join('\n');
+
+describe('Document Dedup', () => {
+  it('should give identical texts a similarity of 1', () => {
+    const signature = computeMinHashSignature(report);
+    expect(estimateSimilarity(signature, computeMinHashSignature(report))).toBe(1);
+  });
+
+  it('should recognise a lightly revised report as a near duplicate', () => {
+    const revised = report.replace('capacity is 150 MW', 'capacity is 155 MW').replace('Section 10:', 'Section 10 (Rev B):');
+    const similarity = estimateSimilarity(computeMinHashSignature(report), computeMinHashSignature(revised));
+    expect(similarity).toBeGreaterThan(0.8);
+    expect(similarity).toBeLessThan(1);
+  });
+
+  it('should keep unrelated documents apart', () => {
+    const other = Array.from({ length: 200 }, (_, i) =>
+      `Clause ${i}: the lessee shall pay annual rent of ${5000 + i} dollars to the landowner by June.`
+    ).join('\n');
+    expect(estimateSimilarity(computeMinHashSignature(report), computeMinHashSignature(other))).toBeLessThan(0.2);
+  });
+});
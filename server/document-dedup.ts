@@ -0,0 +1,290 @@
+/**
+ * Duplicate Document Detection
+ *
+ * Stops the same report being ingested twice (which doubles every fact and
+ * produces fake conflicts):
+ * - Exact duplicates: same SHA-256 file hash, checked at upload time
+ * - Near duplicates: MinHash over word shingles of the extracted text, checked
+ *   after text extraction so revised versions of a report are recognised
+ *
+ * Matches are recorded in document_duplicates and the user chooses:
+ * - skip: discard the new upload
+ * - replace: delete the existing document (and its facts), keep the new one
+ * - revision: keep both, the new upload supersedes the existing one (see document-revisions.ts)
+ *
+ * Facts of a near-duplicate are not stored until the user has decided.
+ */
+
+import crypto from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+
+export type DuplicateAction = 'skip' | 'replace' | 'revision';
+
+export interface DuplicateMatch {
+  documentId: string;   // the existing document
+  fileName: string;
+  matchType: 'exact' | 'near';
+  similarity: number;   // 1 for exact matches
+}
+
+export interface Queryable {
+  execute(sql: string, values?: any[]): Promise<any>;
+}
+
+const SIGNATURE_SIZE = 128;
+const SHINGLE_WORDS = 5;
+// Estimated Jaccard similarity above which two documents are treated as versions of each other
+const NEAR_DUPLICATE_THRESHOLD = parseFloat(process.env.NEAR_DUPLICATE_THRESHOLD || '0.8');
+
+// One seed per MinHash permutation, fixed so stored signatures stay comparable
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(0x9e3779b9 ^ Math.imul(i + 1, 0x85ebca6b)));
+
+/**
+ * SHA-256 of a file, streamed so large uploads are not loaded into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * MinHash signature of a text over overlapping word shingles
+ */
+export function computeMinHashSignature(text: string): number[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  if (words.length === 0) return signature;
+
+  const shingleHashes = new Set<number>();
+  const shingleCount = Math.max(1, words.length - SHINGLE_WORDS + 1);
+  for (let i = 0; i < shingleCount; i++) {
+    shingleHashes.add(fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+
+  for (const shingle of Array.from(shingleHashes)) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two MinHash signatures (0-1)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Existing document with the same file hash
+ */
+export async function findExactDuplicate(
+  projectDb: Queryable,
+  fileHash: string,
+  excludeDocumentId?: string
+): Promise<DuplicateMatch | null> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT id, fileName FROM documents WHERE fileHash = ? AND id <> ? ORDER BY uploadDate ASC LIMIT 1`,
+    [fileHash, excludeDocumentId ?? '']
+  );
+  if (rows.length === 0) return null;
+  return { documentId: rows[0].id, fileName: rows[0].fileName, matchType: 'exact', similarity: 1 };
+}
+
+/**
+ * Most similar other document whose text signature is above the threshold.
+ * Documents already paired with this one in document_duplicates, and other
+ * revisions of it (reprocessing an older revision matches its newer one), are
+ * not candidates.
+ */
+export async function findNearDuplicate(
+  projectDb: Queryable,
+  documentId: string,
+  signature: number[]
+): Promise<DuplicateMatch | null> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT d.id, d.fileName, d.textSignature
+     FROM documents d JOIN documents self ON self.id = ?
+     WHERE d.id <> self.id AND d.textSignature IS NOT NULL
+       AND (self.revisionGroupId IS NULL OR d.revisionGroupId IS NULL OR d.revisionGroupId <> self.revisionGroupId)
+       AND NOT EXISTS (
+         SELECT 1 FROM document_duplicates dd
+         WHERE (dd.document_id = self.id AND dd.duplicate_of_id = d.id) OR (dd.document_id = d.id AND dd.duplicate_of_id = self.id)
+       )`,
+    [documentId]
+  );
+
+  let best: DuplicateMatch | null = null;
+  for (const row of rows) {
+    const similarity = estimateSimilarity(signature, JSON.parse(row.textSignature));
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { documentId: row.id, fileName: row.fileName, matchType: 'near', similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Record a duplicate match; resolution is 'pending' until the user decides
+ */
+export async function recordDuplicate(
+  projectDb: Queryable,
+  documentId: string,
+  match: DuplicateMatch,
+  resolution: DuplicateAction | 'pending' = 'pending'
+): Promise<void> {
+  await projectDb.execute(
+    `INSERT INTO document_duplicates (document_id, duplicate_of_id, match_type, similarity, resolution, resolved_at)
+     VALUES (?, ?, ?, ?, ?, ${resolution === 'pending' ? 'NULL' : 'NOW()'})`,
+    [documentId, match.documentId, match.matchType, match.similarity, resolution]
+  );
+}
+
+/**
+ * Latest duplicate decision recorded for a document (as the newer upload)
+ */
+export async function getDuplicateResolution(
+  projectDb: Queryable,
+  documentId: string
+): Promise<DuplicateAction | 'pending' | null> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT resolution FROM document_duplicates WHERE document_id = ? ORDER BY id DESC LIMIT 1`,
+    [documentId]
+  );
+  return rows.length > 0 ? rows[0].resolution : null;
+}
+
+/**
+ * Remove a document with everything derived from it (file, facts, pages, jobs)
+ */
+export async function removeDocument(projectDb: Queryable, documentId: string): Promise<void> {
+  const [docs]: any = await projectDb.execute(`SELECT filePath FROM documents WHERE id = ?`, [documentId]);
+  if (docs.length > 0 && docs[0].filePath) {
+    await fs.unlink(docs[0].filePath).catch((error) => {
+      console.error(`[Dedup] Failed to delete file for document ${documentId}:`, error);
+    });
+  }
+
+  // The revision this document superseded becomes current again
+  const { restorePreviousRevision, refreshStaleFacts } = await import('./document-revisions');
+  await restorePreviousRevision(projectDb, documentId);
+
+  await projectDb.execute(
+    `DELETE FROM fact_embeddings WHERE fact_id IN (SELECT id FROM extracted_facts WHERE source_document_id = ?)`,
+    [documentId]
+  );
+  await projectDb.execute(`DELETE FROM extracted_facts WHERE source_document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM processing_jobs WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM document_pages WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM document_tables WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM entity_mentions WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM milestones WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(`DELETE FROM contract_obligations WHERE document_id = ?`, [documentId]);
+  await projectDb.execute(
+    `DELETE FROM document_duplicates WHERE resolution = 'pending' AND (document_id = ? OR duplicate_of_id = ?)`,
+    [documentId, documentId]
+  );
+  await projectDb.execute(`DELETE FROM documents WHERE id = ?`, [documentId]);
+  await refreshStaleFacts(projectDb);
+}
+
+/**
+ * Apply the decision the user made at upload time for an exact duplicate
+ * ('skip' never stores the new document, so it doesn't get here)
+ */
+export async function applyUploadDuplicateAction(
+  projectDb: Queryable,
+  documentId: string,
+  match: DuplicateMatch,
+  action: Exclude<DuplicateAction, 'skip'>
+): Promise<void> {
+  await recordDuplicate(projectDb, documentId, match, action);
+  if (action === 'replace') {
+    await removeDocument(projectDb, match.documentId);
+    console.log(`[Dedup] Document ${match.documentId} replaced by ${documentId}`);
+  } else {
+    const { supersedeDocument } = await import('./document-revisions');
+    await supersedeDocument(projectDb, match.documentId, documentId);
+  }
+}
+
+/**
+ * Apply the user's decision on a pending duplicate. For 'replace' and
+ * 'revision' the new document is queued for processing again so its facts
+ * are stored.
+ */
+export async function resolveDuplicate(
+  projectId: number,
+  projectDb: Queryable,
+  duplicateId: number,
+  action: DuplicateAction
+): Promise<void> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT dd.document_id, dd.duplicate_of_id, dd.resolution, d.filePath, d.documentType
+     FROM document_duplicates dd
+     JOIN documents d ON d.id = dd.document_id
+     WHERE dd.id = ?`,
+    [duplicateId]
+  );
+  if (rows.length === 0) throw new Error(`Duplicate ${duplicateId} not found`);
+  const duplicate = rows[0];
+  if (duplicate.resolution !== 'pending') throw new Error(`Duplicate ${duplicateId} is already resolved`);
+
+  await projectDb.execute(
+    `UPDATE document_duplicates SET resolution = ?, resolved_at = NOW() WHERE id = ?`,
+    [action, duplicateId]
+  );
+
+  if (action === 'skip') {
+    await removeDocument(projectDb, duplicate.document_id);
+    console.log(`[Dedup] Skipped duplicate upload ${duplicate.document_id}`);
+    return;
+  }
+
+  if (action === 'replace') {
+    await removeDocument(projectDb, duplicate.duplicate_of_id);
+    console.log(`[Dedup] Document ${duplicate.duplicate_of_id} replaced by ${duplicate.document_id}`);
+  } else {
+    const { supersedeDocument } = await import('./document-revisions');
+    await supersedeDocument(projectDb, duplicate.duplicate_of_id, duplicate.document_id);
+  }
+
+  const { enqueueProcessingJob } = await import('./job-queue');
+  await enqueueProcessingJob({
+    projectId,
+    jobType: 'document_processing',
+    documentId: duplicate.document_id,
+    payload: { filePath: duplicate.filePath, documentType: duplicate.documentType },
+  });
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer - cheap, well-mixed 32-bit permutation
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
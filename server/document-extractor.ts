@@ -7,9 +7,11 @@
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { extractTextFromPdf, extractTextFromPdfFile } from './pdf-extractor';
+import { extractTextFromPdf, extractTextFromPdfFile, type PdfPage } from './pdf-extractor';
+import type { PdfTable } from './pdf-table-extractor';
 import { extractTextFromDocx, extractTextFromDocxFile } from './docx-extractor';
 import { extractTextFromXlsx, extractTextFromXlsxFile } from './xlsx-extractor';
+import { extractSpreadsheetData, type SpreadsheetExtraction } from './spreadsheet-extractor';
 
 export interface DocumentExtractionResult {
   text: string;
@@ -17,16 +19,14 @@ export interface DocumentExtractionResult {
   extractionMethod: string;
   wordCount: number;
   metadata?: Record<string, any>;
-  pages?: Array<{
-    pageNumber: number;
-    text: string;
-    wordCount: number;
-  }>;
+  pages?: PdfPage[];
+  tables?: PdfTable[]; // tables detected on PDF pages
   sheets?: Array<{
     name: string;
     rowCount: number;
     columnCount: number;
   }>;
+  spreadsheet?: SpreadsheetExtraction; // labelled cells mapped to financial / performance fields
 }
 
 /**
@@ -78,6 +78,7 @@ async function extractFromPdf(filePath: string): Promise<DocumentExtractionResul
     wordCount: result.text.split(/\s+/).filter(w => w.length > 0).length,
     metadata: result.metadata,
     pages: result.pages,
+    tables: result.tables,
   };
 }
 
@@ -103,6 +104,8 @@ async function extractFromDocx(filePath: string): Promise<DocumentExtractionResu
  */
 async function extractFromXlsx(filePath: string): Promise<DocumentExtractionResult> {
   const result = await extractTextFromXlsxFile(filePath);
+  const spreadsheet = extractSpreadsheetData(result.workbook);
+  console.log(`[Document Extractor] Mapped ${spreadsheet.mappedCells} labelled spreadsheet cells`);
   
   return {
     text: result.text,
@@ -118,6 +121,7 @@ async function extractFromXlsx(filePath: string): Promise<DocumentExtractionResu
       rowCount: sheet.rowCount,
       columnCount: sheet.columnCount,
     })),
+    spreadsheet,
   };
 }
 
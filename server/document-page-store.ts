@@ -0,0 +1,42 @@
+/**
+ * Document Page Store
+ * 
+ * Persists per-page extraction results (text layer vs OCR, OCR confidence)
+ * so page quality is available after processing.
+ */
+
+import mysql from 'mysql2/promise';
+import type { PdfPage } from './pdf-extractor';
+
+/**
+ * Replace the stored pages for a document and update its page count
+ */
+export async function saveDocumentPages(
+  projectDb: mysql.Pool | any,
+  documentId: string,
+  pages: PdfPage[]
+): Promise<void> {
+  await projectDb.execute(`DELETE FROM document_pages WHERE document_id = ?`, [documentId]);
+
+  for (const page of pages) {
+    await projectDb.execute(
+      `INSERT INTO document_pages (document_id, page_number, extraction_method, word_count, ocr_confidence, text)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        documentId,
+        page.pageNumber,
+        page.extractionMethod || 'direct',
+        page.wordCount,
+        page.ocrConfidence ?? null,
+        page.text,
+      ]
+    );
+  }
+
+  if (pages.length > 0) {
+    await projectDb.execute(`UPDATE documents SET pageCount = ? WHERE id = ?`, [pages.length, documentId]);
+  }
+
+  const ocrPages = pages.filter(page => page.extractionMethod === 'ocr');
+  console.log(`[Document Pages] Saved ${pages.length} page(s) for ${documentId} (${ocrPages.length} OCR)`);
+}
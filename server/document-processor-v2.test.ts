@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { applyOcrConfidence, type ExtractedFact } from './document-processor-v2';
+import type { PdfPage } from './pdf-extractor';
+
+const pages: PdfPage[] = [
+  { pageNumber: 1, text: 'Typed cover page', wordCount: 120, extractionMethod: 'direct' },
+  { pageNumber: 2, text: 'Poor scan', wordCount: 80, extractionMethod: 'ocr', ocrConfidence: 0.6 },
+  { pageNumber: 3, text: 'Clean scan', wordCount: 90, extractionMethod: 'ocr', ocrConfidence: 0.95 },
+];
+
+function fact(value: string, pageNumber: number | null): ExtractedFact {
+  return {
+    category: 'technical',
+    key: 'Technical_Design',
+    value,
+    confidence: 0.9,
+    source: 'llm',
+    extractionMethod: 'llm',
+    provenance: pageNumber === null ? undefined : { pageNumber, snippet: value, charStart: 0, charEnd: value.length, matchType: 'exact' },
+  };
+}
+
+describe('Document Processor', () => {
+  it('should scale fact confidence by the OCR confidence of its page', () => {
+    const facts = applyOcrConfidence([fact('typed', 1), fact('poor', 2), fact('clean', 3), fact('unlocated', null)], pages);
+
+    // Below the 0.9 baseline the confidence drops in proportion (0.9 * 0.6 / 0.9); an
+    // unlocated fact gets the document's average factor ((1 + 0.67 + 1) / 3)
+    expect(facts.map(f => f.confidence)).toEqual([0.9, 0.6, 0.9, 0.8]);
+  });
+
+  it('should leave facts of documents without OCR pages unchanged', () => {
+    const facts = [fact('typed', 1)];
+    expect(applyOcrConfidence(facts, [pages[0]])).toBe(facts);
+  });
+});
@@ -8,6 +8,16 @@
 import { extractTextFromDocument } from './document-extractor';
 import { extractFactsWithOllama } from './ollama';
 import { IntelligentFactExtractorV2 } from './intelligent-fact-extractor-v2';
+import type { PdfPage } from './pdf-extractor';
+import type { PdfTable } from './pdf-table-extractor';
+import { locateFactSource, type FactProvenance } from './fact-provenance';
+import type { ExtractionCoverage } from './document-chunker';
+import { toSpreadsheetFacts, type SpreadsheetExtraction } from './spreadsheet-extractor';
+import { getExtractionProfile, type ExtractionProfile } from './document-taxonomy';
+import { parseTypedValue, type TypedValue } from '../shared/units';
+import { extractEntities, type ExtractedEntity } from './entity-register';
+import { extractMilestones, type ExtractedMilestone } from './milestone-schedule';
+import { extractContractClauses, type ContractClause } from './contract-obligations';
 import mysql from 'mysql2/promise';
 
 export interface ProcessedDocument {
@@ -16,6 +26,14 @@ export interface ProcessedDocument {
   extractionMethod: string;
   wordCount: number;
   facts: ExtractedFact[];
+  pages?: PdfPage[];
+  tables?: PdfTable[];
+  coverage?: ExtractionCoverage; // share of the document text read by the LLM passes
+  spreadsheet?: SpreadsheetExtraction; // cell-level values of spreadsheet documents
+  profile?: ExtractionProfile; // extraction profile of the document type
+  entities?: ExtractedEntity[]; // organisations and people for the entity register
+  milestones?: ExtractedMilestone[]; // dated milestones for the project schedule
+  clauses?: ContractClause[]; // key contract clauses for the obligations register
   processingTime: number;
   status: 'completed' | 'failed' | 'partial';
   error?: string;
@@ -23,11 +41,16 @@ export interface ProcessedDocument {
 
 export interface ExtractedFact {
   category: 'specification' | 'financial' | 'technical' | 'planning' | 'risk' | 'other';
-  key: string;
+  key: string;                   // section the fact is reported under
+  rawKey?: string;               // key name reported by the extractor, mapped onto the fact key ontology
   value: string;
   confidence: number;
   source: string;
   extractionMethod: 'deterministic' | 'llm';
+  sourceQuote?: string;          // verbatim supporting text reported by the extractor
+  promptVersion?: string;        // prompt template version the fact was extracted with
+  provenance?: FactProvenance;   // page + snippet located in the document text
+  typedValue?: TypedValue;       // number + canonical unit, date, percentage, amount or enum
 }
 
 /**
@@ -42,7 +65,7 @@ export async function processDocument(
   documentId: string,
   filePath: string,
   documentType: string,
-  ollamaModel: string = 'llama3.2:latest',
+  ollamaModel?: string,  // overrides the configured extraction model
   projectDbConnection?: mysql.Connection,
   onProgress?: ProgressCallback
 ): Promise<ProcessedDocument> {
@@ -51,6 +74,10 @@ export async function processDocument(
   console.log(`[Document Processor] Processing document ${documentId} for project ${projectId}`);
   
   try {
+    // Passes, prompt instructions and specialised extractors for this document type
+    const profile = await getExtractionProfile(documentType);
+    console.log(`[Document Processor] Extraction profile for ${documentType}: ${profile.name} (passes: ${profile.passes.join(', ') || 'none'}; extractors: ${profile.extractors.join(', ') || 'none'})`);
+
     // Step 1: Extract text from document
     console.log(`[Document Processor] Step 1: Extracting text from ${filePath}`);
     if (onProgress) await onProgress('text_extraction', 10);
@@ -62,7 +89,20 @@ export async function processDocument(
     // Step 2: Extract facts using deterministic patterns
     console.log(`[Document Processor] Step 2: Extracting facts with deterministic patterns`);
     if (onProgress) await onProgress('deterministic_extraction', 40);
-    const deterministicFacts = extractDeterministicFacts(textResult.text, documentType);
+    const deterministicFacts = profile.extractors.includes('deterministic')
+      ? extractDeterministicFacts(textResult.text, documentType).map(fact => ({
+          ...fact,
+          typedValue: parseTypedValue(fact.value) ?? undefined,
+        }))
+      : [];
+    
+    // Spreadsheets: labelled cells are read directly, the LLM only sees the rest
+    const spreadsheet = profile.extractors.includes('spreadsheet') ? textResult.spreadsheet : undefined;
+    const spreadsheetFacts = spreadsheet ? toSpreadsheetFacts(spreadsheet) : [];
+    const llmText = spreadsheet && spreadsheet.mappedCells > 0 ? spreadsheet.unlabelledText : textResult.text;
+    if (spreadsheet) {
+      console.log(`[Document Processor] Spreadsheet: ${spreadsheet.mappedCells} labelled cells mapped, ${llmText.length} chars of unlabelled content left for the LLM`);
+    }
     
     console.log(`[Document Processor] Deterministic extraction found ${deterministicFacts.length} facts`);
     if (onProgress) await onProgress('deterministic_extraction', 50);
@@ -71,38 +111,99 @@ export async function processDocument(
     console.log(`[Document Processor] Step 3: Extracting facts with Intelligent LLM Extractor V2`);
     if (onProgress) await onProgress('llm_extraction', 60);
     let llmFacts: ExtractedFact[] = [];
+    let coverage: ExtractionCoverage | undefined;
     
-    try {
-      const intelligentExtractor = new IntelligentFactExtractorV2();
-      const intelligentResult = await intelligentExtractor.extractFacts(
-        textResult.text,
-        documentType
-      );
-      
-      llmFacts = intelligentResult.facts.map((fact: any) => ({
-        category: fact.section || 'other',
-        key: fact.section || 'Other',  // Use section as key for proper categorization
-        value: fact.statement || fact.value,
-        confidence: fact.confidence || 0.5,
-        source: fact.extraction_method || '',
-        extractionMethod: 'llm' as const,
-      }));
-      
-      console.log(`[Document Processor] Intelligent LLM extraction V2 found ${llmFacts.length} facts in ${intelligentResult.extraction_time_ms}ms`);
-      if (onProgress) await onProgress('llm_extraction', 80);
-    } catch (llmError) {
-      console.error(`[Document Processor] Intelligent LLM extraction V2 failed:`, llmError);
-      // Continue with deterministic facts only
+    if (profile.passes.length === 0) {
+      console.log(`[Document Processor] Extraction profile has no LLM passes - skipping LLM extraction`);
+    } else if (llmText.trim().length === 0) {
+      console.log(`[Document Processor] Every spreadsheet row was mapped - skipping LLM extraction`);
+    } else {
+      try {
+        const intelligentExtractor = new IntelligentFactExtractorV2({
+          passes: profile.passes,
+          promptInstructions: profile.promptInstructions,
+          model: ollamaModel,
+        });
+        const intelligentResult = await intelligentExtractor.extractFacts(
+          llmText,
+          documentType,
+          textResult.pages
+        );
+        coverage = intelligentResult.coverage;
+        
+        llmFacts = intelligentResult.facts.map((fact: any) => ({
+          category: fact.section || 'other',
+          key: fact.section || 'Other',  // Use section as key for proper categorization
+          rawKey: fact.key || undefined,
+          value: fact.statement || fact.value,
+          confidence: fact.confidence || 0.5,
+          source: fact.extraction_method || '',
+          extractionMethod: 'llm' as const,
+          sourceQuote: fact.source_quote || undefined,
+          promptVersion: fact.prompt_version,
+          // The short value the LLM reports next to the statement
+          typedValue: parseTypedValue(fact.value) ?? undefined,
+        }));
+        
+        console.log(`[Document Processor] Intelligent LLM extraction V2 found ${llmFacts.length} facts in ${intelligentResult.extraction_time_ms}ms`);
+        if (onProgress) await onProgress('llm_extraction', 80);
+      } catch (llmError) {
+        console.error(`[Document Processor] Intelligent LLM extraction V2 failed:`, llmError);
+        // Continue with deterministic facts only
+      }
     }
     
     // Step 4: Combine and deduplicate facts
-    const allFacts = [...deterministicFacts, ...llmFacts];
-    const deduplicatedFacts = deduplicateFacts(allFacts);
+    const allFacts = [...spreadsheetFacts, ...deterministicFacts, ...llmFacts];
+    // Documents without page structure (DOCX, TXT) are searched as a single unnumbered page
+    const pages: PdfPage[] = textResult.pages && textResult.pages.length > 0
+      ? textResult.pages
+      : [{ pageNumber: 0, text: textResult.text, wordCount: textResult.wordCount }];
+    const locatedFacts = deduplicateFacts(allFacts).map(fact => ({
+      ...fact,
+      provenance: fact.provenance ?? locateFactSource([fact.sourceQuote, fact.value], pages) ?? undefined,
+    }));
+    const deduplicatedFacts = applyOcrConfidence(locatedFacts, pages);
+    const locatedCount = deduplicatedFacts.filter(f => f.provenance).length;
+    console.log(`[Document Processor] Located source text for ${locatedCount}/${deduplicatedFacts.length} facts`);
     
     console.log(`[Document Processor] Total facts after deduplication: ${deduplicatedFacts.length}`);
+    
+    // Step 5: Organisations and people for the entity register
+    let entities: ExtractedEntity[] | undefined;
+    if (profile.extractors.includes('entities')) {
+      if (onProgress) await onProgress('entity_extraction', 85);
+      entities = await extractEntities(textResult.text, documentType, {
+        useLlm: profile.passes.length > 0,
+        model: ollamaModel,
+      });
+      console.log(`[Document Processor] Entity extraction found ${entities.length} entities`);
+    }
+
+    // Step 6: Milestones with planned and actual dates for the project schedule
+    let milestones: ExtractedMilestone[] | undefined;
+    if (profile.extractors.includes('milestones')) {
+      if (onProgress) await onProgress('milestone_extraction', 88);
+      milestones = await extractMilestones(textResult.text, documentType, {
+        useLlm: profile.passes.length > 0,
+        model: ollamaModel,
+      });
+      console.log(`[Document Processor] Milestone extraction found ${milestones.length} milestones`);
+    }
+
+    // Step 7: Contract clauses and obligations for the obligations register
+    let clauses: ContractClause[] | undefined;
+    if (profile.extractors.includes('contract_obligations')) {
+      if (onProgress) await onProgress('contract_extraction', 89);
+      clauses = await extractContractClauses(textResult.text, pages, documentType, {
+        useLlm: profile.passes.length > 0,
+        model: ollamaModel,
+      });
+      console.log(`[Document Processor] Contract extraction found ${clauses.length} clauses`);
+    }
     if (onProgress) await onProgress('saving_facts', 90);
     
-    // Step 5: Store results in project database
+    // Step 8: Store results in project database
     // Note: Database storage will be implemented when integrating with routers
     // For now, just return the processed results
     console.log(`[Document Processor] Skipping database storage (to be implemented in router integration)`);
@@ -118,6 +219,14 @@ export async function processDocument(
       extractionMethod: textResult.extractionMethod,
       wordCount: textResult.wordCount,
       facts: deduplicatedFacts,
+      pages: textResult.pages,
+      tables: profile.extractors.includes('pdf_tables') ? textResult.tables : undefined,
+      coverage,
+      spreadsheet,
+      profile,
+      entities,
+      milestones,
+      clauses,
       processingTime,
       status: 'completed',
     };
@@ -149,13 +258,16 @@ function extractDeterministicFacts(text: string, documentType: string): Extracte
   const capacityPattern = /(\d+(?:\.\d+)?)\s*(MW|MWp|MWac|MWdc|kW|kWp)/gi;
   let match;
   while ((match = capacityPattern.exec(text)) !== null) {
+    const unit = match[2].toLowerCase();
     facts.push({
       category: 'specification',
       key: 'Technical_Design',  // Use section key for proper categorization
+      rawKey: unit === 'mwp' || unit === 'mwdc' || unit === 'kwp' ? 'dc_capacity' : unit === 'mwac' ? 'ac_capacity' : undefined,
       value: `${match[1]} ${match[2]}`,
       confidence: 0.95,
       source: match[0],
       extractionMethod: 'deterministic',
+      sourceQuote: match[0],
     });
   }
   
@@ -171,6 +283,7 @@ function extractDeterministicFacts(text: string, documentType: string): Extracte
         confidence: 0.85,
         source: date,
         extractionMethod: 'deterministic',
+        sourceQuote: date,
       });
     });
   }
@@ -185,6 +298,7 @@ function extractDeterministicFacts(text: string, documentType: string): Extracte
       confidence: 0.9,
       source: match[0],
       extractionMethod: 'deterministic',
+      sourceQuote: match[0],
     });
   }
   
@@ -194,10 +308,12 @@ function extractDeterministicFacts(text: string, documentType: string): Extracte
     facts.push({
       category: 'technical',
       key: 'Grid_Infrastructure',  // Use section key for proper categorization
+      rawKey: 'connection_voltage',
       value: `${match[1]} ${match[2]}`,
       confidence: 0.9,
       source: match[0],
       extractionMethod: 'deterministic',
+      sourceQuote: match[0],
     });
   }
   
@@ -242,3 +358,31 @@ function deduplicateFacts(facts: ExtractedFact[]): ExtractedFact[] {
   
   return Array.from(seen.values());
 }
+
+// OCR confidence at or above this level does not reduce fact confidence
+const OCR_CONFIDENCE_BASELINE = 0.9;
+
+/**
+ * Lower the confidence of facts that came from poorly recognised OCR pages.
+ * Facts are attributed to the page in their provenance; facts that couldn't
+ * be located get the document's average OCR penalty.
+ */
+export function applyOcrConfidence(facts: ExtractedFact[], pages: PdfPage[]): ExtractedFact[] {
+  const ocrPages = pages.filter(page => page.extractionMethod === 'ocr' && page.ocrConfidence !== undefined);
+  if (ocrPages.length === 0) return facts;
+
+  const pageFactor = (page: PdfPage) =>
+    page.extractionMethod === 'ocr' && page.ocrConfidence !== undefined
+      ? Math.min(1, page.ocrConfidence / OCR_CONFIDENCE_BASELINE)
+      : 1;
+  const documentFactor = pages.reduce((sum, page) => sum + pageFactor(page), 0) / pages.length;
+
+  return facts.map(fact => {
+    const page = fact.provenance
+      ? pages.find(p => p.pageNumber === fact.provenance!.pageNumber)
+      : undefined;
+    const factor = page ? pageFactor(page) : documentFactor;
+    if (factor >= 1) return fact;
+    return { ...fact, confidence: Math.round(fact.confidence * factor * 100) / 100 };
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { diffRevisionFacts, isFactStale } from './document-revisions';
+
+const fact = (id: string, key: string, value: string) => ({ id, key, value });
+
+describe('Document Revisions', () => {
+  it('should classify facts as added, removed, changed or unchanged', () => {
+    const diff = diffRevisionFacts(
+      [
+        fact('o1', 'Technical_Design', 'The project uses bifacial modules on single-axis trackers.'),
+        fact('o2', 'Project_Overview', 'Installed capacity is 100 MW DC.'),
+        fact('o3', 'Grid_Connection', 'Connection to the 132 kV substation at Northfield.'),
+      ],
+      [
+        fact('n1', 'Technical_Design', 'The project uses bifacial modules on single-axis trackers'),
+        fact('n2', 'Project_Overview', 'Installed capacity is 120 MW DC.'),
+        fact('n3', 'Financial', 'Estimated capex is $95 million.'),
+      ]
+    );
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changed).toEqual([
+      { key: 'Project_Overview', before: fact('o2', 'Project_Overview', 'Installed capacity is 100 MW DC.'), after: fact('n2', 'Project_Overview', 'Installed capacity is 120 MW DC.') },
+    ]);
+    expect(diff.added.map(f => f.id)).toEqual(['n3']);
+    expect(diff.removed.map(f => f.id)).toEqual(['o3']);
+  });
+
+  it('should not pair unrelated facts under the same key', () => {
+    const diff = diffRevisionFacts(
+      [fact('o1', 'Risks', 'Planning consent expires in March 2027.')],
+      [fact('n1', 'Risks', 'Ground conditions require piling in the northern field.')]
+    );
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.removed.map(f => f.id)).toEqual(['o1']);
+    expect(diff.added.map(f => f.id)).toEqual(['n1']);
+  });
+
+  it('should only mark facts stale when every source is superseded', () => {
+    const superseded = new Set(['doc-v1']);
+
+    expect(isFactStale({ source_document_id: 'doc-v1', source_documents: '["doc-v1"]' }, superseded)).toBe(true);
+    expect(isFactStale({ source_document_id: 'doc-v1', source_documents: ['doc-v1', 'grid-study'] }, superseded)).toBe(false);
+    expect(isFactStale({ source_document_id: null, source_documents: null }, superseded)).toBe(false);
+  });
+});
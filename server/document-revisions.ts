@@ -0,0 +1,315 @@
+/**
+ * Document Revisions
+ *
+ * A newer upload can supersede an older document (e.g. "IM v2" replacing "IM v1"):
+ * - All revisions share a revisionGroupId (the id of the first revision) and are numbered
+ * - The older document keeps its facts, but points at the newer one via supersededBy
+ * - Facts whose every source document has been superseded are marked stale
+ *   (extracted_facts.is_stale) and left out of consolidation
+ * - Two revisions of the same document can be diffed: facts added, removed and changed
+ */
+
+import type { Queryable } from './document-dedup';
+
+export interface RevisionFact {
+  id: string;
+  key: string;
+  value: string;
+}
+
+export interface ChangedFact {
+  key: string;
+  before: RevisionFact;
+  after: RevisionFact;
+}
+
+export interface RevisionDiff {
+  added: RevisionFact[];
+  removed: RevisionFact[];
+  changed: ChangedFact[];
+  unchangedCount: number;
+}
+
+// Token overlap above which two values under the same key are the same fact, reworded
+const CHANGED_FACT_SIMILARITY = 0.5;
+
+/**
+ * Make newDocumentId the next revision of previousDocumentId. If the previous
+ * document was already superseded, the new one supersedes the latest revision.
+ */
+export async function supersedeDocument(
+  projectDb: Queryable,
+  previousDocumentId: string,
+  newDocumentId: string
+): Promise<{ revisionGroupId: string; revisionNumber: number; staleFacts: number }> {
+  let previous = await getRevisionInfo(projectDb, previousDocumentId);
+  if (!previous) throw new Error(`Document ${previousDocumentId} not found`);
+
+  // Follow the chain to the current revision
+  const visited = new Set<string>();
+  while (previous.supersededBy && previous.supersededBy !== newDocumentId && !visited.has(previous.id)) {
+    visited.add(previous.id);
+    const next = await getRevisionInfo(projectDb, previous.supersededBy);
+    if (!next) break;
+    previous = next;
+  }
+
+  if (previous.id === newDocumentId) {
+    throw new Error('A document cannot supersede itself');
+  }
+  const current = await getRevisionInfo(projectDb, newDocumentId);
+  if (!current) throw new Error(`Document ${newDocumentId} not found`);
+  if (current.supersededBy) {
+    throw new Error(`${current.fileName} has itself been superseded and cannot be the latest revision`);
+  }
+  if (current.revisionGroupId && current.revisionGroupId === previous.revisionGroupId) {
+    throw new Error(`${current.fileName} is already a revision of ${previous.fileName}`);
+  }
+
+  const revisionGroupId = previous.revisionGroupId || previous.id;
+  const [maxRows]: any = await projectDb.execute(
+    `SELECT COALESCE(MAX(revisionNumber), 1) AS maxRevision FROM documents WHERE revisionGroupId = ? OR id = ?`,
+    [revisionGroupId, revisionGroupId]
+  );
+  const revisionNumber = Number(maxRows[0]?.maxRevision || 1) + 1;
+
+  await projectDb.execute(
+    `UPDATE documents SET revisionGroupId = ?, supersededBy = ?, supersededAt = NOW() WHERE id = ?`,
+    [revisionGroupId, newDocumentId, previous.id]
+  );
+  await projectDb.execute(
+    `UPDATE documents SET revisionGroupId = ?, revisionNumber = ?, supersededBy = NULL, supersededAt = NULL WHERE id = ?`,
+    [revisionGroupId, revisionNumber, newDocumentId]
+  );
+
+  const staleFacts = await refreshStaleFacts(projectDb);
+  console.log(`[Revisions] ${current.fileName} is revision ${revisionNumber} of ${previous.fileName} (${staleFacts} facts marked stale)`);
+
+  return { revisionGroupId, revisionNumber, staleFacts };
+}
+
+/**
+ * Called before a document is removed: the revision it superseded becomes current again
+ */
+export async function restorePreviousRevision(projectDb: Queryable, documentId: string): Promise<void> {
+  await projectDb.execute(
+    `UPDATE documents SET supersededBy = NULL, supersededAt = NULL WHERE supersededBy = ?`,
+    [documentId]
+  );
+}
+
+/**
+ * Recompute extracted_facts.is_stale from the current revision state.
+ * Returns the number of facts newly marked stale.
+ */
+export async function refreshStaleFacts(projectDb: Queryable): Promise<number> {
+  const [supersededRows]: any = await projectDb.execute(
+    `SELECT id FROM documents WHERE supersededBy IS NOT NULL`
+  );
+  const superseded = new Set<string>(supersededRows.map((row: any) => row.id));
+
+  const [facts]: any = await projectDb.execute(
+    `SELECT id, source_document_id, source_documents, is_stale FROM extracted_facts WHERE deleted_at IS NULL`
+  );
+
+  const toMark: string[] = [];
+  const toClear: string[] = [];
+  for (const fact of facts) {
+    const stale = isFactStale(fact, superseded);
+    if (stale && !fact.is_stale) toMark.push(fact.id);
+    if (!stale && fact.is_stale) toClear.push(fact.id);
+  }
+
+  for (const ids of batches(toMark, 500)) {
+    await projectDb.execute(
+      `UPDATE extracted_facts SET is_stale = 1, stale_since = NOW() WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+  }
+  for (const ids of batches(toClear, 500)) {
+    await projectDb.execute(
+      `UPDATE extracted_facts SET is_stale = 0, stale_since = NULL WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+  }
+
+  return toMark.length;
+}
+
+/**
+ * A fact is stale when it has sources and every one of them has been superseded
+ */
+export function isFactStale(
+  fact: { source_document_id: string | null; source_documents: string | string[] | null },
+  supersededDocumentIds: Set<string>
+): boolean {
+  const sources = factSourceDocuments(fact);
+  if (sources.length === 0) return false;
+  return sources.every(id => supersededDocumentIds.has(id));
+}
+
+/**
+ * All documents a fact came from: its source document and the documents that
+ * enriched it (source_documents arrives as JSON text or already parsed)
+ */
+export function factSourceDocuments(fact: { source_document_id: string | null; source_documents: string | string[] | null }): string[] {
+  const sources = new Set<string>();
+  if (fact.source_document_id) sources.add(fact.source_document_id);
+
+  let sourceDocuments = fact.source_documents;
+  if (typeof sourceDocuments === 'string') {
+    try {
+      sourceDocuments = JSON.parse(sourceDocuments);
+    } catch {
+      sourceDocuments = null;
+    }
+  }
+  if (Array.isArray(sourceDocuments)) {
+    sourceDocuments.forEach(id => sources.add(id));
+  }
+  return Array.from(sources);
+}
+
+/**
+ * All revisions in the document's revision group, oldest first
+ */
+export async function listRevisions(projectDb: Queryable, documentId: string): Promise<any[]> {
+  const info = await getRevisionInfo(projectDb, documentId);
+  if (!info) throw new Error(`Document ${documentId} not found`);
+
+  const revisionGroupId = info.revisionGroupId || info.id;
+  const [rows]: any = await projectDb.execute(
+    `SELECT id, fileName, documentType, uploadDate, status, revisionNumber, supersededBy, supersededAt
+     FROM documents WHERE revisionGroupId = ? OR id = ?
+     ORDER BY revisionNumber ASC, uploadDate ASC`,
+    [revisionGroupId, revisionGroupId]
+  );
+  return rows;
+}
+
+/**
+ * Diff the facts of two revisions of the same document
+ */
+export async function getRevisionDiff(
+  projectDb: Queryable,
+  fromDocumentId: string,
+  toDocumentId: string
+): Promise<RevisionDiff> {
+  const from = await getRevisionInfo(projectDb, fromDocumentId);
+  const to = await getRevisionInfo(projectDb, toDocumentId);
+  if (!from || !to) throw new Error('Document not found');
+  if ((from.revisionGroupId || from.id) !== (to.revisionGroupId || to.id)) {
+    throw new Error(`${from.fileName} and ${to.fileName} are not revisions of the same document`);
+  }
+
+  return diffRevisionFacts(
+    await getDocumentFacts(projectDb, fromDocumentId),
+    await getDocumentFacts(projectDb, toDocumentId)
+  );
+}
+
+/**
+ * Compare two fact sets. Facts are paired by key: identical values are
+ * unchanged, sufficiently similar values are "changed", the rest are added
+ * or removed. Pure function so the matching rules are testable.
+ */
+export function diffRevisionFacts(oldFacts: RevisionFact[], newFacts: RevisionFact[]): RevisionDiff {
+  const diff: RevisionDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+  const keys = Array.from(new Set([...oldFacts.map(f => f.key), ...newFacts.map(f => f.key)]));
+
+  for (const key of keys) {
+    let before = oldFacts.filter(f => f.key === key);
+    let after = newFacts.filter(f => f.key === key);
+
+    // Identical values
+    const remainingAfter: RevisionFact[] = [];
+    for (const fact of after) {
+      const index = before.findIndex(f => normalizeValue(f.value) === normalizeValue(fact.value));
+      if (index >= 0) {
+        before.splice(index, 1);
+        diff.unchangedCount++;
+      } else {
+        remainingAfter.push(fact);
+      }
+    }
+    after = remainingAfter;
+
+    // Most similar pairs first
+    const pairs: Array<{ before: RevisionFact; after: RevisionFact; similarity: number }> = [];
+    for (const b of before) {
+      for (const a of after) {
+        // Same wording with different figures ("100 MW" -> "120 MW") is always a change
+        const similarity = maskNumbers(b.value) === maskNumbers(a.value) ? 1 : tokenSimilarity(b.value, a.value);
+        if (similarity >= CHANGED_FACT_SIMILARITY) pairs.push({ before: b, after: a, similarity });
+      }
+    }
+    pairs.sort((x, y) => y.similarity - x.similarity);
+
+    const pairedBefore = new Set<string>();
+    const pairedAfter = new Set<string>();
+    for (const pair of pairs) {
+      if (pairedBefore.has(pair.before.id) || pairedAfter.has(pair.after.id)) continue;
+      pairedBefore.add(pair.before.id);
+      pairedAfter.add(pair.after.id);
+      diff.changed.push({ key, before: pair.before, after: pair.after });
+    }
+
+    before = before.filter(f => !pairedBefore.has(f.id));
+    after = after.filter(f => !pairedAfter.has(f.id));
+    diff.removed.push(...before);
+    diff.added.push(...after);
+  }
+
+  return diff;
+}
+
+async function getRevisionInfo(projectDb: Queryable, documentId: string): Promise<{
+  id: string;
+  fileName: string;
+  revisionGroupId: string | null;
+  revisionNumber: number;
+  supersededBy: string | null;
+} | null> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT id, fileName, revisionGroupId, revisionNumber, supersededBy FROM documents WHERE id = ?`,
+    [documentId]
+  );
+  return rows.length > 0 ? rows[0] : null;
+}
+
+async function getDocumentFacts(projectDb: Queryable, documentId: string): Promise<RevisionFact[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT id, \`key\`, value FROM extracted_facts
+     WHERE deleted_at IS NULL AND (source_document_id = ? OR JSON_CONTAINS(source_documents, JSON_QUOTE(?)))
+     ORDER BY \`key\`, created_at`,
+    [documentId, documentId]
+  );
+  return rows;
+}
+
+function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').replace(/[.;,]+$/, '').trim();
+}
+
+function maskNumbers(value: string): string {
+  return normalizeValue(value).replace(/\d+(?:[.,]\d+)*/g, '#');
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = new Set(a.toLowerCase().match(/[a-z0-9.]+/g) || []);
+  const tokensB = new Set(b.toLowerCase().match(/[a-z0-9.]+/g) || []);
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+  return result;
+}
@@ -0,0 +1,314 @@
+/**
+ * Document Taxonomy
+ *
+ * Admin-managed document types (main database `document_types`) and the
+ * extraction profiles they are bound to (`extraction_profiles`).
+ *
+ * - Types drive auto-classification: code, description and classification hints
+ *   are given to the classifier (document-type-detector.ts)
+ * - A profile chooses which IntelligentFactExtractorV2 passes run, extra prompt
+ *   instructions for them, and which specialised extractors run for the document
+ * - A type's authority rank decides which source wins when documents disagree
+ *   (source-authority.ts)
+ * - Both tables are seeded with the built-in taxonomy on first use; when the main
+ *   database is unavailable the built-in taxonomy is used as-is
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { documentTypes, extractionProfiles } from '../drizzle/schema';
+
+export const EXTRACTION_PASSES = ['structured', 'relationships', 'risks', 'assumptions'] as const;
+export const SPECIALISED_EXTRACTORS = ['deterministic', 'spreadsheet', 'pdf_tables', 'location', 'entities', 'milestones', 'contract_obligations'] as const;
+
+export type ExtractionPassName = (typeof EXTRACTION_PASSES)[number];
+export type SpecialisedExtractor = (typeof SPECIALISED_EXTRACTORS)[number];
+
+export interface ExtractionProfile {
+  id: number | null; // null for the built-in fallback
+  name: string;
+  description: string | null;
+  passes: ExtractionPassName[];
+  extractors: SpecialisedExtractor[];
+  promptInstructions: string | null;
+}
+
+export interface DocumentTypeDefinition {
+  id: number | null;
+  code: string;
+  label: string;
+  description: string | null;
+  classificationHints: string | null;
+  extractionProfileId: number | null;
+  profileName: string | null;
+  isActive: boolean;
+  sortOrder: number;
+  authorityRank: number;          // 0-100, higher wins when sources disagree
+}
+
+// Used when a document has a type with no profile, or the taxonomy can't be loaded
+const FULL_PROFILE: Omit<ExtractionProfile, 'id'> = {
+  name: 'Full extraction',
+  description: 'All four LLM passes and every specialised extractor except contract obligations',
+  passes: [...EXTRACTION_PASSES],
+  // Contract clauses only make sense for contracts (the Contract profile)
+  extractors: SPECIALISED_EXTRACTORS.filter(extractor => extractor !== 'contract_obligations'),
+  promptInstructions: null,
+};
+
+const DEFAULT_PROFILES: Array<Omit<ExtractionProfile, 'id'>> = [
+  FULL_PROFILE,
+  {
+    name: 'Contract',
+    description: 'Commercial terms, obligations and risks of agreements',
+    passes: ['structured', 'relationships', 'risks'],
+    extractors: ['deterministic', 'pdf_tables', 'entities', 'milestones', 'contract_obligations'],
+    promptInstructions: 'This is a contract. Focus on the parties, term and key dates, payment and pricing terms, obligations of each party, conditions precedent, termination rights, liabilities and guarantees.',
+  },
+  {
+    name: 'Grid study',
+    description: 'Connection, network constraints and upgrade requirements',
+    passes: ['structured', 'risks', 'assumptions'],
+    extractors: ['deterministic', 'pdf_tables', 'location', 'milestones'],
+    promptInstructions: 'This is a grid connection study. Focus on the connection point and voltage, export capacity limits, curtailment, network upgrades with their costs and timing, and the study assumptions.',
+  },
+  {
+    name: 'Planning',
+    description: 'Permits, approval conditions and consultation outcomes',
+    passes: ['structured', 'risks'],
+    extractors: ['deterministic', 'location', 'milestones'],
+    promptInstructions: 'This is a planning or permitting document. Focus on the permits and approvals, their status, dates and expiry, the conditions attached to them, and objections raised by consultees.',
+  },
+  {
+    name: 'Weather data',
+    description: 'Weather files are parsed by the weather file pipeline, not the LLM',
+    passes: [],
+    extractors: [],
+    promptInstructions: null,
+  },
+];
+
+const DEFAULT_TYPES: Array<Omit<DocumentTypeDefinition, 'id' | 'extractionProfileId' | 'isActive'>> = [
+  { code: 'IM', label: 'Information Memorandum', description: 'Project overview, investment summary, executive summary', classificationHints: null, profileName: FULL_PROFILE.name, sortOrder: 10, authorityRank: 30 },
+  { code: 'DD_PACK', label: 'Due Diligence Pack', description: 'Comprehensive project data, technical specifications, financial models', classificationHints: null, profileName: FULL_PROFILE.name, sortOrder: 20, authorityRank: 60 },
+  { code: 'CONTRACT', label: 'Contract', description: 'Contracts and agreements (PPAs, land leases, EPC contracts, O&M agreements)', classificationHints: null, profileName: 'Contract', sortOrder: 30, authorityRank: 90 },
+  { code: 'GRID_STUDY', label: 'Grid Study', description: 'Grid connection studies (grid impact assessment, connection agreement, network studies)', classificationHints: null, profileName: 'Grid study', sortOrder: 40, authorityRank: 80 },
+  { code: 'PLANNING', label: 'Planning Document', description: 'Planning and permitting documents (development applications, environmental approvals, permits)', classificationHints: null, profileName: 'Planning', sortOrder: 50, authorityRank: 80 },
+  { code: 'CONCEPT_DESIGN', label: 'Concept Design', description: 'Concept designs and layouts (site plans, electrical diagrams, preliminary designs)', classificationHints: null, profileName: FULL_PROFILE.name, sortOrder: 60, authorityRank: 50 },
+  { code: 'WEATHER_FILE', label: 'Weather File', description: 'Weather data files (TMY, EPW, CSV with solar irradiance data, PVGIS data)', classificationHints: null, profileName: 'Weather data', sortOrder: 70, authorityRank: 50 },
+  { code: 'OTHER', label: 'Other', description: 'Any other document type', classificationHints: null, profileName: FULL_PROFILE.name, sortOrder: 1000, authorityRank: 20 },
+];
+
+// Fallback type for unrecognised classifier output; cannot be deleted
+export const FALLBACK_DOCUMENT_TYPE = 'OTHER';
+
+// Authority rank of new types and of codes missing from the taxonomy
+export const DEFAULT_AUTHORITY_RANK = 50;
+
+let seeded = false;
+
+/**
+ * Insert the built-in taxonomy into empty tables
+ */
+async function ensureDefaultTaxonomy(db: any): Promise<void> {
+  if (seeded) return;
+
+  const existingProfiles = await db.select({ id: extractionProfiles.id }).from(extractionProfiles).limit(1);
+  if (existingProfiles.length === 0) {
+    await db.insert(extractionProfiles).values(DEFAULT_PROFILES.map(profile => ({ ...profile })));
+    console.log(`[Taxonomy] Seeded ${DEFAULT_PROFILES.length} extraction profiles`);
+  }
+
+  const existingTypes = await db.select({ id: documentTypes.id }).from(documentTypes).limit(1);
+  if (existingTypes.length === 0) {
+    const profiles: Array<{ id: number; name: string }> = await db
+      .select({ id: extractionProfiles.id, name: extractionProfiles.name })
+      .from(extractionProfiles);
+    await db.insert(documentTypes).values(DEFAULT_TYPES.map(({ profileName, ...type }) => ({
+      ...type,
+      extractionProfileId: profiles.find(p => p.name === profileName)?.id ?? null,
+    })));
+    console.log(`[Taxonomy] Seeded ${DEFAULT_TYPES.length} document types`);
+  }
+
+  seeded = true;
+}
+
+/**
+ * Document types ordered for display. Inactive types are hidden from
+ * classification and upload but kept for documents that already use them.
+ */
+export async function listDocumentTypes(includeInactive: boolean = false): Promise<DocumentTypeDefinition[]> {
+  let rows: DocumentTypeDefinition[];
+  try {
+    const db = await getDb();
+    await ensureDefaultTaxonomy(db);
+    const result = await db
+      .select({ type: documentTypes, profileName: extractionProfiles.name })
+      .from(documentTypes)
+      .leftJoin(extractionProfiles, eq(documentTypes.extractionProfileId, extractionProfiles.id))
+      .orderBy(asc(documentTypes.sortOrder), asc(documentTypes.label));
+    rows = result.map(({ type, profileName }: any) => ({
+      id: type.id,
+      code: type.code,
+      label: type.label,
+      description: type.description,
+      classificationHints: type.classificationHints,
+      extractionProfileId: type.extractionProfileId,
+      profileName: profileName ?? null,
+      isActive: type.isActive === 1,
+      sortOrder: type.sortOrder,
+      authorityRank: type.authorityRank,
+    }));
+  } catch (error) {
+    console.error('[Taxonomy] Failed to load document types, using built-in taxonomy:', error);
+    rows = DEFAULT_TYPES.map(type => ({ ...type, id: null, extractionProfileId: null, isActive: true }));
+  }
+
+  return includeInactive ? rows : rows.filter(type => type.isActive);
+}
+
+/**
+ * All extraction profiles, by name
+ */
+export async function listExtractionProfiles(): Promise<ExtractionProfile[]> {
+  const db = await getDb();
+  await ensureDefaultTaxonomy(db);
+  const rows = await db.select().from(extractionProfiles).orderBy(asc(extractionProfiles.name));
+  return rows.map(toProfile);
+}
+
+/**
+ * The extraction profile of a document type. Types without a profile, unknown
+ * types and an unavailable taxonomy all get full extraction.
+ */
+export async function getExtractionProfile(documentType: string): Promise<ExtractionProfile> {
+  try {
+    const db = await getDb();
+    await ensureDefaultTaxonomy(db);
+    const rows = await db
+      .select({ profile: extractionProfiles })
+      .from(documentTypes)
+      .innerJoin(extractionProfiles, eq(documentTypes.extractionProfileId, extractionProfiles.id))
+      .where(eq(documentTypes.code, documentType))
+      .limit(1);
+    if (rows.length > 0) return toProfile(rows[0].profile);
+  } catch (error) {
+    console.error(`[Taxonomy] Failed to load extraction profile for ${documentType}, using full extraction:`, error);
+  }
+  return { id: null, ...FULL_PROFILE };
+}
+
+/**
+ * Whether a code names an active document type
+ */
+export async function isActiveDocumentType(code: string): Promise<boolean> {
+  const types = await listDocumentTypes();
+  return types.some(type => type.code === code);
+}
+
+/**
+ * Create or update a document type (matched by code)
+ */
+export async function saveDocumentType(input: {
+  code: string;
+  label: string;
+  description?: string | null;
+  classificationHints?: string | null;
+  extractionProfileId?: number | null;
+  isActive?: boolean;
+  sortOrder?: number;
+  authorityRank?: number;
+}): Promise<void> {
+  const code = normalizeTypeCode(input.code);
+  if (!code) throw new Error('Document type code is required');
+  if (code === FALLBACK_DOCUMENT_TYPE && input.isActive === false) {
+    throw new Error(`${FALLBACK_DOCUMENT_TYPE} is the fallback document type and cannot be deactivated`);
+  }
+
+  const db = await getDb();
+  await ensureDefaultTaxonomy(db);
+  const values = {
+    label: input.label.trim(),
+    description: input.description?.trim() || null,
+    classificationHints: input.classificationHints?.trim() || null,
+    extractionProfileId: input.extractionProfileId ?? null,
+    isActive: input.isActive === false ? 0 : 1,
+    sortOrder: input.sortOrder ?? 500,
+    authorityRank: Math.max(0, Math.min(100, Math.round(input.authorityRank ?? DEFAULT_AUTHORITY_RANK))),
+  };
+
+  const existing = await db.select({ id: documentTypes.id }).from(documentTypes).where(eq(documentTypes.code, code)).limit(1);
+  if (existing.length > 0) {
+    await db.update(documentTypes).set(values).where(eq(documentTypes.id, existing[0].id));
+  } else {
+    await db.insert(documentTypes).values({ code, ...values });
+  }
+  console.log(`[Taxonomy] Saved document type ${code}`);
+}
+
+/**
+ * Create or update an extraction profile
+ */
+export async function saveExtractionProfile(input: {
+  id?: number | null;
+  name: string;
+  description?: string | null;
+  passes: ExtractionPassName[];
+  extractors: SpecialisedExtractor[];
+  promptInstructions?: string | null;
+}): Promise<number> {
+  const db = await getDb();
+  await ensureDefaultTaxonomy(db);
+  const values = {
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    passes: EXTRACTION_PASSES.filter(pass => input.passes.includes(pass)),
+    extractors: SPECIALISED_EXTRACTORS.filter(extractor => input.extractors.includes(extractor)),
+    promptInstructions: input.promptInstructions?.trim() || null,
+  };
+
+  if (input.id) {
+    await db.update(extractionProfiles).set(values).where(eq(extractionProfiles.id, input.id));
+    console.log(`[Taxonomy] Updated extraction profile ${values.name}`);
+    return input.id;
+  }
+
+  const result = await db.insert(extractionProfiles).values(values);
+  console.log(`[Taxonomy] Created extraction profile ${values.name}`);
+  return result[0].insertId;
+}
+
+/**
+ * Delete an extraction profile that no document type is bound to
+ */
+export async function deleteExtractionProfile(id: number): Promise<void> {
+  const db = await getDb();
+  const bound = await db
+    .select({ code: documentTypes.code })
+    .from(documentTypes)
+    .where(eq(documentTypes.extractionProfileId, id));
+  if (bound.length > 0) {
+    throw new Error(`Profile is used by ${bound.map((t: any) => t.code).join(', ')}`);
+  }
+  await db.delete(extractionProfiles).where(eq(extractionProfiles.id, id));
+}
+
+/**
+ * Upper-case snake_case code ("grid study" -> "GRID_STUDY")
+ */
+export function normalizeTypeCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 50);
+}
+
+function toProfile(row: any): ExtractionProfile {
+  const parseList = (value: any): string[] => (typeof value === 'string' ? JSON.parse(value) : value || []);
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    passes: parseList(row.passes).filter((p): p is ExtractionPassName => (EXTRACTION_PASSES as readonly string[]).includes(p)),
+    extractors: parseList(row.extractors).filter((e): e is SpecialisedExtractor => (SPECIALISED_EXTRACTORS as readonly string[]).includes(e)),
+    promptInstructions: row.promptInstructions,
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildClassificationPrompt, parseClassification } from './document-type-detector';
+import { normalizeTypeCode } from './document-taxonomy';
+
+const types = [
+  { code: 'DD_PACK', label: 'Due Diligence Pack', description: 'Comprehensive project data', classificationHints: null },
+  { code: 'PLANNING', label: 'Planning Document', description: null, classificationHints: 'development application, planning permit' },
+  { code: 'OTHER', label: 'Other', description: 'Any other document type', classificationHints: null },
+];
+
+describe('Document Type Detector', () => {
+  it('should list every taxonomy type with its hints in the prompt', () => {
+    const prompt = buildClassificationPrompt(types, 'DA_Approval.pdf', 'Notice of determination');
+
+    expect(prompt).toContain('- DD_PACK: Comprehensive project data');
+    expect(prompt).toContain('- PLANNING: Planning Document\n  Indicators: development application, planning permit');
+    expect(prompt).toContain('Return ONLY the category code (DD_PACK, PLANNING, or OTHER)');
+    expect(prompt).toContain('Filename: DA_Approval.pdf');
+  });
+
+  it('should accept only codes from the taxonomy', () => {
+    const codes = types.map(t => t.code);
+
+    expect(parseClassification(' planning\n', codes)).toBe('PLANNING');
+    expect(parseClassification('**Category: DD_PACK**', codes)).toBe('DD_PACK');
+    expect(parseClassification('GRID_STUDY', codes)).toBeNull();
+  });
+
+  it('should normalise new type codes', () => {
+    expect(normalizeTypeCode(' grid study ')).toBe('GRID_STUDY');
+    expect(normalizeTypeCode('ESIA / EIA')).toBe('ESIA_EIA');
+  });
+});
@@ -1,12 +1,16 @@
 /**
  * AI-powered document type detection
  * Analyzes filename and document content to automatically categorize documents
+ * into the document types of the admin-managed taxonomy
  */
 
-import { invokeLLM } from './_core/llm';
+import { invokeStructured } from './llm-structured';
+import { documentTypeCodeSchema } from './llm-output-schemas';
 import { extractTextFromDocument } from './document-extractor';
+import { FALLBACK_DOCUMENT_TYPE, listDocumentTypes, type DocumentTypeDefinition } from './document-taxonomy';
 
-export type DocumentType = 'IM' | 'DD_PACK' | 'CONTRACT' | 'GRID_STUDY' | 'CONCEPT_DESIGN' | 'WEATHER_FILE' | 'OTHER';
+// A document_types.code from the admin-managed taxonomy (document-taxonomy.ts)
+export type DocumentType = string;
 
 /**
  * Detect document type using AI
@@ -28,18 +32,50 @@ export async function detectDocumentType(filePath: string, fileName: string): Pr
       console.warn(`[Document Type Detector] Text extraction failed, using filename only:`, error);
     }
 
-    // Prepare prompt for LLM
-    const prompt = `You are a document classification expert for renewable energy projects. Analyze the following document and classify it into ONE of these categories:
+    const types = await listDocumentTypes();
+    const codes = types.map(t => t.code);
+    const prompt = buildClassificationPrompt(types, fileName, textSample);
+
+    // Call LLM; answers that are not a taxonomy code are sent back for repair
+    const detectedType = await invokeStructured({
+      stage: 'classification',
+      messages: [
+        { role: 'user', content: prompt }
+      ]
+    }, documentTypeCodeSchema(codes, response => parseClassification(response, codes)), {
+      label: `classification of ${fileName}`,
+      format: 'text',
+    });
+
+    console.log(`[Document Type Detector] Detected type: ${detectedType}`);
+    return detectedType;
+
+  } catch (error) {
+    console.error(`[Document Type Detector] Error:`, error);
+    return FALLBACK_DOCUMENT_TYPE;
+  }
+}
+
+/**
+ * Classification prompt listing every active document type with its
+ * description and classification hints
+ */
+export function buildClassificationPrompt(
+  types: Array<Pick<DocumentTypeDefinition, 'code' | 'description' | 'label' | 'classificationHints'>>,
+  fileName: string,
+  textSample: string
+): string {
+  const categories = types.map(type => {
+    const line = `- ${type.code}: ${type.description || type.label}`;
+    return type.classificationHints ? `${line}\n  Indicators: ${type.classificationHints}` : line;
+  }).join('\n');
+  const codes = types.map(type => type.code);
+  const codeList = codes.length > 1 ? `${codes.slice(0, -1).join(', ')}, or ${codes[codes.length - 1]}` : codes.join('');
+
+  return `You are a document classification expert for renewable energy projects. Analyze the following document and classify it into ONE of these categories:
 
 **Categories:**
-- IM: Information Memorandum (project overview, investment summary, executive summary)
-- DD_PACK: Due Diligence Pack (comprehensive project data, technical specifications, financial models)
-- CONTRACT: Contracts and agreements (PPAs, land leases, EPC contracts, O&M agreements)
-- GRID_STUDY: Grid connection studies (grid impact assessment, connection agreement, network studies)
-- PLANNING: Planning and permitting documents (development applications, environmental approvals, permits)
-- CONCEPT_DESIGN: Concept designs and layouts (site plans, electrical diagrams, preliminary designs)
-- WEATHER_FILE: Weather data files (TMY, EPW, CSV with solar irradiance data, PVGIS data)
-- OTHER: Any other document type
+${categories}
 
 **Document to classify:**
 Filename: ${fileName}
@@ -48,58 +84,22 @@ ${textSample ? `\nFirst page content:\n${textSample}` : ''}
 **Instructions:**
 1. Analyze the filename and content carefully
 2. Look for key indicators like document titles, section headings, terminology
-3. Return ONLY the category code (IM, DD_PACK, CONTRACT, GRID_STUDY, PLANNING, CONCEPT_DESIGN, WEATHER_FILE, or OTHER)
+3. Return ONLY the category code (${codeList})
 4. Do not include any explanation or additional text
 
 Category:`;
-
-    // Call LLM
-    const response = await invokeLLM({
-      messages: [
-        { role: 'user', content: prompt }
-      ]
-    });
-
-    const content = response.choices[0].message.content;
-    const detectedType = (typeof content === 'string' ? content : '').trim().toUpperCase();
-
-    // Validate response
-    const validTypes: DocumentType[] = [
-      'IM',
-      'DD_PACK',
-      'CONTRACT',
-      'GRID_STUDY',
-      'CONCEPT_DESIGN',
-      'WEATHER_FILE',
-      'OTHER'
-    ];
-    
-    if (validTypes.includes(detectedType as DocumentType)) {
-      console.log(`[Document Type Detector] Detected type: ${detectedType}`);
-      return detectedType as DocumentType;
-    } else {
-      console.warn(`[Document Type Detector] Invalid response: ${detectedType}, defaulting to OTHER`);
-      return 'OTHER';
-    }
-
-  } catch (error) {
-    console.error(`[Document Type Detector] Error:`, error);
-    return 'OTHER';
-  }
 }
 
 /**
- * Get human-readable label for document type
+ * The category code in the classifier's response, or null when it named none of them
  */
-export function getDocumentTypeLabel(type: DocumentType): string {
-  const labels: Record<DocumentType, string> = {
-    'IM': 'Information Memorandum',
-    'DD_PACK': 'Due Diligence Pack',
-    'CONTRACT': 'Contract',
-    'GRID_STUDY': 'Grid Study',
-    'CONCEPT_DESIGN': 'Concept Design',
-    'WEATHER_FILE': 'Weather File',
-    'OTHER': 'Other'
-  };
-  return labels[type] || 'Other';
+export function parseClassification(response: string, codes: string[]): DocumentType | null {
+  const answer = response.trim().toUpperCase().replace(/^[*`"'\s]+|[*`"'.\s]+$/g, '');
+  if (codes.includes(answer)) return answer;
+
+  // Tolerate short wrappers like "Category: GRID_STUDY"; longest code first so DD_PACK beats a shorter match
+  const mentioned = [...codes]
+    .sort((a, b) => b.length - a.length)
+    .find(code => new RegExp(`(^|[^A-Z_])${code}([^A-Z_]|$)`).test(answer));
+  return mentioned ?? null;
 }
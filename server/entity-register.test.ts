@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combineEntities,
+  extractDeterministicEntities,
+  mentionsEntity,
+  mergeEntityDetails,
+  normalizeEntityName,
+  normalizeRole,
+  type ExtractedEntity,
+} from './entity-register';
+
+const SAMPLE = `The Marsa Solar Project is developed by OQ Alternative Energy LLC. OQAE holds 51% ownership stake while TotalEnergies holds 49%.
+
+The EPC contractor is Larsen & Toubro Ltd.
+
+Contact: Acme Solar Pty Ltd, info@acmesolar.com.au, Tel: +61 2 9876 5432
+
+The offtaker is Oman Power and Water Procurement Company SAOC under a 25-year PPA.`;
+
+function entity(overrides: Partial<ExtractedEntity>): ExtractedEntity {
+  return {
+    name: 'Acme Solar',
+    type: 'organisation',
+    roles: [],
+    ownershipPercent: null,
+    affiliation: null,
+    emails: [],
+    phones: [],
+    evidence: null,
+    extractionMethod: 'deterministic',
+    ...overrides,
+  };
+}
+
+describe('Entity Register', () => {
+  it('should find organisations with roles, ownership and contacts', () => {
+    const entities = extractDeterministicEntities(SAMPLE);
+    const byName = new Map(entities.map(e => [e.name, e]));
+
+    expect(byName.get('OQ Alternative Energy LLC')?.roles).toEqual(['developer']);
+    expect(byName.get('OQAE')?.ownershipPercent).toBe(51);
+    expect(byName.get('TotalEnergies')?.ownershipPercent).toBe(49);
+    expect(byName.get('Larsen & Toubro Ltd')?.roles).toEqual(['epc']);
+    expect(byName.get('Oman Power and Water Procurement Company SAOC')?.roles).toEqual(['offtaker']);
+    expect(byName.get('Acme Solar Pty Ltd')).toMatchObject({
+      emails: ['info@acmesolar.com.au'],
+      phones: ['+61 2 9876 5432'],
+    });
+  });
+
+  it('should match names regardless of legal suffixes, case and punctuation', () => {
+    expect(normalizeEntityName('The Acme Solar Pty. Ltd.')).toBe('acme solar');
+    expect(normalizeEntityName('ACME SOLAR')).toBe('acme solar');
+    expect(normalizeEntityName('Larsen & Toubro Limited')).toBe('larsen and toubro');
+    expect(normalizeRole('EPC Contractor')).toBe('epc');
+    expect(normalizeRole('Operations & Maintenance')).toBe('om');
+    expect(normalizeRole('grid operator')).toBe('grid_operator');
+    expect(normalizeRole('Landowner')).toBe('other');
+  });
+
+  it('should combine mentions of the same entity', () => {
+    const combined = combineEntities([
+      entity({ name: 'Acme Solar', roles: ['developer'], ownershipPercent: 60 }),
+      entity({ name: 'Acme Solar Pty Ltd', roles: ['om'], emails: ['info@acme.com'], extractionMethod: 'llm' }),
+      entity({ name: 'Beta Grid', roles: ['grid_operator'] }),
+    ]);
+
+    expect(combined).toHaveLength(2);
+    expect(combined[0]).toMatchObject({
+      name: 'Acme Solar Pty Ltd',
+      roles: ['developer', 'om'],
+      ownershipPercent: 60,
+      emails: ['info@acme.com'],
+      extractionMethod: 'llm',
+    });
+  });
+
+  it('should link facts by whole-word name and merge entity details', () => {
+    expect(mentionsEntity('EPC contract awarded to Larsen & Toubro', ['Larsen & Toubro Ltd', 'Larsen & Toubro'])).toBe(true);
+    expect(mentionsEntity('OQAE holds 51%', ['OQ'])).toBe(false);
+    expect(mentionsEntity('Bankability review', ['Bank'])).toBe(false);
+
+    const merged = mergeEntityDetails(
+      { type: 'organisation', roles: ['developer'], ownershipPercent: null, affiliation: null, emails: ['a@x.com'], phones: [] },
+      [{ type: 'organisation', roles: ['developer', 'om'], ownershipPercent: 51, affiliation: null, emails: ['b@x.com'], phones: ['+968 1234 5678'] }]
+    );
+    expect(merged).toEqual({
+      type: 'organisation',
+      roles: ['developer', 'om'],
+      ownershipPercent: 51,
+      affiliation: null,
+      emails: ['a@x.com', 'b@x.com'],
+      phones: ['+968 1234 5678'],
+    });
+  });
+});
@@ -0,0 +1,550 @@
+/**
+ * Entity Register
+ *
+ * Per-project register of the organisations and people involved in a project
+ * (developer, EPC, offtaker, O&M, lender, grid operator), with ownership
+ * percentages and contact details:
+ * - Pattern matching finds companies with legal suffixes, ownership statements
+ *   ("OQAE holds 51%") and emails/phones next to them
+ * - An LLM pass (prompt template `entities`) adds people, acronyms and roles
+ * - Entities are matched across documents by normalised name; every document
+ *   and fact that mentions an entity is recorded in entity_mentions
+ * - Duplicates are merged by the user; merged entities keep their name as an
+ *   alias (merged_into) so later mentions resolve to the merged entity
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { invokeStructured } from './llm-structured';
+import { entityExtractionSchema } from './llm-output-schemas';
+import { chunkDocument, mapWithConcurrency } from './document-chunker';
+import { formatVersionTag, getActiveTemplate, renderTemplate, type PromptTemplateVersion } from './prompt-templates';
+import type { Queryable } from './document-dedup';
+
+export const ENTITY_ROLES = ['developer', 'epc', 'offtaker', 'om', 'lender', 'grid_operator', 'other'] as const;
+
+export type EntityRole = (typeof ENTITY_ROLES)[number];
+export type EntityType = 'organisation' | 'person';
+
+export interface ExtractedEntity {
+  name: string;
+  type: EntityType;
+  roles: EntityRole[];
+  ownershipPercent: number | null;
+  affiliation: string | null;  // organisation a person works for
+  emails: string[];
+  phones: string[];
+  evidence: string | null;     // text the entity was found in
+  extractionMethod: 'deterministic' | 'llm';
+}
+
+export interface RegisteredEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+  roles: EntityRole[];
+  ownershipPercent: number | null;
+  affiliation: string | null;
+  emails: string[];
+  phones: string[];
+  aliases: string[];           // names of the entities merged into this one
+  documentCount: number;
+  factCount: number;
+}
+
+export interface EntityMention {
+  id: number;
+  documentId: string;
+  fileName: string | null;
+  factId: string | null;
+  factKey: string | null;
+  factValue: string | null;
+  role: string | null;
+  ownershipPercent: number | null;
+  mentionText: string | null;
+  extractionMethod: string | null;
+}
+
+// Characters of input per LLM call; longer documents are chunked
+const CHUNK_MAX_CHARS = 15000;
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '2');
+
+const LEGAL_SUFFIXES = 'Pty\\.? Ltd|Ltd|Limited|Inc|LLC|LLP|PLC|plc|GmbH|AG|SAOC|SAOG|S\\.A\\.|B\\.V\\.|N\\.V\\.|Corp|Corporation|Company|Group|Holdings';
+
+const PATTERNS = {
+  // Capitalised words followed by legal suffixes ("Acme Solar Holdings Pty Ltd"); the
+  // shortest name is taken so "Acme Pty Ltd and Beta Ltd" gives two organisations
+  organisation: new RegExp(`\\b([A-Z][A-Za-z0-9&'-]*(?:[ \\t]+(?:[A-Z][A-Za-z0-9&'-]*|&|and|of))*?)[ \\t]+((?:${LEGAL_SUFFIXES})(?:[ \\t]+(?:${LEGAL_SUFFIXES}))*)\\b\\.?`, 'g'),
+  // "OQAE holds 51%", "TotalEnergies owns a 49%"
+  ownershipHolds: /\b([A-Z][A-Za-z0-9&-]*(?:[ \t]+[A-Z][A-Za-z0-9&-]*){0,5})[ \t]+(?:holds|owns|has)[ \t]+(?:an?[ \t]+)?(\d{1,3}(?:\.\d+)?)[ \t]*%/g,
+  // "51% is owned by OQAE", "49% held by TotalEnergies"
+  ownershipOwnedBy: /\b(\d{1,3}(?:\.\d+)?)[ \t]*%[ \t]+(?:is[ \t]+|are[ \t]+)?(?:owned|held)[ \t]+by[ \t]+([A-Z][A-Za-z0-9&-]*(?:[ \t]+[A-Z][A-Za-z0-9&-]*){0,5})/g,
+  email: /\b[a-zA-Z0-9._%+-]+@([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})\b/g,
+  // Only labelled numbers, so capacities and amounts are not taken for phones
+  phone: /\b(?:tel|phone|telephone|mobile|mob|fax)\b\.?[ \t]*:?[ \t]*(\+?\d[\d \t().-]{6,}\d)/gi,
+};
+
+// Project roles and the words that signal them next to an entity name
+const ROLE_PATTERNS: Array<[EntityRole, RegExp]> = [
+  ['epc', /\bEPC\b|engineering,? procurement and construction|construction contractor/i],
+  ['om', /\bO&M\b|operations? (?:and|&) maintenance/i],
+  ['offtaker', /\bofftaker\b|\boff-taker\b|power purchaser|\bPPA counterparty\b|\bbuyer\b/i],
+  ['lender', /\blenders?\b|\bfinancier\b|debt provider|lead arranger|\bbank\b/i],
+  ['grid_operator', /grid operator|network operator|transmission (?:system )?operator|\bTSO\b|\bDNO\b|\bDSO\b|\butility\b/i],
+  ['developer', /\bdeveloper\b|\bsponsor\b|\bdeveloped by\b/i],
+];
+
+// Words dropped when matching names ("Acme Solar Pty Ltd" = "ACME SOLAR")
+const NAME_STOP_WORDS = new Set([
+  'the', 'pty', 'ltd', 'limited', 'inc', 'llc', 'llp', 'plc', 'gmbh', 'ag', 'saoc', 'saog', 'sa', 'bv', 'nv',
+  'corp', 'corporation', 'company', 'co',
+]);
+
+/**
+ * Name used to match mentions of the same entity: lower case, without
+ * punctuation, "the" and legal suffixes
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(word => word && !NAME_STOP_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Map a role as written (by the LLM or a user) onto a register role
+ */
+export function normalizeRole(role: string): EntityRole {
+  const value = role.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((ENTITY_ROLES as readonly string[]).includes(value)) return value as EntityRole;
+  const match = ROLE_PATTERNS.find(([, pattern]) => pattern.test(role));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Organisations, ownership statements and contact details found by pattern matching
+ */
+export function extractDeterministicEntities(text: string): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const add = (name: string, index: number, evidence: string, ownershipPercent: number | null = null) => {
+    const cleaned = name.replace(/^(?:The|This|That|Our|Its|In|Under|Between|With|By|For|From|And|An|A)[ \t]+/, '').trim();
+    if (!normalizeEntityName(cleaned)) return;
+    entities.push({
+      name: cleaned,
+      type: 'organisation',
+      roles: rolesNear(text, index, evidence.length),
+      ownershipPercent,
+      affiliation: null,
+      emails: [],
+      phones: [],
+      evidence,
+      extractionMethod: 'deterministic',
+    });
+  };
+
+  for (const match of Array.from(text.matchAll(PATTERNS.organisation))) {
+    add(match[0].replace(/\.$/, ''), match.index!, match[0]);
+  }
+  for (const match of Array.from(text.matchAll(PATTERNS.ownershipHolds))) {
+    add(match[1], match.index!, match[0], parseFloat(match[2]));
+  }
+  for (const match of Array.from(text.matchAll(PATTERNS.ownershipOwnedBy))) {
+    add(match[2], match.index!, match[0], parseFloat(match[1]));
+  }
+
+  const combined = combineEntities(entities);
+  attachContacts(text, combined);
+  return combined;
+}
+
+/**
+ * Entities named in a document: pattern matching, plus the LLM pass unless disabled
+ */
+export async function extractEntities(
+  text: string,
+  documentType: string,
+  options: { useLlm?: boolean; model?: string } = {}
+): Promise<ExtractedEntity[]> {
+  const deterministic = extractDeterministicEntities(text);
+  if (options.useLlm === false) return deterministic;
+
+  const template = await getActiveTemplate('entities');
+  const chunks = chunkDocument(text, { maxChars: CHUNK_MAX_CHARS });
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) =>
+    extractEntityChunk(chunk.text, documentType, template, options.model, `${index + 1}/${chunks.length}`)
+  );
+  const llmEntities = results.flat();
+  console.log(`[Entity Register] Found ${deterministic.length} entities by pattern matching, ${llmEntities.length} by the LLM`);
+
+  return combineEntities([...deterministic, ...llmEntities]);
+}
+
+async function extractEntityChunk(
+  text: string,
+  documentType: string,
+  template: PromptTemplateVersion,
+  model: string | undefined,
+  chunkLabel: string
+): Promise<ExtractedEntity[]> {
+  const variables = { document_type: documentType, text };
+  try {
+    const result = await invokeStructured({
+      stage: 'extraction',
+      model,
+      messages: [
+        { role: 'system', content: renderTemplate(template.systemPrompt, variables) },
+        { role: 'user', content: renderTemplate(template.body, variables) },
+      ],
+      response_format: { type: 'json_object' },
+    }, entityExtractionSchema, { label: `${formatVersionTag('entities', template.version)} chunk ${chunkLabel}` });
+
+    return result.entities.map(entity => ({
+      name: entity.name,
+      type: entity.type,
+      roles: Array.from(new Set(entity.roles.map(normalizeRole))),
+      ownershipPercent: entity.ownership_percent ?? null,
+      affiliation: entity.organisation || null,
+      emails: entity.email ? [entity.email.trim()] : [],
+      phones: entity.phone ? [entity.phone.trim()] : [],
+      evidence: entity.source_quote || null,
+      extractionMethod: 'llm' as const,
+    }));
+  } catch (error) {
+    console.error(`[Entity Register] LLM extraction failed for chunk ${chunkLabel}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Combine entities with the same normalised name. The longest name is kept
+ * ("Acme Solar Pty Ltd" over "Acme Solar"); the first ownership percentage wins.
+ */
+export function combineEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+  const combined = new Map<string, ExtractedEntity>();
+  for (const entity of entities) {
+    const key = normalizeEntityName(entity.name);
+    const existing = combined.get(key);
+    if (!existing) {
+      combined.set(key, { ...entity, roles: [...entity.roles], emails: [...entity.emails], phones: [...entity.phones] });
+      continue;
+    }
+    if (entity.name.length > existing.name.length) existing.name = entity.name;
+    if (entity.type === 'person') existing.type = 'person';
+    existing.roles = union(existing.roles, entity.roles);
+    existing.emails = union(existing.emails, entity.emails);
+    existing.phones = union(existing.phones, entity.phones);
+    existing.ownershipPercent ??= entity.ownershipPercent;
+    existing.affiliation ??= entity.affiliation;
+    existing.evidence ??= entity.evidence;
+    if (entity.extractionMethod === 'llm') existing.extractionMethod = 'llm';
+  }
+  return Array.from(combined.values());
+}
+
+/**
+ * Whether a text mentions an entity by any of its names (whole words, any case)
+ */
+export function mentionsEntity(text: string, names: string[]): boolean {
+  return names.some(name => {
+    const trimmed = name.trim();
+    if (trimmed.length < 3) return false;
+    const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?:^|[^A-Za-z0-9])${escaped}(?:$|[^A-Za-z0-9])`, 'i').test(text);
+  });
+}
+
+/**
+ * Store the entities of a document and link them to the document's facts.
+ * Safe to re-run: the document's previous mentions are replaced.
+ */
+export async function saveDocumentEntities(
+  projectDb: Queryable,
+  documentId: string,
+  entities: ExtractedEntity[]
+): Promise<number> {
+  await projectDb.execute(`DELETE FROM entity_mentions WHERE document_id = ?`, [documentId]);
+  if (entities.length === 0) return 0;
+
+  const [facts]: any = await projectDb.execute(
+    `SELECT id, value FROM extracted_facts WHERE source_document_id = ? AND deleted_at IS NULL`,
+    [documentId]
+  );
+
+  let linkedFacts = 0;
+  for (const entity of entities) {
+    const entityId = await upsertEntity(projectDb, entity);
+    const role = entity.roles[0] ?? null;
+
+    await projectDb.execute(
+      `INSERT INTO entity_mentions (entity_id, document_id, fact_id, role, ownership_percent, mention_text, extraction_method)
+       VALUES (?, ?, NULL, ?, ?, ?, ?)`,
+      [entityId, documentId, role, entity.ownershipPercent, entity.evidence, entity.extractionMethod]
+    );
+
+    const names = [entity.name, stripLegalSuffix(entity.name)];
+    for (const fact of facts.filter((f: any) => mentionsEntity(f.value, names))) {
+      await projectDb.execute(
+        `INSERT INTO entity_mentions (entity_id, document_id, fact_id, role, ownership_percent, mention_text, extraction_method)
+         VALUES (?, ?, ?, ?, NULL, NULL, ?)`,
+        [entityId, documentId, fact.id, role, entity.extractionMethod]
+      );
+      linkedFacts++;
+    }
+  }
+
+  console.log(`[Entity Register] Document ${documentId}: ${entities.length} entities, linked to ${linkedFacts} facts`);
+  return entities.length;
+}
+
+/**
+ * Entities of the project (merged duplicates are listed as aliases of their entity)
+ */
+export async function listEntities(projectDb: Queryable): Promise<RegisteredEntity[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT e.*,
+       (SELECT COUNT(DISTINCT m.document_id) FROM entity_mentions m WHERE m.entity_id = e.id) AS document_count,
+       (SELECT COUNT(*) FROM entity_mentions m JOIN extracted_facts f ON f.id = m.fact_id
+         WHERE m.entity_id = e.id AND f.deleted_at IS NULL) AS fact_count
+     FROM entities e
+     WHERE e.merged_into IS NULL
+     ORDER BY e.name`
+  );
+  const [aliasRows]: any = await projectDb.execute(
+    `SELECT merged_into, name FROM entities WHERE merged_into IS NOT NULL ORDER BY name`
+  );
+
+  const aliases = new Map<string, string[]>();
+  for (const alias of aliasRows) {
+    aliases.set(alias.merged_into, [...(aliases.get(alias.merged_into) || []), alias.name]);
+  }
+
+  return rows.map((row: any) => ({
+    ...toEntityDetails(row),
+    id: row.id,
+    name: row.name,
+    aliases: aliases.get(row.id) || [],
+    documentCount: Number(row.document_count),
+    factCount: Number(row.fact_count),
+  }));
+}
+
+/**
+ * Documents and facts that mention an entity
+ */
+export async function listEntityMentions(projectDb: Queryable, entityId: string): Promise<EntityMention[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT m.*, d.fileName, f.\`key\` AS fact_key, f.value AS fact_value
+     FROM entity_mentions m
+     LEFT JOIN documents d ON d.id = m.document_id
+     LEFT JOIN extracted_facts f ON f.id = m.fact_id
+     WHERE m.entity_id = ? AND (m.fact_id IS NULL OR f.deleted_at IS NULL)
+     ORDER BY d.fileName, m.fact_id IS NOT NULL, m.id`,
+    [entityId]
+  );
+  return rows.map((row: any) => ({
+    id: row.id,
+    documentId: row.document_id,
+    fileName: row.fileName ?? null,
+    factId: row.fact_id ?? null,
+    factKey: row.fact_key ?? null,
+    factValue: row.fact_value ?? null,
+    role: row.role ?? null,
+    ownershipPercent: row.ownership_percent === null ? null : Number(row.ownership_percent),
+    mentionText: row.mention_text ?? null,
+    extractionMethod: row.extraction_method ?? null,
+  }));
+}
+
+/**
+ * Merge duplicate entities into `targetId`: mentions move to the target, roles
+ * and contacts are combined, and the duplicates stay behind as aliases
+ */
+export async function mergeEntities(
+  projectDb: Queryable,
+  targetId: string,
+  sourceIds: string[],
+  name?: string
+): Promise<void> {
+  const ids = [targetId, ...sourceIds.filter(id => id !== targetId)];
+  const placeholders = ids.map(() => '?').join(', ');
+  const [rows]: any = await projectDb.execute(
+    `SELECT * FROM entities WHERE id IN (${placeholders}) AND merged_into IS NULL`,
+    ids
+  );
+  const target = rows.find((row: any) => row.id === targetId);
+  if (!target) throw new Error(`Entity ${targetId} not found`);
+  const sources = rows.filter((row: any) => row.id !== targetId);
+  if (sources.length === 0) throw new Error('Select at least one other entity to merge');
+
+  const merged = mergeEntityDetails(toEntityDetails(target), sources.map(toEntityDetails));
+  const newName = name?.trim() || target.name;
+  const sourcePlaceholders = sources.map(() => '?').join(', ');
+  const sourceRowIds = sources.map((row: any) => row.id);
+
+  await projectDb.execute(
+    `UPDATE entity_mentions SET entity_id = ? WHERE entity_id IN (${sourcePlaceholders})`,
+    [targetId, ...sourceRowIds]
+  );
+  // Aliases of the merged entities, and the entities themselves, now point at the target
+  await projectDb.execute(
+    `UPDATE entities SET merged_into = ? WHERE id IN (${sourcePlaceholders}) OR merged_into IN (${sourcePlaceholders})`,
+    [targetId, ...sourceRowIds, ...sourceRowIds]
+  );
+  await projectDb.execute(
+    `UPDATE entities SET name = ?, normalized_name = ?, entity_type = ?, roles = ?, ownership_percent = ?, affiliation = ?, emails = ?, phones = ?
+     WHERE id = ?`,
+    [
+      newName,
+      normalizeEntityName(newName),
+      merged.type,
+      JSON.stringify(merged.roles),
+      merged.ownershipPercent,
+      merged.affiliation,
+      JSON.stringify(merged.emails),
+      JSON.stringify(merged.phones),
+      targetId,
+    ]
+  );
+
+  console.log(`[Entity Register] Merged ${sources.length} entities into ${newName}`);
+}
+
+type EntityDetails = Pick<RegisteredEntity, 'type' | 'roles' | 'ownershipPercent' | 'affiliation' | 'emails' | 'phones'>;
+
+/**
+ * Details of a merged entity: the target's values win, lists are combined
+ */
+export function mergeEntityDetails(target: EntityDetails, sources: EntityDetails[]): EntityDetails {
+  return sources.reduce<EntityDetails>((merged, source) => ({
+    type: merged.type,
+    roles: union(merged.roles, source.roles),
+    ownershipPercent: merged.ownershipPercent ?? source.ownershipPercent,
+    affiliation: merged.affiliation ?? source.affiliation,
+    emails: union(merged.emails, source.emails),
+    phones: union(merged.phones, source.phones),
+  }), target);
+}
+
+/**
+ * Id of the register entity for an extracted entity, created when the name is
+ * new. Details found in the document are added to an existing entity.
+ */
+async function upsertEntity(projectDb: Queryable, entity: ExtractedEntity): Promise<string> {
+  const normalizedName = normalizeEntityName(entity.name);
+  const [rows]: any = await projectDb.execute(
+    `SELECT * FROM entities WHERE normalized_name = ? ORDER BY merged_into IS NOT NULL LIMIT 1`,
+    [normalizedName]
+  );
+
+  if (rows.length === 0) {
+    const id = uuidv4();
+    await projectDb.execute(
+      `INSERT INTO entities (id, name, normalized_name, entity_type, roles, ownership_percent, affiliation, emails, phones)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        entity.name,
+        normalizedName,
+        entity.type,
+        JSON.stringify(entity.roles),
+        entity.ownershipPercent,
+        entity.affiliation,
+        JSON.stringify(entity.emails),
+        JSON.stringify(entity.phones),
+      ]
+    );
+    return id;
+  }
+
+  // A merged duplicate's name resolves to the entity it was merged into
+  let existing = rows[0];
+  if (existing.merged_into) {
+    const [targets]: any = await projectDb.execute(`SELECT * FROM entities WHERE id = ?`, [existing.merged_into]);
+    if (targets.length > 0) existing = targets[0];
+  }
+
+  const merged = mergeEntityDetails(toEntityDetails(existing), [entity]);
+  await projectDb.execute(
+    `UPDATE entities SET roles = ?, ownership_percent = ?, affiliation = ?, emails = ?, phones = ? WHERE id = ?`,
+    [
+      JSON.stringify(merged.roles),
+      merged.ownershipPercent,
+      merged.affiliation,
+      JSON.stringify(merged.emails),
+      JSON.stringify(merged.phones),
+      existing.id,
+    ]
+  );
+  return existing.id;
+}
+
+function toEntityDetails(row: any): EntityDetails {
+  return {
+    type: row.entity_type,
+    roles: parseList(row.roles) as EntityRole[],
+    ownershipPercent: row.ownership_percent === null || row.ownership_percent === undefined ? null : Number(row.ownership_percent),
+    affiliation: row.affiliation ?? null,
+    emails: parseList(row.emails),
+    phones: parseList(row.phones),
+  };
+}
+
+/**
+ * Roles signalled by words in the sentence a name appears in
+ */
+function rolesNear(text: string, index: number, length: number): EntityRole[] {
+  const before = text.substring(0, index);
+  const start = Math.max(before.search(/[^.!?\n]*$/), 0);
+  const end = text.substring(index + length).search(/[.!?](?:\s|$)|\n/);
+  const sentence = text.substring(start, end === -1 ? text.length : index + length + end);
+  return ROLE_PATTERNS.filter(([, pattern]) => pattern.test(sentence)).map(([role]) => role);
+}
+
+/**
+ * Give emails and phones to the organisation they belong to: an email whose
+ * domain carries the organisation's name, or the only organisation named in
+ * the same paragraph
+ */
+function attachContacts(text: string, entities: ExtractedEntity[]): void {
+  if (entities.length === 0) return;
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const emails = Array.from(paragraph.matchAll(PATTERNS.email));
+    const phones = Array.from(paragraph.matchAll(PATTERNS.phone), match => match[1].trim());
+    if (emails.length === 0 && phones.length === 0) continue;
+
+    const named = entities.filter(entity => mentionsEntity(paragraph, [entity.name, stripLegalSuffix(entity.name)]));
+    const onlyEntity = named.length === 1 ? named[0] : null;
+
+    for (const [email, domain] of emails) {
+      const compactDomain = domain.toLowerCase().replace(/[^a-z0-9.]/g, '');
+      const owner = entities.find(entity => {
+        const compactName = normalizeEntityName(entity.name).replace(/\s+/g, '');
+        return compactName.length >= 3 && compactDomain.split('.').includes(compactName);
+      }) ?? onlyEntity;
+      if (owner) owner.emails = union(owner.emails, [email]);
+    }
+    if (onlyEntity) onlyEntity.phones = union(onlyEntity.phones, phones);
+  }
+}
+
+function stripLegalSuffix(name: string): string {
+  return name.replace(new RegExp(`[ \\t]+(?:${LEGAL_SUFFIXES})\\.?$`), '').trim();
+}
+
+function parseList(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String);
+  try {
+    const parsed = JSON.parse(String(value));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return Array.from(new Set([...a, ...b]));
+}
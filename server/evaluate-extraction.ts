@@ -0,0 +1,157 @@
+/**
+ * Extraction evaluation CLI
+ *
+ *   pnpm eval <dataset folder> [--label "new risk prompt"] [--model llama3.1:8b]
+ *                              [--compare <run id>] [--tolerance 0.02] [--no-save] [--json]
+ *   pnpm eval --history <dataset name>
+ *
+ * Runs the golden dataset through the extraction pipeline, prints precision,
+ * recall and numeric error per field, per document type and per document,
+ * saves the run and compares it with the previous run of the same dataset
+ * (or the run given with --compare).
+ */
+
+import "dotenv/config";
+import { parseArgs } from "util";
+import {
+  compareReports,
+  getEvaluationRun,
+  listEvaluationRuns,
+  runEvaluation,
+  saveEvaluationRun,
+  type EvaluationReport,
+  type MetricChange,
+  type MetricSummary,
+} from "./extraction-evaluation";
+
+const USAGE = `Usage:
+  pnpm eval <dataset folder> [--label <text>] [--model <name>] [--compare <run id>] [--tolerance <ratio>] [--no-save] [--json]
+  pnpm eval --history <dataset name>`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      label: { type: "string" },
+      model: { type: "string" },
+      compare: { type: "string" },
+      tolerance: { type: "string" },
+      history: { type: "string" },
+      "no-save": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.history) {
+    await printHistory(values.history);
+    return;
+  }
+
+  const datasetDir = positionals[0];
+  if (!datasetDir) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = await runEvaluation(datasetDir, {
+    model: values.model,
+    numericTolerance: values.tolerance ? parseFloat(values.tolerance) : undefined,
+  });
+
+  // Baseline: the run given with --compare, otherwise the latest run of the dataset
+  let baseline: { id: number; report: EvaluationReport } | null = null;
+  try {
+    if (values.compare) {
+      baseline = await getEvaluationRun(parseInt(values.compare));
+      if (!baseline) console.warn(`[Evaluation] Run ${values.compare} not found - no comparison`);
+    } else {
+      const [latest] = await listEvaluationRuns(report.dataset, 1);
+      if (latest) baseline = await getEvaluationRun(latest.id);
+    }
+  } catch (error) {
+    console.warn("[Evaluation] Could not load earlier runs - no comparison:", error instanceof Error ? error.message : error);
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report, baseline ? { id: baseline.id, changes: compareReports(baseline.report, report) } : null);
+  }
+
+  if (!values["no-save"]) {
+    const runId = await saveEvaluationRun(report, values.label);
+    console.log(`\nSaved as run ${runId}`);
+  }
+}
+
+async function printHistory(dataset: string) {
+  const runs = await listEvaluationRuns(dataset);
+  if (runs.length === 0) {
+    console.log(`No runs saved for ${dataset}`);
+    return;
+  }
+  console.table(runs.map(run => ({
+    run: run.id,
+    date: new Date(run.createdAt).toISOString().slice(0, 16).replace("T", " "),
+    label: run.label || "",
+    model: `${run.provider}/${run.model}`,
+    documents: run.documentCount,
+    precision: percent(run.summary.precision),
+    recall: percent(run.summary.recall),
+    "numeric error": percent(run.summary.meanNumericError),
+  })));
+}
+
+function printReport(report: EvaluationReport, comparison: { id: number; changes: MetricChange[] } | null) {
+  const changes = new Map(comparison?.changes.map(change => [change.name, change]));
+  const rows = (metrics: MetricSummary[]) => metrics.map(metric => {
+    const change = changes.get(metric.name);
+    return {
+      name: metric.name,
+      tp: metric.truePositives,
+      fp: metric.falsePositives,
+      fn: metric.falseNegatives,
+      precision: percent(metric.precision) + signed(change?.precisionDelta),
+      recall: percent(metric.recall) + signed(change?.recallDelta),
+      "numeric error": percent(metric.meanNumericError) + signed(change?.numericErrorDelta),
+    };
+  });
+
+  console.log(`\nDataset ${report.dataset} · ${report.provider}/${report.model} · ${report.documents.length} document(s)`);
+  console.log(`Prompts: ${report.promptVersions.join(", ") || "-"}`);
+  if (comparison) console.log(`Changes against run ${comparison.id} in brackets`);
+
+  console.log("\nOverall");
+  console.table(rows([report.overall]));
+  console.log("By field");
+  console.table(rows(report.byField));
+  console.log("By document type");
+  console.table(rows(report.byDocumentType));
+  console.log("By document");
+  console.table(report.documents.map(document => ({
+    document: document.file,
+    type: document.documentType,
+    status: document.error ? `failed: ${document.error}` : document.status,
+    precision: percent(document.overall.precision),
+    recall: percent(document.overall.recall),
+    "numeric error": percent(document.overall.meanNumericError),
+    seconds: (document.processingTimeMs / 1000).toFixed(1),
+  })));
+}
+
+function percent(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(delta: number | null | undefined): string {
+  if (delta === null || delta === undefined || Math.abs(delta) < 0.0005) return "";
+  return ` (${delta > 0 ? "+" : ""}${(delta * 100).toFixed(1)})`;
+}
+
+main()
+  .catch(error => {
+    console.error("[Evaluation] Failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
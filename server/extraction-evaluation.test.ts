@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { aggregate, compareReports, parseNumber, scoreFacts, scoreParameters, summarize, type DocumentEvaluation, type EvaluationReport } from './extraction-evaluation';
+
+describe('Extraction Evaluation', () => {
+  it('should parse numbers with units, separators and scale words', () => {
+    expect(parseNumber(50)).toBe(50);
+    expect(parseNumber('50 MW')).toBe(50);
+    expect(parseNumber('$45,000,000')).toBe(45000000);
+    expect(parseNumber('USD 52.6 million')).toBe(52600000);
+    expect(parseNumber('single_axis')).toBeNull();
+  });
+
+  it('should score parameters as found, missed, wrong or spurious', () => {
+    const fields = scoreParameters(
+      'performance',
+      { dc_capacity_mw: 62.5, ac_capacity_mw: 50, inverter_count: 14, tracking_type: 'single_axis', azimuth_degrees: null },
+      { dc_capacity_mw: '62.5 MWp', ac_capacity_mw: '55', tracking_type: 'Single_Axis', azimuth_degrees: '180' }
+    );
+
+    expect(fields['performance.dc_capacity_mw']).toMatchObject({ truePositives: 1, numericErrors: [0] });
+    expect(fields['performance.ac_capacity_mw']).toMatchObject({ truePositives: 0, falsePositives: 1, falseNegatives: 1, numericErrors: [0.1] });
+    expect(fields['performance.inverter_count']).toMatchObject({ falseNegatives: 1, falsePositives: 0 });
+    expect(fields['performance.tracking_type'].truePositives).toBe(1);
+    expect(fields['performance.azimuth_degrees']).toMatchObject({ falsePositives: 1, falseNegatives: 0 });
+  });
+
+  it('should only count facts in sections covered by the golden file', () => {
+    const fields = scoreFacts(
+      [{ section: 'Grid_Infrastructure', value: '132 kV' }, { section: 'Grid_Infrastructure', value: 'Dubbo substation' }],
+      [
+        { key: 'Grid_Infrastructure', value: 'Connection to the 132kV network' },
+        { key: 'Grid_Infrastructure', value: '33 kV collector system' },
+        { key: 'Project_Overview', value: 'Sunridge Solar Farm' },
+      ]
+    );
+
+    expect(Object.keys(fields)).toEqual(['facts.Grid_Infrastructure']);
+    expect(fields['facts.Grid_Infrastructure']).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+  });
+
+  it('should match facts on whole words and numbers', () => {
+    const fields = scoreFacts(
+      [{ section: 'Technical_Design', value: '50 MW' }, { section: 'Technical_Design', value: 'USD 45,000,000' }],
+      [
+        { key: 'Technical_Design', value: 'A 150MW extension is planned' },
+        { key: 'Technical_Design', value: 'Capex of USD 45000000' },
+      ]
+    );
+
+    expect(fields['facts.Technical_Design']).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+  });
+
+  it('should aggregate per field and document type and compare runs', () => {
+    const document = (file: string, documentType: string, truePositives: number, falseNegatives: number): DocumentEvaluation => {
+      const fields = { 'performance.dc_capacity_mw': { truePositives, falsePositives: 0, falseNegatives, numericErrors: [] } };
+      return { file, documentType, status: 'completed', processingTimeMs: 0, fields, overall: summarize(file, Object.values(fields)) };
+    };
+    const report = (documents: DocumentEvaluation[]): EvaluationReport => ({
+      dataset: 'sample', provider: 'forge', model: 'test', promptVersions: [], startedAt: '', ...aggregate(documents),
+    });
+
+    const baseline = report([document('a.pdf', 'IM', 1, 0), document('b.pdf', 'CONTRACT', 0, 1)]);
+    expect(baseline.overall.recall).toBe(0.5);
+    expect(baseline.byDocumentType.map(metric => [metric.name, metric.recall])).toEqual([['CONTRACT', 0], ['IM', 1]]);
+
+    const current = report([document('a.pdf', 'IM', 1, 0), document('b.pdf', 'CONTRACT', 1, 0)]);
+    const overall = compareReports(baseline, current).find(change => change.name === 'overall');
+    expect(overall?.recallDelta).toBe(0.5);
+  });
+});
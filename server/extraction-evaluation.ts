@@ -0,0 +1,456 @@
+/**
+ * Extraction Evaluation
+ *
+ * Scores the extraction pipeline against a golden dataset: a folder of sample
+ * documents, each with a `<file name>.expected.json` file next to it:
+ *
+ *   {
+ *     "documentType": "IM",
+ *     "facts": [{ "section": "Technical_Design", "value": "50 MW" }],
+ *     "performance": { "dc_capacity_mw": 50, "tracking_type": "single_axis", "p90_generation_gwh": null },
+ *     "financial": { "total_capex_usd": 45000000 }
+ *   }
+ *
+ * - Facts: an expected fact is found when a fact of its section contains its
+ *   value. Precision counts only facts in sections the golden file covers.
+ * - Parameters: only the fields listed are scored; `null` means the field must
+ *   not be extracted. Numbers match within a relative tolerance and their
+ *   relative error is reported.
+ * - Results are aggregated per field, per document type and per document, and
+ *   can be saved to `extraction_eval_runs` to compare against earlier runs.
+ *
+ * Run with `pnpm eval <dataset folder>` (evaluate-extraction.ts). Use
+ * LLM_RECORD_MODE=replay to rerun against recorded responses.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { desc, eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { extractionEvalRuns } from '../drizzle/schema';
+import { processDocument, type ExtractedFact } from './document-processor-v2';
+import { PerformanceFinancialExtractor } from './performance-financial-extractor';
+import { loadLlmSettings, resolveOllamaModel } from './llm-providers';
+import { resolveForgeModel } from './_core/llm';
+
+const EXPECTED_SUFFIX = '.expected.json';
+
+// Relative difference under which two numbers are considered equal
+const DEFAULT_NUMERIC_TOLERANCE = 0.01;
+
+export type ParameterGroup = 'performance' | 'financial';
+type ExpectedValue = string | number | null;
+
+export interface GoldenDocument {
+  file: string;       // path of the sample document
+  documentType: string;
+  facts: Array<{ section: string; value: string }>;
+  performance: Record<string, ExpectedValue>;
+  financial: Record<string, ExpectedValue>;
+}
+
+export interface FieldTally {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  numericErrors: number[]; // relative errors of numeric fields with both values present
+}
+
+export interface MetricSummary {
+  name: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  meanNumericError: number | null; // mean relative error, e.g. 0.05 = 5%
+}
+
+export interface DocumentEvaluation {
+  file: string;
+  documentType: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  processingTimeMs: number;
+  fields: Record<string, FieldTally>; // keyed "facts.<section>", "performance.<field>", "financial.<field>"
+  overall: MetricSummary;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  provider: string;
+  model: string;
+  promptVersions: string[];
+  startedAt: string;
+  overall: MetricSummary;
+  byField: MetricSummary[];
+  byDocumentType: MetricSummary[];
+  documents: DocumentEvaluation[];
+}
+
+export interface EvaluationRunSummary {
+  id: number;
+  label: string | null;
+  provider: string;
+  model: string;
+  promptVersions: string[];
+  documentCount: number;
+  summary: MetricSummary;
+  createdAt: Date;
+}
+
+export interface MetricChange {
+  name: string;
+  precisionDelta: number | null;
+  recallDelta: number | null;
+  numericErrorDelta: number | null;
+}
+
+/**
+ * Read the golden files of a dataset folder
+ */
+export async function loadGoldenDataset(datasetDir: string): Promise<GoldenDocument[]> {
+  const entries = await fs.readdir(datasetDir);
+  const documents: GoldenDocument[] = [];
+
+  for (const entry of entries.filter(name => name.endsWith(EXPECTED_SUFFIX)).sort()) {
+    const file = path.join(datasetDir, entry.slice(0, -EXPECTED_SUFFIX.length));
+    try {
+      await fs.access(file);
+    } catch {
+      throw new Error(`Golden file ${entry} has no matching document ${path.basename(file)}`);
+    }
+
+    const expected = JSON.parse(await fs.readFile(path.join(datasetDir, entry), 'utf-8'));
+    documents.push({
+      file,
+      documentType: expected.documentType || 'OTHER',
+      facts: Array.isArray(expected.facts) ? expected.facts : [],
+      performance: expected.performance || {},
+      financial: expected.financial || {},
+    });
+  }
+
+  if (documents.length === 0) {
+    throw new Error(`No *${EXPECTED_SUFFIX} files found in ${datasetDir}`);
+  }
+  return documents;
+}
+
+/**
+ * Run the extraction pipeline over every golden document and score it
+ */
+export async function runEvaluation(
+  datasetDir: string,
+  options: { model?: string; numericTolerance?: number } = {}
+): Promise<EvaluationReport> {
+  const golden = await loadGoldenDataset(datasetDir);
+  const settings = await loadLlmSettings();
+  const tolerance = options.numericTolerance ?? DEFAULT_NUMERIC_TOLERANCE;
+  const startedAt = new Date().toISOString();
+  const promptVersions = new Set<string>();
+  const documents: DocumentEvaluation[] = [];
+
+  for (let index = 0; index < golden.length; index++) {
+    const expected = golden[index];
+    console.log(`[Evaluation] (${index + 1}/${golden.length}) ${path.basename(expected.file)} as ${expected.documentType}`);
+
+    // Evaluation documents are not stored: project 0 and the file name as the document id
+    const processed = await processDocument(0, path.basename(expected.file), expected.file, expected.documentType, options.model);
+    if (processed.status === 'failed') {
+      documents.push(failedDocument(expected, processed.error || 'Processing failed', processed.processingTime));
+      continue;
+    }
+    processed.facts.forEach(fact => fact.promptVersion && promptVersions.add(fact.promptVersion));
+
+    const fields = scoreFacts(expected.facts, processed.facts);
+    const extractor = new PerformanceFinancialExtractor();
+    const tables = processed.tables || [];
+    if (Object.keys(expected.performance).length > 0) {
+      const performance = await extractor.extractPerformanceParameters(processed.extractedText, expected.documentType, tables);
+      if (performance?.prompt_version) promptVersions.add(performance.prompt_version);
+      Object.assign(fields, scoreParameters('performance', expected.performance, performance || {}, tolerance));
+    }
+    if (Object.keys(expected.financial).length > 0) {
+      const financial = await extractor.extractFinancialData(processed.extractedText, expected.documentType, tables);
+      if (financial?.prompt_version) promptVersions.add(financial.prompt_version);
+      Object.assign(fields, scoreParameters('financial', expected.financial, financial || {}, tolerance));
+    }
+
+    documents.push({
+      file: path.basename(expected.file),
+      documentType: expected.documentType,
+      status: 'completed',
+      processingTimeMs: processed.processingTime,
+      fields,
+      overall: summarize(path.basename(expected.file), Object.values(fields)),
+    });
+  }
+
+  return {
+    dataset: path.basename(path.resolve(datasetDir)),
+    provider: settings.provider,
+    model: settings.provider === 'ollama' ? resolveOllamaModel(settings, 'extraction', options.model) : resolveForgeModel(),
+    promptVersions: Array.from(promptVersions).sort(),
+    startedAt,
+    ...aggregate(documents),
+  };
+}
+
+/**
+ * Score extracted facts against the expected facts, per section
+ */
+export function scoreFacts(
+  expected: GoldenDocument['facts'],
+  extracted: Pick<ExtractedFact, 'key' | 'value'>[]
+): Record<string, FieldTally> {
+  const fields: Record<string, FieldTally> = {};
+  const sections = Array.from(new Set(expected.map(fact => fact.section.toLowerCase())));
+
+  for (const section of sections) {
+    const expectedValues = expected.filter(fact => fact.section.toLowerCase() === section).map(fact => tokenize(fact.value));
+    const extractedValues = extracted.filter(fact => fact.key.toLowerCase() === section).map(fact => tokenize(fact.value));
+    const name = `facts.${expected.find(fact => fact.section.toLowerCase() === section)!.section}`;
+
+    const found = expectedValues.filter(value => extractedValues.some(candidate => containsTokens(candidate, value))).length;
+    const matching = extractedValues.filter(candidate => expectedValues.some(value => containsTokens(candidate, value))).length;
+    fields[name] = {
+      truePositives: found,
+      falsePositives: extractedValues.length - matching,
+      falseNegatives: expectedValues.length - found,
+      numericErrors: [],
+    };
+  }
+  return fields;
+}
+
+/**
+ * Score extracted parameters against the expected values of the listed fields
+ */
+export function scoreParameters(
+  group: ParameterGroup,
+  expected: Record<string, ExpectedValue>,
+  extracted: Record<string, any>,
+  tolerance: number = DEFAULT_NUMERIC_TOLERANCE
+): Record<string, FieldTally> {
+  const fields: Record<string, FieldTally> = {};
+
+  for (const [field, expectedValue] of Object.entries(expected)) {
+    const tally: FieldTally = { truePositives: 0, falsePositives: 0, falseNegatives: 0, numericErrors: [] };
+    const actual = extracted[field];
+    const hasActual = actual !== undefined && actual !== null && String(actual).trim() !== '';
+
+    if (expectedValue === null) {
+      if (hasActual) tally.falsePositives++;
+    } else if (!hasActual) {
+      tally.falseNegatives++;
+    } else {
+      const expectedNumber = parseNumber(expectedValue);
+      const actualNumber = parseNumber(actual);
+      let matches: boolean;
+      if (expectedNumber !== null && actualNumber !== null) {
+        const error = relativeError(expectedNumber, actualNumber);
+        tally.numericErrors.push(error);
+        matches = error <= tolerance;
+      } else {
+        const expectedTokens = tokenize(String(expectedValue));
+        const actualTokens = tokenize(String(actual));
+        matches = containsTokens(actualTokens, expectedTokens) || containsTokens(expectedTokens, actualTokens);
+      }
+
+      if (matches) {
+        tally.truePositives++;
+      } else {
+        // A wrong value is both a spurious and a missed extraction
+        tally.falsePositives++;
+        tally.falseNegatives++;
+      }
+    }
+    fields[`${group}.${field}`] = tally;
+  }
+  return fields;
+}
+
+/**
+ * Numeric value of a number or a string such as "$45,000,000", "50 MW" or "1.2 billion"
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value.replace(/,/g, '').match(/-?\d+(?:\.\d+)?(?:e[+-]?\d+)?\s*(million|mn|billion|bn|thousand)?\b/i);
+  if (!match) return null;
+
+  const number = parseFloat(match[0]);
+  const scale = match[1]?.toLowerCase();
+  if (scale === 'thousand') return number * 1e3;
+  if (scale === 'million' || scale === 'mn') return number * 1e6;
+  if (scale === 'billion' || scale === 'bn') return number * 1e9;
+  return number;
+}
+
+/**
+ * Precision, recall and mean numeric error of a set of tallies
+ */
+export function summarize(name: string, tallies: FieldTally[]): MetricSummary {
+  const truePositives = sum(tallies.map(tally => tally.truePositives));
+  const falsePositives = sum(tallies.map(tally => tally.falsePositives));
+  const falseNegatives = sum(tallies.map(tally => tally.falseNegatives));
+  const numericErrors = tallies.flatMap(tally => tally.numericErrors);
+
+  return {
+    name,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null,
+    meanNumericError: numericErrors.length > 0 ? sum(numericErrors) / numericErrors.length : null,
+  };
+}
+
+/**
+ * Overall, per-field and per-document-type metrics of the evaluated documents
+ */
+export function aggregate(documents: DocumentEvaluation[]): Pick<EvaluationReport, 'overall' | 'byField' | 'byDocumentType' | 'documents'> {
+  const byField = new Map<string, FieldTally[]>();
+  const byType = new Map<string, FieldTally[]>();
+
+  for (const document of documents) {
+    for (const [field, tally] of Object.entries(document.fields)) {
+      byField.set(field, [...(byField.get(field) || []), tally]);
+      byType.set(document.documentType, [...(byType.get(document.documentType) || []), tally]);
+    }
+  }
+
+  return {
+    overall: summarize('overall', documents.flatMap(document => Object.values(document.fields))),
+    byField: Array.from(byField.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([field, tallies]) => summarize(field, tallies)),
+    byDocumentType: Array.from(byType.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([type, tallies]) => summarize(type, tallies)),
+    documents,
+  };
+}
+
+/**
+ * Metric changes from a baseline report (positive precision/recall deltas and
+ * negative numeric error deltas are improvements)
+ */
+export function compareReports(baseline: EvaluationReport, current: EvaluationReport): MetricChange[] {
+  const previous = new Map([baseline.overall, ...baseline.byField, ...baseline.byDocumentType].map(metric => [metric.name, metric]));
+  return [current.overall, ...current.byField, ...current.byDocumentType].map(metric => {
+    const before = previous.get(metric.name);
+    return {
+      name: metric.name,
+      precisionDelta: delta(before?.precision, metric.precision),
+      recallDelta: delta(before?.recall, metric.recall),
+      numericErrorDelta: delta(before?.meanNumericError, metric.meanNumericError),
+    };
+  });
+}
+
+/**
+ * Store a run for later comparison; returns its id
+ */
+export async function saveEvaluationRun(report: EvaluationReport, label?: string): Promise<number> {
+  const db = await getDb();
+  const result: any = await db.insert(extractionEvalRuns).values({
+    dataset: report.dataset,
+    label: label || null,
+    provider: report.provider,
+    model: report.model,
+    promptVersions: report.promptVersions,
+    documentCount: report.documents.length,
+    summary: report.overall,
+    report,
+  });
+  return result[0].insertId;
+}
+
+export async function getEvaluationRun(id: number): Promise<{ id: number; label: string | null; createdAt: Date; report: EvaluationReport } | null> {
+  const db = await getDb();
+  const rows = await db.select().from(extractionEvalRuns).where(eq(extractionEvalRuns.id, id)).limit(1);
+  if (rows.length === 0) return null;
+  return { id: rows[0].id, label: rows[0].label, createdAt: rows[0].createdAt, report: parseJson(rows[0].report) };
+}
+
+/**
+ * Earlier runs of a dataset, newest first
+ */
+export async function listEvaluationRuns(dataset: string, limit: number = 20): Promise<EvaluationRunSummary[]> {
+  const db = await getDb();
+  const rows = await db
+    .select({
+      id: extractionEvalRuns.id,
+      label: extractionEvalRuns.label,
+      provider: extractionEvalRuns.provider,
+      model: extractionEvalRuns.model,
+      promptVersions: extractionEvalRuns.promptVersions,
+      documentCount: extractionEvalRuns.documentCount,
+      summary: extractionEvalRuns.summary,
+      createdAt: extractionEvalRuns.createdAt,
+    })
+    .from(extractionEvalRuns)
+    .where(eq(extractionEvalRuns.dataset, dataset))
+    .orderBy(desc(extractionEvalRuns.id))
+    .limit(limit);
+  return rows.map((row: any) => ({
+    ...row,
+    promptVersions: parseJson<string[]>(row.promptVersions),
+    summary: parseJson<MetricSummary>(row.summary),
+  }));
+}
+
+function failedDocument(expected: GoldenDocument, error: string, processingTimeMs: number): DocumentEvaluation {
+  // Every expected value of a failed document counts as missed
+  const fields: Record<string, FieldTally> = {
+    ...scoreFacts(expected.facts, []),
+    ...scoreParameters('performance', expected.performance, {}),
+    ...scoreParameters('financial', expected.financial, {}),
+  };
+  return {
+    file: path.basename(expected.file),
+    documentType: expected.documentType,
+    status: 'failed',
+    error,
+    processingTimeMs,
+    fields,
+    overall: summarize(path.basename(expected.file), Object.values(fields)),
+  };
+}
+
+// Lowercase words and numbers, numbers split from their units and without
+// thousands separators, so "50MW" matches "50 MW" but not "150 MW"
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .replace(/(\d)(?=[a-z])/g, '$1 ')
+    .match(/[a-z0-9%]+(?:\.[a-z0-9%]+)*/g) || [];
+}
+
+// Whether the expected tokens appear, in order and adjacent, in the candidate
+function containsTokens(candidate: string[], expected: string[]): boolean {
+  if (expected.length === 0) return false;
+  for (let start = 0; start + expected.length <= candidate.length; start++) {
+    if (expected.every((token, i) => candidate[start + i] === token)) return true;
+  }
+  return false;
+}
+
+function relativeError(expected: number, actual: number): number {
+  if (expected === 0) return Math.abs(actual);
+  return Math.abs(actual - expected) / Math.abs(expected);
+}
+
+function delta(before: number | null | undefined, after: number | null): number | null {
+  if (before === null || before === undefined || after === null) return null;
+  return after - before;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function parseJson<T>(value: unknown): T {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_FACT_KEYS, createKeyMatcher, normalizeKeyName, type FactKeyMapping } from './fact-key-ontology';
+
+function decision(rawKey: string, overrides: Partial<FactKeyMapping>): FactKeyMapping {
+  return {
+    id: 1,
+    rawKey,
+    canonicalKey: null,
+    method: 'manual',
+    status: 'ignored',
+    score: null,
+    occurrences: 1,
+    exampleValue: null,
+    lastSeenAt: '2026-10-19T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Fact Key Ontology', () => {
+  it('should normalise key names reported by the extractors', () => {
+    expect(normalizeKeyName('DC Capacity (MWp)')).toBe('dc_capacity_mwp');
+    expect(normalizeKeyName('capacityDC')).toBe('capacity_dc');
+    expect(normalizeKeyName('  O&M cost ')).toBe('o_and_m_cost');
+  });
+
+  it('should map synonyms exactly and similar names fuzzily, keeping DC and AC apart', () => {
+    const match = createKeyMatcher(BUILT_IN_FACT_KEYS);
+
+    expect(match('installed_capacity')).toEqual({ canonicalKey: 'dc_capacity', method: 'exact', status: 'mapped', score: 1 });
+    expect(match('capacity_dc_mwp')).toMatchObject({ canonicalKey: 'dc_capacity', method: 'fuzzy' });
+    expect(match('ac_capacity_mw')).toMatchObject({ canonicalKey: 'ac_capacity', method: 'fuzzy' });
+    expect(match('total_capex_usd')).toMatchObject({ canonicalKey: 'total_capex', method: 'fuzzy' });
+    expect(match('Comercial Operation Date')).toMatchObject({ canonicalKey: 'cod', method: 'fuzzy' });
+    // Could be DC, AC, battery or export capacity
+    expect(match('capacity')).toBeNull();
+  });
+
+  it('should leave names unmapped when their unit does not fit the key', () => {
+    const match = createKeyMatcher(BUILT_IN_FACT_KEYS);
+
+    for (const name of ['battery_capacity_mw', 'storage_capacity_mw', 'battery_power_mwh', 'capacity_dc_mwac', 'dc_capacity_mwac', 'export_capacity_mwh']) {
+      expect(match(name), name).toBeNull();
+    }
+    expect(match('battery_capacity_mwh')).toMatchObject({ canonicalKey: 'bess_energy', method: 'fuzzy' });
+    expect(match('export_capacity_mw')).toMatchObject({ canonicalKey: 'grid_export_capacity', method: 'fuzzy' });
+    expect(match('ppa_term_years')).toMatchObject({ canonicalKey: 'ppa_term', method: 'fuzzy' });
+  });
+
+  it('should let admin decisions win over automatic matches', () => {
+    const match = createKeyMatcher(BUILT_IN_FACT_KEYS, [
+      decision('capacity', {}),
+      decision('installed_capacity', { canonicalKey: 'ac_capacity', status: 'mapped' }),
+      decision('nameplate_rating', { canonicalKey: 'dc_capacity', method: 'llm', status: 'mapped', score: 0.9 }),
+    ]);
+
+    expect(match('capacity')).toEqual({ canonicalKey: null, method: 'manual', status: 'ignored', score: null });
+    expect(match('installed_capacity')).toMatchObject({ canonicalKey: 'ac_capacity', method: 'manual' });
+    expect(match('nameplate_rating')).toMatchObject({ canonicalKey: 'dc_capacity', method: 'llm', score: 0.9 });
+  });
+});
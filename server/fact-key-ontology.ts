@@ -0,0 +1,575 @@
+/**
+ * Fact Key Ontology
+ *
+ * Canonical fact keys (main database `fact_keys`) with their synonyms,
+ * expected kind of value, unit and report section. Key names reported by the
+ * extractors ("capacity_dc_mwp", "installed_capacity") are mapped onto them:
+ * - Exact: the normalised name is a canonical key or one of its synonyms
+ * - Fuzzy: the name shares its words with a key or synonym once units and
+ *   filler words are dropped ("capacity_dc_mwp" ~ "dc_capacity"), and any
+ *   unit in the name fits the key ("battery_capacity_mw" is not an energy)
+ * - LLM: names matched neither way are sent to the LLM once (prompt template
+ *   `fact_key_mapping`); its answer is kept
+ * Every name that is not an exact match is recorded in `fact_key_mappings`
+ * with how often it was seen, so admins can review unmapped names, correct
+ * fuzzy and LLM matches, and extend the ontology. Admin decisions win over
+ * every automatic match.
+ */
+
+import { asc, eq, sql } from 'drizzle-orm';
+import { getDb } from './db';
+import { factKeyMappings, factKeys } from '../drizzle/schema';
+import { CANONICAL_SECTIONS, getCanonicalSections } from '../shared/section-normalizer';
+import type { ValueKind } from '../shared/units';
+import { invokeStructured } from './llm-structured';
+import { factKeyMappingSchema } from './llm-output-schemas';
+import { formatVersionTag, getActiveTemplate, renderTemplate } from './prompt-templates';
+
+export type FactKeyMethod = 'exact' | 'fuzzy' | 'llm' | 'manual' | 'none';
+export type FactKeyMappingStatus = 'mapped' | 'unmapped' | 'ignored';
+
+export interface FactKeyDefinition {
+  id: number | null;             // null for the built-in fallback
+  key: string;                   // snake_case, stored on extracted_facts.canonical_key
+  label: string;
+  section: string;               // canonical section the facts are reported under
+  valueKind: ValueKind | null;   // null for free text
+  unit: string | null;
+  synonyms: string[];
+  description: string | null;
+  isActive: boolean;
+}
+
+export interface FactKeyMapping {
+  id: number;
+  rawKey: string;
+  canonicalKey: string | null;
+  method: FactKeyMethod;
+  status: FactKeyMappingStatus;
+  score: number | null;
+  occurrences: number;
+  exampleValue: string | null;
+  lastSeenAt: string;
+}
+
+export interface KeyMatch {
+  canonicalKey: string | null;   // null when ignored
+  method: FactKeyMethod;
+  status: FactKeyMappingStatus;
+  score: number | null;
+}
+
+// Units in key names, with the kind of value they imply (null: a scale only)
+const UNIT_KINDS = new Map<string, ValueKind | null>(Object.entries({
+  w: 'power', kw: 'power', kwp: 'power', kwac: 'power', kwdc: 'power', mw: 'power', mwp: 'power', mwac: 'power', mwdc: 'power', gw: 'power', gwp: 'power',
+  kwh: 'energy', mwh: 'energy', gwh: 'energy',
+  kv: 'voltage',
+  usd: 'currency', eur: 'currency', gbp: 'currency', aud: 'currency',
+  pct: 'percentage', percent: 'percentage',
+  yrs: 'number', years: 'number',
+  mm: null, million: null,
+}));
+const AC_UNITS = new Set(['kwac', 'mwac']);
+const DC_UNITS = new Set(['kwp', 'kwdc', 'mwp', 'mwdc', 'gwp']);
+// Words that say nothing about what a key means
+const FILLER_TOKENS = new Set(['the', 'of', 'a', 'an', 'total', 'overall', 'project', 'plant', 'value', 'amount']);
+
+// Lowest word overlap (Dice coefficient) for a fuzzy match
+const FUZZY_THRESHOLD = 0.8;
+// Lowest LLM confidence for a mapping to apply
+const LLM_MIN_CONFIDENCE = 0.6;
+// Most names sent to the LLM in one call
+const LLM_BATCH_SIZE = 40;
+
+const S = CANONICAL_SECTIONS;
+
+const DEFAULT_FACT_KEYS: Array<Omit<FactKeyDefinition, 'id' | 'description' | 'isActive'>> = [
+  { key: 'project_name', label: 'Project name', section: S.PROJECT_OVERVIEW, valueKind: null, unit: null, synonyms: ['name', 'project_title', 'plant_name'] },
+  { key: 'project_location', label: 'Project location', section: S.PROJECT_OVERVIEW, valueKind: null, unit: null, synonyms: ['location', 'site_location', 'site_address', 'region'] },
+  { key: 'site_area', label: 'Site area', section: S.PROJECT_OVERVIEW, valueKind: 'number', unit: 'ha', synonyms: ['land_area', 'site_size', 'area', 'footprint'] },
+  { key: 'technology', label: 'Technology', section: S.PROJECT_OVERVIEW, valueKind: 'enum', unit: null, synonyms: ['technology_type', 'project_type', 'generation_technology'] },
+  { key: 'project_owner', label: 'Project owner', section: S.PROJECT_OVERVIEW, valueKind: null, unit: null, synonyms: ['owner', 'developer', 'sponsor', 'project_developer', 'spv'] },
+  { key: 'dc_capacity', label: 'DC capacity', section: S.TECHNICAL_DESIGN, valueKind: 'power', unit: 'MWp', synonyms: ['capacity_dc', 'installed_capacity', 'peak_capacity', 'nameplate_capacity', 'pv_capacity', 'dc_power'] },
+  { key: 'ac_capacity', label: 'AC capacity', section: S.TECHNICAL_DESIGN, valueKind: 'power', unit: 'MWac', synonyms: ['capacity_ac', 'inverter_capacity', 'ac_power', 'rated_ac_power'] },
+  { key: 'dc_ac_ratio', label: 'DC/AC ratio', section: S.TECHNICAL_DESIGN, valueKind: 'number', unit: null, synonyms: ['ilr', 'inverter_loading_ratio', 'dc_to_ac_ratio'] },
+  { key: 'bess_power', label: 'Battery power', section: S.TECHNICAL_DESIGN, valueKind: 'power', unit: 'MW', synonyms: ['battery_power', 'storage_power', 'bess_capacity_mw'] },
+  { key: 'bess_energy', label: 'Battery energy capacity', section: S.TECHNICAL_DESIGN, valueKind: 'energy', unit: 'MWh', synonyms: ['battery_capacity', 'storage_capacity', 'battery_energy', 'bess_capacity_mwh'] },
+  { key: 'annual_energy_yield', label: 'Annual energy yield (P50)', section: S.TECHNICAL_DESIGN, valueKind: 'energy', unit: 'MWh/yr', synonyms: ['annual_generation', 'energy_yield', 'p50_yield', 'annual_production', 'annual_energy_production', 'net_energy_yield'] },
+  { key: 'specific_yield', label: 'Specific yield', section: S.TECHNICAL_DESIGN, valueKind: 'number', unit: 'kWh/kWp', synonyms: ['specific_production', 'specific_energy_yield'] },
+  { key: 'performance_ratio', label: 'Performance ratio', section: S.TECHNICAL_DESIGN, valueKind: 'percentage', unit: '%', synonyms: ['pr'] },
+  { key: 'capacity_factor', label: 'Capacity factor', section: S.TECHNICAL_DESIGN, valueKind: 'percentage', unit: '%', synonyms: ['load_factor', 'net_capacity_factor'] },
+  { key: 'module_type', label: 'PV module', section: S.TECHNICAL_DESIGN, valueKind: null, unit: null, synonyms: ['pv_module', 'module_model', 'panel_type', 'module_manufacturer', 'module_technology'] },
+  { key: 'inverter_type', label: 'Inverter', section: S.TECHNICAL_DESIGN, valueKind: null, unit: null, synonyms: ['inverter_model', 'inverter_manufacturer', 'inverters'] },
+  { key: 'mounting_system', label: 'Mounting system', section: S.TECHNICAL_DESIGN, valueKind: 'enum', unit: null, synonyms: ['tracking_type', 'tracker_type', 'mounting_structure', 'racking'] },
+  { key: 'degradation_rate', label: 'Annual degradation', section: S.ENGINEERING_ASSUMPTIONS, valueKind: 'percentage', unit: '%/yr', synonyms: ['annual_degradation', 'module_degradation'] },
+  { key: 'grid_export_capacity', label: 'Grid export capacity', section: S.DEPENDENCIES, valueKind: 'power', unit: 'MW', synonyms: ['export_capacity', 'export_limit', 'connection_capacity', 'maximum_export_capacity', 'mec'] },
+  { key: 'connection_voltage', label: 'Connection voltage', section: S.DEPENDENCIES, valueKind: 'voltage', unit: 'kV', synonyms: ['grid_voltage', 'interconnection_voltage', 'poi_voltage', 'voltage_level'] },
+  { key: 'grid_connection_point', label: 'Grid connection point', section: S.DEPENDENCIES, valueKind: null, unit: null, synonyms: ['point_of_connection', 'poi', 'connection_point', 'substation'] },
+  { key: 'grid_connection_date', label: 'Grid connection date', section: S.DEPENDENCIES, valueKind: 'date', unit: null, synonyms: ['connection_date', 'energisation_date', 'energization_date'] },
+  { key: 'construction_start', label: 'Construction start', section: S.DEPENDENCIES, valueKind: 'date', unit: null, synonyms: ['construction_start_date', 'ntp_date', 'notice_to_proceed'] },
+  { key: 'cod', label: 'Commercial operation date', section: S.DEPENDENCIES, valueKind: 'date', unit: null, synonyms: ['commercial_operation_date', 'cod_date', 'target_cod', 'commissioning_date'] },
+  { key: 'planning_status', label: 'Planning / permit status', section: S.DEPENDENCIES, valueKind: null, unit: null, synonyms: ['permit_status', 'planning_permit', 'development_approval', 'consent_status'] },
+  { key: 'land_lease_term', label: 'Land lease term', section: S.DEPENDENCIES, valueKind: 'number', unit: 'years', synonyms: ['lease_term', 'lease_duration', 'land_lease_duration'] },
+  { key: 'financial_close_date', label: 'Financial close', section: S.FINANCIAL_STRUCTURE, valueKind: 'date', unit: null, synonyms: ['financial_close', 'fc_date'] },
+  { key: 'total_capex', label: 'Total capex', section: S.FINANCIAL_STRUCTURE, valueKind: 'currency', unit: null, synonyms: ['capex', 'capital_cost', 'project_cost', 'investment_cost', 'total_investment'] },
+  { key: 'epc_price', label: 'EPC price', section: S.FINANCIAL_STRUCTURE, valueKind: 'currency', unit: null, synonyms: ['epc_cost', 'epc_contract_price', 'epc_contract_value'] },
+  { key: 'annual_opex', label: 'Annual opex', section: S.FINANCIAL_STRUCTURE, valueKind: 'currency', unit: null, synonyms: ['opex', 'operating_cost', 'om_cost', 'o_and_m_cost'] },
+  { key: 'ppa_price', label: 'PPA price', section: S.FINANCIAL_STRUCTURE, valueKind: 'currency', unit: 'per MWh', synonyms: ['tariff', 'ppa_tariff', 'offtake_price', 'energy_price'] },
+  { key: 'ppa_term', label: 'PPA term', section: S.FINANCIAL_STRUCTURE, valueKind: 'number', unit: 'years', synonyms: ['ppa_tenor', 'ppa_duration', 'offtake_term', 'contract_term'] },
+  { key: 'offtaker', label: 'Offtaker', section: S.FINANCIAL_STRUCTURE, valueKind: null, unit: null, synonyms: ['off_taker', 'ppa_counterparty', 'power_purchaser', 'buyer'] },
+  { key: 'equity_irr', label: 'Equity IRR', section: S.FINANCIAL_STRUCTURE, valueKind: 'percentage', unit: '%', synonyms: ['equity_return', 'levered_irr'] },
+  { key: 'project_irr', label: 'Project IRR', section: S.FINANCIAL_STRUCTURE, valueKind: 'percentage', unit: '%', synonyms: ['unlevered_irr', 'irr'] },
+  { key: 'gearing', label: 'Gearing', section: S.FINANCIAL_STRUCTURE, valueKind: 'percentage', unit: '%', synonyms: ['debt_ratio', 'leverage', 'debt_share'] },
+];
+
+export const BUILT_IN_FACT_KEYS: FactKeyDefinition[] = DEFAULT_FACT_KEYS.map(key => ({ ...key, id: null, description: null, isActive: true }));
+
+let seeded = false;
+
+/**
+ * Insert the built-in ontology into an empty table
+ */
+async function ensureDefaultFactKeys(db: any): Promise<void> {
+  if (seeded) return;
+
+  const existing = await db.select({ id: factKeys.id }).from(factKeys).limit(1);
+  if (existing.length === 0) {
+    await db.insert(factKeys).values(DEFAULT_FACT_KEYS.map(key => ({ ...key })));
+    console.log(`[Fact Keys] Seeded ${DEFAULT_FACT_KEYS.length} canonical fact keys`);
+  }
+  seeded = true;
+}
+
+/**
+ * Canonical keys by section and label; the built-in ontology when the main
+ * database is unavailable
+ */
+export async function listFactKeys(includeInactive: boolean = false): Promise<FactKeyDefinition[]> {
+  let keys: FactKeyDefinition[];
+  try {
+    const db = await getDb();
+    await ensureDefaultFactKeys(db);
+    const rows = await db.select().from(factKeys).orderBy(asc(factKeys.section), asc(factKeys.label));
+    keys = rows.map(toDefinition);
+  } catch (error) {
+    console.error('[Fact Keys] Failed to load the fact key ontology, using built-in keys:', error);
+    keys = BUILT_IN_FACT_KEYS;
+  }
+  return includeInactive ? keys : keys.filter(key => key.isActive);
+}
+
+/**
+ * Create or update a canonical key (matched by key). Unmapped names that the
+ * new key or synonyms now match are mapped straight away.
+ */
+export async function saveFactKey(input: {
+  key: string;
+  label: string;
+  section: string;
+  valueKind?: ValueKind | null;
+  unit?: string | null;
+  synonyms?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}): Promise<void> {
+  const key = normalizeKeyName(input.key).substring(0, 100);
+  if (!key) throw new Error('Fact key is required');
+  if (!getCanonicalSections().includes(input.section)) throw new Error(`Unknown section ${input.section}`);
+
+  const db = await getDb();
+  await ensureDefaultFactKeys(db);
+  const values = {
+    label: input.label.trim(),
+    section: input.section,
+    valueKind: input.valueKind ?? null,
+    unit: input.unit?.trim() || null,
+    synonyms: Array.from(new Set((input.synonyms ?? []).map(normalizeKeyName).filter(s => s && s !== key))),
+    description: input.description?.trim() || null,
+    isActive: input.isActive === false ? 0 : 1,
+  };
+
+  const existing = await db.select({ id: factKeys.id }).from(factKeys).where(eq(factKeys.key, key)).limit(1);
+  if (existing.length > 0) {
+    await db.update(factKeys).set(values).where(eq(factKeys.id, existing[0].id));
+  } else {
+    await db.insert(factKeys).values({ key, ...values });
+  }
+  console.log(`[Fact Keys] Saved canonical key ${key}`);
+
+  await remapUnmappedKeys();
+}
+
+/**
+ * Recorded key names: unmapped first, then by how often they were seen
+ */
+export async function listKeyMappings(): Promise<FactKeyMapping[]> {
+  const db = await getDb();
+  const rows = await db.select().from(factKeyMappings).orderBy(asc(factKeyMappings.rawKey));
+  const order: Record<FactKeyMappingStatus, number> = { unmapped: 0, mapped: 1, ignored: 2 };
+  return rows
+    .map(toMapping)
+    .sort((a: FactKeyMapping, b: FactKeyMapping) => order[a.status] - order[b.status] || b.occurrences - a.occurrences);
+}
+
+/**
+ * Admin decision for a key name: map it onto a canonical key, or ignore it
+ * (canonicalKey null). Applies to facts from the next reconciliation.
+ */
+export async function saveKeyMapping(rawKey: string, canonicalKey: string | null): Promise<void> {
+  const name = normalizeKeyName(rawKey);
+  if (!name) throw new Error('Key name is required');
+
+  const db = await getDb();
+  if (canonicalKey) {
+    const target = await db.select({ id: factKeys.id }).from(factKeys).where(eq(factKeys.key, canonicalKey)).limit(1);
+    if (target.length === 0) throw new Error(`Unknown canonical key ${canonicalKey}`);
+  }
+
+  const values = {
+    canonicalKey,
+    method: 'manual' as const,
+    status: canonicalKey ? 'mapped' as const : 'ignored' as const,
+    score: null,
+  };
+  const existing = await db.select({ id: factKeyMappings.id }).from(factKeyMappings).where(eq(factKeyMappings.rawKey, name)).limit(1);
+  if (existing.length > 0) {
+    await db.update(factKeyMappings).set(values).where(eq(factKeyMappings.id, existing[0].id));
+  } else {
+    await db.insert(factKeyMappings).values({ rawKey: name, ...values });
+  }
+  console.log(`[Fact Keys] ${name} ${canonicalKey ? `mapped to ${canonicalKey}` : 'ignored'} by an admin`);
+}
+
+/**
+ * Exact and fuzzy matcher over the active canonical keys and the recorded
+ * decisions. Null when a name matches nothing (and has no decision).
+ */
+export function createKeyMatcher(keys: FactKeyDefinition[], mappings: FactKeyMapping[] = []): (rawKey: string) => KeyMatch | null {
+  const active = keys.filter(key => key.isActive);
+  const exact = new Map<string, string>();
+  const candidates: Array<{ key: FactKeyDefinition; tokens: string[] }> = [];
+  for (const key of active) {
+    for (const name of [key.key, ...key.synonyms.map(normalizeKeyName)]) {
+      if (!exact.has(name)) exact.set(name, key.key);
+      candidates.push({ key, tokens: keyTokens(name) });
+    }
+  }
+  const activeKeys = new Set(active.map(key => key.key));
+  const decisions = new Map(mappings.map(mapping => [mapping.rawKey, mapping]));
+
+  return (rawKey: string) => {
+    const name = normalizeKeyName(rawKey);
+    if (!name) return null;
+
+    const decision = decisions.get(name);
+    if (decision?.method === 'manual' && (decision.status === 'ignored' || activeKeys.has(decision.canonicalKey!))) {
+      return { canonicalKey: decision.canonicalKey, method: 'manual', status: decision.status, score: null };
+    }
+
+    const exactKey = exact.get(name);
+    if (exactKey) return { canonicalKey: exactKey, method: 'exact', status: 'mapped', score: 1 };
+
+    if (decision?.status === 'mapped' && activeKeys.has(decision.canonicalKey!)) {
+      return { canonicalKey: decision.canonicalKey, method: decision.method, status: 'mapped', score: decision.score };
+    }
+
+    // Best fuzzy match among the keys the name's units fit, unless two
+    // different keys match equally well
+    const tokens = keyTokens(name);
+    let best: { key: string; score: number } | null = null;
+    let tied = false;
+    for (const candidate of candidates) {
+      if (!unitsFit(name, candidate.key)) continue;
+      const score = tokenSimilarity(tokens, candidate.tokens);
+      if (!best || score > best.score) {
+        best = { key: candidate.key.key, score };
+        tied = false;
+      } else if (score === best.score && candidate.key.key !== best.key) {
+        tied = true;
+      }
+    }
+    if (best && best.score >= FUZZY_THRESHOLD && !tied) {
+      return { canonicalKey: best.key, method: 'fuzzy', status: 'mapped', score: Math.round(best.score * 100) / 100 };
+    }
+    return null;
+  };
+}
+
+/**
+ * Exact and fuzzy matcher over the current ontology and decisions (no LLM);
+ * the built-in ontology when the main database is unavailable
+ */
+export async function loadKeyMatcher(): Promise<{ match: (rawKey: string) => KeyMatch | null; keys: FactKeyDefinition[] }> {
+  const keys = await listFactKeys();
+  let mappings: FactKeyMapping[] = [];
+  try {
+    mappings = await listKeyMappings();
+  } catch (error) {
+    console.error('[Fact Keys] Failed to load key mappings:', error);
+  }
+  return { match: createKeyMatcher(keys, mappings), keys };
+}
+
+/**
+ * Canonical keys for the key names of newly extracted facts, by normalised
+ * name. Names matched neither exactly nor fuzzily and never seen before are
+ * sent to the LLM; every name that is not an exact match is recorded.
+ */
+export async function mapFactKeys(facts: Array<{ rawKey: string; value: string }>): Promise<Map<string, FactKeyDefinition | null>> {
+  const result = new Map<string, FactKeyDefinition | null>();
+  const seen = new Map<string, { count: number; example: string }>();
+  for (const fact of facts) {
+    const name = normalizeKeyName(fact.rawKey);
+    if (!name) continue;
+    const entry = seen.get(name);
+    if (entry) entry.count++;
+    else seen.set(name, { count: 1, example: fact.value });
+  }
+  if (seen.size === 0) return result;
+
+  const keys = await listFactKeys();
+  let mappings: FactKeyMapping[] | null = null;
+  try {
+    mappings = await listKeyMappings();
+  } catch (error) {
+    console.error('[Fact Keys] Failed to load key mappings, names will not be recorded:', error);
+  }
+  const match = createKeyMatcher(keys, mappings ?? []);
+  const known = new Set((mappings ?? []).map(mapping => mapping.rawKey));
+
+  const matches = new Map<string, KeyMatch | null>();
+  Array.from(seen.keys()).forEach(name => matches.set(name, match(name)));
+
+  // Only names that were never recorded: an unmapped name is not asked again
+  // (nor any name while the answers can't be recorded)
+  const unresolved = mappings ? Array.from(seen.keys()).filter(name => !matches.get(name) && !known.has(name)) : [];
+  if (unresolved.length > 0) {
+    const llmMatches = await suggestKeysWithLlm(unresolved.map(name => ({ name, example: seen.get(name)!.example })), keys);
+    llmMatches.forEach((llmMatch, name) => matches.set(name, llmMatch));
+  }
+
+  const keysByName = new Map(keys.map(key => [key.key, key]));
+  matches.forEach((keyMatch, name) => {
+    result.set(name, keyMatch?.canonicalKey ? keysByName.get(keyMatch.canonicalKey) ?? null : null);
+  });
+
+  if (mappings) {
+    try {
+      await recordKeyNames(seen, matches);
+    } catch (error) {
+      console.error('[Fact Keys] Failed to record key names:', error);
+    }
+  }
+
+  const mapped = Array.from(result.values()).filter(Boolean).length;
+  console.log(`[Fact Keys] Mapped ${mapped} of ${result.size} key names onto canonical keys`);
+  return result;
+}
+
+/**
+ * Upper-case free text to a snake_case key name ("DC Capacity (MWp)" ->
+ * "dc_capacity_mwp", "capacityDC" -> "capacity_dc")
+ */
+export function normalizeKeyName(raw: string): string {
+  return raw
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .substring(0, 150);
+}
+
+/**
+ * Words of a key name without units and filler words, singular
+ */
+export function keyTokens(name: string): string[] {
+  const all = normalizeKeyName(name).split('_').filter(Boolean);
+  const meaningful = all.filter(token => !UNIT_KINDS.has(token) && !FILLER_TOKENS.has(token));
+  return (meaningful.length > 0 ? meaningful : all).map(stem);
+}
+
+/**
+ * Whether the units in a key name fit a canonical key: the kind of value they
+ * imply is the key's, and an AC or DC unit does not contradict the key's unit
+ */
+export function unitsFit(name: string, key: FactKeyDefinition): boolean {
+  const keyUnit = (key.unit ?? '').toLowerCase();
+  return normalizeKeyName(name).split('_').every(token => {
+    const kind = UNIT_KINDS.get(token);
+    if (!kind) return true;
+    if (kind !== key.valueKind) return false;
+    if (AC_UNITS.has(token)) return !/(p|dc)$/.test(keyUnit);
+    if (DC_UNITS.has(token)) return !/ac$/.test(keyUnit);
+    return true;
+  });
+}
+
+/**
+ * Shared words of two key names (Dice coefficient); words of five letters or
+ * more match with one typo
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = [...b];
+  let shared = 0;
+  for (const token of a) {
+    const index = remaining.findIndex(other => other === token || (token.length >= 5 && other.length >= 5 && editDistance(token, other) <= 1));
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+/**
+ * Canonical keys suggested by the LLM for names the matcher could not map.
+ * Names the LLM cannot place, places with low confidence or places on a key
+ * their units do not fit, stay unmapped.
+ */
+async function suggestKeysWithLlm(
+  names: Array<{ name: string; example: string }>,
+  keys: FactKeyDefinition[]
+): Promise<Map<string, KeyMatch>> {
+  const result = new Map<string, KeyMatch>();
+  const keysByName = new Map(keys.map(key => [key.key, key]));
+  const canonicalKeys = keys.map(key => {
+    const kind = [key.valueKind ?? 'text', key.unit].filter(Boolean).join(', ');
+    const synonyms = key.synonyms.length > 0 ? `; synonyms: ${key.synonyms.join(', ')}` : '';
+    return `- ${key.key}: ${key.label} (${key.section}, ${kind}${synonyms})`;
+  }).join('\n');
+
+  try {
+    const template = await getActiveTemplate('fact_key_mapping');
+    for (let start = 0; start < names.length; start += LLM_BATCH_SIZE) {
+      const batch = names.slice(start, start + LLM_BATCH_SIZE);
+      const variables = {
+        canonical_keys: canonicalKeys,
+        raw_keys: batch.map(({ name, example }) => `- ${name}: "${example.substring(0, 200)}"`).join('\n'),
+      };
+      const output = await invokeStructured({
+        stage: 'classification',
+        messages: [
+          { role: 'system', content: renderTemplate(template.systemPrompt, variables) },
+          { role: 'user', content: renderTemplate(template.body, variables) },
+        ],
+        response_format: { type: 'json_object' },
+      }, factKeyMappingSchema, { label: `${formatVersionTag('fact_key_mapping', template.version)} (${batch.length} keys)` });
+
+      const asked = new Set(batch.map(({ name }) => name));
+      for (const suggestion of output.mappings) {
+        const name = normalizeKeyName(suggestion.raw_key);
+        if (!asked.has(name)) continue;
+        const target = suggestion.canonical_key ? keysByName.get(suggestion.canonical_key) : undefined;
+        const canonicalKey = target && unitsFit(name, target) ? target.key : null;
+        const accepted = canonicalKey !== null && suggestion.confidence >= LLM_MIN_CONFIDENCE;
+        result.set(name, {
+          canonicalKey: accepted ? canonicalKey : null,
+          method: 'llm',
+          status: accepted ? 'mapped' : 'unmapped',
+          score: suggestion.confidence,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('[Fact Keys] LLM key mapping failed, names stay unmapped:', error);
+  }
+  return result;
+}
+
+/**
+ * Count the names seen in a batch of facts; new names get their match (or
+ * stay unmapped for review)
+ */
+async function recordKeyNames(
+  seen: Map<string, { count: number; example: string }>,
+  matches: Map<string, KeyMatch | null>
+): Promise<void> {
+  const db = await getDb();
+  for (const [name, { count, example }] of Array.from(seen)) {
+    const keyMatch = matches.get(name) ?? null;
+    if (keyMatch?.method === 'exact') continue;
+
+    // Recorded names (also by a job running at the same time) keep their mapping and only count up
+    await db.insert(factKeyMappings).values({
+      rawKey: name,
+      canonicalKey: keyMatch?.canonicalKey ?? null,
+      method: keyMatch?.method ?? 'none',
+      status: keyMatch?.status ?? 'unmapped',
+      score: keyMatch?.score ?? null,
+      occurrences: count,
+      exampleValue: example.substring(0, 500),
+    }).onDuplicateKeyUpdate({
+      set: { occurrences: sql`${factKeyMappings.occurrences} + ${count}`, lastSeenAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Map recorded unmapped names that the ontology now matches
+ */
+async function remapUnmappedKeys(): Promise<void> {
+  const db = await getDb();
+  const keys = await listFactKeys();
+  const mappings = await listKeyMappings();
+  const match = createKeyMatcher(keys);
+
+  let remapped = 0;
+  for (const mapping of mappings.filter(m => m.status === 'unmapped')) {
+    const keyMatch = match(mapping.rawKey);
+    if (!keyMatch) continue;
+    await db.update(factKeyMappings)
+      .set({ canonicalKey: keyMatch.canonicalKey, method: keyMatch.method, status: 'mapped', score: keyMatch.score })
+      .where(eq(factKeyMappings.id, mapping.id));
+    remapped++;
+  }
+  if (remapped > 0) console.log(`[Fact Keys] Mapped ${remapped} previously unmapped key names`);
+}
+
+function toDefinition(row: any): FactKeyDefinition {
+  const synonyms = typeof row.synonyms === 'string' ? JSON.parse(row.synonyms) : row.synonyms || [];
+  return {
+    id: row.id,
+    key: row.key,
+    label: row.label,
+    section: row.section,
+    valueKind: row.valueKind as ValueKind | null,
+    unit: row.unit,
+    synonyms,
+    description: row.description,
+    isActive: row.isActive === 1,
+  };
+}
+
+function toMapping(row: any): FactKeyMapping {
+  return {
+    id: row.id,
+    rawKey: row.rawKey,
+    canonicalKey: row.canonicalKey,
+    method: row.method as FactKeyMethod,
+    status: row.status as FactKeyMappingStatus,
+    score: row.score === null ? null : Number(row.score),
+    occurrences: row.occurrences,
+    exampleValue: row.exampleValue,
+    lastSeenAt: new Date(row.lastSeenAt).toISOString(),
+  };
+}
+
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { locateFactSource, formatSourceLocation } from './fact-provenance';
+
+const pages = [
+  { pageNumber: 1, text: 'Project Overview\nThe project is located near Duqm.', wordCount: 7 },
+  { pageNumber: 2, text: 'The plant has a DC capacity of 300   MWp. Grid connection is at 132 kV.', wordCount: 14 },
+];
+
+describe('Fact Provenance', () => {
+  it('should locate a quote ignoring case and whitespace', () => {
+    const result = locateFactSource(['dc capacity of 300 MWp'], pages);
+    expect(result?.pageNumber).toBe(2);
+    expect(result?.matchType).toBe('exact');
+    expect(pages[1].text.substring(result!.charStart, result!.charEnd)).toBe(result!.snippet);
+  });
+
+  it('should widen short matches to the surrounding sentence', () => {
+    const result = locateFactSource(['132 kV'], pages);
+    expect(result?.snippet).toBe('Grid connection is at 132 kV.');
+    expect(formatSourceLocation(result!)).toMatch(/^Page 2, chars \d+-\d+$/);
+  });
+
+  it('should fall back to numeric matching for paraphrased values', () => {
+    const result = locateFactSource(['Solar plant of 300 MWp DC'], pages);
+    expect(result?.pageNumber).toBe(2);
+    expect(result?.matchType).toBe('numeric');
+  });
+
+  it('should return null when the value is not in the document', () => {
+    expect(locateFactSource(['450 MW'], pages)).toBeNull();
+  });
+
+  it('should only match whole numbers and words', () => {
+    const expansion = [{ pageNumber: 3, text: 'Phase 2 adds 130 MW of capacity.', wordCount: 6 }];
+    expect(locateFactSource(['30 MW'], expansion)).toBeNull();
+    expect(locateFactSource(['adds 30 MW'], expansion)).toBeNull();
+    expect(locateFactSource(['130 MW'], expansion)?.snippet).toBe('Phase 2 adds 130 MW of capacity.');
+
+    // "30" is not found in "300 MWp" by the numeric fallback either
+    expect(locateFactSource(['Solar plant of 30 MWp DC'], pages)).toBeNull();
+  });
+});
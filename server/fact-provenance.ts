@@ -0,0 +1,187 @@
+/**
+ * Fact Provenance Locator
+ *
+ * Finds where an extracted fact came from: the page number and the verbatim
+ * supporting snippet, with character offsets into that page's text
+ * (the text stored in document_pages).
+ *
+ * Matching strategy:
+ * 1. Supporting quote / value, ignoring case and whitespace differences
+ * 2. All numbers in the value appearing on the same page
+ * Both match whole words and numbers only: "30 MW" is not found in "130 MW".
+ */
+
+import type { PdfPage } from './pdf-extractor';
+
+export interface FactProvenance {
+  pageNumber: number | null; // null when the document has no page structure
+  snippet: string;           // verbatim text, === pageText.substring(charStart, charEnd)
+  charStart: number;
+  charEnd: number;
+  matchType: 'exact' | 'numeric' | 'cell';
+  cellRef?: string;          // spreadsheet cell the value was read from, e.g. Inputs!C5
+}
+
+// Matches shorter than this are widened to the surrounding sentence
+const MIN_SNIPPET_LENGTH = 40;
+const MAX_CONTEXT_CHARS = 160;
+
+/**
+ * Locate the supporting text for a fact. Tries the supporting quote first,
+ * then the fact value.
+ */
+export function locateFactSource(
+  candidates: Array<string | undefined | null>,
+  pages: PdfPage[]
+): FactProvenance | null {
+  const needles = candidates
+    .filter((c): c is string => typeof c === 'string' && c.trim().length > 0)
+    .map(c => c.trim());
+
+  for (const needle of needles) {
+    for (const page of pages) {
+      const span = findNormalized(page, needle);
+      if (span) {
+        return buildProvenance(page, span.start, span.end, 'exact');
+      }
+    }
+  }
+
+  // Numeric fallback: page containing every number of the value/quote
+  for (const needle of needles) {
+    const numbers = needle.match(/\d+(?:[.,]\d+)*/g);
+    if (!numbers || numbers.length === 0) continue;
+
+    for (const page of pages) {
+      const positions = numbers.map(n => indexOfToken(page.text, n));
+      if (positions.every(position => position >= 0)) {
+        return buildProvenance(page, positions[0], positions[0] + numbers[0].length, 'numeric');
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable location stored in extracted_facts.source_location
+ */
+export function formatSourceLocation(provenance: FactProvenance): string {
+  if (provenance.cellRef) return provenance.cellRef;
+  const chars = `chars ${provenance.charStart}-${provenance.charEnd}`;
+  return provenance.pageNumber !== null
+    ? `Page ${provenance.pageNumber}, ${chars}`
+    : `Document text, ${chars}`;
+}
+
+function buildProvenance(
+  page: PdfPage,
+  start: number,
+  end: number,
+  matchType: FactProvenance['matchType']
+): FactProvenance {
+  let charStart = start;
+  let charEnd = end;
+
+  // Widen short matches ("100 MW") to the sentence they appear in
+  if (charEnd - charStart < MIN_SNIPPET_LENGTH) {
+    const text = page.text;
+    const lowerBound = Math.max(0, charStart - MAX_CONTEXT_CHARS);
+    const upperBound = Math.min(text.length, charEnd + MAX_CONTEXT_CHARS);
+
+    let s = charStart;
+    while (s > lowerBound && !/[.!?\n]/.test(text[s - 1])) s--;
+    let e = charEnd;
+    while (e < upperBound && !/[.!?\n]/.test(text[e])) e++;
+    if (e < text.length && /[.!?]/.test(text[e])) e++;
+
+    // Trim surrounding whitespace without losing the offset mapping
+    while (s < charStart && /\s/.test(text[s])) s++;
+    while (e > charEnd && /\s/.test(text[e - 1])) e--;
+
+    charStart = s;
+    charEnd = e;
+  }
+
+  return {
+    pageNumber: page.pageNumber > 0 ? page.pageNumber : null,
+    snippet: page.text.substring(charStart, charEnd),
+    charStart,
+    charEnd,
+    matchType,
+  };
+}
+
+/**
+ * Case- and whitespace-insensitive search returning offsets in the original text
+ */
+function findNormalized(page: PdfPage, needle: string): { start: number; end: number } | null {
+  const normalizedNeedle = needle.toLowerCase().replace(/\s+/g, ' ');
+  if (normalizedNeedle.length === 0) return null;
+
+  const { normalized, offsets } = normalizePage(page);
+  const index = indexOfToken(normalized, normalizedNeedle);
+  if (index < 0) return null;
+
+  const lastIndex = index + normalizedNeedle.length - 1;
+  return { start: offsets[index], end: offsets[lastIndex] + 1 };
+}
+
+/**
+ * First occurrence of the needle that does not start or end inside a word or
+ * number
+ */
+function indexOfToken(text: string, needle: string): number {
+  for (let index = text.indexOf(needle); index >= 0; index = text.indexOf(needle, index + 1)) {
+    const end = index + needle.length;
+    const startsInside = isWordChar(needle[0]) && continuesToken(text, index - 1, -1);
+    const endsInside = isWordChar(needle[needle.length - 1]) && continuesToken(text, end, 1);
+    if (!startsInside && !endsInside) return index;
+  }
+  return -1;
+}
+
+// Letters and digits continue a token, as do separators inside a number ("1.30", "1,300")
+function continuesToken(text: string, index: number, step: 1 | -1): boolean {
+  const ch = text[index];
+  if (ch === undefined) return false;
+  if (isWordChar(ch)) return true;
+  return (ch === '.' || ch === ',') && /\d/.test(text[index + step] ?? '');
+}
+
+function isWordChar(ch: string): boolean {
+  return /[a-z0-9]/i.test(ch);
+}
+
+// Pages are searched once per fact, so normalize each page only once
+const normalizedPages = new WeakMap<PdfPage, { normalized: string; offsets: number[] }>();
+
+/**
+ * Lowercase and collapse whitespace, keeping a map back to original offsets
+ */
+function normalizePage(page: PdfPage): { normalized: string; offsets: number[] } {
+  const cached = normalizedPages.get(page);
+  if (cached) return cached;
+
+  const text = page.text;
+  let normalized = '';
+  const offsets: number[] = [];
+  let previousWasSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      if (previousWasSpace) continue;
+      normalized += ' ';
+      previousWasSpace = true;
+    } else {
+      const lower = ch.toLowerCase();
+      normalized += lower.length === 1 ? lower : ch;
+      previousWasSpace = false;
+    }
+    offsets.push(i);
+  }
+
+  const result = { normalized, offsets };
+  normalizedPages.set(page, result);
+  return result;
+}
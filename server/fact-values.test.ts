@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareTypedValues,
+  formatTypedValue,
+  matchesValueFilter,
+  parseTypedValue,
+  parseValueFilter,
+  toUnitValue,
+} from '../shared/units';
+import { readTypedValue, typedValueColumns } from './fact-values';
+import { normalizeFieldUnits } from './performance-financial-extractor';
+
+describe('Typed Fact Values', () => {
+  it('should parse quantities, amounts, percentages and dates into canonical units', () => {
+    expect(parseTypedValue('62.5 MWp DC')).toEqual({ type: 'quantity', value: 62.5, unit: 'MW', dimension: 'power', qualifier: 'dc' });
+    expect(parseTypedValue('Annual yield of 1.2 GWh')).toMatchObject({ type: 'quantity', value: 1200, unit: 'MWh' });
+    expect(parseTypedValue('USD 52.6 million')).toEqual({ type: 'currency', value: 52600000, unit: 'USD' });
+    expect(parseTypedValue('0.5%')).toEqual({ type: 'percentage', value: 0.5, unit: '%' });
+    expect(parseTypedValue('COD expected in March 2027')).toEqual({ type: 'date', value: '2027-03-01', precision: 'month' });
+    expect(parseTypedValue('Single-axis tracker')).toMatchObject({ type: 'enum', vocabulary: 'tracking_type' });
+    expect(parseTypedValue('Grid connection agreement signed')).toBeNull();
+  });
+
+  it('should compare values across units and date precisions', () => {
+    const a = parseTypedValue('300 MW')!;
+    expect(compareTypedValues(a, parseTypedValue('0.3 GW')!)).toBe('equal');
+    expect(compareTypedValues(a, parseTypedValue('250 MW')!)).toBe('different');
+    expect(compareTypedValues(a, parseTypedValue('300 MWh')!)).toBe('incomparable');
+    expect(compareTypedValues(parseTypedValue('March 2027')!, parseTypedValue('2027-03-15')!)).toBe('equal');
+    expect(compareTypedValues(parseTypedValue('Q1 2027')!, parseTypedValue('2027-06-30')!)).toBe('different');
+  });
+
+  it('should filter typed values with comparison searches', () => {
+    const filter = parseValueFilter('>= 100 MW')!;
+    expect(matchesValueFilter(parseTypedValue('0.15 GW'), filter)).toBe(true);
+    expect(matchesValueFilter(parseTypedValue('62.5 MW'), filter)).toBe(false);
+    expect(matchesValueFilter(parseTypedValue('USD 200 million'), filter)).toBe(false);
+    expect(matchesValueFilter(parseTypedValue('June 2027'), parseValueFilter('< 2028')!)).toBe(true);
+    expect(parseValueFilter('solar tracker')).toBeNull();
+  });
+
+  it('should store and read typed columns, parsing legacy rows', () => {
+    const columns = typedValueColumns(parseTypedValue('62.5 MW'));
+    expect(columns).toMatchObject({ data_type: 'quantity', value_numeric: 62.5, value_unit: 'MW', value_date: null });
+    expect(readTypedValue({ value: '62.5 MW', ...columns })).toMatchObject({ value: 62.5, unit: 'MW' });
+    expect(typedValueColumns(null).data_type).toBe('text');
+    expect(readTypedValue({ value: 'Fixed tilt', data_type: 'text', typed_value: null })).toBeNull();
+    expect(readTypedValue({ value: '2.5 kW' })).toMatchObject({ value: 0.0025, unit: 'MW' });
+    expect(formatTypedValue(parseTypedValue('2.5 kW')!)).toBe('2.5 kW');
+  });
+
+  it('should convert LLM field values to the unit in the field name', () => {
+    expect(toUnitValue('150,000 kW', 'MW')).toBe(150);
+    expect(toUnitValue('USD 52.6m', 'USD')).toBe(52600000);
+    expect(toUnitValue('EUR 10m', 'USD')).toBeNull();
+    expect(normalizeFieldUnits({ dc_capacity_mw: '62,500 kW', degradation_rate_percent: '0.4%', notes: 'n/a' }))
+      .toEqual({ dc_capacity_mw: '62.5', degradation_rate_percent: '0.4', notes: 'n/a' });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Typed fact value storage
+ *
+ * extracted_facts keeps the original text in `value` and the typed value
+ * (shared/units.ts) alongside it:
+ * - data_type: quantity | percentage | currency | date | enum | number | text
+ * - value_numeric / value_unit: number in the canonical unit (MW, MWh, kV, %, ISO currency)
+ * - value_date: first day of the date's period
+ * - typed_value: the full typed value as JSON
+ */
+
+import { parseTypedValue, type TypedValue } from '../shared/units';
+
+export interface TypedValueColumns {
+  data_type: string;
+  value_numeric: number | null;
+  value_unit: string | null;
+  value_date: string | null;
+  typed_value: string | null;
+}
+
+export function typedValueColumns(typed: TypedValue | null | undefined): TypedValueColumns {
+  if (!typed) {
+    return { data_type: 'text', value_numeric: null, value_unit: null, value_date: null, typed_value: null };
+  }
+  return {
+    data_type: typed.type,
+    value_numeric: typeof typed.value === 'number' ? typed.value : null,
+    value_unit: 'unit' in typed ? typed.unit : 'vocabulary' in typed ? typed.vocabulary : null,
+    value_date: typed.type === 'date' ? typed.value : null,
+    typed_value: JSON.stringify(typed),
+  };
+}
+
+/**
+ * Typed value of a stored fact. Facts stored before typed values existed
+ * (no data_type) are parsed from their text.
+ */
+export function readTypedValue(row: { value: string; data_type?: string | null; typed_value?: unknown }): TypedValue | null {
+  if (row.typed_value) {
+    return (typeof row.typed_value === 'string' ? JSON.parse(row.typed_value) : row.typed_value) as TypedValue;
+  }
+  if (row.data_type) return null;
+  return parseTypedValue(row.value);
+}
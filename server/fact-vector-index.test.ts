@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseTypedValue } from '../shared/units';
+import {
+  clusterFacts,
+  cosineSimilarity,
+  embedText,
+  EMBEDDING_DIMENSIONS,
+  NEAR_DUPLICATE_THRESHOLD,
+  type IndexedFact,
+} from './fact-vector-index';
+import { emptyReconciliationStats } from './reconciliation-stats';
+
+function fact(id: string, value: string, sourceDocumentId: string): IndexedFact {
+  return { id, value, sourceDocumentId, typedValue: parseTypedValue(value) };
+}
+
+function vectorsOf(facts: IndexedFact[]): Map<string, Float32Array> {
+  return new Map(facts.map(f => [f.id, embedText(f.value)]));
+}
+
+describe('Fact Vector Index', () => {
+  it('should embed texts locally as normalised vectors', () => {
+    const vector = embedText('Grid connection at the 132 kV Marsa substation');
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(cosineSimilarity(vector, vector)).toBeCloseTo(1, 5);
+    expect(cosineSimilarity(embedText(''), vector)).toBe(0);
+  });
+
+  it('should score paraphrases above unrelated statements', () => {
+    const similar = cosineSimilarity(
+      embedText('Grid connection at the 132 kV Marsa substation'),
+      embedText('The project connects to the grid at Marsa 132kV substation')
+    );
+    const unrelated = cosineSimilarity(
+      embedText('Grid connection at the 132 kV Marsa substation'),
+      embedText('The site is located 12 km north of Ibri')
+    );
+    expect(similar).toBeGreaterThanOrEqual(NEAR_DUPLICATE_THRESHOLD);
+    expect(unrelated).toBeLessThan(0.2);
+  });
+
+  it('should cluster near-duplicates and keep different quantities apart', () => {
+    const facts = [
+      fact('a', 'The project has a total capacity of 300 MW', 'doc1'),
+      fact('b', 'Project capacity is 0.3 GW', 'doc2'),
+      fact('c', 'Project capacity is 250 MW', 'doc3'),
+      fact('d', 'The project has a total capacity of 300 MW', 'doc4'),
+    ];
+    const { clusters, pairsCompared } = clusterFacts(facts, vectorsOf(facts));
+
+    expect(pairsCompared).toBe(6);
+    expect(clusters.map(c => c.facts.map(f => f.id))).toEqual([['a', 'b', 'd'], ['c']]);
+  });
+
+  it('should link statements without typed values by text similarity', () => {
+    const facts = [
+      fact('a', 'Land lease agreement signed with the Ministry of Housing', 'doc1'),
+      fact('b', 'Fixed tilt mounting structures are used', 'doc2'),
+      fact('c', 'The land lease agreement with the Ministry of Housing has been executed', 'doc3'),
+    ];
+    const { clusters } = clusterFacts(facts, vectorsOf(facts));
+
+    expect(clusters.map(c => c.facts.map(f => f.id))).toEqual([['a', 'c'], ['b']]);
+    expect(emptyReconciliationStats()).toMatchObject({ pairsCompared: 0, llmCalls: 0, totalMs: 0 });
+  });
+
+  it('should keep statements on different subjects in the same wording apart', () => {
+    const facts = [
+      fact('modules', 'PV modules will be supplied by Jinko Solar under a framework agreement', 'doc1'),
+      fact('inverters', 'Inverters will be supplied by SMA under a framework agreement', 'doc2'),
+      fact('epc', 'The EPC contractor is Acme Construction Pty Ltd', 'doc1'),
+      fact('om', 'The O&M contractor is Acme Services Pty Ltd', 'doc2'),
+    ];
+    const { clusters } = clusterFacts(facts, vectorsOf(facts));
+
+    expect(clusters.map(c => c.facts.map(f => f.id))).toEqual([['modules'], ['inverters'], ['epc'], ['om']]);
+  });
+
+  it('should not chain contradicting dates together through a vague statement', () => {
+    const facts = [
+      fact('vague', 'Commercial operation date of the solar plant is set under the EPC contract', 'doc1'),
+      fact('q3', 'Commercial operation date of the solar plant is Q3 2026 under the EPC contract', 'doc2'),
+      fact('march', 'Commercial operation date of the solar plant under the EPC contract is March 2027', 'doc3'),
+    ];
+    const { clusters } = clusterFacts(facts, vectorsOf(facts));
+
+    expect(clusters.map(c => c.facts.map(f => f.id))).toEqual([['vague', 'q3'], ['march']]);
+  });
+});
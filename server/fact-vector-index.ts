@@ -0,0 +1,227 @@
+/**
+ * Fact Vector Index
+ *
+ * Text embeddings of extracted facts, computed locally (no LLM or network
+ * call) and stored per project in `fact_embeddings`, so reconciliation can
+ * compare every pair of facts in memory:
+ * - Embeddings hash word stems, word pairs and character trigrams into a
+ *   fixed-size vector (feature hashing), L2-normalised so the dot product is
+ *   the cosine similarity
+ * - Stored vectors are reused while the fact text and the embedding model are
+ *   unchanged
+ * - Facts with the same key are clustered by complete linkage: a fact joins a
+ *   cluster only when it is a near-duplicate of every fact already in it, so
+ *   a vague statement cannot chain two contradicting ones together, and facts
+ *   with different quantities or dates never share a cluster
+ */
+
+import { createHash } from 'crypto';
+import { compareTypedValues, type TypedValue, type ValueComparison } from '../shared/units';
+import type { Queryable } from './document-dedup';
+
+// Change the model name whenever embedText changes, so stored vectors are recomputed
+export const EMBEDDING_MODEL = 'hashed-ngrams-v1';
+export const EMBEDDING_DIMENSIONS = 512;
+
+// Cosine similarity above which two statements say the same thing in other words.
+// Paraphrases score 0.75-0.8; statements on different subjects in the same
+// wording ("modules supplied by Jinko" / "inverters supplied by SMA") 0.55-0.6.
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+// Cosine similarity above which two statements are the same up to formatting
+export const EXACT_DUPLICATE_THRESHOLD = 0.95;
+
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'as', 'is', 'are',
+  'was', 'were', 'be', 'been', 'will', 'has', 'have', 'this', 'that', 'it', 'its', 'which', 'project',
+]);
+
+export interface IndexedFact {
+  id: string;
+  value: string;
+  sourceDocumentId: string;
+  typedValue: TypedValue | null;
+}
+
+export interface FactCluster {
+  facts: IndexedFact[];   // in the order given (oldest first)
+}
+
+export interface VectorIndexStats {
+  computed: number;       // embeddings computed in this run
+  reused: number;         // embeddings read from fact_embeddings
+}
+
+/**
+ * Embedding of a text: feature-hashed word stems, word pairs and character trigrams
+ */
+export function embedText(text: string): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const words = tokenize(text);
+
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    // The top bit picks the sign, so collisions cancel out instead of adding up
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`t:${padded.substring(j, j + 3)}`, TRIGRAM_WEIGHT);
+  });
+
+  let norm = 0;
+  for (const x of Array.from(vector)) norm += x * x;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+/**
+ * Cosine similarity of two normalised embeddings (0 for empty texts)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return Math.max(0, Math.min(1, dot));
+}
+
+/**
+ * Embeddings of the given facts: stored vectors where the text is unchanged,
+ * the rest computed and stored
+ */
+export async function loadFactVectors(
+  projectDb: Queryable,
+  facts: Array<{ id: string; value: string }>
+): Promise<{ vectors: Map<string, Float32Array>; stats: VectorIndexStats }> {
+  const vectors = new Map<string, Float32Array>();
+  const stats: VectorIndexStats = { computed: 0, reused: 0 };
+  if (facts.length === 0) return { vectors, stats };
+
+  const stored = new Map<string, { text_hash: string; vector: Buffer }>();
+  // Read in batches to keep the IN list short on large projects
+  for (let i = 0; i < facts.length; i += 500) {
+    const batch = facts.slice(i, i + 500);
+    const [rows]: any = await projectDb.execute(
+      `SELECT fact_id, text_hash, vector FROM fact_embeddings WHERE model = ? AND fact_id IN (${batch.map(() => '?').join(', ')})`,
+      [EMBEDDING_MODEL, ...batch.map(f => f.id)]
+    );
+    for (const row of rows) stored.set(row.fact_id, row);
+  }
+
+  for (const fact of facts) {
+    const textHash = hashText(fact.value);
+    const existing = stored.get(fact.id);
+    if (existing && existing.text_hash === textHash) {
+      vectors.set(fact.id, fromBuffer(existing.vector));
+      stats.reused++;
+      continue;
+    }
+
+    const vector = embedText(fact.value);
+    vectors.set(fact.id, vector);
+    stats.computed++;
+    await projectDb.execute(
+      `INSERT INTO fact_embeddings (fact_id, model, dimensions, text_hash, vector) VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE model = VALUES(model), dimensions = VALUES(dimensions), text_hash = VALUES(text_hash), vector = VALUES(vector)`,
+      [fact.id, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS, textHash, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength)]
+    );
+  }
+
+  return { vectors, stats };
+}
+
+/**
+ * Whether two facts say the same thing: the same typed value, or similar text
+ * without contradicting quantities or dates
+ */
+export function isNearDuplicate(comparison: ValueComparison, similarity: number): boolean {
+  if (comparison === 'equal') return true;
+  if (comparison === 'different') return false;
+  return similarity >= NEAR_DUPLICATE_THRESHOLD;
+}
+
+/**
+ * Complete-linkage clusters of near-duplicate facts: each fact, oldest first,
+ * joins the cluster whose least similar fact is closest to it, provided it is
+ * a near-duplicate of every fact in that cluster; otherwise it starts a new
+ * one. Clusters keep the facts' order, so the first fact is the oldest.
+ * Values are compared by their typed values unless a comparison is given
+ * (tolerances and values found in the text, see value-tolerances.ts).
+ */
+export function clusterFacts(
+  facts: IndexedFact[],
+  vectors: Map<string, Float32Array>,
+  compareValues: (a: IndexedFact, b: IndexedFact) => ValueComparison = compareIndexedValues
+): { clusters: FactCluster[]; pairsCompared: number } {
+  // Link strength of every pair, null when the two are not near-duplicates
+  const links: Array<Array<number | null>> = facts.map(() => []);
+  let pairsCompared = 0;
+  for (let i = 0; i < facts.length - 1; i++) {
+    for (let j = i + 1; j < facts.length; j++) {
+      pairsCompared++;
+      const similarity = cosineSimilarity(vectors.get(facts[i].id)!, vectors.get(facts[j].id)!);
+      const comparison = compareValues(facts[i], facts[j]);
+      const link = isNearDuplicate(comparison, similarity) ? (comparison === 'equal' ? 1 : similarity) : null;
+      links[i][j] = link;
+      links[j][i] = link;
+    }
+  }
+
+  const members: number[][] = [];
+  facts.forEach((_, i) => {
+    let best: { cluster: number[]; link: number } | null = null;
+    for (const cluster of members) {
+      const weakest = Math.min(...cluster.map(j => links[i][j] ?? -1));
+      if (weakest >= 0 && (!best || weakest > best.link)) best = { cluster, link: weakest };
+    }
+    if (best) best.cluster.push(i);
+    else members.push([i]);
+  });
+
+  return { clusters: members.map(cluster => ({ facts: cluster.map(i => facts[i]) })), pairsCompared };
+}
+
+function compareIndexedValues(a: IndexedFact, b: IndexedFact): ValueComparison {
+  return a.typedValue && b.typedValue ? compareTypedValues(a.typedValue, b.typedValue) : 'incomparable';
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .split(/[^a-z0-9.%]+/)
+    .map(word => word.replace(/^\.+|\.+$/g, ''))
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// Crude suffix stripping, enough for plurals and simple verb forms ("trackers" / "tracker")
+function stem(word: string): string {
+  if (/^\d/.test(word) || word.length <= 4) return word;
+  return word.replace(/(?:ies|ing|ed|es|s)$/, '');
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function fromBuffer(buffer: Buffer): Float32Array {
+  const copy = new Uint8Array(buffer);
+  return new Float32Array(copy.buffer, copy.byteOffset, copy.byteLength / 4);
+}
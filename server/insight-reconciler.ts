@@ -1,6 +1,9 @@
-import { invokeLLM } from "./_core/llm";
+import { invokeStructured } from "./llm-structured";
+import { proseSchema, similarityScoreSchema } from "./llm-output-schemas";
 import mysql from "mysql2/promise";
 import { v4 as uuidv4 } from "uuid";
+import type { TypedValue, ValueDifference } from "../shared/units";
+import { factSourceDocuments } from "./document-revisions";
 
 interface Insight {
   id: string;
@@ -27,7 +30,9 @@ interface ReconciliationResult {
  */
 export async function computeSemanticSimilarity(value1: string, value2: string): Promise<number> {
   try {
-    const response = await invokeLLM({
+    const score = await invokeStructured({
+      stage: 'similarity',
+      temperature: 0,
       messages: [
         {
           role: 'system',
@@ -38,18 +43,9 @@ export async function computeSemanticSimilarity(value1: string, value2: string):
           content: `Statement 1: ${value1}\n\nStatement 2: ${value2}\n\nSimilarity score (0-100):`
         }
       ]
-    });
+    }, similarityScoreSchema, { label: 'similarity score', format: 'text' });
     
-    const content = response.choices[0]?.message?.content;
-    const scoreText = typeof content === 'string' ? content : '';
-    const score = parseInt(scoreText.trim());
-    
-    if (isNaN(score)) {
-      console.warn(`[Reconciler] Failed to parse similarity score: ${scoreText}`);
-      return 0;
-    }
-    
-    return Math.min(100, Math.max(0, score)) / 100;  // Normalize to 0-1
+    return score / 100;  // Normalize to 0-1
   } catch (error) {
     console.error(`[Reconciler] Error computing similarity:`, error);
     return 0;
@@ -61,7 +57,9 @@ export async function computeSemanticSimilarity(value1: string, value2: string):
  */
 export async function mergeInsightValues(existing: string, candidate: string): Promise<string> {
   try {
-    const response = await invokeLLM({
+    return await invokeStructured({
+      stage: 'similarity',
+      temperature: 0,
       messages: [
         {
           role: 'system',
@@ -72,10 +70,7 @@ export async function mergeInsightValues(existing: string, candidate: string): P
           content: `Existing insight: ${existing}\n\nNew insight: ${candidate}\n\nMerge these into one comprehensive statement:`
         }
       ]
-    });
-    
-    const content = response.choices[0]?.message?.content;
-    return typeof content === 'string' ? content.trim() : existing;
+    }, proseSchema, { label: 'merged statement', format: 'text' });
   } catch (error) {
     console.error(`[Reconciler] Error merging values:`, error);
     return existing;  // Fallback to existing value
@@ -184,20 +179,34 @@ export async function reconcileInsight(
 }
 
 /**
- * Creates a conflict record between two insights
+ * Creates a conflict record between two insights, with the values it was
+ * detected on and their difference when they could be compared
  */
 export async function createConflict(
   projectDb: mysql.Pool | any,
   projectId: number,
   insightAId: string,
   insightBId: string,
-  conflictType: 'value_mismatch' | 'date_mismatch' | 'numerical_mismatch'
+  conflictType: 'value_mismatch' | 'date_mismatch' | 'numerical_mismatch',
+  details?: { valueA: TypedValue | null; valueB: TypedValue | null; difference: ValueDifference | null }
 ): Promise<string> {
   const conflictId = uuidv4();
   
   await projectDb.execute(
-    `INSERT INTO insight_conflicts (id, project_id, insight_a_id, insight_b_id, conflict_type, resolution_status, created_at)
-     VALUES ('${conflictId}', ${projectId}, '${insightAId}', '${insightBId}', '${conflictType}', 'pending', NOW())`
+    `INSERT INTO insight_conflicts (id, project_id, insight_a_id, insight_b_id, conflict_type, typed_value_a, typed_value_b, difference_value, difference_unit, magnitude, resolution_status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', NOW())`,
+    [
+      conflictId,
+      projectId,
+      insightAId,
+      insightBId,
+      conflictType,
+      details?.valueA ? JSON.stringify(details.valueA) : null,
+      details?.valueB ? JSON.stringify(details.valueB) : null,
+      details?.difference?.value ?? null,
+      details?.difference?.unit ?? null,
+      details?.difference?.label ?? null,
+    ]
   );
   
   // Update both insights to reference the conflict
@@ -225,7 +234,7 @@ export async function enrichInsight(
 ): Promise<void> {
   // Get existing source_documents
   const [rows] = await projectDb.execute(
-    `SELECT source_documents, enrichment_count FROM extracted_facts WHERE id = '${insightId}'`
+    `SELECT source_document_id, source_documents, enrichment_count FROM extracted_facts WHERE id = '${insightId}'`
   ) as any;
   
   if (!rows || rows.length === 0) {
@@ -233,15 +242,8 @@ export async function enrichInsight(
   }
   
   const existing = rows[0];
-  let sourceDocs: string[] = [];
-  
-  try {
-    sourceDocs = existing.source_documents ? JSON.parse(existing.source_documents) : [];
-  } catch (e) {
-    sourceDocs = [];
-  }
-  
-  // Add new source document if not already present
+  // Keep every earlier source (the column may arrive parsed) and add the new one
+  const sourceDocs = factSourceDocuments(existing);
   if (!sourceDocs.includes(sourceDocumentId)) {
     sourceDocs.push(sourceDocumentId);
   }
@@ -1,4 +1,10 @@
-import { invokeLLM } from "./_core/llm";
+import { invokeStructured } from "./llm-structured";
+import { factExtractionSchema } from "./llm-output-schemas";
+import type { PdfPage } from "./pdf-extractor";
+import { chunkDocument, computeCoverage, mapWithConcurrency, type ExtractionCoverage } from "./document-chunker";
+import { EXTRACTION_PASSES, type ExtractionPassName } from "./document-taxonomy";
+import { renderPrompt, type PromptTemplateKey } from "./prompt-templates";
+import { DEFAULT_SECTION_LIST } from "./prompt-template-defaults";
 
 export interface ExtractedFact {
   section: string;
@@ -7,221 +13,145 @@ export interface ExtractedFact {
   value: string;
   confidence: number;
   extraction_method: string;
+  source_quote?: string;
+  prompt_version?: string; // prompt template version tag, e.g. "fact_risks@v2"
 }
 
 export interface ExtractionResult {
   facts: ExtractedFact[];
   total_facts: number;
   extraction_time_ms: number;
+  coverage: ExtractionCoverage;
+}
+
+// Characters of document text sent per LLM call, and chunks processed in parallel
+const CHUNK_MAX_CHARS = parseInt(process.env.LLM_CHUNK_MAX_CHARS || '50000');
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '2');
+
+type ExtractionPass = (text: string, docType: string) => Promise<ExtractedFact[] | null>;
+
+export interface ExtractorOptions {
+  passes?: ExtractionPassName[];       // passes to run (default: all four)
+  promptInstructions?: string | null;  // document-type specific instructions added to every pass
+  model?: string;                      // Ollama model override (default: the configured extraction model)
 }
 
 /**
  * Intelligent multi-pass fact extractor that produces contextual statements
  * instead of disconnected key-value pairs.
+ *
+ * Long documents are split into section/page-aware chunks (document-chunker.ts);
+ * every pass runs on every chunk and the results are merged.
+ *
+ * The passes and extra prompt instructions come from the extraction profile of
+ * the document type (document-taxonomy.ts).
  */
 export class IntelligentFactExtractorV2 {
+  constructor(private options: ExtractorOptions = {}) {}
   
   /**
-   * Main extraction method - runs 4 passes to extract comprehensive structured facts
+   * Main extraction method - runs the profile's passes (up to 4) per chunk to extract comprehensive structured facts
    */
-  async extractFacts(documentText: string, documentType: string): Promise<ExtractionResult> {
+  async extractFacts(documentText: string, documentType: string, pages?: PdfPage[]): Promise<ExtractionResult> {
     const startTime = Date.now();
-    const allFacts: ExtractedFact[] = [];
-
-    console.log(`[Intelligent Extractor V2] Starting extraction for ${documentType}`);
 
-    // Pass 1: Structured data extraction with full contextual statements
-    const structuredFacts = await this.extractStructuredData(documentText, documentType);
-    allFacts.push(...structuredFacts);
-    console.log(`[Intelligent Extractor V2] Pass 1 (Structured): ${structuredFacts.length} facts`);
+    const chunks = chunkDocument(pages && pages.length > 0 ? pages : documentText, { maxChars: CHUNK_MAX_CHARS });
+    console.log(`[Intelligent Extractor V2] Starting extraction for ${documentType} (${chunks.length} chunk(s))`);
 
-    // Pass 2: Relationship and dependency extraction
-    const relationshipFacts = await this.extractRelationships(documentText, documentType);
-    allFacts.push(...relationshipFacts);
-    console.log(`[Intelligent Extractor V2] Pass 2 (Relationships): ${relationshipFacts.length} facts`);
+    const allPasses: Record<ExtractionPassName, [string, ExtractionPass]> = {
+      structured: ['Structured', (text, docType) => this.extractStructuredData(text, docType)],          // Pass 1
+      relationships: ['Relationships', (text, docType) => this.extractRelationships(text, docType)],    // Pass 2
+      risks: ['Risks', (text, docType) => this.extractRisks(text, docType)],                            // Pass 3
+      assumptions: ['Assumptions', (text, docType) => this.extractAssumptions(text, docType)],          // Pass 4
+    };
+    const passes = (this.options.passes ?? [...EXTRACTION_PASSES]).map(name => allPasses[name]);
+
+    const processed = new Set<number>();
+    const chunkResults = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk) => {
+      const chunkFacts: ExtractedFact[] = [];
+      let failedPasses = 0;
+      const pageRange = chunk.startPage !== null ? ` (pages ${chunk.startPage}-${chunk.endPage})` : '';
+
+      for (const [name, pass] of passes) {
+        const facts = await pass(chunk.text, documentType);
+        if (facts === null) {
+          failedPasses++;
+          continue;
+        }
+        chunkFacts.push(...facts);
+        console.log(`[Intelligent Extractor V2] Chunk ${chunk.index + 1}/${chunks.length}${pageRange} ${name}: ${facts.length} facts`);
+      }
 
-    // Pass 3: Risk identification
-    const riskFacts = await this.extractRisks(documentText, documentType);
-    allFacts.push(...riskFacts);
-    console.log(`[Intelligent Extractor V2] Pass 3 (Risks): ${riskFacts.length} facts`);
+      // A chunk only counts as read when every pass got a response for it
+      if (failedPasses === 0) processed.add(chunk.index);
+      return chunkFacts;
+    });
 
-    // Pass 4: Assumption and design parameter extraction
-    const assumptionFacts = await this.extractAssumptions(documentText, documentType);
-    allFacts.push(...assumptionFacts);
-    console.log(`[Intelligent Extractor V2] Pass 4 (Assumptions): ${assumptionFacts.length} facts`);
+    const allFacts = mergeChunkFacts(chunkResults);
+    const coverage = computeCoverage(chunks, processed);
 
     const extractionTime = Date.now() - startTime;
-    console.log(`[Intelligent Extractor V2] Total: ${allFacts.length} facts in ${extractionTime}ms`);
+    console.log(`[Intelligent Extractor V2] Total: ${allFacts.length} facts in ${extractionTime}ms (coverage ${coverage.percent}%, ${coverage.chunksProcessed}/${coverage.chunksTotal} chunks)`);
 
     return {
       facts: allFacts,
       total_facts: allFacts.length,
-      extraction_time_ms: extractionTime
+      extraction_time_ms: extractionTime,
+      coverage,
     };
   }
 
   /**
    * Pass 1: Extract structured data as complete contextual statements
    */
-  private async extractStructuredData(text: string, docType: string): Promise<ExtractedFact[]> {
-    const prompt = `Extract structured information from this ${docType} document and present each fact as a complete, contextual statement.
-
-Document text:
-${text.substring(0, 50000)}
-
-Extract information in these sections:
-- Project_Overview: project identity, partners, ownership structure, location
-- Technical_Design: capacity, technology, equipment specifications, configuration
-- Grid_Infrastructure: connection details, voltage levels, distances, grid operator
-- Site_Details: area, topography, access, geographical context
-- Project_Timeline: key milestones with dates and descriptions
-- Financial_Structure: ownership percentages, investment, commercial terms
-- Regulatory_Compliance: permits, approvals, required studies
-
-IMPORTANT: Each fact must be a complete, self-contained statement that makes sense on its own.
-
-GOOD examples:
-- "Marsa Solar Project is a 300 MWp DC solar facility located in AlWusta governorate near Duqm"
-- "OQAE holds 51% ownership stake while TotalEnergies holds 49%"
-- "ESIA Scoping study completion is scheduled for 7 August 2025"
-- "Solar plant will connect via 132kV LILO at Clare Substation with future 400kV line 4km away"
-
-BAD examples (avoid these):
-- "7 Aug 2025" (missing context)
-- "51%" (what does this percentage represent?)
-- "300 MW" (DC or AC? What is this capacity for?)
-
-For each fact, provide:
-- section: one of the sections above
-- statement: complete contextual sentence
-- key: short identifier for reference (e.g., "project_name", "ownership_oqae", "esia_scoping_date")
-- value: the core extracted value (for filtering/sorting)
-- confidence: 0.0-1.0
-- extraction_method: "llm_structured_v2"
-
-Return a JSON array of facts.`;
-    
-    return await this.callLLMExtraction(prompt, "llm_structured_v2");
+  private async extractStructuredData(text: string, docType: string): Promise<ExtractedFact[] | null> {
+    return await this.callLLMExtraction('fact_structured', { document_type: docType, section_list: DEFAULT_SECTION_LIST, text }, "llm_structured_v2");
   }
 
   /**
    * Pass 2: Extract relationships and dependencies
    */
-  private async extractRelationships(text: string, docType: string): Promise<ExtractedFact[]> {
-    const prompt = `Identify critical relationships and dependencies in this ${docType} document.
-
-Document text:
-${text.substring(0, 50000)}
-
-Identify:
-1. Critical dependencies (what depends on what)
-2. Timing constraints (sequencing requirements)
-3. Capacity/sizing relationships (how components are sized relative to requirements)
-4. Operational relationships (how systems interact)
-
-IMPORTANT: Express each relationship as a complete statement explaining the dependency.
-
-GOOD examples:
-- "Solar plant COD must align with LNG facility COD (January 2028) to ensure carbon neutrality commitment is met"
-- "Solar plant capacity of 300 MWp is sized to generate 700 GWh annually required by LNG facility"
-- "Full ESIA study depends on completion of ESIA Scoping to define assessment scope and obtain preliminary NOC"
-
-For each relationship, provide:
-- section: "Dependencies"
-- statement: complete relationship explanation
-- key: short identifier (e.g., "solar_lng_cod_dependency")
-- value: core dependency description
-- confidence: 0.0-1.0
-- extraction_method: "llm_relationships_v2"
-
-Return a JSON array of facts.`;
-    
-    return await this.callLLMExtraction(prompt, "llm_relationships_v2");
+  private async extractRelationships(text: string, docType: string): Promise<ExtractedFact[] | null> {
+    return await this.callLLMExtraction('fact_relationships', { document_type: docType, text }, "llm_relationships_v2");
   }
 
   /**
    * Pass 3: Extract risks and red flags
    */
-  private async extractRisks(text: string, docType: string): Promise<ExtractedFact[]> {
-    const prompt = `Identify risks, concerns, and potential issues in this ${docType} document.
-
-Document text:
-${text.substring(0, 50000)}
-
-Look for:
-1. Explicitly stated risks or concerns
-2. Site changes or relocations (indicates previous problems)
-3. Schedule pressure or tight timelines
-4. Pending critical approvals
-5. Technical constraints or limitations
-6. Environmental or social challenges
-
-IMPORTANT: Explain each risk clearly with context about why it matters.
-
-GOOD examples:
-- "Project site was relocated from Shinas to Duqm due to technical complexities and cost implications, indicating inadequate initial site assessment"
-- "Solar COD must match LNG COD (January 2028) creating schedule risk where any solar delay jeopardizes LNG carbon neutrality goals"
-- "Full ESIA not expected until 25 December 2025 leaves minimal time for issue mitigation if significant environmental concerns are discovered"
-
-For each risk, provide:
-- section: "Risks_And_Issues"
-- statement: complete risk description with impact explanation
-- key: risk identifier (e.g., "site_relocation_risk", "cod_schedule_risk")
-- value: brief risk summary
-- confidence: 0.0-1.0
-- extraction_method: "llm_risks_v2"
-
-Return a JSON array of facts.`;
-    
-    return await this.callLLMExtraction(prompt, "llm_risks_v2");
+  private async extractRisks(text: string, docType: string): Promise<ExtractedFact[] | null> {
+    return await this.callLLMExtraction('fact_risks', { document_type: docType, text }, "llm_risks_v2");
   }
 
   /**
    * Pass 4: Extract assumptions and design parameters
    */
-  private async extractAssumptions(text: string, docType: string): Promise<ExtractedFact[]> {
-    const prompt = `Extract design assumptions and engineering parameters from this ${docType} document.
-
-Document text:
-${text.substring(0, 50000)}
-
-Identify:
-1. Design assumptions and their rationale
-2. Technology selections with justification
-3. Performance estimates and calculation basis
-4. Key engineering parameters
-
-IMPORTANT: Provide context for each assumption or parameter.
-
-GOOD examples:
-- "Ground coverage ratio set at 35% to optimize land use while maintaining adequate spacing for maintenance access"
-- "Bifacial solar modules selected to capture reflected light from ground surface and increase energy yield"
-- "Single-axis tracking system chosen to maximize energy production throughout the day while balancing cost and complexity"
-- "Specific yield estimated at 2,500 kWh/kWp/year based on local solar resource data and system design assumptions"
-
-For each item, provide:
-- section: one of ["Engineering_Assumptions", "Technology_Choices", "Design_Parameters", "Performance_Estimates"]
-- statement: complete description with context
-- key: parameter identifier (e.g., "gcr_assumption", "module_technology", "specific_yield")
-- value: core parameter value
-- confidence: 0.0-1.0
-- extraction_method: "llm_assumptions_v2"
-
-Return a JSON array of facts.`;
-    
-    return await this.callLLMExtraction(prompt, "llm_assumptions_v2");
+  private async extractAssumptions(text: string, docType: string): Promise<ExtractedFact[] | null> {
+    return await this.callLLMExtraction('fact_assumptions', { document_type: docType, text }, "llm_assumptions_v2");
   }
 
   /**
-   * Helper method to call LLM and parse response
+   * Render the pass's prompt template, call the LLM and validate the response
+   * (invalid output is sent back for repair). Returns null when the call or the
+   * repairs fail so the chunk is not counted towards coverage.
    */
-  private async callLLMExtraction(prompt: string, method: string): Promise<ExtractedFact[]> {
+  private async callLLMExtraction(
+    templateKey: PromptTemplateKey,
+    variables: Record<string, string>,
+    method: string
+  ): Promise<ExtractedFact[] | null> {
+    const rendered = await renderPrompt(templateKey, variables);
+    let prompt = rendered.prompt;
+    if (this.options.promptInstructions) {
+      prompt = `${prompt}\n\nDocument type instructions:\n${this.options.promptInstructions}`;
+    }
     try {
-      const response = await invokeLLM({
+      const parsed = await invokeStructured({
+        stage: 'extraction',
+        model: this.options.model,
         messages: [
           {
             role: "system",
-            content: "You are an expert at extracting structured information from renewable energy project documents. Extract facts as complete contextual statements in JSON format."
+            content: rendered.systemPrompt
           },
           {
             role: "user",
@@ -246,9 +176,10 @@ Return a JSON array of facts.`;
                       key: { type: "string" },
                       value: { type: "string" },
                       confidence: { type: "number" },
-                      extraction_method: { type: "string" }
+                      extraction_method: { type: "string" },
+                      source_quote: { type: "string" }
                     },
-                    required: ["section", "statement", "key", "value", "confidence", "extraction_method"],
+                    required: ["section", "statement", "key", "value", "confidence", "extraction_method", "source_quote"],
                     additionalProperties: false
                   }
                 }
@@ -258,20 +189,43 @@ Return a JSON array of facts.`;
             }
           }
         }
-      });
-
-      const content = response.choices[0].message.content;
-      if (!content) {
-        console.error(`[Intelligent Extractor V2] Empty response from LLM for method ${method}`);
-        return [];
-      }
+      }, factExtractionSchema, { label: rendered.versionTag });
 
-      const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
-      const parsed = JSON.parse(contentStr);
-      return parsed.facts || [];
+      return parsed.facts.map(fact => ({ ...fact, prompt_version: rendered.versionTag }));
     } catch (error) {
       console.error(`[Intelligent Extractor V2] ${method} extraction failed:`, error);
-      return [];
+      return null;
     }
   }
 }
+
+/**
+ * Merge facts from all chunks in document order. The same statement (or the
+ * same key/value in a section) found in several chunks is kept once, with the
+ * highest confidence.
+ */
+export function mergeChunkFacts(chunkResults: ExtractedFact[][]): ExtractedFact[] {
+  const merged: ExtractedFact[] = [];
+  const indexByKey = new Map<string, number>();
+  const normalize = (value: string | undefined) => (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+  for (const fact of chunkResults.flat()) {
+    const keys = [
+      `statement:${fact.section}:${normalize(fact.statement)}`,
+      `value:${fact.section}:${normalize(fact.key)}:${normalize(fact.value)}`,
+    ];
+    const existingIndex = keys.map(k => indexByKey.get(k)).find(i => i !== undefined);
+
+    if (existingIndex === undefined) {
+      keys.forEach(k => indexByKey.set(k, merged.length));
+      merged.push(fact);
+    } else {
+      if (fact.confidence > merged[existingIndex].confidence) {
+        merged[existingIndex] = fact;
+      }
+      keys.forEach(k => indexByKey.set(k, existingIndex));
+    }
+  }
+
+  return merged;
+}
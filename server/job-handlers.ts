@@ -0,0 +1,338 @@
+/**
+ * Job Handlers
+ *
+ * Executes queued background jobs (see job-queue.ts):
+ * - document_processing: text + fact extraction for an uploaded document (Phase 1)
+ * - consolidation: "Process & Consolidate" for a whole project (Phase 2)
+ * - weather_parsing: register and parse an uploaded weather file
+ * - data_room_import: unpack a data room ZIP and enqueue each file
+ *
+ * Handlers must be safe to re-run: a job may be retried after a crash or failure.
+ * They stop before writing results once context.signal is aborted (lease lost).
+ */
+
+import { registerJobHandler, JobContext } from './job-queue';
+import { JobQueueEntry } from '../drizzle/schema';
+import { createProjectDbPool } from './db-connection';
+
+/**
+ * Register all built-in handlers with the job queue
+ */
+export function registerDefaultJobHandlers() {
+  registerJobHandler('document_processing', runDocumentProcessingJob);
+  registerJobHandler('consolidation', runConsolidationJob);
+  registerJobHandler('weather_parsing', runWeatherParsingJob);
+  registerJobHandler('data_room_import', runDataRoomImportJob);
+}
+
+/**
+ * Phase 1: extract text and facts from a document, then store raw facts
+ */
+async function runDocumentProcessingJob(job: JobQueueEntry, context: JobContext): Promise<void> {
+  const { processDocument } = await import('./document-processor-v2');
+  const { filePath, documentType } = job.payload as { filePath: string; documentType: string };
+  const projectIdNum = job.projectId;
+  const documentId = job.documentId!;
+
+  const result = await processDocument(
+    projectIdNum,
+    documentId,
+    filePath,
+    documentType,
+    undefined,
+    undefined,
+    context.reportProgress
+  );
+
+  if (result.status === 'failed') {
+    throw new Error(result.error || 'Document processing failed');
+  }
+  context.signal.throwIfAborted();
+
+  if (result.coverage) {
+    await context.recordCoverage(result.coverage);
+  }
+
+  const projectDb = createProjectDbPool(projectIdNum);
+  try {
+    // Keep per-page extraction method and OCR confidence
+    if (result.pages && result.pages.length > 0) {
+      const { saveDocumentPages } = await import('./document-page-store');
+      await saveDocumentPages(projectDb, documentId, result.pages);
+    }
+    if (result.tables) {
+      const { saveDocumentTables } = await import('./pdf-table-extractor');
+      await saveDocumentTables(projectDb, documentId, result.tables);
+    }
+
+    // Hold back facts of near-duplicates (e.g. a re-issued report) until the user decides
+    const { computeMinHashSignature, findNearDuplicate, getDuplicateResolution, recordDuplicate } = await import('./document-dedup');
+    const signature = computeMinHashSignature(result.extractedText);
+    await projectDb.execute(
+      `UPDATE documents SET textSignature = ? WHERE id = ?`,
+      [JSON.stringify(signature), documentId]
+    );
+
+    const resolution = await getDuplicateResolution(projectDb, documentId);
+    if (resolution === null) {
+      const nearDuplicate = await findNearDuplicate(projectDb, documentId, signature);
+      if (nearDuplicate) {
+        await recordDuplicate(projectDb, documentId, nearDuplicate);
+        console.log(`[Document Processor] Document ${documentId} is ${(nearDuplicate.similarity * 100).toFixed(0)}% similar to ${nearDuplicate.fileName} - facts held until the duplicate is resolved`);
+        return;
+      }
+    } else if (resolution === 'pending' || resolution === 'skip') {
+      console.log(`[Document Processor] Document ${documentId} has an unresolved duplicate - facts not stored`);
+      return;
+    }
+
+    // Spreadsheet cells mapped straight to financial_data / performance_parameters
+    if (result.spreadsheet) {
+      const { saveSpreadsheetData } = await import('./spreadsheet-extractor');
+      await saveSpreadsheetData(projectDb, projectIdNum, documentId, result.spreadsheet);
+    }
+
+    if (result.facts.length === 0) {
+      console.log(`[Document Processor] No facts extracted from document ${documentId}`);
+      return;
+    }
+
+    // Remove unverified facts left behind by a previous (interrupted) attempt before re-inserting
+    context.signal.throwIfAborted();
+    await projectDb.execute(
+      `DELETE FROM extracted_facts WHERE source_document_id = ? AND verified = 0`,
+      [documentId]
+    );
+
+    // Phase 1: Simple insert - no reconciliation during upload
+    const { insertRawFacts } = await import('./simple-fact-inserter');
+    const insertedCount = await insertRawFacts(projectDb, projectIdNum, documentId, result.facts);
+    console.log(`[Document Processor] Inserted ${insertedCount} raw facts (reconciliation deferred to manual consolidation)`);
+
+    // Facts of a superseded revision (e.g. when an older revision is re-processed) start out stale
+    const { refreshStaleFacts } = await import('./document-revisions');
+    await refreshStaleFacts(projectDb);
+
+    // Entity register, linked to the facts just stored
+    if (result.entities) {
+      const { saveDocumentEntities } = await import('./entity-register');
+      await saveDocumentEntities(projectDb, documentId, result.entities);
+    }
+    if (result.milestones) {
+      const { saveDocumentMilestones } = await import('./milestone-schedule');
+      await saveDocumentMilestones(projectDb, documentId, result.milestones);
+    }
+    if (result.clauses) {
+      const { saveDocumentClauses } = await import('./contract-obligations');
+      await saveDocumentClauses(projectDb, documentId, result.clauses);
+    }
+
+    // Phase 1: Extract location from document text (when the document type's profile includes it)
+    if (result.profile?.extractors.includes('location')) {
+      try {
+        const { LocationExtractor } = await import('./location-extractor');
+        const locationExtractor = new LocationExtractor();
+        const locationData = await locationExtractor.extractLocation(result.extractedText);
+
+        if (locationData && locationData.confidence > 0.3) {
+          const location: Record<string, string | number> = {};
+          if (locationData.latitude) location.latitude = locationData.latitude;
+          if (locationData.longitude) location.longitude = locationData.longitude;
+          if (locationData.site_name) location.site_name = locationData.site_name;
+
+          // Save location to performance_parameters; a retry or re-run updates the document's row instead of adding another
+          const [existing]: any = await projectDb.execute(
+            `SELECT id FROM performance_parameters WHERE source_document_id = ? LIMIT 1`,
+            [documentId]
+          );
+          if (existing.length > 0) {
+            const columns = Object.keys(location);
+            if (columns.length > 0) {
+              await projectDb.execute(
+                `UPDATE performance_parameters SET ${columns.map(column => `${column} = ?`).join(', ')}, updated_at = NOW() WHERE id = ?`,
+                [...Object.values(location), existing[0].id]
+              );
+            }
+          } else {
+            const { v4: uuidv4 } = await import('uuid');
+            const row: Record<string, string | number> = {
+              id: uuidv4(),
+              project_id: projectIdNum,
+              source_document_id: documentId,
+              confidence: locationData.confidence,
+              extraction_method: locationData.extraction_method,
+              ...location,
+            };
+            const columns = Object.keys(row);
+            await projectDb.execute(
+              `INSERT INTO performance_parameters (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+              Object.values(row)
+            );
+          }
+
+          console.log(`[Document Processor] Saved Phase 1 location (confidence: ${(locationData.confidence * 100).toFixed(1)}%):`, {
+            coords: locationData.latitude && locationData.longitude ? `${locationData.latitude}, ${locationData.longitude}` : 'N/A',
+            site: locationData.site_name || 'N/A'
+          });
+        } else {
+          console.log(`[Document Processor] No location found in document (or confidence too low)`);
+        }
+      } catch (locErr) {
+        console.error(`[Document Processor] Location extraction failed:`, locErr);
+        // Don't fail the whole process if location extraction fails
+      }
+    }
+
+    console.log(`[Document Processor] Phase 1 complete: ${result.facts.length} facts extracted and stored`);
+  } finally {
+    await projectDb.end();
+  }
+}
+
+/**
+ * Phase 2: reconcile, narrate and run specialised extraction for a project
+ */
+async function runConsolidationJob(job: JobQueueEntry, context: JobContext): Promise<void> {
+  const { ProjectConsolidator } = await import('./project-consolidator');
+  // Throwing from the progress callback stops consolidation at the next stage
+  const consolidator = new ProjectConsolidator(job.projectId, (progress) => {
+    context.signal.throwIfAborted();
+    context.reportProgress(progress.stage, progress.progress).catch(() => {});
+  });
+
+  await consolidator.consolidate();
+}
+
+/**
+ * Create the weather_files record for an uploaded weather file and parse it
+ */
+async function runWeatherParsingJob(job: JobQueueEntry, context: JobContext): Promise<void> {
+  const { fileName, filePath, fileSize } = job.payload as { fileName: string; filePath: string; fileSize: number };
+  const projectIdNum = job.projectId;
+  const documentId = job.documentId!;
+
+  await context.reportProgress('weather_header', 20);
+
+  let weatherFileId: string;
+  const projectDb = createProjectDbPool(projectIdNum);
+  try {
+    // Re-use the record from a previous attempt if there is one
+    const [existing]: any = await projectDb.execute(
+      `SELECT id FROM weather_files WHERE source_document_id = ? LIMIT 1`,
+      [documentId]
+    );
+
+    if (existing.length > 0) {
+      weatherFileId = existing[0].id;
+    } else {
+      const { v4: uuidv4 } = await import('uuid');
+      weatherFileId = uuidv4();
+      const originalFormat = fileName.toLowerCase().endsWith('.csv') ? 'tmy_csv' : 'unknown';
+
+      // Parse weather file header to extract location
+      let latitude: number | null = null;
+      let longitude: number | null = null;
+      let elevation: number | null = null;
+      let locationName: string | null = null;
+
+      try {
+        const fs = await import('fs/promises');
+        const fileContent = await fs.readFile(filePath, 'utf-8');
+        const lines = fileContent.split('\n');
+
+        // Parse PVGIS TMY header format
+        for (const line of lines.slice(0, 20)) {
+          if (line.includes('Latitude')) {
+            const match = line.match(/Latitude[^:]*:\s*([\d.-]+)/);
+            if (match) latitude = parseFloat(match[1]);
+          }
+          if (line.includes('Longitude')) {
+            const match = line.match(/Longitude[^:]*:\s*([\d.-]+)/);
+            if (match) longitude = parseFloat(match[1]);
+          }
+          if (line.includes('Elevation')) {
+            const match = line.match(/Elevation[^:]*:\s*([\d.-]+)/);
+            if (match) elevation = parseFloat(match[1]);
+          }
+          if (line.includes('Location')) {
+            const match = line.match(/Location[^:]*:\s*(.+)/);
+            if (match) locationName = match[1].trim();
+          }
+        }
+
+        if (latitude && longitude) {
+          console.log(`[Document Processor] Extracted location from weather file: ${latitude}, ${longitude}`);
+        }
+      } catch (parseErr) {
+        console.error('[Document Processor] Failed to parse weather file header:', parseErr);
+      }
+
+      // Build INSERT with optional location fields
+      const fields = [
+        'id', 'project_id', 'file_key', 'file_url', 'file_name', 'file_size_bytes',
+        'source_type', 'source_document_id', 'original_format', 'status', 'is_active',
+        'created_at', 'updated_at'
+      ];
+      const placeholders = ['?', '?', '?', '?', '?', '?', '?', '?', '?', '?', '?', 'NOW()', 'NOW()'];
+      const values: any[] = [
+        weatherFileId,
+        projectIdNum,
+        filePath,
+        filePath,
+        fileName,
+        fileSize,
+        'document_upload',
+        documentId,
+        originalFormat,
+        'pending',
+        1
+      ];
+
+      if (latitude !== null) {
+        fields.push('latitude');
+        placeholders.push('?');
+        values.push(latitude);
+      }
+      if (longitude !== null) {
+        fields.push('longitude');
+        placeholders.push('?');
+        values.push(longitude);
+      }
+      if (elevation !== null) {
+        fields.push('elevation');
+        placeholders.push('?');
+        values.push(elevation);
+      }
+      if (locationName) {
+        fields.push('location_name');
+        placeholders.push('?');
+        values.push(locationName);
+      }
+
+      await projectDb.execute(
+        `INSERT INTO weather_files (${fields.join(', ')}) VALUES (${placeholders.join(', ')})`,
+        values
+      );
+
+      console.log(`[Document Processor] Created weather_files record: ${weatherFileId}`);
+    }
+  } finally {
+    await projectDb.end();
+  }
+
+  // Parse the full file (monthly irradiance, annual summary)
+  await context.reportProgress('weather_parsing', 60);
+  const { ProjectConsolidator } = await import('./project-consolidator');
+  await new ProjectConsolidator(projectIdNum).processWeatherFiles(weatherFileId);
+}
+
+/**
+ * Unpack a data room ZIP, register every supported file and queue its processing
+ */
+async function runDataRoomImportJob(job: JobQueueEntry, context: JobContext): Promise<void> {
+  const { importId, zipPath } = job.payload as { importId: string; zipPath: string };
+  const { importDataRoom } = await import('./data-room-import');
+
+  await context.reportProgress('unpacking_archive', 5);
+  await importDataRoom(job.projectId, importId, zipPath, context.reportProgress);
+}
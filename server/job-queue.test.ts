@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  claimNextJob,
+  computeBackoffSeconds,
+  failJob,
+  recoverExpiredLeases,
+  registerJobHandler,
+  startJobWorkers,
+  stopJobWorkers,
+} from './job-queue';
+import type { JobQueueEntry } from '../drizzle/schema';
+
+interface Query {
+  kind: 'select' | 'update' | 'insert';
+  fields?: Record<string, unknown>;
+  set?: Record<string, any>;
+  methods: string[];
+}
+
+/**
+ * Drizzle-shaped main database: every query is recorded and answered by
+ * `respond`, which tells the queries apart by kind, fields and what was set
+ */
+const db = vi.hoisted(() => {
+  const state = {
+    queries: [] as Query[],
+    respond: (_query: Query): any => [],
+    select: (fields?: Record<string, unknown>) => state.query({ kind: 'select', fields, methods: [] }),
+    update: () => state.query({ kind: 'update', methods: [] }),
+    insert: () => state.query({ kind: 'insert', methods: [] }),
+    query(query: Query) {
+      const builder: any = {};
+      for (const method of ['from', 'where', 'orderBy', 'limit', 'set', 'values']) {
+        builder[method] = (value: any) => {
+          query.methods.push(method);
+          if (method === 'set') query.set = value;
+          return builder;
+        };
+      }
+      builder.then = (resolve: any, reject: any) => {
+        state.queries.push(query);
+        return Promise.resolve().then(() => state.respond(query)).then(resolve, reject);
+      };
+      return builder;
+    },
+  };
+  return state;
+});
+
+vi.mock('./db', () => ({ getDb: async () => db }));
+vi.mock('./db-connection', () => ({
+  createProjectDbPool: () => ({ execute: async () => [[]], end: async () => {} }),
+  createProjectDbConnection: async () => ({ execute: async () => [[]], end: async () => {} }),
+}));
+
+function job(overrides: Partial<JobQueueEntry> = {}): JobQueueEntry {
+  return {
+    id: 7,
+    projectId: 1,
+    jobType: 'consolidation',
+    documentId: null,
+    processingJobId: null,
+    payload: {},
+    status: 'running',
+    attempts: 1,
+    maxAttempts: 3,
+    runAfter: new Date(),
+    lockedBy: 'worker-1',
+    lockedAt: new Date(),
+    heartbeatAt: new Date(),
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    completedAt: null,
+    ...overrides,
+  } as JobQueueEntry;
+}
+
+const updates = () => db.queries.filter(query => query.kind === 'update').map(query => query.set!);
+
+describe('Job Queue', () => {
+  beforeEach(() => {
+    db.queries = [];
+    db.respond = () => [];
+  });
+
+  afterEach(() => {
+    stopJobWorkers();
+    vi.useRealTimers();
+  });
+
+  it('should back off exponentially between attempts', () => {
+    expect(computeBackoffSeconds(1, 30)).toBe(30);
+    expect(computeBackoffSeconds(2, 30)).toBe(60);
+    expect(computeBackoffSeconds(3, 30)).toBe(120);
+  });
+
+  it('should cap the backoff at 30 minutes', () => {
+    expect(computeBackoffSeconds(20, 30)).toBe(30 * 60);
+  });
+
+  it('should treat attempt 0 like the first attempt', () => {
+    expect(computeBackoffSeconds(0, 30)).toBe(30);
+  });
+
+  it('should claim the next candidate another worker did not take first', async () => {
+    registerJobHandler('consolidation', async () => {});
+    db.respond = (query) => {
+      if (query.kind === 'select' && query.fields) return [{ id: 7 }, { id: 8 }];
+      // The conditional UPDATE of job 7 loses the race
+      if (query.kind === 'update') return [{ affectedRows: updates().length === 1 ? 0 : 1 }];
+      return [job({ id: 8, lockedBy: 'worker-2' })];
+    };
+
+    const claimed = await claimNextJob('worker-2');
+
+    expect(claimed?.id).toBe(8);
+    expect(updates()).toHaveLength(2);
+    expect(updates()[1]).toMatchObject({ status: 'running', lockedBy: 'worker-2' });
+  });
+
+  it('should retry a failed job with backoff until its attempts run out', async () => {
+    db.respond = () => [{ affectedRows: 1 }];
+
+    expect(await failJob(job({ attempts: 1, maxAttempts: 3 }), 'Timeout')).toEqual({ willRetry: true });
+    expect(await failJob(job({ attempts: 3, maxAttempts: 3 }), 'Timeout')).toEqual({ willRetry: false });
+
+    expect(updates()).toEqual([
+      expect.objectContaining({ status: 'queued', lockedBy: null, lastError: 'Timeout' }),
+      expect.objectContaining({ status: 'failed', lockedBy: null, lastError: 'Timeout' }),
+    ]);
+  });
+
+  it('should re-queue jobs whose lease expired', async () => {
+    db.respond = (query) => query.kind === 'select'
+      ? [job({ id: 7, attempts: 1 }), job({ id: 8, attempts: 3 })]
+      : [{ affectedRows: 1 }];
+
+    expect(await recoverExpiredLeases()).toBe(2);
+    expect(updates().map(set => [set.status, set.lastError])).toEqual([
+      ['queued', 'Worker lease expired (server restart or crash)'],
+      ['failed', 'Worker lease expired (server restart or crash)'],
+    ]);
+  });
+
+  it('should abort a handler that lost its lease and leave the job to its new owner', async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | null = null;
+    registerJobHandler('consolidation', (_job, context) => new Promise((_, reject) => {
+      signal = context.signal;
+      context.signal.addEventListener('abort', () => reject(context.signal.reason));
+    }));
+
+    let claimed = false;
+    db.respond = (query) => {
+      if (query.kind === 'select' && query.fields) {
+        if (claimed) return [];
+        claimed = true;
+        return [{ id: 7 }];
+      }
+      if (query.kind === 'select') return query.methods.includes('limit') ? [job()] : [];
+      // Claim succeeds; the heartbeat finds the job re-queued by a lease sweep elsewhere
+      return [{ affectedRows: query.set?.status === 'running' ? 1 : 0 }];
+    };
+
+    startJobWorkers(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(signal!.aborted).toBe(true);
+    const statuses = updates().map(set => set.status).filter(Boolean);
+    expect(statuses).toEqual(['running']);
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Durable Job Queue
+ *
+ * MySQL-backed background job queue (main database `job_queue` table).
+ * Replaces fire-and-forget promises so document processing, consolidation
+ * and weather parsing survive server restarts.
+ *
+ * - Workers claim jobs with a lease (locked_by + heartbeat_at)
+ * - A heartbeat timer keeps the lease alive while a handler runs; when the lease
+ *   is lost the handler is aborted (JobContext.signal) and its outcome discarded
+ * - Jobs whose lease expires (worker crashed/restarted) are re-queued
+ * - Failed jobs are retried with exponential backoff up to max_attempts
+ * - State is mirrored to proj_{id}_processing_jobs for the Processing Status page
+ * - LLM calls made by a handler, and invalid LLM outputs, are attributed to the
+ *   job's project, document and processing job (llm-usage.ts)
+ */
+
+import os from 'os';
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { getDb } from './db';
+import { jobQueue, JobQueueEntry } from '../drizzle/schema';
+import { createProjectDbPool } from './db-connection';
+import type { ExtractionCoverage } from './document-chunker';
+import { runWithLlmUsageScope } from './llm-usage';
+
+export type JobType = 'document_processing' | 'consolidation' | 'weather_parsing' | 'data_room_import';
+
+export interface EnqueueJobInput {
+  projectId: number;
+  jobType: JobType;
+  documentId?: string | null;
+  processingJobId?: number | null;
+  payload?: Record<string, any>;
+  maxAttempts?: number;
+}
+
+export interface JobContext {
+  /** Aborted when the worker loses the job's lease; handlers stop before writing results */
+  signal: AbortSignal;
+  /** Update stage/progress on the mirrored processing_jobs row */
+  reportProgress: (stage: string, progress: number) => Promise<void>;
+  /** Record how much of the document the extraction passes read */
+  recordCoverage: (coverage: ExtractionCoverage) => Promise<void>;
+}
+
+export type JobHandler = (job: JobQueueEntry, context: JobContext) => Promise<void>;
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '120');
+const HEARTBEAT_INTERVAL_MS = Math.max(1000, Math.floor((LEASE_SECONDS * 1000) / 4));
+const BACKOFF_BASE_SECONDS = parseInt(process.env.JOB_BACKOFF_BASE_SECONDS || '30');
+const BACKOFF_MAX_SECONDS = 30 * 60;
+
+const handlers = new Map<JobType, JobHandler>();
+const workerTimers: NodeJS.Timeout[] = [];
+let running = false;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ * (30s, 60s, 120s, ... capped at 30 minutes)
+ */
+export function computeBackoffSeconds(attempts: number, baseSeconds: number = BACKOFF_BASE_SECONDS): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BACKOFF_MAX_SECONDS, baseSeconds * Math.pow(2, exponent));
+}
+
+/**
+ * Register the handler that executes jobs of a given type
+ */
+export function registerJobHandler(jobType: JobType, handler: JobHandler) {
+  handlers.set(jobType, handler);
+}
+
+/**
+ * Add a job to the queue. Returns the job_queue id.
+ */
+export async function enqueueJob(input: EnqueueJobInput): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(jobQueue).values({
+    projectId: input.projectId,
+    jobType: input.jobType,
+    documentId: input.documentId ?? null,
+    processingJobId: input.processingJobId ?? null,
+    payload: input.payload ?? {},
+    maxAttempts: input.maxAttempts ?? 3,
+  });
+  const jobId = Number(result[0].insertId);
+
+  if (input.processingJobId) {
+    await updateProcessingJob(input.projectId, input.processingJobId, {
+      queue_job_id: jobId,
+    });
+  }
+
+  console.log(`[JobQueue] Enqueued ${input.jobType} job ${jobId} for project ${input.projectId}`);
+  return jobId;
+}
+
+/**
+ * Create a processing_jobs row (shown on the Processing Status page) and
+ * enqueue the job that will execute it. Returns the processing_jobs id.
+ */
+export async function enqueueProcessingJob(input: Omit<EnqueueJobInput, 'processingJobId'>): Promise<number> {
+  const projectDb = createProjectDbPool(input.projectId);
+  let processingJobId: number;
+  try {
+    const [result]: any = await projectDb.execute(
+      `INSERT INTO processing_jobs (document_id, job_type, status, stage, progress_percent, attempts, started_at) 
+       VALUES (?, ?, 'queued', 'queued', 0, 0, NOW())`,
+      [input.documentId ?? null, input.jobType]
+    );
+    processingJobId = Number(result.insertId);
+  } finally {
+    await projectDb.end();
+  }
+
+  await enqueueJob({ ...input, processingJobId });
+  return processingJobId;
+}
+
+/**
+ * Find the queue entry backing a processing_jobs row
+ */
+export async function findJobByProcessingJob(projectId: number, processingJobId: number): Promise<JobQueueEntry | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(jobQueue)
+    .where(and(eq(jobQueue.projectId, projectId), eq(jobQueue.processingJobId, processingJobId)))
+    .limit(1);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Put a failed job back on the queue with a fresh attempt budget
+ */
+export async function requeueJob(job: JobQueueEntry): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobQueue)
+    .set({
+      status: 'queued',
+      attempts: 0,
+      runAfter: sql`NOW()`,
+      lockedBy: null,
+      lockedAt: null,
+      heartbeatAt: null,
+      lastError: null,
+      completedAt: null,
+    })
+    .where(and(eq(jobQueue.id, job.id), inArray(jobQueue.status, ['failed', 'completed'])));
+
+  if (job.processingJobId) {
+    await updateProcessingJob(job.projectId, job.processingJobId, {
+      status: 'queued',
+      stage: 'queued',
+      progress_percent: 0,
+      attempts: 0,
+      error_message: null,
+      completed_at: null,
+    });
+  }
+
+  console.log(`[JobQueue] Re-queued job ${job.id}`);
+}
+
+/**
+ * Claim the next runnable job. Uses a conditional UPDATE so two workers
+ * can never claim the same row.
+ */
+export async function claimNextJob(workerId: string): Promise<JobQueueEntry | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  const jobTypes = Array.from(handlers.keys());
+  if (jobTypes.length === 0) return null;
+
+  const candidates = await db
+    .select({ id: jobQueue.id })
+    .from(jobQueue)
+    .where(and(
+      eq(jobQueue.status, 'queued'),
+      lte(jobQueue.runAfter, sql`NOW()`),
+      inArray(jobQueue.jobType, jobTypes)
+    ))
+    .orderBy(asc(jobQueue.runAfter), asc(jobQueue.id))
+    .limit(5);
+
+  for (const candidate of candidates) {
+    const result = await db
+      .update(jobQueue)
+      .set({
+        status: 'running',
+        lockedBy: workerId,
+        lockedAt: sql`NOW()`,
+        heartbeatAt: sql`NOW()`,
+        attempts: sql`${jobQueue.attempts} + 1`,
+      })
+      .where(and(eq(jobQueue.id, candidate.id), eq(jobQueue.status, 'queued')));
+
+    if (result[0].affectedRows === 1) {
+      const rows = await db.select().from(jobQueue).where(eq(jobQueue.id, candidate.id)).limit(1);
+      return rows[0] ?? null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extend the lease on a running job. Returns false if the lease was lost.
+ */
+export async function heartbeatJob(jobId: number, workerId: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db
+    .update(jobQueue)
+    .set({ heartbeatAt: sql`NOW()` })
+    .where(and(eq(jobQueue.id, jobId), eq(jobQueue.status, 'running'), eq(jobQueue.lockedBy, workerId)));
+  return result[0].affectedRows === 1;
+}
+
+/**
+ * Mark a job as completed
+ */
+export async function completeJob(job: JobQueueEntry): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(jobQueue)
+    .set({ status: 'completed', completedAt: sql`NOW()`, lockedBy: null, lastError: null })
+    .where(and(eq(jobQueue.id, job.id), eq(jobQueue.lockedBy, job.lockedBy!)));
+
+  if (job.processingJobId) {
+    await updateProcessingJob(job.projectId, job.processingJobId, {
+      status: 'completed',
+      stage: 'completed',
+      progress_percent: 100,
+      error_message: null,
+    }, ['completed_at']);
+  }
+}
+
+/**
+ * Record a failed attempt. Schedules a retry with backoff, or marks the job
+ * failed once max_attempts is reached.
+ */
+export async function failJob(job: JobQueueEntry, errorMessage: string): Promise<{ willRetry: boolean }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const willRetry = job.attempts < job.maxAttempts;
+
+  if (willRetry) {
+    const backoffSeconds = computeBackoffSeconds(job.attempts);
+    await db
+      .update(jobQueue)
+      .set({
+        status: 'queued',
+        runAfter: sql`NOW() + INTERVAL ${backoffSeconds} SECOND`,
+        lockedBy: null,
+        lastError: errorMessage,
+      })
+      .where(and(eq(jobQueue.id, job.id), eq(jobQueue.lockedBy, job.lockedBy!)));
+
+    console.log(`[JobQueue] Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${backoffSeconds}s: ${errorMessage}`);
+  } else {
+    await db
+      .update(jobQueue)
+      .set({
+        status: 'failed',
+        completedAt: sql`NOW()`,
+        lockedBy: null,
+        lastError: errorMessage,
+      })
+      .where(and(eq(jobQueue.id, job.id), eq(jobQueue.lockedBy, job.lockedBy!)));
+
+    console.error(`[JobQueue] Job ${job.id} failed permanently after ${job.attempts} attempt(s): ${errorMessage}`);
+  }
+
+  if (job.processingJobId) {
+    await updateProcessingJob(job.projectId, job.processingJobId, willRetry
+      ? { status: 'queued', stage: 'retry_scheduled', attempts: job.attempts, error_message: errorMessage }
+      : { status: 'failed', stage: 'error', attempts: job.attempts, error_message: errorMessage },
+      willRetry ? [] : ['completed_at']
+    );
+  }
+
+  return { willRetry };
+}
+
+/**
+ * Re-queue (or fail) running jobs whose worker stopped sending heartbeats
+ */
+export async function recoverExpiredLeases(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const expired: JobQueueEntry[] = await db
+    .select()
+    .from(jobQueue)
+    .where(and(
+      eq(jobQueue.status, 'running'),
+      lt(jobQueue.heartbeatAt, sql`NOW() - INTERVAL ${LEASE_SECONDS} SECOND`)
+    ));
+
+  for (const job of expired) {
+    console.warn(`[JobQueue] Lease expired for job ${job.id} (worker ${job.lockedBy})`);
+    await failJob(job, 'Worker lease expired (server restart or crash)');
+  }
+
+  return expired.length;
+}
+
+/**
+ * Start worker loops and the lease recovery sweep
+ */
+export function startJobWorkers(concurrency: number = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2')) {
+  if (running) return;
+  running = true;
+
+  console.log(`[JobQueue] Starting ${concurrency} worker(s), lease ${LEASE_SECONDS}s`);
+
+  for (let i = 0; i < concurrency; i++) {
+    const workerId = `${os.hostname()}:${process.pid}:${i}`;
+    scheduleWorker(workerId, 0);
+  }
+
+  const sweep = async () => {
+    try {
+      await recoverExpiredLeases();
+    } catch (error) {
+      console.error('[JobQueue] Lease recovery failed:', error);
+    }
+    if (running) workerTimers.push(setTimeout(sweep, HEARTBEAT_INTERVAL_MS));
+  };
+  sweep();
+}
+
+/**
+ * Stop polling for new jobs (running handlers are left to finish)
+ */
+export function stopJobWorkers() {
+  running = false;
+  for (const timer of workerTimers.splice(0)) {
+    clearTimeout(timer);
+  }
+}
+
+function scheduleWorker(workerId: string, delayMs: number) {
+  if (!running) return;
+  workerTimers.push(setTimeout(async () => {
+    let claimed = false;
+    try {
+      const job = await claimNextJob(workerId);
+      if (job) {
+        claimed = true;
+        await runJob(job);
+      }
+    } catch (error) {
+      console.error(`[JobQueue] Worker ${workerId} error:`, error);
+    }
+    // Poll again immediately after finishing a job, otherwise wait
+    scheduleWorker(workerId, claimed ? 0 : POLL_INTERVAL_MS);
+  }, delayMs));
+}
+
+async function runJob(job: JobQueueEntry) {
+  const handler = handlers.get(job.jobType as JobType);
+  if (!handler) {
+    await failJob(job, `No handler registered for job type ${job.jobType}`);
+    return;
+  }
+
+  console.log(`[JobQueue] Running ${job.jobType} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  if (job.processingJobId) {
+    await updateProcessingJob(job.projectId, job.processingJobId, {
+      status: 'processing',
+      attempts: job.attempts,
+    }, ['started_at']);
+  }
+
+  // The job may have been re-queued and claimed by another worker
+  const lease = new AbortController();
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, job.lockedBy!).then((ok) => {
+      if (ok || lease.signal.aborted) return;
+      console.warn(`[JobQueue] Lost lease on job ${job.id}`);
+      lease.abort(new Error(`Lost lease on job ${job.id}`));
+      clearInterval(heartbeat);
+    }).catch((error) => {
+      console.error(`[JobQueue] Heartbeat failed for job ${job.id}:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const context: JobContext = {
+    signal: lease.signal,
+    reportProgress: async (stage, progress) => {
+      lease.signal.throwIfAborted();
+      if (!job.processingJobId) return;
+      await updateProcessingJob(job.projectId, job.processingJobId, {
+        stage,
+        progress_percent: Math.min(progress, 99),
+      });
+    },
+    recordCoverage: async (coverage) => {
+      lease.signal.throwIfAborted();
+      if (!job.processingJobId) return;
+      await updateProcessingJob(job.projectId, job.processingJobId, {
+        coverage_percent: coverage.percent,
+        chunks_total: coverage.chunksTotal,
+        chunks_processed: coverage.chunksProcessed,
+      });
+    },
+  };
+
+  try {
+    await runWithLlmUsageScope(
+      { projectId: job.projectId, documentId: job.documentId, processingJobId: job.processingJobId },
+      () => handler(job, context)
+    );
+    lease.signal.throwIfAborted();
+    await completeJob(job);
+    console.log(`[JobQueue] ✓ Job ${job.id} completed`);
+  } catch (error: any) {
+    if (lease.signal.aborted) {
+      console.warn(`[JobQueue] Abandoned job ${job.id} after losing its lease`);
+      return;
+    }
+    await failJob(job, error?.message || String(error));
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Mirror queue state onto the project's processing_jobs row
+ */
+async function updateProcessingJob(
+  projectId: number,
+  processingJobId: number,
+  fields: Record<string, any>,
+  nowColumns: string[] = []
+) {
+  const assignments = [
+    ...Object.keys(fields).map(column => `${column} = ?`),
+    ...nowColumns.map(column => `${column} = NOW()`),
+  ];
+  const values = Object.values(fields);
+
+  const projectDb = createProjectDbPool(projectId);
+  try {
+    await projectDb.execute(
+      `UPDATE processing_jobs SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, processingJobId]
+    );
+  } catch (error) {
+    console.error(`[JobQueue] Failed to update processing job ${processingJobId} for project ${projectId}:`, error);
+  } finally {
+    await projectDb.end();
+  }
+}
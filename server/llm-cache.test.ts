@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { buildCacheKey, isCacheable } from './llm-cache';
+import type { InvokeParams } from './_core/llm';
+
+const similarity: InvokeParams = {
+  stage: 'similarity',
+  temperature: 0,
+  messages: [{ role: 'user', content: 'Statement 1: 50 MW\n\nStatement 2: 50MW' }],
+};
+
+describe('LLM Cache', () => {
+  it('should only cache deterministic calls', () => {
+    expect(isCacheable(similarity)).toBe(true);
+    expect(isCacheable({ ...similarity, temperature: undefined })).toBe(false);
+    expect(isCacheable({ ...similarity, temperature: 0.3 })).toBe(false);
+  });
+
+  it('should key responses by prompt, provider and model', () => {
+    const key = buildCacheKey(similarity, 'ollama', 'llama3');
+
+    expect(buildCacheKey({ ...similarity, stage: 'narrative' }, 'ollama', 'llama3')).toBe(key);
+    expect(buildCacheKey(similarity, 'ollama', 'mistral')).not.toBe(key);
+    expect(buildCacheKey(similarity, 'forge', 'llama3')).not.toBe(key);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * LLM Response Cache
+ *
+ * Persistent cache (main database `llm_cache`) for deterministic LLM calls:
+ * temperature 0, no tools, same provider, model and normalised prompt.
+ * Re-running consolidation re-sends the same similarity, merge and narrative
+ * prompts; those are answered from the cache. Only the on-demand narrative
+ * synthesis runs at the provider's default temperature and bypasses it.
+ * Set LLM_CACHE_ENABLED=false to bypass it.
+ */
+
+import { createHash } from 'crypto';
+import { eq, sql } from 'drizzle-orm';
+import { getDb } from './db';
+import { llmCache } from '../drizzle/schema';
+import { hashRequest } from './llm-recorder';
+import type { InvokeParams, InvokeResult } from './_core/llm';
+
+/**
+ * Only deterministic calls are cached
+ */
+export function isCacheable(params: InvokeParams): boolean {
+  if (process.env.LLM_CACHE_ENABLED === 'false') return false;
+  if (params.tools && params.tools.length > 0) return false;
+  return params.temperature === 0;
+}
+
+export function buildCacheKey(params: InvokeParams, provider: string, model: string): string {
+  return createHash('sha256').update(`${hashRequest(params)}|${provider}|${model}`).digest('hex');
+}
+
+/**
+ * Cached response for a key, or null (cache errors are treated as misses)
+ */
+export async function getCachedResponse(cacheKey: string): Promise<InvokeResult | null> {
+  try {
+    const db = await getDb();
+    const rows = await db.select().from(llmCache).where(eq(llmCache.cacheKey, cacheKey)).limit(1);
+    if (rows.length === 0) return null;
+
+    await db
+      .update(llmCache)
+      .set({ hitCount: sql`${llmCache.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(llmCache.cacheKey, cacheKey));
+
+    const response = rows[0].response;
+    return (typeof response === 'string' ? JSON.parse(response) : response) as InvokeResult;
+  } catch (error) {
+    console.error('[LLM Cache] Lookup failed:', error);
+    return null;
+  }
+}
+
+export async function saveCachedResponse(entry: {
+  cacheKey: string;
+  provider: string;
+  model: string;
+  stage: string;
+  response: InvokeResult;
+}): Promise<void> {
+  try {
+    const db = await getDb();
+    await db
+      .insert(llmCache)
+      .values(entry)
+      .onDuplicateKeyUpdate({ set: { response: entry.response } });
+  } catch (error) {
+    console.error('[LLM Cache] Failed to save response:', error);
+  }
+}
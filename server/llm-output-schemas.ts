@@ -0,0 +1,203 @@
+/**
+ * LLM Output Schemas
+ *
+ * zod schemas for every structured LLM output. Responses are validated with
+ * invokeStructured (llm-structured.ts); validation errors are fed back to the
+ * model for repair.
+ */
+
+import { z } from 'zod';
+
+// Numeric fields are often returned as strings ("50 MW") or numbers; both are kept
+const scalar = z.union([z.string(), z.number()]).nullable().optional();
+const confidence = z.coerce.number().min(0).max(1);
+
+/**
+ * Fact extraction passes (structured, relationships, risks, assumptions)
+ */
+export const factExtractionSchema = z.object({
+  facts: z.array(z.object({
+    section: z.string().min(1),
+    statement: z.string().min(1),
+    key: z.string(),
+    value: z.string(),
+    confidence,
+    extraction_method: z.string(),
+    source_quote: z.string(),
+  })),
+});
+
+export const performanceParametersSchema = z.object({
+  dc_capacity_mw: scalar,
+  ac_capacity_mw: scalar,
+  module_model: scalar,
+  module_power_watts: scalar,
+  module_count: z.coerce.number().int().nullable().optional(),
+  inverter_model: scalar,
+  inverter_power_kw: scalar,
+  inverter_count: z.coerce.number().int().nullable().optional(),
+  tracking_type: scalar,
+  tilt_angle_degrees: scalar,
+  azimuth_degrees: scalar,
+  latitude: scalar,
+  longitude: scalar,
+  site_name: scalar,
+  elevation_m: scalar,
+  timezone: scalar,
+  system_losses_percent: scalar,
+  degradation_rate_percent: scalar,
+  availability_percent: scalar,
+  soiling_loss_percent: scalar,
+  weather_file_url: scalar,
+  ghi_annual_kwh_m2: scalar,
+  dni_annual_kwh_m2: scalar,
+  temperature_ambient_c: scalar,
+  p50_generation_gwh: scalar,
+  p90_generation_gwh: scalar,
+  capacity_factor_percent: scalar,
+  specific_yield_kwh_kwp: scalar,
+  notes: scalar,
+});
+
+export const financialDataSchema = z.object({
+  total_capex_usd: scalar,
+  modules_usd: scalar,
+  inverters_usd: scalar,
+  trackers_usd: scalar,
+  civil_works_usd: scalar,
+  grid_connection_usd: scalar,
+  development_costs_usd: scalar,
+  other_capex_usd: scalar,
+  total_opex_annual_usd: scalar,
+  om_usd: scalar,
+  insurance_usd: scalar,
+  land_lease_usd: scalar,
+  asset_management_usd: scalar,
+  other_opex_usd: scalar,
+  capex_per_watt_usd: scalar,
+  opex_per_mwh_usd: scalar,
+  original_currency: scalar,
+  exchange_rate_to_usd: scalar,
+  cost_year: z.coerce.number().int().min(1900).max(2200).nullable().optional(),
+  escalation_rate_percent: scalar,
+  notes: scalar,
+});
+
+export const weatherReferencesSchema = z.object({
+  references: z.array(z.object({
+    type: z.enum(['url', 'embedded', 'reference']),
+    url: z.string().optional(),
+    description: z.string(),
+    format: z.string().optional(),
+    location: z.string().optional(),
+    confidence,
+    sourceLocation: z.string(),
+  })),
+});
+
+/**
+ * Organisations and people for the entity register (entity-register.ts)
+ */
+export const entityExtractionSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string().trim().min(1),
+    type: z.enum(['organisation', 'person']),
+    roles: z.array(z.string()).default([]),
+    ownership_percent: z.coerce.number().min(0).max(100).nullable().optional(),
+    organisation: z.string().nullable().optional(),
+    email: z.string().nullable().optional(),
+    phone: z.string().nullable().optional(),
+    source_quote: z.string().nullable().optional(),
+  })),
+});
+
+/**
+ * Project milestones for the milestone schedule (milestone-schedule.ts)
+ */
+export const milestoneExtractionSchema = z.object({
+  milestones: z.array(z.object({
+    name: z.string().trim().min(1),
+    planned_date: z.string().nullable().optional(),
+    actual_date: z.string().nullable().optional(),
+    depends_on: z.string().nullable().optional(),
+    source_quote: z.string().nullable().optional(),
+  })),
+});
+
+/**
+ * Key clauses of contracts for the obligations register (contract-obligations.ts)
+ */
+export const contractObligationSchema = z.object({
+  clauses: z.array(z.object({
+    category: z.string().trim().min(1),
+    title: z.string().trim().min(1),
+    summary: z.string().nullable().optional(),
+    party: z.string().nullable().optional(),
+    value: z.string().nullable().optional(),
+    clause_reference: z.string().nullable().optional(),
+    source_quote: z.string().nullable().optional(),
+  })),
+});
+
+/**
+ * Canonical fact keys chosen for extracted key names (fact-key-ontology.ts);
+ * null when no canonical key fits
+ */
+export const factKeyMappingSchema = z.object({
+  mappings: z.array(z.object({
+    raw_key: z.string().trim().min(1),
+    canonical_key: z.string().trim().min(1).nullable(),
+    confidence,
+  })),
+});
+
+export const locationSchema = z.object({
+  latitude: z.number().min(-90).max(90).nullable(),
+  longitude: z.number().min(-180).max(180).nullable(),
+  city: z.string().nullable(),
+  country: z.string().nullable(),
+  site_name: z.string().nullable(),
+  address: z.string().nullable(),
+});
+
+/**
+ * Site location found in consolidated facts (location-service.ts)
+ */
+export const factLocationSchema = z.object({
+  has_location: z.boolean(),
+  latitude: z.number().min(-90).max(90).nullable(),
+  longitude: z.number().min(-180).max(180).nullable(),
+  city: z.string().nullable(),
+  country: z.string().nullable(),
+  address: z.string().nullable(),
+  confidence,
+});
+
+/**
+ * Plain-text similarity score: a number from 0 to 100
+ */
+export const similarityScoreSchema = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d+)?\s*%?$/, 'Expected only a number from 0 to 100, with no other text')
+  .transform(value => parseFloat(value))
+  .pipe(z.number().min(0).max(100));
+
+/**
+ * Plain-text prose (merged statements, narratives)
+ */
+export const proseSchema = z.string().trim().min(1, 'Expected a non-empty text response');
+
+/**
+ * Plain-text document type code from the taxonomy
+ */
+export function documentTypeCodeSchema(codes: string[], parse: (response: string) => string | null) {
+  return z.string().transform((response, ctx) => {
+    const code = parse(response);
+    if (!code) {
+      ctx.addIssue({ code: 'custom', message: `Expected one of ${codes.join(', ')}` });
+      return z.NEVER;
+    }
+    return code;
+  });
+}
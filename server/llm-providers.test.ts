@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LLM_SETTINGS,
+  buildOllamaRequest,
+  resolveOllamaModel,
+  resolveProviderChain,
+  type LlmSettings,
+} from './llm-providers';
+
+const ollamaFirst: LlmSettings = {
+  ...DEFAULT_LLM_SETTINGS,
+  provider: 'ollama',
+  fallbackProvider: 'forge',
+  ollamaEnabled: true,
+  temperature: 0.3,
+  defaultModel: 'llama3',
+  stageModels: { classification: 'mistral' },
+};
+
+describe('LLM Provider Routing', () => {
+  it('should order providers and skip disabled or repeated ones', () => {
+    expect(resolveProviderChain(DEFAULT_LLM_SETTINGS)).toEqual(['forge']);
+    expect(resolveProviderChain(ollamaFirst)).toEqual(['ollama', 'forge']);
+    expect(resolveProviderChain({ ...ollamaFirst, ollamaEnabled: false })).toEqual(['forge']);
+    expect(resolveProviderChain({ ...ollamaFirst, fallbackProvider: 'ollama' })).toEqual(['ollama']);
+  });
+
+  it('should pick the stage model before the default model', () => {
+    expect(resolveOllamaModel(ollamaFirst, 'classification')).toBe('mistral');
+    expect(resolveOllamaModel(ollamaFirst, 'narrative')).toBe('llama3');
+    expect(resolveOllamaModel(ollamaFirst, 'classification', 'qwen2.5')).toBe('qwen2.5');
+  });
+
+  it('should pass JSON schemas to Ollama as the output format', () => {
+    const schema = { type: 'object', properties: { facts: { type: 'array' } } };
+    const request = buildOllamaRequest({
+      messages: [
+        { role: 'system', content: 'Extract facts' },
+        { role: 'user', content: [{ type: 'text', text: 'Capacity 50 MW' }] },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: 'facts', schema } },
+    }, 'llama3', ollamaFirst);
+
+    expect(request.format).toEqual(schema);
+    expect(request.messages).toEqual([
+      { role: 'system', content: 'Extract facts' },
+      { role: 'user', content: 'Capacity 50 MW' },
+    ]);
+    expect(request.options).toEqual({ temperature: 0.3 });
+    expect(() => buildOllamaRequest({
+      messages: [{ role: 'user', content: { type: 'file_url', file_url: { url: 'https://example.com/a.pdf' } } }],
+    }, 'llama3', ollamaFirst)).toThrow('not supported');
+  });
+});
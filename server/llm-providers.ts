@@ -0,0 +1,238 @@
+/**
+ * LLM Provider Routing
+ *
+ * Sends invokeLLM calls to the provider chosen on the Ollama Config page.
+ * - Primary provider (Ollama or the hosted Forge/OpenAI endpoint) with an optional fallback
+ * - Per-stage Ollama models (classification, extraction, similarity, narratives)
+ * - JSON-schema response formats are passed to Ollama as its `format` constraint
+ * - Without a saved configuration every call goes to the hosted provider, as before
+ * - Deterministic calls are answered from the response cache (llm-cache.ts) and
+ *   every attempt is recorded for token/latency accounting (llm-usage.ts)
+ */
+
+import { invokeForge, resolveForgeModel, type InvokeParams, type InvokeResult, type LlmStage } from './_core/llm';
+import { ollamaChat, type OllamaGenerateOptions, type OllamaMessage, type OllamaResponse } from './ollama';
+import { getOllamaConfig } from './db';
+import { buildCacheKey, getCachedResponse, isCacheable, saveCachedResponse } from './llm-cache';
+import { recordLlmUsage } from './llm-usage';
+
+export type LlmProviderName = 'ollama' | 'forge';
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  fallbackProvider: LlmProviderName | 'none';
+  ollamaEnabled: boolean;
+  baseUrl: string | null;
+  timeoutSeconds: number | null;
+  temperature?: number;
+  topP?: number;
+  defaultModel: string;
+  stageModels: Partial<Record<LlmStage, string>>;
+}
+
+// The saved configuration is re-read at most this often
+const CACHE_TTL_MS = parseInt(process.env.LLM_SETTINGS_CACHE_MS || '30000');
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'forge',
+  fallbackProvider: 'none',
+  ollamaEnabled: false,
+  baseUrl: null,
+  timeoutSeconds: null,
+  defaultModel: 'llama3.2:latest',
+  stageModels: {},
+};
+
+let settingsCache: { settings: LlmSettings; loadedAt: number } | null = null;
+
+/**
+ * Call each provider of the chain in turn until one succeeds
+ */
+export async function routeLLM(params: InvokeParams): Promise<InvokeResult> {
+  const settings = await loadLlmSettings();
+  const stage = params.stage || 'extraction';
+  const chain = resolveProviderChain(settings);
+  const cacheable = isCacheable(params);
+
+  let lastError: unknown = null;
+  for (let index = 0; index < chain.length; index++) {
+    const provider = chain[index];
+    const model = provider === 'ollama' ? resolveOllamaModel(settings, stage, params.model) : resolveForgeModel();
+    const cacheKey = cacheable ? buildCacheKey(params, provider, model) : null;
+
+    if (cacheKey) {
+      const cached = await getCachedResponse(cacheKey);
+      if (cached) {
+        recordLlmUsage({ ...usageOf(cached), stage, provider, model, latencyMs: 0, cached: true, succeeded: true });
+        return cached;
+      }
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = provider === 'ollama'
+        ? await invokeOllama(params, settings, model)
+        : await invokeForge(params);
+      recordLlmUsage({ ...usageOf(response), stage, provider, model, latencyMs: Date.now() - startTime, cached: false, succeeded: true });
+      if (cacheKey) await saveCachedResponse({ cacheKey, provider, model, stage, response });
+      return response;
+    } catch (error) {
+      recordLlmUsage({ promptTokens: 0, completionTokens: 0, stage, provider, model, latencyMs: Date.now() - startTime, cached: false, succeeded: false });
+      lastError = error;
+      const next = chain[index + 1];
+      if (next) {
+        console.warn(`[LLM] ${provider} failed for ${stage}, falling back to ${next}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Providers to try, in order
+ */
+export function resolveProviderChain(settings: LlmSettings): LlmProviderName[] {
+  const chain: LlmProviderName[] = [];
+  for (const provider of [settings.provider, settings.fallbackProvider]) {
+    if (provider === 'none' || chain.includes(provider)) continue;
+    if (provider === 'ollama' && !settings.ollamaEnabled) continue;
+    chain.push(provider);
+  }
+  return chain.length > 0 ? chain : ['forge'];
+}
+
+/**
+ * Model for a stage: explicit override, then the stage model, then the default model
+ */
+export function resolveOllamaModel(settings: LlmSettings, stage: LlmStage, override?: string): string {
+  return override || settings.stageModels[stage] || settings.defaultModel;
+}
+
+/**
+ * Translate an invokeLLM request into an Ollama chat request
+ */
+export function buildOllamaRequest(params: InvokeParams, model: string, settings: LlmSettings): OllamaGenerateOptions {
+  if (params.tools && params.tools.length > 0) {
+    throw new Error('Tool calls are not supported by the Ollama provider');
+  }
+
+  const messages: OllamaMessage[] = params.messages.map(message => {
+    const parts = Array.isArray(message.content) ? message.content : [message.content];
+    const text = parts.map(part => {
+      if (typeof part === 'string') return part;
+      if (part.type === 'text') return part.text;
+      throw new Error(`${part.type} content is not supported by the Ollama provider`);
+    });
+    const role = message.role === 'system' || message.role === 'assistant' ? message.role : 'user';
+    return { role, content: text.join('\n') };
+  });
+
+  const request: OllamaGenerateOptions = { model, messages };
+  const temperature = params.temperature ?? settings.temperature;
+
+  const responseFormat = params.responseFormat || params.response_format;
+  const outputSchema = params.outputSchema || params.output_schema;
+  if (responseFormat?.type === 'json_schema') {
+    request.format = responseFormat.json_schema.schema;
+  } else if (responseFormat?.type === 'json_object') {
+    request.format = 'json';
+  } else if (outputSchema) {
+    request.format = outputSchema.schema;
+  }
+
+  const maxTokens = params.maxTokens || params.max_tokens;
+  request.options = {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(settings.topP !== undefined ? { top_p: settings.topP } : {}),
+    ...(maxTokens ? { num_predict: maxTokens } : {}),
+  };
+
+  return request;
+}
+
+/**
+ * Present an Ollama reply in the invokeLLM result shape
+ */
+export function toInvokeResult(response: OllamaResponse): InvokeResult {
+  const promptTokens = response.prompt_eval_count || 0;
+  const completionTokens = response.eval_count || 0;
+  return {
+    id: `ollama-${response.created_at}`,
+    created: Math.floor(new Date(response.created_at).getTime() / 1000) || Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content: response.message.content },
+      finish_reason: response.done ? 'stop' : null,
+    }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+/**
+ * The saved provider configuration (defaults when none is saved or the database can't be read)
+ */
+export async function loadLlmSettings(): Promise<LlmSettings> {
+  if (settingsCache && Date.now() - settingsCache.loadedAt < CACHE_TTL_MS) return settingsCache.settings;
+
+  let settings = DEFAULT_LLM_SETTINGS;
+  try {
+    const config = await getOllamaConfig();
+    if (config) settings = toSettings(config);
+  } catch (error) {
+    console.error('[LLM] Failed to load provider configuration, using the hosted provider:', error);
+  }
+
+  settingsCache = { settings, loadedAt: Date.now() };
+  return settings;
+}
+
+/**
+ * Forget the cached configuration (after it is saved)
+ */
+export function clearLlmSettingsCache(): void {
+  settingsCache = null;
+}
+
+async function invokeOllama(params: InvokeParams, settings: LlmSettings, model: string): Promise<InvokeResult> {
+  const request = buildOllamaRequest(params, model, settings);
+  const response = await ollamaChat(request, {
+    baseUrl: settings.baseUrl,
+    timeoutSeconds: settings.timeoutSeconds,
+  });
+  return toInvokeResult(response);
+}
+
+function usageOf(response: InvokeResult): { promptTokens: number; completionTokens: number } {
+  return {
+    promptTokens: response.usage?.prompt_tokens || 0,
+    completionTokens: response.usage?.completion_tokens || 0,
+  };
+}
+
+function toSettings(config: NonNullable<Awaited<ReturnType<typeof getOllamaConfig>>>): LlmSettings {
+  const temperature = parseFloat(config.temperature || '');
+  const topP = parseFloat(config.topP || '');
+  return {
+    provider: config.provider === 'ollama' ? 'ollama' : 'forge',
+    fallbackProvider: config.fallbackProvider === 'ollama' || config.fallbackProvider === 'forge'
+      ? config.fallbackProvider
+      : 'none',
+    ollamaEnabled: config.enabled !== 0,
+    baseUrl: config.baseUrl,
+    timeoutSeconds: config.timeoutSeconds,
+    temperature: isNaN(temperature) ? undefined : temperature,
+    topP: isNaN(topP) ? undefined : topP,
+    defaultModel: config.model || DEFAULT_LLM_SETTINGS.defaultModel,
+    stageModels: {
+      ...(config.classificationModel ? { classification: config.classificationModel } : {}),
+      ...(config.extractionModel ? { extraction: config.extractionModel } : {}),
+      ...(config.similarityModel ? { similarity: config.similarityModel } : {}),
+      ...(config.narrativeModel ? { narrative: config.narrativeModel } : {}),
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { hashRequest, withRecording } from './llm-recorder';
+import type { InvokeParams, InvokeResult } from './_core/llm';
+
+const request: InvokeParams = {
+  stage: 'extraction',
+  messages: [
+    { role: 'system', content: 'Extract facts' },
+    { role: 'user', content: 'Capacity:   50 MW\n\nCOD: 2027' },
+  ],
+};
+
+const reply = (content: string): InvokeResult => ({
+  id: 'test',
+  created: 0,
+  model: 'test-model',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+});
+
+describe('LLM Recorder', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-recordings-'));
+    process.env.LLM_RECORDINGS_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.LLM_RECORD_MODE;
+    delete process.env.LLM_RECORDINGS_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should hash the normalised prompt only', () => {
+    const reformatted: InvokeParams = {
+      stage: 'classification',
+      model: 'mistral',
+      messages: [
+        { role: 'system', content: [{ type: 'text', text: ' Extract facts ' }] },
+        { role: 'user', content: 'Capacity: 50 MW COD: 2027' },
+      ],
+    };
+
+    expect(hashRequest(reformatted)).toBe(hashRequest(request));
+    expect(hashRequest({ ...request, response_format: { type: 'json_object' } })).not.toBe(hashRequest(request));
+  });
+
+  it('should replay recorded responses without calling the provider', async () => {
+    process.env.LLM_RECORD_MODE = 'record';
+    await withRecording(request, async () => reply('recorded'));
+
+    process.env.LLM_RECORD_MODE = 'strict';
+    const replayed = await withRecording(request, async () => {
+      throw new Error('provider should not be called');
+    });
+
+    expect(replayed.choices[0].message.content).toBe('recorded');
+  });
+
+  it('should fail on unrecorded prompts in strict mode only', async () => {
+    process.env.LLM_RECORD_MODE = 'strict';
+    await expect(withRecording(request, async () => reply('live'))).rejects.toThrow('No recorded LLM response');
+
+    process.env.LLM_RECORD_MODE = 'replay';
+    const live = await withRecording(request, async () => reply('live'));
+    expect(live.choices[0].message.content).toBe('live');
+    expect(await fs.readdir(dir)).toEqual([`${hashRequest(request)}.json`]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * LLM Record / Replay
+ *
+ * Stores invokeLLM request/response pairs on disk so the pipeline can run
+ * without a live model (air-gapped demos, CI fixtures).
+ * Set LLM_RECORD_MODE to:
+ * - off (default): every call goes to the provider
+ * - record: call the provider and save every response
+ * - replay: serve saved responses; unrecorded prompts go to the provider and are saved
+ * - strict: serve saved responses; unrecorded prompts fail
+ *
+ * Recordings are keyed by a hash of the normalised prompt (messages with
+ * whitespace collapsed, response format and tools). Provider, model and stage
+ * are not part of the key, so recordings replay under any configuration.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { InvokeParams, InvokeResult } from './_core/llm';
+
+export type LlmRecordMode = 'off' | 'record' | 'replay' | 'strict';
+
+export interface LlmRecording {
+  hash: string;
+  stage: string;
+  recordedAt: string;
+  request: unknown;    // normalised request the hash was computed from
+  response: InvokeResult;
+}
+
+const RECORD_MODES: LlmRecordMode[] = ['off', 'record', 'replay', 'strict'];
+
+/**
+ * Current mode (read on every call so tests can switch it)
+ */
+export function getRecordMode(): LlmRecordMode {
+  const mode = (process.env.LLM_RECORD_MODE || 'off').toLowerCase() as LlmRecordMode;
+  return RECORD_MODES.includes(mode) ? mode : 'off';
+}
+
+export function getRecordingsDir(): string {
+  return process.env.LLM_RECORDINGS_DIR || path.join(process.cwd(), 'data', 'llm-recordings');
+}
+
+/**
+ * The parts of a request that determine the response, in a stable form
+ */
+export function normalizeRequest(params: InvokeParams): Record<string, unknown> {
+  const messages = params.messages.map(message => {
+    const parts = Array.isArray(message.content) ? message.content : [message.content];
+    const content = parts
+      .map(part => {
+        if (typeof part === 'string') return part;
+        if (part.type === 'text') return part.text;
+        return JSON.stringify(part);
+      })
+      .join('\n')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return { role: message.role, content };
+  });
+
+  return {
+    messages,
+    responseFormat: params.responseFormat || params.response_format || null,
+    outputSchema: params.outputSchema || params.output_schema || null,
+    tools: params.tools || null,
+    toolChoice: params.toolChoice || params.tool_choice || null,
+  };
+}
+
+/**
+ * SHA-256 of the normalised request
+ */
+export function hashRequest(params: InvokeParams): string {
+  return createHash('sha256').update(stableStringify(normalizeRequest(params))).digest('hex');
+}
+
+/**
+ * Serve or save the call according to the record mode
+ */
+export async function withRecording(
+  params: InvokeParams,
+  invoke: (params: InvokeParams) => Promise<InvokeResult>
+): Promise<InvokeResult> {
+  const mode = getRecordMode();
+  if (mode === 'off') return invoke(params);
+
+  const hash = hashRequest(params);
+  const stage = params.stage || 'extraction';
+
+  if (mode === 'replay' || mode === 'strict') {
+    const recording = await readRecording(hash);
+    if (recording) return recording.response;
+    if (mode === 'strict') {
+      throw new Error(`No recorded LLM response for ${stage} prompt ${hash} (LLM_RECORD_MODE=strict, recordings in ${getRecordingsDir()})`);
+    }
+    console.log(`[LLM Recorder] No recording for ${stage} prompt ${hash.substring(0, 12)}, calling the provider`);
+  }
+
+  const response = await invoke(params);
+  await writeRecording({
+    hash,
+    stage,
+    recordedAt: new Date().toISOString(),
+    request: normalizeRequest(params),
+    response,
+  });
+  return response;
+}
+
+async function readRecording(hash: string): Promise<LlmRecording | null> {
+  try {
+    const content = await fs.readFile(recordingPath(hash), 'utf-8');
+    return JSON.parse(content) as LlmRecording;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeRecording(recording: LlmRecording): Promise<void> {
+  try {
+    await fs.mkdir(getRecordingsDir(), { recursive: true });
+    await fs.writeFile(recordingPath(recording.hash), JSON.stringify(recording, null, 2));
+  } catch (error) {
+    // A failed write must not fail the pipeline
+    console.error(`[LLM Recorder] Failed to save recording ${recording.hash}:`, error);
+  }
+}
+
+function recordingPath(hash: string): string {
+  return path.join(getRecordingsDir(), `${hash}.json`);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { buildRepairPrompt, validateOutput } from './llm-structured';
+import { factExtractionSchema, similarityScoreSchema } from './llm-output-schemas';
+
+const fact = {
+  section: 'Project_Overview',
+  statement: 'The project has a capacity of 50 MW',
+  key: 'capacity',
+  value: '50 MW',
+  confidence: 0.9,
+  extraction_method: 'explicit',
+  source_quote: 'capacity of 50 MW',
+};
+
+describe('LLM Structured Outputs', () => {
+  it('should parse JSON wrapped in a code fence', () => {
+    const result = validateOutput('```json\n' + JSON.stringify({ facts: [fact] }) + '\n```', factExtractionSchema, 'json');
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.facts[0].value).toBe('50 MW');
+  });
+
+  it('should report invalid JSON and schema issues with their path', () => {
+    const notJson = validateOutput('Here are the facts: {', factExtractionSchema, 'json');
+    expect(notJson.success).toBe(false);
+    if (!notJson.success) expect(notJson.error).toContain('not valid JSON');
+
+    const missingField = validateOutput(JSON.stringify({ facts: [{ ...fact, statement: undefined }] }), factExtractionSchema, 'json');
+    expect(missingField.success).toBe(false);
+    if (!missingField.success) expect(missingField.error).toContain('facts.0.statement');
+  });
+
+  it('should validate plain-text similarity scores', () => {
+    const score = validateOutput(' 85% ', similarityScoreSchema, 'text');
+    expect(score).toEqual({ success: true, data: 85 });
+
+    expect(validateOutput('The statements are 85% similar', similarityScoreSchema, 'text').success).toBe(false);
+    expect(validateOutput('140', similarityScoreSchema, 'text').success).toBe(false);
+  });
+
+  it('should feed the validation error back in the repair prompt', () => {
+    const prompt = buildRepairPrompt('facts.0.key: Invalid input', 'json');
+
+    expect(prompt).toContain('facts.0.key: Invalid input');
+    expect(prompt).toContain('corrected JSON only');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Schema-validated LLM calls
+ *
+ * invokeStructured validates the model output against a zod schema
+ * (llm-output-schemas.ts). When the output doesn't parse or validate, the
+ * validation errors are sent back to the model and it is asked to correct its
+ * answer, up to LLM_MAX_REPAIR_ATTEMPTS times.
+ *
+ * Outputs that still fail, and calls that fail outright, are recorded with the
+ * raw output on the processing job (llm-usage.ts) before the error is thrown,
+ * so extraction gaps are visible on the Processing Status page.
+ */
+
+import { z } from 'zod';
+import { invokeLLM, type InvokeParams, type InvokeResult, type Message } from './_core/llm';
+import { recordLlmOutputFailure } from './llm-usage';
+
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2');
+
+// Raw output kept with a failure (characters)
+const MAX_RAW_OUTPUT_CHARS = 20000;
+
+export type OutputFormat = 'json' | 'text';
+
+export interface StructuredCallOptions {
+  label: string;           // what the call produces, e.g. "fact_risks chunk 2/5"
+  format?: OutputFormat;   // default: json
+  maxRepairs?: number;
+}
+
+export type OutputValidation<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * Thrown when the model output is still invalid after the repair attempts
+ */
+export class LlmOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly rawOutput: string,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'LlmOutputError';
+  }
+}
+
+/**
+ * Call the LLM and return its output parsed and validated against `schema`
+ */
+export async function invokeStructured<S extends z.ZodType>(
+  params: InvokeParams,
+  schema: S,
+  options: StructuredCallOptions
+): Promise<z.output<S>> {
+  const format = options.format || 'json';
+  const maxRepairs = options.maxRepairs ?? MAX_REPAIR_ATTEMPTS;
+  const stage = params.stage || 'extraction';
+
+  let messages: Message[] = params.messages;
+  let rawOutput = '';
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    let response: InvokeResult;
+    try {
+      response = await invokeLLM({ ...params, messages });
+    } catch (callError) {
+      const message = callError instanceof Error ? callError.message : String(callError);
+      recordLlmOutputFailure({ stage, label: options.label, error: `LLM call failed: ${message}`, rawOutput: rawOutput || null, attempts: attempt });
+      throw callError;
+    }
+
+    rawOutput = responseText(response);
+    const result = validateOutput(rawOutput, schema, format);
+    if (result.success) {
+      if (attempt > 1) console.log(`[LLM Output] ${options.label} repaired on attempt ${attempt}`);
+      return result.data;
+    }
+
+    error = result.error;
+    console.warn(`[LLM Output] ${options.label} failed validation (attempt ${attempt}/${maxRepairs + 1}): ${error}`);
+    messages = [
+      ...params.messages,
+      { role: 'assistant', content: rawOutput },
+      { role: 'user', content: buildRepairPrompt(error, format) },
+    ];
+  }
+
+  recordLlmOutputFailure({
+    stage,
+    label: options.label,
+    error,
+    rawOutput: rawOutput.substring(0, MAX_RAW_OUTPUT_CHARS),
+    attempts: maxRepairs + 1,
+  });
+  throw new LlmOutputError(`${options.label}: invalid LLM output after ${maxRepairs + 1} attempt(s): ${error}`, rawOutput, maxRepairs + 1);
+}
+
+/**
+ * Parse (JSON outputs) and validate raw model output
+ */
+export function validateOutput<S extends z.ZodType>(
+  rawOutput: string,
+  schema: S,
+  format: OutputFormat
+): OutputValidation<z.output<S>> {
+  let value: unknown = rawOutput;
+  if (format === 'json') {
+    try {
+      value = JSON.parse(stripCodeFence(rawOutput));
+    } catch (parseError) {
+      return { success: false, error: `Response is not valid JSON (${parseError instanceof Error ? parseError.message : String(parseError)})` };
+    }
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return { success: false, error: formatIssues(result.error) };
+}
+
+export function buildRepairPrompt(error: string, format: OutputFormat): string {
+  const expected = format === 'json'
+    ? 'Return the corrected JSON only, with no explanation or markdown.'
+    : 'Return the corrected answer only, with no explanation.';
+  return `Your previous response was rejected: ${error}\n\n${expected}`;
+}
+
+function responseText(response: InvokeResult): string {
+  const content = response.choices?.[0]?.message?.content;
+  if (!content) return '';
+  return typeof content === 'string' ? content : JSON.stringify(content);
+}
+
+function stripCodeFence(output: string): string {
+  const fenced = output.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : output;
+}
+
+function formatIssues(error: z.ZodError): string {
+  const issues = error.issues.slice(0, 10).map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'response';
+    return `${path}: ${issue.message}`;
+  });
+  const more = error.issues.length > 10 ? `; and ${error.issues.length - 10} more` : '';
+  return issues.join('; ') + more;
+}
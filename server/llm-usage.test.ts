@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { sumUsage } from './llm-usage';
+
+describe('LLM Usage', () => {
+  it('should total tokens, latency, cache hits and failures', () => {
+    const base = { stage: 'similarity', provider: 'ollama', model: 'llama3' };
+    const totals = sumUsage([
+      { ...base, promptTokens: 120, completionTokens: 5, latencyMs: 900, cached: false, succeeded: true },
+      { ...base, promptTokens: 120, completionTokens: 5, latencyMs: 0, cached: true, succeeded: true },
+      { ...base, promptTokens: 0, completionTokens: 0, latencyMs: 30000, cached: false, succeeded: false },
+    ]);
+
+    expect(totals).toEqual({
+      calls: 3,
+      cachedCalls: 1,
+      failedCalls: 1,
+      promptTokens: 240,
+      completionTokens: 10,
+      totalTokens: 250,
+      latencyMs: 30900,
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Every provider attempt made by invokeLLM records its stage, provider, model,
+ * token counts, latency and whether it was answered from the cache.
+ * - Background jobs run inside a usage scope (project + document) so records
+ *   are attributed without threading ids through every extractor
+ * - A scope's records are written to the project's llm_usage table when it ends
+ * - Summaries aggregate per project, per stage and per document
+ * - LLM outputs that failed validation (llm-structured.ts) are kept with their
+ *   raw output in llm_output_failures, linked to the processing job
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createProjectDbConnection } from './db-connection';
+
+export interface LlmUsageRecord {
+  stage: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  cached: boolean;
+  succeeded: boolean;
+}
+
+export interface LlmOutputFailure {
+  stage: string;
+  label: string;
+  error: string;
+  rawOutput: string | null;
+  attempts: number;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+}
+
+export interface LlmUsageSummary {
+  totals: LlmUsageTotals;
+  byStage: Array<LlmUsageTotals & { stage: string }>;
+  byDocument: Array<LlmUsageTotals & { documentId: string; documentName: string | null }>;
+}
+
+interface UsageScope {
+  projectId: number;
+  documentId: string | null;
+  processingJobId: number | null;
+  records: LlmUsageRecord[];
+  failures: LlmOutputFailure[];
+}
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run `fn` with LLM calls attributed to the project (and document), then save the records
+ */
+export async function runWithLlmUsageScope<T>(
+  attribution: { projectId: number; documentId?: string | null; processingJobId?: number | null },
+  fn: () => Promise<T>
+): Promise<T> {
+  const scope: UsageScope = {
+    projectId: attribution.projectId,
+    documentId: attribution.documentId ?? null,
+    processingJobId: attribution.processingJobId ?? null,
+    records: [],
+    failures: [],
+  };
+  try {
+    return await usageScope.run(scope, fn);
+  } finally {
+    await saveUsageRecords(scope);
+    await saveOutputFailures(scope);
+  }
+}
+
+/**
+ * Attribute a provider attempt to the current scope (calls outside a scope are not stored)
+ */
+export function recordLlmUsage(record: LlmUsageRecord): void {
+  const scope = usageScope.getStore();
+  if (scope) scope.records.push(record);
+}
+
+/**
+ * Keep an invalid LLM output with the current scope (calls outside a scope are only logged)
+ */
+export function recordLlmOutputFailure(failure: LlmOutputFailure): void {
+  const scope = usageScope.getStore();
+  if (scope) {
+    scope.failures.push(failure);
+  } else {
+    console.error(`[LLM Usage] ${failure.label} failed outside a job: ${failure.error}`);
+  }
+}
+
+/**
+ * Invalid LLM outputs recorded for a processing job
+ */
+export async function listOutputFailures(projectId: number, processingJobId: number): Promise<Array<LlmOutputFailure & { id: number; createdAt: Date }>> {
+  const connection = await createProjectDbConnection(projectId);
+  try {
+    const [rows]: any = await connection.execute(
+      `SELECT id, stage, label, error_message, raw_output, attempts, created_at
+       FROM llm_output_failures WHERE processing_job_id = ? ORDER BY id`,
+      [processingJobId]
+    );
+    return rows.map((row: any) => ({
+      id: row.id,
+      stage: row.stage,
+      label: row.label,
+      error: row.error_message,
+      rawOutput: row.raw_output,
+      attempts: row.attempts,
+      createdAt: row.created_at,
+    }));
+  } finally {
+    await connection.end();
+  }
+}
+
+/**
+ * Aggregate usage records
+ */
+export function sumUsage(records: LlmUsageRecord[]): LlmUsageTotals {
+  const totals: LlmUsageTotals = {
+    calls: 0,
+    cachedCalls: 0,
+    failedCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+  };
+  for (const record of records) {
+    totals.calls++;
+    if (record.cached) totals.cachedCalls++;
+    if (!record.succeeded) totals.failedCalls++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.latencyMs += record.latencyMs;
+  }
+  totals.totalTokens = totals.promptTokens + totals.completionTokens;
+  return totals;
+}
+
+/**
+ * Token and latency totals for a project, per stage and per document
+ */
+export async function getLlmUsageSummary(projectId: number): Promise<LlmUsageSummary> {
+  const connection = await createProjectDbConnection(projectId);
+  try {
+    const aggregates = `
+      COUNT(*) AS calls,
+      SUM(u.cached) AS cachedCalls,
+      SUM(1 - u.succeeded) AS failedCalls,
+      SUM(u.prompt_tokens) AS promptTokens,
+      SUM(u.completion_tokens) AS completionTokens,
+      SUM(u.latency_ms) AS latencyMs`;
+
+    const [totalRows]: any = await connection.execute(`SELECT ${aggregates} FROM llm_usage u`);
+    const [stageRows]: any = await connection.execute(
+      `SELECT u.stage, ${aggregates} FROM llm_usage u GROUP BY u.stage ORDER BY u.stage`
+    );
+    const [documentRows]: any = await connection.execute(
+      `SELECT u.document_id AS documentId, d.fileName AS documentName, ${aggregates}
+       FROM llm_usage u
+       LEFT JOIN documents d ON d.id = u.document_id
+       WHERE u.document_id IS NOT NULL
+       GROUP BY u.document_id, d.fileName
+       ORDER BY SUM(u.prompt_tokens + u.completion_tokens) DESC`
+    );
+
+    return {
+      totals: toTotals(totalRows[0] || {}),
+      byStage: stageRows.map((row: any) => ({ stage: row.stage, ...toTotals(row) })),
+      byDocument: documentRows.map((row: any) => ({
+        documentId: row.documentId,
+        documentName: row.documentName,
+        ...toTotals(row),
+      })),
+    };
+  } finally {
+    await connection.end();
+  }
+}
+
+async function saveUsageRecords(scope: UsageScope): Promise<void> {
+  if (scope.records.length === 0) return;
+
+  const totals = sumUsage(scope.records);
+  console.log(`[LLM Usage] Project ${scope.projectId}${scope.documentId ? `, document ${scope.documentId}` : ''}: ${totals.calls} call(s), ${totals.totalTokens} tokens, ${totals.cachedCalls} cached, ${(totals.latencyMs / 1000).toFixed(1)}s`);
+
+  let connection: any = null;
+  try {
+    connection = await createProjectDbConnection(scope.projectId);
+    const placeholders = scope.records.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+    const values = scope.records.flatMap(record => [
+      scope.documentId,
+      record.stage,
+      record.provider,
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      record.latencyMs,
+      record.cached ? 1 : 0,
+      record.succeeded ? 1 : 0,
+    ]);
+    await connection.execute(
+      `INSERT INTO llm_usage
+       (document_id, stage, provider, model, prompt_tokens, completion_tokens, latency_ms, cached, succeeded)
+       VALUES ${placeholders}`,
+      values
+    );
+  } catch (error) {
+    // Accounting must not fail the job
+    console.error(`[LLM Usage] Failed to save usage for project ${scope.projectId}:`, error);
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+async function saveOutputFailures(scope: UsageScope): Promise<void> {
+  if (scope.failures.length === 0) return;
+
+  console.warn(`[LLM Usage] ${scope.failures.length} invalid LLM output(s) for project ${scope.projectId}${scope.documentId ? `, document ${scope.documentId}` : ''}`);
+
+  let connection: any = null;
+  try {
+    connection = await createProjectDbConnection(scope.projectId);
+    for (const failure of scope.failures) {
+      await connection.execute(
+        `INSERT INTO llm_output_failures
+         (processing_job_id, document_id, stage, label, error_message, raw_output, attempts)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [scope.processingJobId, scope.documentId, failure.stage, failure.label.substring(0, 150), failure.error, failure.rawOutput, failure.attempts]
+      );
+    }
+  } catch (error) {
+    console.error(`[LLM Usage] Failed to save invalid LLM outputs for project ${scope.projectId}:`, error);
+  } finally {
+    if (connection) await connection.end();
+  }
+}
+
+function toTotals(row: any): LlmUsageTotals {
+  const promptTokens = Number(row.promptTokens) || 0;
+  const completionTokens = Number(row.completionTokens) || 0;
+  return {
+    calls: Number(row.calls) || 0,
+    cachedCalls: Number(row.cachedCalls) || 0,
+    failedCalls: Number(row.failedCalls) || 0,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    latencyMs: Number(row.latencyMs) || 0,
+  };
+}
@@ -7,7 +7,8 @@
  * - Site names
  */
 
-import { invokeLLM } from "./_core/llm";
+import { invokeStructured } from "./llm-structured";
+import { locationSchema } from "./llm-output-schemas";
 
 export interface ExtractedLocation {
   latitude?: number;
@@ -55,7 +56,8 @@ Document text (first 10000 characters):
 ${documentText.substring(0, 10000)}`;
 
     try {
-      const response = await invokeLLM({
+      const locationData = await invokeStructured({
+        stage: "extraction",
         messages: [
           { role: "system", content: "You are a location extraction assistant. Extract location information accurately and return valid JSON only." },
           { role: "user", content: prompt }
@@ -80,20 +82,7 @@ ${documentText.substring(0, 10000)}`;
             }
           }
         }
-      });
-
-      if (!response.choices || response.choices.length === 0) {
-        console.log(`[Location Extractor] No choices returned from LLM`);
-        return null;
-      }
-
-      const content = response.choices[0].message.content;
-      if (!content) {
-        console.log(`[Location Extractor] No content in LLM response`);
-        return null;
-      }
-
-      const locationData = JSON.parse(typeof content === 'string' ? content : JSON.stringify(content));
+      }, locationSchema, { label: "site location" });
       
       // Calculate confidence based on what was found
       let confidence = 0;
@@ -114,7 +103,12 @@ ${documentText.substring(0, 10000)}`;
       });
 
       return {
-        ...locationData,
+        latitude: locationData.latitude ?? undefined,
+        longitude: locationData.longitude ?? undefined,
+        city: locationData.city ?? undefined,
+        country: locationData.country ?? undefined,
+        site_name: locationData.site_name ?? undefined,
+        address: locationData.address ?? undefined,
         confidence,
         extraction_method: 'llm'
       };
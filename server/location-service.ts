@@ -7,7 +7,8 @@
  * - Geocoding fallback for city/address to coordinates
  */
 
-import { invokeLLM } from './_core/llm';
+import { invokeStructured } from './llm-structured';
+import { factLocationSchema } from './llm-output-schemas';
 import { makeRequest } from './_core/map';
 
 export interface LocationSource {
@@ -34,7 +35,8 @@ export class LocationService {
    */
   async extractLocationFromFacts(factsSummary: string): Promise<LocationSource | null> {
     try {
-      const response = await invokeLLM({
+      const parsed = await invokeStructured({
+        stage: 'extraction',
         messages: [
           {
             role: 'system',
@@ -96,14 +98,7 @@ Return JSON with the most specific location information available.`
             }
           }
         }
-      });
-
-      const content = response.choices[0].message.content;
-      if (!content || typeof content !== 'string') {
-        return null;
-      }
-
-      const parsed = JSON.parse(content);
+      }, factLocationSchema, { label: 'site location from facts' });
       
       if (!parsed.has_location) {
         return null;
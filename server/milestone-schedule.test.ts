@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { findDates } from '../shared/units';
+import {
+  buildSchedule,
+  extractDeterministicMilestones,
+  milestoneKey,
+  type ExtractedMilestone,
+  type MilestoneObservation,
+} from './milestone-schedule';
+
+const IM_TEXT = `Project_Timeline: Financial close was achieved in March 2026 and COD is expected in Q3 2027.
+Construction will commence in Q2 2026. Grid energisation is scheduled for October 2027.
+The PPA was signed on 12 January 2025. The plant has a capacity of 300 MW.`;
+
+function observations(fileName: string, documentDate: string, milestones: ExtractedMilestone[]): MilestoneObservation[] {
+  return milestones.map(({ extractionMethod, ...milestone }) => ({
+    ...milestone,
+    documentId: fileName,
+    fileName,
+    documentDate,
+    superseded: false,
+  }));
+}
+
+describe('Milestone Schedule', () => {
+  it('should find dates in free text with their precision', () => {
+    expect(findDates('Financial close in Q2 2026 and COD by 2027')).toEqual([
+      { type: 'date', value: '2026-04-01', precision: 'quarter' },
+      { type: 'date', value: '2027-01-01', precision: 'year' },
+    ]);
+    expect(findDates('A 25 year PPA for 300 MW')).toEqual([]);
+  });
+
+  it('should extract planned and achieved milestones from sentences', () => {
+    const milestones = extractDeterministicMilestones(IM_TEXT);
+    const byKey = new Map(milestones.map(m => [m.key, m]));
+
+    expect(byKey.get('financial_close')).toMatchObject({ plannedDate: null, actualDate: { value: '2026-03-01', precision: 'month' } });
+    expect(byKey.get('cod')?.plannedDate).toEqual({ type: 'date', value: '2027-07-01', precision: 'quarter' });
+    expect(byKey.get('construction_start')?.plannedDate?.value).toBe('2026-04-01');
+    expect(byKey.get('grid_energisation')?.plannedDate?.value).toBe('2027-10-01');
+    expect(byKey.get('ppa_signing')?.actualDate?.value).toBe('2025-01-12');
+    expect(milestoneKey('Commercial Operation Date')).toBe('cod');
+    expect(milestoneKey('Substation handover')).toBe('substation_handover');
+  });
+
+  it('should flag slipped and contradictory dates across documents', () => {
+    const schedule = buildSchedule([
+      ...observations('IM.pdf', '2026-01-10T00:00:00.000Z', extractDeterministicMilestones(IM_TEXT)),
+      ...observations('DD.pdf', '2026-06-01T00:00:00.000Z', extractDeterministicMilestones(
+        'COD is expected in Q1 2028. Financial close is targeted for June 2026.'
+      )),
+    ], new Date('2026-10-19'));
+    const byKey = new Map(schedule.map(m => [m.key, m]));
+
+    expect(byKey.get('cod')).toMatchObject({
+      plannedDate: { value: '2028-01-01' },
+      baselineDate: { value: '2027-07-01' },
+      slipDays: 184,
+      status: 'planned',
+    });
+    expect(byKey.get('cod')?.issues).toEqual([
+      { type: 'slipped', message: 'Slipped from Q3 2027 (IM.pdf) to Q1 2028 (DD.pdf)' },
+    ]);
+    expect(byKey.get('financial_close')?.status).toBe('achieved');
+    expect(byKey.get('financial_close')?.issues[0].type).toBe('contradictory');
+    expect(byKey.get('construction_start')?.status).toBe('overdue');
+    expect(schedule.map(m => m.key)).toEqual(['ppa_signing', 'financial_close', 'construction_start', 'grid_energisation', 'cod']);
+  });
+
+  it('should flag milestones scheduled before the milestone they depend on', () => {
+    const schedule = buildSchedule(observations('Schedule.pdf', '2026-01-10T00:00:00.000Z', extractDeterministicMilestones(
+      'COD is expected in June 2027. Grid energisation is planned for Q4 2027.'
+    )), new Date('2026-10-19'));
+    const cod = schedule.find(m => m.key === 'cod')!;
+
+    expect(cod.dependsOn).toBe('grid_energisation');
+    expect(cod.issues).toEqual([
+      { type: 'dependency', message: 'Jun 2027 is before Grid energisation (Q4 2027), which must happen first' },
+    ]);
+    // Dates that agree at the coarser precision are not flagged
+    const agreeing = buildSchedule(observations('Schedule.pdf', '2026-01-10T00:00:00.000Z', extractDeterministicMilestones(
+      'COD is expected in Q4 2027. Grid energisation is planned for 15 October 2027.'
+    )), new Date('2026-10-19'));
+    expect(agreeing.flatMap(m => m.issues)).toEqual([]);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Milestone Schedule
+ *
+ * Structured project milestones (financial close, NTP, construction start,
+ * energisation, COD, ...) with planned and actual dates, stored per document in
+ * the project's `milestones` table:
+ * - Pattern matching finds sentences that name a milestone and give a date
+ * - An LLM pass (prompt template `milestones`) adds milestones, actual dates and
+ *   stated dependencies
+ * - The schedule combines the milestones of all documents: the newest document
+ *   gives the current date, and older documents show how the date moved
+ * - Slipped dates (a newer document gives a later date), contradictory dates
+ *   and milestones scheduled before the milestone they depend on are flagged
+ */
+
+import { invokeStructured } from './llm-structured';
+import { milestoneExtractionSchema } from './llm-output-schemas';
+import { chunkDocument, mapWithConcurrency } from './document-chunker';
+import { formatVersionTag, getActiveTemplate, renderTemplate, type PromptTemplateVersion } from './prompt-templates';
+import { compareTypedValues, findDates, formatTypedValue, periodEnd, type DatePrecision, type DateValue } from '../shared/units';
+import type { Queryable } from './document-dedup';
+
+export interface ExtractedMilestone {
+  key: string;                 // canonical milestone, e.g. 'cod'
+  name: string;
+  plannedDate: DateValue | null;
+  actualDate: DateValue | null;
+  dependsOn: string | null;    // key of the milestone that must happen first
+  sourceText: string | null;
+  extractionMethod: 'deterministic' | 'llm';
+}
+
+export interface MilestoneObservation extends Omit<ExtractedMilestone, 'extractionMethod'> {
+  documentId: string;
+  fileName: string | null;
+  documentDate: string;        // upload date of the document (ISO)
+  superseded: boolean;         // document replaced by a newer revision
+}
+
+export type MilestoneStatus = 'planned' | 'achieved' | 'overdue';
+
+export interface ScheduleIssue {
+  type: 'slipped' | 'contradictory' | 'dependency';
+  message: string;
+}
+
+export interface ScheduleMilestone {
+  key: string;
+  name: string;
+  plannedDate: DateValue | null;   // from the newest document
+  actualDate: DateValue | null;
+  baselineDate: DateValue | null;  // planned date in the oldest document
+  slipDays: number;                // current planned date minus the baseline
+  dependsOn: string | null;
+  status: MilestoneStatus;
+  issues: ScheduleIssue[];
+  sources: Array<{
+    documentId: string;
+    fileName: string | null;
+    documentDate: string;
+    superseded: boolean;
+    plannedDate: DateValue | null;
+    actualDate: DateValue | null;
+    sourceText: string | null;
+  }>;
+}
+
+// Characters of input per LLM call; longer documents are chunked
+const CHUNK_MAX_CHARS = 15000;
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '2');
+
+// Milestones in the order they are checked; dependsOn is the default dependency
+const MILESTONE_DEFINITIONS: Array<{ key: string; name: string; pattern: RegExp; dependsOn: string | null }> = [
+  { key: 'cod', name: 'Commercial operation (COD)', pattern: /\bCOD\b|commercial operations?(?: date)?/i, dependsOn: 'grid_energisation' },
+  { key: 'financial_close', name: 'Financial close', pattern: /financial close|\bFC\b/i, dependsOn: null },
+  { key: 'ntp', name: 'Notice to proceed', pattern: /notice to proceed|\bNTP\b/i, dependsOn: null },
+  { key: 'construction_start', name: 'Construction start', pattern: /(?:start|commencement) of construction|construction (?:start|commencement|begins|will (?:start|begin|commence)|commence[sd]?)/i, dependsOn: null },
+  { key: 'mechanical_completion', name: 'Mechanical completion', pattern: /mechanical completion/i, dependsOn: 'construction_start' },
+  { key: 'grid_connection_agreement', name: 'Grid connection agreement', pattern: /(?:grid )?connection agreement|\bGCA\b/i, dependsOn: null },
+  { key: 'grid_energisation', name: 'Grid energisation', pattern: /energi[sz]ation|energi[sz]ed|back-?feed|first power/i, dependsOn: 'construction_start' },
+  { key: 'esia_approval', name: 'Environmental approval', pattern: /\bESIA\b|\bEIA\b|environmental (?:and social )?(?:impact )?(?:approval|permit|clearance|consent)/i, dependsOn: null },
+  { key: 'planning_consent', name: 'Planning consent', pattern: /planning (?:consent|permission|approval)|development (?:consent|approval)|building permit/i, dependsOn: null },
+  { key: 'land_secured', name: 'Land secured', pattern: /land (?:lease|rights|acquisition|secured)|lease agreement/i, dependsOn: null },
+  { key: 'ppa_signing', name: 'PPA signing', pattern: /\bPPA\b|power purchase agreement/i, dependsOn: null },
+];
+
+// Words that say a milestone has happened, and words that say it is still ahead
+const ACHIEVED_PATTERN = /\b(?:achieved|reached|completed|occurred|took place|(?:was|were) (?:signed|executed|granted|issued|obtained|awarded|approved|energi[sz]ed)|(?:signed|executed|granted|obtained) on)\b/i;
+const PLANNED_PATTERN = /\b(?:expected|scheduled|planned|target(?:ed)?|anticipated|forecast|estimated|due|will|by)\b/i;
+
+/**
+ * Canonical key of a milestone name ("Commercial Operation Date" -> "cod");
+ * unknown milestones get a slug of their name
+ */
+export function milestoneKey(name: string): string {
+  const definition = MILESTONE_DEFINITIONS.find(d => d.pattern.test(name));
+  if (definition) return definition.key;
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 100) || 'milestone';
+}
+
+/**
+ * Milestones found by pattern matching: a sentence naming a milestone and a
+ * date. A sentence naming several milestones is split at each name, so
+ * "construction starts in Q1 2026 with COD in Q3 2027" gives two milestones.
+ */
+export function extractDeterministicMilestones(text: string): ExtractedMilestone[] {
+  const milestones: ExtractedMilestone[] = [];
+
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+    const matches = MILESTONE_DEFINITIONS
+      .map(definition => ({ definition, index: sentence.search(definition.pattern) }))
+      .filter(match => match.index !== -1)
+      .sort((a, b) => a.index - b.index);
+    if (matches.length === 0 || findDates(sentence).length === 0) continue;
+
+    matches.forEach((match, i) => {
+      // The first milestone also takes a date written before it ("In Q3 2027 the project reaches COD")
+      const segment = sentence.substring(i === 0 ? 0 : match.index, matches[i + 1]?.index ?? sentence.length);
+      const date = findDates(segment)[0];
+      if (!date) return;
+      const achieved = ACHIEVED_PATTERN.test(segment) && !PLANNED_PATTERN.test(segment);
+      milestones.push({
+        key: match.definition.key,
+        name: match.definition.name,
+        plannedDate: achieved ? null : date,
+        actualDate: achieved ? date : null,
+        dependsOn: null,
+        sourceText: sentence.trim().substring(0, 500),
+        extractionMethod: 'deterministic',
+      });
+    });
+  }
+
+  return combineMilestones(milestones);
+}
+
+/**
+ * Milestones of a document: pattern matching, plus the LLM pass unless disabled
+ */
+export async function extractMilestones(
+  text: string,
+  documentType: string,
+  options: { useLlm?: boolean; model?: string } = {}
+): Promise<ExtractedMilestone[]> {
+  const deterministic = extractDeterministicMilestones(text);
+  if (options.useLlm === false) return deterministic;
+
+  const template = await getActiveTemplate('milestones');
+  const chunks = chunkDocument(text, { maxChars: CHUNK_MAX_CHARS });
+  const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) =>
+    extractMilestoneChunk(chunk.text, documentType, template, options.model, `${index + 1}/${chunks.length}`)
+  );
+  const llmMilestones = results.flat();
+  console.log(`[Milestones] Found ${deterministic.length} milestones by pattern matching, ${llmMilestones.length} by the LLM`);
+
+  // LLM milestones first: they carry actual dates and dependencies the patterns miss
+  return combineMilestones([...llmMilestones, ...deterministic]);
+}
+
+async function extractMilestoneChunk(
+  text: string,
+  documentType: string,
+  template: PromptTemplateVersion,
+  model: string | undefined,
+  chunkLabel: string
+): Promise<ExtractedMilestone[]> {
+  const variables = { document_type: documentType, text };
+  try {
+    const result = await invokeStructured({
+      stage: 'extraction',
+      model,
+      messages: [
+        { role: 'system', content: renderTemplate(template.systemPrompt, variables) },
+        { role: 'user', content: renderTemplate(template.body, variables) },
+      ],
+      response_format: { type: 'json_object' },
+    }, milestoneExtractionSchema, { label: `${formatVersionTag('milestones', template.version)} chunk ${chunkLabel}` });
+
+    return result.milestones
+      .map(milestone => ({
+        key: milestoneKey(milestone.name),
+        name: milestone.name,
+        plannedDate: findDates(milestone.planned_date)[0] ?? null,
+        actualDate: findDates(milestone.actual_date)[0] ?? null,
+        dependsOn: milestone.depends_on ? milestoneKey(milestone.depends_on) : null,
+        sourceText: milestone.source_quote || null,
+        extractionMethod: 'llm' as const,
+      }))
+      .filter(milestone => milestone.plannedDate || milestone.actualDate);
+  } catch (error) {
+    console.error(`[Milestones] LLM extraction failed for chunk ${chunkLabel}:`, error);
+    return [];
+  }
+}
+
+/**
+ * One milestone per key: the first mention with a date wins, later mentions
+ * fill in what it lacks. Known milestones keep their standard name.
+ */
+export function combineMilestones(milestones: ExtractedMilestone[]): ExtractedMilestone[] {
+  const combined = new Map<string, ExtractedMilestone>();
+  for (const milestone of milestones) {
+    const existing = combined.get(milestone.key);
+    if (!existing) {
+      const definition = MILESTONE_DEFINITIONS.find(d => d.key === milestone.key);
+      combined.set(milestone.key, { ...milestone, name: definition?.name ?? milestone.name });
+      continue;
+    }
+    existing.plannedDate ??= milestone.plannedDate;
+    existing.actualDate ??= milestone.actualDate;
+    existing.dependsOn ??= milestone.dependsOn;
+    existing.sourceText ??= milestone.sourceText;
+  }
+  return Array.from(combined.values());
+}
+
+/**
+ * Store the milestones of a document. Safe to re-run: the document's previous
+ * milestones are replaced.
+ */
+export async function saveDocumentMilestones(
+  projectDb: Queryable,
+  documentId: string,
+  milestones: ExtractedMilestone[]
+): Promise<number> {
+  await projectDb.execute(`DELETE FROM milestones WHERE document_id = ?`, [documentId]);
+
+  for (const milestone of milestones) {
+    await projectDb.execute(
+      `INSERT INTO milestones (document_id, milestone_key, name, planned_date, planned_precision, actual_date, actual_precision, depends_on, source_text, extraction_method)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        documentId,
+        milestone.key,
+        milestone.name.substring(0, 255),
+        milestone.plannedDate?.value ?? null,
+        milestone.plannedDate?.precision ?? null,
+        milestone.actualDate?.value ?? null,
+        milestone.actualDate?.precision ?? null,
+        milestone.dependsOn,
+        milestone.sourceText,
+        milestone.extractionMethod,
+      ]
+    );
+  }
+
+  console.log(`[Milestones] Document ${documentId}: ${milestones.length} milestones`);
+  return milestones.length;
+}
+
+/**
+ * Milestone schedule of the project, built from the milestones of every document
+ */
+export async function getProjectSchedule(projectDb: Queryable, today = new Date()): Promise<ScheduleMilestone[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT m.*, d.fileName, d.uploadDate, d.supersededBy
+     FROM milestones m
+     JOIN documents d ON d.id = m.document_id
+     ORDER BY d.uploadDate, m.id`
+  );
+
+  return buildSchedule(rows.map((row: any): MilestoneObservation => ({
+    key: row.milestone_key,
+    name: row.name,
+    plannedDate: toDateValue(row.planned_date, row.planned_precision),
+    actualDate: toDateValue(row.actual_date, row.actual_precision),
+    dependsOn: row.depends_on ?? null,
+    sourceText: row.source_text ?? null,
+    documentId: row.document_id,
+    fileName: row.fileName ?? null,
+    documentDate: new Date(row.uploadDate).toISOString(),
+    superseded: !!row.supersededBy,
+  })), today);
+}
+
+/**
+ * Combine milestone observations from all documents into a schedule, ordered
+ * by date. Dates are compared at the coarser precision of the two ("Q3 2027"
+ * and "2027-08-15" agree).
+ */
+export function buildSchedule(observations: MilestoneObservation[], today = new Date()): ScheduleMilestone[] {
+  const byKey = new Map<string, MilestoneObservation[]>();
+  for (const observation of observations) {
+    byKey.set(observation.key, [...(byKey.get(observation.key) || []), observation]);
+  }
+
+  const todayIso = today.toISOString().substring(0, 10);
+  const schedule: ScheduleMilestone[] = [];
+
+  for (const [key, keyObservations] of Array.from(byKey.entries())) {
+    // Oldest first; revisions replaced by a newer one count as older than current documents
+    const ordered = [...keyObservations].sort((a, b) =>
+      Number(b.superseded) - Number(a.superseded) || a.documentDate.localeCompare(b.documentDate)
+    );
+    const planned = ordered.filter(o => o.plannedDate);
+    const latestPlanned = planned[planned.length - 1];
+    const achieved = ordered.filter(o => o.actualDate);
+    const latestAchieved = achieved[achieved.length - 1];
+    const definition = MILESTONE_DEFINITIONS.find(d => d.key === key);
+    const issues: ScheduleIssue[] = [];
+
+    // Each change of planned date between consecutive documents
+    for (let i = 1; i < planned.length; i++) {
+      const before = planned[i - 1];
+      const after = planned[i];
+      const direction = compareDates(before.plannedDate!, after.plannedDate!);
+      if (direction === 0) continue;
+      const from = `${formatTypedValue(before.plannedDate!)} (${before.fileName ?? 'unknown document'})`;
+      const to = `${formatTypedValue(after.plannedDate!)} (${after.fileName ?? 'unknown document'})`;
+      issues.push(direction < 0
+        ? { type: 'slipped', message: `Slipped from ${from} to ${to}` }
+        : { type: 'contradictory', message: `${to} is earlier than the older ${from}` });
+    }
+
+    // A newer document still planning a milestone another document reports as achieved
+    if (latestAchieved) {
+      for (const later of planned.filter(o => o.documentDate > latestAchieved.documentDate)) {
+        if (compareDates(latestAchieved.actualDate!, later.plannedDate!) < 0) {
+          issues.push({
+            type: 'contradictory',
+            message: `Achieved ${formatTypedValue(latestAchieved.actualDate!)} (${latestAchieved.fileName ?? 'unknown document'}), but ${later.fileName ?? 'a newer document'} plans it for ${formatTypedValue(later.plannedDate!)}`,
+          });
+        }
+      }
+    }
+
+    const plannedDate = latestPlanned?.plannedDate ?? null;
+    const baselineDate = planned[0]?.plannedDate ?? null;
+    const actualDate = latestAchieved?.actualDate ?? null;
+    const status: MilestoneStatus = actualDate
+      ? 'achieved'
+      : plannedDate && periodEnd(plannedDate) < todayIso ? 'overdue' : 'planned';
+
+    schedule.push({
+      key,
+      name: definition?.name ?? keyObservations[0].name,
+      plannedDate,
+      actualDate,
+      baselineDate,
+      slipDays: plannedDate && baselineDate && compareDates(baselineDate, plannedDate) !== 0
+        ? daysBetween(baselineDate.value, plannedDate.value)
+        : 0,
+      dependsOn: [...ordered].reverse().find(o => o.dependsOn)?.dependsOn ?? definition?.dependsOn ?? null,
+      status,
+      issues,
+      sources: ordered.map(o => ({
+        documentId: o.documentId,
+        fileName: o.fileName,
+        documentDate: o.documentDate,
+        superseded: o.superseded,
+        plannedDate: o.plannedDate,
+        actualDate: o.actualDate,
+        sourceText: o.sourceText,
+      })),
+    });
+  }
+
+  // Milestones scheduled before the milestone they depend on
+  const scheduleByKey = new Map(schedule.map(m => [m.key, m]));
+  for (const milestone of schedule) {
+    const dependency = milestone.dependsOn ? scheduleByKey.get(milestone.dependsOn) : undefined;
+    const date = milestone.actualDate ?? milestone.plannedDate;
+    const dependencyDate = dependency ? dependency.actualDate ?? dependency.plannedDate : null;
+    if (!dependency || !date || !dependencyDate) continue;
+    if (compareDates(date, dependencyDate) < 0) {
+      milestone.issues.push({
+        type: 'dependency',
+        message: `${formatTypedValue(date)} is before ${dependency.name} (${formatTypedValue(dependencyDate)}), which must happen first`,
+      });
+    }
+  }
+
+  return schedule.sort((a, b) => {
+    const dateA = (a.actualDate ?? a.plannedDate)?.value ?? '9999';
+    const dateB = (b.actualDate ?? b.plannedDate)?.value ?? '9999';
+    return dateA.localeCompare(dateB) || a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * 0 when two dates agree at the coarser precision, otherwise 1 when `a` is
+ * later than `b` and -1 when it is earlier
+ */
+function compareDates(a: DateValue, b: DateValue): number {
+  if (compareTypedValues(a, b) !== 'different') return 0;
+  return a.value > b.value ? 1 : -1;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+function toDateValue(value: unknown, precision: unknown): DateValue | null {
+  if (!value) return null;
+  const iso = value instanceof Date
+    ? `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`
+    : String(value).substring(0, 10);
+  return { type: 'date', value: iso, precision: (precision as DatePrecision) || 'day' };
+}
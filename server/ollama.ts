@@ -42,6 +42,14 @@ export interface OllamaGenerateOptions {
   };
 }
 
+/**
+ * Server and timeout for a call (the saved Ollama config; environment defaults otherwise)
+ */
+export interface OllamaConnection {
+  baseUrl?: string | null;
+  timeoutSeconds?: number | null;
+}
+
 /**
  * Get Ollama base URL from environment or default
  */
@@ -52,16 +60,20 @@ function getOllamaUrl(): string {
 /**
  * Call Ollama chat completion API
  */
-export async function ollamaChat(options: OllamaGenerateOptions): Promise<OllamaResponse> {
-  const ollamaUrl = getOllamaUrl();
+export async function ollamaChat(
+  options: OllamaGenerateOptions,
+  connection: OllamaConnection = {}
+): Promise<OllamaResponse> {
+  const ollamaUrl = (connection.baseUrl || getOllamaUrl()).replace(/\/$/, '');
   const endpoint = `${ollamaUrl}/api/chat`;
+  const timeoutSeconds = connection.timeoutSeconds || 300;
 
   console.log(`[Ollama] Calling ${endpoint} with model ${options.model}`);
   console.log(`[Ollama] Message count: ${options.messages.length}`);
 
   try {
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 300000); // 5 minute timeout
+    const timeout = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
 
     const response = await fetch(endpoint, {
       method: 'POST',
@@ -89,7 +101,7 @@ export async function ollamaChat(options: OllamaGenerateOptions): Promise<Ollama
     
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
-        throw new Error('Ollama request timed out after 5 minutes.');
+        throw new Error(`Ollama request timed out after ${timeoutSeconds} seconds.`);
       }
       if (error.message.includes('ECONNREFUSED')) {
         throw new Error(`Cannot connect to Ollama at ${ollamaUrl}. Make sure Ollama is running.`);
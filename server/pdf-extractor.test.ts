@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { mergeOcrPages, selectOcrPages, type PdfPage } from './pdf-extractor';
+
+const page = (pageNumber: number, wordCount: number, extractionMethod: 'direct' | 'ocr' = 'direct'): PdfPage => ({
+  pageNumber,
+  text: Array(wordCount).fill('word').join(' '),
+  wordCount,
+  extractionMethod,
+});
+
+describe('PDF Extractor', () => {
+  it('should OCR only the pages under the word threshold', () => {
+    const pages = [page(1, 250), page(2, 0), page(3, 9), page(4, 10)];
+    expect(selectOcrPages(pages).map(p => p.pageNumber)).toEqual([2, 3]);
+  });
+
+  it('should keep the text layer where OCR recovered less text', () => {
+    const pages = [page(1, 250), page(2, 0), page(3, 9)];
+    const merged = mergeOcrPages(pages, [{ ...page(2, 180, 'ocr'), ocrConfidence: 0.82 }, page(3, 4, 'ocr')]);
+
+    expect(merged.map(p => [p.pageNumber, p.extractionMethod, p.wordCount])).toEqual([
+      [1, 'direct', 250],
+      [2, 'ocr', 180],
+      [3, 'direct', 9],
+    ]);
+  });
+});
@@ -3,7 +3,9 @@
  * 
  * Extracts text from PDF documents using multiple strategies:
  * 1. Direct text extraction (pdf-parse)
- * 2. OCR for scanned PDFs (tesseract.js)
+ * 2. OCR for scanned pages (page rasterization + tesseract.js), applied
+ *    per page so mixed documents only OCR the pages without a text layer
+ * 3. Table detection and reconstruction (see pdf-table-extractor.ts)
  * 
  * Based on Solar Analyzer implementation patterns
  */
@@ -12,16 +14,22 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { PDFParse } from 'pdf-parse';
 import { createWorker } from 'tesseract.js';
+import { extractPdfTables, type PdfTable } from './pdf-table-extractor';
+
+export interface PdfPage {
+  pageNumber: number;
+  text: string;
+  wordCount: number;
+  extractionMethod?: 'direct' | 'ocr';
+  ocrConfidence?: number; // 0-1, only set for OCR'd pages
+}
 
 export interface PdfExtractionResult {
   text: string;
   pageCount: number;
   method: 'direct' | 'ocr' | 'hybrid';
-  pages: Array<{
-    pageNumber: number;
-    text: string;
-    wordCount: number;
-  }>;
+  pages: PdfPage[];
+  tables: PdfTable[];
   metadata?: {
     title?: string;
     author?: string;
@@ -34,82 +42,142 @@ export interface PdfExtractionResult {
   };
 }
 
+// Pages with fewer words than this are treated as scanned images and OCR'd
+const MIN_WORDS_PER_PAGE = 10;
+// Render scale for OCR (2x gives ~150 DPI for typical A4/Letter pages)
+const OCR_RENDER_SCALE = 2;
+const MAX_OCR_PAGES = parseInt(process.env.MAX_OCR_PAGES || '300');
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+
 /**
- * Extract text from PDF buffer using direct text extraction
+ * Extract text from PDF buffer using direct text extraction, falling back to
+ * OCR for pages without a usable text layer (hybrid mode)
  */
 export async function extractTextFromPdf(pdfBuffer: Buffer): Promise<PdfExtractionResult> {
   console.log(`[PDF Extractor] Starting extraction for ${(pdfBuffer.length / 1024).toFixed(2)} KB PDF`);
   
+  let parser: PDFParse | null = null;
   try {
     // Try direct text extraction first
-    const parser = new PDFParse({ data: pdfBuffer });
+    parser = new PDFParse({ data: pdfBuffer });
     const result = await parser.getText();
-    const data = {
-      numpages: result.total,
-      text: result.text,
-      info: {},
-      metadata: null,
-      version: '1.0'
-    };
     
-    console.log(`[PDF Extractor] Direct extraction completed: ${data.numpages} pages, ${data.text.length} characters`);
+    console.log(`[PDF Extractor] Direct extraction completed: ${result.total} pages, ${result.text.length} characters`);
+    
+    const pages: PdfPage[] = result.pages.map(page => ({
+      pageNumber: page.num,
+      text: page.text.trim(),
+      wordCount: countWords(page.text),
+      extractionMethod: 'direct' as const,
+    }));
     
-    // Check if we got meaningful text (more than just whitespace)
-    const meaningfulText = data.text.trim();
-    const wordsPerPage = meaningfulText.split(/\s+/).length / data.numpages;
+    const lowDensityPages = selectOcrPages(pages);
     
-    // If we have less than 10 words per page on average, it's likely a scanned PDF
-    if (wordsPerPage < 10) {
-      console.log(`[PDF Extractor] Low text density detected (${wordsPerPage.toFixed(1)} words/page), attempting OCR`);
-      return await extractTextWithOcr(pdfBuffer);
+    if (lowDensityPages.length === 0) {
+      return {
+        text: result.text,
+        pageCount: result.total,
+        method: 'direct',
+        pages,
+        tables: await extractPdfTables(parser, pages),
+        metadata: undefined,
+      };
     }
     
-    // Parse pages (pdf-parse doesn't provide per-page text, so we split by form feed)
-    const pageTexts = data.text.split('\f');
-    const pages = pageTexts.map((text: string, index: number) => ({
-      pageNumber: index + 1,
-      text: text.trim(),
-      wordCount: text.trim().split(/\s+/).filter((w: string) => w.length > 0).length,
-    }));
+    console.log(`[PDF Extractor] Low text density on ${lowDensityPages.length}/${pages.length} pages, running OCR on those pages`);
+    
+    const ocrPages = await ocrPdfPages(parser, lowDensityPages.map(page => page.pageNumber));
+    const merged = mergeOcrPages(pages, ocrPages);
+    const ocrCount = merged.filter(page => page.extractionMethod === 'ocr').length;
     
     return {
-      text: data.text,
-      pageCount: data.numpages,
-      method: 'direct',
-      pages,
+      text: merged.map(page => page.text).join('\n\n'),
+      pageCount: result.total,
+      method: ocrCount === 0 ? 'direct' : ocrCount === merged.length ? 'ocr' : 'hybrid',
+      pages: merged,
+      tables: await extractPdfTables(parser, merged),
       metadata: undefined,
     };
   } catch (error) {
-    console.error('[PDF Extractor] Direct extraction failed:', error);
-    console.log('[PDF Extractor] Falling back to OCR');
-    return await extractTextWithOcr(pdfBuffer);
+    console.error('[PDF Extractor] Extraction failed:', error);
+    throw new Error(`PDF extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    if (parser) {
+      await parser.destroy().catch(() => {});
+    }
   }
 }
 
 /**
- * Extract text using OCR (for scanned PDFs)
- * Note: This is a simplified version. For production, consider using pdf-poppler
- * to convert to images first (like Solar Analyzer does)
+ * Pages with (almost) no text layer, likely scanned images, to OCR
+ */
+export function selectOcrPages(pages: PdfPage[]): PdfPage[] {
+  return pages.filter(page => page.wordCount < MIN_WORDS_PER_PAGE);
+}
+
+/**
+ * Replace pages with their OCR text, keeping the text layer of a page where
+ * OCR recovered less text than it had
  */
-async function extractTextWithOcr(pdfBuffer: Buffer): Promise<PdfExtractionResult> {
-  console.log('[PDF Extractor] Starting OCR extraction');
+export function mergeOcrPages(pages: PdfPage[], ocrPages: PdfPage[]): PdfPage[] {
+  return pages.map(page => {
+    const ocrPage = ocrPages.find(ocr => ocr.pageNumber === page.pageNumber);
+    return ocrPage && ocrPage.wordCount >= page.wordCount ? ocrPage : page;
+  });
+}
+
+/**
+ * OCR the given pages: rasterize each page and run tesseract.js on the image.
+ * Pages are rendered one at a time to keep memory bounded on large scans.
+ */
+async function ocrPdfPages(parser: PDFParse, pageNumbers: number[]): Promise<PdfPage[]> {
+  const pagesToOcr = pageNumbers.slice(0, MAX_OCR_PAGES);
+  if (pagesToOcr.length < pageNumbers.length) {
+    console.warn(`[PDF Extractor] OCR limited to first ${MAX_OCR_PAGES} of ${pageNumbers.length} low-density pages`);
+  }
+  
+  console.log(`[PDF Extractor] Starting OCR extraction for ${pagesToOcr.length} page(s)`);
+  const worker = await createWorker(OCR_LANGUAGE);
+  const results: PdfPage[] = [];
   
   try {
-    // For now, return a placeholder indicating OCR is needed
-    // In production, this would use pdf-poppler + tesseract like Solar Analyzer
-    console.warn('[PDF Extractor] OCR extraction not fully implemented yet');
-    
-    return {
-      text: '[OCR extraction required - scanned PDF detected]',
-      pageCount: 0,
-      method: 'ocr',
-      pages: [],
-      metadata: undefined,
-    };
-  } catch (error) {
-    console.error('[PDF Extractor] OCR extraction failed:', error);
-    throw new Error(`PDF extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+    for (const pageNumber of pagesToOcr) {
+      try {
+        const screenshot = await parser.getScreenshot({
+          partial: [pageNumber],
+          scale: OCR_RENDER_SCALE,
+          imageBuffer: true,
+          imageDataUrl: false,
+        });
+        const image = screenshot.pages[0];
+        if (!image?.data) continue;
+        
+        const { data } = await worker.recognize(Buffer.from(image.data));
+        const text = data.text.trim();
+        const confidence = Math.round(data.confidence) / 100;
+        
+        results.push({
+          pageNumber,
+          text,
+          wordCount: countWords(text),
+          extractionMethod: 'ocr',
+          ocrConfidence: confidence,
+        });
+        
+        console.log(`[PDF Extractor] OCR page ${pageNumber}: ${countWords(text)} words, confidence ${(confidence * 100).toFixed(0)}%`);
+      } catch (error) {
+        console.error(`[PDF Extractor] OCR failed for page ${pageNumber}:`, error);
+      }
+    }
+  } finally {
+    await worker.terminate();
   }
+  
+  return results;
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(w => w.length > 0).length;
 }
 
 /**
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { classifyTable, formatTablesForExtraction, reconstructTablesFromText } from './pdf-table-extractor';
+
+describe('PDF Table Extractor', () => {
+  it('should rebuild a borderless table with its caption and header row', () => {
+    const page = [
+      'The energy yield assessment gives the following results.',
+      'Table 4: Energy yield summary',
+      'Scenario\tEnergy (GWh/yr)\tSpecific yield (kWh/kWp)',
+      'P50\t285.4\t1,905',
+      'P90 (1-year)\t262.1\t1,749',
+      'Results include all losses.',
+    ].join('\n');
+
+    const tables = reconstructTablesFromText(page, 12);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0]).toMatchObject({
+      pageNumber: 12,
+      tableIndex: 0,
+      caption: 'Table 4: Energy yield summary',
+      headers: ['Scenario', 'Energy (GWh/yr)', 'Specific yield (kWh/kWp)'],
+      rows: [['P50', '285.4', '1,905'], ['P90 (1-year)', '262.1', '1,749']],
+      detection: 'layout',
+      tableType: 'performance',
+    });
+  });
+
+  it('should ignore short or non-numeric multi-column runs', () => {
+    const page = [
+      'Prepared by\tApproved by',
+      'J. Smith\tA. Jones',
+      'Engineer\tDirector',
+      'Revision\t2',
+      'Date\t2026-03-01',
+    ].join('\n');
+
+    expect(reconstructTablesFromText(page, 1)).toEqual([]);
+  });
+
+  it('should classify tables and format rows as column records', () => {
+    const capex = {
+      pageNumber: 30,
+      caption: 'CAPEX breakdown',
+      headers: ['Item', 'Cost (USD m)'],
+      rows: [['Modules', '32.5'], ['Inverters', '6.1']],
+    };
+
+    expect(classifyTable(capex)).toBe('financial');
+    expect(classifyTable({ caption: null, headers: [], rows: [['Prepared by', 'J. Smith']] })).toBe('other');
+    expect(formatTablesForExtraction([capex])).toBe(
+      '[Table, page 30: CAPEX breakdown]\nModules | Cost (USD m): 32.5\nInverters | Cost (USD m): 6.1'
+    );
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * PDF Table Extraction
+ *
+ * Rebuilds tables (energy yield summaries, CapEx breakdowns, equipment schedules)
+ * that pdf-extractor.ts would otherwise return as jumbled running text:
+ * 1. Ruled tables: detected from the page's vector lines (pdf-parse getTable)
+ * 2. Borderless tables: reconstructed from the text layout, where pdf-parse
+ *    separates items with a large horizontal gap by a tab
+ *
+ * Tables are stored in document_tables (linked to document + page) and passed to
+ * the performance/financial extractors as structured row records.
+ */
+
+import type { PDFParse } from 'pdf-parse';
+import type { PdfPage } from './pdf-extractor';
+import type { Queryable } from './document-dedup';
+
+export type TableType = 'financial' | 'performance' | 'other';
+
+export interface PdfTable {
+  pageNumber: number;
+  tableIndex: number;      // position of the table on its page
+  caption: string | null;  // line directly above the table, e.g. "Table 4: Energy yield summary"
+  headers: string[];       // empty when the first row holds data
+  rows: string[][];        // data rows, padded to the same number of columns
+  detection: 'ruled' | 'layout';
+  tableType: TableType;
+}
+
+// Borderless tables need at least this many consecutive multi-column lines
+const MIN_LAYOUT_ROWS = 3;
+const MAX_CAPTION_LENGTH = 120;
+
+const FINANCIAL_PATTERN = /\b(capex|opex|cost|costs|budget|price|tariff|revenue|usd|eur|gbp|irr|npv|debt|equity|fee|fees)\b|[$€£]/i;
+const PERFORMANCE_PATTERN = /\b(p50|p90|p75|yield|gwh|mwh|kwh\/kwp|mwp|mwac|kwp|irradiation|ghi|dni|losses|degradation|availability|capacity factor|performance ratio|module|modules|inverter|inverters|tracker|tilt|azimuth)\b/i;
+
+/**
+ * Detect the tables of a parsed PDF. Pages with ruled tables use those; other
+ * pages fall back to layout reconstruction from their text.
+ */
+export async function extractPdfTables(parser: PDFParse, pages: PdfPage[]): Promise<PdfTable[]> {
+  const tables: PdfTable[] = [];
+  const pagesWithRuledTables = new Set<number>();
+
+  try {
+    const result = await parser.getTable();
+    for (const page of result.pages) {
+      const pageText = pages.find(p => p.pageNumber === page.num)?.text || '';
+      const ruled = page.tables
+        .map(rows => rows.map(row => row.map(cell => cell.replace(/\s+/g, ' ').trim())))
+        .filter(rows => rows.length >= 2 && Math.max(...rows.map(r => r.length)) >= 2);
+
+      ruled.forEach((rows, i) => {
+        tables.push(buildTable(rows, page.num, i, findCaption(pageText, rows[0]), 'ruled'));
+      });
+      if (ruled.length > 0) pagesWithRuledTables.add(page.num);
+    }
+  } catch (error) {
+    console.error('[PDF Tables] Ruled table detection failed, using layout reconstruction only:', error);
+  }
+
+  for (const page of pages) {
+    if (pagesWithRuledTables.has(page.pageNumber) || page.extractionMethod === 'ocr') continue;
+    tables.push(...reconstructTablesFromText(page.text, page.pageNumber));
+  }
+
+  tables.sort((a, b) => a.pageNumber - b.pageNumber || a.tableIndex - b.tableIndex);
+  console.log(`[PDF Tables] Found ${tables.length} table(s) (${tables.filter(t => t.detection === 'ruled').length} ruled)`);
+  return tables;
+}
+
+/**
+ * Rebuild borderless tables from a page's text: runs of consecutive lines with
+ * two or more tab-separated cells, most of them containing numbers.
+ */
+export function reconstructTablesFromText(pageText: string, pageNumber: number): PdfTable[] {
+  const lines = pageText.split('\n');
+  const tables: PdfTable[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (splitCells(lines[i]).length < 2) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const block: string[][] = [];
+    while (i < lines.length && splitCells(lines[i]).length >= 2) {
+      block.push(splitCells(lines[i]));
+      i++;
+    }
+
+    const numericRows = block.filter(row => row.some(isNumericCell)).length;
+    if (block.length >= MIN_LAYOUT_ROWS && numericRows >= 2) {
+      const caption = start > 0 ? captionCandidate(lines[start - 1]) : null;
+      tables.push(buildTable(block, pageNumber, tables.length, caption, 'layout'));
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Keyword-based guess of what a table is about, used to route it to the right extractor
+ */
+export function classifyTable(table: Pick<PdfTable, 'caption' | 'headers' | 'rows'>): TableType {
+  const text = [table.caption || '', ...table.headers, ...table.rows.map(row => row[0] || '')].join(' ');
+  const financial = (text.match(new RegExp(FINANCIAL_PATTERN, 'gi')) || []).length;
+  const performance = (text.match(new RegExp(PERFORMANCE_PATTERN, 'gi')) || []).length;
+  if (financial === 0 && performance === 0) return 'other';
+  return financial > performance ? 'financial' : 'performance';
+}
+
+/**
+ * Tables as row records ("P50 | Energy (GWh/yr): 285.4 | Specific yield: 1,905")
+ * for the performance/financial extractors
+ */
+export function formatTablesForExtraction(tables: Array<Pick<PdfTable, 'pageNumber' | 'caption' | 'headers' | 'rows'>>): string {
+  return tables.map(table => {
+    const title = `[Table, page ${table.pageNumber}${table.caption ? `: ${table.caption}` : ''}]`;
+    const rows = table.rows.map(row => {
+      if (table.headers.length === 0) return row.filter(Boolean).join(' | ');
+      const [label, ...values] = row;
+      const pairs = values
+        .map((value, i) => (value ? `${table.headers[i + 1] || `Column ${i + 2}`}: ${value}` : null))
+        .filter(Boolean);
+      return [label, ...pairs].filter(Boolean).join(' | ');
+    });
+    return [title, ...rows].join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Replace the stored tables of a document
+ */
+export async function saveDocumentTables(
+  projectDb: Queryable,
+  documentId: string,
+  tables: PdfTable[]
+): Promise<void> {
+  await projectDb.execute(`DELETE FROM document_tables WHERE document_id = ?`, [documentId]);
+
+  for (const table of tables) {
+    await projectDb.execute(
+      `INSERT INTO document_tables (document_id, page_number, table_index, caption, detection_method, table_type, headers, table_rows, row_count, column_count)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        documentId,
+        table.pageNumber,
+        table.tableIndex,
+        table.caption,
+        table.detection,
+        table.tableType,
+        JSON.stringify(table.headers),
+        JSON.stringify(table.rows),
+        table.rows.length,
+        Math.max(table.headers.length, ...table.rows.map(row => row.length)),
+      ]
+    );
+  }
+
+  if (tables.length > 0) {
+    console.log(`[PDF Tables] Saved ${tables.length} table(s) for ${documentId}`);
+  }
+}
+
+/**
+ * Stored tables of one type across the project's current (non-superseded) documents
+ */
+export async function loadDocumentTables(
+  projectDb: Queryable,
+  tableType: TableType
+): Promise<PdfTable[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT t.page_number, t.table_index, t.caption, t.detection_method, t.table_type, t.headers, t.table_rows
+     FROM document_tables t
+     JOIN documents d ON d.id = t.document_id
+     WHERE t.table_type = ? AND d.supersededBy IS NULL
+     ORDER BY d.createdAt, t.page_number, t.table_index`,
+    [tableType]
+  );
+  return (rows || []).map(rowToTable);
+}
+
+/**
+ * Stored tables of one document, in page order
+ */
+export async function listDocumentTables(projectDb: Queryable, documentId: string): Promise<PdfTable[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT page_number, table_index, caption, detection_method, table_type, headers, table_rows
+     FROM document_tables WHERE document_id = ?
+     ORDER BY page_number, table_index`,
+    [documentId]
+  );
+  return (rows || []).map(rowToTable);
+}
+
+function rowToTable(row: any): PdfTable {
+  return {
+    pageNumber: row.page_number,
+    tableIndex: row.table_index,
+    caption: row.caption,
+    headers: typeof row.headers === 'string' ? JSON.parse(row.headers) : row.headers || [],
+    rows: typeof row.table_rows === 'string' ? JSON.parse(row.table_rows) : row.table_rows || [],
+    detection: row.detection_method,
+    tableType: row.table_type,
+  };
+}
+
+function buildTable(
+  rawRows: string[][],
+  pageNumber: number,
+  tableIndex: number,
+  caption: string | null,
+  detection: PdfTable['detection']
+): PdfTable {
+  const columnCount = Math.max(...rawRows.map(row => row.length));
+  const padded = rawRows.map(row => [...row, ...new Array(columnCount - row.length).fill('')]);
+
+  // First row is a header when it holds no numbers (years like "2025" count as labels)
+  const first = padded[0];
+  const hasHeader = first.every(cell => !isNumericCell(cell) || /^(19|20)\d{2}$/.test(cell)) && first.some(Boolean);
+  const headers = hasHeader ? first : [];
+  const rows = hasHeader ? padded.slice(1) : padded;
+
+  const table = { pageNumber, tableIndex, caption, headers, rows, detection, tableType: 'other' as TableType };
+  table.tableType = classifyTable(table);
+  return table;
+}
+
+function splitCells(line: string): string[] {
+  return line.split('\t').map(cell => cell.replace(/\s+/g, ' ').trim()).filter(cell => cell.length > 0);
+}
+
+function isNumericCell(cell: string): boolean {
+  return /^[-–(]?\s*[$€£]?\s*\d[\d,.' ]*\s*(%|[kmb]n?|mw[hp]?|gwh|kwh|kwp)?\)?$/i.test(cell.trim());
+}
+
+function captionCandidate(line: string): string | null {
+  const text = line.replace(/\s+/g, ' ').trim();
+  if (!text || text.length > MAX_CAPTION_LENGTH || splitCells(line).length > 1) return null;
+  return text;
+}
+
+/**
+ * Caption of a ruled table: the short line above the line holding its first cell
+ */
+function findCaption(pageText: string, firstRow: string[]): string | null {
+  const firstCell = firstRow.find(Boolean);
+  if (!firstCell) return null;
+  const lines = pageText.split('\n');
+  const index = lines.findIndex(line => line.includes(firstCell));
+  return index > 0 ? captionCandidate(lines[index - 1]) : null;
+}
@@ -6,7 +6,26 @@
  * - Financial data (CapEx/OpEx breakdown, normalized metrics)
  */
 
-import { invokeLLM } from "./_core/llm";
+import { invokeStructured } from "./llm-structured";
+import { financialDataSchema, performanceParametersSchema } from "./llm-output-schemas";
+import { chunkDocument, mapWithConcurrency } from "./document-chunker";
+import { formatTablesForExtraction, type PdfTable } from "./pdf-table-extractor";
+import { formatVersionTag, getActiveTemplate, renderTemplate, type PromptTemplateVersion } from "./prompt-templates";
+import { toUnitValue } from "../shared/units";
+
+// Characters of input per LLM call; longer inputs are chunked and merged
+const CHUNK_MAX_CHARS = 15000;
+const CHUNK_CONCURRENCY = parseInt(process.env.LLM_CHUNK_CONCURRENCY || '2');
+
+// Unit of a field from its name suffix (dc_capacity_mw -> MW)
+const FIELD_UNIT_SUFFIXES: Array<[string, string]> = [
+  ['_mw', 'MW'],
+  ['_kw', 'kW'],
+  ['_watts', 'W'],
+  ['_gwh', 'GWh'],
+  ['_percent', '%'],
+  ['_usd', 'USD'],
+];
 
 export interface PerformanceParameters {
   // System design
@@ -50,6 +69,7 @@ export interface PerformanceParameters {
   // Metadata
   confidence: number;
   extraction_method: string;
+  prompt_version?: string; // prompt template version, e.g. "financial_data@v2"
   notes?: string;
 }
 
@@ -85,102 +105,122 @@ export interface FinancialData {
   // Metadata
   confidence: number;
   extraction_method: string;
+  prompt_version?: string; // prompt template version, e.g. "financial_data@v2"
   notes?: string;
 }
 
+type TableInput = Pick<PdfTable, 'pageNumber' | 'caption' | 'headers' | 'rows'>;
+
+function withTables(documentText: string, tables: TableInput[]): string {
+  if (tables.length === 0) return documentText;
+  return `STRUCTURED TABLES (rows as "label | column: value"):\n${formatTablesForExtraction(tables)}\n\n${documentText}`;
+}
+
 export class PerformanceFinancialExtractor {
   /**
-   * Extract performance parameters from document text
+   * Extract performance parameters from document text, with tables from the
+   * source PDFs passed as structured rows ahead of the text
    */
   async extractPerformanceParameters(
     documentText: string,
-    documentType: string
+    documentType: string,
+    tables: TableInput[] = []
   ): Promise<PerformanceParameters | null> {
     console.log(`[Performance Extractor] Extracting performance parameters from ${documentType}`);
-    
-    const prompt = `You are extracting technical parameters for solar farm performance validation from a ${documentType} document.
 
-Extract the following information if present in the document. Return ONLY a JSON object with these fields (use null for missing values):
+    // One template version for every chunk of the document
+    const template = await getActiveTemplate('performance_parameters');
+    const extracted = await this.extractFromChunks(withTables(documentText, tables), '[Performance Extractor]', (text) =>
+      this.extractPerformanceChunk(text, documentType, template)
+    );
+    if (!extracted) return null;
 
-{
-  "dc_capacity_mw": "DC capacity in MW (e.g., '100.5')",
-  "ac_capacity_mw": "AC capacity in MW (e.g., '80.0'). Also look for grid connection limits, export limits, or POI capacity as these typically define AC capacity.",
-  "module_model": "Solar module model name (e.g., 'Longi LR5-72HPH-550M')",
-  "module_power_watts": "Module power rating in watts (e.g., '550')",
-  "module_count": "Total number of modules (integer)",
-  "inverter_model": "Inverter model name (e.g., 'Sungrow SG3125HV')",
-  "inverter_power_kw": "Inverter power rating in kW (e.g., '3125')",
-  "inverter_count": "Total number of inverters (integer)",
-  "tracking_type": "Tracking system type: 'fixed_tilt', 'single_axis', or 'dual_axis'",
-  "tilt_angle_degrees": "Module tilt angle in degrees (e.g., '25')",
-  "azimuth_degrees": "Module azimuth in degrees (e.g., '180' for south-facing)",
-  "latitude": "Site latitude (e.g., '35.7')",
-  "longitude": "Site longitude (e.g., '14.5')",
-  "site_name": "Project site name or location",
-  "elevation_m": "Site elevation in meters (e.g., '120')",
-  "timezone": "Site timezone (e.g., 'Europe/Malta')",
-  "system_losses_percent": "Total system losses percentage (e.g., '12.5')",
-  "degradation_rate_percent": "Annual degradation rate percentage (e.g., '0.5')",
-  "availability_percent": "System availability percentage (e.g., '98.5')",
-  "soiling_loss_percent": "Soiling losses percentage (e.g., '2.0')",
-  "weather_file_url": "URL or reference to TMY/weather file",
-  "ghi_annual_kwh_m2": "Annual global horizontal irradiation in kWh/m² (e.g., '1950')",
-  "dni_annual_kwh_m2": "Annual direct normal irradiation in kWh/m² (e.g., '2200')",
-  "temperature_ambient_c": "Average ambient temperature in °C (e.g., '19.5')",
-  "p50_generation_gwh": "P50 annual generation estimate in GWh (e.g., '235.4')",
-  "p90_generation_gwh": "P90 annual generation estimate in GWh (e.g., '220.1')",
-  "capacity_factor_percent": "Expected capacity factor percentage (e.g., '26.8')",
-  "specific_yield_kwh_kwp": "Specific yield in kWh/kWp (e.g., '1850')",
-  "notes": "Any additional relevant notes or assumptions"
-}
+    const { totalFields, extractedFields, confidence } = scoreFields(extracted);
+    console.log(`[Performance Extractor] Extracted ${extractedFields}/${totalFields} performance parameters (confidence: ${(confidence * 100).toFixed(1)}%)`);
+
+    return {
+      ...extracted,
+      confidence,
+      extraction_method: 'llm',
+      prompt_version: formatVersionTag('performance_parameters', template.version)
+    };
+  }
 
-IMPORTANT:
-- Extract exact values as they appear in the document
-- Use null for any field not found in the document
-- For ac_capacity_mw: Look for explicit AC capacity, grid connection limits, export limits, POI (Point of Interconnection) capacity, or grid constraints. These all typically define the AC capacity.
-- For tracking_type, standardize to: fixed_tilt, single_axis, or dual_axis
-- For numeric fields, extract only the number (no units in the value)
-- Return valid JSON only, no explanations
+  /**
+   * Extract financial data from document text, with tables from the source
+   * PDFs passed as structured rows ahead of the text
+   */
+  async extractFinancialData(
+    documentText: string,
+    documentType: string,
+    tables: TableInput[] = []
+  ): Promise<FinancialData | null> {
+    console.log(`[Financial Extractor] Extracting financial data from ${documentType}`);
 
-Document text:
-${documentText.substring(0, 15000)}`;
+    // One template version for every chunk of the document
+    const template = await getActiveTemplate('financial_data');
+    const extracted = await this.extractFromChunks(withTables(documentText, tables), '[Financial Extractor]', (text) =>
+      this.extractFinancialChunk(text, documentType, template)
+    );
+    if (!extracted) return null;
+
+    const { totalFields, extractedFields, confidence } = scoreFields(extracted);
+    console.log(`[Financial Extractor] Extracted ${extractedFields}/${totalFields} financial data points (confidence: ${(confidence * 100).toFixed(1)}%)`);
+
+    return {
+      ...extracted,
+      confidence,
+      extraction_method: 'llm',
+      prompt_version: formatVersionTag('financial_data', template.version)
+    };
+  }
+
+  /**
+   * Run a chunk extractor over the whole text and merge the results.
+   * Returns null only when every chunk failed.
+   */
+  private async extractFromChunks(
+    documentText: string,
+    logPrefix: string,
+    extractChunk: (text: string) => Promise<Record<string, any> | null>
+  ): Promise<Record<string, any> | null> {
+    const chunks = chunkDocument(documentText, { maxChars: CHUNK_MAX_CHARS });
+    if (chunks.length > 1) {
+      console.log(`${logPrefix} Input is ${documentText.length} chars, extracting from ${chunks.length} chunks`);
+    }
+
+    const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk => extractChunk(chunk.text));
+    const succeeded = results.filter((r): r is Record<string, any> => r !== null);
+    if (succeeded.length === 0) return null;
+    if (succeeded.length < results.length) {
+      console.log(`${logPrefix} ${results.length - succeeded.length}/${results.length} chunks failed`);
+    }
+
+    return normalizeFieldUnits(mergeChunkFields(succeeded));
+  }
+
+  /**
+   * Extract performance parameter fields from one chunk of text
+   */
+  private async extractPerformanceChunk(
+    documentText: string,
+    documentType: string,
+    template: PromptTemplateVersion
+  ): Promise<Record<string, any> | null> {
+    const variables = { document_type: documentType, text: documentText };
+    const prompt = renderTemplate(template.body, variables);
 
     try {
-      const response = await invokeLLM({
+      return await invokeStructured({
+        stage: 'extraction',
         messages: [
-          { role: "system", content: "You are a technical data extraction assistant. Extract information accurately and return valid JSON only." },
+          { role: "system", content: renderTemplate(template.systemPrompt, variables) },
           { role: "user", content: prompt }
         ],
         response_format: {
           type: "json_object"
         }
-      });
-
-      if (!response.choices || response.choices.length === 0) {
-        console.log(`[Performance Extractor] No choices returned from LLM`);
-        return null;
-      }
-      
-      const content = response.choices[0].message.content;
-      if (!content || typeof content !== 'string') {
-        console.log(`[Performance Extractor] No content returned from LLM`);
-        return null;
-      }
-
-      const extracted = JSON.parse(content);
-      
-      // Count non-null fields to calculate confidence
-      const totalFields = Object.keys(extracted).length;
-      const extractedFields = Object.values(extracted).filter(v => v !== null).length;
-      const confidence = totalFields > 0 ? extractedFields / totalFields : 0;
-      
-      console.log(`[Performance Extractor] Extracted ${extractedFields}/${totalFields} performance parameters (confidence: ${(confidence * 100).toFixed(1)}%)`);
-      
-      return {
-        ...extracted,
-        confidence,
-        extraction_method: 'llm'
-      };
+      }, performanceParametersSchema, { label: formatVersionTag('performance_parameters', template.version) });
     } catch (error) {
       console.error(`[Performance Extractor] Extraction failed:`, error);
       return null;
@@ -188,56 +228,21 @@ ${documentText.substring(0, 15000)}`;
   }
 
   /**
-   * Extract financial data from document text
+   * Extract financial data fields from one chunk of text
    */
-  async extractFinancialData(
+  private async extractFinancialChunk(
     documentText: string,
-    documentType: string
-  ): Promise<FinancialData | null> {
-    console.log(`[Financial Extractor] Extracting financial data from ${documentType}`);
-    
-    const prompt = `You are extracting financial data (CapEx and OpEx) from a ${documentType} document for solar farm benchmarking.
-
-Extract the following information if present in the document. Return ONLY a JSON object with these fields (use null for missing values):
-
-{
-  "total_capex_usd": "Total capital expenditure in USD (e.g., '125000000')",
-  "modules_usd": "Cost of solar modules in USD (e.g., '45000000')",
-  "inverters_usd": "Cost of inverters in USD (e.g., '12000000')",
-  "trackers_usd": "Cost of tracking systems in USD (e.g., '18000000')",
-  "civil_works_usd": "Cost of civil works in USD (e.g., '15000000')",
-  "grid_connection_usd": "Cost of grid connection in USD (e.g., '8000000')",
-  "development_costs_usd": "Development costs in USD (e.g., '5000000')",
-  "other_capex_usd": "Other CapEx costs in USD (e.g., '3000000')",
-  "total_opex_annual_usd": "Total annual OpEx in USD (e.g., '2500000')",
-  "om_usd": "Annual O&M costs in USD (e.g., '1500000')",
-  "insurance_usd": "Annual insurance costs in USD (e.g., '500000')",
-  "land_lease_usd": "Annual land lease costs in USD (e.g., '300000')",
-  "asset_management_usd": "Annual asset management costs in USD (e.g., '150000')",
-  "other_opex_usd": "Other annual OpEx in USD (e.g., '50000')",
-  "capex_per_watt_usd": "CapEx per watt in USD (e.g., '1.25')",
-  "opex_per_mwh_usd": "OpEx per MWh in USD (e.g., '10.5')",
-  "original_currency": "Original currency code if not USD (e.g., 'EUR', 'GBP')",
-  "exchange_rate_to_usd": "Exchange rate to USD if applicable (e.g., '1.08')",
-  "cost_year": "Year of cost estimates (integer, e.g., 2024)",
-  "escalation_rate_percent": "Annual cost escalation rate percentage (e.g., '2.5')",
-  "notes": "Any additional relevant notes about costs"
-}
-
-IMPORTANT:
-- Extract exact numeric values (no currency symbols or units)
-- Convert all costs to USD if exchange rate is provided
-- Use null for any field not found in the document
-- For normalized metrics ($/W, $/MWh), calculate if raw data is available
-- Return valid JSON only, no explanations
-
-Document text:
-${documentText.substring(0, 15000)}`;
+    documentType: string,
+    template: PromptTemplateVersion
+  ): Promise<Record<string, any> | null> {
+    const variables = { document_type: documentType, text: documentText };
+    const prompt = renderTemplate(template.body, variables);
 
     try {
-      const response = await invokeLLM({
+      return await invokeStructured({
+        stage: 'extraction',
         messages: [
-          { role: "system", content: "You are a financial data extraction assistant. Extract cost information accurately and return valid JSON only." },
+          { role: "system", content: renderTemplate(template.systemPrompt, variables) },
           { role: "user", content: prompt }
         ],
         response_format: {
@@ -275,36 +280,52 @@ ${documentText.substring(0, 15000)}`;
             }
           }
         }
-      });
-
-      if (!response.choices || response.choices.length === 0) {
-        console.log(`[Financial Extractor] No choices returned from LLM`);
-        return null;
-      }
-      
-      const content = response.choices[0].message.content;
-      if (!content || typeof content !== 'string') {
-        console.log(`[Financial Extractor] No content returned from LLM`);
-        return null;
-      }
-
-      const extracted = JSON.parse(content);
-      
-      // Count non-null fields to calculate confidence
-      const totalFields = Object.keys(extracted).length;
-      const extractedFields = Object.values(extracted).filter(v => v !== null).length;
-      const confidence = totalFields > 0 ? extractedFields / totalFields : 0;
-      
-      console.log(`[Financial Extractor] Extracted ${extractedFields}/${totalFields} financial data points (confidence: ${(confidence * 100).toFixed(1)}%)`);
-      
-      return {
-        ...extracted,
-        confidence,
-        extraction_method: 'llm'
-      };
+      }, financialDataSchema, { label: formatVersionTag('financial_data', template.version) });
     } catch (error) {
       console.error(`[Financial Extractor] Extraction failed:`, error);
       return null;
     }
   }
 }
+
+/**
+ * Merge per-chunk field objects: the first non-null value in document order wins
+ */
+export function mergeChunkFields(results: Record<string, any>[]): Record<string, any> {
+  const merged: Record<string, any> = {};
+  for (const result of results) {
+    for (const [field, value] of Object.entries(result)) {
+      if (merged[field] === undefined || merged[field] === null) {
+        merged[field] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Convert values with units into the unit of their field ("0.3 GW" -> "300"
+ * for dc_capacity_mw). Values that can't be converted (another currency, no
+ * number) are kept as extracted.
+ */
+export function normalizeFieldUnits(fields: Record<string, any>): Record<string, any> {
+  const normalized: Record<string, any> = { ...fields };
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== 'string') continue;
+    const unit = FIELD_UNIT_SUFFIXES.find(([suffix]) => field.endsWith(suffix))?.[1];
+    if (!unit) continue;
+    const converted = toUnitValue(value, unit);
+    if (converted !== null) normalized[field] = String(converted);
+  }
+  return normalized;
+}
+
+/**
+ * Confidence = share of requested fields that were found
+ */
+function scoreFields(extracted: Record<string, any>) {
+  const totalFields = Object.keys(extracted).length;
+  const extractedFields = Object.values(extracted).filter(v => v !== null).length;
+  const confidence = totalFields > 0 ? extractedFields / totalFields : 0;
+  return { totalFields, extractedFields, confidence };
+}
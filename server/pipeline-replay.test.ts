@@ -0,0 +1,221 @@
+/**
+ * End-to-end replay of the ingestion pipeline: the fixture documents are
+ * processed, stored and consolidated with the LLM responses recorded in
+ * data/fixtures/pipeline/llm-recordings. Runs in strict mode, so a prompt
+ * change without re-recorded responses fails.
+ *
+ * To re-record against a live provider, delete the recordings and run
+ * LLM_RECORD_MODE=record npx vitest run server/pipeline-replay.test.ts
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import path from 'path';
+import { processDocument } from './document-processor-v2';
+import { insertRawFacts } from './simple-fact-inserter';
+import { ProjectConsolidator } from './project-consolidator';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'data', 'fixtures', 'pipeline');
+const PROJECT_ID = 1;
+
+const DOCUMENTS = [
+  { id: 'doc-im', file: 'sunridge-im.txt', documentType: 'IM' },
+  { id: 'doc-grid', file: 'sunridge-grid-study.txt', documentType: 'GRID_STUDY' },
+];
+
+type Row = Record<string, any>;
+
+// Columns the project schema fills in on insert
+const COLUMN_DEFAULTS: Record<string, Row> = {
+  extracted_facts: { deleted_at: null, superseded_by: null, is_stale: 0, verified: 0 },
+};
+
+/**
+ * Just enough of MySQL for the pipeline's statements: INSERT, UPDATE, DELETE
+ * and SELECT on one table with AND / OR / IN / IS NULL conditions and LIMIT.
+ * Joins and ORDER BY are ignored, as are conditions and assignments that are
+ * not plain comparisons with literals, placeholders or NOW().
+ */
+class InMemoryProjectDb {
+  private tables = new Map<string, Row[]>();
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  async execute(sql: string, values: any[] = []): Promise<any> {
+    let index = 0;
+    const statement = sql.trim().replace(/'(?:[^']|'')*'|\?/g, token => (token === '?' ? `:${index++}` : token));
+    const literal = (text: string) => parseLiteral(text.trim(), values);
+
+    let match = statement.match(/^INSERT INTO (\w+)\s*\(([^)]*)\)\s*VALUES\s*\(([\s\S]*)\)$/i);
+    if (match) {
+      const columns = match[2].split(',').map(column => column.trim().replace(/`/g, ''));
+      const row: Row = { ...COLUMN_DEFAULTS[match[1]] };
+      splitTopLevel(match[3], /,/y).forEach((value, i) => { row[columns[i]] = literal(value); });
+      this.rows(match[1]).push(row);
+      return [{ affectedRows: 1 }];
+    }
+
+    match = statement.match(/^UPDATE (\w+)\s+SET\s+([\s\S]*)$/i);
+    if (match) {
+      const [assignments, condition] = splitTopLevel(match[2], /\s+WHERE\s+/iy);
+      const rows = this.rows(match[1]).filter(row => matches(row, condition, literal));
+      for (const assignment of splitTopLevel(assignments, /,/y)) {
+        const [, column, value] = assignment.match(/^`?(\w+)`?\s*=\s*([\s\S]+)$/)!;
+        const parsed = literal(value);
+        if (parsed !== undefined) rows.forEach(row => { row[column] = parsed; });
+      }
+      return [{ affectedRows: rows.length }];
+    }
+
+    match = statement.match(/^DELETE FROM (\w+)([\s\S]*)$/i);
+    if (match) {
+      const condition = splitTopLevel(match[2], /\s+WHERE\s+/iy)[1];
+      const rows = this.rows(match[1]);
+      const kept = rows.filter(row => !matches(row, condition, literal));
+      this.tables.set(match[1], kept);
+      return [{ affectedRows: rows.length - kept.length }];
+    }
+
+    match = statement.match(/^SELECT [\s\S]*? FROM (\w+)([\s\S]*)$/i);
+    if (match) {
+      const limit = match[2].match(/\s+LIMIT\s+(\d+)\s*$/i);
+      const condition = splitTopLevel(match[2].replace(/\s+(ORDER BY|LIMIT)\s+[\s\S]*$/i, ''), /\s+WHERE\s+/iy)[1];
+      const rows = this.rows(match[1]).filter(row => matches(row, condition, literal)).map(row => ({ ...row }));
+      return [limit ? rows.slice(0, parseInt(limit[1])) : rows, []];
+    }
+
+    return [{ affectedRows: 0 }];
+  }
+
+  async query(sql: string, values?: any[]): Promise<any> {
+    return this.execute(sql, values);
+  }
+
+  async end(): Promise<void> {}
+}
+
+/**
+ * Value of a literal, placeholder (":<index>") or NOW(); undefined for expressions
+ */
+function parseLiteral(text: string, values: any[]): any {
+  const placeholder = text.match(/^:(\d+)$/);
+  if (placeholder) return values[parseInt(placeholder[1])];
+  const quoted = text.match(/^'([\s\S]*)'$/);
+  if (quoted) return quoted[1].replace(/''/g, "'");
+  if (/^NULL$/i.test(text)) return null;
+  if (/^NOW\(\)$/i.test(text)) return new Date();
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return undefined;
+}
+
+function matches(row: Row, condition: string | undefined, literal: (text: string) => any): boolean {
+  if (!condition) return true;
+  const alternatives = splitTopLevel(condition, /\s+OR\s+/iy);
+  if (alternatives.length > 1) return alternatives.some(alternative => matches(row, alternative, literal));
+  const terms = splitTopLevel(condition, /\s+AND\s+/iy);
+  if (terms.length > 1) return terms.every(term => matches(row, term, literal));
+
+  const term = condition.trim();
+  if (term.startsWith('(') && term.endsWith(')')) return matches(row, term.slice(1, -1), literal);
+
+  let match = term.match(/^(?:\w+\.)?`?(\w+)`?\s+IS\s+(NOT\s+)?NULL$/i);
+  if (match) return (row[match[1]] ?? null) === null ? !match[2] : !!match[2];
+
+  match = term.match(/^(?:\w+\.)?`?(\w+)`?\s+IN\s*\(([\s\S]*)\)$/i);
+  if (match) return splitTopLevel(match[2], /,/y).map(literal).some(value => sameValue(row[match![1]], value));
+
+  match = term.match(/^(?:\w+\.)?`?(\w+)`?\s*(=|!=|<>)\s*([\s\S]+)$/);
+  if (match) {
+    const value = literal(match[3]);
+    if (value === undefined) return true;
+    return sameValue(row[match[1]], value) === (match[2] === '=');
+  }
+
+  return true;
+}
+
+function sameValue(a: any, b: any): boolean {
+  return (a ?? null) !== null && (b ?? null) !== null && String(a) === String(b);
+}
+
+/**
+ * Split on a separator outside quotes and parentheses
+ */
+function splitTopLevel(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (depth === 0) {
+      separator.lastIndex = i;
+      const match = separator.exec(text);
+      if (match) {
+        parts.push(text.slice(start, i).trim());
+        start = i + match[0].length;
+        i = start - 1;
+      }
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+describe('Pipeline Replay', () => {
+  const previousMode = process.env.LLM_RECORD_MODE;
+
+  beforeAll(() => {
+    if (previousMode !== 'record') process.env.LLM_RECORD_MODE = 'strict';
+    process.env.LLM_RECORDINGS_DIR = path.join(FIXTURES_DIR, 'llm-recordings');
+  });
+
+  afterAll(() => {
+    if (previousMode === undefined) delete process.env.LLM_RECORD_MODE;
+    else process.env.LLM_RECORD_MODE = previousMode;
+    delete process.env.LLM_RECORDINGS_DIR;
+  });
+
+  it('should process and consolidate the fixture documents from recorded LLM responses', async () => {
+    const projectDb = new InMemoryProjectDb();
+
+    for (const document of DOCUMENTS) {
+      projectDb.rows('documents').push({ id: document.id, fileName: document.file, documentType: document.documentType, status: 'completed', supersededBy: null });
+      const processed = await processDocument(PROJECT_ID, document.id, path.join(FIXTURES_DIR, 'documents', document.file), document.documentType);
+
+      expect(processed.status, processed.error).toBe('completed');
+      expect(processed.coverage?.percent, document.file).toBe(100);
+      await insertRawFacts(projectDb, PROJECT_ID, document.id, processed.facts);
+    }
+
+    await new ProjectConsolidator(PROJECT_ID, undefined, () => projectDb).consolidate();
+
+    // The COD slip is the only conflict, typed and with its magnitude
+    expect(projectDb.rows('insight_conflicts')).toEqual([
+      expect.objectContaining({ conflict_type: 'date_mismatch', magnitude: '+3 months' }),
+    ]);
+
+    // The grid study's description of the site is merged into the IM's
+    const facts = projectDb.rows('extracted_facts');
+    const superseded = facts.filter(fact => fact.superseded_by);
+    expect(superseded.map(fact => fact.source_document_id)).toEqual(['doc-grid']);
+    expect(facts.find(fact => fact.id === superseded[0].superseded_by)).toMatchObject({
+      source_document_id: 'doc-im',
+      value: 'Sunridge Solar Farm is a single-axis tracking photovoltaic plant near Dubbo, New South Wales, Australia',
+    });
+
+    expect(projectDb.rows('section_narratives').map(narrative => narrative.section_key)).toEqual(
+      expect.arrayContaining(['Technical_Design', 'Project_Overview', 'Financial_Structure', 'Risks_And_Issues'])
+    );
+    expect(projectDb.rows('performance_parameters')).toEqual([
+      expect.objectContaining({ dc_capacity_mw: 62.5, ac_capacity_mw: 50, tracking_type: 'single_axis', latitude: '-32.25', longitude: '148.6' }),
+    ]);
+    expect(projectDb.rows('financial_data')).toEqual([expect.objectContaining({ total_capex_usd: 52600000 })]);
+  }, 60_000);
+});
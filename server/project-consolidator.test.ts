@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseTypedValue } from '../shared/units';
+import { embedText, type IndexedFact } from './fact-vector-index';
+import { planKeyReconciliation } from './project-consolidator';
+import { compareFactValues, factValues } from './value-tolerances';
+
+function fact(id: string, value: string, sourceDocumentId: string): IndexedFact {
+  return { id, value, sourceDocumentId, typedValue: parseTypedValue(value) };
+}
+
+function plan(facts: IndexedFact[]) {
+  const vectors = new Map(facts.map(f => [f.id, embedText(f.value)]));
+  return planKeyReconciliation(facts, vectors, (a, b) => compareFactValues('cod', factValues(a), factValues(b), []));
+}
+
+describe('Project Consolidator', () => {
+  it('should raise a date mismatch instead of merging a COD slip away', () => {
+    const result = plan([
+      fact('vague', 'Commercial operation date of the solar plant is set under the EPC contract', 'im'),
+      fact('q3', 'Commercial operation date of the solar plant is Q3 2026 under the EPC contract', 'epc'),
+      fact('march', 'Commercial operation date of the solar plant under the EPC contract is March 2027', 'grid-study'),
+    ]);
+
+    // The dated statements never end up in one cluster through the vague one
+    expect(result.merges.map(m => [m.target.id, m.other.id])).toEqual([['vague', 'q3']]);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ factA: { id: 'vague' }, factB: { id: 'march' } });
+    expect(result.conflicts[0].comparison).toMatchObject({ comparison: 'different', conflictType: 'date_mismatch' });
+    expect(result.conflicts[0].comparison.difference?.label).toBe('+8 months');
+  });
+
+  it('should never merge facts whose values differ', () => {
+    const result = plan([
+      fact('a', 'The 300 MWp plant reaches COD in Q3 2026', 'im'),
+      fact('b', 'The 300 MWp plant reaches COD in March 2027', 'epc'),
+    ]);
+
+    expect(result.merges).toEqual([]);
+    expect(result.conflicts.map(c => [c.factA.id, c.factB.id, c.comparison.conflictType])).toEqual([['a', 'b', 'date_mismatch']]);
+  });
+});
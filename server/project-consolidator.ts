@@ -7,7 +7,11 @@
 
 import mysql from 'mysql2/promise';
 import { createProjectDbPool } from './db-connection';
-import { invokeLLM } from './_core/llm';
+import { invokeStructured } from './llm-structured';
+import { proseSchema } from './llm-output-schemas';
+import { clusterFacts, cosineSimilarity, EXACT_DUPLICATE_THRESHOLD, type IndexedFact } from './fact-vector-index';
+import type { FactValueComparison } from './value-tolerances';
+import type { Queryable } from './document-dedup';
 
 interface ConsolidationProgress {
   stage: string;
@@ -15,15 +19,26 @@ interface ConsolidationProgress {
   message: string;
 }
 
+/**
+ * Opens the project database for one consolidation step; the step ends it
+ */
+export type ProjectDbOpener = (projectId: number) => Queryable & { end(): Promise<void> };
+
 export class ProjectConsolidator {
   private projectId: number;
   
   private progressCallback?: (progress: ConsolidationProgress) => void;
+  private openProjectDb: ProjectDbOpener;
 
-  constructor(projectId: number, progressCallback?: (progress: ConsolidationProgress) => void) {
+  constructor(
+    projectId: number,
+    progressCallback?: (progress: ConsolidationProgress) => void,
+    openProjectDb: ProjectDbOpener = createProjectDbPool  // replaced in tests by an in-memory database
+  ) {
     this.projectId = projectId;
     
     this.progressCallback = progressCallback;
+    this.openProjectDb = openProjectDb;
   }
 
   private async updateProgress(stage: string, progress: number, message: string) {
@@ -70,17 +85,23 @@ export class ProjectConsolidator {
     await this.updateProgress('complete', 100, 'Consolidation complete!');
   }
 
+  /**
+   * Reconcile facts with the same key from different documents. Facts are
+   * compared by locally computed embeddings (fact-vector-index.ts) and
+   * clustered; the LLM is only called to merge the wording of near-duplicates.
+   */
   private async reconcileInsights(): Promise<void> {
     // Reconciliation compares facts from different documents to find conflicts
     // For a single document, there are no conflicts to detect
     // This runs when consolidating after multiple documents have been uploaded
     
-    const projectDb = createProjectDbPool(this.projectId);
+    const projectDb = this.openProjectDb(this.projectId);
+    const startedAt = Date.now();
 
     try {
-      // Get all facts grouped by normalized key
+      // Get all facts grouped by normalized key (stale facts of superseded revisions would only produce fake conflicts)
       const [facts]: any = await projectDb.execute(
-        `SELECT id, \`key\`, value, confidence, source_document_id FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL ORDER BY created_at`
+        `SELECT id, \`key\`, raw_key, canonical_key, raw_section, value, data_type, typed_value, confidence, source_document_id FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL AND is_stale = 0 ORDER BY created_at`
       );
 
       if (facts.length < 2) {
@@ -88,83 +109,136 @@ export class ProjectConsolidator {
         return;
       }
 
-      // Group facts by key
+      // Apply the current fact key ontology (admins may have mapped or extended it since extraction)
+      const { loadKeyMatcher } = await import('./fact-key-ontology');
+      const { match, keys: canonicalKeys } = await loadKeyMatcher();
+      const canonicalByKey = new Map(canonicalKeys.map(k => [k.key, k]));
+      for (const fact of facts) {
+        if (!fact.raw_key) continue;
+        const keyMatch = match(fact.raw_key);
+        const canonicalKey = keyMatch?.status === 'mapped' ? keyMatch.canonicalKey : null;
+        if (canonicalKey === fact.canonical_key) continue;
+        fact.canonical_key = canonicalKey;
+        // Unmapped again: back to the section the extractor reported
+        fact.key = canonicalKey ? canonicalByKey.get(canonicalKey)!.section : fact.raw_section ?? fact.key;
+        await projectDb.execute(`UPDATE extracted_facts SET canonical_key = ?, \`key\` = ? WHERE id = ?`, [canonicalKey, fact.key, fact.id]);
+      }
+
+      // Group facts by canonical key, facts without one by section
       const factsByKey = new Map<string, any[]>();
       for (const fact of facts) {
-        const key = fact.key;
+        const key = fact.canonical_key ?? fact.key;
         if (!factsByKey.has(key)) {
           factsByKey.set(key, []);
         }
         factsByKey.get(key)!.push(fact);
       }
 
-      // Find keys with multiple facts from different documents (potential conflicts)
-      let conflictsFound = 0;
-      let mergesPerformed = 0;
-
-      for (const [key, keyFacts] of Array.from(factsByKey.entries())) {
-        if (keyFacts.length < 2) continue;
+      // Only keys with facts from different documents can merge or conflict
+      const candidateGroups = Array.from(factsByKey.values()).filter(keyFacts =>
+        new Set(keyFacts.map((f: any) => f.source_document_id)).size > 1
+      );
 
-        // Check if facts are from different documents
-        const uniqueDocuments = new Set(keyFacts.map((f: any) => f.source_document_id));
-        if (uniqueDocuments.size < 2) {
-          // All facts from same document, no conflict possible
-          continue;
+      const { loadFactVectors } = await import('./fact-vector-index');
+      const { createConflict, enrichInsight, mergeInsightValues } = await import('./insight-reconciler');
+      const { readTypedValue } = await import('./fact-values');
+      const { compareFactValues, factValues, loadToleranceRules } = await import('./value-tolerances');
+      const { valueKind } = await import('../shared/units');
+      const { emptyReconciliationStats, saveReconciliationRun } = await import('./reconciliation-stats');
+
+      const toleranceRules = await loadToleranceRules();
+      const stats = emptyReconciliationStats();
+      stats.facts = facts.length;
+      stats.keys = candidateGroups.length;
+
+      const embeddingStart = Date.now();
+      const { vectors, stats: indexStats } = await loadFactVectors(projectDb, candidateGroups.flat());
+      stats.embeddingMs = Date.now() - embeddingStart;
+      stats.embeddingsComputed = indexStats.computed;
+      stats.embeddingsReused = indexStats.reused;
+
+      for (const keyFacts of candidateGroups) {
+        const indexedFacts = keyFacts.map((f: any) => ({
+          id: f.id,
+          value: f.value,
+          sourceDocumentId: f.source_document_id,
+          typedValue: readTypedValue(f),
+        }));
+
+        // Quantities and dates of each statement, compared with the key's tolerances
+        // (only the kind of value a canonical key expects, e.g. the MWp of a DC capacity)
+        const key = keyFacts[0].canonical_key ?? keyFacts[0].key;
+        const expectedKind = canonicalByKey.get(key)?.valueKind;
+        const values = new Map(indexedFacts.map(f => {
+          const all = factValues(f);
+          return [f.id, expectedKind ? all.filter(v => valueKind(v) === expectedKind) : all];
+        }));
+        const compareFacts = (a: { id: string }, b: { id: string }) =>
+          compareFactValues(key, values.get(a.id)!, values.get(b.id)!, toleranceRules);
+
+        const clusteringStart = Date.now();
+        const plan = planKeyReconciliation(indexedFacts, vectors, compareFacts);
+        stats.clusteringMs += Date.now() - clusteringStart;
+        stats.pairsCompared += plan.pairsCompared;
+        stats.clusters += plan.clusters;
+
+        // Merge near-duplicates from other documents into the oldest fact of their cluster
+        const mergedValues = new Map<string, string>();
+        for (const { target, other, similarity } of plan.merges) {
+          const llmStart = Date.now();
+          const mergedValue = await mergeInsightValues(mergedValues.get(target.id) ?? target.value, other.value);
+          mergedValues.set(target.id, mergedValue);
+          stats.llmMs += Date.now() - llmStart;
+          stats.llmCalls++;
+
+          await enrichInsight(projectDb, target.id, mergedValue, 85, other.sourceDocumentId);
+          // Soft-delete the newer fact, keeping it as evidence of the merge
+          await projectDb.execute(`UPDATE extracted_facts SET deleted_at = NOW(), superseded_by = ? WHERE id = ?`, [target.id, other.id]);
+          stats.merges++;
+          console.log(`[Consolidator] Merged similar facts (similarity ${(similarity * 100).toFixed(1)}%)`);
         }
 
-        // Compare facts from different documents
-        const { computeSemanticSimilarity, createConflict, enrichInsight, mergeInsightValues } = await import('./insight-reconciler');
-        
-        for (let i = 0; i < keyFacts.length - 1; i++) {
-          for (let j = i + 1; j < keyFacts.length; j++) {
-            const factA = keyFacts[i];
-            const factB = keyFacts[j];
-            
-            // Skip if from same document
-            if (factA.source_document_id === factB.source_document_id) continue;
-            
-            // Skip if already has conflict recorded
-            const [existingConflicts]: any = await projectDb.execute(
-              `SELECT id FROM insight_conflicts WHERE (insight_a_id = '${factA.id}' AND insight_b_id = '${factB.id}') OR (insight_a_id = '${factB.id}' AND insight_b_id = '${factA.id}')`
-            );
-            if (existingConflicts.length > 0) continue;
-
-            const similarity = await computeSemanticSimilarity(factA.value, factB.value);
-            console.log(`[Consolidator] Comparing "${factA.value.substring(0, 40)}..." vs "${factB.value.substring(0, 40)}...": ${(similarity * 100).toFixed(1)}%`);
-
-            if (similarity > 0.95) {
-              // Exact match - no action needed
-              console.log(`[Consolidator] Exact match found, no conflict`);
-            } else if (similarity > 0.70) {
-              // Similar - merge into the older fact
-              const mergedValue = await mergeInsightValues(factA.value, factB.value);
-              await enrichInsight(projectDb, factA.id, mergedValue, 85, factB.source_document_id);
-              // Soft-delete the newer fact
-              await projectDb.execute(`UPDATE extracted_facts SET deleted_at = NOW() WHERE id = '${factB.id}'`);
-              mergesPerformed++;
-              console.log(`[Consolidator] Merged similar facts`);
-            } else {
-              // Different values - create conflict
-              await createConflict(projectDb, this.projectId, factA.id, factB.id, 'value_mismatch');
-              conflictsFound++;
-            }
+        for (const { factA, factB, idsA, idsB, comparison: valueComparison } of plan.conflicts) {
+          // Skip if the facts already have a conflict recorded
+          const placeholdersA = idsA.map(() => '?').join(', ');
+          const placeholdersB = idsB.map(() => '?').join(', ');
+          const [existingConflicts]: any = await projectDb.execute(
+            `SELECT id FROM insight_conflicts
+             WHERE (insight_a_id IN (${placeholdersA}) AND insight_b_id IN (${placeholdersB}))
+                OR (insight_a_id IN (${placeholdersB}) AND insight_b_id IN (${placeholdersA}))`,
+            [...idsA, ...idsB, ...idsB, ...idsA]
+          );
+          if (existingConflicts.length > 0) continue;
+
+          await createConflict(projectDb, this.projectId, factA.id, factB.id, valueComparison.conflictType, valueComparison);
+          if (valueComparison.difference) {
+            console.log(`[Consolidator] ${valueComparison.conflictType} on ${key}: ${valueComparison.difference.label}`);
           }
+          stats.conflicts++;
         }
       }
 
-      console.log(`[Consolidator] Reconciliation complete: ${conflictsFound} conflicts found, ${mergesPerformed} merges performed`);
+      stats.totalMs = Date.now() - startedAt;
+      await saveReconciliationRun(projectDb, stats);
+
+      console.log(`[Consolidator] Reconciliation complete: ${stats.conflicts} conflicts found, ${stats.merges} merges performed`);
+      console.log(
+        `[Consolidator] Reconciliation timing: ${stats.pairsCompared} pairs compared in ${stats.clusteringMs} ms, ` +
+        `embeddings ${stats.embeddingsComputed} computed / ${stats.embeddingsReused} reused in ${stats.embeddingMs} ms, ` +
+        `${stats.llmCalls} LLM merge calls in ${stats.llmMs} ms, total ${stats.totalMs} ms`
+      );
     } finally {
       await projectDb.end();
     }
   }
 
   private async generateNarratives(): Promise<void> {
-    const projectDb = createProjectDbPool(this.projectId);
+    const projectDb = this.openProjectDb(this.projectId);
 
     try {
       // Get all facts grouped by section
       const [facts]: any = await projectDb.execute(
-        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL`
+        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL AND is_stale = 0`
       );
 
       // Group by section using normalizeSection
@@ -184,7 +258,8 @@ export class ProjectConsolidator {
 
       // Generate narratives for ALL sections with facts (not just hardcoded ones)
       const { getDb } = await import('./db');
-      const mainDb = await getDb();
+      // Without the main database the narratives are only saved to the project database
+      const mainDb = await getDb().catch(() => null);
       const totalSections = allSections.length;
       let processedSections = 0;
 
@@ -201,21 +276,16 @@ export class ProjectConsolidator {
           await this.updateProgress('narratives', progressPercent, `Generating narrative for ${displayName} (${processedSections + 1}/${totalSections})...`);
 
           try {
-            const response = await invokeLLM({
+            const { renderPrompt } = await import('./prompt-templates');
+            const { prompt, systemPrompt } = await renderPrompt('section_narrative', { section: displayName, insights: factsText });
+            const narrative = await invokeStructured({
+              stage: 'narrative',
+              temperature: 0,
               messages: [
-                {
-                  role: 'system',
-                  content: `You are a technical writing assistant. Synthesize the following project insights into a cohesive, flowing narrative paragraph suitable for executive review. Maintain all factual details but present them as connected prose rather than bullet points.`
-                },
-                {
-                  role: 'user',
-                  content: `Section: ${displayName}\n\nInsights:\n${factsText}\n\nSynthesize these insights into 2-3 well-structured paragraphs.`
-                }
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: prompt }
               ]
-            });
-
-            const narrativeContent = response.choices[0]?.message?.content;
-            const narrative = typeof narrativeContent === 'string' ? narrativeContent : '';
+            }, proseSchema, { label: `${displayName} narrative`, format: 'text' });
 
             if (narrative) {
               const escapedNarrative = narrative.replace(/'/g, "''");
@@ -253,7 +323,7 @@ export class ProjectConsolidator {
   }
 
   private async extractPerformanceParameters(): Promise<void> {
-    const projectDb = createProjectDbPool(this.projectId);
+    const projectDb = this.openProjectDb(this.projectId);
 
     try {
       // Get narratives which already contain consolidated information
@@ -283,15 +353,23 @@ export class ProjectConsolidator {
       const { PerformanceFinancialExtractor } = await import('./performance-financial-extractor');
       const extractor = new PerformanceFinancialExtractor();
       
+      const { loadDocumentTables } = await import('./pdf-table-extractor');
+      const tables = await loadDocumentTables(projectDb, 'performance');
+
       const perfParams = await extractor.extractPerformanceParameters(
         narrativeSummary,
-        documents[0].documentType || 'FEASIBILITY_STUDY'
+        documents[0].documentType || 'FEASIBILITY_STUDY',
+        tables
       );
 
       if (perfParams && perfParams.confidence > 0) {
         const { v4: uuidv4 } = await import('uuid');
         const paramId = uuidv4();
 
+        // Figures read from spreadsheet cells win over LLM-extracted ones
+        const { applySpreadsheetValues } = await import('./spreadsheet-extractor');
+        const sourceCells = await applySpreadsheetValues(projectDb, 'performance_parameters', perfParams);
+
         // Build INSERT statement dynamically for non-null fields
         const fields = ['id', 'project_id', 'source_document_id', 'confidence', 'extraction_method'];
         const values = [`'${paramId}'`, this.projectId.toString(), `'${documents[0].id}'`, perfParams.confidence.toString(), `'${perfParams.extraction_method}'`];
@@ -302,7 +380,7 @@ export class ProjectConsolidator {
           'azimuth_degrees', 'latitude', 'longitude', 'site_name', 'elevation_m', 'timezone',
           'system_losses_percent', 'degradation_rate_percent', 'availability_percent', 'soiling_loss_percent',
           'weather_file_url', 'ghi_annual_kwh_m2', 'dni_annual_kwh_m2', 'temperature_ambient_c',
-          'p50_generation_gwh', 'p90_generation_gwh', 'capacity_factor_percent', 'specific_yield_kwh_kwp', 'notes'
+          'p50_generation_gwh', 'p90_generation_gwh', 'capacity_factor_percent', 'specific_yield_kwh_kwp', 'notes', 'prompt_version'
         ];
 
         for (const field of paramFields) {
@@ -317,10 +395,14 @@ export class ProjectConsolidator {
             }
           }
         }
+        if (Object.keys(sourceCells).length > 0) {
+          fields.push('source_cells');
+          values.push(`'${JSON.stringify(sourceCells).replace(/'/g, "''")}'`);
+        }
 
-        // Check if a record already exists
+        // Check if a record already exists (per-document spreadsheet rows are kept as they are)
         const [existing]: any = await projectDb.execute(
-          `SELECT id FROM performance_parameters LIMIT 1`
+          `SELECT id FROM performance_parameters WHERE COALESCE(extraction_method, '') <> 'spreadsheet' LIMIT 1`
         );
 
         if (existing && existing.length > 0) {
@@ -383,7 +465,7 @@ export class ProjectConsolidator {
   }
 
   private async extractFinancialData(): Promise<void> {
-    const projectDb = createProjectDbPool(this.projectId);
+    const projectDb = this.openProjectDb(this.projectId);
 
     try {
       // Get all document text for extraction
@@ -398,7 +480,7 @@ export class ProjectConsolidator {
 
       // Get extracted facts to build financial data from
       const [facts]: any = await projectDb.execute(
-        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL`
+        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL AND is_stale = 0`
       );
 
       // Build a summary of facts for LLM extraction
@@ -408,15 +490,23 @@ export class ProjectConsolidator {
       const { PerformanceFinancialExtractor } = await import('./performance-financial-extractor');
       const extractor = new PerformanceFinancialExtractor();
       
+      const { loadDocumentTables } = await import('./pdf-table-extractor');
+      const tables = await loadDocumentTables(projectDb, 'financial');
+
       const financialData = await extractor.extractFinancialData(
         factsSummary,
-        documents[0].documentType || 'FEASIBILITY_STUDY'
+        documents[0].documentType || 'FEASIBILITY_STUDY',
+        tables
       );
 
       if (financialData && financialData.confidence > 0) {
         const { v4: uuidv4 } = await import('uuid');
         const finId = uuidv4();
 
+        // Figures read from spreadsheet cells win over LLM-extracted ones
+        const { applySpreadsheetValues } = await import('./spreadsheet-extractor');
+        const sourceCells = await applySpreadsheetValues(projectDb, 'financial_data', financialData);
+
         // Build INSERT statement dynamically for non-null fields
         const fields = ['id', 'project_id', 'source_document_id', 'confidence', 'extraction_method'];
         const values = [`'${finId}'`, this.projectId.toString(), `'${documents[0].id}'`, financialData.confidence.toString(), `'${financialData.extraction_method}'`];
@@ -427,7 +517,7 @@ export class ProjectConsolidator {
           'total_opex_annual_usd', 'om_usd', 'insurance_usd', 'land_lease_usd',
           'asset_management_usd', 'other_opex_usd',
           'capex_per_watt_usd', 'opex_per_mwh_usd',
-          'original_currency', 'exchange_rate_to_usd', 'cost_year', 'escalation_rate_percent', 'notes'
+          'original_currency', 'exchange_rate_to_usd', 'cost_year', 'escalation_rate_percent', 'notes', 'prompt_version'
         ];
 
         for (const field of finFields) {
@@ -442,6 +532,10 @@ export class ProjectConsolidator {
             }
           }
         }
+        if (Object.keys(sourceCells).length > 0) {
+          fields.push('source_cells');
+          values.push(`'${JSON.stringify(sourceCells).replace(/'/g, "''")}'`);
+        }
 
         await projectDb.execute(
           `INSERT INTO financial_data (${fields.join(', ')}) VALUES (${values.join(', ')})`
@@ -456,14 +550,22 @@ export class ProjectConsolidator {
     }
   }
 
-  private async processWeatherFiles(): Promise<void> {
-    const projectDb = createProjectDbPool(this.projectId);
+  /**
+   * Parse uploaded weather files (all of them, or a single file when an id is given)
+   */
+  async processWeatherFiles(weatherFileId?: string): Promise<void> {
+    const projectDb = this.openProjectDb(this.projectId);
 
     try {
       // Get uploaded weather files
-      const [weatherFiles]: any = await projectDb.execute(
-        `SELECT id, file_url, file_name, file_size_bytes FROM weather_files`
-      );
+      const [weatherFiles]: any = weatherFileId
+        ? await projectDb.execute(
+            `SELECT id, file_url, file_name, file_size_bytes FROM weather_files WHERE id = ?`,
+            [weatherFileId]
+          )
+        : await projectDb.execute(
+            `SELECT id, file_url, file_name, file_size_bytes FROM weather_files`
+          );
 
       if (!weatherFiles || weatherFiles.length === 0) {
         console.log('[Consolidator] No weather files found to process');
@@ -532,7 +634,7 @@ export class ProjectConsolidator {
   }
 
   private async consolidateLocation(): Promise<void> {
-    const projectDb = createProjectDbPool(this.projectId);
+    const projectDb = this.openProjectDb(this.projectId);
 
     try {
       const { LocationService } = await import('./location-service');
@@ -575,7 +677,7 @@ export class ProjectConsolidator {
 
       // Source 3: Extract from document facts using LLM
       const [facts]: any = await projectDb.execute(
-        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL LIMIT 100`
+        `SELECT \`key\`, value FROM extracted_facts WHERE project_id = ${this.projectId} AND deleted_at IS NULL AND is_stale = 0 LIMIT 100`
       );
 
       if (facts && facts.length > 0) {
@@ -629,3 +731,76 @@ export class ProjectConsolidator {
     console.log('[Consolidator] Validation check not yet implemented');
   }
 }
+
+export interface KeyReconciliationPlan {
+  merges: Array<{ target: IndexedFact; other: IndexedFact; similarity: number }>;
+  // Candidate conflicts with the facts on each side, to skip pairs already recorded
+  conflicts: Array<{ factA: IndexedFact; factB: IndexedFact; idsA: string[]; idsB: string[]; comparison: FactValueComparison }>;
+  clusters: number;         // clusters of more than one fact
+  pairsCompared: number;
+}
+
+/**
+ * What reconciliation does with the facts of one key: near-duplicates from
+ * other documents are merged into the oldest fact of their cluster, unless
+ * their values compare as different, which is always a conflict (typed by the
+ * values, with the difference). Separate clusters conflict between their
+ * oldest facts from different documents, preferring a pair whose values
+ * differ (including facts merged into them) so the conflict carries its
+ * magnitude.
+ */
+export function planKeyReconciliation(
+  facts: IndexedFact[],
+  vectors: Map<string, Float32Array>,
+  compareFacts: (a: IndexedFact, b: IndexedFact) => FactValueComparison
+): KeyReconciliationPlan {
+  const { clusters, pairsCompared } = clusterFacts(facts, vectors, (a, b) => compareFacts(a, b).comparison);
+  const plan: KeyReconciliationPlan = { merges: [], conflicts: [], clusters: 0, pairsCompared };
+
+  const merged = new Set<string>();
+  for (const cluster of clusters.filter(c => c.facts.length > 1)) {
+    plan.clusters++;
+    const [target, ...others] = cluster.facts;
+    for (const other of others) {
+      if (other.sourceDocumentId === target.sourceDocumentId) continue;
+
+      const comparison = compareFacts(target, other);
+      if (comparison.comparison === 'different') {
+        plan.conflicts.push({ factA: target, factB: other, idsA: [target.id], idsB: [other.id], comparison });
+        continue;
+      }
+
+      // Same statement, or the same quantity/date in other words ("300 MWp" / "0.3 GWp") - nothing to merge
+      const similarity = cosineSimilarity(vectors.get(target.id)!, vectors.get(other.id)!);
+      if (similarity >= EXACT_DUPLICATE_THRESHOLD || comparison.comparison === 'equal') continue;
+
+      plan.merges.push({ target, other, similarity });
+      merged.add(other.id);
+    }
+  }
+
+  // Facts merged away are represented by the fact they were merged into, but
+  // their own values still decide whether two clusters contradict each other
+  const survivorOf = (fact: IndexedFact) => plan.merges.find(m => m.other.id === fact.id)?.target ?? fact;
+  for (let i = 0; i < clusters.length - 1; i++) {
+    for (let j = i + 1; j < clusters.length; j++) {
+      const pairs = clusters[i].facts
+        .flatMap(a => clusters[j].facts.map(b => [a, b] as const))
+        .filter(([a, b]) => survivorOf(a).sourceDocumentId !== survivorOf(b).sourceDocumentId);
+      if (pairs.length === 0) continue;
+
+      const [a, b] = pairs.find(([a, b]) => compareFacts(a, b).comparison === 'different')
+        ?? pairs.find(([a, b]) => !merged.has(a.id) && !merged.has(b.id))
+        ?? pairs[0];
+      plan.conflicts.push({
+        factA: survivorOf(a),
+        factB: survivorOf(b),
+        idsA: clusters[i].facts.filter(f => !merged.has(f.id)).map(f => f.id),
+        idsB: clusters[j].facts.filter(f => !merged.has(f.id)).map(f => f.id),
+        comparison: compareFacts(a, b),
+      });
+    }
+  }
+
+  return plan;
+}
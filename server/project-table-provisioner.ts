@@ -23,6 +23,11 @@ interface ProjectTableConfig {
   database: string;
 }
 
+/**
+ * Errors that mean a CREATE/ALTER statement has already been applied
+ */
+const IGNORABLE_SCHEMA_ERRORS = ['ER_TABLE_EXISTS_ERROR', 'ER_DUP_FIELDNAME', 'ER_DUP_KEYNAME'];
+
 /**
  * Get table prefix for a project
  */
@@ -79,9 +84,9 @@ export async function provisionProjectTables(config: ProjectTableConfig): Promis
         });
         return sqlLines.join('\n').trim();
       })
-      .filter(stmt => stmt.length > 0 && stmt.toUpperCase().includes('CREATE TABLE'));
+      .filter(stmt => stmt.length > 0 && (stmt.toUpperCase().includes('CREATE TABLE') || stmt.toUpperCase().startsWith('ALTER TABLE')));
     
-    console.log(`[ProjectTables] Executing ${statements.length} CREATE TABLE statements`);
+    console.log(`[ProjectTables] Executing ${statements.length} CREATE/ALTER TABLE statements`);
 
     for (const statement of statements) {
       try {
@@ -92,8 +97,8 @@ export async function provisionProjectTables(config: ProjectTableConfig): Promis
           console.log(`[ProjectTables] ✓ Created table: ${match[1]}`);
         }
       } catch (error: any) {
-        // Ignore "table already exists" errors
-        if (error.code !== 'ER_TABLE_EXISTS_ERROR') {
+        // Ignore "table already exists" errors, and upgrades that were already applied
+        if (!IGNORABLE_SCHEMA_ERRORS.includes(error.code)) {
           console.error(`[ProjectTables] ✗ Error:`, error);
           console.error(`[ProjectTables] Failed statement: ${statement.substring(0, 100)}...`);
           throw error;
@@ -179,6 +184,10 @@ function transformSchemaWithPrefix(schemaSql: string, prefix: string): string {
   const tableNames = [
     'processing_jobs',
     'documents',
+    'document_pages',
+    'document_tables',
+    'data_room_imports',
+    'document_duplicates',
     'extracted_facts',
     'insight_conflicts',
     'redFlags',
@@ -188,7 +197,16 @@ function transformSchemaWithPrefix(schemaSql: string, prefix: string): string {
     'weather_files',
     'weather_monthly_data',
     'financial_data',
-    'project_location'
+    'project_location',
+    'llm_usage',
+    'llm_output_failures',
+    'entities',
+    'entity_mentions',
+    'milestones',
+    'contract_obligations',
+    'fact_embeddings',
+    'reconciliation_runs',
+    'conflict_resolutions'
   ];
 
   let transformed = schemaSql;
@@ -205,6 +223,16 @@ function transformSchemaWithPrefix(schemaSql: string, prefix: string): string {
       `CREATE TABLE IF NOT EXISTS ${prefix}${tableName}`
     );
 
+    // Add prefix to ALTER TABLE statements (schema upgrades)
+    const alterPattern = new RegExp(
+      `ALTER TABLE ${tableName}\\b`,
+      'gi'
+    );
+    transformed = transformed.replace(
+      alterPattern,
+      `ALTER TABLE ${prefix}${tableName}`
+    );
+
     // Update FOREIGN KEY REFERENCES
     const fkPattern = new RegExp(
       `REFERENCES ${tableName}\\b`,
@@ -219,6 +247,28 @@ function transformSchemaWithPrefix(schemaSql: string, prefix: string): string {
   return transformed;
 }
 
+/**
+ * Re-run provisioning for every existing project so tables created by older
+ * releases pick up new tables and columns. Failures are logged per project.
+ */
+export async function upgradeAllProjectTables(): Promise<void> {
+  const { getDb } = await import('./db');
+  const { projects } = await import('../drizzle/schema');
+  const db = await getDb();
+  if (!db) return;
+
+  const rows: Array<{ id: number }> = await db.select({ id: projects.id }).from(projects);
+  console.log(`[ProjectTables] Upgrading tables for ${rows.length} project(s)`);
+
+  for (const row of rows) {
+    try {
+      await provisionProjectTables(getTableProvisionConfig(row.id));
+    } catch (error) {
+      console.error(`[ProjectTables] Upgrade failed for project ${row.id}:`, error);
+    }
+  }
+}
+
 /**
  * Get connection config from DATABASE_URL for table provisioning
  */
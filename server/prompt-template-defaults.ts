@@ -0,0 +1,458 @@
+/**
+ * Built-in Prompt Templates
+ *
+ * Version 0 of every prompt in the template store (prompt-templates.ts). Used
+ * until an edited version is activated, and when the store can't be read.
+ * Placeholders are written as {{variable}}.
+ */
+
+export const PROMPT_TEMPLATE_KEYS = [
+  'fact_structured',
+  'fact_relationships',
+  'fact_risks',
+  'fact_assumptions',
+  'performance_parameters',
+  'financial_data',
+  'weather_references',
+  'section_narrative',
+  'entities',
+  'milestones',
+  'contract_obligations',
+  'fact_key_mapping',
+] as const;
+
+export type PromptTemplateKey = (typeof PROMPT_TEMPLATE_KEYS)[number];
+
+export interface PromptTemplateDefinition {
+  description: string;
+  variables: string[]; // every variable must appear in the template
+  systemPrompt: string;
+  body: string;
+}
+
+// Value of {{section_list}} for the structured pass
+export const DEFAULT_SECTION_LIST = `- Project_Overview: project identity, partners, ownership structure, location
+- Technical_Design: capacity, technology, equipment specifications, configuration
+- Grid_Infrastructure: connection details, voltage levels, distances, grid operator
+- Site_Details: area, topography, access, geographical context
+- Project_Timeline: key milestones with dates and descriptions
+- Financial_Structure: ownership percentages, investment, commercial terms
+- Regulatory_Compliance: permits, approvals, required studies`;
+
+export const BUILT_IN_PROMPTS: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+  fact_structured: {
+    description: 'Fact extraction pass 1: structured data as contextual statements',
+    variables: ['document_type', 'section_list', 'text'],
+    systemPrompt: `You are an expert at extracting structured information from renewable energy project documents. Extract facts as complete contextual statements in JSON format.`,
+    body: `Extract structured information from this {{document_type}} document and present each fact as a complete, contextual statement.
+
+Document text:
+{{text}}
+
+Extract information in these sections:
+{{section_list}}
+
+IMPORTANT: Each fact must be a complete, self-contained statement that makes sense on its own.
+
+GOOD examples:
+- "Marsa Solar Project is a 300 MWp DC solar facility located in AlWusta governorate near Duqm"
+- "OQAE holds 51% ownership stake while TotalEnergies holds 49%"
+- "ESIA Scoping study completion is scheduled for 7 August 2025"
+- "Solar plant will connect via 132kV LILO at Clare Substation with future 400kV line 4km away"
+
+BAD examples (avoid these):
+- "7 Aug 2025" (missing context)
+- "51%" (what does this percentage represent?)
+- "300 MW" (DC or AC? What is this capacity for?)
+
+For each fact, provide:
+- section: one of the sections above
+- statement: complete contextual sentence
+- key: short identifier for reference (e.g., "project_name", "ownership_oqae", "esia_scoping_date")
+- value: the core extracted value (for filtering/sorting)
+- confidence: 0.0-1.0
+- extraction_method: "llm_structured_v2"
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that supports this fact
+
+Return a JSON array of facts.`,
+  },
+  fact_relationships: {
+    description: 'Fact extraction pass 2: relationships and dependencies',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert at extracting structured information from renewable energy project documents. Extract facts as complete contextual statements in JSON format.`,
+    body: `Identify critical relationships and dependencies in this {{document_type}} document.
+
+Document text:
+{{text}}
+
+Identify:
+1. Critical dependencies (what depends on what)
+2. Timing constraints (sequencing requirements)
+3. Capacity/sizing relationships (how components are sized relative to requirements)
+4. Operational relationships (how systems interact)
+
+IMPORTANT: Express each relationship as a complete statement explaining the dependency.
+
+GOOD examples:
+- "Solar plant COD must align with LNG facility COD (January 2028) to ensure carbon neutrality commitment is met"
+- "Solar plant capacity of 300 MWp is sized to generate 700 GWh annually required by LNG facility"
+- "Full ESIA study depends on completion of ESIA Scoping to define assessment scope and obtain preliminary NOC"
+
+For each relationship, provide:
+- section: "Dependencies"
+- statement: complete relationship explanation
+- key: short identifier (e.g., "solar_lng_cod_dependency")
+- value: core dependency description
+- confidence: 0.0-1.0
+- extraction_method: "llm_relationships_v2"
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that supports this fact
+
+Return a JSON array of facts.`,
+  },
+  fact_risks: {
+    description: 'Fact extraction pass 3: risks and red flags',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert at extracting structured information from renewable energy project documents. Extract facts as complete contextual statements in JSON format.`,
+    body: `Identify risks, concerns, and potential issues in this {{document_type}} document.
+
+Document text:
+{{text}}
+
+Look for:
+1. Explicitly stated risks or concerns
+2. Site changes or relocations (indicates previous problems)
+3. Schedule pressure or tight timelines
+4. Pending critical approvals
+5. Technical constraints or limitations
+6. Environmental or social challenges
+
+IMPORTANT: Explain each risk clearly with context about why it matters.
+
+GOOD examples:
+- "Project site was relocated from Shinas to Duqm due to technical complexities and cost implications, indicating inadequate initial site assessment"
+- "Solar COD must match LNG COD (January 2028) creating schedule risk where any solar delay jeopardizes LNG carbon neutrality goals"
+- "Full ESIA not expected until 25 December 2025 leaves minimal time for issue mitigation if significant environmental concerns are discovered"
+
+For each risk, provide:
+- section: "Risks_And_Issues"
+- statement: complete risk description with impact explanation
+- key: risk identifier (e.g., "site_relocation_risk", "cod_schedule_risk")
+- value: brief risk summary
+- confidence: 0.0-1.0
+- extraction_method: "llm_risks_v2"
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that supports this fact
+
+Return a JSON array of facts.`,
+  },
+  fact_assumptions: {
+    description: 'Fact extraction pass 4: assumptions and design parameters',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert at extracting structured information from renewable energy project documents. Extract facts as complete contextual statements in JSON format.`,
+    body: `Extract design assumptions and engineering parameters from this {{document_type}} document.
+
+Document text:
+{{text}}
+
+Identify:
+1. Design assumptions and their rationale
+2. Technology selections with justification
+3. Performance estimates and calculation basis
+4. Key engineering parameters
+
+IMPORTANT: Provide context for each assumption or parameter.
+
+GOOD examples:
+- "Ground coverage ratio set at 35% to optimize land use while maintaining adequate spacing for maintenance access"
+- "Bifacial solar modules selected to capture reflected light from ground surface and increase energy yield"
+- "Single-axis tracking system chosen to maximize energy production throughout the day while balancing cost and complexity"
+- "Specific yield estimated at 2,500 kWh/kWp/year based on local solar resource data and system design assumptions"
+
+For each item, provide:
+- section: one of ["Engineering_Assumptions", "Technology_Choices", "Design_Parameters", "Performance_Estimates"]
+- statement: complete description with context
+- key: parameter identifier (e.g., "gcr_assumption", "module_technology", "specific_yield")
+- value: core parameter value
+- confidence: 0.0-1.0
+- extraction_method: "llm_assumptions_v2"
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that supports this fact
+
+Return a JSON array of facts.`,
+  },
+  performance_parameters: {
+    description: 'Performance validation parameters (performance_parameters table)',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are a technical data extraction assistant. Extract information accurately and return valid JSON only.`,
+    body: `You are extracting technical parameters for solar farm performance validation from a {{document_type}} document.
+
+Extract the following information if present in the document. Return ONLY a JSON object with these fields (use null for missing values):
+
+{
+  "dc_capacity_mw": "DC capacity in MW (e.g., '100.5')",
+  "ac_capacity_mw": "AC capacity in MW (e.g., '80.0'). Also look for grid connection limits, export limits, or POI capacity as these typically define AC capacity.",
+  "module_model": "Solar module model name (e.g., 'Longi LR5-72HPH-550M')",
+  "module_power_watts": "Module power rating in watts (e.g., '550')",
+  "module_count": "Total number of modules (integer)",
+  "inverter_model": "Inverter model name (e.g., 'Sungrow SG3125HV')",
+  "inverter_power_kw": "Inverter power rating in kW (e.g., '3125')",
+  "inverter_count": "Total number of inverters (integer)",
+  "tracking_type": "Tracking system type: 'fixed_tilt', 'single_axis', or 'dual_axis'",
+  "tilt_angle_degrees": "Module tilt angle in degrees (e.g., '25')",
+  "azimuth_degrees": "Module azimuth in degrees (e.g., '180' for south-facing)",
+  "latitude": "Site latitude (e.g., '35.7')",
+  "longitude": "Site longitude (e.g., '14.5')",
+  "site_name": "Project site name or location",
+  "elevation_m": "Site elevation in meters (e.g., '120')",
+  "timezone": "Site timezone (e.g., 'Europe/Malta')",
+  "system_losses_percent": "Total system losses percentage (e.g., '12.5')",
+  "degradation_rate_percent": "Annual degradation rate percentage (e.g., '0.5')",
+  "availability_percent": "System availability percentage (e.g., '98.5')",
+  "soiling_loss_percent": "Soiling losses percentage (e.g., '2.0')",
+  "weather_file_url": "URL or reference to TMY/weather file",
+  "ghi_annual_kwh_m2": "Annual global horizontal irradiation in kWh/m² (e.g., '1950')",
+  "dni_annual_kwh_m2": "Annual direct normal irradiation in kWh/m² (e.g., '2200')",
+  "temperature_ambient_c": "Average ambient temperature in °C (e.g., '19.5')",
+  "p50_generation_gwh": "P50 annual generation estimate in GWh (e.g., '235.4')",
+  "p90_generation_gwh": "P90 annual generation estimate in GWh (e.g., '220.1')",
+  "capacity_factor_percent": "Expected capacity factor percentage (e.g., '26.8')",
+  "specific_yield_kwh_kwp": "Specific yield in kWh/kWp (e.g., '1850')",
+  "notes": "Any additional relevant notes or assumptions"
+}
+
+IMPORTANT:
+- Extract exact values as they appear in the document
+- Use null for any field not found in the document
+- For ac_capacity_mw: Look for explicit AC capacity, grid connection limits, export limits, POI (Point of Interconnection) capacity, or grid constraints. These all typically define the AC capacity.
+- For tracking_type, standardize to: fixed_tilt, single_axis, or dual_axis
+- For numeric fields, extract only the number (no units in the value)
+- Return valid JSON only, no explanations
+
+Document text:
+{{text}}`,
+  },
+  financial_data: {
+    description: 'CapEx / OpEx figures (financial_data table)',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are a financial data extraction assistant. Extract cost information accurately and return valid JSON only.`,
+    body: `You are extracting financial data (CapEx and OpEx) from a {{document_type}} document for solar farm benchmarking.
+
+Extract the following information if present in the document. Return ONLY a JSON object with these fields (use null for missing values):
+
+{
+  "total_capex_usd": "Total capital expenditure in USD (e.g., '125000000')",
+  "modules_usd": "Cost of solar modules in USD (e.g., '45000000')",
+  "inverters_usd": "Cost of inverters in USD (e.g., '12000000')",
+  "trackers_usd": "Cost of tracking systems in USD (e.g., '18000000')",
+  "civil_works_usd": "Cost of civil works in USD (e.g., '15000000')",
+  "grid_connection_usd": "Cost of grid connection in USD (e.g., '8000000')",
+  "development_costs_usd": "Development costs in USD (e.g., '5000000')",
+  "other_capex_usd": "Other CapEx costs in USD (e.g., '3000000')",
+  "total_opex_annual_usd": "Total annual OpEx in USD (e.g., '2500000')",
+  "om_usd": "Annual O&M costs in USD (e.g., '1500000')",
+  "insurance_usd": "Annual insurance costs in USD (e.g., '500000')",
+  "land_lease_usd": "Annual land lease costs in USD (e.g., '300000')",
+  "asset_management_usd": "Annual asset management costs in USD (e.g., '150000')",
+  "other_opex_usd": "Other annual OpEx in USD (e.g., '50000')",
+  "capex_per_watt_usd": "CapEx per watt in USD (e.g., '1.25')",
+  "opex_per_mwh_usd": "OpEx per MWh in USD (e.g., '10.5')",
+  "original_currency": "Original currency code if not USD (e.g., 'EUR', 'GBP')",
+  "exchange_rate_to_usd": "Exchange rate to USD if applicable (e.g., '1.08')",
+  "cost_year": "Year of cost estimates (integer, e.g., 2024)",
+  "escalation_rate_percent": "Annual cost escalation rate percentage (e.g., '2.5')",
+  "notes": "Any additional relevant notes about costs"
+}
+
+IMPORTANT:
+- Extract exact numeric values (no currency symbols or units)
+- Convert all costs to USD if exchange rate is provided
+- Use null for any field not found in the document
+- For normalized metrics ($/W, $/MWh), calculate if raw data is available
+- Return valid JSON only, no explanations
+
+Document text:
+{{text}}`,
+  },
+  weather_references: {
+    description: 'Weather file references in project documents',
+    variables: ['file_name', 'text'],
+    systemPrompt: `You are a technical document analyzer specializing in solar energy project data extraction. Return valid JSON only.`,
+    body: `You are analyzing a solar project document to find weather data references.
+
+DOCUMENT: {{file_name}}
+
+Extract ALL weather file references, including:
+1. Direct URLs to weather files (.csv, .epw, .tm2, .tm3, .wth)
+2. References to weather data sources (PVGIS, NSRDB, SolarAnywhere, Meteonorm, PVsyst)
+3. Mentions of TMY (Typical Meteorological Year) data
+4. Weather file names or identifiers
+5. Embedded weather data tables (if present)
+
+For each reference, provide:
+- type: "url" | "embedded" | "reference"
+- url: Direct URL if available
+- description: What the reference says
+- format: Detected format (pvgis, tmy3, epw, pvsyst, solaranywhere, meteonorm, unknown)
+- location: Geographic location mentioned
+- confidence: 0.0-1.0 confidence score
+- sourceLocation: Page number or section where found
+
+Return JSON:
+{
+  "references": [
+    {
+      "type": "url",
+      "url": "https://example.com/weather.csv",
+      "description": "PVGIS TMY data for Malta",
+      "format": "pvgis",
+      "location": "Malta, 35.9°N 14.4°E",
+      "confidence": 0.95,
+      "sourceLocation": "Page 12, Section 3.2"
+    }
+  ]
+}
+
+DOCUMENT TEXT (first 50,000 characters):
+{{text}}`,
+  },
+  section_narrative: {
+    description: 'Narrative summary of one fact section during consolidation',
+    variables: ['section', 'insights'],
+    systemPrompt: `You are a technical writing assistant. Synthesize the following project insights into a cohesive, flowing narrative paragraph suitable for executive review. Maintain all factual details but present them as connected prose rather than bullet points.`,
+    body: `Section: {{section}}
+
+Insights:
+{{insights}}
+
+Synthesize these insights into 2-3 well-structured paragraphs.`,
+  },
+  entities: {
+    description: 'Organisations and people for the entity register, with roles, ownership and contacts',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert at identifying the parties involved in renewable energy projects. Return valid JSON only.`,
+    body: `List the organisations and people named in this {{document_type}} document that are involved in the project.
+
+For each entity, provide:
+- name: the name exactly as written in the document, including legal suffixes (e.g., "Acme Solar Pty Ltd")
+- type: "organisation" or "person"
+- roles: project roles of the entity, any of "developer", "epc", "offtaker", "om", "lender", "grid_operator", "other"
+- ownership_percent: share of the project or project company the entity holds (e.g., 51 for "OQAE holds 51%"), null if not stated
+- organisation: for people, the organisation they work for; null otherwise
+- email: email address given for the entity, null if none
+- phone: phone number given for the entity, null if none
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that names the entity
+
+Do not list defined terms such as "the Company" or "the Contractor" as separate entities, and do not invent entities that are not named.
+
+Return JSON:
+{
+  "entities": [
+    {
+      "name": "OQ Alternative Energy",
+      "type": "organisation",
+      "roles": ["developer"],
+      "ownership_percent": 51,
+      "organisation": null,
+      "email": null,
+      "phone": null,
+      "source_quote": "OQAE holds 51% ownership stake while TotalEnergies holds 49%"
+    }
+  ]
+}
+
+Document text:
+{{text}}`,
+  },
+  milestones: {
+    description: 'Project milestones with planned and actual dates for the schedule',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert at reading development and construction schedules of renewable energy projects. Return valid JSON only.`,
+    body: `List the project milestones stated in this {{document_type}} document with their dates.
+
+Milestones include: financial close, notice to proceed (NTP), start of construction, mechanical completion, grid energisation, commercial operation date (COD), PPA signing, grid connection agreement, land secured, planning consent and environmental (ESIA) approval.
+
+For each milestone, provide:
+- name: the milestone (e.g., "Financial close", "COD")
+- planned_date: date the milestone is planned or expected, as written (e.g., "Q3 2027", "March 2026", "2026-09-15"); null if not stated
+- actual_date: date the milestone was achieved, only when the document says it has happened; null otherwise
+- depends_on: name of the milestone that must happen first, only when the document states the dependency; null otherwise
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text that gives the date
+
+Only list milestones of this project that have a date in the document. Do not calculate or invent dates.
+
+Return JSON:
+{
+  "milestones": [
+    {
+      "name": "Commercial operation date",
+      "planned_date": "Q3 2027",
+      "actual_date": null,
+      "depends_on": "Grid energisation",
+      "source_quote": "COD is expected in Q3 2027, following grid energisation"
+    }
+  ]
+}
+
+Document text:
+{{text}}`,
+  },
+  contract_obligations: {
+    description: 'Key contract clauses and obligations for the obligations register',
+    variables: ['document_type', 'text'],
+    systemPrompt: `You are an expert in renewable energy project contracts (PPAs, EPC and O&M contracts, land leases). Return valid JSON only.`,
+    body: `List the key clauses of this {{document_type}} document.
+
+For each clause, provide:
+- category: one of "term", "tariff", "indexation", "liquidated_damages", "liability_cap", "performance_guarantee", "termination", "condition_precedent", "obligation"
+- title: short title of the clause (e.g., "Delay liquidated damages")
+- summary: one or two sentences stating what the clause requires, including amounts, rates, periods and caps
+- party: the party the clause binds or benefits, as defined in the contract (e.g., "Seller", "Contractor"); null if not specific
+- value: the key figure as written (e.g., "USD 45.50/MWh", "25 years", "0.1% of the Contract Price per day", "2.5% per annum"); null if none
+- clause_reference: clause number as written (e.g., "14.2"); null if not numbered
+- source_quote: short verbatim excerpt (max 200 characters) copied exactly from the document text
+
+List every termination trigger, condition precedent and obligation as a separate clause. Do not invent clauses that are not in the text.
+
+Return JSON:
+{
+  "clauses": [
+    {
+      "category": "liquidated_damages",
+      "title": "Delay liquidated damages",
+      "summary": "The Contractor pays 0.1% of the Contract Price per day of delay beyond the Guaranteed Completion Date, capped at 10% of the Contract Price.",
+      "party": "Contractor",
+      "value": "0.1% of the Contract Price per day",
+      "clause_reference": "14.2",
+      "source_quote": "the Contractor shall pay delay liquidated damages of 0.1% of the Contract Price for each day"
+    }
+  ]
+}
+
+Document text:
+{{text}}`,
+  },
+  fact_key_mapping: {
+    description: 'Map extracted fact key names onto the canonical fact key ontology',
+    variables: ['canonical_keys', 'raw_keys'],
+    systemPrompt: `You are an expert in renewable energy project data. You map fact names to a fixed list of canonical keys. Return valid JSON only.`,
+    body: `Map each extracted key name to the canonical key that means the same thing.
+
+Canonical keys (key: label, section, kind of value and unit, synonyms):
+{{canonical_keys}}
+
+Extracted key names, each with an example statement:
+{{raw_keys}}
+
+Rules:
+- canonical_key must be one of the canonical keys above, copied exactly
+- Use null when no canonical key means the same thing; do not pick a broader or related key
+- DC and AC values are different keys (dc_capacity is not ac_capacity); so are power (MW) and energy (MWh)
+- confidence: 0 to 1, how sure you are that both names mean the same thing
+
+Return JSON:
+{
+  "mappings": [
+    { "raw_key": "capacity_dc_mwp", "canonical_key": "dc_capacity", "confidence": 0.95 },
+    { "raw_key": "number_of_landowners", "canonical_key": null, "confidence": 0.8 }
+  ]
+}`,
+  },
+};
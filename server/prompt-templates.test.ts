@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { findMissingVariables, formatVersionTag, renderTemplate } from './prompt-templates';
+import { BUILT_IN_PROMPTS } from './prompt-template-defaults';
+
+describe('Prompt Templates', () => {
+  it('should fill known variables and leave unknown placeholders', () => {
+    const rendered = renderTemplate('Type: {{document_type}}\n{{ text }}\n{{unknown}}', {
+      document_type: 'Grid study',
+      text: 'Connection capacity 50 MW',
+    });
+
+    expect(rendered).toBe('Type: Grid study\nConnection capacity 50 MW\n{{unknown}}');
+  });
+
+  it('should flag edits that drop required variables', () => {
+    const builtIn = BUILT_IN_PROMPTS.fact_risks;
+
+    expect(findMissingVariables('fact_risks', builtIn.systemPrompt, builtIn.body)).toEqual([]);
+    expect(findMissingVariables('fact_risks', builtIn.systemPrompt, 'Extract risks.')).toContain('text');
+  });
+
+  it('should tag versions with the template key', () => {
+    expect(formatVersionTag('financial_data', 0)).toBe('financial_data@v0');
+    expect(formatVersionTag('fact_structured', 3)).toBe('fact_structured@v3');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Prompt Template Store
+ *
+ * Versioned, editable LLM prompts (main database `prompt_templates`).
+ * - Version 0 of each template is built in (prompt-template-defaults.ts)
+ * - Saving an edit creates a new version and makes it the active one; any
+ *   version, including 0, can be re-activated to roll back
+ * - Templates use {{variable}} placeholders (document type, section list, text chunk, ...)
+ * - Every rendered prompt carries a version tag ("fact_risks@v3") that is stored
+ *   with the facts it produced, so results can be traced to the exact prompt
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { promptTemplates } from '../drizzle/schema';
+import {
+  BUILT_IN_PROMPTS,
+  PROMPT_TEMPLATE_KEYS,
+  type PromptTemplateKey,
+} from './prompt-template-defaults';
+
+export { PROMPT_TEMPLATE_KEYS, type PromptTemplateKey } from './prompt-template-defaults';
+
+export interface PromptTemplateVersion {
+  key: PromptTemplateKey;
+  version: number; // 0 = built in
+  systemPrompt: string;
+  body: string;
+  notes: string | null;
+  isActive: boolean;
+  createdAt: Date | null;
+}
+
+export interface RenderedPrompt {
+  systemPrompt: string;
+  prompt: string;
+  versionTag: string; // "<key>@v<version>", recorded on extracted facts
+}
+
+// Active versions are re-read at most this often (edits on this server apply immediately)
+const CACHE_TTL_MS = parseInt(process.env.PROMPT_TEMPLATE_CACHE_MS || '60000');
+
+const activeCache = new Map<PromptTemplateKey, { template: PromptTemplateVersion; loadedAt: number }>();
+
+/**
+ * Fill {{variable}} placeholders. Placeholders without a value are left in place.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+/**
+ * Variables of a template that an edited version no longer uses
+ */
+export function findMissingVariables(key: PromptTemplateKey, systemPrompt: string, body: string): string[] {
+  const used = new Set(Array.from(`${systemPrompt}\n${body}`.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]));
+  return BUILT_IN_PROMPTS[key].variables.filter(variable => !used.has(variable));
+}
+
+export function formatVersionTag(key: PromptTemplateKey, version: number): string {
+  return `${key}@v${version}`;
+}
+
+/**
+ * Render the active version of a template
+ */
+export async function renderPrompt(
+  key: PromptTemplateKey,
+  variables: Record<string, string>
+): Promise<RenderedPrompt> {
+  const template = await getActiveTemplate(key);
+  return {
+    systemPrompt: renderTemplate(template.systemPrompt, variables),
+    prompt: renderTemplate(template.body, variables),
+    versionTag: formatVersionTag(key, template.version),
+  };
+}
+
+/**
+ * The active version of a template; the built-in version when none is active
+ * or the store can't be read
+ */
+export async function getActiveTemplate(key: PromptTemplateKey): Promise<PromptTemplateVersion> {
+  const cached = activeCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.template;
+
+  let template = builtInVersion(key, true);
+  try {
+    const db = await getDb();
+    const rows = await db
+      .select()
+      .from(promptTemplates)
+      .where(and(eq(promptTemplates.templateKey, key), eq(promptTemplates.isActive, 1)))
+      .limit(1);
+    if (rows.length > 0) template = toVersion(rows[0]);
+  } catch (error) {
+    console.error(`[Prompt Templates] Failed to load ${key}, using built-in version:`, error);
+  }
+
+  activeCache.set(key, { template, loadedAt: Date.now() });
+  return template;
+}
+
+/**
+ * Every template with its description, variables and active version
+ */
+export async function listPromptTemplates(): Promise<Array<{
+  key: PromptTemplateKey;
+  description: string;
+  variables: string[];
+  activeVersion: number;
+}>> {
+  const result = [];
+  for (const key of PROMPT_TEMPLATE_KEYS) {
+    const active = await getActiveTemplate(key);
+    result.push({
+      key,
+      description: BUILT_IN_PROMPTS[key].description,
+      variables: BUILT_IN_PROMPTS[key].variables,
+      activeVersion: active.version,
+    });
+  }
+  return result;
+}
+
+/**
+ * All versions of a template, newest first, ending with the built-in version 0
+ */
+export async function listTemplateVersions(key: PromptTemplateKey): Promise<PromptTemplateVersion[]> {
+  const db = await getDb();
+  const rows = await db
+    .select()
+    .from(promptTemplates)
+    .where(eq(promptTemplates.templateKey, key))
+    .orderBy(desc(promptTemplates.version));
+  const versions: PromptTemplateVersion[] = rows.map(toVersion);
+  versions.push(builtInVersion(key, !versions.some(v => v.isActive)));
+  return versions;
+}
+
+/**
+ * Save an edited template as a new version and activate it
+ */
+export async function savePromptTemplate(input: {
+  key: PromptTemplateKey;
+  systemPrompt: string;
+  body: string;
+  notes?: string | null;
+  userId?: number | null;
+}): Promise<number> {
+  const missing = findMissingVariables(input.key, input.systemPrompt, input.body);
+  if (missing.length > 0) {
+    throw new Error(`Template must use ${missing.map(v => `{{${v}}}`).join(', ')}`);
+  }
+
+  const db = await getDb();
+  const [latest] = await db
+    .select({ version: promptTemplates.version })
+    .from(promptTemplates)
+    .where(eq(promptTemplates.templateKey, input.key))
+    .orderBy(desc(promptTemplates.version))
+    .limit(1);
+  const version = (latest?.version ?? 0) + 1;
+
+  await db.update(promptTemplates).set({ isActive: 0 }).where(eq(promptTemplates.templateKey, input.key));
+  await db.insert(promptTemplates).values({
+    templateKey: input.key,
+    version,
+    systemPrompt: input.systemPrompt,
+    body: input.body,
+    notes: input.notes?.trim() || null,
+    isActive: 1,
+    createdByUserId: input.userId ?? null,
+  });
+
+  activeCache.delete(input.key);
+  console.log(`[Prompt Templates] Saved ${formatVersionTag(input.key, version)}`);
+  return version;
+}
+
+/**
+ * Make an existing version the active one (0 = back to the built-in prompt)
+ */
+export async function activateTemplateVersion(key: PromptTemplateKey, version: number): Promise<void> {
+  const db = await getDb();
+  if (version !== 0) {
+    const rows = await db
+      .select({ id: promptTemplates.id })
+      .from(promptTemplates)
+      .where(and(eq(promptTemplates.templateKey, key), eq(promptTemplates.version, version)))
+      .limit(1);
+    if (rows.length === 0) throw new Error(`${formatVersionTag(key, version)} does not exist`);
+  }
+
+  await db.update(promptTemplates).set({ isActive: 0 }).where(eq(promptTemplates.templateKey, key));
+  if (version !== 0) {
+    await db
+      .update(promptTemplates)
+      .set({ isActive: 1 })
+      .where(and(eq(promptTemplates.templateKey, key), eq(promptTemplates.version, version)));
+  }
+
+  activeCache.delete(key);
+  console.log(`[Prompt Templates] Activated ${formatVersionTag(key, version)}`);
+}
+
+function builtInVersion(key: PromptTemplateKey, isActive: boolean): PromptTemplateVersion {
+  const definition = BUILT_IN_PROMPTS[key];
+  return {
+    key,
+    version: 0,
+    systemPrompt: definition.systemPrompt,
+    body: definition.body,
+    notes: 'Built-in prompt',
+    isActive,
+    createdAt: null,
+  };
+}
+
+function toVersion(row: any): PromptTemplateVersion {
+  return {
+    key: row.templateKey,
+    version: row.version,
+    systemPrompt: row.systemPrompt,
+    body: row.body,
+    notes: row.notes,
+    isActive: row.isActive === 1,
+    createdAt: row.createdAt,
+  };
+}
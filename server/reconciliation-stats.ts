@@ -0,0 +1,72 @@
+/**
+ * Reconciliation Run Statistics
+ *
+ * Counts and timings of each reconciliation run (project-consolidator.ts),
+ * kept in the project's reconciliation_runs table so the cost of the
+ * embedding, clustering and LLM merge steps can be compared across runs.
+ */
+
+import type { Queryable } from './document-dedup';
+
+export interface ReconciliationStats {
+  facts: number;                // facts considered
+  keys: number;                 // keys with facts from more than one document
+  embeddingsComputed: number;
+  embeddingsReused: number;
+  pairsCompared: number;        // fact pairs compared in memory
+  clusters: number;             // clusters of more than one fact
+  merges: number;
+  conflicts: number;
+  llmCalls: number;             // merge calls; similarity is no longer asked of the LLM
+  embeddingMs: number;
+  clusteringMs: number;
+  llmMs: number;
+  totalMs: number;
+}
+
+export interface ReconciliationRun extends ReconciliationStats {
+  id: number;
+  createdAt: string;
+}
+
+const COLUMNS: Array<[keyof ReconciliationStats, string]> = [
+  ['facts', 'facts'],
+  ['keys', 'fact_keys'],
+  ['embeddingsComputed', 'embeddings_computed'],
+  ['embeddingsReused', 'embeddings_reused'],
+  ['pairsCompared', 'pairs_compared'],
+  ['clusters', 'clusters'],
+  ['merges', 'merges'],
+  ['conflicts', 'conflicts'],
+  ['llmCalls', 'llm_calls'],
+  ['embeddingMs', 'embedding_ms'],
+  ['clusteringMs', 'clustering_ms'],
+  ['llmMs', 'llm_ms'],
+  ['totalMs', 'total_ms'],
+];
+
+export function emptyReconciliationStats(): ReconciliationStats {
+  return Object.fromEntries(COLUMNS.map(([field]) => [field, 0])) as unknown as ReconciliationStats;
+}
+
+export async function saveReconciliationRun(projectDb: Queryable, stats: ReconciliationStats): Promise<void> {
+  await projectDb.execute(
+    `INSERT INTO reconciliation_runs (${COLUMNS.map(([, column]) => column).join(', ')})
+     VALUES (${COLUMNS.map(() => '?').join(', ')})`,
+    COLUMNS.map(([field]) => Math.round(stats[field]))
+  );
+}
+
+/**
+ * Latest reconciliation runs of a project, newest first
+ */
+export async function listReconciliationRuns(projectDb: Queryable, limit = 10): Promise<ReconciliationRun[]> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT * FROM reconciliation_runs ORDER BY id DESC LIMIT ${Math.max(1, Math.floor(limit))}`
+  );
+  return rows.map((row: any) => ({
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    ...Object.fromEntries(COLUMNS.map(([field, column]) => [field, Number(row[column] ?? 0)])),
+  }));
+}
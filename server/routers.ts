@@ -1,18 +1,30 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router, protectedProcedure } from "./_core/trpc";
-import { createProject, getProjectsByUser, getProjectById, getDb } from "./db";
+import { publicProcedure, router, protectedProcedure, adminProcedure } from "./_core/trpc";
+import { createProject, getProjectsByUser, getProjectById, getDb, getOllamaConfig } from "./db";
 import { ollamaConfig } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { createProjectDbPool, createProjectDbConnection } from "./db-connection";
 import { uploadDocument } from "./document-service";
-import { processDocument } from "./document-processor-v2";
+import { PROMPT_TEMPLATE_KEYS } from "./prompt-template-defaults";
+import { EXTRACTION_PASSES, SPECIALISED_EXTRACTORS } from "./document-taxonomy";
 import { demoRouter } from "./demo-router";
 import mysql from 'mysql2/promise';
 import { sql } from 'drizzle-orm';
 
+/**
+ * Reject document type codes that are not in the taxonomy (AUTO asks for classification)
+ */
+async function assertDocumentType(documentType: string) {
+  if (documentType === "AUTO") return;
+  const { isActiveDocumentType } = await import("./document-taxonomy");
+  if (!(await isActiveDocumentType(documentType))) {
+    throw new Error(`Unknown document type: ${documentType}`);
+  }
+}
+
 export const appRouter = router({
   system: systemRouter,
   auth: router({
@@ -28,11 +40,7 @@ export const appRouter = router({
 
   ollama: router({
     getConfig: publicProcedure.query(async () => {
-      const db = await getDb();
-      if (!db) throw new Error("Database not available");
-      
-      const [rows] = await db.execute("SELECT * FROM ollama_config LIMIT 1") as any;
-      return rows[0] || null;
+      return await getOllamaConfig();
     }),
     updateConfig: protectedProcedure
       .input(z.object({
@@ -41,8 +49,21 @@ export const appRouter = router({
         temperature: z.string(),
         topP: z.string(),
         timeoutSeconds: z.number(),
+        provider: z.enum(["ollama", "forge"]),
+        fallbackProvider: z.enum(["ollama", "forge", "none"]),
+        // Per-stage models; empty = use the default model
+        classificationModel: z.string().nullable(),
+        extractionModel: z.string().nullable(),
+        similarityModel: z.string().nullable(),
+        narrativeModel: z.string().nullable(),
       }))
       .mutation(async ({ input }) => {
+        const stageModels = {
+          classificationModel: input.classificationModel?.trim() || null,
+          extractionModel: input.extractionModel?.trim() || null,
+          similarityModel: input.similarityModel?.trim() || null,
+          narrativeModel: input.narrativeModel?.trim() || null,
+        };
         const db = await getDb();
         if (!db) throw new Error("Database not available");
         
@@ -56,6 +77,9 @@ export const appRouter = router({
               temperature: input.temperature,
               topP: input.topP,
               timeoutSeconds: input.timeoutSeconds,
+              provider: input.provider,
+              fallbackProvider: input.fallbackProvider,
+              ...stageModels,
               updatedAt: new Date(),
             })
             .where(eq(ollamaConfig.id, existing[0].id));
@@ -66,8 +90,14 @@ export const appRouter = router({
             temperature: input.temperature,
             topP: input.topP,
             timeoutSeconds: input.timeoutSeconds,
+            provider: input.provider,
+            fallbackProvider: input.fallbackProvider,
+            ...stageModels,
           });
         }
+
+        const { clearLlmSettingsCache } = await import("./llm-providers");
+        clearLlmSettingsCache();
         
         return { success: true };
       }),
@@ -84,6 +114,127 @@ export const appRouter = router({
       }),
   }),
 
+  // Versioned LLM prompt templates (edited on the Ollama Config page; changes limited to admins)
+  prompts: router({
+    list: protectedProcedure.query(async () => {
+      const { listPromptTemplates } = await import('./prompt-templates');
+      return await listPromptTemplates();
+    }),
+    versions: protectedProcedure
+      .input(z.object({ key: z.enum(PROMPT_TEMPLATE_KEYS) }))
+      .query(async ({ input }) => {
+        const { listTemplateVersions } = await import('./prompt-templates');
+        return await listTemplateVersions(input.key);
+      }),
+    save: adminProcedure
+      .input(z.object({
+        key: z.enum(PROMPT_TEMPLATE_KEYS),
+        systemPrompt: z.string().min(1),
+        body: z.string().min(1),
+        notes: z.string().max(500).nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { savePromptTemplate } = await import('./prompt-templates');
+        const version = await savePromptTemplate({ ...input, userId: ctx.user.id });
+        return { success: true, version };
+      }),
+    activate: adminProcedure
+      .input(z.object({ key: z.enum(PROMPT_TEMPLATE_KEYS), version: z.number().int().min(0) }))
+      .mutation(async ({ input }) => {
+        const { activateTemplateVersion } = await import('./prompt-templates');
+        await activateTemplateVersion(input.key, input.version);
+        return { success: true };
+      }),
+  }),
+
+  // Admin-managed document types and the extraction profiles bound to them
+  taxonomy: router({
+    listTypes: protectedProcedure
+      .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+      .query(async ({ input }) => {
+        const { listDocumentTypes } = await import('./document-taxonomy');
+        return await listDocumentTypes(input?.includeInactive ?? false);
+      }),
+    listProfiles: protectedProcedure.query(async () => {
+      const { listExtractionProfiles } = await import('./document-taxonomy');
+      return await listExtractionProfiles();
+    }),
+    saveType: adminProcedure
+      .input(z.object({
+        code: z.string().min(1),
+        label: z.string().min(1),
+        description: z.string().nullable().optional(),
+        classificationHints: z.string().nullable().optional(),
+        extractionProfileId: z.number().nullable().optional(),
+        isActive: z.boolean().optional(),
+        sortOrder: z.number().optional(),
+        authorityRank: z.number().int().min(0).max(100).optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { saveDocumentType } = await import('./document-taxonomy');
+        await saveDocumentType(input);
+        return { success: true };
+      }),
+    saveProfile: adminProcedure
+      .input(z.object({
+        id: z.number().nullable().optional(),
+        name: z.string().min(1),
+        description: z.string().nullable().optional(),
+        passes: z.array(z.enum(EXTRACTION_PASSES)),
+        extractors: z.array(z.enum(SPECIALISED_EXTRACTORS)),
+        promptInstructions: z.string().nullable().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { saveExtractionProfile } = await import('./document-taxonomy');
+        const id = await saveExtractionProfile(input);
+        return { success: true, id };
+      }),
+    deleteProfile: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const { deleteExtractionProfile } = await import('./document-taxonomy');
+        await deleteExtractionProfile(input.id);
+        return { success: true };
+      }),
+  }),
+
+  // Admin-managed canonical fact keys and the key names mapped onto them (all projects)
+  factKeys: router({
+    list: protectedProcedure
+      .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+      .query(async ({ input }) => {
+        const { listFactKeys } = await import('./fact-key-ontology');
+        return await listFactKeys(input?.includeInactive ?? false);
+      }),
+    save: adminProcedure
+      .input(z.object({
+        key: z.string().min(1),
+        label: z.string().min(1),
+        section: z.string().min(1),
+        valueKind: z.enum(['power', 'energy', 'voltage', 'currency', 'percentage', 'number', 'date', 'enum']).nullable().optional(),
+        unit: z.string().nullable().optional(),
+        synonyms: z.array(z.string()).optional(),
+        description: z.string().nullable().optional(),
+        isActive: z.boolean().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { saveFactKey } = await import('./fact-key-ontology');
+        await saveFactKey(input);
+        return { success: true };
+      }),
+    mappings: protectedProcedure.query(async () => {
+      const { listKeyMappings } = await import('./fact-key-ontology');
+      return await listKeyMappings();
+    }),
+    saveMapping: adminProcedure
+      .input(z.object({ rawKey: z.string().min(1), canonicalKey: z.string().nullable() }))
+      .mutation(async ({ input }) => {
+        const { saveKeyMapping } = await import('./fact-key-ontology');
+        await saveKeyMapping(input.rawKey, input.canonicalKey);
+        return { success: true };
+      }),
+  }),
+
   documents: router({
     // Initialize chunked upload session
     initChunkedUpload: protectedProcedure
@@ -93,11 +244,12 @@ export const appRouter = router({
           fileName: z.string(),
           fileType: z.string(),
           fileSize: z.number(),
-          documentType: z.enum(["IM", "DD_PACK", "CONTRACT", "GRID_STUDY", "CONCEPT_DESIGN", "WEATHER_FILE", "OTHER", "AUTO"]),
+          documentType: z.string(), // document type code, or AUTO to classify
           totalChunks: z.number(),
         })
       )
       .mutation(async ({ input, ctx }) => {
+        await assertDocumentType(input.documentType);
         const uploadId = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const { storagePut } = await import("./storage");
         
@@ -157,6 +309,8 @@ export const appRouter = router({
       .input(
         z.object({
           uploadId: z.string(),
+          // Decision for an exact duplicate reported by a previous finalize call
+          duplicateAction: z.enum(["skip", "replace", "revision"]).optional(),
         })
       )
       .mutation(async ({ input, ctx }) => {
@@ -195,13 +349,61 @@ export const appRouter = router({
           const fileStats = await fs.stat(reassembledPath);
           console.log(`[Chunked Upload] Reassembled file size: ${fileStats.size} bytes`);
           
+          // Data room archives are unpacked and imported file-by-file by a background job
+          if (metadata.fileName.toLowerCase().endsWith(".zip")) {
+            const { v4: uuidv4 } = await import('uuid');
+            const importId = uuidv4();
+            const projectIdNum = parseInt(metadata.projectId);
+            const importsDir = path.join(process.cwd(), "data", "projects", `proj_${projectIdNum}`, "imports");
+            await fs.mkdir(importsDir, { recursive: true });
+            const zipPath = path.join(importsDir, `${importId}.zip`);
+            await fs.rename(reassembledPath, zipPath);
+            await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+
+            const connection = await createProjectDbConnection(projectIdNum);
+            try {
+              await connection.execute(
+                `INSERT INTO data_room_imports (id, file_name, file_path, status, created_by) VALUES (?, ?, ?, 'queued', ?)`,
+                [importId, metadata.fileName, zipPath, metadata.userId ?? null]
+              );
+            } finally {
+              await connection.end();
+            }
+
+            const { enqueueProcessingJob } = await import('./job-queue');
+            await enqueueProcessingJob({
+              projectId: projectIdNum,
+              jobType: 'data_room_import',
+              payload: { importId, zipPath },
+            });
+
+            console.log(`[Chunked Upload] Data room import queued: ${importId}`);
+            return { documentId: null, importId, duplicate: null };
+          }
+          
+          // Exact duplicate check - the chunks stay in storage, so the client can finalize again with a decision
+          const { hashFile, findExactDuplicate, applyUploadDuplicateAction } = await import('./document-dedup');
+          const fileHash = await hashFile(reassembledPath);
+          const existingConnection = await createProjectDbConnection(parseInt(metadata.projectId));
+          let exactDuplicate;
+          try {
+            exactDuplicate = await findExactDuplicate(existingConnection, fileHash);
+          } finally {
+            await existingConnection.end();
+          }
+          if (exactDuplicate && input.duplicateAction !== 'replace' && input.duplicateAction !== 'revision') {
+            await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+            console.log(`[Chunked Upload] ${metadata.fileName} is identical to ${exactDuplicate.fileName} (${input.duplicateAction ?? 'awaiting decision'})`);
+            return { documentId: null, importId: null, duplicate: input.duplicateAction === 'skip' ? null : exactDuplicate };
+          }
+          
           // Generate document ID immediately and return to avoid timeout
           const { v4: uuidv4 } = await import('uuid');
           const documentId = uuidv4();
           console.log(`[Chunked Upload] Generated document ID: ${documentId}`);
           
           // Return immediately to prevent timeout
-          const response = { documentId };
+          const response = { documentId, importId: null, duplicate: null };
           
           // Process asynchronously in background
           (async () => {
@@ -222,7 +424,6 @@ export const appRouter = router({
               
               // Move file directly to storage without loading into memory
               console.log(`[Chunked Upload] Moving file to storage...`);
-              const crypto = await import('crypto');
               const projectIdNum = parseInt(metadata.projectId);
               
               // Ensure project storage directory exists
@@ -238,13 +439,6 @@ export const appRouter = router({
               await fs.rename(reassembledPath, finalPath);
               console.log(`[Chunked Upload] File moved to: ${finalPath}`);
               
-              // Calculate hash using streaming (memory efficient)
-              const hashStream = crypto.createHash('sha256');
-              const readStream = (await import('fs')).createReadStream(finalPath);
-              for await (const chunk of readStream) {
-                hashStream.update(chunk);
-              }
-              const fileHash = hashStream.digest('hex');
               console.log(`[Chunked Upload] File hash: ${fileHash}`);
               
               // Save to database
@@ -279,73 +473,34 @@ export const appRouter = router({
                  VALUES (?, ?, ?, ?, ?, ?, NOW(), 'uploaded')`,
                 [documentId, metadata.fileName, finalPath, metadata.fileSize, fileHash, finalDocumentType]
               );
+              if (exactDuplicate && (input.duplicateAction === 'replace' || input.duplicateAction === 'revision')) {
+                await applyUploadDuplicateAction(projectConn, documentId, exactDuplicate, input.duplicateAction);
+              }
               await projectConn.end();
               
               console.log(`[Chunked Upload] ✓ Document saved to database: ${documentId}`);
               
               const document = { id: documentId, fileName: metadata.fileName, filePath: finalPath };
 
-              // Start processing
-              const projectDb = createProjectDbPool(projectIdNum);
-              
-              try {
-                await projectDb.execute(
-                  `INSERT INTO processing_jobs (document_id, status, stage, progress_percent, started_at) 
-                   VALUES (?, 'processing', 'queued', 0, NOW())`,
-                  [document.id]
-                );
-              } finally {
-                await projectDb.end();
+              // Queue processing (durable - survives server restarts)
+              const { enqueueProcessingJob } = await import('./job-queue');
+              if (finalDocumentType === 'WEATHER_FILE') {
+                await enqueueProcessingJob({
+                  projectId: projectIdNum,
+                  jobType: 'weather_parsing',
+                  documentId: document.id,
+                  payload: { fileName: document.fileName, filePath: document.filePath, fileSize: metadata.fileSize },
+                });
+              } else {
+                await enqueueProcessingJob({
+                  projectId: projectIdNum,
+                  jobType: 'document_processing',
+                  documentId: document.id,
+                  payload: { filePath: document.filePath, documentType: finalDocumentType },
+                });
               }
               
-              // Progress callback
-              const updateProgress = async (stage: string, progress: number) => {
-                const projectDb = createProjectDbPool(projectIdNum);
-                try {
-                  await projectDb.execute(
-                    `UPDATE processing_jobs SET stage = ?, progress_percent = ?, updated_at = NOW() WHERE document_id = ?`,
-                    [stage, progress, document.id]
-                  );
-                } finally {
-                  await projectDb.end();
-                }
-              };
-              
-              // Process document
-              processDocument(projectIdNum, document.id, document.filePath, finalDocumentType as any, 'llama3.2:latest', undefined, updateProgress).then(async (result) => {
-                if (result.facts.length > 0) {
-                  const projectDb = createProjectDbPool(projectIdNum);
-                  try {
-                    const { insertRawFacts } = await import('./simple-fact-inserter');
-                    await insertRawFacts(projectDb, projectIdNum, document.id, result.facts);
-                  } finally {
-                    await projectDb.end();
-                  }
-                }
-                
-                const projectDb = createProjectDbPool(projectIdNum);
-                try {
-                  await projectDb.execute(
-                    `UPDATE processing_jobs SET status = 'completed', stage = 'done', progress_percent = 100, completed_at = NOW() WHERE document_id = ?`,
-                    [document.id]
-                  );
-                } finally {
-                  await projectDb.end();
-                }
-              }).catch(async (error) => {
-                console.error("Document processing failed:", error);
-                const projectDb = createProjectDbPool(projectIdNum);
-                try {
-                  await projectDb.execute(
-                    `UPDATE processing_jobs SET status = 'failed', stage = 'error', error_message = ?, completed_at = NOW() WHERE document_id = ?`,
-                    [error.message, document.id]
-                  );
-                } finally {
-                  await projectDb.end();
-                }
-              });
-              
-              console.log(`[Chunked Upload] Background processing initiated: ${document.id}`);
+              console.log(`[Chunked Upload] Background processing queued: ${document.id}`);
               
               // Clean up local temp directory
               console.log(`[Chunked Upload] Cleaning up local temp directory: ${tempDir}`);
@@ -382,13 +537,33 @@ export const appRouter = router({
             fileName: z.string(),
             fileType: z.string(),
             fileSize: z.number(),
-            documentType: z.enum(["IM", "DD_PACK", "CONTRACT", "GRID_STUDY", "CONCEPT_DESIGN", "WEATHER_FILE", "OTHER", "AUTO"]),
+            documentType: z.string(), // document type code, or AUTO to classify
             fileData: z.string(), // base64 encoded
+            // Decision for an exact duplicate reported by a previous upload attempt
+            duplicateAction: z.enum(["skip", "replace", "revision"]).optional(),
           })
         )
         .mutation(async ({ input, ctx }) => {
+          await assertDocumentType(input.documentType);
           // Decode base64 file data
           const fileBuffer = Buffer.from(input.fileData, "base64");
+          const projectIdNum = parseInt(input.projectId);
+
+          // Exact duplicate check before anything is stored
+          const crypto = await import('crypto');
+          const { findExactDuplicate, applyUploadDuplicateAction } = await import('./document-dedup');
+          const fileHash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+          const dedupConnection = await createProjectDbConnection(projectIdNum);
+          let exactDuplicate;
+          try {
+            exactDuplicate = await findExactDuplicate(dedupConnection, fileHash);
+          } finally {
+            await dedupConnection.end();
+          }
+          if (exactDuplicate && input.duplicateAction !== 'replace' && input.duplicateAction !== 'revision') {
+            console.log(`[Upload] ${input.fileName} is identical to ${exactDuplicate.fileName} (${input.duplicateAction ?? 'awaiting decision'})`);
+            return { documentId: null, duplicate: input.duplicateAction === 'skip' ? null : exactDuplicate };
+          }
           
           // Determine document type using AI if AUTO is selected
           let finalDocumentType = input.documentType;
@@ -418,251 +593,40 @@ export const appRouter = router({
           ctx.user.id
         );
 
-        // Start processing asynchronously and save facts
-        const projectIdNum = parseInt(input.projectId);
-        
-        // Create processing job record using project ID (table-prefix architecture)
-        const projectDb = createProjectDbPool(projectIdNum);
-        
-        try {
-          
-          // Insert initial processing job
-          await projectDb.execute(
-            `INSERT INTO processing_jobs (document_id, status, stage, progress_percent, started_at) 
-             VALUES (?, 'processing', 'queued', 0, NOW())`,
-            [document.id]
-          );
-        } finally {
-          await projectDb.end();
-        }
-        
-        // Progress callback to update job status
-        const updateProgress = async (stage: string, progress: number) => {
-          const projectDb = createProjectDbPool(projectIdNum);
+        if (exactDuplicate && (input.duplicateAction === 'replace' || input.duplicateAction === 'revision')) {
+          const connection = await createProjectDbConnection(projectIdNum);
           try {
-            
-            const status = progress >= 100 ? 'completed' : 'processing';
-            const completedAt = progress >= 100 ? ', completed_at = NOW()' : '';
-            
-            await projectDb.execute(
-              `UPDATE processing_jobs SET stage = ?, progress_percent = ?, status = ? ${completedAt} WHERE document_id = ?`,
-              [stage, progress, status, document.id]
-            );
+            await applyUploadDuplicateAction(connection, document.id, exactDuplicate, input.duplicateAction);
           } finally {
-            await projectDb.end();
+            await connection.end();
           }
-        };
+        }
+
+        // Queue processing (durable - survives server restarts, retried on failure)
+        const { enqueueProcessingJob } = await import('./job-queue');
         
-        // Skip extraction for weather files - they're data files, not documents
+        // Weather files are data files, not documents - register and parse them instead of extracting facts
         if (finalDocumentType === 'WEATHER_FILE') {
-          console.log(`[Document Processor] Skipping extraction for weather file: ${document.fileName}`);
-          console.log(`[Document Processor] projectIdNum: ${projectIdNum}`);
-          
-          // Also create a weather_files record so it shows up in Performance Validation
-          try {
-            console.log(`[Document Processor] Creating weather_files record for ${document.fileName}...`);
-            const weatherProjectDb = createProjectDbPool(projectIdNum);
-            try {
-              const { v4: uuidv4 } = await import('uuid');
-              const weatherFileId = uuidv4();
-              const originalFormat = document.fileName.toLowerCase().endsWith('.csv') ? 'tmy_csv' : 'unknown';
-              
-              // Parse weather file header to extract location
-              let latitude: number | null = null;
-              let longitude: number | null = null;
-              let elevation: number | null = null;
-              let locationName: string | null = null;
-              
-              try {
-                const fs = await import('fs/promises');
-                const fileContent = await fs.readFile(document.filePath, 'utf-8');
-                const lines = fileContent.split('\n');
-                
-                // Parse PVGIS TMY header format
-                for (const line of lines.slice(0, 20)) {
-                  if (line.includes('Latitude')) {
-                    const match = line.match(/Latitude[^:]*:\s*([\d.-]+)/);
-                    if (match) latitude = parseFloat(match[1]);
-                  }
-                  if (line.includes('Longitude')) {
-                    const match = line.match(/Longitude[^:]*:\s*([\d.-]+)/);
-                    if (match) longitude = parseFloat(match[1]);
-                  }
-                  if (line.includes('Elevation')) {
-                    const match = line.match(/Elevation[^:]*:\s*([\d.-]+)/);
-                    if (match) elevation = parseFloat(match[1]);
-                  }
-                  if (line.includes('Location')) {
-                    const match = line.match(/Location[^:]*:\s*(.+)/);
-                    if (match) locationName = match[1].trim();
-                  }
-                }
-                
-                if (latitude && longitude) {
-                  console.log(`[Document Processor] Extracted location from weather file: ${latitude}, ${longitude}`);
-                }
-              } catch (parseErr) {
-                console.error('[Document Processor] Failed to parse weather file header:', parseErr);
-              }
-              
-              // Build INSERT with optional location fields
-              const fields = [
-                'id', 'project_id', 'file_key', 'file_url', 'file_name', 'file_size_bytes',
-                'source_type', 'source_document_id', 'original_format', 'status', 'is_active',
-                'created_at', 'updated_at'
-              ];
-              const placeholders = ['?', '?', '?', '?', '?', '?', '?', '?', '?', '?', '?', 'NOW()', 'NOW()'];
-              const values: any[] = [
-                weatherFileId,
-                projectIdNum,
-                document.filePath,
-                document.filePath,
-                document.fileName,
-                input.fileSize,
-                'document_upload',
-                document.id,
-                originalFormat,
-                'pending',
-                1
-              ];
-              
-              if (latitude !== null) {
-                fields.push('latitude');
-                placeholders.push('?');
-                values.push(latitude);
-              }
-              if (longitude !== null) {
-                fields.push('longitude');
-                placeholders.push('?');
-                values.push(longitude);
-              }
-              if (elevation !== null) {
-                fields.push('elevation');
-                placeholders.push('?');
-                values.push(elevation);
-              }
-              if (locationName) {
-                fields.push('location_name');
-                placeholders.push('?');
-                values.push(locationName);
-              }
-              
-              await weatherProjectDb.execute(
-                `INSERT INTO weather_files (${fields.join(', ')}) VALUES (${placeholders.join(', ')})`,
-                values
-              );
-              
-              console.log(`[Document Processor] Created weather_files record: ${weatherFileId}`);
-            } catch (weatherErr) {
-              console.error('[Document Processor] Failed to create weather_files record:', weatherErr);
-            } finally {
-              await weatherProjectDb.end();
-            }
-          } catch (outerErr) {
-            console.error('[Document Processor] Failed to process weather file:', outerErr);
-          }
-          
-          await updateProgress('completed', 100);
-          console.log(`Document uploaded: ${document.id}, marked as completed (weather file)`);
-          return { ...document, documentId: document.id };
+          await enqueueProcessingJob({
+            projectId: projectIdNum,
+            jobType: 'weather_parsing',
+            documentId: document.id,
+            payload: { fileName: document.fileName, filePath: document.filePath, fileSize: input.fileSize },
+          });
+          console.log(`Document uploaded: ${document.id}, weather parsing queued`);
+          return { ...document, documentId: document.id, duplicate: null };
         }
         
-        processDocument(projectIdNum, document.id, document.filePath, finalDocumentType as any, 'llama3.2:latest', undefined, updateProgress)
-          .then(async (result) => {
-            // Save extracted facts to database
-            if (result.facts.length > 0) {
-              const projectDb = createProjectDbPool(projectIdNum);
-              try {
-                
-                // Phase 1: Simple insert - no reconciliation during upload
-                // Use simple fact inserter for fast processing
-                const { insertRawFacts } = await import('./simple-fact-inserter');
-                
-                // Insert facts directly without reconciliation
-                const insertedCount = await insertRawFacts(
-                  projectDb,
-                  projectIdNum,
-                  document.id,
-                  result.facts
-                );
-                
-                console.log(`[Document Processor] Inserted ${insertedCount} raw facts (reconciliation deferred to manual consolidation)`);
-                
-                // Phase 1: Extract location from document text
-                try {
-                  const { LocationExtractor } = await import('./location-extractor');
-                  const locationExtractor = new LocationExtractor();
-                  const locationData = await locationExtractor.extractLocation(result.extractedText);
-                  
-                  if (locationData && locationData.confidence > 0.3) {
-                    // Save location to performance_parameters table
-                    const { v4: uuidv4 } = await import('uuid');
-                    const paramId = uuidv4();
-                    
-                    const fields = ['id', 'project_id', 'source_document_id', 'confidence', 'extraction_method'];
-                    const values = [`'${paramId}'`, projectIdNum.toString(), `'${document.id}'`, locationData.confidence.toString(), `'${locationData.extraction_method}'`];
-                    
-                    if (locationData.latitude) {
-                      fields.push('latitude');
-                      values.push(locationData.latitude.toString());
-                    }
-                    if (locationData.longitude) {
-                      fields.push('longitude');
-                      values.push(locationData.longitude.toString());
-                    }
-                    if (locationData.site_name) {
-                      fields.push('site_name');
-                      values.push(`'${locationData.site_name.replace(/'/g, "''")}'`);
-                    }
-                    
-                    await projectDb.execute(
-                      `INSERT INTO performance_parameters (${fields.join(', ')}) VALUES (${values.join(', ')})`
-                    );
-                    
-                    console.log(`[Document Processor] Saved Phase 1 location (confidence: ${(locationData.confidence * 100).toFixed(1)}%):`, {
-                      coords: locationData.latitude && locationData.longitude ? `${locationData.latitude}, ${locationData.longitude}` : 'N/A',
-                      site: locationData.site_name || 'N/A'
-                    });
-                  } else {
-                    console.log(`[Document Processor] No location found in document (or confidence too low)`);
-                  }
-                } catch (locErr) {
-                  console.error(`[Document Processor] Location extraction failed:`, locErr);
-                  // Don't fail the whole process if location extraction fails
-                }
-                
-                console.log(`[Document Processor] Phase 1 complete: ${result.facts.length} facts extracted and stored`);
-                
-                // Mark as 100% complete - Phase 2 (consolidation) will be triggered manually
-                await updateProgress('completed', 100);
-                console.log(`[Document Processor] All processing completed for document ${document.id}`);
-                
-                // Skip narrative generation, performance extraction, financial extraction, weather extraction
-                // These will happen in Phase 2 when user clicks "Process & Consolidate"
-              } finally {
-                await projectDb.end();
-              }
-            }
-          })
-          .catch(async (err) => {
-            console.error(`Failed to process document ${document.id}:`, err);
-            
-            // Update job status to failed
-            const projectDb = createProjectDbPool(projectIdNum);
-            try {
-              
-              await projectDb.execute(
-                `UPDATE processing_jobs SET status = 'failed', error_message = ?, completed_at = NOW() WHERE document_id = ?`,
-                [err.message || 'Unknown error', document.id]
-              );
-            } finally {
-              await projectDb.end();
-            }
-          });
+        await enqueueProcessingJob({
+          projectId: projectIdNum,
+          jobType: 'document_processing',
+          documentId: document.id,
+          payload: { filePath: document.filePath, documentType: finalDocumentType },
+        });
         
-        console.log(`Document uploaded: ${document.id}, processing started`);
+        console.log(`Document uploaded: ${document.id}, processing queued`);
 
-        return { ...document, documentId: document.id };
+        return { ...document, documentId: document.id, duplicate: null };
       }),
     list: protectedProcedure
       .input(z.object({ projectId: z.string() }))
@@ -682,13 +646,125 @@ export const appRouter = router({
         
         try {
           const [rows] = await connection.execute(
-            "SELECT id, fileName, filePath, fileSizeBytes, fileHash, documentType, uploadDate, status, processingError, pageCount, createdAt, updatedAt FROM documents ORDER BY uploadDate DESC"
+            "SELECT id, fileName, filePath, fileSizeBytes, fileHash, documentType, uploadDate, status, processingError, pageCount, folderPath, importId, revisionGroupId, revisionNumber, supersededBy, supersededAt, executionStatus, DATE_FORMAT(documentDate, '%Y-%m-%d') AS documentDate, createdAt, updatedAt FROM documents ORDER BY folderPath, uploadDate DESC"
           );
           return rows as unknown as any[];
         } finally {
           await connection.end();
         }
       }),
+    // Data room ZIP imports with their import/skip report
+    listImports: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const [rows]: any = await connection.execute(
+            `SELECT id, file_name, status, total_files, imported_count, skipped_count, report, error_message, created_at, completed_at
+             FROM data_room_imports ORDER BY created_at DESC`
+          );
+          return rows.map((row: any) => ({
+            ...row,
+            report: typeof row.report === 'string' ? JSON.parse(row.report) : row.report,
+          }));
+        } finally {
+          await connection.end();
+        }
+      }),
+    // Uploads detected as (near-)duplicates of an existing document, awaiting a decision
+    listDuplicates: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const [rows] = await connection.execute(
+            `SELECT dd.id, dd.document_id, dd.duplicate_of_id, dd.match_type, dd.similarity, dd.created_at,
+                    d.fileName AS document_name, o.fileName AS duplicate_of_name
+             FROM document_duplicates dd
+             JOIN documents d ON d.id = dd.document_id
+             JOIN documents o ON o.id = dd.duplicate_of_id
+             WHERE dd.resolution = 'pending'
+             ORDER BY dd.created_at DESC`
+          );
+          return rows as unknown as any[];
+        } finally {
+          await connection.end();
+        }
+      }),
+    resolveDuplicate: protectedProcedure
+      .input(z.object({
+        projectId: z.string(),
+        duplicateId: z.number(),
+        action: z.enum(["skip", "replace", "revision"]),
+      }))
+      .mutation(async ({ input }) => {
+        const projectIdNum = parseInt(input.projectId);
+        const { resolveDuplicate } = await import('./document-dedup');
+        const connection = await createProjectDbConnection(projectIdNum);
+        try {
+          await resolveDuplicate(projectIdNum, connection, input.duplicateId, input.action);
+          return { success: true };
+        } finally {
+          await connection.end();
+        }
+      }),
+    // Revisions of a document, oldest first
+    listRevisions: protectedProcedure
+      .input(z.object({ projectId: z.string(), documentId: z.string() }))
+      .query(async ({ input }) => {
+        const { listRevisions } = await import('./document-revisions');
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listRevisions(connection, input.documentId);
+        } finally {
+          await connection.end();
+        }
+      }),
+    // Mark a document as the new revision of an older one; facts only found in the older one become stale
+    supersede: protectedProcedure
+      .input(z.object({
+        projectId: z.string(),
+        previousDocumentId: z.string(),
+        newDocumentId: z.string(),
+      }))
+      .mutation(async ({ input }) => {
+        const { supersedeDocument } = await import('./document-revisions');
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const result = await supersedeDocument(connection, input.previousDocumentId, input.newDocumentId);
+          return { success: true, ...result };
+        } finally {
+          await connection.end();
+        }
+      }),
+    // Facts added, removed and changed between two revisions of the same document
+    diffRevisions: protectedProcedure
+      .input(z.object({
+        projectId: z.string(),
+        fromDocumentId: z.string(),
+        toDocumentId: z.string(),
+      }))
+      .query(async ({ input }) => {
+        const { getRevisionDiff } = await import('./document-revisions');
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await getRevisionDiff(connection, input.fromDocumentId, input.toDocumentId);
+        } finally {
+          await connection.end();
+        }
+      }),
+    // Tables detected in a PDF document, with page numbers
+    listTables: protectedProcedure
+      .input(z.object({ projectId: z.string(), documentId: z.string() }))
+      .query(async ({ input }) => {
+        const { listDocumentTables } = await import('./pdf-table-extractor');
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listDocumentTables(connection, input.documentId);
+        } finally {
+          await connection.end();
+        }
+      }),
     getProcessingStatus: protectedProcedure
       .input(z.object({ projectId: z.string(), documentId: z.string() }))
       .query(async ({ input }) => {
@@ -708,9 +784,13 @@ export const appRouter = router({
       .input(z.object({ 
         projectId: z.string(), 
         documentId: z.string(),
-        documentType: z.enum(['IM', 'DD_PACK', 'CONTRACT', 'GRID_STUDY', 'PLANNING', 'CONCEPT_DESIGN', 'WEATHER_FILE', 'OTHER'])
+        documentType: z.string(),
       }))
       .mutation(async ({ input }) => {
+        const { isActiveDocumentType } = await import('./document-taxonomy');
+        if (!(await isActiveDocumentType(input.documentType))) {
+          throw new Error(`Unknown document type: ${input.documentType}`);
+        }
         const mysql = await import('mysql2/promise');
         const db = await getDb();
         if (!db) throw new Error("Database not available");
@@ -734,49 +814,37 @@ export const appRouter = router({
           await connection.end();
         }
       }),
+    // Correct the detected signing status and date used by source authority
+    updateAuthority: protectedProcedure
+      .input(z.object({
+        projectId: z.string(),
+        documentId: z.string(),
+        executionStatus: z.enum(['executed', 'draft', 'unknown']).nullable(),
+        documentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+      }))
+      .mutation(async ({ input }) => {
+        const { setDocumentAuthority } = await import('./source-authority');
+        const connection = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          await setDocumentAuthority(connection, input.documentId, input);
+          return { success: true };
+        } finally {
+          await connection.end();
+        }
+      }),
     delete: protectedProcedure
       .input(z.object({ 
         projectId: z.string(), 
         documentId: z.string()
       }))
       .mutation(async ({ input }) => {
-        const fs = await import('fs/promises');
         const projectIdNum = parseInt(input.projectId);
         const connection = await createProjectDbConnection(projectIdNum);
         
         try {
-          // Get document file path before deleting
-          const [docs] = await connection.execute(
-            "SELECT filePath FROM documents WHERE id = ?",
-            [input.documentId]
-          ) as any;
-          
-          if (docs && docs.length > 0 && docs[0].filePath) {
-            try {
-              await fs.unlink(docs[0].filePath);
-            } catch (error) {
-              console.error(`Failed to delete file: ${error}`);
-              // Continue even if file deletion fails
-            }
-          }
-          
-          // Delete associated facts
-          await connection.execute(
-            "DELETE FROM extracted_facts WHERE source_document_id = ?",
-            [input.documentId]
-          );
-          
-          // Delete associated processing jobs
-          await connection.execute(
-            "DELETE FROM processing_jobs WHERE document_id = ?",
-            [input.documentId]
-          );
-          
-          // Delete document record
-          await connection.execute(
-            "DELETE FROM documents WHERE id = ?",
-            [input.documentId]
-          );
+          // Removes the file, facts, pages and processing jobs
+          const { removeDocument } = await import('./document-dedup');
+          await removeDocument(connection, input.documentId);
           
           return { success: true, message: "Document deleted successfully" };
         } finally {
@@ -891,18 +959,14 @@ export const appRouter = router({
           throw new Error("Project not found or access denied");
         }
 
-        // Run Phase 2 consolidation
-        const { ProjectConsolidator } = await import('./project-consolidator');
-        const consolidator = new ProjectConsolidator(
-          projectIdNum,
-          (progress) => {
-            console.log(`[Consolidation Progress] ${progress.stage}: ${progress.message}`);
-          }
-        );
-
-        await consolidator.consolidate();
+        // Queue Phase 2 consolidation (progress is shown on the Processing Status page)
+        const { enqueueProcessingJob } = await import('./job-queue');
+        const jobId = await enqueueProcessingJob({
+          projectId: projectIdNum,
+          jobType: 'consolidation',
+        });
 
-        return { success: true, message: "Project consolidated successfully" };
+        return { success: true, jobId, message: "Consolidation queued" };
       }),
   }),
 
@@ -920,9 +984,10 @@ export const appRouter = router({
             // Join with documents table to get filename
             const query = `
               SELECT 
-                p.id, p.document_id, p.status, p.stage, p.progress_percent, 
-                p.started_at, p.completed_at, p.error_message,
-                d.fileName as document_name
+                p.id, p.document_id, p.job_type, p.status, p.stage, p.progress_percent, 
+                p.attempts, p.coverage_percent, p.chunks_total, p.chunks_processed, p.started_at, p.completed_at, p.error_message,
+                d.fileName as document_name,
+                (SELECT COUNT(*) FROM llm_output_failures f WHERE f.processing_job_id = p.id) as output_failures
               FROM processing_jobs p
               LEFT JOIN documents d ON p.document_id = d.id
               ORDER BY p.started_at DESC
@@ -939,16 +1004,83 @@ export const appRouter = router({
           throw error;
         }
       }),
+    // LLM tokens, latency and cache hits per stage and per document
+    llmUsage: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const { getLlmUsageSummary } = await import('./llm-usage');
+        return await getLlmUsageSummary(parseInt(input.projectId));
+      }),
+    // Counts and timings of the latest reconciliation runs
+    reconciliationRuns: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const { listReconciliationRuns } = await import('./reconciliation-stats');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listReconciliationRuns(projectDb, 5);
+        } finally {
+          await projectDb.end();
+        }
+      }),
+    // LLM outputs that failed schema validation, with their raw output
+    listOutputFailures: protectedProcedure
+      .input(z.object({ projectId: z.string(), jobId: z.number() }))
+      .query(async ({ input }) => {
+        const { listOutputFailures } = await import('./llm-usage');
+        return await listOutputFailures(parseInt(input.projectId), input.jobId);
+      }),
     retryJob: protectedProcedure
       .input(z.object({ projectId: z.string(), jobId: z.number() }))
       .mutation(async ({ input }) => {
         const projectIdNum = parseInt(input.projectId);
+        const { findJobByProcessingJob, requeueJob, enqueueJob } = await import('./job-queue');
+
+        const queued = await findJobByProcessingJob(projectIdNum, input.jobId);
+        if (queued) {
+          if (queued.status === 'queued' || queued.status === 'running') {
+            throw new Error("Job is already queued or running");
+          }
+          await requeueJob(queued);
+          return { success: true };
+        }
+
+        // Jobs created before the durable queue existed have no queue entry - rebuild one
         const connection = await createProjectDbConnection(projectIdNum);
         try {
+          const [rows]: any = await connection.execute(
+            `SELECT p.id, p.document_id, d.filePath, d.documentType, d.fileName, d.fileSizeBytes
+             FROM processing_jobs p
+             LEFT JOIN documents d ON p.document_id = d.id
+             WHERE p.id = ?`,
+            [input.jobId]
+          );
+          if (rows.length === 0 || !rows[0].filePath) {
+            throw new Error("Job or its document not found");
+          }
+          const job = rows[0];
+
           await connection.execute(
-            "UPDATE processing_jobs SET status = 'queued', error_message = NULL WHERE id = ?",
+            `UPDATE processing_jobs SET status = 'queued', stage = 'queued', progress_percent = 0, 
+             attempts = 0, error_message = NULL, completed_at = NULL WHERE id = ?`,
             [input.jobId]
           );
+
+          await enqueueJob(job.documentType === 'WEATHER_FILE'
+            ? {
+                projectId: projectIdNum,
+                jobType: 'weather_parsing',
+                documentId: job.document_id,
+                processingJobId: job.id,
+                payload: { fileName: job.fileName, filePath: job.filePath, fileSize: job.fileSizeBytes },
+              }
+            : {
+                projectId: projectIdNum,
+                jobType: 'document_processing',
+                documentId: job.document_id,
+                processingJobId: job.id,
+                payload: { filePath: job.filePath, documentType: job.documentType },
+              });
           return { success: true };
         } finally {
           await connection.end();
@@ -1009,8 +1141,12 @@ export const appRouter = router({
           const params: any[] = [input.status];
           
           if (input.value !== undefined) {
-            updates.push("value = ?");
-            params.push(input.value);
+            // Re-type the edited value
+            const { typedValueColumns } = await import("./fact-values");
+            const { parseTypedValue } = await import("../shared/units");
+            const typed = typedValueColumns(parseTypedValue(input.value));
+            updates.push("value = ?", "data_type = ?", "value_numeric = ?", "value_unit = ?", "value_date = ?", "typed_value = ?");
+            params.push(input.value, typed.data_type, typed.value_numeric, typed.value_unit, typed.value_date, typed.typed_value);
           }
           
           params.push(input.factId);
@@ -1039,7 +1175,8 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input }) => {
-        const { invokeLLM } = await import("./_core/llm");
+        const { invokeStructured } = await import("./llm-structured");
+        const { proseSchema } = await import("./llm-output-schemas");
         
         // Build facts list for LLM
         const factsList = input.facts
@@ -1065,15 +1202,15 @@ ${factsList}
 Synthesized narrative:`;
 
         try {
-          const response = await invokeLLM({
+          const { runWithLlmUsageScope } = await import("./llm-usage");
+          // Default temperature, so not cached: asking again gives a new text (consolidation narratives are cached)
+          const narrative = await runWithLlmUsageScope({ projectId: parseInt(input.projectId) }, () => invokeStructured({
+            stage: "narrative",
             messages: [
               { role: "system", content: "You are a technical writer specializing in project documentation for Technical Advisory teams." },
               { role: "user", content: prompt }
             ],
-          });
-          
-          const content = response.choices[0]?.message?.content || "";
-          const narrative = typeof content === 'string' ? content.trim() : "";
+          }, proseSchema, { label: `${input.section} narrative`, format: "text" }));
           
           return { narrative };
         } catch (error: any) {
@@ -1094,11 +1231,14 @@ Synthesized narrative:`;
           const [conflicts] = await projectDb.execute(`
             SELECT 
               c.*,
+              COALESCE(f1.canonical_key, f1.\`key\`) as fact_key,
               f1.value as insight_a_value,
               f1.confidence as insight_a_confidence,
+              f1.source_document_id as insight_a_document,
               f1.source_documents as insight_a_sources,
               f2.value as insight_b_value,
               f2.confidence as insight_b_confidence,
+              f2.source_document_id as insight_b_document,
               f2.source_documents as insight_b_sources
             FROM insight_conflicts c
             JOIN extracted_facts f1 ON c.insight_a_id = f1.id
@@ -1107,97 +1247,219 @@ Synthesized narrative:`;
             ORDER BY c.created_at DESC
           `) as any;
 
+          // Suggested resolution from the authority of each side's source documents
+          const { conflictSides, suggestResolutions } = await import('./source-authority');
+          const suggestions = await suggestResolutions(projectDb, conflicts.map(conflictSides));
+
           await projectDb.end();
-          return conflicts;
+          return conflicts.map((conflict: any) => ({ ...conflict, suggestion: suggestions.get(conflict.id) ?? null }));
         } catch (error: any) {
           await projectDb.end();
           throw new Error(`Failed to fetch conflicts: ${error.message}`);
         }
       }),
 
+    // Soft-deletes the superseded fact(s) and records the resolution so it can be reverted
     resolve: protectedProcedure
       .input(z.object({
         projectId: z.string(),
         conflictId: z.string(),
         resolution: z.enum(['accept_a', 'accept_b', 'merge', 'ignore']),
         mergedValue: z.string().optional(), // For merge resolution
+        rationale: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const projectDb = await createProjectDbConnection(parseInt(input.projectId));
 
         try {
-          // Get conflict details
-          const [conflicts] = await projectDb.execute(`
-            SELECT * FROM insight_conflicts WHERE id = '${input.conflictId}'
-          `) as any;
+          const { resolveConflict } = await import('./conflict-resolution');
+          const resolutionId = await resolveConflict(projectDb, {
+            conflictId: input.conflictId,
+            resolution: input.resolution,
+            mergedValue: input.mergedValue,
+            rationale: input.rationale,
+            user: { id: ctx.user.id, name: ctx.user.name },
+          });
+          return { success: true, resolutionId };
+        } catch (error: any) {
+          throw new Error(`Failed to resolve conflict: ${error.message}`);
+        } finally {
+          await projectDb.end();
+        }
+      }),
 
-          if (conflicts.length === 0) {
-            throw new Error('Conflict not found');
-          }
+    // Resolve every pending conflict whose suggested side wins by at least minMargin points
+    acceptSuggestions: protectedProcedure
+      .input(z.object({ projectId: z.string(), minMargin: z.number().min(0) }))
+      .mutation(async ({ input, ctx }) => {
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const { acceptSuggestions } = await import('./source-authority');
+          const { accepted, skipped } = await acceptSuggestions(projectDb, input.minMargin, { id: ctx.user.id, name: ctx.user.name });
+          return { success: true, accepted, skipped };
+        } catch (error: any) {
+          throw new Error(`Failed to accept suggestions: ${error.message}`);
+        } finally {
+          await projectDb.end();
+        }
+      }),
 
-          const conflict = conflicts[0];
-
-          // Handle different resolution types
-          if (input.resolution === 'accept_a') {
-            // Keep insight A, delete insight B
-            await projectDb.execute(`DELETE FROM extracted_facts WHERE id = '${conflict.insight_b_id}'`);
-            await projectDb.execute(`UPDATE extracted_facts SET conflict_with = NULL WHERE id = '${conflict.insight_a_id}'`);
-          } else if (input.resolution === 'accept_b') {
-            // Keep insight B, delete insight A
-            await projectDb.execute(`DELETE FROM extracted_facts WHERE id = '${conflict.insight_a_id}'`);
-            await projectDb.execute(`UPDATE extracted_facts SET conflict_with = NULL WHERE id = '${conflict.insight_b_id}'`);
-          } else if (input.resolution === 'merge') {
-            // Create new merged insight, delete both originals
-            const { v4: uuidv4 } = await import('uuid');
-            const mergedId = uuidv4();
-            
-            // Get both insights
-            const [insightsA] = await projectDb.execute(`SELECT * FROM extracted_facts WHERE id = '${conflict.insight_a_id}'`) as any;
-            const [insightsB] = await projectDb.execute(`SELECT * FROM extracted_facts WHERE id = '${conflict.insight_b_id}'`) as any;
-            
-            const insightA = insightsA[0];
-            const insightB = insightsB[0];
-            
-            // Merge source documents
-            const sourcesA = insightA.source_documents ? JSON.parse(insightA.source_documents) : [insightA.source_document_id];
-            const sourcesB = insightB.source_documents ? JSON.parse(insightB.source_documents) : [insightB.source_document_id];
-            const mergedSources = Array.from(new Set([...sourcesA, ...sourcesB]));
-            
-            // Calculate weighted confidence
-            const confA = parseFloat(insightA.confidence);
-            const confB = parseFloat(insightB.confidence);
-            const mergedConf = ((confA + confB) / 2).toFixed(2);
-            
-            await projectDb.execute(`
-              INSERT INTO extracted_facts (
-                id, category, \`key\`, value, confidence, 
-                source_document_id, extraction_method, verification_status,
-                source_documents, enrichment_count, merged_from
-              ) VALUES (
-                '${mergedId}', '${insightA.category}', '${insightA.key}', 
-                '${input.mergedValue?.replace(/'/g, "''")}', '${mergedConf}',
-                '${insightA.source_document_id}', 'merged', 'pending',
-                '${JSON.stringify(mergedSources).replace(/'/g, "''")}', 
-                ${(insightA.enrichment_count || 1) + (insightB.enrichment_count || 1)},
-                '${JSON.stringify([conflict.insight_a_id, conflict.insight_b_id]).replace(/'/g, "''")}'              )
-            `);
-            
-            // Delete originals
-            await projectDb.execute(`DELETE FROM extracted_facts WHERE id IN ('${conflict.insight_a_id}', '${conflict.insight_b_id}')`);
-          }
+    history: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const { listResolutions } = await import('./conflict-resolution');
+          return await listResolutions(projectDb);
+        } finally {
+          await projectDb.end();
+        }
+      }),
+
+    revert: protectedProcedure
+      .input(z.object({ projectId: z.string(), resolutionId: z.string() }))
+      .mutation(async ({ input, ctx }) => {
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          const { revertResolution } = await import('./conflict-resolution');
+          await revertResolution(projectDb, input.resolutionId, { id: ctx.user.id, name: ctx.user.name });
+          return { success: true };
+        } catch (error: any) {
+          throw new Error(`Failed to revert resolution: ${error.message}`);
+        } finally {
+          await projectDb.end();
+        }
+      }),
+
+    // Tolerances within which values count as the same (all projects)
+    tolerances: protectedProcedure.query(async () => {
+      const { listToleranceRules } = await import('./value-tolerances');
+      return await listToleranceRules();
+    }),
+
+    saveTolerance: adminProcedure
+      .input(z.object({
+        factKey: z.string(),
+        valueKind: z.enum(['power', 'energy', 'voltage', 'currency', 'percentage', 'number', 'date']),
+        relativePercent: z.number().min(0).nullable().optional(),
+        absolute: z.number().min(0).nullable().optional(),
+        days: z.number().int().min(0).nullable().optional(),
+        notes: z.string().nullable().optional(),
+      }))
+      .mutation(async ({ input }) => {
+        const { saveToleranceRule } = await import('./value-tolerances');
+        await saveToleranceRule(input);
+        return { success: true };
+      }),
 
-          // Update conflict status
-          await projectDb.execute(`
-            UPDATE insight_conflicts 
-            SET resolution_status = '${input.resolution}', resolved_at = NOW()
-            WHERE id = '${input.conflictId}'
-          `);
+    deleteTolerance: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const { deleteToleranceRule } = await import('./value-tolerances');
+        await deleteToleranceRule(input.id);
+        return { success: true };
+      }),
+
+    // Weights of the source authority model (all projects); type ranks are part of the taxonomy
+    authorityModel: protectedProcedure.query(async () => {
+      const { getAuthorityModel } = await import('./source-authority');
+      const { listDocumentTypes } = await import('./document-taxonomy');
+      const types = await listDocumentTypes(true);
+      return {
+        model: await getAuthorityModel(),
+        typeRanks: types
+          .map(type => ({ code: type.code, label: type.label, authorityRank: type.authorityRank }))
+          .sort((a, b) => b.authorityRank - a.authorityRank),
+      };
+    }),
 
+    saveAuthorityModel: adminProcedure
+      .input(z.object({
+        executedPoints: z.number().int(),
+        draftPoints: z.number().int(),
+        pointsPerYear: z.number().int().min(0),
+        maxRecencyPoints: z.number().int().min(0),
+        revisionPoints: z.number().int().min(0),
+        minMargin: z.number().int().min(0),
+      }))
+      .mutation(async ({ input }) => {
+        const { saveAuthorityModel } = await import('./source-authority');
+        await saveAuthorityModel(input);
+        return { success: true };
+      }),
+  }),
+
+  // Entity register: organisations and people involved in the project
+  entities: router({
+    list: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const { listEntities } = await import('./entity-register');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listEntities(projectDb);
+        } finally {
+          await projectDb.end();
+        }
+      }),
+
+    mentions: protectedProcedure
+      .input(z.object({ projectId: z.string(), entityId: z.string() }))
+      .query(async ({ input }) => {
+        const { listEntityMentions } = await import('./entity-register');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listEntityMentions(projectDb, input.entityId);
+        } finally {
           await projectDb.end();
+        }
+      }),
+
+    merge: protectedProcedure
+      .input(z.object({
+        projectId: z.string(),
+        targetId: z.string(),
+        sourceIds: z.array(z.string()).min(1),
+        name: z.string().optional(), // name of the merged entity, defaults to the target's
+      }))
+      .mutation(async ({ input }) => {
+        const { mergeEntities } = await import('./entity-register');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          await mergeEntities(projectDb, input.targetId, input.sourceIds, input.name);
           return { success: true };
-        } catch (error: any) {
+        } finally {
+          await projectDb.end();
+        }
+      }),
+  }),
+
+  milestones: router({
+    // Milestones of all documents combined into the project schedule, with slipped/contradictory dates flagged
+    schedule: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const { getProjectSchedule } = await import('./milestone-schedule');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await getProjectSchedule(projectDb);
+        } finally {
+          await projectDb.end();
+        }
+      }),
+  }),
+
+  contracts: router({
+    // Key clauses and obligations of the project's current contracts
+    obligations: protectedProcedure
+      .input(z.object({ projectId: z.string() }))
+      .query(async ({ input }) => {
+        const { listClauses } = await import('./contract-obligations');
+        const projectDb = await createProjectDbConnection(parseInt(input.projectId));
+        try {
+          return await listClauses(projectDb);
+        } finally {
           await projectDb.end();
-          throw new Error(`Failed to resolve conflict: ${error.message}`);
         }
       }),
   }),
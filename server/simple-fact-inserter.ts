@@ -7,18 +7,28 @@
 
 import mysql from 'mysql2/promise';
 import { v4 as uuidv4 } from 'uuid';
+import { formatSourceLocation, type FactProvenance } from './fact-provenance';
+import { typedValueColumns } from './fact-values';
+import { mapFactKeys, normalizeKeyName } from './fact-key-ontology';
+import type { TypedValue } from '../shared/units';
 
 interface ExtractedFact {
   category: string;
   key: string;
+  rawKey?: string;
   value: string;
   confidence: number;
   source: string;
   extractionMethod: string;
+  promptVersion?: string;
+  provenance?: FactProvenance;
+  typedValue?: TypedValue;
 }
 
 /**
- * Insert facts directly without reconciliation
+ * Insert facts directly without reconciliation. Key names reported by the
+ * extractors are mapped onto canonical fact keys; a mapped fact is filed under
+ * the section of its canonical key.
  */
 export async function insertRawFacts(
   projectDb: mysql.Pool | any,
@@ -28,17 +38,43 @@ export async function insertRawFacts(
 ): Promise<number> {
   const { normalizeSection: normalizeSectionKey } = await import('../shared/section-normalizer');
   
+  const canonicalKeys = await mapFactKeys(
+    facts.filter(fact => fact.rawKey).map(fact => ({ rawKey: fact.rawKey!, value: fact.value }))
+  );
+
   let insertedCount = 0;
   
   for (const fact of facts) {
-    const normalizedKey = normalizeSectionKey(fact.key);
+    const rawKey = fact.rawKey ? normalizeKeyName(fact.rawKey) : null;
+    const canonical = rawKey ? canonicalKeys.get(rawKey) ?? null : null;
+    const rawSection = normalizeSectionKey(fact.key);
+    const normalizedKey = canonical ? canonical.section : rawSection;
     const insightId = uuidv4();
     const sourceDocsJson = JSON.stringify([documentId]).replace(/'/g, "''");
     const escapedValue = fact.value.replace(/'/g, "''");
     
+    const provenance = fact.provenance;
+    const typed = typedValueColumns(fact.typedValue);
+    
     await projectDb.execute(
-      `INSERT INTO extracted_facts (id, source_document_id, source_documents, project_id, category, \`key\`, value, confidence, extraction_method, verification_status, enrichment_count, created_at) 
-       VALUES ('${insightId}', '${documentId}', '${sourceDocsJson}', ${projectId}, '${fact.category}', '${normalizedKey}', '${escapedValue}', '${fact.confidence}', '${fact.extractionMethod}', 'pending', 1, NOW())`
+      `INSERT INTO extracted_facts (id, source_document_id, source_documents, project_id, category, \`key\`, value, confidence, extraction_method, verification_status, enrichment_count, source_location, source_page, source_text_snippet, source_char_start, source_char_end, prompt_version, data_type, value_numeric, value_unit, value_date, typed_value, raw_key, canonical_key, raw_section, created_at) 
+       VALUES ('${insightId}', '${documentId}', '${sourceDocsJson}', ${projectId}, '${fact.category}', '${normalizedKey}', '${escapedValue}', '${fact.confidence}', '${fact.extractionMethod}', 'pending', 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [
+        provenance ? formatSourceLocation(provenance) : null,
+        provenance?.pageNumber ?? null,
+        provenance?.snippet ?? null,
+        provenance?.charStart ?? null,
+        provenance?.charEnd ?? null,
+        fact.promptVersion ?? null,
+        typed.data_type,
+        typed.value_numeric,
+        typed.value_unit,
+        typed.value_date,
+        typed.typed_value,
+        rawKey || null,
+        canonical?.key ?? null,
+        rawKey ? rawSection : null,
+      ]
     );
     insertedCount++;
   }
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { ProjectConnection } from './conflict-resolution';
+import {
+  acceptSuggestions,
+  DEFAULT_AUTHORITY_MODEL,
+  detectDocumentDate,
+  detectExecutionStatus,
+  setDocumentAuthority,
+  suggestResolution,
+  type DocumentAuthority,
+} from './source-authority';
+
+function doc(id: string, overrides: Partial<DocumentAuthority>): DocumentAuthority {
+  return {
+    id,
+    fileName: `${id}.pdf`,
+    documentType: 'OTHER',
+    typeLabel: 'Other',
+    typeRank: 20,
+    executionStatus: 'unknown',
+    documentDate: null,
+    revisionNumber: 1,
+    ...overrides,
+  };
+}
+
+const im = doc('im', { documentType: 'IM', typeLabel: 'Information Memorandum', typeRank: 30, documentDate: '2025-06-01' });
+const gca = doc('gca', { documentType: 'CONTRACT', typeLabel: 'Contract', typeRank: 90, executionStatus: 'executed', documentDate: '2026-03-14' });
+
+describe('Source Authority', () => {
+  it('should suggest the signed grid connection agreement over the IM', () => {
+    const suggestion = suggestResolution([im], [gca], DEFAULT_AUTHORITY_MODEL);
+
+    expect(suggestion.resolution).toBe('accept_b');
+    // 90 type + 30 executed + 8 for being 0.79 years newer vs 30 for the IM
+    expect(suggestion.sideB.score).toBe(128);
+    expect(suggestion.sideA.score).toBe(30);
+    expect(suggestion.margin).toBe(98);
+    expect(suggestion.explanation).toBe(
+      'Accept B: gca.pdf (executed Contract, dated 2026-03-14, newer than 2025-06-01: 128) outranks im.pdf (Information Memorandum: 30) by 98 points'
+    );
+  });
+
+  it('should represent a side by its strongest document and hold back close calls', () => {
+    const draft = doc('ppa-draft', { documentType: 'CONTRACT', typeLabel: 'Contract', typeRank: 90, executionStatus: 'draft' });
+    expect(suggestResolution([im, gca], [draft], DEFAULT_AUTHORITY_MODEL).resolution).toBe('accept_a');
+
+    const rev2 = doc('study-rev2', { typeLabel: 'Grid Study', typeRank: 80, revisionNumber: 2 });
+    const study = doc('study', { typeLabel: 'Grid Study', typeRank: 80 });
+    const close = suggestResolution([study], [rev2], DEFAULT_AUTHORITY_MODEL);
+    expect(close.resolution).toBeNull();
+    expect(close.margin).toBe(5);
+    expect(suggestResolution([study], [rev2], { ...DEFAULT_AUTHORITY_MODEL, minMargin: 5 }).resolution).toBe('accept_b');
+
+    expect(suggestResolution([gca], [gca], DEFAULT_AUTHORITY_MODEL).explanation).toBe('Both values come from the same document');
+  });
+
+  it('should detect drafts, executed documents and the document date', () => {
+    expect(detectExecutionStatus('PPA_draft_v3.pdf', null)).toBe('draft');
+    expect(detectExecutionStatus('Grid Connection Agreement - signed.pdf', null)).toBe('executed');
+    expect(detectExecutionStatus('Lease.pdf', 'SUBJECT TO CONTRACT\nLand lease between...')).toBe('draft');
+    expect(detectExecutionStatus('GCA.pdf', 'Connection terms...\nSigned for and on behalf of Grid Co on 14 March 2026')).toBe('executed');
+    expect(detectExecutionStatus('GCA.pdf', 'Signed by: ________\nDate: ________')).toBe('unknown');
+
+    expect(detectDocumentDate('GRID CONNECTION AGREEMENT\nDated 14 March 2026\nBetween...')).toBe('2026-03-14');
+    expect(detectDocumentDate('Issue date: 2025-06-01')).toBe('2025-06-01');
+    expect(detectDocumentDate('COD is expected in 2027')).toBeNull();
+  });
+
+  it('should store corrections and clear them back to detection', async () => {
+    const statements: any[][] = [];
+    const projectDb = { execute: async (sql: string, values?: any[]) => { statements.push(values!); return [{}]; } };
+
+    await setDocumentAuthority(projectDb, 'gca', { executionStatus: 'executed', documentDate: '2026-03-14' });
+    await setDocumentAuthority(projectDb, 'gca', { executionStatus: null, documentDate: '2026-03-14' });
+
+    expect(statements).toEqual([['executed', '2026-03-14', 'gca'], [null, null, 'gca']]);
+  });
+
+  it('should skip suggestions on values already superseded in the same batch', async () => {
+    // One key with three values: signed contract > grid study > IM
+    const documents = [
+      { id: 'gca', fileName: 'GCA_signed.pdf', documentType: 'CONTRACT', revisionNumber: 1, executionStatus: 'executed', documentDate: null },
+      { id: 'grid', fileName: 'Grid study.pdf', documentType: 'GRID_STUDY', revisionNumber: 1, executionStatus: 'unknown', documentDate: null },
+      { id: 'im', fileName: 'IM.pdf', documentType: 'IM', revisionNumber: 1, executionStatus: 'unknown', documentDate: null },
+    ];
+    const conflict = (id: string, a: string, b: string) => ({
+      id, insight_a_id: `fact-${a}`, insight_b_id: `fact-${b}`, insight_a_document: a, insight_a_sources: null, insight_b_document: b, insight_b_sources: null,
+    });
+    const conflicts = [conflict('gca-grid', 'gca', 'grid'), conflict('gca-im', 'gca', 'im'), conflict('grid-im', 'grid', 'im')];
+
+    const superseded = new Set<string>();
+    const projectDb: ProjectConnection = {
+      query: async () => [[]],
+      execute: async (sql: string, values: any[] = []) => {
+        if (sql.includes('FROM insight_conflicts c')) return [conflicts];
+        if (sql.includes('FROM documents')) return [documents];
+        if (sql.includes('SELECT * FROM insight_conflicts')) return [[{ ...conflicts.find(c => c.id === values[0]), resolution_status: 'pending' }]];
+        if (sql.includes('deleted_at IS NOT NULL')) return [values.filter(id => superseded.has(id)).map(id => ({ id }))];
+        if (sql.includes('superseded_by = ?')) superseded.add(values[1]);
+        return [{}];
+      },
+    };
+
+    const result = await acceptSuggestions(projectDb, 10, { id: 1 });
+
+    expect(result).toEqual({ accepted: 2, skipped: 1 });
+    expect(Array.from(superseded).sort()).toEqual(['fact-grid', 'fact-im']);
+  });
+});
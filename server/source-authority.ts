@@ -0,0 +1,415 @@
+/**
+ * Source Authority
+ *
+ * Scores the source documents on each side of a conflict so the Conflicts
+ * page can suggest which value to keep ("the signed grid connection agreement
+ * wins over the IM"):
+ * - The document type's authority rank (main database `document_types`)
+ * - Executed documents gain points, drafts lose points; the status is detected
+ *   from the file name and text and stored on the document, where it can be
+ *   corrected on the Documents page
+ * - The newer document date gains points per year, up to a cap
+ * - Later revisions gain points per revision
+ * The weights live in the main database `authority_settings`. A side with
+ * several source documents is represented by its strongest one. Scores closer
+ * than the minimum margin give no suggestion.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { authoritySettings } from '../drizzle/schema';
+import { findDates } from '../shared/units';
+import { planResolution, resolveConflict, type ProjectConnection } from './conflict-resolution';
+import type { Queryable } from './document-dedup';
+import { factSourceDocuments } from './document-revisions';
+import { DEFAULT_AUTHORITY_RANK, listDocumentTypes } from './document-taxonomy';
+
+export type ExecutionStatus = 'executed' | 'draft' | 'unknown';
+
+export interface AuthorityModel {
+  executedPoints: number;
+  draftPoints: number;       // usually negative
+  pointsPerYear: number;     // for the newer document date
+  maxRecencyPoints: number;
+  revisionPoints: number;    // per revision after the first
+  minMargin: number;         // smaller score gaps give no suggestion
+}
+
+export interface DocumentAuthority {
+  id: string;
+  fileName: string;
+  documentType: string;
+  typeLabel: string;
+  typeRank: number;
+  executionStatus: ExecutionStatus;
+  documentDate: string | null;   // YYYY-MM-DD
+  revisionNumber: number;
+}
+
+export interface AuthorityFactor {
+  factor: 'type' | 'execution' | 'date' | 'revision';
+  points: number;
+  text: string;
+}
+
+export interface AuthorityScore {
+  documentId: string | null;     // null when the fact has no source document
+  fileName: string | null;
+  score: number;
+  factors: AuthorityFactor[];
+}
+
+export interface ResolutionSuggestion {
+  resolution: 'accept_a' | 'accept_b' | null;  // null when neither side clearly outranks the other
+  margin: number;
+  sideA: AuthorityScore;
+  sideB: AuthorityScore;
+  explanation: string;
+}
+
+export interface ConflictSides {
+  id: string;
+  sourcesA: string[];
+  sourcesB: string[];
+}
+
+export const DEFAULT_AUTHORITY_MODEL: AuthorityModel = {
+  executedPoints: 30,
+  draftPoints: -20,
+  pointsPerYear: 10,
+  maxRecencyPoints: 20,
+  revisionPoints: 5,
+  minMargin: 10,
+};
+
+// Draft markers near the start of the text; signature evidence near the end
+const HEAD_LENGTH = 3000;
+const TAIL_LENGTH = 5000;
+const DRAFT_MARKERS = [
+  /^\s*draft\b/im,
+  /\bsubject to contract\b/i,
+  /\bdraft for (?:discussion|comment|review|approval)\b/i,
+  /\bfor discussion purposes only\b/i,
+  /\bnot for execution\b/i,
+];
+const EXECUTION_MARKERS = [
+  /\b(?:signed|executed)\b[^\n_]{0,60}\b(?:on|dated?)\b[^\n_]{0,10}\d/i,
+  /\bdocusign envelope id\b/i,
+  /\/s\/\s*[A-Z][a-z]+/,
+];
+const DATE_LABEL = /\b(?:dated|date of (?:this )?(?:agreement|contract|report|issue)|issue date|date)\s*[:\-]?\s*([^\n]{0,40})/gi;
+
+/**
+ * Weights from `authority_settings`; the built-in weights without a row or
+ * when the main database is unavailable
+ */
+export async function getAuthorityModel(): Promise<AuthorityModel> {
+  try {
+    const db = await getDb();
+    const rows = await db.select().from(authoritySettings).limit(1);
+    if (rows.length > 0) {
+      const { id, updatedAt, ...model } = rows[0];
+      return model;
+    }
+  } catch (error) {
+    console.error('[Authority] Failed to load authority settings, using defaults:', error);
+  }
+  return DEFAULT_AUTHORITY_MODEL;
+}
+
+/**
+ * Replace the weights (document type ranks are saved with the taxonomy)
+ */
+export async function saveAuthorityModel(model: AuthorityModel): Promise<void> {
+  const db = await getDb();
+  const values = {
+    executedPoints: Math.round(model.executedPoints),
+    draftPoints: Math.round(model.draftPoints),
+    pointsPerYear: Math.round(model.pointsPerYear),
+    maxRecencyPoints: Math.max(0, Math.round(model.maxRecencyPoints)),
+    revisionPoints: Math.round(model.revisionPoints),
+    minMargin: Math.max(0, Math.round(model.minMargin)),
+  };
+  const existing = await db.select({ id: authoritySettings.id }).from(authoritySettings).limit(1);
+  if (existing.length > 0) {
+    await db.update(authoritySettings).set(values).where(eq(authoritySettings.id, existing[0].id));
+  } else {
+    await db.insert(authoritySettings).values(values);
+  }
+  console.log('[Authority] Saved authority settings');
+}
+
+/**
+ * Whether a document is a draft or has been executed, from its file name
+ * ("PPA_draft_v3.pdf", "GCA signed.pdf") or its text ("SUBJECT TO CONTRACT",
+ * "Signed by ... on 12 March 2026")
+ */
+export function detectExecutionStatus(fileName: string, text: string | null): ExecutionStatus {
+  if (/(?:^|[^a-z])draft(?:[^a-z]|$)/i.test(fileName)) return 'draft';
+  if (/(?:^|[^a-z])(?:signed|executed)(?:[^a-z]|$)/i.test(fileName)) return 'executed';
+  if (!text) return 'unknown';
+
+  const head = text.substring(0, HEAD_LENGTH);
+  if (DRAFT_MARKERS.some(pattern => pattern.test(head))) return 'draft';
+  const tail = text.substring(Math.max(0, text.length - TAIL_LENGTH));
+  if (EXECUTION_MARKERS.some(pattern => pattern.test(tail))) return 'executed';
+  return 'unknown';
+}
+
+/**
+ * The date a document states it is dated ("Dated 14 March 2026", "Issue date:
+ * 2026-03-14"), at day or month precision
+ */
+export function detectDocumentDate(text: string | null): string | null {
+  if (!text) return null;
+  const head = text.substring(0, HEAD_LENGTH);
+  for (const match of Array.from(head.matchAll(DATE_LABEL))) {
+    const date = findDates(match[1]).find(d => d.precision === 'day' || d.precision === 'month');
+    if (date) return date.value;
+  }
+  return null;
+}
+
+/**
+ * Score one document; recency points only count against the other side's
+ * document
+ */
+export function scoreDocument(doc: DocumentAuthority, other: DocumentAuthority | null, model: AuthorityModel): AuthorityScore {
+  const factors: AuthorityFactor[] = [{ factor: 'type', points: doc.typeRank, text: doc.typeLabel }];
+
+  if (doc.executionStatus === 'executed' && model.executedPoints !== 0) {
+    factors.push({ factor: 'execution', points: model.executedPoints, text: 'executed' });
+  } else if (doc.executionStatus === 'draft' && model.draftPoints !== 0) {
+    factors.push({ factor: 'execution', points: model.draftPoints, text: 'draft' });
+  }
+
+  if (doc.documentDate && other?.documentDate && doc.documentDate > other.documentDate) {
+    const years = (Date.parse(doc.documentDate) - Date.parse(other.documentDate)) / (365.25 * 86400000);
+    const points = Math.min(model.maxRecencyPoints, Math.round(years * model.pointsPerYear));
+    if (points > 0) factors.push({ factor: 'date', points, text: `dated ${doc.documentDate}, newer than ${other.documentDate}` });
+  }
+
+  if (doc.revisionNumber > 1 && model.revisionPoints !== 0) {
+    factors.push({ factor: 'revision', points: (doc.revisionNumber - 1) * model.revisionPoints, text: `revision ${doc.revisionNumber}` });
+  }
+
+  return {
+    documentId: doc.id,
+    fileName: doc.fileName,
+    score: factors.reduce((sum, f) => sum + f.points, 0),
+    factors,
+  };
+}
+
+/**
+ * Suggest which side of a conflict to accept from the source documents of
+ * each side
+ */
+export function suggestResolution(
+  docsA: DocumentAuthority[],
+  docsB: DocumentAuthority[],
+  model: AuthorityModel
+): ResolutionSuggestion {
+  const bestA = strongest(docsA, model);
+  const bestB = strongest(docsB, model);
+  const sideA = bestA ? scoreDocument(bestA, bestB, model) : UNSOURCED;
+  const sideB = bestB ? scoreDocument(bestB, bestA, model) : UNSOURCED;
+  const margin = Math.abs(sideA.score - sideB.score);
+
+  const sameDocument = sideA.documentId !== null && sideA.documentId === sideB.documentId;
+  if (sameDocument || margin < Math.max(1, model.minMargin)) {
+    return {
+      resolution: null,
+      margin,
+      sideA,
+      sideB,
+      explanation: sameDocument
+        ? 'Both values come from the same document'
+        : `No clear authority: A scores ${sideA.score}, B scores ${sideB.score}`,
+    };
+  }
+
+  const resolution = sideA.score > sideB.score ? 'accept_a' : 'accept_b';
+  const [winner, loser] = resolution === 'accept_a' ? [sideA, sideB] : [sideB, sideA];
+  const letter = resolution === 'accept_a' ? 'A' : 'B';
+  return {
+    resolution,
+    margin,
+    sideA,
+    sideB,
+    explanation: `Accept ${letter}: ${describeSide(winner)} outranks ${describeSide(loser)} by ${margin} points`,
+  };
+}
+
+/**
+ * Authority details of documents, detecting and storing the execution status
+ * and document date of documents that have not been scored before
+ */
+export async function loadDocumentAuthority(projectDb: Queryable, documentIds: string[]): Promise<Map<string, DocumentAuthority>> {
+  const result = new Map<string, DocumentAuthority>();
+  const ids = Array.from(new Set(documentIds));
+  if (ids.length === 0) return result;
+
+  const types = await listDocumentTypes(true);
+  const [rows]: any = await projectDb.execute(
+    `SELECT id, fileName, documentType, revisionNumber, executionStatus, documentDate,
+            CASE WHEN executionStatus IS NULL THEN LEFT(extractedText, ${HEAD_LENGTH}) END AS textHead,
+            CASE WHEN executionStatus IS NULL THEN RIGHT(extractedText, ${TAIL_LENGTH}) END AS textTail
+     FROM documents WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  );
+
+  for (const row of rows) {
+    let executionStatus: ExecutionStatus = row.executionStatus;
+    let documentDate = toDateString(row.documentDate);
+    if (!executionStatus) {
+      // Head and tail only: the middle of a long document has neither markers nor signatures
+      const text = row.textHead ? `${row.textHead}\n${row.textTail ?? ''}` : null;
+      executionStatus = detectExecutionStatus(row.fileName, text);
+      documentDate = detectDocumentDate(row.textHead);
+      await projectDb.execute(`UPDATE documents SET executionStatus = ?, documentDate = ? WHERE id = ?`, [executionStatus, documentDate, row.id]);
+    }
+
+    const type = types.find(t => t.code === row.documentType);
+    result.set(row.id, {
+      id: row.id,
+      fileName: row.fileName,
+      documentType: row.documentType,
+      typeLabel: type?.label ?? row.documentType,
+      typeRank: type?.authorityRank ?? DEFAULT_AUTHORITY_RANK,
+      executionStatus,
+      documentDate,
+      revisionNumber: row.revisionNumber || 1,
+    });
+  }
+  return result;
+}
+
+/**
+ * Correct the detected execution status and document date of a document.
+ * A null status clears both, so they are detected again on the next scoring.
+ */
+export async function setDocumentAuthority(
+  projectDb: Queryable,
+  documentId: string,
+  override: { executionStatus: ExecutionStatus | null; documentDate: string | null }
+): Promise<void> {
+  const documentDate = override.executionStatus ? override.documentDate : null;
+  await projectDb.execute(
+    `UPDATE documents SET executionStatus = ?, documentDate = ?, updatedAt = NOW() WHERE id = ?`,
+    [override.executionStatus, documentDate, documentId]
+  );
+}
+
+/**
+ * Suggestions for conflicts, by conflict id
+ */
+export async function suggestResolutions(projectDb: Queryable, conflicts: ConflictSides[]): Promise<Map<string, ResolutionSuggestion>> {
+  const suggestions = new Map<string, ResolutionSuggestion>();
+  if (conflicts.length === 0) return suggestions;
+
+  const model = await getAuthorityModel();
+  const documents = await loadDocumentAuthority(projectDb, conflicts.flatMap(c => [...c.sourcesA, ...c.sourcesB]));
+  const lookup = (ids: string[]) => ids.map(id => documents.get(id)).filter((doc): doc is DocumentAuthority => !!doc);
+
+  for (const conflict of conflicts) {
+    suggestions.set(conflict.id, suggestResolution(lookup(conflict.sourcesA), lookup(conflict.sourcesB), model));
+  }
+  return suggestions;
+}
+
+/**
+ * Source documents of both facts of a conflict row selected with
+ * insight_{a,b}_document and insight_{a,b}_sources
+ */
+export function conflictSides(row: any): ConflictSides {
+  return {
+    id: row.id,
+    sourcesA: factSourceDocuments({ source_document_id: row.insight_a_document, source_documents: row.insight_a_sources }),
+    sourcesB: factSourceDocuments({ source_document_id: row.insight_b_document, source_documents: row.insight_b_sources }),
+  };
+}
+
+/**
+ * Resolve every pending conflict whose suggestion wins by at least minMargin
+ * points, strongest first. Each resolution is recorded with the explanation as
+ * its rationale and can be reverted like a manual one. Conflicts on one key
+ * share facts: with values ranked A > B > C, accepting A over B and over C
+ * supersedes both, so the B / C conflict is skipped.
+ */
+export async function acceptSuggestions(
+  projectDb: ProjectConnection,
+  minMargin: number,
+  user: { id: number; name?: string | null }
+): Promise<{ accepted: number; skipped: number }> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT c.id, c.insight_a_id, c.insight_b_id,
+            f1.source_document_id AS insight_a_document, f1.source_documents AS insight_a_sources,
+            f2.source_document_id AS insight_b_document, f2.source_documents AS insight_b_sources
+     FROM insight_conflicts c
+     JOIN extracted_facts f1 ON c.insight_a_id = f1.id
+     JOIN extracted_facts f2 ON c.insight_b_id = f2.id
+     WHERE c.resolution_status = 'pending' AND f1.deleted_at IS NULL AND f2.deleted_at IS NULL`
+  );
+  const suggestions = await suggestResolutions(projectDb, rows.map(conflictSides));
+  const confident: { row: any; resolution: 'accept_a' | 'accept_b'; suggestion: ResolutionSuggestion }[] = [];
+  for (const row of rows) {
+    const suggestion = suggestions.get(row.id)!;
+    if (suggestion.resolution && suggestion.margin >= minMargin) confident.push({ row, resolution: suggestion.resolution, suggestion });
+  }
+  confident.sort((a, b) => b.suggestion.margin - a.suggestion.margin);
+
+  const superseded = new Set<string>();
+  let accepted = 0;
+  let skipped = 0;
+  for (const { row, resolution, suggestion } of confident) {
+    if (superseded.has(row.insight_a_id) || superseded.has(row.insight_b_id)) {
+      skipped++;
+      continue;
+    }
+    await resolveConflict(projectDb, {
+      conflictId: row.id,
+      resolution,
+      rationale: `Suggested by source authority. ${suggestion.explanation}`,
+      user,
+    });
+    planResolution(row, resolution).supersededFactIds.forEach(id => superseded.add(id));
+    accepted++;
+  }
+
+  console.log(`[Authority] Accepted ${accepted} and skipped ${skipped} of ${suggestions.size} suggestions with a margin of at least ${minMargin}`);
+  return { accepted, skipped };
+}
+
+const UNSOURCED: AuthorityScore = { documentId: null, fileName: null, score: 0, factors: [] };
+
+function strongest(docs: DocumentAuthority[], model: AuthorityModel): DocumentAuthority | null {
+  let best: DocumentAuthority | null = null;
+  let bestScore = -Infinity;
+  for (const doc of docs) {
+    const score = scoreDocument(doc, null, model).score;
+    if (score > bestScore) {
+      best = doc;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// "GCA_signed.pdf (executed Contract, dated 2026-03-14, newer than 2025-06-01: 130)"
+function describeSide(side: AuthorityScore): string {
+  if (!side.fileName) return 'an unsourced value (0)';
+  const execution = side.factors.find(f => f.factor === 'execution');
+  const type = side.factors.find(f => f.factor === 'type')!;
+  const rest = side.factors.filter(f => f.factor === 'date' || f.factor === 'revision').map(f => f.text);
+  const description = [[execution?.text, type.text].filter(Boolean).join(' '), ...rest].join(', ');
+  return `${side.fileName} (${description}: ${side.score})`;
+}
+
+// DATE columns arrive as Date objects (local midnight) or as text
+function toDateString(value: Date | string | null): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.substring(0, 10);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
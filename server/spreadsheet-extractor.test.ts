@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { extractSpreadsheetData, toSpreadsheetFacts } from './spreadsheet-extractor';
+
+function workbook(sheets: Record<string, any[][]>): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return wb;
+}
+
+describe('Spreadsheet Extractor', () => {
+  it('should map labelled rows with units and cell references', () => {
+    const wb = workbook({
+      'Fin Model': [
+        ['Summary'],
+        ['Total CAPEX', 'USD m', 95.5],
+        ['O&M cost ($k)', 1200],
+        ['Degradation', 0.005],
+        ['Sponsor comments', 'Tariff under negotiation'],
+      ],
+    });
+    wb.Sheets['Fin Model']['B4'].z = '0.0%';
+
+    const result = extractSpreadsheetData(wb);
+
+    expect(result.fields.financial_data.total_capex_usd).toMatchObject({ value: '95500000', cell: "'Fin Model'!C2" });
+    expect(result.fields.financial_data.om_usd).toMatchObject({ value: '1200000', cell: "'Fin Model'!B3" });
+    expect(result.fields.performance_parameters.degradation_rate_percent).toMatchObject({ value: '0.5', cell: "'Fin Model'!B4" });
+    expect(result.mappedCells).toBe(3);
+    expect(result.unlabelledText).toContain('Tariff under negotiation');
+    expect(result.unlabelledText).not.toContain('Total CAPEX');
+  });
+
+  it('should prefer named ranges and read labelled columns', () => {
+    const wb = workbook({
+      Inputs: [
+        ['DC Capacity (kWp)', 'P50 (MWh)'],
+        [150000, 285000],
+        ['', ''],
+        ['Installed capacity', 120],
+      ],
+    });
+    wb.Workbook = { Names: [{ Name: 'DC_Capacity_MWp', Ref: 'Inputs!$D$4' }] };
+    XLSX.utils.sheet_add_aoa(wb.Sheets.Inputs, [[130]], { origin: 'D4' });
+
+    const result = extractSpreadsheetData(wb);
+
+    expect(result.fields.performance_parameters.dc_capacity_mw).toMatchObject({ value: '130', cell: 'Inputs!D4' });
+    expect(result.fields.performance_parameters.p50_generation_gwh).toMatchObject({ value: '285', cell: 'Inputs!B2' });
+  });
+
+  it('should turn mapped cells into facts with the cell as provenance', () => {
+    const facts = toSpreadsheetFacts(extractSpreadsheetData(workbook({ Costs: [['Insurance', 250000]] })));
+
+    expect(facts).toHaveLength(1);
+    expect(facts[0]).toMatchObject({ key: 'Financial_Structure', value: 'Insurance: 250000', source: 'Costs!B1' });
+    expect(facts[0].provenance).toMatchObject({ matchType: 'cell', cellRef: 'Costs!B1' });
+  });
+});
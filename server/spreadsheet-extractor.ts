@@ -0,0 +1,435 @@
+/**
+ * Structured Spreadsheet Extraction
+ *
+ * Reads developer financial models cell by cell instead of as flattened text:
+ * - Named ranges (e.g. Total_Capex -> Inputs!$C$5)
+ * - Labelled rows ("Total CAPEX | USD m | 95.0") and labelled columns (header above the value)
+ * - Formula cells use the computed value cached in the workbook
+ *
+ * Recognised labels are mapped straight into financial_data / performance_parameters
+ * fields with the cell reference (Sheet!A1) as provenance (source_cells JSON).
+ * Only the rows that were not mapped are handed to the LLM extractor.
+ */
+
+import * as XLSX from 'xlsx';
+import type { Queryable } from './document-dedup';
+import type { ExtractedFact } from './document-processor-v2';
+import { convertQuantity, type TypedValue } from '../shared/units';
+
+export type SpreadsheetTable = 'financial_data' | 'performance_parameters';
+
+type ValueKind = 'currency' | 'percent' | 'power_mw' | 'power_kw' | 'energy_gwh' | 'number' | 'integer';
+
+interface FieldRule {
+  table: SpreadsheetTable;
+  field: string;
+  label: RegExp;
+  kind: ValueKind;
+  section: string;
+}
+
+export interface SpreadsheetCellValue {
+  value: string;
+  cell: string;   // e.g. 'Fin Model'!C12
+  label: string;  // label text as written in the workbook
+  display: string; // formatted cell text
+}
+
+export interface SpreadsheetExtraction {
+  fields: Record<SpreadsheetTable, Record<string, SpreadsheetCellValue>>;
+  mappedCells: number;
+  unlabelledText: string; // rows that were not mapped, for the LLM fallback
+}
+
+// Order matters: the first matching rule wins, so specific labels come before generic ones
+const FIELD_RULES: FieldRule[] = [
+  // Financial
+  { table: 'financial_data', field: 'capex_per_watt_usd', label: /(capex|capital cost)s? ?(per|\/) ?(wp?|watt)\b/, kind: 'number', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'opex_per_mwh_usd', label: /(opex|operating cost)s? ?(per|\/) ?mwh\b/, kind: 'number', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'total_capex_usd', label: /^(total )?(capex|capital (expenditure|costs?)|project costs?|investment costs?)\b|^total (investment|project cost)/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'modules_usd', label: /^(pv |solar )?modules?( (cost|costs|supply|capex))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'inverters_usd', label: /^inverters?( (cost|costs|supply|capex))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'trackers_usd', label: /^(trackers?|tracking system|mounting( structures?)?)( (cost|costs|supply|capex))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'civil_works_usd', label: /^(civil( works)?|site works|bos civil)( (cost|costs))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'grid_connection_usd', label: /^(grid( connection)?|interconnection|substation and grid)( (cost|costs))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'development_costs_usd', label: /^(development( (costs?|fees?|expenditure))?|devex)$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'om_usd', label: /^(o ?& ?m|o and m|operations? (and|&) maintenance)( (cost|costs|fees?))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'insurance_usd', label: /^insurance( (cost|costs|premium))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'land_lease_usd', label: /^(land )?(lease|rent)( (cost|costs|payments?))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'asset_management_usd', label: /^asset management( (cost|costs|fees?))?$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'total_opex_annual_usd', label: /^(total )?(annual )?(opex|operating (costs?|expenses?))$/, kind: 'currency', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'escalation_rate_percent', label: /(cost )?(escalation|indexation|inflation)( rate)?$/, kind: 'percent', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'exchange_rate_to_usd', label: /(exchange|fx) rate/, kind: 'number', section: 'Financial_Structure' },
+  { table: 'financial_data', field: 'cost_year', label: /^(cost|price|base) year$/, kind: 'integer', section: 'Financial_Structure' },
+
+  // Performance
+  { table: 'performance_parameters', field: 'capacity_factor_percent', label: /capacity factor/, kind: 'percent', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'specific_yield_kwh_kwp', label: /specific (yield|production)/, kind: 'number', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'p90_generation_gwh', label: /\bp90\b/, kind: 'energy_gwh', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'p50_generation_gwh', label: /\bp50\b|^(annual |net |expected )(energy )?(generation|yield|production)/, kind: 'energy_gwh', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'ac_capacity_mw', label: /\bac capacity|capacity \(?(ac|mwac|kwac)\b|export capacity|\bmwac\b/, kind: 'power_mw', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'dc_capacity_mw', label: /\b(dc|peak|installed|nameplate) capacity|capacity \(?(dc|mwp|kwp|mwdc)\b|\bmwp\b/, kind: 'power_mw', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'module_count', label: /(number of|no\.? of|#) ?modules|modules? (count|quantity)/, kind: 'integer', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'module_power_watts', label: /modules? (power|rating|wattage|output)/, kind: 'number', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'inverter_count', label: /(number of|no\.? of|#) ?inverters|inverters? (count|quantity)/, kind: 'integer', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'inverter_power_kw', label: /inverters? (power|rating|capacity|size)/, kind: 'power_kw', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'tilt_angle_degrees', label: /\btilt\b/, kind: 'number', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'azimuth_degrees', label: /\bazimuth\b/, kind: 'number', section: 'Technical_Design' },
+  { table: 'performance_parameters', field: 'soiling_loss_percent', label: /\bsoiling\b/, kind: 'percent', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'system_losses_percent', label: /^(total |system |overall )losses$/, kind: 'percent', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'degradation_rate_percent', label: /degradation/, kind: 'percent', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'availability_percent', label: /availability/, kind: 'percent', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'ghi_annual_kwh_m2', label: /\bghi\b|global horizontal/, kind: 'number', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'dni_annual_kwh_m2', label: /\bdni\b|direct normal/, kind: 'number', section: 'Engineering_Assumptions' },
+  { table: 'performance_parameters', field: 'latitude', label: /^(site )?latitude$|^lat$/, kind: 'number', section: 'Project_Overview' },
+  { table: 'performance_parameters', field: 'longitude', label: /^(site )?longitude$|^(lon|long)$/, kind: 'number', section: 'Project_Overview' },
+  { table: 'performance_parameters', field: 'elevation_m', label: /^(site )?(elevation|altitude)$/, kind: 'number', section: 'Project_Overview' },
+];
+
+// How far to the right of a row label (or below a column header) to look for its value
+const ROW_LOOKAHEAD_COLUMNS = 8;
+const COLUMN_LOOKAHEAD_ROWS = 3;
+// Longest text cell between a label and its value that is still read as a unit ("USD m")
+const MAX_UNIT_TEXT_LENGTH = 12;
+
+/**
+ * Map named ranges and labelled cells of a workbook to financial / performance fields
+ */
+export function extractSpreadsheetData(workbook: XLSX.WorkBook): SpreadsheetExtraction {
+  const result: SpreadsheetExtraction = {
+    fields: { financial_data: {}, performance_parameters: {} },
+    mappedCells: 0,
+    unlabelledText: '',
+  };
+  const consumedRows = new Map<string, Set<number>>();
+
+  const assign = (rule: FieldRule, value: string, cell: string, label: string, display: string): boolean => {
+    const target = result.fields[rule.table];
+    if (target[rule.field]) return false;
+    target[rule.field] = { value, cell, label, display };
+    result.mappedCells++;
+    return true;
+  };
+
+  // 1. Named ranges take precedence over labels found in the grid
+  for (const name of workbook.Workbook?.Names || []) {
+    if (name.Name.startsWith('_xlnm')) continue; // print areas etc.
+    const label = normalizeLabel(name.Name.replace(/[_.]+/g, ' '));
+    const rule = findRule(label.text);
+    const target = resolveNamedRange(workbook, name.Ref);
+    if (!rule || !target) continue;
+
+    const cell = workbook.Sheets[target.sheet]?.[XLSX.utils.encode_cell(target.address)];
+    const value = cell ? convertCellValue(cell, rule.kind, label.unit) : null;
+    if (value !== null) {
+      assign(rule, value, cellRef(target.sheet, target.address), name.Name, displayText(cell));
+    }
+  }
+
+  // 2. Labelled rows, then labelled columns
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet['!ref']) continue;
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const consumed = new Set<number>();
+    consumedRows.set(sheetName, consumed);
+
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const labelCell = sheet[XLSX.utils.encode_cell({ r, c })];
+        if (!labelCell || labelCell.t !== 's' || typeof labelCell.v !== 'string') continue;
+
+        const label = normalizeLabel(labelCell.v);
+        const rule = findRule(label.text);
+        if (!rule || result.fields[rule.table][rule.field]) continue;
+
+        // Value to the right, reading short text cells in between as the unit
+        let unit = label.unit;
+        let found: { address: XLSX.CellAddress; cell: XLSX.CellObject } | null = null;
+        for (let cc = c + 1; cc <= Math.min(range.e.c, c + ROW_LOOKAHEAD_COLUMNS); cc++) {
+          const candidate = sheet[XLSX.utils.encode_cell({ r, c: cc })];
+          if (!candidate) continue;
+          if (candidate.t === 'n') {
+            found = { address: { r, c: cc }, cell: candidate };
+            break;
+          }
+          if (candidate.t === 's' && String(candidate.v).length <= MAX_UNIT_TEXT_LENGTH) {
+            unit = `${unit} ${String(candidate.v).toLowerCase()}`.trim();
+            continue;
+          }
+          break;
+        }
+
+        // Column header with the value underneath
+        if (!found) {
+          unit = label.unit;
+          for (let rr = r + 1; rr <= Math.min(range.e.r, r + COLUMN_LOOKAHEAD_ROWS); rr++) {
+            const candidate = sheet[XLSX.utils.encode_cell({ r: rr, c })];
+            if (candidate?.t === 'n') {
+              found = { address: { r: rr, c }, cell: candidate };
+              break;
+            }
+          }
+        }
+
+        if (!found) continue;
+        const value = convertCellValue(found.cell, rule.kind, unit);
+        if (value !== null && assign(rule, value, cellRef(sheetName, found.address), labelCell.v.trim(), displayText(found.cell))) {
+          consumed.add(r);
+          if (found.address.r !== r) consumed.add(found.address.r);
+        }
+      }
+    }
+  }
+
+  // 3. Everything that was not mapped goes to the LLM as text
+  const text: string[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet['!ref']) continue;
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const consumed = consumedRows.get(sheetName) || new Set<number>();
+    const lines: string[] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      if (consumed.has(r)) continue;
+      const cells: string[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+        cells.push(cell ? displayText(cell) : '');
+      }
+      const line = cells.join(' | ');
+      if (line.replace(/[|\s]/g, '').length > 0) lines.push(line);
+    }
+    if (lines.length > 0) text.push(`=== Sheet: ${sheetName} ===\n${lines.join('\n')}`);
+  }
+  result.unlabelledText = text.join('\n\n');
+
+  // Currency from the labels of mapped cost cells (values are kept in that currency)
+  const financial = result.fields.financial_data;
+  if (!financial.original_currency) {
+    for (const mapped of Object.values(financial)) {
+      const currency = detectCurrency(`${mapped.label} ${mapped.display}`);
+      if (currency) {
+        financial.original_currency = { value: currency, cell: mapped.cell, label: mapped.label, display: mapped.display };
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Facts for the mapped cells, with the cell reference as source location
+ */
+export function toSpreadsheetFacts(extraction: SpreadsheetExtraction): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  const currency = extraction.fields.financial_data.original_currency?.value || 'USD';
+  for (const rule of FIELD_RULES) {
+    const mapped = extraction.fields[rule.table][rule.field];
+    if (!mapped) continue;
+    const snippet = `${mapped.label}: ${mapped.display}`;
+    facts.push({
+      category: rule.table === 'financial_data' ? 'financial' : 'technical',
+      key: rule.section,
+      rawKey: rule.field,
+      value: snippet,
+      confidence: 0.95,
+      source: mapped.cell,
+      extractionMethod: 'deterministic',
+      typedValue: cellTypedValue(Number(mapped.value), rule.kind, currency),
+      provenance: {
+        pageNumber: null,
+        snippet,
+        charStart: 0,
+        charEnd: snippet.length,
+        matchType: 'cell',
+        cellRef: mapped.cell,
+      },
+    });
+  }
+  return facts;
+}
+
+/**
+ * Store the mapped values as 'spreadsheet' rows of financial_data / performance_parameters
+ * (one row per document and table, replaced on re-processing)
+ */
+export async function saveSpreadsheetData(
+  projectDb: Queryable,
+  projectId: number,
+  documentId: string,
+  extraction: SpreadsheetExtraction
+): Promise<void> {
+  const { v4: uuidv4 } = await import('uuid');
+
+  for (const table of Object.keys(extraction.fields) as SpreadsheetTable[]) {
+    const mapped = extraction.fields[table];
+    const fieldNames = Object.keys(mapped);
+
+    await projectDb.execute(
+      `DELETE FROM ${table} WHERE source_document_id = ? AND extraction_method = 'spreadsheet'`,
+      [documentId]
+    );
+    if (fieldNames.length === 0) continue;
+
+    const sourceCells = Object.fromEntries(fieldNames.map(field => [field, mapped[field].cell]));
+    const columns = ['id', 'project_id', 'source_document_id', 'confidence', 'extraction_method', 'source_cells', 'notes', ...fieldNames];
+    const values = [
+      uuidv4(),
+      projectId,
+      documentId,
+      '0.95',
+      'spreadsheet',
+      JSON.stringify(sourceCells),
+      `Read from ${fieldNames.length} labelled cell(s)`,
+      ...fieldNames.map(field => mapped[field].value),
+    ];
+
+    await projectDb.execute(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      values
+    );
+    console.log(`[Spreadsheet Extractor] Saved ${fieldNames.length} ${table} field(s) from document ${documentId}`);
+  }
+}
+
+/**
+ * Overlay values read from spreadsheet cells onto an LLM-extracted record, so a
+ * consolidated row keeps the exact model figures. Returns the field -> cell map.
+ * Spreadsheets of superseded revisions are ignored.
+ */
+export async function applySpreadsheetValues(
+  projectDb: Queryable,
+  table: SpreadsheetTable,
+  record: Record<string, any>
+): Promise<Record<string, string>> {
+  const [rows]: any = await projectDb.execute(
+    `SELECT t.* FROM ${table} t
+     JOIN documents d ON d.id = t.source_document_id
+     WHERE t.extraction_method = 'spreadsheet' AND d.supersededBy IS NULL
+     ORDER BY t.created_at DESC`
+  );
+
+  const sourceCells: Record<string, string> = {};
+  for (const row of rows) {
+    const cells = typeof row.source_cells === 'string' ? JSON.parse(row.source_cells) : row.source_cells || {};
+    for (const [field, cell] of Object.entries(cells)) {
+      if (sourceCells[field] || row[field] === null || row[field] === undefined) continue;
+      record[field] = row[field];
+      sourceCells[field] = cell as string;
+    }
+  }
+  return sourceCells;
+}
+
+/**
+ * Typed value of a mapped cell; the kind fixes the unit the value was converted to
+ */
+function cellTypedValue(value: number, kind: ValueKind, currency: string): TypedValue | undefined {
+  if (!isFinite(value)) return undefined;
+  switch (kind) {
+    case 'currency':
+      return { type: 'currency', value, unit: currency };
+    case 'percent':
+      return { type: 'percentage', value, unit: '%' };
+    case 'power_mw':
+      return { type: 'quantity', value, unit: 'MW', dimension: 'power' };
+    case 'power_kw':
+      return { type: 'quantity', value: convertQuantity(value, 'kW', 'MW')!, unit: 'MW', dimension: 'power' };
+    case 'energy_gwh':
+      return { type: 'quantity', value: convertQuantity(value, 'GWh', 'MWh')!, unit: 'MWh', dimension: 'energy' };
+    default:
+      return { type: 'number', value };
+  }
+}
+
+function findRule(label: string): FieldRule | undefined {
+  if (label.length === 0 || label.length > 80) return undefined;
+  return FIELD_RULES.find(rule => rule.label.test(label));
+}
+
+/**
+ * Lowercased label without punctuation; text in brackets is kept separately as the unit
+ */
+function normalizeLabel(raw: string): { text: string; unit: string } {
+  const lower = raw.toLowerCase().replace(/\s+/g, ' ').trim();
+  const unit = (lower.match(/[([][^)\]]*[)\]]/g) || []).map(part => part.slice(1, -1)).join(' ').trim();
+  const text = lower
+    .replace(/[([][^)\]]*[)\]]/g, ' ')
+    .replace(/[:*]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { text, unit };
+}
+
+/**
+ * Numeric cell value converted to the field's unit, as the string stored in the VARCHAR columns
+ */
+function convertCellValue(cell: XLSX.CellObject, kind: ValueKind, unitText: string): string | null {
+  if (cell.t !== 'n' || typeof cell.v !== 'number' || !isFinite(cell.v)) return null;
+  let value = cell.v;
+  const unit = `${unitText} ${cell.z ?? ''} ${cell.w ?? ''}`.toLowerCase();
+
+  switch (kind) {
+    case 'currency':
+      value *= currencyMultiplier(unit);
+      break;
+    case 'percent':
+      // Percent-formatted cells hold fractions (2.5% is stored as 0.025)
+      if (String(cell.z ?? '').includes('%') || String(cell.w ?? '').trim().endsWith('%')) value *= 100;
+      break;
+    case 'power_mw':
+      if (/\bkw(p|ac|dc)?\b/.test(unit)) value /= 1000;
+      break;
+    case 'power_kw':
+      if (/\bmw(p|ac|dc)?\b/.test(unit)) value *= 1000;
+      break;
+    case 'energy_gwh':
+      if (/\bmwh\b/.test(unit)) value /= 1000;
+      else if (/\bkwh\b/.test(unit)) value /= 1_000_000;
+      break;
+    case 'integer':
+      value = Math.round(value);
+      break;
+  }
+
+  return String(parseFloat(value.toPrecision(12)));
+}
+
+function currencyMultiplier(unit: string): number {
+  if (/\b(bn|billions?)\b/.test(unit)) return 1_000_000_000;
+  if (/\b(m|mm|mn|mio|millions?)\b|[$€£]m\b/.test(unit)) return 1_000_000;
+  if (/\b(k|thousands?)\b|'000|[$€£]k\b/.test(unit)) return 1_000;
+  return 1;
+}
+
+function detectCurrency(text: string): string | null {
+  if (/€|\beur\b/i.test(text)) return 'EUR';
+  if (/£|\bgbp\b/i.test(text)) return 'GBP';
+  if (/\baud\b|a\$/i.test(text)) return 'AUD';
+  return null;
+}
+
+function resolveNamedRange(workbook: XLSX.WorkBook, ref: string): { sheet: string; address: XLSX.CellAddress } | null {
+  const separator = ref.lastIndexOf('!');
+  if (separator < 0) return null;
+  const sheet = ref.slice(0, separator).replace(/^'|'$/g, '').replace(/''/g, "'");
+  if (!workbook.Sheets[sheet]) return null;
+  try {
+    const range = XLSX.utils.decode_range(ref.slice(separator + 1).replace(/\$/g, ''));
+    return { sheet, address: range.s };
+  } catch {
+    return null;
+  }
+}
+
+function cellRef(sheetName: string, address: XLSX.CellAddress): string {
+  const sheet = /^[A-Za-z0-9_]+$/.test(sheetName) ? sheetName : `'${sheetName.replace(/'/g, "''")}'`;
+  return `${sheet}!${XLSX.utils.encode_cell(address)}`;
+}
+
+function displayText(cell: XLSX.CellObject): string {
+  if (cell.w !== undefined) return String(cell.w);
+  return cell.v === undefined || cell.v === null ? '' : String(cell.v);
+}
@@ -28,6 +28,10 @@ export function sql(projectId: number, query: string): string {
  */
 export const Tables = {
   DOCUMENTS: 'documents',
+  DOCUMENT_PAGES: 'document_pages',
+  DOCUMENT_TABLES: 'document_tables',
+  DATA_ROOM_IMPORTS: 'data_room_imports',
+  DOCUMENT_DUPLICATES: 'document_duplicates',
   EXTRACTED_FACTS: 'extracted_facts',
   INSIGHT_CONFLICTS: 'insight_conflicts',
   RED_FLAGS: 'redFlags',
@@ -39,6 +43,15 @@ export const Tables = {
   FINANCIAL_DATA: 'financial_data',
   PROJECT_LOCATION: 'project_location',
   PROCESSING_JOBS: 'processing_jobs',
+  LLM_USAGE: 'llm_usage',
+  LLM_OUTPUT_FAILURES: 'llm_output_failures',
+  ENTITIES: 'entities',
+  ENTITY_MENTIONS: 'entity_mentions',
+  MILESTONES: 'milestones',
+  CONTRACT_OBLIGATIONS: 'contract_obligations',
+  FACT_EMBEDDINGS: 'fact_embeddings',
+  RECONCILIATION_RUNS: 'reconciliation_runs',
+  CONFLICT_RESOLUTIONS: 'conflict_resolutions',
 } as const;
 
 /**
@@ -6,10 +6,12 @@
 import { Router } from 'express';
 import { upload } from './upload-middleware';
 import { uploadDocument } from './document-service';
-import { processDocument } from './document-processor-v2';
+import { enqueueProcessingJob } from './job-queue';
 import { getDb } from './db';
 import mysql from 'mysql2/promise';
 import { detectDocumentType, type DocumentType } from './document-type-detector';
+import { isActiveDocumentType } from './document-taxonomy';
+import { hashFile, findExactDuplicate, applyUploadDuplicateAction } from './document-dedup';
 
 const router = Router();
 
@@ -20,8 +22,11 @@ const router = Router();
  * Form fields:
  * - file: The document file (required)
  * - projectId: Project ID (required)
- * - documentType: Document type enum (optional, will be auto-detected if not provided)
+ * - documentType: Document type code from the taxonomy (optional, will be auto-detected if not provided)
  * - userId: User ID (required)
+ * - duplicateAction: skip | replace | revision (optional, required to store an exact duplicate)
+ *
+ * Responds 409 with the existing document when the file is an exact duplicate and no duplicateAction is given.
  */
 router.post('/upload', upload.single('file'), async (req, res) => {
   try {
@@ -29,7 +34,7 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const { projectId, documentType, userId } = req.body;
+    const { projectId, documentType, userId, duplicateAction } = req.body;
 
     if (!projectId) {
       return res.status(400).json({ error: 'Project ID is required' });
@@ -39,6 +44,10 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       return res.status(400).json({ error: 'User ID is required' });
     }
 
+    if (documentType && documentType !== 'AUTO' && !(await isActiveDocumentType(documentType))) {
+      return res.status(400).json({ error: `Unknown document type: ${documentType}` });
+    }
+
     console.log(`[Upload API] Received file: ${req.file.originalname}, size: ${req.file.size} bytes`);
 
     // Get project dbName from projects table
@@ -51,50 +60,73 @@ router.post('/upload', upload.single('file'), async (req, res) => {
 
     const projectDbName = projects[0].dbName;
 
-    // Determine document type using AI if not provided
-    let finalDocumentType: DocumentType;
-    if (documentType && documentType !== 'AUTO') {
-      finalDocumentType = documentType as DocumentType;
-      console.log(`[Upload API] Using provided document type: ${finalDocumentType}`);
-    } else {
-      console.log(`[Upload API] Detecting document type using AI...`);
-      finalDocumentType = await detectDocumentType(req.file.path, req.file.originalname);
-      console.log(`[Upload API] AI detected type: ${finalDocumentType}`);
-    }
-
-    // Insert document metadata into project database
     const localMySQLUrl = process.env.DATABASE_URL || "mysql://root@127.0.0.1:3306/ingestion_engine_main";
     const projectDbUrl = localMySQLUrl.replace('/ingestion_engine_main', `/${projectDbName}`);
     const projectConn = await mysql.createConnection(projectDbUrl);
 
+    // Document metadata, set once the upload is stored in the project database
     const documentId = req.file.filename.replace(/\.[^/.]+$/, ''); // Remove extension to get UUID
     const uploadDate = new Date().toISOString();
+    let finalDocumentType: DocumentType;
 
-    await projectConn.execute(
-      `INSERT INTO documents (id, fileName, filePath, documentType, fileSizeBytes, uploadDate, status)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [
-        documentId,
-        req.file.originalname,
-        req.file.path,
-        finalDocumentType,
-        req.file.size,
-        uploadDate,
-        'Uploaded'
-      ]
-    );
+    try {
+      // Exact duplicate check before classification and processing
+      const fileHash = await hashFile(req.file.path);
+      const exactDuplicate = await findExactDuplicate(projectConn, fileHash);
+      if (exactDuplicate && duplicateAction !== 'replace' && duplicateAction !== 'revision') {
+        const fs = await import('fs/promises');
+        await fs.unlink(req.file.path).catch(() => {});
+        if (duplicateAction === 'skip') {
+          return res.json({ success: true, skipped: true, duplicateOf: exactDuplicate });
+        }
+        return res.status(409).json({ error: 'Duplicate document', duplicateOf: exactDuplicate });
+      }
+
+      // Determine document type using AI if not provided
+      if (documentType && documentType !== 'AUTO') {
+        finalDocumentType = documentType as DocumentType;
+        console.log(`[Upload API] Using provided document type: ${finalDocumentType}`);
+      } else {
+        console.log(`[Upload API] Detecting document type using AI...`);
+        finalDocumentType = await detectDocumentType(req.file.path, req.file.originalname);
+        console.log(`[Upload API] AI detected type: ${finalDocumentType}`);
+      }
 
-    await projectConn.end();
+      // Insert document metadata into project database
+      await projectConn.execute(
+        `INSERT INTO documents (id, fileName, filePath, documentType, fileSizeBytes, fileHash, uploadDate, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          documentId,
+          req.file.originalname,
+          req.file.path,
+          finalDocumentType,
+          req.file.size,
+          fileHash,
+          uploadDate,
+          'Uploaded'
+        ]
+      );
+
+      if (exactDuplicate) {
+        await applyUploadDuplicateAction(projectConn, documentId, exactDuplicate, duplicateAction);
+      }
+    } finally {
+      await projectConn.end();
+    }
 
     console.log(`[Upload API] Document saved: ${documentId}`);
 
-    // Start processing asynchronously
+    // Queue processing (durable background job)
     const projectIdNum = parseInt(projectId);
-    processDocument(projectIdNum, documentId, req.file.path, finalDocumentType).catch(err => {
-      console.error(`Failed to process document ${documentId}:`, err);
+    await enqueueProcessingJob({
+      projectId: projectIdNum,
+      jobType: 'document_processing',
+      documentId,
+      payload: { filePath: req.file.path, documentType: finalDocumentType },
     });
 
-    console.log(`[Upload API] Processing started for document: ${documentId}`);
+    console.log(`[Upload API] Processing queued for document: ${documentId}`);
 
     // Return success response
     res.json({
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseTypedValue } from '../shared/units';
+import { compareFactValues, factValues, toleranceFor, type ToleranceRule } from './value-tolerances';
+
+function valuesOf(text: string) {
+  return factValues({ value: text, typedValue: parseTypedValue(text) });
+}
+
+function rule(factKey: string, valueKind: ToleranceRule['valueKind'], tolerance: Partial<ToleranceRule>): ToleranceRule {
+  return { id: null, factKey, valueKind, relativePercent: null, absolute: null, days: null, notes: null, ...tolerance };
+}
+
+describe('Value Tolerances', () => {
+  it('should find a COD slip in statements that share a capacity', () => {
+    const result = compareFactValues(
+      'Project_Timeline',
+      valuesOf('The 300 MWp plant reaches COD in Q3 2026'),
+      valuesOf('COD of the 0.3 GWp plant is planned for March 2027'),
+      []
+    );
+
+    expect(result.comparison).toBe('different');
+    expect(result.conflictType).toBe('date_mismatch');
+    expect(result.difference?.label).toBe('+8 months');
+  });
+
+  it('should classify numerical mismatches with their magnitude', () => {
+    const result = compareFactValues('Financial_Structure', valuesOf('Capex of USD 40 million'), valuesOf('USD 45m total capex'), []);
+    expect(result).toMatchObject({ comparison: 'different', conflictType: 'numerical_mismatch' });
+    expect(result.difference).toMatchObject({ value: 12.5, unit: '%', label: '+12.5 %' });
+
+    const rounding = compareFactValues('Technical_Design', valuesOf('300 MWp'), valuesOf('299.8 MWp'), []);
+    expect(rounding.comparison).toBe('equal');
+    expect(compareFactValues('Technical_Design', valuesOf('Fixed tilt'), valuesOf('Single axis trackers'), []).comparison).toBe('different');
+    expect(compareFactValues('Other', valuesOf('Land lease signed'), valuesOf('Lease executed'), []).comparison).toBe('incomparable');
+  });
+
+  it('should prefer a key rule over the * rule and the built-in default', () => {
+    const rules = [
+      rule('*', 'date', { days: 0 }),
+      rule('Project_Timeline', 'date', { days: 31 }),
+      rule('Technical_Design', 'power', { absolute: 5 }),
+    ];
+
+    expect(toleranceFor(rules, 'Project_Timeline', 'date')).toEqual({ relative: null, absolute: null, days: 31 });
+    expect(toleranceFor(rules, 'Dependencies', 'date').days).toBe(0);
+    expect(toleranceFor(rules, 'Dependencies', 'energy').relative).toBeCloseTo(0.01);
+
+    // Q3 2026 ends on 30 Sep, October starts a day later
+    const slip = [valuesOf('COD in Q3 2026'), valuesOf('COD in October 2026')] as const;
+    expect(compareFactValues('Project_Timeline', ...slip, rules).comparison).toBe('equal');
+    expect(compareFactValues('Dependencies', ...slip, rules).comparison).toBe('different');
+    expect(compareFactValues('Technical_Design', valuesOf('300 MW'), valuesOf('296 MW'), rules).comparison).toBe('equal');
+  });
+});
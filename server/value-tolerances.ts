@@ -0,0 +1,223 @@
+/**
+ * Value Tolerances
+ *
+ * Per-key tolerances for comparing fact values during reconciliation
+ * (main database `value_tolerances`), and the comparison itself:
+ * - Quantities, amounts, percentages and dates are parsed out of both
+ *   statements, converted to canonical units and compared kind by kind
+ *   ("300 MWp, COD Q3 2026" vs "0.3 GWp, COD March 2027": same capacity,
+ *   different COD)
+ * - A rule for a fact key and kind of value wins over the '*' rule for that
+ *   kind, which wins over the built-in default
+ * - Differences are classified as date or numerical mismatches with their
+ *   magnitude ("+12.5 %", "+8 months")
+ */
+
+import { and, asc, eq } from 'drizzle-orm';
+import { getDb } from './db';
+import { valueTolerances } from '../drizzle/schema';
+import {
+  compareTypedValues,
+  describeDifference,
+  findTypedValues,
+  valueKind,
+  type TypedValue,
+  type ValueComparison,
+  type ValueDifference,
+  type ValueKind,
+  type ValueTolerance,
+} from '../shared/units';
+
+// Kinds of value with a tolerance; enumerations are always compared exactly
+export const VALUE_KINDS: ValueKind[] = ['power', 'energy', 'voltage', 'currency', 'percentage', 'number', 'date'];
+export const ANY_KEY = '*';
+
+export type ConflictType = 'value_mismatch' | 'date_mismatch' | 'numerical_mismatch';
+
+export interface ToleranceRule {
+  id: number | null;                // null for built-in defaults
+  factKey: string;                  // '*' for every key
+  valueKind: ValueKind;
+  relativePercent: number | null;   // % of the larger value
+  absolute: number | null;          // canonical unit; percentage points for percentages
+  days: number | null;              // dates: gap between the two periods
+  notes: string | null;
+}
+
+export interface FactValueComparison {
+  comparison: ValueComparison;
+  conflictType: ConflictType;
+  valueA: TypedValue | null;        // the values that decided the comparison
+  valueB: TypedValue | null;
+  difference: ValueDifference | null;
+}
+
+const DEFAULT_TOLERANCES: ToleranceRule[] = [
+  { factKey: ANY_KEY, valueKind: 'power', relativePercent: 0.5, absolute: null, days: null, notes: 'Rounding of plant capacities' },
+  { factKey: ANY_KEY, valueKind: 'energy', relativePercent: 1, absolute: null, days: null, notes: 'Rounding of yield estimates' },
+  { factKey: ANY_KEY, valueKind: 'voltage', relativePercent: 0, absolute: null, days: null, notes: 'Voltage levels must match' },
+  { factKey: ANY_KEY, valueKind: 'currency', relativePercent: 0.5, absolute: null, days: null, notes: null },
+  { factKey: ANY_KEY, valueKind: 'percentage', relativePercent: null, absolute: 0.1, days: null, notes: 'Percentage points' },
+  { factKey: ANY_KEY, valueKind: 'number', relativePercent: 0.1, absolute: null, days: null, notes: null },
+  { factKey: ANY_KEY, valueKind: 'date', relativePercent: null, absolute: null, days: 0, notes: 'Dates match when their periods overlap' },
+].map(rule => ({ id: null, ...rule }) as ToleranceRule);
+
+let seeded = false;
+
+/**
+ * Insert the built-in tolerances into an empty table, so admins can edit them
+ */
+async function ensureDefaultTolerances(db: any): Promise<void> {
+  if (seeded) return;
+
+  const existing = await db.select({ id: valueTolerances.id }).from(valueTolerances).limit(1);
+  if (existing.length === 0) {
+    await db.insert(valueTolerances).values(DEFAULT_TOLERANCES.map(({ id, ...rule }) => rule));
+    console.log(`[Tolerances] Seeded ${DEFAULT_TOLERANCES.length} default tolerances`);
+  }
+  seeded = true;
+}
+
+/**
+ * All tolerance rules, '*' rules first, then by key and kind
+ */
+export async function listToleranceRules(): Promise<ToleranceRule[]> {
+  const db = await getDb();
+  await ensureDefaultTolerances(db);
+  const rows = await db.select().from(valueTolerances).orderBy(asc(valueTolerances.factKey), asc(valueTolerances.valueKind));
+  const rules: ToleranceRule[] = rows.map(toRule);
+  return rules.sort((a, b) => Number(b.factKey === ANY_KEY) - Number(a.factKey === ANY_KEY));
+}
+
+/**
+ * Tolerance rules for a reconciliation run; the built-in defaults when the
+ * main database is unavailable
+ */
+export async function loadToleranceRules(): Promise<ToleranceRule[]> {
+  try {
+    return await listToleranceRules();
+  } catch (error) {
+    console.error('[Tolerances] Failed to load tolerances, using defaults:', error);
+    return DEFAULT_TOLERANCES;
+  }
+}
+
+/**
+ * Create or update the rule for a fact key and kind of value
+ */
+export async function saveToleranceRule(input: {
+  factKey: string;
+  valueKind: ValueKind;
+  relativePercent?: number | null;
+  absolute?: number | null;
+  days?: number | null;
+  notes?: string | null;
+}): Promise<void> {
+  const factKey = input.factKey.trim() || ANY_KEY;
+  const values = {
+    relativePercent: input.relativePercent ?? null,
+    absolute: input.absolute ?? null,
+    days: input.days ?? null,
+    notes: input.notes?.trim() || null,
+  };
+  if (input.valueKind === 'date' ? values.days === null : values.relativePercent === null && values.absolute === null) {
+    throw new Error(input.valueKind === 'date' ? 'A date tolerance needs a number of days' : 'A tolerance needs a relative or an absolute value');
+  }
+
+  const db = await getDb();
+  await ensureDefaultTolerances(db);
+  const existing = await db
+    .select({ id: valueTolerances.id })
+    .from(valueTolerances)
+    .where(and(eq(valueTolerances.factKey, factKey), eq(valueTolerances.valueKind, input.valueKind)))
+    .limit(1);
+  if (existing.length > 0) {
+    await db.update(valueTolerances).set(values).where(eq(valueTolerances.id, existing[0].id));
+  } else {
+    await db.insert(valueTolerances).values({ factKey, valueKind: input.valueKind, ...values });
+  }
+  console.log(`[Tolerances] Saved ${input.valueKind} tolerance for ${factKey}`);
+}
+
+/**
+ * Delete a rule; a deleted '*' rule falls back to the built-in default
+ */
+export async function deleteToleranceRule(id: number): Promise<void> {
+  const db = await getDb();
+  await db.delete(valueTolerances).where(eq(valueTolerances.id, id));
+}
+
+/**
+ * Tolerance for a kind of value of a fact key
+ */
+export function toleranceFor(rules: ToleranceRule[], factKey: string, kind: ValueKind): ValueTolerance {
+  const rule = rules.find(r => r.factKey === factKey && r.valueKind === kind)
+    ?? rules.find(r => r.factKey === ANY_KEY && r.valueKind === kind)
+    ?? DEFAULT_TOLERANCES.find(r => r.valueKind === kind);
+  if (!rule) return {};
+  return {
+    relative: rule.relativePercent === null ? null : rule.relativePercent / 100,
+    absolute: rule.absolute,
+    days: rule.days,
+  };
+}
+
+/**
+ * Typed values of a fact: its stored typed value, then every value in its text
+ */
+export function factValues(fact: { value: string; typedValue: TypedValue | null }): TypedValue[] {
+  return [...(fact.typedValue ? [fact.typedValue] : []), ...findTypedValues(fact.value)];
+}
+
+/**
+ * Compare two facts of a key by the values they share: the first value of each
+ * kind in A against the first comparable value in B. Any difference beyond the
+ * tolerance makes the facts different; otherwise one equal kind makes them equal.
+ */
+export function compareFactValues(
+  factKey: string,
+  valuesA: TypedValue[],
+  valuesB: TypedValue[],
+  rules: ToleranceRule[]
+): FactValueComparison {
+  let equalPair: [TypedValue, TypedValue] | null = null;
+
+  for (let i = 0; i < valuesA.length; i++) {
+    const a = valuesA[i];
+    // Later values of a kind already compared ("300 MWp ... two 150 MWp blocks")
+    if (valuesA.slice(0, i).some(earlier => compareTypedValues(earlier, a) !== 'incomparable')) continue;
+    const b = valuesB.find(candidate => compareTypedValues(a, candidate) !== 'incomparable');
+    if (!b) continue;
+
+    if (compareTypedValues(a, b, toleranceFor(rules, factKey, valueKind(a))) === 'different') {
+      return {
+        comparison: 'different',
+        conflictType: a.type === 'date' ? 'date_mismatch' : a.type === 'enum' ? 'value_mismatch' : 'numerical_mismatch',
+        valueA: a,
+        valueB: b,
+        difference: describeDifference(a, b),
+      };
+    }
+    equalPair ??= [a, b];
+  }
+
+  return {
+    comparison: equalPair ? 'equal' : 'incomparable',
+    conflictType: 'value_mismatch',
+    valueA: equalPair?.[0] ?? null,
+    valueB: equalPair?.[1] ?? null,
+    difference: null,
+  };
+}
+
+function toRule(row: any): ToleranceRule {
+  return {
+    id: row.id,
+    factKey: row.factKey,
+    valueKind: row.valueKind as ValueKind,
+    relativePercent: row.relativePercent === null ? null : Number(row.relativePercent),
+    absolute: row.absolute === null ? null : Number(row.absolute),
+    days: row.days === null ? null : Number(row.days),
+    notes: row.notes,
+  };
+}
@@ -11,7 +11,9 @@
  * Date: January 24, 2026
  */
 
-import { invokeLLM } from "./_core/llm.js";
+import { invokeStructured } from "./llm-structured";
+import { weatherReferencesSchema } from "./llm-output-schemas";
+import { renderPrompt } from "./prompt-templates";
 import { storagePut } from "./storage";
 import { v4 as uuidv4 } from "uuid";
 import axios from "axios";
@@ -41,50 +43,19 @@ export class WeatherFileExtractor {
     documentId: string,
     fileName: string
   ): Promise<ExtractedWeatherData> {
-    const prompt = `You are analyzing a solar project document to find weather data references.
-
-DOCUMENT: ${fileName}
-
-Extract ALL weather file references, including:
-1. Direct URLs to weather files (.csv, .epw, .tm2, .tm3, .wth)
-2. References to weather data sources (PVGIS, NSRDB, SolarAnywhere, Meteonorm, PVsyst)
-3. Mentions of TMY (Typical Meteorological Year) data
-4. Weather file names or identifiers
-5. Embedded weather data tables (if present)
-
-For each reference, provide:
-- type: "url" | "embedded" | "reference"
-- url: Direct URL if available
-- description: What the reference says
-- format: Detected format (pvgis, tmy3, epw, pvsyst, solaranywhere, meteonorm, unknown)
-- location: Geographic location mentioned
-- confidence: 0.0-1.0 confidence score
-- sourceLocation: Page number or section where found
-
-Return JSON:
-{
-  "references": [
-    {
-      "type": "url",
-      "url": "https://example.com/weather.csv",
-      "description": "PVGIS TMY data for Malta",
-      "format": "pvgis",
-      "location": "Malta, 35.9°N 14.4°E",
-      "confidence": 0.95,
-      "sourceLocation": "Page 12, Section 3.2"
-    }
-  ]
-}
-
-DOCUMENT TEXT (first 50,000 characters):
-${documentText.substring(0, 50000)}`;
+    const { prompt, systemPrompt, versionTag } = await renderPrompt('weather_references', {
+      file_name: fileName,
+      text: documentText.substring(0, 50000),
+    });
+    console.log(`Extracting weather references with prompt ${versionTag}`);
 
     try {
-      const response = await invokeLLM({
+      const parsed = await invokeStructured({
+        stage: 'extraction',
         messages: [
           {
             role: "system",
-            content: "You are a technical document analyzer specializing in solar energy project data extraction. Return valid JSON only."
+            content: systemPrompt
           },
           {
             role: "user",
@@ -137,17 +108,10 @@ ${documentText.substring(0, 50000)}`;
             }
           }
         }
-      });
-
-      const content = response.choices[0].message.content;
-      if (!content || typeof content !== 'string') {
-        throw new Error("Empty or invalid response from LLM");
-      }
-
-      const parsed = JSON.parse(content);
+      }, weatherReferencesSchema, { label: versionTag });
       
       return {
-        references: parsed.references || [],
+        references: parsed.references,
         extractionMethod: "llm",
         confidence: parsed.references.length > 0 
           ? parsed.references.reduce((sum: number, ref: WeatherFileReference) => sum + ref.confidence, 0) / parsed.references.length
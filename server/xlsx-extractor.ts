@@ -19,6 +19,7 @@ export interface XlsxExtractionResult {
   }>;
   totalRows: number;
   totalCells: number;
+  workbook: XLSX.WorkBook; // kept for structured (cell-level) extraction
 }
 
 /**
@@ -77,6 +78,7 @@ export async function extractTextFromXlsx(xlsxBuffer: Buffer): Promise<XlsxExtra
       sheets,
       totalRows,
       totalCells,
+      workbook,
     };
   } catch (error) {
     console.error('[XLSX Extractor] Extraction failed:', error);
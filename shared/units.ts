@@ -0,0 +1,472 @@
+/**
+ * Typed Fact Values
+ *
+ * Parses free-text values ("300 MWp", "0.3 GW", "USD 52.6 million",
+ * "March 2027", "14.2%") into typed values in a canonical unit, so values
+ * from different documents can be compared, sorted and filtered.
+ *
+ * Canonical units: power MW (with DC/AC qualifier), energy MWh, voltage kV,
+ * percentages %, currency amounts in the ISO currency, dates as ISO strings
+ * (first day of the period) with their precision.
+ *
+ * Shared by the extraction pipeline (server) and the fact filters (client).
+ */
+
+export type ValueDataType = 'quantity' | 'percentage' | 'currency' | 'date' | 'enum' | 'number';
+export type Dimension = 'power' | 'energy' | 'voltage';
+export type DatePrecision = 'day' | 'month' | 'quarter' | 'year';
+
+export type TypedValue =
+  | { type: 'quantity'; value: number; unit: string; dimension: Dimension; qualifier?: 'dc' | 'ac' }
+  | { type: 'percentage'; value: number; unit: '%' }
+  | { type: 'currency'; value: number; unit: string }
+  | { type: 'date'; value: string; precision: DatePrecision }
+  | { type: 'enum'; value: string; vocabulary: string }
+  | { type: 'number'; value: number };
+
+export type DateValue = Extract<TypedValue, { type: 'date' }>;
+
+export type ValueComparison = 'equal' | 'different' | 'incomparable';
+
+// What a tolerance applies to: the dimension of quantities, otherwise the value type
+export type ValueKind = Dimension | Exclude<ValueDataType, 'quantity'>;
+
+/**
+ * How far apart two values may be and still count as equal. Numbers are equal
+ * within the relative or the absolute tolerance, dates when the gap between
+ * their periods is at most `days` ("Q3 2026" and "Oct 2026" are 1 day apart).
+ */
+export interface ValueTolerance {
+  relative?: number | null;   // fraction of the larger value (0.01 = 1 %)
+  absolute?: number | null;   // in the canonical unit (MW, MWh, kV, percentage points, currency)
+  days?: number | null;
+}
+
+// Signed difference of the second value from the first ("+12.5 %", "-2 pp", "+8 months")
+export interface ValueDifference {
+  value: number;
+  unit: '%' | 'pp' | 'days' | 'months';
+  label: string;
+}
+
+const DEFAULT_TOLERANCE: ValueTolerance = { relative: 0.001 };
+
+export interface ValueFilter {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  value: TypedValue;
+}
+
+// Units and their factor to the canonical unit of their dimension
+const UNITS: Record<string, { dimension: Dimension; factor: number }> = {
+  W: { dimension: 'power', factor: 1e-6 },
+  kW: { dimension: 'power', factor: 1e-3 },
+  MW: { dimension: 'power', factor: 1 },
+  GW: { dimension: 'power', factor: 1e3 },
+  Wh: { dimension: 'energy', factor: 1e-6 },
+  kWh: { dimension: 'energy', factor: 1e-3 },
+  MWh: { dimension: 'energy', factor: 1 },
+  GWh: { dimension: 'energy', factor: 1e3 },
+  TWh: { dimension: 'energy', factor: 1e6 },
+  V: { dimension: 'voltage', factor: 1e-3 },
+  kV: { dimension: 'voltage', factor: 1 },
+};
+
+const CANONICAL_UNITS: Record<Dimension, string> = { power: 'MW', energy: 'MWh', voltage: 'kV' };
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'us$': 'USD', 'a$': 'AUD', 'au$': 'AUD', '$': 'USD', '€': 'EUR', '£': 'GBP',
+  usd: 'USD', eur: 'EUR', gbp: 'GBP', aud: 'AUD',
+};
+
+const SCALE_WORDS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, mio: 1e6, million: 1e6, millions: 1e6,
+  bn: 1e9, billion: 1e9, billions: 1e9,
+};
+
+// Enumerations recognised in short values, most specific first
+const ENUM_VOCABULARIES: Array<{ vocabulary: string; value: string; pattern: RegExp }> = [
+  { vocabulary: 'tracking_type', value: 'dual_axis', pattern: /\b(dual|two)[- ]axis\b/i },
+  { vocabulary: 'tracking_type', value: 'single_axis', pattern: /\bsingle[- ]axis\b|\bh?sat\b/i },
+  { vocabulary: 'tracking_type', value: 'fixed_tilt', pattern: /\bfixed[- ](tilt|mount(ed|ing)?|structures?|racking)\b/i },
+  { vocabulary: 'technology', value: 'bess', pattern: /\b(bess|battery|batteries)\b/i },
+  { vocabulary: 'technology', value: 'wind', pattern: /\b(on|off)?shore wind\b|\bwind (farm|turbines?|project)\b|^wind$/i },
+  { vocabulary: 'technology', value: 'solar_pv', pattern: /\b(solar|photovoltaic|pv)\b/i },
+];
+
+// Longest value still read as an enumeration rather than a statement
+const MAX_ENUM_TEXT_LENGTH = 60;
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?`;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+
+const PATTERNS = {
+  currencyPrefix: new RegExp(String.raw`(us\$|au?\$|\$|€|£|\b(?:usd|eur|gbp|aud)\b)\s?(${NUMBER})(?:\s?(k|thousand|mm|mn|mio|m|millions?|bn|billions?)\b)?(?!\s*\/)`, 'gi'),
+  currencySuffix: new RegExp(String.raw`\b(${NUMBER})(?:\s?(k|thousand|mm|mn|mio|m|millions?|bn|billions?))?\s?(usd|eur|gbp|aud)\b(?!\s*\/)`, 'gi'),
+  quantity: new RegExp(String.raw`\b(${NUMBER})\s?(w|kw|mw|gw|wh|kwh|mwh|gwh|twh|v|kv)(p|ac|dc|e)?(?:\s(ac|dc)\b)?(?![a-z\/])`, 'gi'),
+  percentage: new RegExp(String.raw`(${NUMBER})\s?(?:%|percent\b|per cent\b)`, 'gi'),
+  isoDate: /\b(\d{4})-(\d{2})(?:-(\d{2}))?\b/g,
+  numericDate: /\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g,
+  namedDate: new RegExp(String.raw`\b(?:(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?)?${MONTH_NAME}(?:\s+(\d{1,2})(?:st|nd|rd|th)?,?)?\s+(\d{4})\b`, 'gi'),
+  quarter: /\b(?:q([1-4])\s*(?:of\s+)?(\d{4})|(\d{4})\s*q([1-4]))\b/gi,
+  year: /^(?:in\s+|by\s+)?((?:19|20)\d{2})$/i,
+  yearInText: /\b(?:in|by|during|from|until|end of|mid|early|late)[\s-]+((?:19|20)\d{2})\b/gi,
+  number: new RegExp(String.raw`^(${NUMBER})$`),
+};
+
+/**
+ * Typed value of a free-text value, or null when it holds no recognisable value.
+ * In longer text the first recognisable value wins.
+ */
+export function parseTypedValue(text: string | null | undefined): TypedValue | null {
+  if (!text) return null;
+  const trimmed = text.trim();
+
+  // Earliest match; at the same position the longer one ("USD 5 million" over "5")
+  const candidates = valueCandidates(trimmed);
+  if (candidates.length > 0) return candidates[0].value;
+
+  const year = trimmed.match(PATTERNS.year);
+  if (year) return { type: 'date', value: `${year[1]}-01-01`, precision: 'year' };
+
+  const number = trimmed.match(PATTERNS.number);
+  if (number) return { type: 'number', value: toNumber(number[1]) };
+
+  if (trimmed.length <= MAX_ENUM_TEXT_LENGTH) {
+    const match = ENUM_VOCABULARIES.find(entry => entry.pattern.test(trimmed));
+    if (match) return { type: 'enum', value: match.value, vocabulary: match.vocabulary };
+  }
+  return null;
+}
+
+/**
+ * All quantities, amounts, percentages and dates in free text, in order of
+ * appearance ("300 MWp ... COD in Q3 2026" -> 300 MW DC, Q3 2026)
+ */
+export function findTypedValues(text: string | null | undefined): TypedValue[] {
+  if (!text) return [];
+  const candidates = [
+    ...valueCandidates(text),
+    ...matchAll(PATTERNS.yearInText, text, match => date(match[1], undefined, undefined)),
+  ].sort((a, b) => a.index - b.index || b.length - a.length);
+  return withoutOverlaps(candidates);
+}
+
+/**
+ * Dates in free text in order of appearance ("financial close in Q2 2026 and
+ * COD by 2027"). Bare years only count after a preposition ("in 2027").
+ */
+export function findDates(text: string | null | undefined): DateValue[] {
+  if (!text) return [];
+  const candidates = [
+    ...matchAll(PATTERNS.isoDate, text, match => date(match[1], match[2], match[3])),
+    ...matchAll(PATTERNS.numericDate, text, match => date(match[3], match[2], match[1])),
+    ...matchAll(PATTERNS.namedDate, text, match => date(match[4], monthNumber(match[2]), match[1] || match[3])),
+    ...matchAll(PATTERNS.quarter, text, match => quarter(match[2] || match[3], match[1] || match[4])),
+    ...matchAll(PATTERNS.yearInText, text, match => date(match[1], undefined, undefined)),
+  ].sort((a, b) => a.index - b.index || b.length - a.length);
+  return withoutOverlaps(candidates) as DateValue[];
+}
+
+/**
+ * Last day of a date's period ("2027-04-01" at quarter precision -> "2027-06-30")
+ */
+export function periodEnd(typed: DateValue): string {
+  const [year, month] = typed.value.split('-').map(Number);
+  const lastMonth = { day: month, month, quarter: Math.floor((month - 1) / 3) * 3 + 3, year: 12 }[typed.precision];
+  if (typed.precision === 'day') return typed.value;
+  const lastDay = new Date(Date.UTC(year, lastMonth, 0)).getUTCDate();
+  return `${year}-${pad(lastMonth)}-${pad(lastDay)}`;
+}
+
+/**
+ * Convert a quantity between units of the same dimension ("0.3", "GW" -> "MW" = 300)
+ */
+export function convertQuantity(value: number, fromUnit: string, toUnit: string): number | null {
+  const from = UNITS[fromUnit];
+  const to = UNITS[toUnit];
+  if (!from || !to || from.dimension !== to.dimension) return null;
+  return round(value * from.factor / to.factor);
+}
+
+/**
+ * Numeric value of free text in a target unit: a unit (MW, kW, GWh, kV...),
+ * '%' or a currency code. Plain numbers are taken to be in the target unit.
+ */
+export function toUnitValue(text: string | number | null | undefined, targetUnit: string): number | null {
+  if (typeof text === 'number') return Number.isFinite(text) ? text : null;
+  const typed = parseTypedValue(text);
+  if (!typed) return null;
+
+  switch (typed.type) {
+    case 'number':
+      return typed.value;
+    case 'quantity':
+      return convertQuantity(typed.value, typed.unit, targetUnit);
+    case 'percentage':
+      return targetUnit === '%' ? typed.value : null;
+    case 'currency':
+      return typed.unit === targetUnit ? typed.value : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare two typed values. Numbers are equal within the tolerance (0.1 % by
+ * default), dates when their periods are no more than `days` apart - by
+ * default when they overlap ("March 2027" = "2027-03-15").
+ */
+export function compareTypedValues(a: TypedValue, b: TypedValue, tolerance: ValueTolerance = DEFAULT_TOLERANCE): ValueComparison {
+  if (a.type !== b.type) return 'incomparable';
+
+  if (a.type === 'date' && b.type === 'date') {
+    return dateGapDays(a, b) <= (tolerance.days ?? 0) ? 'equal' : 'different';
+  }
+  if (a.type === 'enum' && b.type === 'enum') {
+    if (a.vocabulary !== b.vocabulary) return 'incomparable';
+    return a.value === b.value ? 'equal' : 'different';
+  }
+  if (a.type === 'quantity' && b.type === 'quantity') {
+    if (a.dimension !== b.dimension) return 'incomparable';
+    if (a.qualifier && b.qualifier && a.qualifier !== b.qualifier) return 'incomparable';
+  }
+  if (a.type === 'currency' && b.type === 'currency' && a.unit !== b.unit) return 'incomparable';
+
+  const x = a.value as number;
+  const y = b.value as number;
+  const withinRelative = tolerance.relative != null && relativeDifference(x, y) <= tolerance.relative;
+  const withinAbsolute = tolerance.absolute != null && Math.abs(x - y) <= tolerance.absolute;
+  return withinRelative || withinAbsolute || x === y ? 'equal' : 'different';
+}
+
+/**
+ * Kind of value a tolerance is set for (power, energy, voltage, percentage, currency, date...)
+ */
+export function valueKind(typed: TypedValue): ValueKind {
+  return typed.type === 'quantity' ? typed.dimension : typed.type;
+}
+
+/**
+ * How much the second value differs from the first: relative for quantities
+ * and amounts, in percentage points for percentages, in days or months for
+ * dates. Null for values that cannot be compared or have no scale.
+ */
+export function describeDifference(a: TypedValue, b: TypedValue): ValueDifference | null {
+  if (compareTypedValues(a, b) === 'incomparable' || a.type === 'enum' || b.type === 'enum') return null;
+
+  if (a.type === 'date' && b.type === 'date') {
+    if (a.precision === 'day' && b.precision === 'day') {
+      const days = Math.round((Date.parse(b.value) - Date.parse(a.value)) / DAY_MS);
+      return { value: days, unit: 'days', label: `${signed(days)} ${plural(days, 'day')}` };
+    }
+    // Between the starts of the periods ("Q3 2026" -> "Mar 2027" is 8 months)
+    const [yearA, monthA] = a.value.split('-').map(Number);
+    const [yearB, monthB] = b.value.split('-').map(Number);
+    const months = (yearB - yearA) * 12 + (monthB - monthA);
+    return { value: months, unit: 'months', label: `${signed(months)} ${plural(months, 'month')}` };
+  }
+
+  const x = a.value as number;
+  const y = b.value as number;
+  if (a.type === 'percentage') {
+    const points = round(y - x);
+    return { value: points, unit: 'pp', label: `${signed(points, 1)} pp` };
+  }
+  if (x === 0) return null;
+  const percent = round((y - x) / Math.abs(x) * 100);
+  return { value: percent, unit: '%', label: `${signed(percent, 1)} %` };
+}
+
+/**
+ * |a - b| relative to the larger magnitude (0 when both are 0)
+ */
+export function relativeDifference(a: number, b: number): number {
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 ? 0 : Math.abs(a - b) / scale;
+}
+
+/**
+ * Human-readable typed value ("62.5 MW DC", "USD 52,600,000", "Mar 2027")
+ */
+export function formatTypedValue(typed: TypedValue): string {
+  switch (typed.type) {
+    case 'quantity': {
+      // Large energies read better in GWh, small powers in kW
+      let { value, unit } = typed;
+      if (unit === 'MWh' && Math.abs(value) >= 1000) { value = value / 1000; unit = 'GWh'; }
+      if (unit === 'MW' && Math.abs(value) < 1 && value !== 0) { value = value * 1000; unit = 'kW'; }
+      return `${formatNumber(value)} ${unit}${typed.qualifier ? ` ${typed.qualifier.toUpperCase()}` : ''}`;
+    }
+    case 'percentage':
+      return `${formatNumber(typed.value)}%`;
+    case 'currency':
+      return `${typed.unit} ${formatNumber(typed.value)}`;
+    case 'date':
+      return formatDate(typed.value, typed.precision);
+    case 'enum':
+      return typed.value.replace(/_/g, ' ');
+    case 'number':
+      return formatNumber(typed.value);
+  }
+}
+
+/**
+ * Comparison filter typed into a search box (">= 100 MW", "< 2028", "> 5%")
+ */
+export function parseValueFilter(query: string): ValueFilter | null {
+  const match = query.trim().match(/^(>=|<=|>|<|=)\s*(.+)$/);
+  if (!match) return null;
+  const value = parseTypedValue(match[2]);
+  if (!value || value.type === 'enum') return null;
+  return { operator: match[1] as ValueFilter['operator'], value };
+}
+
+/**
+ * Whether a typed value passes a comparison filter (values of another kind or unit never do)
+ */
+export function matchesValueFilter(typed: TypedValue | null, filter: ValueFilter): boolean {
+  if (!typed) return false;
+  const target = filter.value;
+
+  let difference: number;
+  if (typed.type === 'date' && target.type === 'date') {
+    difference = typed.value.localeCompare(target.value);
+  } else if (typed.type === 'number' || target.type === 'number') {
+    // A plain number filters quantities, percentages and amounts in their stored unit
+    if (typed.type === 'date' || typed.type === 'enum' || target.type === 'date' || target.type === 'enum') return false;
+    difference = typed.value - (target.value as number);
+  } else if (compareTypedValues(typed, target) === 'incomparable') {
+    return false;
+  } else {
+    difference = (typed.value as number) - (target.value as number);
+  }
+
+  switch (filter.operator) {
+    case '>': return difference > 0;
+    case '>=': return difference >= 0;
+    case '<': return difference < 0;
+    case '<=': return difference <= 0;
+    case '=': return compareTypedValues(typed, target) === 'equal' || difference === 0;
+  }
+}
+
+type Candidate = { index: number; length: number; value: TypedValue };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function valueCandidates(text: string): Candidate[] {
+  return [
+    ...matchAll(PATTERNS.currencyPrefix, text, match => currency(match[1], match[2], match[3])),
+    ...matchAll(PATTERNS.currencySuffix, text, match => currency(match[3], match[1], match[2])),
+    ...matchAll(PATTERNS.quantity, text, match => quantity(match[1], match[2], match[3] || match[4])),
+    ...matchAll(PATTERNS.percentage, text, match => ({ type: 'percentage', value: toNumber(match[1]), unit: '%' })),
+    ...matchAll(PATTERNS.isoDate, text, match => date(match[1], match[2], match[3])),
+    ...matchAll(PATTERNS.numericDate, text, match => date(match[3], match[2], match[1])), // day first
+    ...matchAll(PATTERNS.namedDate, text, match => date(match[4], monthNumber(match[2]), match[1] || match[3])),
+    ...matchAll(PATTERNS.quarter, text, match => quarter(match[2] || match[3], match[1] || match[4])),
+  ].sort((a, b) => a.index - b.index || b.length - a.length);
+}
+
+// Drop matches inside a longer one ("2027-03" within "2027-03-15"); candidates sorted by position
+function withoutOverlaps(candidates: Candidate[]): TypedValue[] {
+  const values: TypedValue[] = [];
+  let end = -1;
+  for (const candidate of candidates) {
+    if (candidate.index < end) continue;
+    values.push(candidate.value);
+    end = candidate.index + candidate.length;
+  }
+  return values;
+}
+
+function matchAll(pattern: RegExp, text: string, build: (match: RegExpExecArray) => TypedValue | null): Candidate[] {
+  const candidates: Candidate[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = build(match);
+    if (value) candidates.push({ index: match.index, length: match[0].length, value });
+  }
+  return candidates;
+}
+
+function currency(symbol: string, amount: string, scale: string | undefined): TypedValue | null {
+  const code = CURRENCY_SYMBOLS[symbol.toLowerCase()];
+  if (!code) return null;
+  return { type: 'currency', value: round(toNumber(amount) * (scale ? SCALE_WORDS[scale.toLowerCase()] || 1 : 1)), unit: code };
+}
+
+function quantity(amount: string, unitText: string, suffix: string | undefined): TypedValue | null {
+  // Case-insensitive unit names; "m" is always mega in this domain
+  const unit = Object.keys(UNITS).find(name => name.toLowerCase() === unitText.toLowerCase());
+  if (!unit) return null;
+  const { dimension, factor } = UNITS[unit];
+  const value = round(toNumber(amount) * factor);
+
+  const marker = dimension === 'power' ? suffix?.toLowerCase() : undefined;
+  const qualifier = marker === 'p' || marker === 'dc' ? 'dc' : marker === 'ac' ? 'ac' : undefined;
+  return { type: 'quantity', value, unit: CANONICAL_UNITS[dimension], dimension, ...(qualifier ? { qualifier } : {}) };
+}
+
+function date(year: string, month: string | number | undefined, day: string | undefined): TypedValue | null {
+  const monthNumber = month === undefined ? undefined : Number(month);
+  if (monthNumber !== undefined && (monthNumber < 1 || monthNumber > 12)) return null;
+  if (day !== undefined && (Number(day) < 1 || Number(day) > 31)) return null;
+
+  const precision: DatePrecision = day ? 'day' : monthNumber ? 'month' : 'year';
+  const value = `${year}-${pad(monthNumber ?? 1)}-${pad(day ? Number(day) : 1)}`;
+  return { type: 'date', value, precision };
+}
+
+function quarter(year: string, quarterNumber: string): TypedValue {
+  return { type: 'date', value: `${year}-${pad((Number(quarterNumber) - 1) * 3 + 1)}-01`, precision: 'quarter' };
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+// Days from the end of the earlier period to the start of the later one (0 when they overlap)
+function dateGapDays(a: DateValue, b: DateValue): number {
+  const [first, second] = a.value <= b.value ? [a, b] : [b, a];
+  const gap = (Date.parse(second.value) - Date.parse(periodEnd(first))) / DAY_MS;
+  return Math.max(0, Math.round(gap));
+}
+
+function formatDate(isoDate: string, precision: DatePrecision): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  const monthName = MONTHS[month - 1].charAt(0).toUpperCase() + MONTHS[month - 1].slice(1);
+  switch (precision) {
+    case 'day': return `${day} ${monthName} ${year}`;
+    case 'month': return `${monthName} ${year}`;
+    case 'quarter': return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+    case 'year': return String(year);
+  }
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 4 });
+}
+
+function signed(value: number, fractionDigits = 0): string {
+  const text = Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+  return value > 0 ? `+${text}` : value < 0 ? `-${text}` : text;
+}
+
+function plural(value: number, unit: string): string {
+  return Math.abs(value) === 1 ? unit : `${unit}s`;
+}
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+function round(value: number): number {
+  return parseFloat(value.toPrecision(12));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}